@@ -0,0 +1,212 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { ClipboardCheck, CheckCircle, XCircle, Hourglass, History } from "lucide-react";
+import { PageHeader, EmptyState, LoadingState, ErrorState } from "@/components/shared";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { RouteGuard } from "@/components/auth/route-guard";
+import { useToast } from "@/components/ui/toast";
+import { useUserStore } from "@/lib/stores/useUserStore";
+import { useApprovalRequests, useDecideApprovalRequest, APPROVAL_TYPE_LABELS } from "@/lib/queries/approvals";
+import { formatCurrency, formatDateTime } from "@/lib/utils/date";
+import type { ApprovalRequest, ApprovalRequestStatus, ApprovalRequestType } from "@/lib/types";
+import { getErrorMessage } from "@/lib/utils/error";
+
+const TYPE_BADGES: Record<ApprovalRequestType, string> = {
+  discount: "bg-purple-100 text-purple-700 border-purple-200",
+  late_fee_waiver: "bg-orange-100 text-orange-700 border-orange-200",
+  cancellation: "bg-red-100 text-red-700 border-red-200",
+};
+
+const personName = (person?: { full_name?: string | null; username?: string | null } | null) =>
+  person?.full_name || person?.username || "Unknown";
+
+export default function ApprovalsPage() {
+  const { user } = useUserStore();
+  const { showToast } = useToast();
+  const [tab, setTab] = useState<"pending" | "decided">("pending");
+  const { data: requests, isLoading, error, refetch } = useApprovalRequests(user?.branch_id || null, tab);
+  const decideMutation = useDecideApprovalRequest();
+
+  const [decision, setDecision] = useState<{ request: ApprovalRequest; status: Exclude<ApprovalRequestStatus, "pending"> } | null>(null);
+  const [reason, setReason] = useState("");
+
+  const openDecision = (request: ApprovalRequest, status: Exclude<ApprovalRequestStatus, "pending">) => {
+    setDecision({ request, status });
+    setReason("");
+  };
+
+  const handleDecide = async () => {
+    if (!decision) return;
+    if (decision.status === "rejected" && !reason.trim()) {
+      showToast("Please give a reason for rejecting", "error");
+      return;
+    }
+
+    try {
+      await decideMutation.mutateAsync({
+        request: decision.request,
+        decision: decision.status,
+        reason,
+      });
+      showToast(decision.status === "approved" ? "Request approved" : "Request rejected", "success");
+      setDecision(null);
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to save decision"), "error");
+    }
+  };
+
+  return (
+    <RouteGuard allowedRoles={["super_admin", "branch_admin"]}>
+      <div className="min-h-screen bg-[#f7f9fb] pb-24">
+        <PageHeader
+          title="Approvals"
+          description="Discounts, late fee waivers and cancellations by staff above the branch limits"
+        >
+          <Tabs value={tab} onValueChange={(value) => setTab(value as "pending" | "decided")}>
+            <TabsList className="gap-2">
+              <TabsTrigger value="pending" className="gap-2">
+                <Hourglass className="h-4 w-4" />
+                Pending
+              </TabsTrigger>
+              <TabsTrigger value="decided" className="gap-2">
+                <History className="h-4 w-4" />
+                History
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </PageHeader>
+
+        <div className="px-4 md:px-6 py-4">
+          {isLoading ? (
+            <LoadingState message="Loading approval requests..." />
+          ) : error ? (
+            <ErrorState message="Failed to load approval requests" onRetry={() => refetch()} />
+          ) : !requests || requests.length === 0 ? (
+            <EmptyState
+              icon={<ClipboardCheck className="h-16 w-16" />}
+              title={tab === "pending" ? "Nothing waiting for approval" : "No decisions yet"}
+              description={tab === "pending" ? "Requests from staff show up here" : "Approved and rejected requests show up here"}
+            />
+          ) : (
+            <div className="space-y-3">
+              {requests.map((request) => (
+                <Card key={request.id} className="p-4 md:p-5">
+                  <div className="flex items-start justify-between gap-4 flex-wrap">
+                    <div className="space-y-1.5 min-w-0 flex-1">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <Badge variant="outline" className={TYPE_BADGES[request.type]}>
+                          {APPROVAL_TYPE_LABELS[request.type]}
+                        </Badge>
+                        <Link
+                          href={`/orders/${request.order_id}`}
+                          className="font-mono font-semibold text-[#273492] hover:underline"
+                        >
+                          {request.order?.invoice_number || "Order"}
+                        </Link>
+                        {request.order?.customer?.name && (
+                          <span className="text-sm text-gray-600 truncate">{request.order.customer.name}</span>
+                        )}
+                      </div>
+                      <p className="font-semibold text-gray-900">{request.summary}</p>
+                      {request.request_reason && (
+                        <p className="text-sm text-gray-600">Reason: {request.request_reason}</p>
+                      )}
+                      <p className="text-xs text-gray-500">
+                        Requested by {personName(request.requester)} · {formatDateTime(request.requested_at)}
+                      </p>
+                      {request.status !== "pending" && (
+                        <p className="text-xs text-gray-500">
+                          {request.status === "approved" ? "Approved" : "Rejected"} by {personName(request.decider)}
+                          {request.decided_at && ` · ${formatDateTime(request.decided_at)}`}
+                          {request.decision_reason && ` · ${request.decision_reason}`}
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="flex flex-col items-end gap-2">
+                      <span className="text-lg font-bold text-gray-900">{formatCurrency(request.amount)}</span>
+                      {request.status === "pending" ? (
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => openDecision(request, "rejected")}>
+                            <XCircle className="h-4 w-4 mr-1.5" />
+                            Reject
+                          </Button>
+                          <Button size="sm" onClick={() => openDecision(request, "approved")}>
+                            <CheckCircle className="h-4 w-4 mr-1.5" />
+                            Approve
+                          </Button>
+                        </div>
+                      ) : (
+                        <Badge
+                          className={
+                            request.status === "approved"
+                              ? "bg-green-100 text-green-700 border-green-200"
+                              : "bg-red-100 text-red-700 border-red-200"
+                          }
+                        >
+                          {request.status === "approved" ? "Approved" : "Rejected"}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <Dialog open={!!decision} onOpenChange={(open) => !open && setDecision(null)}>
+          <DialogContent onClose={() => setDecision(null)}>
+            <DialogHeader>
+              <DialogTitle>{decision?.status === "approved" ? "Approve Request" : "Reject Request"}</DialogTitle>
+              <DialogDescription>
+                {decision && (
+                  <>
+                    {APPROVAL_TYPE_LABELS[decision.request.type]} on {decision.request.order?.invoice_number || "this order"}:{" "}
+                    {decision.request.summary}.
+                    {decision.status === "approved"
+                      ? " The change is made now, in your name."
+                      : " The order stays as it is."}
+                  </>
+                )}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="decision-reason">
+                Reason {decision?.status === "rejected" ? "*" : "(optional)"}
+              </Label>
+              <Textarea
+                id="decision-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={decision?.status === "approved" ? "e.g. Regular customer" : "e.g. Discount not covered by policy"}
+                rows={3}
+              />
+              <p className="text-xs text-gray-500">Shown on the order timeline.</p>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDecision(null)} disabled={decideMutation.isPending}>
+                Cancel
+              </Button>
+              <Button
+                variant={decision?.status === "rejected" ? "destructive" : "default"}
+                onClick={handleDecide}
+                disabled={decideMutation.isPending}
+              >
+                {decideMutation.isPending ? "Saving..." : decision?.status === "approved" ? "Approve" : "Reject"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </RouteGuard>
+  );
+}
@@ -6,12 +6,18 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectItem } from "@/components/ui/select";
 import { Save, Trash2 } from "lucide-react";
 import { PageNavbar } from "@/components/layout/page-navbar";
 import { useBranch, useUpdateBranch, useDeleteBranch } from "@/lib/queries/branches";
 import { useToast } from "@/components/ui/toast";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { RouteGuard } from "@/components/auth/route-guard";
+import { describeLateFeePolicy } from "@/lib/utils/late-fee";
+import { isValidInvoicePrefix, getFinancialYearLabel } from "@/lib/utils/invoice";
+import { GST_STATES, normalizeGstin, isValidGstin, getStateCodeFromGstin } from "@/lib/utils/gst";
+import type { CommissionType, LateFeeUnit, LateFeeRateType } from "@/lib/types";
 
 export default function EditBranchPage() {
   const params = useParams();
@@ -26,6 +32,20 @@ export default function EditBranchPage() {
   const [name, setName] = useState("");
   const [address, setAddress] = useState("");
   const [phone, setPhone] = useState("");
+  const [invoicePrefix, setInvoicePrefix] = useState("");
+  const [gstin, setGstin] = useState("");
+  const [stateCode, setStateCode] = useState("");
+  const [lateFeeEnabled, setLateFeeEnabled] = useState(false);
+  const [lateFeeGraceMinutes, setLateFeeGraceMinutes] = useState("0");
+  const [lateFeeUnit, setLateFeeUnit] = useState<LateFeeUnit>("day");
+  const [lateFeeRateType, setLateFeeRateType] = useState<LateFeeRateType>("percent_of_daily_rent");
+  const [lateFeeRate, setLateFeeRate] = useState("100");
+  const [lateFeeCap, setLateFeeCap] = useState("");
+  const [discountThreshold, setDiscountThreshold] = useState("");
+  const [lateFeeWaiverThreshold, setLateFeeWaiverThreshold] = useState("");
+  const [cancelThreshold, setCancelThreshold] = useState("");
+  const [commissionType, setCommissionType] = useState<CommissionType | "none">("none");
+  const [commissionRate, setCommissionRate] = useState("0");
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
@@ -34,6 +54,22 @@ export default function EditBranchPage() {
       setName(branch.name || "");
       setAddress(branch.address || "");
       setPhone(branch.phone || "");
+      setInvoicePrefix(branch.invoice_prefix || "");
+      setGstin(branch.gstin || "");
+      setStateCode(branch.state_code || "");
+      setLateFeeEnabled(!!branch.late_fee_enabled);
+      setLateFeeGraceMinutes(String(branch.late_fee_grace_minutes ?? 0));
+      setLateFeeUnit(branch.late_fee_unit || "day");
+      setLateFeeRateType(branch.late_fee_rate_type || "percent_of_daily_rent");
+      setLateFeeRate(String(branch.late_fee_rate ?? 100));
+      setLateFeeCap(branch.late_fee_cap != null ? String(branch.late_fee_cap) : "");
+      setDiscountThreshold(branch.approval_discount_threshold != null ? String(branch.approval_discount_threshold) : "");
+      setLateFeeWaiverThreshold(
+        branch.approval_late_fee_waiver_threshold != null ? String(branch.approval_late_fee_waiver_threshold) : ""
+      );
+      setCancelThreshold(branch.approval_cancel_threshold != null ? String(branch.approval_cancel_threshold) : "");
+      setCommissionType(branch.commission_type || "none");
+      setCommissionRate(String(branch.commission_rate ?? 0));
     }
   }, [branch?.id]); // Only depend on branch.id to prevent unnecessary re-runs
 
@@ -45,12 +81,59 @@ export default function EditBranchPage() {
       return;
     }
 
+    if (!isValidInvoicePrefix(invoicePrefix)) {
+      showToast("Invoice prefix must be 1-5 letters or digits", "error");
+      return;
+    }
+
+    if (gstin && !isValidGstin(gstin)) {
+      showToast("Enter a valid GSTIN or leave it empty", "error");
+      return;
+    }
+
+    const graceMinutes = parseInt(lateFeeGraceMinutes, 10) || 0;
+    const rate = parseFloat(lateFeeRate) || 0;
+    const cap = lateFeeCap.trim() === "" ? null : parseFloat(lateFeeCap);
+    if (graceMinutes < 0 || rate < 0 || (cap !== null && (isNaN(cap) || cap < 0))) {
+      showToast("Late fee settings can't be negative", "error");
+      return;
+    }
+
+    // Empty = no approval needed
+    const thresholds = [discountThreshold, lateFeeWaiverThreshold, cancelThreshold].map((value) =>
+      value.trim() === "" ? null : parseFloat(value)
+    );
+    if (thresholds.some((value) => value !== null && (isNaN(value) || value < 0))) {
+      showToast("Approval thresholds can't be negative", "error");
+      return;
+    }
+
+    const commission = parseFloat(commissionRate) || 0;
+    if (commission < 0) {
+      showToast("Commission can't be negative", "error");
+      return;
+    }
+
     try {
       await updateBranchMutation.mutateAsync({
         id: branchId,
         name: name.trim(),
         address: address.trim(),
         phone: phone.trim() || undefined,
+        invoice_prefix: invoicePrefix,
+        gstin: gstin || null,
+        state_code: getStateCodeFromGstin(gstin) || stateCode || null,
+        late_fee_enabled: lateFeeEnabled,
+        late_fee_grace_minutes: graceMinutes,
+        late_fee_unit: lateFeeUnit,
+        late_fee_rate_type: lateFeeRateType,
+        late_fee_rate: rate,
+        late_fee_cap: cap,
+        approval_discount_threshold: thresholds[0],
+        approval_late_fee_waiver_threshold: thresholds[1],
+        approval_cancel_threshold: thresholds[2],
+        commission_type: commissionType === "none" ? null : commissionType,
+        commission_rate: commissionType === "none" ? 0 : commission,
       });
       showToast("Branch updated successfully", "success");
       router.push("/branches");
@@ -153,6 +236,271 @@ export default function EditBranchPage() {
                 />
               </div>
 
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="gstin" className="text-sm font-semibold">
+                    GSTIN
+                  </Label>
+                  <Input
+                    id="gstin"
+                    value={gstin}
+                    onChange={(e) => {
+                      const value = normalizeGstin(e.target.value);
+                      setGstin(value);
+                      const code = getStateCodeFromGstin(value);
+                      if (code) setStateCode(code);
+                    }}
+                    placeholder="Uses the GST number in settings if empty"
+                    className="mt-2 font-mono"
+                    maxLength={15}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="state-code" className="text-sm font-semibold">
+                    State
+                  </Label>
+                  <Select
+                    id="state-code"
+                    value={stateCode}
+                    onChange={(e) => setStateCode(e.target.value)}
+                    className="mt-2"
+                    disabled={!!getStateCodeFromGstin(gstin)}
+                  >
+                    <SelectItem value="">Select state</SelectItem>
+                    {Object.entries(GST_STATES).map(([code, name]) => (
+                      <SelectItem key={code} value={code}>
+                        {code} - {name}
+                      </SelectItem>
+                    ))}
+                  </Select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Customers in the same state are charged CGST + SGST, others IGST.
+                  </p>
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="invoice-prefix" className="text-sm font-semibold">
+                  Invoice Prefix *
+                </Label>
+                <Input
+                  id="invoice-prefix"
+                  value={invoicePrefix}
+                  onChange={(e) => setInvoicePrefix(e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, 5))}
+                  placeholder="e.g. GLA"
+                  className="mt-2 font-mono"
+                  required
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Invoices are numbered {invoicePrefix || "PREFIX"}/{getFinancialYearLabel()}/0001 onwards and restart every financial year.
+                </p>
+              </div>
+
+              <div className="pt-4 border-t space-y-4">
+                <div className="flex items-center gap-3">
+                  <Checkbox
+                    id="late-fee-enabled"
+                    checked={lateFeeEnabled}
+                    onCheckedChange={setLateFeeEnabled}
+                  />
+                  <Label htmlFor="late-fee-enabled" className="text-sm font-semibold cursor-pointer">
+                    Calculate late fees automatically
+                  </Label>
+                </div>
+
+                {lateFeeEnabled && (
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="late-fee-rate-type" className="text-sm font-semibold">
+                          Charge
+                        </Label>
+                        <Select
+                          id="late-fee-rate-type"
+                          value={lateFeeRateType}
+                          onChange={(e) => setLateFeeRateType(e.target.value as LateFeeRateType)}
+                          className="mt-2"
+                        >
+                          <SelectItem value="percent_of_daily_rent">% of daily rent</SelectItem>
+                          <SelectItem value="fixed">Fixed ₹ per piece</SelectItem>
+                        </Select>
+                      </div>
+                      <div>
+                        <Label htmlFor="late-fee-rate" className="text-sm font-semibold">
+                          {lateFeeRateType === "fixed" ? "Rate (₹)" : "Rate (%)"}
+                        </Label>
+                        <Input
+                          id="late-fee-rate"
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={lateFeeRate}
+                          onChange={(e) => setLateFeeRate(e.target.value)}
+                          className="mt-2"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="late-fee-unit" className="text-sm font-semibold">
+                          Per
+                        </Label>
+                        <Select
+                          id="late-fee-unit"
+                          value={lateFeeUnit}
+                          onChange={(e) => setLateFeeUnit(e.target.value as LateFeeUnit)}
+                          className="mt-2"
+                        >
+                          <SelectItem value="day">Day late</SelectItem>
+                          <SelectItem value="hour">Hour late</SelectItem>
+                        </Select>
+                      </div>
+                      <div>
+                        <Label htmlFor="late-fee-grace" className="text-sm font-semibold">
+                          Grace Period (minutes)
+                        </Label>
+                        <Input
+                          id="late-fee-grace"
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={lateFeeGraceMinutes}
+                          onChange={(e) => setLateFeeGraceMinutes(e.target.value)}
+                          className="mt-2"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="late-fee-cap" className="text-sm font-semibold">
+                          Maximum per Order (₹)
+                        </Label>
+                        <Input
+                          id="late-fee-cap"
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={lateFeeCap}
+                          onChange={(e) => setLateFeeCap(e.target.value)}
+                          placeholder="No limit"
+                          className="mt-2"
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {describeLateFeePolicy({
+                        grace_minutes: parseInt(lateFeeGraceMinutes, 10) || 0,
+                        unit: lateFeeUnit,
+                        rate_type: lateFeeRateType,
+                        rate: parseFloat(lateFeeRate) || 0,
+                        cap: lateFeeCap.trim() === "" ? null : parseFloat(lateFeeCap) || 0,
+                      })}
+                      . Staff can override the calculated fee on return with a reason.
+                    </p>
+                  </>
+                )}
+              </div>
+
+              <div className="pt-4 border-t space-y-4">
+                <div>
+                  <p className="text-sm font-semibold">Approvals</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Changes by staff above these amounts wait for a branch admin on the Approvals page. Leave empty to never require approval.
+                  </p>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="approval-discount" className="text-sm font-semibold">
+                      Discounts over (₹)
+                    </Label>
+                    <Input
+                      id="approval-discount"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={discountThreshold}
+                      onChange={(e) => setDiscountThreshold(e.target.value)}
+                      placeholder="No approval"
+                      className="mt-2"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="approval-late-fee-waiver" className="text-sm font-semibold">
+                      Late fee waivers over (₹)
+                    </Label>
+                    <Input
+                      id="approval-late-fee-waiver"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={lateFeeWaiverThreshold}
+                      onChange={(e) => setLateFeeWaiverThreshold(e.target.value)}
+                      placeholder="No approval"
+                      className="mt-2"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="approval-cancel" className="text-sm font-semibold">
+                      Cancelling orders over (₹)
+                    </Label>
+                    <Input
+                      id="approval-cancel"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={cancelThreshold}
+                      onChange={(e) => setCancelThreshold(e.target.value)}
+                      placeholder="No approval"
+                      className="mt-2"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Discounts are reductions of an order&apos;s total, waivers are late fees lowered below the calculated fee. Set cancellations to 0 to require approval for every cancellation.
+                </p>
+              </div>
+
+              <div className="pt-4 border-t space-y-4">
+                <div>
+                  <p className="text-sm font-semibold">Staff Commission</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Used for the monthly payout statement in Staff Performance. Staff earn on the orders they book; cancelled orders earn nothing.
+                  </p>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="commission-type" className="text-sm font-semibold">
+                      Commission
+                    </Label>
+                    <Select
+                      id="commission-type"
+                      value={commissionType}
+                      onChange={(e) => setCommissionType(e.target.value as CommissionType | "none")}
+                      className="mt-2"
+                    >
+                      <SelectItem value="none">No commission</SelectItem>
+                      <SelectItem value="percent_of_rent">% of rent</SelectItem>
+                      <SelectItem value="per_order">Fixed ₹ per order</SelectItem>
+                    </Select>
+                  </div>
+                  {commissionType !== "none" && (
+                    <div>
+                      <Label htmlFor="commission-rate" className="text-sm font-semibold">
+                        {commissionType === "per_order" ? "Per order (₹)" : "Rate (%)"}
+                      </Label>
+                      <Input
+                        id="commission-rate"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={commissionRate}
+                        onChange={(e) => setCommissionRate(e.target.value)}
+                        className="mt-2"
+                      />
+                    </div>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  Rent is the order subtotal, before GST and late or damage fees.
+                </p>
+              </div>
+
               <div className="flex items-center justify-between pt-4 border-t">
                 <Button
                   type="button"
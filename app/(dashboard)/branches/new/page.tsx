@@ -9,6 +9,7 @@ import { Card } from "@/components/ui/card";
 import { ArrowLeft, Building2 } from "lucide-react";
 import { useCreateBranch } from "@/lib/queries/branches";
 import { useToast } from "@/components/ui/toast";
+import { isValidInvoicePrefix, getFinancialYearLabel } from "@/lib/utils/invoice";
 import Link from "next/link";
 import { RouteGuard } from "@/components/auth/route-guard";
 import { PageNavbar } from "@/components/layout/page-navbar";
@@ -22,6 +23,7 @@ export default function NewBranchPage() {
     name: "",
     address: "",
     phone: "",
+    invoice_prefix: "",
   });
 
   const [loading, setLoading] = useState(false);
@@ -41,10 +43,16 @@ export default function NewBranchPage() {
         return;
       }
 
+      if (formData.invoice_prefix && !isValidInvoicePrefix(formData.invoice_prefix)) {
+        showToast("Invoice prefix must be 1-5 letters or digits", "error");
+        return;
+      }
+
       await createBranchMutation.mutateAsync({
         name: formData.name.trim(),
         address: formData.address.trim(),
         phone: formData.phone.trim() || undefined,
+        invoice_prefix: formData.invoice_prefix || undefined,
       });
 
       showToast("Branch created successfully!", "success");
@@ -125,6 +133,26 @@ export default function NewBranchPage() {
               />
             </div>
 
+            {/* Invoice Prefix */}
+            <div className="space-y-2">
+              <Label htmlFor="invoice_prefix" className="text-sm font-semibold">
+                Invoice Prefix
+              </Label>
+              <Input
+                id="invoice_prefix"
+                type="text"
+                placeholder="e.g., GLA"
+                value={formData.invoice_prefix}
+                onChange={(e) =>
+                  setFormData({ ...formData, invoice_prefix: e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, 5) })
+                }
+                className="h-12 font-mono"
+              />
+              <p className="text-xs text-gray-500">
+                Invoices are numbered {formData.invoice_prefix || "PREFIX"}/{getFinancialYearLabel()}/0001 onwards. Leave empty to get a generated prefix.
+              </p>
+            </div>
+
             {/* Actions */}
             <div className="flex items-center gap-3 pt-4">
               <StandardButton
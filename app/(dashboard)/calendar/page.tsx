@@ -7,10 +7,11 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useCalendarOrders } from "@/lib/queries/calendar";
+import { BookingTimeline } from "@/components/calendar/booking-timeline";
 import { useUserStore } from "@/lib/stores/useUserStore";
 import { format, isToday, isSameMonth, startOfMonth, endOfMonth, parseISO, isFuture, isPast, startOfToday } from "date-fns";
 import Link from "next/link";
-import { ArrowLeft, ArrowRight, Calendar as CalendarIcon, Sparkles, Clock, Package, TrendingUp, ChevronRight, Phone, IndianRupee } from "lucide-react";
+import { ArrowLeft, ArrowRight, Calendar as CalendarIcon, Sparkles, Clock, TrendingUp, ChevronRight, Phone, IndianRupee, GanttChart } from "lucide-react";
 import "react-calendar/dist/Calendar.css";
 import "@/components/calendar/calendar.css";
 
@@ -75,6 +76,7 @@ export default function CalendarPage() {
   const { user } = useUserStore();
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [viewDate, setViewDate] = useState(new Date());
+  const [view, setView] = useState<"month" | "timeline">("month");
 
   const { data, isLoading } = useCalendarOrders(user?.branch_id || null, viewDate);
 
@@ -221,6 +223,24 @@ export default function CalendarPage() {
               View and manage scheduled orders for upcoming dates
             </p>
           </div>
+          <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              variant={view === "month" ? "default" : "outline"}
+              onClick={() => setView("month")}
+            >
+              <CalendarIcon className="h-4 w-4 mr-1" />
+              Month
+            </Button>
+            <Button
+              size="sm"
+              variant={view === "timeline" ? "default" : "outline"}
+              onClick={() => setView("timeline")}
+            >
+              <GanttChart className="h-4 w-4 mr-1" />
+              Timeline
+            </Button>
+          </div>
         </div>
 
         {/* Quick Stats Bar */}
@@ -276,131 +296,144 @@ export default function CalendarPage() {
           </div>
         )}
 
-        <div className="flex flex-col lg:flex-row gap-6">
-          {/* Calendar */}
-          <div className="flex-1">
-            <Card className="p-4 md:p-6 bg-white/80 backdrop-blur-sm border-gray-200/60 shadow-lg premium-hover">
-              <Calendar
-                onChange={(value) => {
-                  if (value instanceof Date) {
-                    setViewDate(value);
-                  } else if (Array.isArray(value) && value[0] instanceof Date) {
-                    setViewDate(value[0]);
-                  }
-                }}
-                value={viewDate}
-                onClickDay={handleDateClick}
-                tileContent={tileContent}
-                tileClassName={tileClassName}
-                className="w-full border-0 premium-calendar"
-                navigationLabel={({ date }) => (
-                  <div className="flex items-center gap-2">
-                    <span className="text-lg font-bold text-gray-900">
-                      {format(date, "MMMM yyyy")}
-                    </span>
-                  </div>
-                )}
-                prevLabel={<ArrowLeft className="h-5 w-5 text-gray-700 hover:text-[#273492] transition-colors" />}
-                nextLabel={<ArrowRight className="h-5 w-5 text-gray-700 hover:text-[#273492] transition-colors" />}
-                minDetail="month"
-                maxDetail="month"
-              />
-
-              {/* Legend */}
-              <div className="mt-6 pt-6 border-t border-gray-200/60">
-                <div className="flex flex-wrap gap-4 text-sm">
-                  <div className="flex items-center gap-2">
-                    <div className="w-4 h-4 rounded-full bg-gradient-to-r from-[#273492] to-[#1f2a7a] shadow-sm"></div>
-                    <span className="text-gray-700 font-medium">Scheduled Orders</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <div className="w-4 h-4 rounded border-2 border-[#273492] bg-[#273492]/10"></div>
-                    <span className="text-gray-700 font-medium">Today</span>
-                  </div>
-                </div>
-                <p className="text-xs text-gray-500 mt-3">
-                  Only scheduled orders for future dates and today are displayed
-                </p>
-              </div>
-            </Card>
-          </div>
+        {view === "timeline" && (
+          <BookingTimeline
+            branchId={user?.branch_id || null}
+            month={viewDate}
+            onMonthChange={(month) => {
+              setViewDate(month);
+              setSelectedDate(null);
+            }}
+          />
+        )}
 
-          {/* Selected Date Orders */}
-          {selectedDate && (
-            <div className="lg:w-96 animate-fade-in">
-              <Card className="p-4 md:p-6 h-full bg-white/80 backdrop-blur-sm border-gray-200/60 shadow-lg">
-                <div className="flex items-center justify-between mb-6">
-                  <div>
-                    <h3 className="font-bold text-lg text-gray-900 mb-1">
-                      {format(selectedDate, "EEEE, MMMM d")}
-                    </h3>
-                    <p className="text-sm text-gray-500">
-                      {format(selectedDate, "yyyy")}
-                    </p>
-                    {isToday(selectedDate) && (
-                      <Badge className="mt-2 bg-[#273492] text-white text-xs px-2 py-1">
-                        Today
-                      </Badge>
-                    )}
+        {view === "month" && (
+          <div className="flex flex-col lg:flex-row gap-6">
+            {/* Calendar */}
+            <div className="flex-1">
+              <Card className="p-4 md:p-6 bg-white/80 backdrop-blur-sm border-gray-200/60 shadow-lg premium-hover">
+                <Calendar
+                  onChange={(value) => {
+                    if (value instanceof Date) {
+                      setViewDate(value);
+                    } else if (Array.isArray(value) && value[0] instanceof Date) {
+                      setViewDate(value[0]);
+                    }
+                  }}
+                  value={viewDate}
+                  onClickDay={handleDateClick}
+                  tileContent={tileContent}
+                  tileClassName={tileClassName}
+                  className="w-full border-0 premium-calendar"
+                  navigationLabel={({ date }) => (
+                    <div className="flex items-center gap-2">
+                      <span className="text-lg font-bold text-gray-900">
+                        {format(date, "MMMM yyyy")}
+                      </span>
+                    </div>
+                  )}
+                  prevLabel={<ArrowLeft className="h-5 w-5 text-gray-700 hover:text-[#273492] transition-colors" />}
+                  nextLabel={<ArrowRight className="h-5 w-5 text-gray-700 hover:text-[#273492] transition-colors" />}
+                  minDetail="month"
+                  maxDetail="month"
+                />
+
+                {/* Legend */}
+                <div className="mt-6 pt-6 border-t border-gray-200/60">
+                  <div className="flex flex-wrap gap-4 text-sm">
+                    <div className="flex items-center gap-2">
+                      <div className="w-4 h-4 rounded-full bg-gradient-to-r from-[#273492] to-[#1f2a7a] shadow-sm"></div>
+                      <span className="text-gray-700 font-medium">Scheduled Orders</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <div className="w-4 h-4 rounded border-2 border-[#273492] bg-[#273492]/10"></div>
+                      <span className="text-gray-700 font-medium">Today</span>
+                    </div>
                   </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => setSelectedDate(null)}
-                    className="h-8 w-8 p-0 hover:bg-gray-100 rounded-lg transition-colors"
-                  >
-                    <ArrowLeft className="h-4 w-4" />
-                  </Button>
+                  <p className="text-xs text-gray-500 mt-3">
+                    Only scheduled orders for future dates and today are displayed
+                  </p>
                 </div>
+              </Card>
+            </div>
 
-                {isLoading ? (
-                  <div className="space-y-3">
-                    {[...Array(3)].map((_, i) => (
-                      <Skeleton key={i} className="h-24 rounded-xl shimmer-premium" />
-                    ))}
+            {/* Selected Date Orders */}
+            {selectedDate && (
+              <div className="lg:w-96 animate-fade-in">
+                <Card className="p-4 md:p-6 h-full bg-white/80 backdrop-blur-sm border-gray-200/60 shadow-lg">
+                  <div className="flex items-center justify-between mb-6">
+                    <div>
+                      <h3 className="font-bold text-lg text-gray-900 mb-1">
+                        {format(selectedDate, "EEEE, MMMM d")}
+                      </h3>
+                      <p className="text-sm text-gray-500">
+                        {format(selectedDate, "yyyy")}
+                      </p>
+                      {isToday(selectedDate) && (
+                        <Badge className="mt-2 bg-[#273492] text-white text-xs px-2 py-1">
+                          Today
+                        </Badge>
+                      )}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setSelectedDate(null)}
+                      className="h-8 w-8 p-0 hover:bg-gray-100 rounded-lg transition-colors"
+                    >
+                      <ArrowLeft className="h-4 w-4" />
+                    </Button>
                   </div>
-                ) : selectedDateOrders.length === 0 ? (
-                  <div className="text-center py-12">
-                    <div className="inline-flex p-4 bg-gray-100 rounded-full mb-4">
-                      <CalendarIcon className="h-8 w-8 text-gray-400" />
+
+                  {isLoading ? (
+                    <div className="space-y-3">
+                      {[...Array(3)].map((_, i) => (
+                        <Skeleton key={i} className="h-24 rounded-xl shimmer-premium" />
+                      ))}
                     </div>
-                    <p className="text-sm font-medium text-gray-900 mb-1">No scheduled orders</p>
+                  ) : selectedDateOrders.length === 0 ? (
+                    <div className="text-center py-12">
+                      <div className="inline-flex p-4 bg-gray-100 rounded-full mb-4">
+                        <CalendarIcon className="h-8 w-8 text-gray-400" />
+                      </div>
+                      <p className="text-sm font-medium text-gray-900 mb-1">No scheduled orders</p>
+                      <p className="text-xs text-gray-500">
+                        {isPast(selectedDate) && !isToday(selectedDate)
+                          ? "This date has passed"
+                          : "No orders scheduled for this date"}
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="space-y-3 max-h-[600px] overflow-y-auto pr-2 custom-scrollbar">
+                      {selectedDateOrders.map((order, index) => (
+                        <OrderCard key={order.id} order={order} index={index} />
+                      ))}
+                    </div>
+                  )}
+                </Card>
+              </div>
+            )}
+
+            {/* Empty State - No Date Selected */}
+            {!selectedDate && (
+              <div className="lg:w-96 animate-fade-in">
+                <Card className="p-6 h-full flex items-center justify-center bg-white/80 backdrop-blur-sm border-gray-200/60 shadow-lg">
+                  <div className="text-center">
+                    <div className="inline-flex p-4 bg-gradient-to-br from-[#273492]/10 to-[#273492]/5 rounded-full mb-4">
+                      <CalendarIcon className="h-8 w-8 text-[#273492]" />
+                    </div>
+                    <p className="text-sm font-semibold text-gray-900 mb-1">
+                      Select a date
+                    </p>
                     <p className="text-xs text-gray-500">
-                      {isPast(selectedDate) && !isToday(selectedDate)
-                        ? "This date has passed"
-                        : "No orders scheduled for this date"}
+                      Click on a date to view scheduled orders
                     </p>
                   </div>
-                ) : (
-                  <div className="space-y-3 max-h-[600px] overflow-y-auto pr-2 custom-scrollbar">
-                    {selectedDateOrders.map((order, index) => (
-                      <OrderCard key={order.id} order={order} index={index} />
-                    ))}
-                  </div>
-                )}
-              </Card>
-            </div>
-          )}
-
-          {/* Empty State - No Date Selected */}
-          {!selectedDate && (
-            <div className="lg:w-96 animate-fade-in">
-              <Card className="p-6 h-full flex items-center justify-center bg-white/80 backdrop-blur-sm border-gray-200/60 shadow-lg">
-                <div className="text-center">
-                  <div className="inline-flex p-4 bg-gradient-to-br from-[#273492]/10 to-[#273492]/5 rounded-full mb-4">
-                    <CalendarIcon className="h-8 w-8 text-[#273492]" />
-                  </div>
-                  <p className="text-sm font-semibold text-gray-900 mb-1">
-                    Select a date
-                  </p>
-                  <p className="text-xs text-gray-500">
-                    Click on a date to view scheduled orders
-                  </p>
-                </div>
-              </Card>
-            </div>
-          )}
-        </div>
+                </Card>
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -20,6 +20,7 @@ import {
   TrendingUp,
   ToggleLeft,
   ToggleRight,
+  FileText,
 } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { StandardButton } from "@/components/shared/standard-button";
@@ -27,11 +28,17 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { useCustomer, useCustomerOrders, useUpdateCustomer } from "@/lib/queries/customers";
+import { useCustomer, useCustomerOrders, useCustomerRiskProfile, useUpdateCustomer } from "@/lib/queries/customers";
+import { useCustomerBalance } from "@/lib/queries/payments";
 import { useToast } from "@/components/ui/toast";
 import { formatDate, formatCurrency, getOrderStatus } from "@/lib/utils/date";
 import { Select, SelectItem } from "@/components/ui/select";
 import { IdProofUpload } from "@/components/customers/id-proof-upload";
+import { CustomerGstFields } from "@/components/customers/customer-gst-fields";
+import { CustomerRiskBadge } from "@/components/customers/customer-risk-badge";
+import { CustomerRiskCard } from "@/components/customers/customer-risk-card";
+import { CustomerMergeCard } from "@/components/customers/customer-merge-card";
+import { isValidGstin, formatStateLabel } from "@/lib/utils/gst";
 import { ImageLightbox } from "@/components/ui/image-lightbox";
 import { PageNavbar } from "@/components/layout/page-navbar";
 
@@ -43,6 +50,8 @@ export default function CustomerDetailsPage() {
 
   const { data: customer, isLoading: customerLoading } = useCustomer(customerId);
   const { data: orders, isLoading: ordersLoading } = useCustomerOrders(customerId);
+  const { data: balance } = useCustomerBalance(customerId);
+  const { data: riskProfile } = useCustomerRiskProfile(customerId);
   const updateCustomerMutation = useUpdateCustomer();
 
   const [isEditing, setIsEditing] = useState(false);
@@ -55,6 +64,8 @@ export default function CustomerDetailsPage() {
     id_proof_number: "",
     id_proof_front_url: "",
     id_proof_back_url: "",
+    gstin: "",
+    state_code: "",
   });
 
   // Initialize form data when customer loads
@@ -68,6 +79,8 @@ export default function CustomerDetailsPage() {
         id_proof_number: customer.id_proof_number || "",
         id_proof_front_url: customer.id_proof_front_url || "",
         id_proof_back_url: customer.id_proof_back_url || "",
+        gstin: customer.gstin || "",
+        state_code: customer.state_code || "",
       });
     }
   }, [customer]);
@@ -89,6 +102,11 @@ export default function CustomerDetailsPage() {
       return;
     }
 
+    if (formData.gstin && !isValidGstin(formData.gstin)) {
+      showToast("Enter a valid GSTIN or leave it empty", "error");
+      return;
+    }
+
     try {
       await updateCustomerMutation.mutateAsync({
         customerId,
@@ -100,6 +118,8 @@ export default function CustomerDetailsPage() {
           id_proof_number: formData.id_proof_number.trim() || undefined,
           id_proof_front_url: formData.id_proof_front_url || undefined,
           id_proof_back_url: formData.id_proof_back_url || undefined,
+          gstin: formData.gstin || null,
+          state_code: formData.state_code || null,
         },
       });
 
@@ -143,6 +163,8 @@ export default function CustomerDetailsPage() {
         id_proof_number: customer.id_proof_number || "",
         id_proof_front_url: customer.id_proof_front_url || "",
         id_proof_back_url: customer.id_proof_back_url || "",
+        gstin: customer.gstin || "",
+        state_code: customer.state_code || "",
       });
     }
     setIsEditing(false);
@@ -230,7 +252,7 @@ export default function CustomerDetailsPage() {
 
       <div className="p-4 md:p-6 space-y-6 max-w-7xl mx-auto">
         {/* Stats Cards Row - Desktop Only */}
-        <div className="hidden md:grid grid-cols-3 gap-4">
+        <div className="hidden md:grid grid-cols-4 gap-4">
           <Card className="p-5 bg-gradient-to-br from-blue-50 to-blue-100/50 border-blue-200">
             <div className="flex items-center justify-between">
               <div>
@@ -264,6 +286,17 @@ export default function CustomerDetailsPage() {
               </div>
             </div>
           </Card>
+          <Card className="p-5 bg-gradient-to-br from-red-50 to-red-100/50 border-red-200">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-xs font-medium text-red-600 uppercase tracking-wide mb-1">Balance Due</p>
+                <p className="text-2xl font-bold text-red-900">{formatCurrency(balance?.due || 0)}</p>
+              </div>
+              <div className="p-3 bg-red-200/50 rounded-lg">
+                <IndianRupee className="h-6 w-6 text-red-700" />
+              </div>
+            </div>
+          </Card>
         </div>
 
         {/* Main Content Grid - Desktop: 2 columns, Mobile: 1 column */}
@@ -349,6 +382,15 @@ export default function CustomerDetailsPage() {
                     />
                   </div>
 
+                  {/* GST */}
+                  <CustomerGstFields
+                    gstin={formData.gstin}
+                    stateCode={formData.state_code}
+                    onChange={(gstin, stateCode) => setFormData({ ...formData, gstin, state_code: stateCode })}
+                    inputClassName="h-11 text-base rounded-lg border-gray-300 focus:border-[#273492] focus:ring-[#273492]"
+                    labelClassName="text-sm font-semibold text-gray-700"
+                  />
+
                   {/* ID Proof Type */}
                   <div className="space-y-2">
                     <Label className="text-sm font-semibold text-gray-700">ID Proof Type</Label>
@@ -419,11 +461,14 @@ export default function CustomerDetailsPage() {
                         }`}>
                           {customer.name}
                         </h3>
-                        {customer.customer_number && (
-                          <p className="text-sm font-mono text-[#273492] bg-[#273492]/10 px-2 py-1 rounded inline-block">
-                            {customer.customer_number}
-                          </p>
-                        )}
+                        <div className="flex items-center gap-2 flex-wrap">
+                          {customer.customer_number && (
+                            <p className="text-sm font-mono text-[#273492] bg-[#273492]/10 px-2 py-1 rounded inline-block">
+                              {customer.customer_number}
+                            </p>
+                          )}
+                          <CustomerRiskBadge risk={riskProfile} isBlacklisted={customer.is_blacklisted} />
+                        </div>
                       </div>
                     </div>
                     {/* Active/Inactive Toggle */}
@@ -507,6 +552,26 @@ export default function CustomerDetailsPage() {
                         </div>
                       </div>
                     )}
+
+                    {/* GST */}
+                    {(customer.gstin || customer.state_code) && (
+                      <div className="flex items-start gap-3 p-4 bg-gray-50 rounded-lg border border-gray-200">
+                        <div className="p-2 bg-[#273492]/10 rounded-lg">
+                          <FileText className="h-5 w-5 text-[#273492]" />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <Label className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-1 block">
+                            GST
+                          </Label>
+                          {customer.gstin && (
+                            <p className="text-base font-mono font-semibold text-gray-900">{customer.gstin}</p>
+                          )}
+                          {customer.state_code && (
+                            <p className="text-sm text-gray-600">{formatStateLabel(customer.state_code)}</p>
+                          )}
+                        </div>
+                      </div>
+                    )}
                   </div>
 
                   {/* ID Proof Section */}
@@ -671,6 +736,10 @@ export default function CustomerDetailsPage() {
 
           {/* Right Column - Quick Stats (Desktop Only) */}
           <div className="lg:col-span-1 space-y-6">
+            <CustomerRiskCard customer={customer} />
+
+            <CustomerMergeCard customer={customer} />
+
             {/* Quick Stats Card */}
             <Card className="p-6 rounded-xl border border-gray-200 shadow-sm bg-white">
               <h3 className="text-lg font-bold text-gray-900 mb-4">Quick Stats</h3>
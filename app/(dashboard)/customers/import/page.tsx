@@ -0,0 +1,298 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { CheckCircle2, Download, FileUp, Loader2, XCircle, AlertTriangle } from "lucide-react";
+import { StandardButton } from "@/components/shared/standard-button";
+import { Card } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PageNavbar } from "@/components/layout/page-navbar";
+import { useToast } from "@/components/ui/toast";
+import { createClient } from "@/lib/supabase/client";
+import { fetchImportDuplicates, useImportCustomers, type CustomerImportResult } from "@/lib/queries/customers";
+import {
+  downloadCustomerImportTemplate,
+  isImportableRow,
+  parseCustomerCsv,
+  type CustomerImportRow,
+} from "@/lib/utils/customer-import";
+import { downloadCsv } from "@/lib/utils/csv";
+import { getErrorMessage } from "@/lib/utils/error";
+
+type RowFilter = "all" | "ready" | "problems";
+
+function rowProblems(row: CustomerImportRow): string[] {
+  const problems = [...row.errors];
+  if (row.duplicateOfRow) problems.push(`Same phone or ID proof as row ${row.duplicateOfRow}`);
+  row.duplicates.forEach(({ customer }) =>
+    problems.push(`Already exists: ${customer.name}${customer.customer_number ? ` (${customer.customer_number})` : ""}`)
+  );
+  return problems;
+}
+
+/**
+ * Bulk customer import from CSV. Rows are validated and checked for
+ * duplicates first; only clean rows are imported.
+ */
+export default function ImportCustomersPage() {
+  const router = useRouter();
+  const { showToast } = useToast();
+  const supabase = createClient();
+  const importMutation = useImportCustomers();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<CustomerImportRow[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [filter, setFilter] = useState<RowFilter>("all");
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<CustomerImportResult | null>(null);
+
+  const readyCount = useMemo(() => rows.filter(isImportableRow).length, [rows]);
+  const problemCount = rows.length - readyCount;
+
+  const shownRows = useMemo(() => {
+    if (filter === "ready") return rows.filter(isImportableRow);
+    if (filter === "problems") return rows.filter((row) => !isImportableRow(row));
+    return rows;
+  }, [rows, filter]);
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setRows([]);
+    setResult(null);
+    setFilter("all");
+    setChecking(true);
+
+    try {
+      const parsed = await parseCustomerCsv(file);
+      setRows(await fetchImportDuplicates(supabase, parsed));
+    } catch (error) {
+      showToast(getErrorMessage(error, "Couldn't read the file"), "error");
+      setFileName("");
+    } finally {
+      setChecking(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleImport = async () => {
+    if (readyCount === 0) {
+      showToast("No rows are ready to import", "error");
+      return;
+    }
+
+    try {
+      setProgress({ done: 0, total: readyCount });
+      const importResult = await importMutation.mutateAsync({
+        rows,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      setResult(importResult);
+      showToast(
+        `${importResult.created} customer${importResult.created !== 1 ? "s" : ""} imported`,
+        importResult.failed.length > 0 ? "info" : "success"
+      );
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to import customers"), "error");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  // Rows that weren't imported, with the reason, so they can be fixed and re-uploaded
+  const handleDownloadProblems = () => {
+    const failedReasons = new Map(result?.failed.map((f) => [f.rowNumber, f.error]) || []);
+    const skipped = rows.filter((row) => !isImportableRow(row) || failedReasons.has(row.rowNumber));
+
+    downloadCsv(
+      `customer-import-problems-${fileName.replace(/\.csv$/i, "")}`,
+      skipped.map((row) => ({
+        row: row.rowNumber,
+        ...row.data,
+        problem: [...rowProblems(row), failedReasons.get(row.rowNumber)].filter(Boolean).join("; "),
+      }))
+    );
+  };
+
+  const isImporting = importMutation.isPending;
+
+  return (
+    <div className="min-h-screen bg-zinc-50 pb-32">
+      <PageNavbar
+        title="Import Customers"
+        subtitle="Add customers in bulk from a CSV file"
+        backHref="/customers"
+      />
+
+      <div className="p-4 space-y-6 max-w-6xl mx-auto">
+        {/* File */}
+        <Card className="p-4 rounded-xl space-y-4">
+          <div className="flex items-start justify-between gap-4 flex-wrap">
+            <div className="space-y-1">
+              <h2 className="text-lg font-semibold text-gray-900">CSV File</h2>
+              <p className="text-sm text-gray-500">
+                Columns: name, phone (required), address, id_proof_type, id_proof_number, gstin, state_code.
+                Customer numbers are assigned automatically.
+              </p>
+            </div>
+            <StandardButton variant="outline" icon={Download} onClick={downloadCustomerImportTemplate}>
+              Template
+            </StandardButton>
+          </div>
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+            }}
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={checking || isImporting}
+            className="w-full border-2 border-dashed border-gray-300 rounded-xl p-8 flex flex-col items-center gap-2 text-gray-500 hover:border-[#273492] hover:text-[#273492] transition-colors disabled:opacity-50"
+          >
+            {checking ? <Loader2 className="h-8 w-8 animate-spin" /> : <FileUp className="h-8 w-8" />}
+            <span className="text-sm font-medium">
+              {checking ? "Checking rows..." : fileName || "Choose a CSV file"}
+            </span>
+          </button>
+        </Card>
+
+        {/* Preview */}
+        {rows.length > 0 && (
+          <Card className="p-4 rounded-xl space-y-4">
+            <div className="flex items-center justify-between gap-4 flex-wrap">
+              <div className="flex gap-2">
+                {([
+                  ["all", `All (${rows.length})`],
+                  ["ready", `Ready (${readyCount})`],
+                  ["problems", `Problems (${problemCount})`],
+                ] as const).map(([value, label]) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => setFilter(value)}
+                    className={`px-3 py-1.5 rounded-lg text-xs font-semibold border ${
+                      filter === value
+                        ? "bg-[#273492] text-white border-[#273492]"
+                        : "bg-white text-gray-600 border-gray-200 hover:bg-gray-50"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {(problemCount > 0 || (result?.failed.length ?? 0) > 0) && (
+                <StandardButton variant="outline" icon={Download} onClick={handleDownloadProblems}>
+                  Rows with problems
+                </StandardButton>
+              )}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Row</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Phone</TableHead>
+                  <TableHead>ID Proof</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shownRows.map((row) => {
+                  const problems = rowProblems(row);
+                  const hasErrors = row.errors.length > 0;
+                  return (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell className="text-gray-500 font-mono text-xs">{row.rowNumber}</TableCell>
+                      <TableCell className="font-medium">{row.data.name || "—"}</TableCell>
+                      <TableCell className="font-mono text-xs">{row.data.phone || "—"}</TableCell>
+                      <TableCell className="text-xs text-gray-600">
+                        {row.data.id_proof_number
+                          ? `${row.data.id_proof_type || "ID"} · ${row.data.id_proof_number}`
+                          : "—"}
+                      </TableCell>
+                      <TableCell>
+                        {problems.length === 0 ? (
+                          <span className="text-xs font-semibold text-green-700 flex items-center gap-1">
+                            <CheckCircle2 className="h-3.5 w-3.5" />
+                            Ready
+                          </span>
+                        ) : (
+                          <ul className={`text-xs space-y-0.5 ${hasErrors ? "text-red-700" : "text-amber-700"}`}>
+                            {problems.map((problem) => (
+                              <li key={problem} className="flex items-start gap-1">
+                                {hasErrors ? (
+                                  <XCircle className="h-3.5 w-3.5 mt-px flex-shrink-0" />
+                                ) : (
+                                  <AlertTriangle className="h-3.5 w-3.5 mt-px flex-shrink-0" />
+                                )}
+                                {problem}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+
+        {/* Result */}
+        {result && (
+          <Card className="p-4 rounded-xl space-y-2">
+            <p className="text-sm font-semibold text-green-700">
+              {result.created} customer{result.created !== 1 ? "s" : ""} imported
+            </p>
+            {result.failed.length > 0 && (
+              <ul className="text-xs text-red-700 space-y-0.5">
+                {result.failed.map((failure) => (
+                  <li key={failure.rowNumber}>
+                    Row {failure.rowNumber}: {failure.error}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Card>
+        )}
+
+        {rows.length > 0 && (
+          <div className="flex gap-4 pb-8">
+            <StandardButton
+              type="button"
+              variant="outline"
+              onClick={() => router.push("/customers")}
+              className="flex-1"
+            >
+              {result ? "Done" : "Cancel"}
+            </StandardButton>
+            {!result && (
+              <StandardButton
+                type="button"
+                variant="default"
+                className="flex-1"
+                onClick={handleImport}
+                disabled={isImporting || readyCount === 0}
+                loading={isImporting}
+              >
+                {isImporting && progress
+                  ? `Importing ${progress.done}/${progress.total}...`
+                  : `Import ${readyCount} customer${readyCount !== 1 ? "s" : ""}`}
+              </StandardButton>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
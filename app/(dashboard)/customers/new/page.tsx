@@ -10,16 +10,17 @@ import { Label } from "@/components/ui/label";
 import { Card } from "@/components/ui/card";
 import { Select, SelectItem } from "@/components/ui/select";
 import { IdProofUpload } from "@/components/customers/id-proof-upload";
+import { CustomerDuplicateWarning } from "@/components/customers/customer-duplicate-warning";
 import { PageNavbar } from "@/components/layout/page-navbar";
 import { useToast } from "@/components/ui/toast";
-import { createClient } from "@/lib/supabase/client";
-import { useQueryClient } from "@tanstack/react-query";
+import { useCreateCustomer, useDuplicateCustomers } from "@/lib/queries/customers";
+import { useDebounce } from "@/lib/hooks/use-debounce";
+import { isStrongDuplicate } from "@/lib/utils/customer-duplicates";
 
 export default function NewCustomerPage() {
   const router = useRouter();
   const { showToast } = useToast();
-  const supabase = createClient();
-  const queryClient = useQueryClient();
+  const createCustomerMutation = useCreateCustomer();
 
   const [name, setName] = useState("");
   const [phone, setPhone] = useState("");
@@ -28,7 +29,18 @@ export default function NewCustomerPage() {
   const [idProofNumber, setIdProofNumber] = useState("");
   const [idProofFrontUrl, setIdProofFrontUrl] = useState("");
   const [idProofBackUrl, setIdProofBackUrl] = useState("");
-  const [saving, setSaving] = useState(false);
+  const [notDuplicateConfirmed, setNotDuplicateConfirmed] = useState(false);
+
+  const debouncedName = useDebounce(name, 400);
+  const debouncedPhone = useDebounce(phone, 400);
+  const debouncedIdProofNumber = useDebounce(idProofNumber, 400);
+  const { data: duplicates = [] } = useDuplicateCustomers({
+    name: debouncedName,
+    phone: debouncedPhone,
+    id_proof_number: debouncedIdProofNumber,
+  });
+  const hasStrongDuplicate = duplicates.some(isStrongDuplicate);
+  const saving = createCustomerMutation.isPending;
 
   // Phone number validation: exactly 10 digits
   const validatePhone = (phone: string): boolean => {
@@ -49,29 +61,24 @@ export default function NewCustomerPage() {
       return;
     }
 
-    setSaving(true);
+    if (hasStrongDuplicate && !notDuplicateConfirmed) {
+      showToast("This customer may already exist. Check the existing customer or confirm it's a different person.", "error");
+      return;
+    }
+
     showToast("Creating customer...", "info");
 
     try {
-      // Optimized single insert with all fields
-      const { data, error } = await supabase
-        .from("customers")
-        .insert({
-          name: name.trim(),
-          phone: phone.trim(),
-          address: address.trim() || null,
-          id_proof_type: idProofType || null,
-          id_proof_number: idProofNumber.trim() || null,
-          id_proof_front_url: idProofFrontUrl || null,
-          id_proof_back_url: idProofBackUrl || null,
-        } as any)
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      // Invalidate queries in background (non-blocking)
-      queryClient.invalidateQueries({ queryKey: ["customers"] });
+      await createCustomerMutation.mutateAsync({
+        name: name.trim(),
+        phone: phone.trim(),
+        address: address.trim() || null,
+        id_proof_type: idProofType || null,
+        id_proof_number: idProofNumber.trim() || null,
+        id_proof_front_url: idProofFrontUrl || null,
+        id_proof_back_url: idProofBackUrl || null,
+        allow_duplicate: notDuplicateConfirmed,
+      });
 
       showToast("Customer added successfully", "success");
       
@@ -82,11 +89,9 @@ export default function NewCustomerPage() {
       showToast(
         error.message?.includes("unique") 
           ? "Phone number already exists" 
-          : "Failed to create customer",
+          : error.message || "Failed to create customer",
         "error"
       );
-    } finally {
-      setSaving(false);
     }
   };
 
@@ -130,6 +135,7 @@ export default function NewCustomerPage() {
                 // Only allow digits and limit to 10
                 const value = e.target.value.replace(/\D/g, "").slice(0, 10);
                 setPhone(value);
+                setNotDuplicateConfirmed(false);
               }}
               placeholder="Enter 10-digit phone number"
               className="h-14 text-base rounded-xl"
@@ -182,7 +188,10 @@ export default function NewCustomerPage() {
             <Label className="text-sm text-gray-600">ID Proof Number</Label>
             <Input
               value={idProofNumber}
-              onChange={(e) => setIdProofNumber(e.target.value)}
+              onChange={(e) => {
+                setIdProofNumber(e.target.value);
+                setNotDuplicateConfirmed(false);
+              }}
               placeholder="Enter ID proof number"
               className="h-14 text-base rounded-xl"
             />
@@ -205,6 +214,12 @@ export default function NewCustomerPage() {
           </div>
         </Card>
 
+        <CustomerDuplicateWarning
+          matches={duplicates}
+          confirmed={notDuplicateConfirmed}
+          onConfirmedChange={setNotDuplicateConfirmed}
+        />
+
         {/* Submit Button */}
         <div className="flex gap-4 pb-8">
           <StandardButton
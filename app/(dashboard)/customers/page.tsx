@@ -9,7 +9,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
-import { PhoneCall, MapPin, User, Sparkles, Users, TrendingUp, Search, Plus, AlertCircle, IndianRupee } from "lucide-react";
+import { PhoneCall, MapPin, User, Sparkles, Users, Search, Plus, AlertCircle, IndianRupee, FileUp } from "lucide-react";
 import { FloatingActionButton } from "@/components/layout/floating-action-button";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
@@ -261,12 +261,20 @@ export default function CustomersPage() {
                 : "Manage and track all your customers"}
             </p>
           </div>
-          <Link href="/customers/new" className="hidden md:flex">
-            <Button className="bg-[#273492] hover:bg-[#1f2a7a] text-white h-11 px-6 rounded-xl shadow-sm hover:shadow-md transition-all duration-200 flex items-center gap-2">
-              <Plus className="h-5 w-5" />
-              Add Customer
-            </Button>
-          </Link>
+          <div className="flex items-center gap-3">
+            <Link href="/customers/import">
+              <Button variant="outline" className="h-11 px-4 rounded-xl flex items-center gap-2">
+                <FileUp className="h-5 w-5" />
+                Import CSV
+              </Button>
+            </Link>
+            <Link href="/customers/new" className="hidden md:flex">
+              <Button className="bg-[#273492] hover:bg-[#1f2a7a] text-white h-11 px-6 rounded-xl shadow-sm hover:shadow-md transition-all duration-200 flex items-center gap-2">
+                <Plus className="h-5 w-5" />
+                Add Customer
+              </Button>
+            </Link>
+          </div>
         </div>
 
         {/* Premium Search Bar */}
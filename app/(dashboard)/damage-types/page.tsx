@@ -0,0 +1,191 @@
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, Plus } from "lucide-react";
+import { PageHeader, LoadingState, ErrorState, EmptyState } from "@/components/shared";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ActiveToggle } from "@/components/ui/active-toggle";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RouteGuard } from "@/components/auth/route-guard";
+import { useToast } from "@/components/ui/toast";
+import { useDamageTypes, useCreateDamageType, useUpdateDamageType } from "@/lib/queries/damage";
+import type { DamageType } from "@/lib/types";
+import { getErrorMessage } from "@/lib/utils/error";
+
+export default function DamageTypesPage() {
+  const { showToast } = useToast();
+  const { data: damageTypes = [], isLoading, error, refetch } = useDamageTypes({ includeInactive: true });
+  const createMutation = useCreateDamageType();
+  const updateMutation = useUpdateDamageType();
+
+  // Unsaved default charges, by damage type id
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [newCharge, setNewCharge] = useState("");
+
+  const getCharge = (type: DamageType) => drafts[type.id] ?? String(type.default_charge);
+  const isDirty = (type: DamageType) =>
+    drafts[type.id] !== undefined && parseFloat(drafts[type.id]) !== Number(type.default_charge);
+
+  const clearDraft = (id: string) => {
+    setDrafts((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  const handleSaveCharge = async (type: DamageType) => {
+    setSavingId(type.id);
+    try {
+      await updateMutation.mutateAsync({ id: type.id, default_charge: parseFloat(getCharge(type)) });
+      clearDraft(type.id);
+      showToast(`${type.name} charge saved`, "success");
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to save charge"), "error");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleToggleActive = async (type: DamageType, isActive: boolean) => {
+    try {
+      await updateMutation.mutateAsync({ id: type.id, is_active: isActive });
+      showToast(isActive ? `${type.name} can be picked at return` : `${type.name} hidden from returns`, "success");
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to update damage type"), "error");
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+
+    try {
+      await createMutation.mutateAsync({
+        name: newName,
+        defaultCharge: parseFloat(newCharge) || 0,
+        sortOrder: damageTypes.reduce((max, type) => Math.max(max, type.sort_order), 0) + 1,
+      });
+      setNewName("");
+      setNewCharge("");
+      showToast("Damage type added", "success");
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to add damage type"), "error");
+    }
+  };
+
+  return (
+    <RouteGuard allowedRoles={["super_admin"]} redirectTo="/orders">
+      <div className="min-h-screen bg-[#f7f9fb] pb-24">
+        <PageHeader
+          title="Damage Types"
+          description="The damage staff pick from when assessing a return. The default charge is filled in and can be changed per item."
+        />
+
+        <div className="px-4 md:px-6 py-4 space-y-6">
+          {isLoading ? (
+            <LoadingState message="Loading damage types..." />
+          ) : error ? (
+            <ErrorState
+              message="Damage types couldn't be loaded. Make sure add-damage-assessments.sql has been run."
+              onRetry={() => refetch()}
+            />
+          ) : damageTypes.length === 0 ? (
+            <EmptyState
+              icon={<AlertTriangle className="h-16 w-16" />}
+              title="No damage types"
+              description="Add the kinds of damage you charge for below"
+            />
+          ) : (
+            <Card className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Damage</TableHead>
+                    <TableHead className="w-48">Default Charge (₹)</TableHead>
+                    <TableHead className="w-32">Active</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {damageTypes.map((type) => (
+                    <TableRow key={type.id} className={type.is_active ? undefined : "opacity-60"}>
+                      <TableCell className="font-medium text-gray-900">{type.name}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={getCharge(type)}
+                            onChange={(e) => setDrafts((prev) => ({ ...prev, [type.id]: e.target.value }))}
+                            className="h-9 w-28"
+                            aria-label={`${type.name} default charge`}
+                          />
+                          {isDirty(type) && (
+                            <Button size="sm" onClick={() => handleSaveCharge(type)} disabled={savingId === type.id}>
+                              {savingId === type.id ? "Saving..." : "Save"}
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <ActiveToggle
+                          checked={type.is_active}
+                          onCheckedChange={(checked) => handleToggleActive(type, checked)}
+                          disabled={updateMutation.isPending}
+                          ariaLabel={`${type.name} active`}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Card>
+          )}
+
+          <Card className="p-6">
+            <div className="flex items-center gap-2 mb-4">
+              <AlertTriangle className="h-5 w-5 text-[#273492]" />
+              <h2 className="text-lg font-semibold text-gray-900">New damage type</h2>
+            </div>
+            <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_auto] gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="damage-name">Name *</Label>
+                <Input
+                  id="damage-name"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  placeholder="e.g. Missing button"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="damage-charge">Default Charge (₹)</Label>
+                <Input
+                  id="damage-charge"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={newCharge}
+                  onChange={(e) => setNewCharge(e.target.value)}
+                  placeholder="0"
+                />
+              </div>
+              <Button type="submit" disabled={!newName.trim() || createMutation.isPending}>
+                <Plus className="h-4 w-4 mr-2" />
+                {createMutation.isPending ? "Adding..." : "Add Damage Type"}
+              </Button>
+            </form>
+            <p className="text-xs text-gray-500 mt-3">
+              Turn a type off instead of renaming it - past assessments keep the name they were charged under.
+            </p>
+          </Card>
+        </div>
+      </div>
+    </RouteGuard>
+  );
+}
@@ -24,6 +24,7 @@ import {
   Zap
 } from "lucide-react";
 import { useUserStore } from "@/lib/stores/useUserStore";
+import { hasPermission } from "@/lib/utils/permissions";
 import { useDashboardStats, useRecentOrders } from "@/lib/queries/dashboard";
 import { formatCurrency, formatCurrencyCompact } from "@/lib/utils/date";
 import { FloatingActionButton } from "@/components/layout/floating-action-button";
@@ -36,6 +37,7 @@ import { Card } from "@/components/ui/card";
 
 export default function DashboardPage() {
   const { user } = useUserStore();
+  const canCreateOrder = hasPermission(user, "create_order");
   const queryClient = useQueryClient();
   
   const [dateRange, setDateRange] = useState<DateRange>({
@@ -317,6 +319,7 @@ export default function DashboardPage() {
                     icon={IndianRupee}
                     variant="primary"
                     badge="Today"
+                    href="/day-close"
                     index={8}
                   />
                   <StatCard
@@ -342,16 +345,18 @@ export default function DashboardPage() {
 
           {/* Quick Actions - Premium Design */}
           <div className="flex flex-col sm:flex-row gap-4">
-            <Link href="/orders/new" className="flex-1 group">
-              <Button 
-                variant="default" 
-                size="lg" 
-                className="w-full h-14 text-base font-semibold premium-hover bg-gradient-to-r from-[#273492] to-[#1f2a7a] hover:from-[#1f2a7a] hover:to-[#273492] shadow-lg hover:shadow-xl"
-              >
-                <Plus className="h-5 w-5 mr-2 group-hover:rotate-90 transition-transform duration-300" />
-                New Order
-              </Button>
-            </Link>
+            {canCreateOrder && (
+              <Link href="/orders/new" className="flex-1 group">
+                <Button 
+                  variant="default" 
+                  size="lg" 
+                  className="w-full h-14 text-base font-semibold premium-hover bg-gradient-to-r from-[#273492] to-[#1f2a7a] hover:from-[#1f2a7a] hover:to-[#273492] shadow-lg hover:shadow-xl"
+                >
+                  <Plus className="h-5 w-5 mr-2 group-hover:rotate-90 transition-transform duration-300" />
+                  New Order
+                </Button>
+              </Link>
+            )}
             <Link href="/orders" className="flex-1 group">
               <Button
                 variant="outline"
@@ -390,7 +395,7 @@ export default function DashboardPage() {
             )}
           </div>
 
-          <FloatingActionButton href="/orders/new" />
+          {canCreateOrder && <FloatingActionButton href="/orders/new" />}
           <ScrollToTop />
         </div>
       </div>
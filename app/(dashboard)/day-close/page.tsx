@@ -0,0 +1,484 @@
+"use client";
+
+import { useState } from "react";
+import { Lock, Wallet, Smartphone, CreditCard, History, CalendarCheck, AlertTriangle } from "lucide-react";
+import { PageHeader, EmptyState, LoadingState, ErrorState } from "@/components/shared";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectItem } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableRow,
+  TableHead,
+  TableCell,
+} from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { RouteGuard } from "@/components/auth/route-guard";
+import { useToast } from "@/components/ui/toast";
+import { useUserStore } from "@/lib/stores/useUserStore";
+import { useBranches } from "@/lib/queries/branches";
+import {
+  useDayCollections,
+  useDayClosing,
+  useDayClosings,
+  useCloseDay,
+  calculateDayVariance,
+  getBusinessDate,
+} from "@/lib/queries/day-closings";
+import { formatCurrency, formatDate, formatDateTime } from "@/lib/utils/date";
+import { cn } from "@/lib/utils/cn";
+import type { DayClosing } from "@/lib/types";
+import { getErrorMessage } from "@/lib/utils/error";
+
+const ALL_BRANCHES = "all";
+
+const personName = (person?: { full_name?: string | null; username?: string | null } | null) =>
+  person?.full_name || person?.username || "Unknown";
+
+function VarianceText({ value, className }: { value: number; className?: string }) {
+  return (
+    <span
+      className={cn(
+        "font-semibold",
+        value === 0 ? "text-green-700" : value > 0 ? "text-amber-700" : "text-red-600",
+        className
+      )}
+    >
+      {value === 0 ? "Balanced" : `${value > 0 ? "+" : "-"}${formatCurrency(Math.abs(value))}`}
+    </span>
+  );
+}
+
+function ClosingSummary({ closing }: { closing: DayClosing }) {
+  const rows = [
+    { label: "Cash", expected: Number(closing.opening_float) + Number(closing.expected_cash), counted: closing.counted_cash },
+    { label: "UPI", expected: Number(closing.expected_upi), counted: closing.counted_upi },
+    { label: "Card", expected: Number(closing.expected_card), counted: closing.counted_card },
+  ];
+
+  return (
+    <Card className="p-4 md:p-6 space-y-4">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <div className="flex items-center gap-2">
+          <Lock className="h-5 w-5 text-[#273492]" />
+          <h2 className="text-lg font-semibold text-gray-900">
+            {formatDate(closing.business_date, "dd MMM yyyy")} is closed
+          </h2>
+        </div>
+        <p className="text-xs text-gray-500">
+          By {personName(closing.closer)} · {formatDateTime(closing.closed_at)}
+        </p>
+      </div>
+      <p className="text-xs text-gray-500">
+        Payments taken after closing count towards the next day.
+      </p>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Mode</TableHead>
+            <TableHead className="text-right">Expected</TableHead>
+            <TableHead className="text-right">Counted</TableHead>
+            <TableHead className="text-right">Variance</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.label}>
+              <TableCell>{row.label}</TableCell>
+              <TableCell className="text-right">{formatCurrency(row.expected)}</TableCell>
+              <TableCell className="text-right">{formatCurrency(row.counted)}</TableCell>
+              <TableCell className="text-right">
+                <VarianceText value={Math.round((Number(row.counted) - row.expected) * 100) / 100} />
+              </TableCell>
+            </TableRow>
+          ))}
+          <TableRow className="bg-gray-50">
+            <TableCell className="font-semibold">Total</TableCell>
+            <TableCell colSpan={2} className="text-right text-xs text-gray-500">
+              Opening float {formatCurrency(closing.opening_float)} · {closing.payments_count} payment
+              {closing.payments_count === 1 ? "" : "s"}
+              {Number(closing.expected_other) > 0 && ` · ${formatCurrency(closing.expected_other)} other (not counted)`}
+            </TableCell>
+            <TableCell className="text-right">
+              <VarianceText value={Number(closing.variance)} />
+            </TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+
+      {closing.variance_reason && (
+        <p className="text-sm text-gray-700">
+          <span className="font-semibold">Variance reason:</span> {closing.variance_reason}
+        </p>
+      )}
+      {closing.notes && (
+        <p className="text-sm text-gray-700">
+          <span className="font-semibold">Notes:</span> {closing.notes}
+        </p>
+      )}
+    </Card>
+  );
+}
+
+export default function DayClosePage() {
+  const { user } = useUserStore();
+  const { showToast } = useToast();
+  const { data: branches } = useBranches();
+  const isSuperAdmin = user?.role === "super_admin";
+  const branchId = user?.branch_id || null;
+  const today = getBusinessDate();
+
+  const [tab, setTab] = useState<"close" | "history">("close");
+  const [businessDate, setBusinessDate] = useState(today);
+  const [openingFloat, setOpeningFloat] = useState<string | null>(null);
+  const [countedCash, setCountedCash] = useState("");
+  const [countedUpi, setCountedUpi] = useState("");
+  const [countedCard, setCountedCard] = useState("");
+  const [varianceReason, setVarianceReason] = useState("");
+  const [notes, setNotes] = useState("");
+  const [showConfirm, setShowConfirm] = useState(false);
+  const [historyBranch, setHistoryBranch] = useState<string>(ALL_BRANCHES);
+
+  const { data: collections, isLoading: collectionsLoading, error: collectionsError, refetch: refetchCollections } =
+    useDayCollections(branchId, businessDate);
+  const { data: closing, isLoading: closingLoading } = useDayClosing(branchId, businessDate);
+  const { data: recentClosings } = useDayClosings(branchId, 1);
+  const historyBranchId = isSuperAdmin ? (historyBranch === ALL_BRANCHES ? null : historyBranch) : branchId;
+  const { data: history, isLoading: historyLoading, error: historyError, refetch: refetchHistory } =
+    useDayClosings(historyBranchId);
+  const closeDayMutation = useCloseDay();
+
+  // Most shops keep the same float, so start from the last closing's
+  const floatValue = openingFloat ?? String(recentClosings?.[0]?.opening_float ?? 0);
+
+  const count = {
+    opening_float: parseFloat(floatValue) || 0,
+    counted_cash: parseFloat(countedCash) || 0,
+    counted_upi: parseFloat(countedUpi) || 0,
+    counted_card: parseFloat(countedCard) || 0,
+  };
+  const variance = collections ? calculateDayVariance(collections, count) : null;
+  const hasCounted = countedCash !== "" && countedUpi !== "" && countedCard !== "";
+
+  const resetForm = () => {
+    setOpeningFloat(null);
+    setCountedCash("");
+    setCountedUpi("");
+    setCountedCard("");
+    setVarianceReason("");
+    setNotes("");
+  };
+
+  const handleReview = () => {
+    if (!hasCounted) {
+      showToast("Enter the counted cash, UPI and card totals", "error");
+      return;
+    }
+    if ([count.opening_float, count.counted_cash, count.counted_upi, count.counted_card].some((v) => v < 0)) {
+      showToast("Amounts can't be negative", "error");
+      return;
+    }
+    if (variance && variance.total !== 0 && !varianceReason.trim()) {
+      showToast("Please give a reason for the variance", "error");
+      return;
+    }
+    setShowConfirm(true);
+  };
+
+  const handleClose = async () => {
+    if (!branchId) return;
+    try {
+      await closeDayMutation.mutateAsync({ branchId, businessDate, count, varianceReason, notes });
+      showToast("Day closed", "success");
+      setShowConfirm(false);
+      resetForm();
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to close the day"), "error");
+      setShowConfirm(false);
+    }
+  };
+
+  const expectedRows = collections
+    ? [
+        { key: "cash", label: "Cash", icon: Wallet, expected: count.opening_float + collections.cash, value: countedCash, onChange: setCountedCash, variance: variance?.cash ?? 0 },
+        { key: "upi", label: "UPI", icon: Smartphone, expected: collections.upi, value: countedUpi, onChange: setCountedUpi, variance: variance?.upi ?? 0 },
+        { key: "card", label: "Card", icon: CreditCard, expected: collections.card, value: countedCard, onChange: setCountedCard, variance: variance?.card ?? 0 },
+      ]
+    : [];
+
+  return (
+    <RouteGuard allowedRoles={["super_admin", "branch_admin", "staff"]}>
+      <div className="min-h-screen bg-[#f7f9fb] pb-24">
+        <PageHeader
+          title="Day Close"
+          description="Count the drawer against the day's payments and lock the day"
+        >
+          <Tabs value={tab} onValueChange={(value) => setTab(value as "close" | "history")}>
+            <TabsList className="gap-2">
+              <TabsTrigger value="close" className="gap-2">
+                <CalendarCheck className="h-4 w-4" />
+                Close Day
+              </TabsTrigger>
+              <TabsTrigger value="history" className="gap-2">
+                <History className="h-4 w-4" />
+                History
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </PageHeader>
+
+        <div className="px-4 md:px-6 py-4 space-y-4">
+          {tab === "close" ? (
+            <>
+              <div className="flex items-end gap-3 flex-wrap">
+                <div className="space-y-2">
+                  <Label htmlFor="business-date">Business day</Label>
+                  <Input
+                    id="business-date"
+                    type="date"
+                    value={businessDate}
+                    max={today}
+                    onChange={(e) => {
+                      setBusinessDate(e.target.value || today);
+                      resetForm();
+                    }}
+                    className="w-48"
+                  />
+                </div>
+                {isSuperAdmin && (
+                  <p className="text-xs text-gray-500 pb-2">
+                    Closing {branches?.find((b) => b.id === branchId)?.name || "the selected branch"}. Switch branches from the sidebar.
+                  </p>
+                )}
+              </div>
+
+              {!branchId ? (
+                <EmptyState
+                  icon={<CalendarCheck className="h-16 w-16" />}
+                  title="No branch selected"
+                  description="Pick a branch from the sidebar to close its day"
+                />
+              ) : closingLoading || collectionsLoading ? (
+                <LoadingState message="Loading the day's collections..." />
+              ) : closing ? (
+                <ClosingSummary closing={closing} />
+              ) : collectionsError || !collections ? (
+                <ErrorState
+                  message="The day's payments couldn't be loaded. Make sure add-day-closings.sql has been run."
+                  onRetry={() => refetchCollections()}
+                />
+              ) : (
+                <Card className="p-4 md:p-6 space-y-5">
+                  <div className="grid grid-cols-1 md:grid-cols-[200px_1fr] gap-4 items-end">
+                    <div className="space-y-2">
+                      <Label htmlFor="opening-float">Opening float (₹)</Label>
+                      <Input
+                        id="opening-float"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={floatValue}
+                        onChange={(e) => setOpeningFloat(e.target.value)}
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500 pb-2">
+                      Cash in the drawer before the first payment. {collections.payments_count} payment
+                      {collections.payments_count === 1 ? "" : "s"} recorded on {formatDate(businessDate, "dd MMM yyyy")}.
+                    </p>
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Mode</TableHead>
+                        <TableHead className="text-right">Expected</TableHead>
+                        <TableHead className="text-right w-44">Counted</TableHead>
+                        <TableHead className="text-right">Variance</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {expectedRows.map((row) => (
+                        <TableRow key={row.key}>
+                          <TableCell>
+                            <span className="flex items-center gap-2">
+                              <row.icon className="h-4 w-4 text-[#273492]" />
+                              {row.label}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.expected)}</TableCell>
+                          <TableCell className="text-right">
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={row.value}
+                              onChange={(e) => row.onChange(e.target.value)}
+                              placeholder="0.00"
+                              className="text-right"
+                              aria-label={`Counted ${row.label}`}
+                            />
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {row.value === "" ? <span className="text-gray-400">-</span> : <VarianceText value={row.variance} />}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                      <TableRow className="bg-gray-50">
+                        <TableCell className="font-semibold">Total</TableCell>
+                        <TableCell colSpan={2} className="text-right text-xs text-gray-500">
+                          {collections.other > 0 && `${formatCurrency(collections.other)} in other modes isn't counted`}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {hasCounted && variance ? <VarianceText value={variance.total} /> : <span className="text-gray-400">-</span>}
+                        </TableCell>
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+
+                  {hasCounted && variance && variance.total !== 0 && (
+                    <div className="space-y-2">
+                      <Label htmlFor="variance-reason" className="flex items-center gap-1.5">
+                        <AlertTriangle className="h-4 w-4 text-amber-600" />
+                        Reason for the variance *
+                      </Label>
+                      <Textarea
+                        id="variance-reason"
+                        value={varianceReason}
+                        onChange={(e) => setVarianceReason(e.target.value)}
+                        placeholder="e.g. ₹200 change given from own pocket, UPI payment not yet settled"
+                        rows={2}
+                      />
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label htmlFor="closing-notes">Notes</Label>
+                    <Textarea
+                      id="closing-notes"
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      placeholder="e.g. ₹5,000 deposited to bank"
+                      rows={2}
+                    />
+                  </div>
+
+                  <div className="flex justify-end">
+                    <Button onClick={handleReview} disabled={closeDayMutation.isPending}>
+                      <Lock className="h-4 w-4 mr-2" />
+                      Close Day
+                    </Button>
+                  </div>
+                </Card>
+              )}
+            </>
+          ) : (
+            <>
+              {isSuperAdmin && (
+                <div className="w-full sm:w-64">
+                  <Select
+                    value={historyBranch}
+                    onChange={(e) => setHistoryBranch(e.target.value)}
+                    className="h-10 text-sm"
+                  >
+                    <SelectItem value={ALL_BRANCHES}>All Branches</SelectItem>
+                    {branches?.map((branch) => (
+                      <SelectItem key={branch.id} value={branch.id}>
+                        {branch.name}
+                      </SelectItem>
+                    ))}
+                  </Select>
+                </div>
+              )}
+
+              {historyLoading ? (
+                <LoadingState message="Loading closings..." />
+              ) : historyError ? (
+                <ErrorState message="Failed to load closings" onRetry={() => refetchHistory()} />
+              ) : !history || history.length === 0 ? (
+                <EmptyState
+                  icon={<History className="h-16 w-16" />}
+                  title="No closed days yet"
+                  description="Closed days show up here"
+                />
+              ) : (
+                <Card className="p-4 overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Day</TableHead>
+                        {isSuperAdmin && <TableHead>Branch</TableHead>}
+                        <TableHead className="text-right">Cash</TableHead>
+                        <TableHead className="text-right">UPI</TableHead>
+                        <TableHead className="text-right">Card</TableHead>
+                        <TableHead className="text-right">Variance</TableHead>
+                        <TableHead>Closed By</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {history.map((row) => (
+                        <TableRow key={row.id}>
+                          <TableCell className="font-medium whitespace-nowrap">
+                            {formatDate(row.business_date, "dd MMM yyyy")}
+                          </TableCell>
+                          {isSuperAdmin && <TableCell>{row.branch?.name || "-"}</TableCell>}
+                          <TableCell className="text-right">{formatCurrency(row.counted_cash)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.counted_upi)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.counted_card)}</TableCell>
+                          <TableCell className="text-right">
+                            <VarianceText value={Number(row.variance)} />
+                            {row.variance_reason && (
+                              <span className="block text-xs text-gray-500 max-w-[220px] ml-auto truncate" title={row.variance_reason}>
+                                {row.variance_reason}
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <span className="block">{personName(row.closer)}</span>
+                            <span className="block text-xs text-gray-500">{formatDateTime(row.closed_at)}</span>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </Card>
+              )}
+            </>
+          )}
+        </div>
+
+        <Dialog open={showConfirm} onOpenChange={setShowConfirm}>
+          <DialogContent onClose={() => setShowConfirm(false)}>
+            <DialogHeader>
+              <DialogTitle>Close {formatDate(businessDate, "dd MMM yyyy")}?</DialogTitle>
+              <DialogDescription>
+                The closing is locked once saved and can&apos;t be edited.
+                {variance && variance.total !== 0 ? (
+                  <>
+                    {" "}Variance: <VarianceText value={variance.total} />.
+                  </>
+                ) : (
+                  " The count matches the day's payments."
+                )}
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setShowConfirm(false)} disabled={closeDayMutation.isPending}>
+                Cancel
+              </Button>
+              <Button onClick={handleClose} disabled={closeDayMutation.isPending}>
+                {closeDayMutation.isPending ? "Closing..." : "Close Day"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </RouteGuard>
+  );
+}
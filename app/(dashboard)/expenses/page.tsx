@@ -0,0 +1,294 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { startOfMonth, endOfToday, format } from "date-fns";
+import { Download, Plus, Trash2, Wallet } from "lucide-react";
+import { PageHeader, EmptyState, LoadingState, ErrorState } from "@/components/shared";
+import { RouteGuard } from "@/components/auth/route-guard";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectItem } from "@/components/ui/select";
+import { DateRangePicker, type DateRange } from "@/components/ui/date-range-picker";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableRow,
+  TableHead,
+  TableCell,
+} from "@/components/ui/table";
+import { ExpenseDialog } from "@/components/expenses/expense-dialog";
+import { useToast } from "@/components/ui/toast";
+import { useUserStore } from "@/lib/stores/useUserStore";
+import { useBranches } from "@/lib/queries/branches";
+import { useExpenses, useDeleteExpense, EXPENSE_CATEGORY_LABELS } from "@/lib/queries/expenses";
+import { formatCurrency, formatDate } from "@/lib/utils/date";
+import { downloadCsv } from "@/lib/utils/csv";
+import type { Expense, ExpenseCategory } from "@/lib/types";
+import { getErrorMessage } from "@/lib/utils/error";
+
+const ALL_BRANCHES = "all";
+const ALL_CATEGORIES = "all";
+
+const personName = (person?: { full_name?: string | null; username?: string | null } | null) =>
+  person?.full_name || person?.username || "Unknown";
+
+export default function ExpensesPage() {
+  const { user } = useUserStore();
+  const { showToast } = useToast();
+  const { data: branches } = useBranches();
+  const isSuperAdmin = user?.role === "super_admin";
+  const canDelete = isSuperAdmin || user?.role === "branch_admin";
+
+  const [dateRange, setDateRange] = useState<DateRange>({
+    start: startOfMonth(new Date()),
+    end: endOfToday(),
+    option: "thismonth",
+  });
+  const [selectedBranch, setSelectedBranch] = useState<string>(user?.branch_id || ALL_BRANCHES);
+  const [category, setCategory] = useState<string>(ALL_CATEGORIES);
+  const [showDialog, setShowDialog] = useState(false);
+
+  // Branch users only see their own branch
+  const branchId = isSuperAdmin
+    ? selectedBranch === ALL_BRANCHES
+      ? null
+      : selectedBranch
+    : user?.branch_id || null;
+  // New expenses go to the branch being viewed, or the user's own
+  const recordBranchId = branchId || user?.branch_id || null;
+
+  const { data: expenses = [], isLoading, error, refetch } = useExpenses(
+    branchId,
+    dateRange,
+    category === ALL_CATEGORIES ? null : (category as ExpenseCategory)
+  );
+  const deleteMutation = useDeleteExpense();
+
+  const total = expenses.reduce((sum, expense) => sum + (Number(expense.amount) || 0), 0);
+  const byCategory = (Object.keys(EXPENSE_CATEGORY_LABELS) as ExpenseCategory[])
+    .map((key) => ({
+      key,
+      amount: expenses.filter((e) => e.category === key).reduce((sum, e) => sum + (Number(e.amount) || 0), 0),
+    }))
+    .filter((row) => row.amount > 0);
+
+  const handleDelete = async (expense: Expense) => {
+    if (!confirm(`Delete this ${EXPENSE_CATEGORY_LABELS[expense.category].toLowerCase()} expense of ${formatCurrency(expense.amount)}?`)) {
+      return;
+    }
+    try {
+      await deleteMutation.mutateAsync(expense.id);
+      showToast("Expense deleted", "success");
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to delete expense"), "error");
+    }
+  };
+
+  const handleExport = () => {
+    const branchLabel = branchId
+      ? branches?.find((b) => b.id === branchId)?.name || "branch"
+      : "all-branches";
+    downloadCsv(
+      `expenses_${branchLabel.toLowerCase().replace(/\s+/g, "-")}_${format(dateRange.start, "yyyyMMdd")}-${format(dateRange.end, "yyyyMMdd")}`,
+      expenses.map((expense) => ({
+        Date: formatDate(expense.expense_date, "dd MMM yyyy"),
+        Branch: branches?.find((b) => b.id === expense.branch_id)?.name || "",
+        Category: EXPENSE_CATEGORY_LABELS[expense.category],
+        Product: expense.product?.name || expense.order_item?.product_name || "",
+        Invoice: expense.order?.invoice_number || "",
+        "Paid To": expense.vendor || "",
+        Description: expense.description || "",
+        Amount: Number(expense.amount).toFixed(2),
+        "Recorded By": personName(expense.creator),
+        Receipt: expense.receipt_url || "",
+      }))
+    );
+  };
+
+  return (
+    <RouteGuard allowedRoles={["super_admin", "branch_admin", "staff"]}>
+      <div className="min-h-screen bg-[#f7f9fb] pb-24">
+        <PageHeader
+          title="Expenses"
+          description="Dry cleaning, repairs and alterations per branch and costume"
+          actions={
+            <div className="flex items-center gap-2">
+              <DateRangePicker value={dateRange} onChange={setDateRange} />
+              {recordBranchId && (
+                <Button onClick={() => setShowDialog(true)}>
+                  <Plus className="h-4 w-4 mr-1.5" />
+                  Add
+                </Button>
+              )}
+            </div>
+          }
+        >
+          <div className="flex flex-wrap items-center gap-3">
+            {isSuperAdmin && (
+              <div className="w-full sm:w-64">
+                <Select
+                  value={selectedBranch}
+                  onChange={(e) => setSelectedBranch(e.target.value)}
+                  className="h-10 text-sm"
+                >
+                  <SelectItem value={ALL_BRANCHES}>All Branches</SelectItem>
+                  {branches?.map((branch) => (
+                    <SelectItem key={branch.id} value={branch.id}>
+                      {branch.name}
+                    </SelectItem>
+                  ))}
+                </Select>
+              </div>
+            )}
+            <div className="w-full sm:w-48">
+              <Select
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                className="h-10 text-sm"
+              >
+                <SelectItem value={ALL_CATEGORIES}>All Categories</SelectItem>
+                {(Object.keys(EXPENSE_CATEGORY_LABELS) as ExpenseCategory[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {EXPENSE_CATEGORY_LABELS[key]}
+                  </SelectItem>
+                ))}
+              </Select>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={expenses.length === 0}>
+              <Download className="h-4 w-4 mr-1.5" />
+              CSV
+            </Button>
+          </div>
+        </PageHeader>
+
+        <div className="px-4 md:px-6 py-4 space-y-4">
+          {isLoading ? (
+            <LoadingState message="Loading expenses..." />
+          ) : error ? (
+            <ErrorState
+              title="Error loading expenses"
+              message={(error as Error).message || "Failed to load expenses"}
+              onRetry={() => refetch()}
+            />
+          ) : expenses.length === 0 ? (
+            <EmptyState
+              icon={<Wallet className="h-16 w-16" />}
+              title="No expenses in this range"
+              description="Cleaning, repair and alteration costs show up here"
+            />
+          ) : (
+            <>
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+                <Card className="p-4 rounded-xl bg-white border border-gray-200">
+                  <div className="flex items-center gap-2 text-gray-500 text-xs font-medium uppercase tracking-wide mb-1.5">
+                    <Wallet className="h-4 w-4 text-[#273492]" />
+                    Total
+                  </div>
+                  <p className="text-xl font-bold text-gray-900">{formatCurrency(total)}</p>
+                </Card>
+                {byCategory.map((row) => (
+                  <Card key={row.key} className="p-4 rounded-xl bg-white border border-gray-200">
+                    <div className="text-gray-500 text-xs font-medium uppercase tracking-wide mb-1.5">
+                      {EXPENSE_CATEGORY_LABELS[row.key]}
+                    </div>
+                    <p className="text-xl font-bold text-gray-900">{formatCurrency(row.amount)}</p>
+                  </Card>
+                ))}
+              </div>
+
+              <Card className="p-4 overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      {isSuperAdmin && <TableHead>Branch</TableHead>}
+                      <TableHead>Category</TableHead>
+                      <TableHead>For</TableHead>
+                      <TableHead>Details</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      {canDelete && <TableHead className="w-12" />}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {expenses.map((expense) => (
+                      <TableRow key={expense.id}>
+                        <TableCell className="font-medium whitespace-nowrap">
+                          {formatDate(expense.expense_date, "dd MMM yyyy")}
+                        </TableCell>
+                        {isSuperAdmin && (
+                          <TableCell>{branches?.find((b) => b.id === expense.branch_id)?.name || "-"}</TableCell>
+                        )}
+                        <TableCell>{EXPENSE_CATEGORY_LABELS[expense.category]}</TableCell>
+                        <TableCell>
+                          <span className="block">
+                            {expense.product?.name || expense.order_item?.product_name || "-"}
+                          </span>
+                          {expense.order && (
+                            <Link
+                              href={`/orders/${expense.order.id}`}
+                              className="block text-xs font-mono text-[#273492] hover:underline"
+                            >
+                              {expense.order.invoice_number}
+                            </Link>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {expense.vendor && <span className="block">{expense.vendor}</span>}
+                          {expense.description && (
+                            <span className="block text-xs text-gray-500 max-w-[240px] truncate" title={expense.description}>
+                              {expense.description}
+                            </span>
+                          )}
+                          <span className="block text-xs text-gray-400">{personName(expense.creator)}</span>
+                          {expense.receipt_url && (
+                            <a
+                              href={expense.receipt_url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-xs text-[#273492] hover:underline"
+                            >
+                              View receipt
+                            </a>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">{formatCurrency(expense.amount)}</TableCell>
+                        {canDelete && (
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDelete(expense)}
+                              disabled={deleteMutation.isPending}
+                              aria-label="Delete expense"
+                            >
+                              <Trash2 className="h-4 w-4 text-red-600" />
+                            </Button>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                    <TableRow className="bg-gray-50 font-semibold">
+                      <TableCell colSpan={isSuperAdmin ? 5 : 4}>Total</TableCell>
+                      <TableCell className="text-right">{formatCurrency(total)}</TableCell>
+                      {canDelete && <TableCell />}
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </Card>
+            </>
+          )}
+        </div>
+
+        {showDialog && recordBranchId && (
+          <ExpenseDialog
+            open={showDialog}
+            onClose={() => setShowDialog(false)}
+            branchId={recordBranchId}
+          />
+        )}
+      </div>
+    </RouteGuard>
+  );
+}
@@ -2,12 +2,14 @@
 
 import { MobileNav } from "@/components/layout/mobile-nav";
 import { DesktopSidebar } from "@/components/layout/desktop-sidebar";
+import { OfflineIndicator } from "@/components/layout/offline-indicator";
+import { OrderOutboxSync } from "@/components/orders/order-outbox-sync";
 import { useEffect, useState, useRef } from "react";
 import { useRouter, usePathname } from "next/navigation";
 import { useUserStore } from "@/lib/stores/useUserStore";
 import { createClient } from "@/lib/supabase/client";
 import { getMainBranch, getMainBranchId } from "@/lib/utils/branches";
-import type { Branch } from "@/lib/types";
+import type { Branch, Permission } from "@/lib/types";
 import { useQueryClient } from "@tanstack/react-query";
 
 export default function DashboardLayout({
@@ -32,6 +34,11 @@ export default function DashboardLayout({
       } = await supabaseRef.current.auth.getSession();
 
       if (!session) {
+        // Offline with an expired token - keep the last user so cached pages still open
+        if (!navigator.onLine && useUserStore.getState().user) {
+          setLoading(false);
+          return;
+        }
         router.push("/login");
         return;
       }
@@ -88,6 +95,13 @@ export default function DashboardLayout({
             }
           }
         }
+
+        // Capabilities from the user's app role (custom or built-in). Left
+        // undefined if the role permissions migration hasn't been run, so
+        // the built-in role defaults apply.
+        const { data: permissions, error: permissionsError } = await supabaseRef.current.rpc(
+          "current_permissions"
+        );
         
         setUser({
           id: profile.id,
@@ -104,6 +118,8 @@ export default function DashboardLayout({
           company_name: profile.company_name,
           company_logo_url: profile.company_logo_url,
           branch: branch || undefined,
+          app_role_id: profile.app_role_id ?? null,
+          permissions: permissionsError ? undefined : (permissions as Permission[]) ?? undefined,
         });
 
         // ✅ FIX: Invalidate and refetch all queries after setting branch_id so they refetch with new branch
@@ -138,6 +154,9 @@ export default function DashboardLayout({
 
       {/* Main Content */}
       <div className="flex-1 flex flex-col md:ml-[260px] min-w-0 overflow-hidden">
+        {/* Offline / cached data banner */}
+        <OfflineIndicator />
+
         {/* Page Content - Scrollable with optimized rendering */}
         <main 
           data-scroll-container="true"
@@ -155,6 +174,9 @@ export default function DashboardLayout({
 
       {/* Mobile Bottom Navigation */}
       <MobileNav />
+
+      {/* Replays orders created offline */}
+      <OrderOutboxSync />
     </div>
   );
 }
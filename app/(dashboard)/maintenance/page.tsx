@@ -0,0 +1,303 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { Shirt, Droplets, Wrench, CheckCircle2, PackageOpen, type LucideIcon } from "lucide-react";
+import { PageHeader, EmptyState, LoadingState, ErrorState } from "@/components/shared";
+import { RouteGuard } from "@/components/auth/route-guard";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectItem } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/toast";
+import { useUserStore } from "@/lib/stores/useUserStore";
+import { useBranches } from "@/lib/queries/branches";
+import {
+  useMaintenanceBoard,
+  useMoveMaintenanceItem,
+  MAINTENANCE_STATUSES,
+  MAINTENANCE_STATUS_LABELS,
+} from "@/lib/queries/maintenance";
+import { cn } from "@/lib/utils/cn";
+import type { ItemMaintenance, MaintenanceStatus } from "@/lib/types";
+import { getErrorMessage } from "@/lib/utils/error";
+
+const ALL_BRANCHES = "all";
+
+const COLUMN_STYLES: Record<MaintenanceStatus, { icon: LucideIcon; accent: string; description: string }> = {
+  returned: { icon: PackageOpen, accent: "text-gray-700 bg-gray-100", description: "Back from the customer, not checked yet" },
+  cleaning: { icon: Droplets, accent: "text-sky-700 bg-sky-100", description: "Washing, dry cleaning or pressing" },
+  repair: { icon: Wrench, accent: "text-amber-700 bg-amber-100", description: "Stitching, fixes and alterations" },
+  ready: { icon: CheckCircle2, accent: "text-green-700 bg-green-100", description: "Back in stock in the last 7 days" },
+};
+
+const personName = (person?: { full_name?: string | null; username?: string | null } | null) =>
+  person?.full_name || person?.username || "Unknown";
+
+interface MaintenanceCardProps {
+  item: ItemMaintenance;
+  showBranch?: string;
+  onMove: (item: ItemMaintenance, status: MaintenanceStatus) => void;
+}
+
+function MaintenanceCard({ item, showBranch, onMove }: MaintenanceCardProps) {
+  // Anything can go back for more work; nothing goes back to "returned"
+  const targets = MAINTENANCE_STATUSES.filter((status) => status !== "returned" && status !== item.status);
+
+  return (
+    <Card className="p-3 bg-white border border-gray-200 shadow-sm rounded-lg space-y-2">
+      <div className="flex items-start gap-3">
+        {item.order_item?.photo_url ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={item.order_item.photo_url}
+            alt={item.product_name || "Item"}
+            className="w-12 h-12 rounded-md object-cover border border-gray-200 flex-shrink-0"
+          />
+        ) : (
+          <div className="w-12 h-12 rounded-md bg-gray-100 flex items-center justify-center flex-shrink-0">
+            <Shirt className="h-5 w-5 text-gray-400" />
+          </div>
+        )}
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-semibold text-gray-900 truncate">
+            {item.product_name || "Item"}
+            {item.quantity > 1 && <span className="font-normal text-gray-600"> × {item.quantity}</span>}
+          </p>
+          {item.order && (
+            <Link href={`/orders/${item.order.id}`} className="text-xs font-mono text-[#273492] hover:underline">
+              {item.order.invoice_number}
+            </Link>
+          )}
+          {showBranch && <p className="text-xs text-gray-500">{showBranch}</p>}
+        </div>
+      </div>
+
+      {item.notes && <p className="text-xs text-gray-600 line-clamp-2">{item.notes}</p>}
+
+      <p className="text-[11px] text-gray-400">
+        {MAINTENANCE_STATUS_LABELS[item.status]} {formatDistanceToNow(new Date(item.status_changed_at), { addSuffix: true })}
+        {" · "}
+        {personName(item.changer)}
+      </p>
+
+      <div className="flex flex-wrap gap-1.5">
+        {targets.map((status) => (
+          <Button
+            key={status}
+            size="sm"
+            variant={status === "ready" ? "default" : "outline"}
+            className="h-7 px-2 text-xs"
+            onClick={() => onMove(item, status)}
+          >
+            {status === "ready" ? "Mark Ready" : MAINTENANCE_STATUS_LABELS[status]}
+          </Button>
+        ))}
+      </div>
+    </Card>
+  );
+}
+
+export default function MaintenancePage() {
+  const { user } = useUserStore();
+  const { showToast } = useToast();
+  const { data: branches } = useBranches();
+  const isSuperAdmin = user?.role === "super_admin";
+
+  const [selectedBranch, setSelectedBranch] = useState<string>(user?.branch_id || ALL_BRANCHES);
+  const [moving, setMoving] = useState<{ item: ItemMaintenance; status: MaintenanceStatus } | null>(null);
+  const [quantity, setQuantity] = useState("");
+  const [notes, setNotes] = useState("");
+
+  // Branch users only see their own branch
+  const branchId = isSuperAdmin
+    ? selectedBranch === ALL_BRANCHES
+      ? null
+      : selectedBranch
+    : user?.branch_id || null;
+
+  const { data: items = [], isLoading, error, refetch } = useMaintenanceBoard(branchId);
+  const moveMutation = useMoveMaintenanceItem();
+
+  const openMove = (item: ItemMaintenance, status: MaintenanceStatus) => {
+    setMoving({ item, status });
+    setQuantity(String(item.quantity));
+    setNotes("");
+  };
+
+  const handleMove = async () => {
+    if (!moving) return;
+    const count = parseInt(quantity, 10);
+    if (!count || count < 1 || count > moving.item.quantity) {
+      showToast(`Enter a quantity between 1 and ${moving.item.quantity}`, "error");
+      return;
+    }
+
+    try {
+      await moveMutation.mutateAsync({
+        item: moving.item,
+        status: moving.status,
+        quantity: count,
+        notes,
+      });
+      showToast(
+        `${moving.item.product_name || "Item"} moved to ${MAINTENANCE_STATUS_LABELS[moving.status].toLowerCase()}`,
+        "success"
+      );
+      setMoving(null);
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to update item"), "error");
+    }
+  };
+
+  const branchName = (id: string) => branches?.find((b) => b.id === id)?.name;
+  const pendingCount = items.filter((item) => item.status !== "ready").reduce((sum, item) => sum + item.quantity, 0);
+
+  return (
+    <RouteGuard allowedRoles={["super_admin", "branch_admin", "staff"]}>
+      <div className="min-h-screen bg-[#f7f9fb] pb-24">
+        <PageHeader
+          title="Maintenance"
+          description={
+            pendingCount > 0
+              ? `${pendingCount} returned unit${pendingCount !== 1 ? "s" : ""} not ready to rent yet`
+              : "Returned items are cleaned and checked here before they can be rented again"
+          }
+        >
+          {isSuperAdmin && (
+            <div className="w-full sm:w-64">
+              <Select
+                value={selectedBranch}
+                onChange={(e) => setSelectedBranch(e.target.value)}
+                className="h-10 text-sm"
+              >
+                <SelectItem value={ALL_BRANCHES}>All Branches</SelectItem>
+                {branches?.map((branch) => (
+                  <SelectItem key={branch.id} value={branch.id}>
+                    {branch.name}
+                  </SelectItem>
+                ))}
+              </Select>
+            </div>
+          )}
+        </PageHeader>
+
+        <div className="px-4 md:px-6 py-4">
+          {isLoading ? (
+            <LoadingState message="Loading items..." />
+          ) : error ? (
+            <ErrorState
+              title="Error loading maintenance board"
+              message={(error as Error).message || "Failed to load items"}
+              onRetry={() => refetch()}
+            />
+          ) : items.length === 0 ? (
+            <EmptyState
+              icon={<Shirt className="h-16 w-16" />}
+              title="Nothing to clean or repair"
+              description="Items show up here as soon as they're returned"
+            />
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4 items-start">
+              {MAINTENANCE_STATUSES.map((status) => {
+                const column = items.filter((item) => item.status === status);
+                const { icon: Icon, accent, description } = COLUMN_STYLES[status];
+                const units = column.reduce((sum, item) => sum + item.quantity, 0);
+
+                return (
+                  <div key={status} className="rounded-xl bg-gray-50 border border-gray-200 p-3 space-y-3">
+                    <div>
+                      <div className="flex items-center justify-between">
+                        <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+                          <span className={cn("rounded-md p-1", accent)}>
+                            <Icon className="h-4 w-4" />
+                          </span>
+                          {MAINTENANCE_STATUS_LABELS[status]}
+                        </h2>
+                        <span className="text-xs font-medium text-gray-500">{units}</span>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">{description}</p>
+                    </div>
+
+                    {column.length === 0 ? (
+                      <p className="text-xs text-gray-400 text-center py-4">No items</p>
+                    ) : (
+                      column.map((item) => (
+                        <MaintenanceCard
+                          key={item.id}
+                          item={item}
+                          showBranch={isSuperAdmin && !branchId ? branchName(item.branch_id) : undefined}
+                          onMove={openMove}
+                        />
+                      ))
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <Dialog open={!!moving} onOpenChange={(open) => !open && setMoving(null)}>
+          <DialogContent onClose={() => setMoving(null)}>
+            {moving && (
+              <>
+                <DialogHeader>
+                  <DialogTitle>
+                    {moving.status === "ready"
+                      ? `Mark ${moving.item.product_name || "item"} ready`
+                      : `Send ${moving.item.product_name || "item"} to ${MAINTENANCE_STATUS_LABELS[moving.status].toLowerCase()}`}
+                  </DialogTitle>
+                  <DialogDescription>
+                    {moving.status === "ready"
+                      ? "Ready units can be rented again straight away."
+                      : "The units stay unavailable for booking until they're marked ready."}
+                  </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                  {moving.item.quantity > 1 && (
+                    <div className="space-y-2">
+                      <Label htmlFor="move-quantity">Units (of {moving.item.quantity})</Label>
+                      <Input
+                        id="move-quantity"
+                        type="number"
+                        min="1"
+                        max={moving.item.quantity}
+                        value={quantity}
+                        onChange={(e) => setQuantity(e.target.value)}
+                      />
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="move-notes">Notes</Label>
+                    <Textarea
+                      id="move-notes"
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      placeholder={moving.status === "repair" ? "e.g. Torn hem, missing button" : "Optional"}
+                      rows={2}
+                    />
+                  </div>
+                </div>
+
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setMoving(null)} disabled={moveMutation.isPending}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleMove} disabled={moveMutation.isPending}>
+                    {moveMutation.isPending ? "Saving..." : "Confirm"}
+                  </Button>
+                </DialogFooter>
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </RouteGuard>
+  );
+}
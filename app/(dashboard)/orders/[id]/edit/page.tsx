@@ -10,8 +10,9 @@ import { Card } from "@/components/ui/card";
 import { ArrowLeft, Trash2, Camera, AlertCircle } from "lucide-react";
 import Link from "next/link";
 import { useUserStore } from "@/lib/stores/useUserStore";
+import { RouteGuard } from "@/components/auth/route-guard";
 import { useOrderDraftStore, useOrderSubtotal, useOrderGrandTotal, useOrderGst } from "@/lib/stores/useOrderDraftStore";
-import { useOrder, useUpdateOrder, useUpdateOrderBilling } from "@/lib/queries/orders";
+import { useOrder, useUpdateOrder, useUpdateOrderBilling, isQueuedForApproval } from "@/lib/queries/orders";
 import { calculateDays } from "@/lib/utils/date";
 import { CameraUpload, type UploadResult } from "@/components/orders/camera-upload";
 import { CustomerSearch } from "@/components/orders/customer-search";
@@ -25,7 +26,7 @@ import { OrderInvoiceSection } from "@/components/orders/order-invoice-section";
 import { OrderSummarySection } from "@/components/orders/order-summary-section";
 import { PageNavbar } from "@/components/layout/page-navbar";
 
-export default function EditOrderPage() {
+function EditOrderContent() {
   const params = useParams();
   const router = useRouter();
   const { user } = useUserStore();
@@ -40,7 +41,6 @@ export default function EditOrderPage() {
     draft,
     setStartDate,
     setEndDate,
-    setInvoiceNumber,
     addItem,
     updateItem,
     removeItem,
@@ -226,7 +226,7 @@ export default function EditOrderPage() {
     }
 
     try {
-      await updateBillingMutation.mutateAsync({
+      const result = await updateBillingMutation.mutateAsync({
         orderId: orderId,
         invoice_number: draft.invoice_number,
         subtotal: subtotal,
@@ -234,7 +234,11 @@ export default function EditOrderPage() {
         total_amount: grandTotal,
       });
 
-      showToast("Invoice details updated successfully!", "success");
+      if (isQueuedForApproval(result)) {
+        showToast("The lower total was sent to a branch admin for approval", "info");
+      } else {
+        showToast("Invoice details updated successfully!", "success");
+      }
       router.push(`/orders/${orderId}`);
     } catch (error: any) {
       showToast(error.message || "Failed to update invoice details", "error");
@@ -324,7 +328,7 @@ export default function EditOrderPage() {
     try {
       // Only include GST if enabled
       
-      await updateOrderMutation.mutateAsync({
+      const result = await updateOrderMutation.mutateAsync({
         orderId: orderId,
         invoice_number: draft.invoice_number,
         start_date: draft.start_date,
@@ -335,7 +339,11 @@ export default function EditOrderPage() {
         items: draft.items,
       });
 
-      showToast("Order updated successfully!", "success");
+      if (isQueuedForApproval(result)) {
+        showToast("The lower total was sent to a branch admin for approval", "info");
+      } else {
+        showToast("Order updated successfully!", "success");
+      }
       clearDraft();
       router.push(`/orders/${orderId}`);
     } catch (error: any) {
@@ -393,10 +401,7 @@ export default function EditOrderPage() {
           </Card>
 
           {/* Invoice Number */}
-          <OrderInvoiceSection
-            invoiceNumber={draft.invoice_number}
-            onInvoiceNumberChange={setInvoiceNumber}
-          />
+          <OrderInvoiceSection invoiceNumber={draft.invoice_number} />
 
           {/* Order Summary - Allow manual editing */}
           <OrderSummarySection
@@ -654,16 +659,7 @@ export default function EditOrderPage() {
         )}
 
         {/* Invoice Number */}
-        <div className="space-y-2">
-          <Label className="text-lg font-bold">Invoice Number *</Label>
-          <Input
-            value={draft.invoice_number}
-            onChange={(e) => setInvoiceNumber(e.target.value)}
-            placeholder="GLZ-2025-0123"
-            className="h-14 text-base rounded-xl"
-            required
-          />
-        </div>
+        <OrderInvoiceSection invoiceNumber={draft.invoice_number} />
 
         {/* Save Button */}
         <StandardButton
@@ -691,3 +687,10 @@ export default function EditOrderPage() {
   );
 }
 
+export default function EditOrderPage() {
+  return (
+    <RouteGuard permission="edit_billing">
+      <EditOrderContent />
+    </RouteGuard>
+  );
+}
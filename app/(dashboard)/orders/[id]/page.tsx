@@ -12,12 +12,18 @@ import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useOrder, useStartRental } from "@/lib/queries/orders";
 import { formatDate, formatDateTime, calculateDays, formatCurrency, isOrderLate } from "@/lib/utils/date";
+import { getOrderGstSettings } from "@/lib/utils/gst";
 import { useToast } from "@/components/ui/toast";
 import { useQueryClient } from "@tanstack/react-query";
 import { InvoiceShare } from "@/components/invoice/invoice-share";
 import { useUserStore } from "@/lib/stores/useUserStore";
+import { hasPermission } from "@/lib/utils/permissions";
 import { OrderReturnSection } from "@/components/orders/order-return-section";
 import { OrderTimeline } from "@/components/orders/order-timeline";
+import { OrderDepositCard } from "@/components/orders/order-deposit-card";
+import { OrderPaymentsCard } from "@/components/orders/order-payments-card";
+import { OrderCreditNotesCard } from "@/components/orders/order-credit-notes-card";
+import { OrderExpensesCard } from "@/components/orders/order-expenses-card";
 import { PageNavbar } from "@/components/layout/page-navbar";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { ImageLightbox } from "@/components/ui/image-lightbox";
@@ -65,8 +71,10 @@ export default function OrderDetailsPage() {
     return isOrderLate(endDate);
   }, [endDate, isCompleted, isScheduled]);
   
-  const gstEnabled = useMemo(() => user?.gst_enabled ?? false, [user?.gst_enabled]);
-  const gstRate = useMemo(() => user?.gst_rate || 5.00, [user?.gst_rate]);
+  const { enabled: gstEnabled, rate: gstRate } = useMemo(
+    () => getOrderGstSettings({ gst_rate: order?.gst_rate, gst_included: order?.gst_included }, user),
+    [order?.gst_rate, order?.gst_included, user]
+  );
 
   // Memoize damage fees breakdown for performance
   const damageFeesBreakdown = useMemo(() => {
@@ -258,14 +266,16 @@ export default function OrderDetailsPage() {
         backHref="/orders"
         actions={
           <div className="flex items-center gap-2">
-            <Link href={`/orders/${orderId}/edit`}>
-              <button
-                className="flex items-center justify-center w-10 h-10 rounded-xl hover:bg-gray-100 active:bg-gray-200 transition-all duration-200 text-gray-700 hover:text-gray-900 premium-hover"
-                aria-label="Edit order"
-              >
-                <Edit className="h-5 w-5" />
-              </button>
-            </Link>
+            {hasPermission(user, "edit_billing") && (
+              <Link href={`/orders/${orderId}/edit`}>
+                <button
+                  className="flex items-center justify-center w-10 h-10 rounded-xl hover:bg-gray-100 active:bg-gray-200 transition-all duration-200 text-gray-700 hover:text-gray-900 premium-hover"
+                  aria-label="Edit order"
+                >
+                  <Edit className="h-5 w-5" />
+                </button>
+              </Link>
+            )}
             {isScheduled && (
               <button
                 onClick={handleStartRental}
@@ -580,6 +590,18 @@ export default function OrderDetailsPage() {
               </div>
             </Card>
 
+            {/* Payments Ledger */}
+            <OrderPaymentsCard order={order} />
+
+            {/* Security Deposit Ledger */}
+            <OrderDepositCard order={order} />
+
+            {/* Credit Notes */}
+            <OrderCreditNotesCard order={order} />
+
+            {/* Cleaning & Repair Expenses */}
+            <OrderExpensesCard order={order} />
+
             {/* Premium Invoice Actions */}
             <Card 
               className="p-6 bg-white/80 backdrop-blur-sm border border-gray-200/60 shadow-lg rounded-xl premium-hover"
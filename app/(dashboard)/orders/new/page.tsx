@@ -6,17 +6,21 @@ import { StandardButton } from "@/components/shared/standard-button";
 import { ArrowLeft, ShoppingBag, Loader2 } from "lucide-react";
 import Link from "next/link";
 import { useUserStore } from "@/lib/stores/useUserStore";
+import { RouteGuard } from "@/components/auth/route-guard";
 import {
   useOrderDraftStore,
   useOrderSubtotal,
   useOrderGrandTotal,
   useOrderGst,
 } from "@/lib/stores/useOrderDraftStore";
-import { useCreateOrder } from "@/lib/queries/orders";
+import { useCreateOrder, BookingPaymentError, type CreateOrderInput } from "@/lib/queries/orders";
+import { useOrderOutboxStore } from "@/lib/stores/useOrderOutboxStore";
+import { isNetworkError, isPendingPhoto } from "@/lib/offline/photos";
 import { calculateDays } from "@/lib/utils/date";
+import { resolvePlaceOfSupply } from "@/lib/utils/gst";
+import { canOverrideBlacklist } from "@/lib/utils/customer-risk";
 import { useToast } from "@/components/ui/toast";
 import { ImageLightbox } from "@/components/ui/image-lightbox";
-import { generateInvoiceNumber } from "@/lib/utils/invoice";
 import type { OrderItem, Customer } from "@/lib/types";
 import { Card } from "@/components/ui/card";
 
@@ -24,8 +28,12 @@ import { Card } from "@/components/ui/card";
 import { OrderFormSection } from "@/components/orders/order-form-section";
 import { OrderDateTimeSection } from "@/components/orders/order-datetime-section";
 import { OrderItemsSection } from "@/components/orders/order-items-section";
+import { OrderDepositSection } from "@/components/orders/order-deposit-section";
+import { OrderAdvancePaymentSection } from "@/components/orders/order-advance-payment-section";
 import { OrderSummarySection } from "@/components/orders/order-summary-section";
 import { OrderInvoiceSection } from "@/components/orders/order-invoice-section";
+import { OrderBlacklistOverrideSection } from "@/components/orders/order-blacklist-override-section";
+import { useOfflineOrderSync } from "@/components/orders/order-outbox-sync";
 
 /**
  * New Order Page - Clean Design (No Animations)
@@ -33,21 +41,25 @@ import { OrderInvoiceSection } from "@/components/orders/order-invoice-section";
  * Creates a new rental order with customer selection, date/time selection,
  * items management, and order summary. Optimized for speed and performance.
  */
-export default function CreateOrderPage() {
+function CreateOrderContent() {
   const router = useRouter();
   const { user } = useUserStore();
   const { showToast } = useToast();
   const createOrderMutation = useCreateOrder();
+  const queueOfflineOrder = useOrderOutboxStore((state) => state.queue);
+  const { runSync } = useOfflineOrderSync();
 
   const {
     draft,
     setStartDate,
     setEndDate,
-    setInvoiceNumber,
+    setDepositAmount,
+    setAdvancePayment,
     addItem,
     updateItem,
     removeItem,
     clearDraft,
+    selectCustomer,
   } = useOrderDraftStore();
 
   // Use optimized selectors
@@ -55,9 +67,22 @@ export default function CreateOrderPage() {
   const gstAmount = useOrderGst();
   const grandTotal = useOrderGrandTotal();
 
-  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  // Kept in the draft so it's still selected after a reload while offline
+  const selectedCustomer = draft.customer ?? null;
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [hasPendingUploads, setHasPendingUploads] = useState(false);
+  const [hasOverbooking, setHasOverbooking] = useState(false);
+  const [blacklistOverrideReason, setBlacklistOverrideReason] = useState("");
+  const [nextInvoiceNumber, setNextInvoiceNumber] = useState<string | null>(null);
+
+  const isBlacklisted = !!selectedCustomer?.is_blacklisted;
+  const canOverride = canOverrideBlacklist(user?.role);
+
+  // An override reason only applies to the customer it was written for
+  const handleSelectCustomer = useCallback((customer: Customer | null) => {
+    selectCustomer(customer);
+    setBlacklistOverrideReason("");
+  }, [selectCustomer]);
 
   // Memoize days calculation
   const days = useMemo(
@@ -118,6 +143,17 @@ export default function CreateOrderPage() {
       return;
     }
 
+    if (isBlacklisted) {
+      if (!canOverride) {
+        showToast(`${selectedCustomer.name} is blacklisted. Ask an admin to create this order.`, "error");
+        return;
+      }
+      if (!blacklistOverrideReason.trim()) {
+        showToast("Enter a reason to override the blacklist", "error");
+        return;
+      }
+    }
+
     // ✅ CRITICAL FIX (Issue A1): Validate date range
     if (!draft.start_date) {
       showToast("Please select a start date", "error");
@@ -151,10 +187,6 @@ export default function CreateOrderPage() {
       return;
     }
 
-    // Auto-generate invoice number if not provided
-    // ✅ FIX: Invoice number generation is now async to check for duplicates
-    const finalInvoiceNumber = draft.invoice_number || await generateInvoiceNumber();
-
     // ✅ FIX: Validate user information
     if (!user?.id) {
       showToast("User information not found", "error");
@@ -221,6 +253,11 @@ export default function CreateOrderPage() {
       return;
     }
 
+    if (hasOverbooking) {
+      showToast("Some catalog items don't have enough free stock for these dates. Reduce quantities or change the dates.", "error");
+      return;
+    }
+
     // ✅ FIX (Issue D4): Improved image validation with specific item identification
     const itemsWithBlobUrls: number[] = [];
     const itemsWithoutValidPhotos: number[] = [];
@@ -253,6 +290,27 @@ export default function CreateOrderPage() {
       return;
     }
 
+    let orderInput: CreateOrderInput | null = null;
+
+    // Saved on this device and created by the outbox when the connection returns
+    const queueOrder = async (input: CreateOrderInput) => {
+      await queueOfflineOrder(input, {
+        customer_name: selectedCustomer.name,
+        customer_phone: selectedCustomer.phone,
+        provisional_invoice_number: nextInvoiceNumber,
+      });
+      clearDraft();
+      router.push("/orders");
+
+      if (navigator.onLine) {
+        // Back online, but photos taken offline still need uploading first
+        showToast("Order saved - uploading photos and syncing...", "info");
+        runSync();
+      } else {
+        showToast("You're offline - the order is saved on this device and will sync when the connection returns", "info");
+      }
+    };
+
     try {
       showToast("Creating order...", "info");
 
@@ -292,24 +350,61 @@ export default function CreateOrderPage() {
         return;
       }
 
-      await createOrderMutation.mutateAsync({
+      if (draft.advance_amount > grandTotal) {
+        showToast("Advance payment can't be more than the order total", "error");
+        return;
+      }
+
+      orderInput = {
+        id: crypto.randomUUID(), // Lets a retry after a dropped connection find this order
         branch_id: user.branch_id, // Now TypeScript knows this is not null
         staff_id: user.id,
         customer_id: selectedCustomer.id,
-        invoice_number: finalInvoiceNumber,
         start_date: draft.start_date,
         end_date: draft.end_date,
         total_amount: grandTotal,
         subtotal: subtotal,
         gst_amount: gstEnabled && gstAmount > 0 ? gstAmount : 0,
+        place_of_supply: resolvePlaceOfSupply(selectedCustomer, user.branch, user),
+        customer_gstin: selectedCustomer.gstin || null,
+        gst_rate: gstEnabled ? (user?.gst_rate ?? 5.00) : 0,
+        gst_included: gstIncluded,
+        deposit_amount: draft.deposit_amount,
+        advance_payment: draft.advance_amount > 0
+          ? { amount: draft.advance_amount, mode: draft.advance_mode }
+          : undefined,
         items: draft.items,
-      });
+        blacklist_override_reason: isBlacklisted ? blacklistOverrideReason : undefined,
+      };
+
+      if (!navigator.onLine || draft.items.some((item) => isPendingPhoto(item.photo_url))) {
+        await queueOrder(orderInput);
+        return;
+      }
 
-      showToast("Order created successfully!", "success");
+      const createdOrder = await createOrderMutation.mutateAsync(orderInput);
+
+      showToast(
+        createdOrder.invoice_number
+          ? `Order ${createdOrder.invoice_number} created successfully!`
+          : "Order created successfully!",
+        "success"
+      );
       clearDraft();
 
       router.push("/orders");
     } catch (error: any) {
+      // Saved but the deposit or advance wasn't recorded: the outbox replays
+      // the same order id, which records only what is missing
+      if (orderInput && (isNetworkError(error) || error instanceof BookingPaymentError)) {
+        try {
+          await queueOrder(orderInput);
+          return;
+        } catch (queueError) {
+          console.error("Failed to save order offline:", queueError);
+        }
+      }
+
       console.error("Order creation error:", error);
       
       // ✅ FIX: Extract proper error message from Supabase errors
@@ -329,18 +424,22 @@ export default function CreateOrderPage() {
       
       // Check for specific error codes
       if (error?.code === '23505' || errorMessage.includes('duplicate key') || errorMessage.includes('unique constraint') || errorMessage.includes('invoice_number')) {
-        errorMessage = "Invoice number already exists. Please try again or enter a different invoice number.";
+        errorMessage = "Couldn't assign an invoice number. Please try again.";
       }
       
       showToast(errorMessage, "error");
     }
-  }, [selectedCustomer, draft, user, grandTotal, subtotal, gstAmount, showToast, createOrderMutation, clearDraft, router]);
+  }, [selectedCustomer, draft, user, grandTotal, subtotal, gstAmount, hasOverbooking, isBlacklisted, canOverride, blacklistOverrideReason, nextInvoiceNumber, showToast, createOrderMutation, queueOfflineOrder, runSync, clearDraft, router, days]);
 
   // Memoize validation state - check for blob URLs
   const canSave = useMemo(() => {
     if (!selectedCustomer || draft.items.length === 0 || !draft.end_date) {
       return false;
     }
+
+    if (isBlacklisted && (!canOverride || !blacklistOverrideReason.trim())) {
+      return false;
+    }
     
     // Check if any items have blob URLs (uploading)
     const hasBlobUrls = draft.items.some((item) => 
@@ -353,8 +452,8 @@ export default function CreateOrderPage() {
     );
     
     // Cannot save if there are pending uploads or empty photos
-    return !hasBlobUrls && !hasEmptyPhotos && !hasPendingUploads;
-  }, [selectedCustomer, draft.items, draft.end_date, hasPendingUploads]);
+    return !hasBlobUrls && !hasEmptyPhotos && !hasPendingUploads && !hasOverbooking;
+  }, [selectedCustomer, draft.items, draft.end_date, hasPendingUploads, hasOverbooking, isBlacklisted, canOverride, blacklistOverrideReason]);
 
   return (
     <div className="min-h-screen bg-gray-50 pb-32">
@@ -384,12 +483,24 @@ export default function CreateOrderPage() {
           <Card className="p-6 rounded-xl border border-gray-200 bg-white shadow-sm">
             <OrderFormSection
               selectedCustomer={selectedCustomer}
-              onSelectCustomer={setSelectedCustomer}
+              onSelectCustomer={handleSelectCustomer}
               branchName={user?.branch?.name}
               staffName={user?.full_name}
             />
           </Card>
 
+          {/* Blacklist Override */}
+          {selectedCustomer && isBlacklisted && (
+            <Card className="p-6 rounded-xl border border-red-200 bg-white shadow-sm">
+              <OrderBlacklistOverrideSection
+                customer={selectedCustomer}
+                canOverride={canOverride}
+                reason={blacklistOverrideReason}
+                onReasonChange={setBlacklistOverrideReason}
+              />
+            </Card>
+          )}
+
           {/* Rental Dates & Times */}
           <Card className="p-6 rounded-xl border border-gray-200 bg-white shadow-sm">
             <OrderDateTimeSection
@@ -410,6 +521,9 @@ export default function CreateOrderPage() {
               onImageClick={setSelectedImage}
               days={days}
               onUploadStatusChange={setHasPendingUploads}
+              startDate={draft.start_date}
+              endDate={draft.end_date}
+              onAvailabilityChange={setHasOverbooking}
             />
           </Card>
 
@@ -427,15 +541,29 @@ export default function CreateOrderPage() {
             </Card>
           )}
 
-          {/* Invoice Number */}
+          {/* Advance Payment */}
           <Card className="p-6 rounded-xl border border-gray-200 bg-white shadow-sm">
-            <OrderInvoiceSection
-              invoiceNumber={draft.invoice_number}
-              onInvoiceNumberChange={setInvoiceNumber}
-              autoGenerate={true}
+            <OrderAdvancePaymentSection
+              amount={draft.advance_amount}
+              mode={draft.advance_mode}
+              grandTotal={grandTotal}
+              onChange={setAdvancePayment}
             />
           </Card>
 
+          {/* Security Deposit */}
+          <Card className="p-6 rounded-xl border border-gray-200 bg-white shadow-sm">
+            <OrderDepositSection
+              depositAmount={draft.deposit_amount}
+              onDepositAmountChange={setDepositAmount}
+            />
+          </Card>
+
+          {/* Invoice Number */}
+          <Card className="p-6 rounded-xl border border-gray-200 bg-white shadow-sm">
+            <OrderInvoiceSection branchId={user?.branch_id} onNextNumberChange={setNextInvoiceNumber} />
+          </Card>
+
           {/* Save Button */}
           <div className="sticky bottom-6 z-10">
             <StandardButton
@@ -478,3 +606,11 @@ export default function CreateOrderPage() {
     </div>
   );
 }
+
+export default function CreateOrderPage() {
+  return (
+    <RouteGuard permission="create_order">
+      <CreateOrderContent />
+    </RouteGuard>
+  );
+}
@@ -30,7 +30,8 @@ import {
   ArrowRight,
 } from "lucide-react";
 import { useUserStore } from "@/lib/stores/useUserStore";
-import { useOrders, useOrdersInfinite, useUpdateOrderStatus, useStartRental } from "@/lib/queries/orders";
+import { hasPermission } from "@/lib/utils/permissions";
+import { useOrdersInfinite, useUpdateOrderStatus, useStartRental, isQueuedForApproval } from "@/lib/queries/orders";
 import { useToast } from "@/components/ui/toast";
 import { useRealtimeSubscription } from "@/lib/hooks/use-realtime-subscription";
 import { Button } from "@/components/ui/button";
@@ -49,6 +50,7 @@ import { Pagination } from "@/components/shared";
 import { getOrderStatus, formatCurrency, isOrderLate, isBooking } from "@/lib/utils/date";
 import { differenceInHours, differenceInDays, differenceInMinutes, format, startOfToday, endOfToday, subDays, startOfWeek, startOfMonth, subMonths, startOfDay, endOfDay } from "date-fns";
 import { OrderCard } from "@/components/orders/order-card";
+import { OfflineOrdersPanel } from "@/components/orders/offline-orders-panel";
 import { useQueryClient } from "@tanstack/react-query";
 import { MobileSidebar } from "@/components/layout/mobile-sidebar";
 import { Menu } from "lucide-react";
@@ -311,10 +313,15 @@ export default function OrdersPage() {
     }
   }, [user?.branch_id, queryClient]);
 
+  const canCreateOrder = hasPermission(user, "create_order");
+  const canCancel = hasPermission(user, "cancel_order");
+
   // Helper function to check if order can be cancelled
   // Scheduled orders: Can be cancelled anytime until they become ongoing
   // Ongoing orders: Can be cancelled only within 10 minutes of becoming active
   const canCancelOrder = useCallback((order: any): boolean => {
+    if (!canCancel) return false;
+
     const status = order.status;
     
     // Already cancelled or completed orders cannot be cancelled
@@ -395,7 +402,7 @@ export default function OrdersPage() {
     
     // Other statuses (pending_return) cannot be cancelled
     return false;
-  }, []);
+  }, [canCancel]);
 
   // Ultra-optimized category calculation - memoized date parsing for performance
   const getOrderCategory = useCallback((order: any): "scheduled" | "ongoing" | "late" | "returned" | "cancelled" | "partially_returned" | "flagged" => {
@@ -627,15 +634,19 @@ export default function OrdersPage() {
 
   // Handle cancel order
   const handleCancelOrder = useCallback(async (orderId: string) => {
-    if (!confirm("Are you sure you want to cancel this order? This action cannot be undone.")) {
+    if (!confirm("Are you sure you want to cancel this order? A credit note will be issued against its invoice. This action cannot be undone.")) {
       return;
     }
     try {
-      await updateStatusMutation.mutateAsync({
+      const result = await updateStatusMutation.mutateAsync({
         orderId,
         status: "cancelled",
       });
-      showToast("Order cancelled successfully", "success");
+      if (isQueuedForApproval(result)) {
+        showToast("Cancellation sent to a branch admin for approval", "info");
+      } else {
+        showToast("Order cancelled successfully", "success");
+      }
     } catch (error: any) {
       showToast(error.message || "Failed to cancel order", "error");
     }
@@ -839,14 +850,16 @@ export default function OrdersPage() {
             {/* Premium Action Buttons */}
             <div className="flex items-center gap-3 flex-shrink-0">
               <DateRangePicker value={dateRange} onChange={setDateRange} />
-              <StandardButton
-                onClick={() => router.push("/orders/new")}
-                variant="default"
-                icon={Plus}
-                className="flex-shrink-0 premium-hover bg-gradient-to-r from-[#273492] to-[#1f2a7a] hover:from-[#1f2a7a] hover:to-[#273492] shadow-lg hover:shadow-xl"
-              >
-                New Order
-              </StandardButton>
+              {canCreateOrder && (
+                <StandardButton
+                  onClick={() => router.push("/orders/new")}
+                  variant="default"
+                  icon={Plus}
+                  className="flex-shrink-0 premium-hover bg-gradient-to-r from-[#273492] to-[#1f2a7a] hover:from-[#1f2a7a] hover:to-[#273492] shadow-lg hover:shadow-xl"
+                >
+                  New Order
+                </StandardButton>
+              )}
             </div>
           </div>
 
@@ -985,6 +998,9 @@ export default function OrdersPage() {
             </div>
           )}
 
+          {/* Orders created offline, waiting to sync */}
+          <OfflineOrdersPanel />
+
           {/* Premium Table */}
           <div className="bg-white/80 backdrop-blur-sm rounded-xl border border-gray-200/60 overflow-hidden shadow-lg">
             <Table>
@@ -1233,14 +1249,16 @@ export default function OrdersPage() {
               <Package className="h-16 w-16 text-gray-300 mx-auto mb-4" />
               <p className="text-gray-700 font-bold text-xl mb-2">No orders found</p>
               <p className="text-gray-500 text-sm mb-8">Create your first order to get started</p>
-              <StandardButton
-                onClick={() => router.push("/orders/new")}
-                variant="default"
-                icon={Plus}
-                className="premium-hover bg-gradient-to-r from-[#273492] to-[#1f2a7a] hover:from-[#1f2a7a] hover:to-[#273492] shadow-lg hover:shadow-xl"
-              >
-                New Order
-              </StandardButton>
+              {canCreateOrder && (
+                <StandardButton
+                  onClick={() => router.push("/orders/new")}
+                  variant="default"
+                  icon={Plus}
+                  className="premium-hover bg-gradient-to-r from-[#273492] to-[#1f2a7a] hover:from-[#1f2a7a] hover:to-[#273492] shadow-lg hover:shadow-xl"
+                >
+                  New Order
+                </StandardButton>
+              )}
             </Card>
           )}
 
@@ -1291,14 +1309,16 @@ export default function OrdersPage() {
         </div>
 
         {/* Premium Mobile Floating Action Button */}
-        <div className="md:hidden fixed bottom-20 right-4 z-30">
-          <Button
-            onClick={() => router.push("/orders/new")}
-            className="h-14 w-14 rounded-full bg-gradient-to-r from-[#273492] to-[#1f2a7a] hover:from-[#1f2a7a] hover:to-[#273492] text-white shadow-xl hover:shadow-2xl premium-hover transition-all duration-300 hover:scale-110"
-          >
-            <Plus className="h-6 w-6" />
-          </Button>
-        </div>
+        {canCreateOrder && (
+          <div className="md:hidden fixed bottom-20 right-4 z-30">
+            <Button
+              onClick={() => router.push("/orders/new")}
+              className="h-14 w-14 rounded-full bg-gradient-to-r from-[#273492] to-[#1f2a7a] hover:from-[#1f2a7a] hover:to-[#273492] text-white shadow-xl hover:shadow-2xl premium-hover transition-all duration-300 hover:scale-110"
+            >
+              <Plus className="h-6 w-6" />
+            </Button>
+          </div>
+        )}
 
       </div>
     </>
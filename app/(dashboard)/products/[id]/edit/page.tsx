@@ -0,0 +1,71 @@
+"use client";
+
+import { useParams, useRouter } from "next/navigation";
+import { Package } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { useToast } from "@/components/ui/toast";
+import { RouteGuard } from "@/components/auth/route-guard";
+import { PageNavbar } from "@/components/layout/page-navbar";
+import { LoadingState, ErrorState } from "@/components/shared";
+import { ProductForm, type ProductFormValues } from "@/components/products/product-form";
+import { useProduct, useUpdateProduct } from "@/lib/queries/products";
+import { getErrorMessage } from "@/lib/utils/error";
+
+export default function EditProductPage() {
+  const params = useParams();
+  const id = params.id as string;
+  const router = useRouter();
+  const { showToast } = useToast();
+  const { data: product, isLoading, error } = useProduct(id);
+  const updateProductMutation = useUpdateProduct();
+
+  const handleSubmit = async (values: ProductFormValues) => {
+    try {
+      await updateProductMutation.mutateAsync({ productId: id, updates: values });
+      showToast("Product updated successfully", "success");
+      router.push(`/products/${id}`);
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to update product"), "error");
+    }
+  };
+
+  return (
+    <RouteGuard allowedRoles={["super_admin", "branch_admin"]}>
+      <div className="min-h-screen bg-gray-50 pb-24">
+        <PageNavbar
+          title="Edit Product"
+          subtitle={product ? product.sku : undefined}
+          backHref={`/products/${id}`}
+        />
+
+        <div className="p-4 md:p-6 max-w-2xl mx-auto">
+          {isLoading ? (
+            <LoadingState message="Loading product..." />
+          ) : error || !product ? (
+            <ErrorState message="Product not found" />
+          ) : (
+            <Card className="p-6 md:p-8">
+              <div className="flex items-center gap-3 mb-6">
+                <div className="p-3 bg-[#273492]/10 rounded-lg">
+                  <Package className="h-6 w-6 text-[#273492]" />
+                </div>
+                <div>
+                  <h2 className="text-2xl font-bold text-gray-900">Edit Product</h2>
+                  <p className="text-sm text-gray-600">{product.name}</p>
+                </div>
+              </div>
+
+              <ProductForm
+                product={product}
+                submitLabel="Save Changes"
+                submitting={updateProductMutation.isPending}
+                onSubmit={handleSubmit}
+                onCancel={() => router.back()}
+              />
+            </Card>
+          )}
+        </div>
+      </div>
+    </RouteGuard>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { Edit, Package, ShoppingBag, IndianRupee, Boxes } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ImageLightbox } from "@/components/ui/image-lightbox";
+import { RouteGuard } from "@/components/auth/route-guard";
+import { PageNavbar } from "@/components/layout/page-navbar";
+import { StandardButton } from "@/components/shared/standard-button";
+import { LoadingState, ErrorState, EmptyState } from "@/components/shared";
+import { useProduct, useProductRentalHistory } from "@/lib/queries/products";
+import { formatCurrency, formatDate } from "@/lib/utils/date";
+
+// Orders whose items are still physically out with the customer
+const OUT_STATUSES = ["active", "pending_return", "partially_returned", "flagged"];
+
+const STATUS_BADGES: Record<string, { className: string; label: string }> = {
+  scheduled: { className: "bg-blue-100 text-blue-700", label: "Scheduled" },
+  active: { className: "bg-green-100 text-green-700", label: "Ongoing" },
+  pending_return: { className: "bg-red-100 text-red-700", label: "Pending Return" },
+  partially_returned: { className: "bg-orange-100 text-orange-700", label: "Partial" },
+  flagged: { className: "bg-yellow-100 text-yellow-700", label: "Flagged" },
+  completed: { className: "bg-gray-100 text-gray-700", label: "Completed" },
+  cancelled: { className: "bg-gray-100 text-gray-500", label: "Cancelled" },
+};
+
+export default function ProductDetailsPage() {
+  const params = useParams();
+  const router = useRouter();
+  const productId = params.id as string;
+  const [showImage, setShowImage] = useState(false);
+
+  const { data: product, isLoading, error } = useProduct(productId);
+  const { data: rentals, isLoading: rentalsLoading } = useProductRentalHistory(productId);
+
+  const stats = useMemo(() => {
+    const list = (rentals || []).filter((r) => r.order?.status !== "cancelled");
+    const unitsOut = list
+      .filter((r) => r.order && OUT_STATUSES.includes(r.order.status))
+      .reduce((sum, r) => sum + Math.max(0, r.quantity - (r.returned_quantity ?? 0)), 0);
+
+    return {
+      rentals: list.length,
+      revenue: list.reduce((sum, r) => sum + (Number(r.line_total) || 0), 0),
+      unitsOut,
+    };
+  }, [rentals]);
+
+  return (
+    <RouteGuard allowedRoles={["super_admin", "branch_admin"]}>
+      <div className="min-h-screen bg-[#f7f9fb] pb-24">
+        <PageNavbar
+          title={product?.name || "Product"}
+          subtitle={product?.sku}
+          backHref="/products"
+          actions={
+            product && (
+              <StandardButton variant="outline" icon={Edit} onClick={() => router.push(`/products/${productId}/edit`)}>
+                Edit
+              </StandardButton>
+            )
+          }
+        />
+
+        <div className="p-4 md:p-6 max-w-4xl mx-auto space-y-4">
+          {isLoading ? (
+            <LoadingState message="Loading product..." />
+          ) : error || !product ? (
+            <ErrorState message="Product not found" />
+          ) : (
+            <>
+              {/* Product summary */}
+              <Card className="p-5">
+                <div className="flex items-start gap-4">
+                  <img
+                    src={product.photo_url}
+                    alt={product.name}
+                    className="w-28 h-28 object-cover rounded-xl border-2 border-gray-200 cursor-pointer hover:opacity-80"
+                    onClick={() => setShowImage(true)}
+                  />
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <h2 className="text-xl font-bold text-gray-900">{product.name}</h2>
+                      {product.is_active === false && (
+                        <Badge className="bg-gray-200 text-gray-700 text-xs">Inactive</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-500 font-mono">{product.sku}</p>
+                    {product.category && (
+                      <Badge variant="outline" className="text-xs border-gray-300">{product.category}</Badge>
+                    )}
+                    <p className="text-lg font-semibold text-[#273492]">
+                      {formatCurrency(product.default_daily_rate)}/day
+                    </p>
+                  </div>
+                </div>
+              </Card>
+
+              {/* Stock & rental stats */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <Card className="p-4">
+                  <div className="flex items-center gap-2 text-xs font-medium text-gray-500 uppercase tracking-wide mb-1.5">
+                    <Boxes className="h-4 w-4 text-[#273492]" />
+                    Stock
+                  </div>
+                  <p className="text-2xl font-bold text-gray-900">{product.stock_quantity}</p>
+                </Card>
+                <Card className="p-4">
+                  <div className="flex items-center gap-2 text-xs font-medium text-gray-500 uppercase tracking-wide mb-1.5">
+                    <Package className="h-4 w-4 text-orange-600" />
+                    Out Now
+                  </div>
+                  <p className="text-2xl font-bold text-orange-600">{stats.unitsOut}</p>
+                </Card>
+                <Card className="p-4">
+                  <div className="flex items-center gap-2 text-xs font-medium text-gray-500 uppercase tracking-wide mb-1.5">
+                    <ShoppingBag className="h-4 w-4 text-[#273492]" />
+                    Rentals
+                  </div>
+                  <p className="text-2xl font-bold text-gray-900">{stats.rentals}</p>
+                </Card>
+                <Card className="p-4">
+                  <div className="flex items-center gap-2 text-xs font-medium text-gray-500 uppercase tracking-wide mb-1.5">
+                    <IndianRupee className="h-4 w-4 text-green-600" />
+                    Revenue
+                  </div>
+                  <p className="text-2xl font-bold text-green-600">{formatCurrency(stats.revenue)}</p>
+                </Card>
+              </div>
+
+              {/* Rental history */}
+              <Card className="p-4">
+                <h2 className="text-lg font-semibold text-gray-900 mb-3">Rental History</h2>
+                {rentalsLoading ? (
+                  <LoadingState variant="skeleton" count={3} />
+                ) : !rentals || rentals.length === 0 ? (
+                  <EmptyState
+                    icon={<ShoppingBag className="h-12 w-12" />}
+                    title="Not rented yet"
+                    description="Orders that include this product will appear here"
+                  />
+                ) : (
+                  <div className="divide-y divide-gray-100">
+                    {rentals.map((rental) => {
+                      const badge = rental.order ? STATUS_BADGES[rental.order.status] : undefined;
+                      return (
+                        <Link
+                          key={rental.id}
+                          href={rental.order ? `/orders/${rental.order.id}` : "#"}
+                          className="flex items-center justify-between gap-3 py-3 hover:bg-gray-50 rounded-lg px-2 -mx-2"
+                        >
+                          <div className="min-w-0">
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium text-gray-900">
+                                {rental.order?.invoice_number || "—"}
+                              </span>
+                              {badge && (
+                                <Badge className={`${badge.className} text-[10px] px-2 py-0.5`}>
+                                  {badge.label}
+                                </Badge>
+                              )}
+                            </div>
+                            <p className="text-xs text-gray-500 truncate">
+                              {rental.order?.customer?.name || "Unknown customer"}
+                              {rental.order && (
+                                <> · {formatDate(rental.order.start_date)} – {formatDate(rental.order.end_date)}</>
+                              )}
+                            </p>
+                          </div>
+                          <div className="text-right flex-shrink-0">
+                            <p className="font-semibold text-gray-900">{formatCurrency(rental.line_total)}</p>
+                            <p className="text-xs text-gray-500">Qty {rental.quantity}</p>
+                          </div>
+                        </Link>
+                      );
+                    })}
+                  </div>
+                )}
+              </Card>
+            </>
+          )}
+        </div>
+
+        {showImage && product && (
+          <ImageLightbox
+            imageUrl={product.photo_url}
+            isOpen={showImage}
+            onClose={() => setShowImage(false)}
+            alt={product.name}
+          />
+        )}
+      </div>
+    </RouteGuard>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { Package } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { useToast } from "@/components/ui/toast";
+import { RouteGuard } from "@/components/auth/route-guard";
+import { PageNavbar } from "@/components/layout/page-navbar";
+import { ProductForm, type ProductFormValues } from "@/components/products/product-form";
+import { useCreateProduct } from "@/lib/queries/products";
+import { useUserStore } from "@/lib/stores/useUserStore";
+import { getErrorMessage } from "@/lib/utils/error";
+
+export default function NewProductPage() {
+  const router = useRouter();
+  const { user } = useUserStore();
+  const { showToast } = useToast();
+  const createProductMutation = useCreateProduct();
+
+  const handleSubmit = async (values: ProductFormValues) => {
+    if (!user?.branch_id) {
+      showToast("Select a branch before adding products", "error");
+      return;
+    }
+
+    try {
+      const product = await createProductMutation.mutateAsync({
+        branch_id: user.branch_id,
+        ...values,
+      });
+      showToast("Product added to catalog", "success");
+      router.push(`/products/${product.id}`);
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to create product"), "error");
+    }
+  };
+
+  return (
+    <RouteGuard allowedRoles={["super_admin", "branch_admin"]}>
+      <div className="min-h-screen bg-gray-50 pb-24">
+        <PageNavbar
+          title="New Product"
+          subtitle={user?.branch?.name ? `Catalog for ${user.branch.name}` : "Add a costume to the catalog"}
+          backHref="/products"
+        />
+
+        <div className="p-4 md:p-6 max-w-2xl mx-auto">
+          <Card className="p-6 md:p-8">
+            <div className="flex items-center gap-3 mb-6">
+              <div className="p-3 bg-[#273492]/10 rounded-lg">
+                <Package className="h-6 w-6 text-[#273492]" />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold text-gray-900">Add Product</h2>
+                <p className="text-sm text-gray-600">SKU, daily rate, stock and photo</p>
+              </div>
+            </div>
+
+            <ProductForm
+              submitLabel="Create Product"
+              submitting={createProductMutation.isPending}
+              onSubmit={handleSubmit}
+              onCancel={() => router.back()}
+            />
+          </Card>
+        </div>
+      </div>
+    </RouteGuard>
+  );
+}
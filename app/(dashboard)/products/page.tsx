@@ -0,0 +1,150 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Package, Edit } from "lucide-react";
+import { PageHeader, EmptyState, ActionButton, LoadingState, ErrorState, SearchInput } from "@/components/shared";
+import { RouteGuard } from "@/components/auth/route-guard";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ActiveToggle } from "@/components/ui/active-toggle";
+import { useToast } from "@/components/ui/toast";
+import { useUserStore } from "@/lib/stores/useUserStore";
+import { useDebounce } from "@/lib/hooks/use-debounce";
+import { useProducts, useToggleProductActive } from "@/lib/queries/products";
+import { formatCurrency } from "@/lib/utils/date";
+import { cn } from "@/lib/utils/cn";
+import { getErrorMessage } from "@/lib/utils/error";
+
+export default function ProductsPage() {
+  const router = useRouter();
+  const { user } = useUserStore();
+  const { showToast } = useToast();
+  const [searchQuery, setSearchQuery] = useState("");
+  const debouncedSearch = useDebounce(searchQuery, 300);
+
+  const { data: products, isLoading, error } = useProducts(user?.branch_id || null, {
+    search: debouncedSearch,
+    includeInactive: true,
+  });
+  const toggleActiveMutation = useToggleProductActive();
+
+  return (
+    <RouteGuard allowedRoles={["super_admin", "branch_admin"]}>
+      <div className="min-h-screen bg-[#f7f9fb] pb-24">
+        <PageHeader
+          title="Products"
+          description={products ? `${products.length} product${products.length !== 1 ? "s" : ""} in catalog` : undefined}
+          actions={
+            <Link href="/products/new">
+              <ActionButton label="Add Product" onClick={() => {}} />
+            </Link>
+          }
+        >
+          <SearchInput
+            value={searchQuery}
+            onChange={setSearchQuery}
+            placeholder="Search by name, SKU or category..."
+          />
+        </PageHeader>
+
+        <div className="px-4 md:px-6 py-4">
+          {!user?.branch_id ? (
+            <EmptyState
+              icon={<Package className="h-16 w-16" />}
+              title="Select a branch"
+              description="Choose a branch from the sidebar to manage its catalog"
+            />
+          ) : isLoading ? (
+            <LoadingState message="Loading products..." />
+          ) : error ? (
+            <ErrorState message="Failed to load products" />
+          ) : !products || products.length === 0 ? (
+            <EmptyState
+              icon={<Package className="h-16 w-16" />}
+              title={debouncedSearch ? "No matching products" : "No products yet"}
+              description={debouncedSearch ? "Try a different search" : "Add costumes to the catalog to pick them in new orders"}
+            />
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {products.map((product) => (
+                <Card
+                  key={product.id}
+                  className={cn(
+                    "p-4 hover:shadow-md transition-shadow cursor-pointer group",
+                    product.is_active === false && "opacity-60"
+                  )}
+                  onClick={() => router.push(`/products/${product.id}`)}
+                >
+                  <div className="flex items-start gap-3">
+                    <img
+                      src={product.photo_url}
+                      alt={product.name}
+                      className="w-20 h-20 object-cover rounded-lg border border-gray-200 flex-shrink-0"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <h3 className="font-semibold text-gray-900 truncate">{product.name}</h3>
+                          <p className="text-xs text-gray-500 font-mono">{product.sku}</p>
+                        </div>
+                        <Link href={`/products/${product.id}/edit`} onClick={(e) => e.stopPropagation()}>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                            title="Edit product"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        </Link>
+                      </div>
+                      <div className="flex items-center gap-2 mt-2 flex-wrap">
+                        {product.category && (
+                          <Badge variant="outline" className="text-[10px] px-2 py-0.5 h-5 border-gray-300">
+                            {product.category}
+                          </Badge>
+                        )}
+                        <span className="text-sm font-semibold text-[#273492]">
+                          {formatCurrency(product.default_daily_rate)}/day
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between mt-2">
+                        <span className="text-xs text-gray-600">
+                          Stock: <strong>{product.stock_quantity}</strong>
+                        </span>
+                        <div onClick={(e) => e.stopPropagation()}>
+                          <ActiveToggle
+                            checked={product.is_active ?? true}
+                            onCheckedChange={async (checked) => {
+                              try {
+                                await toggleActiveMutation.mutateAsync({
+                                  productId: product.id,
+                                  isActive: checked,
+                                });
+                                showToast(
+                                  `Product ${checked ? "activated" : "deactivated"} successfully`,
+                                  "success"
+                                );
+                              } catch (error) {
+                                showToast(getErrorMessage(error, "Failed to update product status"), "error");
+                              }
+                            }}
+                            disabled={toggleActiveMutation.isPending}
+                            ariaLabel={`Toggle active status for ${product.name}`}
+                          />
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </RouteGuard>
+  );
+}
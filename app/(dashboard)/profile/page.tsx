@@ -11,6 +11,7 @@ import { useToast } from "@/components/ui/toast";
 import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { Sparkles, User, Key, Receipt, QrCode, LogOut, Building2, MapPin, Upload, X, Camera } from "lucide-react";
 import { compressImage, createPreviewUrl, revokePreviewUrl } from "@/lib/utils/image-compression";
+import { DataBackupCard } from "@/components/backup/data-backup-card";
 
 /**
  * Premium Modern Profile Page
@@ -975,6 +976,9 @@ export default function ProfilePage() {
             </div>
           </Card>
 
+          {/* Data Backup Card - Admins Only */}
+          {(isSuperAdmin || isBranchAdmin) && <DataBackupCard />}
+
           {/* Change Password Card - Premium */}
           <Card 
             className="p-6 rounded-xl border border-gray-200 bg-white/80 backdrop-blur-sm shadow-lg hover:shadow-xl transition-all duration-300 premium-hover fadeInUp"
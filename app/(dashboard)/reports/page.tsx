@@ -1,21 +1,515 @@
 "use client";
 
-import { BarChart3 } from "lucide-react";
-import { PageHeader, EmptyState } from "@/components/shared";
+import { useMemo, useState, type ReactNode } from "react";
+import Link from "next/link";
+import { startOfMonth, endOfToday, format } from "date-fns";
+import { Download, IndianRupee, Receipt, ShoppingBag, Users, Wallet } from "lucide-react";
+import { PageHeader, EmptyState, ErrorState, LoadingState } from "@/components/shared";
+import { RouteGuard } from "@/components/auth/route-guard";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectItem } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { DateRangePicker, type DateRange } from "@/components/ui/date-range-picker";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableRow,
+  TableHead,
+  TableCell,
+} from "@/components/ui/table";
+import { useUserStore } from "@/lib/stores/useUserStore";
+import { useBranches } from "@/lib/queries/branches";
+import {
+  useReportOrders,
+  useReportCreditNotes,
+  useReportPayments,
+  buildCollectionRows,
+  buildRevenueSplit,
+  buildStatusCounts,
+  buildBranchProfit,
+  buildProductProfit,
+  type ProfitRow,
+  type ReportPeriod,
+} from "@/lib/queries/reports";
+import { useExpenses } from "@/lib/queries/expenses";
+import { CREDIT_NOTE_TYPE_LABELS } from "@/lib/queries/credit-notes";
+import { formatCurrency, formatDate } from "@/lib/utils/date";
+import { downloadCsv } from "@/lib/utils/csv";
 
-export default function ReportsPage() {
+const STATUS_LABELS: Record<string, string> = {
+  scheduled: "Scheduled",
+  active: "Ongoing",
+  pending_return: "Pending Return",
+  partially_returned: "Partially Returned",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  flagged: "Flagged",
+};
+
+const ALL_BRANCHES = "all";
+
+interface ReportTableCardProps {
+  title: string;
+  description?: string;
+  onExport: () => void;
+  exportDisabled?: boolean;
+  children: ReactNode;
+}
+
+function ReportTableCard({ title, description, onExport, exportDisabled, children }: ReportTableCardProps) {
   return (
-    <div className="min-h-screen bg-[#f7f9fb] pb-24">
-      <PageHeader title="Reports" />
-
-      <div className="px-4 md:px-6 py-4">
-        <EmptyState
-          icon={<BarChart3 className="h-16 w-16" />}
-          title="Reports coming soon"
-          description="Daily collection, customer history, and CSV export"
-        />
+    <Card className="p-4 rounded-xl bg-white border border-gray-200 shadow-sm">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <div>
+          <h2 className="text-base font-semibold text-gray-900">{title}</h2>
+          {description && <p className="text-xs text-gray-500 mt-0.5">{description}</p>}
+        </div>
+        <Button variant="outline" size="sm" onClick={onExport} disabled={exportDisabled}>
+          <Download className="h-4 w-4 mr-1.5" />
+          CSV
+        </Button>
       </div>
-    </div>
+      {children}
+    </Card>
+  );
+}
+
+interface ProfitTableProps {
+  rows: ProfitRow[];
+  label: string;
+  totals?: { revenue: number; expenses: number; profit: number };
+}
+
+function ProfitTable({ rows, label, totals }: ProfitTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          <TableHead className="text-right">Revenue</TableHead>
+          <TableHead className="text-right">Expenses</TableHead>
+          <TableHead className="text-right">Profit</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.id}>
+            <TableCell>{row.name}</TableCell>
+            <TableCell className="text-right">{formatCurrency(row.revenue)}</TableCell>
+            <TableCell className="text-right">{formatCurrency(row.expenses)}</TableCell>
+            <TableCell className={`text-right font-medium ${row.profit < 0 ? "text-red-600" : ""}`}>
+              {formatCurrency(row.profit)}
+            </TableCell>
+          </TableRow>
+        ))}
+        {totals && (
+          <TableRow className="bg-gray-50 font-semibold">
+            <TableCell>Total</TableCell>
+            <TableCell className="text-right">{formatCurrency(totals.revenue)}</TableCell>
+            <TableCell className="text-right">{formatCurrency(totals.expenses)}</TableCell>
+            <TableCell className={`text-right ${totals.profit < 0 ? "text-red-600" : ""}`}>
+              {formatCurrency(totals.profit)}
+            </TableCell>
+          </TableRow>
+        )}
+      </TableBody>
+    </Table>
   );
 }
 
+export default function ReportsPage() {
+  const { user } = useUserStore();
+  const { data: branches } = useBranches();
+  const isSuperAdmin = user?.role === "super_admin";
+
+  const [dateRange, setDateRange] = useState<DateRange>({
+    start: startOfMonth(new Date()),
+    end: endOfToday(),
+    option: "thismonth",
+  });
+  const [period, setPeriod] = useState<ReportPeriod>("daily");
+  const [selectedBranch, setSelectedBranch] = useState<string>(
+    user?.branch_id || ALL_BRANCHES
+  );
+
+  // Branch admins are always scoped to their own branch
+  const branchId = isSuperAdmin
+    ? selectedBranch === ALL_BRANCHES
+      ? null
+      : selectedBranch
+    : user?.branch_id || null;
+
+  const { data: orders, isLoading, error, refetch } = useReportOrders(branchId, dateRange);
+  const { data: creditNotes = [] } = useReportCreditNotes(branchId, dateRange);
+  const { data: payments = [] } = useReportPayments(branchId, dateRange);
+  const { data: expenses = [] } = useExpenses(branchId, dateRange);
+
+  const collectionRows = useMemo(() => buildCollectionRows(payments, period), [payments, period]);
+  const revenueSplit = useMemo(() => buildRevenueSplit(orders || []), [orders]);
+  const statusCounts = useMemo(() => buildStatusCounts(orders || []), [orders]);
+  const branchProfit = useMemo(
+    () => buildBranchProfit(orders || [], expenses, branches || []),
+    [orders, expenses, branches]
+  );
+  const productProfit = useMemo(() => buildProductProfit(orders || [], expenses), [orders, expenses]);
+
+  const totalCollection = collectionRows.reduce((sum, row) => sum + row.collection, 0);
+  const paymentCount = collectionRows.reduce((sum, row) => sum + row.payments, 0);
+  const completedCount = (orders || []).filter((o) => o.status === "completed").length;
+  const creditNotesTotal = creditNotes.reduce((sum, note) => sum + (Number(note.total_amount) || 0), 0);
+  const profitTotals = branchProfit.reduce(
+    (totals, row) => ({
+      revenue: totals.revenue + row.revenue,
+      expenses: totals.expenses + row.expenses,
+      profit: totals.profit + row.profit,
+    }),
+    { revenue: 0, expenses: 0, profit: 0 }
+  );
+
+  const branchLabel = branchId
+    ? branches?.find((b) => b.id === branchId)?.name || "branch"
+    : "all-branches";
+  const fileSuffix = `${branchLabel.toLowerCase().replace(/\s+/g, "-")}_${format(dateRange.start, "yyyyMMdd")}-${format(dateRange.end, "yyyyMMdd")}`;
+
+  const handleExportCollection = () => {
+    downloadCsv(
+      `collection-${period}_${fileSuffix}`,
+      collectionRows.map((row) => ({
+        Period: row.period,
+        Payments: row.payments,
+        Collection: row.collection.toFixed(2),
+      }))
+    );
+  };
+
+  const handleExportRevenue = () => {
+    downloadCsv(`revenue-split_${fileSuffix}`, [
+      { Component: "Subtotal (rent)", Amount: revenueSplit.subtotal.toFixed(2) },
+      { Component: "GST", Amount: revenueSplit.gst.toFixed(2) },
+      { Component: "Late Fee", Amount: revenueSplit.late_fee.toFixed(2) },
+      { Component: "Damage Fee", Amount: revenueSplit.damage_fee.toFixed(2) },
+      { Component: "Gross Invoiced", Amount: revenueSplit.gross.toFixed(2) },
+      { Component: "Less: Credit Notes", Amount: (-revenueSplit.credit_notes).toFixed(2) },
+      { Component: "Net Revenue", Amount: revenueSplit.total.toFixed(2) },
+    ]);
+  };
+
+  const handleExportCreditNotes = () => {
+    downloadCsv(
+      `credit-notes_${fileSuffix}`,
+      creditNotes.map((note) => ({
+        "Credit Note": note.credit_note_number,
+        Date: formatDate(note.issued_at, "dd MMM yyyy"),
+        Invoice: note.invoice_number,
+        Type: CREDIT_NOTE_TYPE_LABELS[note.note_type],
+        Reason: note.reason || "",
+        "Taxable Value": Number(note.taxable_value).toFixed(2),
+        GST: Number(note.gst_amount).toFixed(2),
+        Total: Number(note.total_amount).toFixed(2),
+      }))
+    );
+  };
+
+  const handleExportStatus = () => {
+    downloadCsv(
+      `orders-by-status_${fileSuffix}`,
+      statusCounts.map((row) => ({
+        Status: STATUS_LABELS[row.status] || row.status,
+        Orders: row.count,
+        Amount: row.amount.toFixed(2),
+      }))
+    );
+  };
+
+  const exportProfitRows = (rows: ProfitRow[], label: string) =>
+    rows.map((row) => ({
+      [label]: row.name,
+      "Revenue (ex. GST)": row.revenue.toFixed(2),
+      Expenses: row.expenses.toFixed(2),
+      Profit: row.profit.toFixed(2),
+    }));
+
+  const handleExportBranchProfit = () => {
+    downloadCsv(`profit-by-branch_${fileSuffix}`, exportProfitRows(branchProfit, "Branch"));
+  };
+
+  const handleExportProductProfit = () => {
+    downloadCsv(`profit-by-product_${fileSuffix}`, exportProfitRows(productProfit, "Product"));
+  };
+
+  return (
+    <RouteGuard permission="view_reports">
+      <div className="min-h-screen bg-[#f7f9fb] pb-24">
+        <PageHeader
+          title="Reports"
+          description="Collection, revenue split, profit and order status by date range"
+          actions={<DateRangePicker value={dateRange} onChange={setDateRange} />}
+        >
+          <div className="flex flex-wrap items-center gap-3">
+            {isSuperAdmin && (
+              <div className="w-full sm:w-64">
+                <Select
+                  value={selectedBranch}
+                  onChange={(e) => setSelectedBranch(e.target.value)}
+                  className="h-10 text-sm"
+                >
+                  <SelectItem value={ALL_BRANCHES}>All Branches</SelectItem>
+                  {branches?.map((branch) => (
+                    <SelectItem key={branch.id} value={branch.id}>
+                      {branch.name}
+                    </SelectItem>
+                  ))}
+                </Select>
+              </div>
+            )}
+            <Tabs value={period} onValueChange={(value) => setPeriod(value as ReportPeriod)}>
+              <TabsList>
+                <TabsTrigger value="daily">Daily</TabsTrigger>
+                <TabsTrigger value="weekly">Weekly</TabsTrigger>
+                <TabsTrigger value="monthly">Monthly</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <Link href="/reports/staff">
+              <Button variant="outline" size="sm">
+                <Users className="h-4 w-4 mr-1.5" />
+                Staff Performance
+              </Button>
+            </Link>
+          </div>
+        </PageHeader>
+
+        <div className="px-4 md:px-6 py-4 space-y-4">
+          {isLoading ? (
+            <LoadingState message="Loading reports..." />
+          ) : error ? (
+            <ErrorState
+              title="Error loading reports"
+              message={(error as Error).message || "Failed to load report data"}
+              onRetry={() => refetch()}
+            />
+          ) : !orders || orders.length === 0 ? (
+            <EmptyState
+              icon={<Receipt className="h-16 w-16" />}
+              title="No orders in this range"
+              description="Try a wider date range or a different branch"
+            />
+          ) : (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+                <Card className="p-4 rounded-xl bg-white border border-gray-200">
+                  <div className="flex items-center gap-2 text-gray-500 text-xs font-medium uppercase tracking-wide mb-1.5">
+                    <Wallet className="h-4 w-4 text-[#273492]" />
+                    Collection
+                  </div>
+                  <p className="text-xl font-bold text-gray-900">{formatCurrency(totalCollection)}</p>
+                </Card>
+                <Card className="p-4 rounded-xl bg-white border border-gray-200">
+                  <div className="flex items-center gap-2 text-gray-500 text-xs font-medium uppercase tracking-wide mb-1.5">
+                    <IndianRupee className="h-4 w-4 text-[#273492]" />
+                    GST
+                  </div>
+                  <p className="text-xl font-bold text-gray-900">{formatCurrency(revenueSplit.gst)}</p>
+                </Card>
+                <Card className="p-4 rounded-xl bg-white border border-gray-200">
+                  <div className="flex items-center gap-2 text-gray-500 text-xs font-medium uppercase tracking-wide mb-1.5">
+                    <ShoppingBag className="h-4 w-4 text-[#273492]" />
+                    Orders
+                  </div>
+                  <p className="text-xl font-bold text-gray-900">{orders.length}</p>
+                </Card>
+                <Card className="p-4 rounded-xl bg-white border border-gray-200">
+                  <div className="flex items-center gap-2 text-gray-500 text-xs font-medium uppercase tracking-wide mb-1.5">
+                    <Receipt className="h-4 w-4 text-[#273492]" />
+                    Completed
+                  </div>
+                  <p className="text-xl font-bold text-gray-900">{completedCount}</p>
+                </Card>
+              </div>
+
+              {/* Collection by period */}
+              <ReportTableCard
+                title={`${period === "daily" ? "Daily" : period === "weekly" ? "Weekly" : "Monthly"} Collection`}
+                description="Payments received less refunds paid back, grouped by payment date"
+                onExport={handleExportCollection}
+                exportDisabled={collectionRows.length === 0}
+              >
+                {collectionRows.length === 0 ? (
+                  <p className="text-sm text-gray-500 py-6 text-center">No payments received in this range</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Period</TableHead>
+                        <TableHead className="text-right">Payments</TableHead>
+                        <TableHead className="text-right">Collection</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {collectionRows.map((row) => (
+                        <TableRow key={row.period}>
+                          <TableCell>{row.period}</TableCell>
+                          <TableCell className="text-right">{row.payments}</TableCell>
+                          <TableCell className="text-right font-medium">{formatCurrency(row.collection)}</TableCell>
+                        </TableRow>
+                      ))}
+                      <TableRow className="bg-gray-50 font-semibold">
+                        <TableCell>Total</TableCell>
+                        <TableCell className="text-right">{paymentCount}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(totalCollection)}</TableCell>
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                )}
+              </ReportTableCard>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                {/* Revenue split */}
+                <ReportTableCard
+                  title="Revenue Split"
+                  description="Completed orders only"
+                  onExport={handleExportRevenue}
+                >
+                  <Table>
+                    <TableBody>
+                      <TableRow>
+                        <TableCell>Subtotal (rent)</TableCell>
+                        <TableCell className="text-right">{formatCurrency(revenueSplit.subtotal)}</TableCell>
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>GST</TableCell>
+                        <TableCell className="text-right">{formatCurrency(revenueSplit.gst)}</TableCell>
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>Late Fee</TableCell>
+                        <TableCell className="text-right">{formatCurrency(revenueSplit.late_fee)}</TableCell>
+                      </TableRow>
+                      <TableRow>
+                        <TableCell>Damage Fee</TableCell>
+                        <TableCell className="text-right">{formatCurrency(revenueSplit.damage_fee)}</TableCell>
+                      </TableRow>
+                      {revenueSplit.credit_notes > 0 && (
+                        <>
+                          <TableRow>
+                            <TableCell>Gross Invoiced</TableCell>
+                            <TableCell className="text-right">{formatCurrency(revenueSplit.gross)}</TableCell>
+                          </TableRow>
+                          <TableRow>
+                            <TableCell>Less: Credit Notes</TableCell>
+                            <TableCell className="text-right text-red-600">-{formatCurrency(revenueSplit.credit_notes)}</TableCell>
+                          </TableRow>
+                        </>
+                      )}
+                      <TableRow className="bg-gray-50 font-semibold">
+                        <TableCell>Net Revenue</TableCell>
+                        <TableCell className="text-right">{formatCurrency(revenueSplit.total)}</TableCell>
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                </ReportTableCard>
+
+                {/* Orders by status */}
+                <ReportTableCard
+                  title="Orders by Status"
+                  description="All orders created in this range"
+                  onExport={handleExportStatus}
+                >
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Orders</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {statusCounts.map((row) => (
+                        <TableRow key={row.status}>
+                          <TableCell>{STATUS_LABELS[row.status] || row.status}</TableCell>
+                          <TableCell className="text-right">{row.count}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.amount)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ReportTableCard>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                {/* Profit by branch */}
+                <ReportTableCard
+                  title="Profit by Branch"
+                  description="Completed orders excluding GST, less expenses dated in this range"
+                  onExport={handleExportBranchProfit}
+                  exportDisabled={branchProfit.length === 0}
+                >
+                  {branchProfit.length === 0 ? (
+                    <p className="text-sm text-gray-500 py-6 text-center">No completed orders or expenses in this range</p>
+                  ) : (
+                    <ProfitTable rows={branchProfit} label="Branch" totals={branchProfit.length > 1 ? profitTotals : undefined} />
+                  )}
+                </ReportTableCard>
+
+                {/* Profit by product */}
+                <ReportTableCard
+                  title="Profit by Product"
+                  description="Rent on completed orders less cleaning, repair and alteration costs"
+                  onExport={handleExportProductProfit}
+                  exportDisabled={productProfit.length === 0}
+                >
+                  {productProfit.length === 0 ? (
+                    <p className="text-sm text-gray-500 py-6 text-center">No catalog products rented in this range</p>
+                  ) : (
+                    <ProfitTable rows={productProfit} label="Product" />
+                  )}
+                </ReportTableCard>
+              </div>
+
+              {/* Credit notes */}
+              <ReportTableCard
+                title="Credit Notes"
+                description="Issued in this range, including cancellations"
+                onExport={handleExportCreditNotes}
+                exportDisabled={creditNotes.length === 0}
+              >
+                {creditNotes.length === 0 ? (
+                  <p className="text-sm text-gray-500 py-6 text-center">No credit notes in this range</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Credit Note</TableHead>
+                        <TableHead>Invoice</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {creditNotes.map((note) => (
+                        <TableRow key={note.id}>
+                          <TableCell>
+                            <span className="font-mono text-xs">{note.credit_note_number}</span>
+                            <span className="block text-xs text-gray-500">{formatDate(note.issued_at, "dd MMM yyyy")}</span>
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">{note.invoice_number}</TableCell>
+                          <TableCell>{CREDIT_NOTE_TYPE_LABELS[note.note_type]}</TableCell>
+                          <TableCell className="text-right font-medium">{formatCurrency(note.total_amount)}</TableCell>
+                        </TableRow>
+                      ))}
+                      <TableRow className="bg-gray-50 font-semibold">
+                        <TableCell colSpan={3}>Total</TableCell>
+                        <TableCell className="text-right">{formatCurrency(creditNotesTotal)}</TableCell>
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                )}
+              </ReportTableCard>
+            </>
+          )}
+        </div>
+      </div>
+    </RouteGuard>
+  );
+}
@@ -0,0 +1,288 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { addMonths, format, isSameMonth, startOfMonth, subMonths } from "date-fns";
+import { ArrowLeft, ChevronLeft, ChevronRight, Download, FileText, HandCoins, ShoppingBag, Users, Wallet } from "lucide-react";
+import { PageHeader, EmptyState, ErrorState, LoadingState } from "@/components/shared";
+import { RouteGuard } from "@/components/auth/route-guard";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectItem } from "@/components/ui/select";
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableRow,
+  TableHead,
+  TableCell,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/toast";
+import { useUserStore } from "@/lib/stores/useUserStore";
+import { useBranches } from "@/lib/queries/branches";
+import { useStaffPerformance, buildStaffPerformance } from "@/lib/queries/staff";
+import { formatCurrency } from "@/lib/utils/date";
+import { downloadCsv } from "@/lib/utils/csv";
+import type { Branch } from "@/lib/types";
+
+const ALL_BRANCHES = "all";
+
+function describeCommission(branch?: Branch | null): string {
+  if (!branch) return "Each branch's own rule";
+  if (!branch.commission_type) return "None";
+  const rate = Number(branch.commission_rate) || 0;
+  return branch.commission_type === "per_order"
+    ? `${formatCurrency(rate)} per order`
+    : `${rate}% of rent`;
+}
+
+export default function StaffPerformancePage() {
+  const { user } = useUserStore();
+  const { showToast } = useToast();
+  const { data: branches } = useBranches();
+  const isSuperAdmin = user?.role === "super_admin";
+
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [selectedBranch, setSelectedBranch] = useState<string>(
+    user?.branch_id || ALL_BRANCHES
+  );
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
+
+  // Branch admins are always scoped to their own branch
+  const branchId = isSuperAdmin
+    ? selectedBranch === ALL_BRANCHES
+      ? null
+      : selectedBranch
+    : user?.branch_id || null;
+  const branch = branchId ? branches?.find((b) => b.id === branchId) : null;
+
+  const { data, isLoading, error, refetch } = useStaffPerformance(branchId, month);
+  const rows = useMemo(
+    () => buildStaffPerformance(data?.orders || [], data?.events || [], branches || []),
+    [data, branches]
+  );
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      orders: sum.orders + row.orders_booked,
+      revenue: sum.revenue + row.revenue,
+      returns: sum.returns + row.returns_processed,
+      lateFees: sum.lateFees + row.late_fees_collected,
+      waived: sum.waived + row.late_fees_waived,
+      cancellations: sum.cancellations + row.cancellations,
+      commission: sum.commission + row.commission,
+    }),
+    { orders: 0, revenue: 0, returns: 0, lateFees: 0, waived: 0, cancellations: 0, commission: 0 }
+  );
+
+  const branchName = branch?.name || "All Branches";
+  const commissionRule = describeCommission(branch);
+  const fileSuffix = `${branchName.toLowerCase().replace(/\s+/g, "-")}_${format(month, "yyyy-MM")}`;
+
+  const handleExportCsv = () => {
+    downloadCsv(
+      `staff-payout_${fileSuffix}`,
+      rows.map((row) => ({
+        Staff: row.name,
+        "Orders Booked": row.orders_booked,
+        Revenue: row.revenue.toFixed(2),
+        Rent: row.rent.toFixed(2),
+        "Returns Processed": row.returns_processed,
+        "Late Fees Collected": row.late_fees_collected.toFixed(2),
+        "Late Fee Waivers": row.waivers,
+        "Late Fees Waived": row.late_fees_waived.toFixed(2),
+        Cancellations: row.cancellations,
+        Commission: row.commission.toFixed(2),
+      }))
+    );
+  };
+
+  const handleExportPdf = async () => {
+    setIsExportingPdf(true);
+    try {
+      const { generateAndDownloadStaffPayoutPDF } = await import("@/components/reports/staff-payout-pdf");
+      await generateAndDownloadStaffPayoutPDF({ rows, month, branchName, commissionRule });
+    } catch {
+      showToast("Failed to generate PDF. Please try again.", "error");
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
+  return (
+    <RouteGuard permission="view_reports">
+      <div className="min-h-screen bg-[#f7f9fb] pb-24">
+        <PageHeader
+          title="Staff Performance"
+          description="Bookings, returns, late fees and commission per staff member"
+          actions={
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={handleExportCsv} disabled={rows.length === 0}>
+                <Download className="h-4 w-4 mr-1.5" />
+                CSV
+              </Button>
+              <Button size="sm" onClick={handleExportPdf} disabled={rows.length === 0 || isExportingPdf}>
+                <FileText className="h-4 w-4 mr-1.5" />
+                {isExportingPdf ? "Generating..." : "Payout PDF"}
+              </Button>
+            </div>
+          }
+        >
+          <div className="flex flex-wrap items-center gap-3">
+            <Link href="/reports">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="h-4 w-4 mr-1.5" />
+                Reports
+              </Button>
+            </Link>
+            {isSuperAdmin && (
+              <div className="w-full sm:w-64">
+                <Select
+                  value={selectedBranch}
+                  onChange={(e) => setSelectedBranch(e.target.value)}
+                  className="h-10 text-sm"
+                >
+                  <SelectItem value={ALL_BRANCHES}>All Branches</SelectItem>
+                  {branches?.map((b) => (
+                    <SelectItem key={b.id} value={b.id}>
+                      {b.name}
+                    </SelectItem>
+                  ))}
+                </Select>
+              </div>
+            )}
+            <div className="flex items-center gap-1">
+              <Button variant="outline" size="icon" onClick={() => setMonth((m) => subMonths(m, 1))} aria-label="Previous month">
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="min-w-[120px] text-center text-sm font-semibold text-gray-900">
+                {format(month, "MMMM yyyy")}
+              </span>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setMonth((m) => addMonths(m, 1))}
+                disabled={isSameMonth(month, new Date())}
+                aria-label="Next month"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </PageHeader>
+
+        <div className="px-4 md:px-6 py-4 space-y-4">
+          {isLoading ? (
+            <LoadingState message="Loading staff performance..." />
+          ) : error ? (
+            <ErrorState
+              title="Error loading staff performance"
+              message={(error as Error).message || "Failed to load report data"}
+              onRetry={() => refetch()}
+            />
+          ) : rows.length === 0 ? (
+            <EmptyState
+              icon={<Users className="h-16 w-16" />}
+              title="No staff activity this month"
+              description="Try another month or a different branch"
+            />
+          ) : (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+                <Card className="p-4 rounded-xl bg-white border border-gray-200">
+                  <div className="flex items-center gap-2 text-gray-500 text-xs font-medium uppercase tracking-wide mb-1.5">
+                    <ShoppingBag className="h-4 w-4 text-[#273492]" />
+                    Orders Booked
+                  </div>
+                  <p className="text-xl font-bold text-gray-900">{totals.orders}</p>
+                </Card>
+                <Card className="p-4 rounded-xl bg-white border border-gray-200">
+                  <div className="flex items-center gap-2 text-gray-500 text-xs font-medium uppercase tracking-wide mb-1.5">
+                    <Wallet className="h-4 w-4 text-[#273492]" />
+                    Revenue
+                  </div>
+                  <p className="text-xl font-bold text-gray-900">{formatCurrency(totals.revenue)}</p>
+                </Card>
+                <Card className="p-4 rounded-xl bg-white border border-gray-200">
+                  <div className="flex items-center gap-2 text-gray-500 text-xs font-medium uppercase tracking-wide mb-1.5">
+                    <Wallet className="h-4 w-4 text-[#273492]" />
+                    Late Fees
+                  </div>
+                  <p className="text-xl font-bold text-gray-900">{formatCurrency(totals.lateFees)}</p>
+                </Card>
+                <Card className="p-4 rounded-xl bg-white border border-gray-200">
+                  <div className="flex items-center gap-2 text-gray-500 text-xs font-medium uppercase tracking-wide mb-1.5">
+                    <HandCoins className="h-4 w-4 text-[#273492]" />
+                    Commission
+                  </div>
+                  <p className="text-xl font-bold text-gray-900">{formatCurrency(totals.commission)}</p>
+                </Card>
+              </div>
+
+              <Card className="p-4 rounded-xl bg-white border border-gray-200 shadow-sm">
+                <div className="mb-3">
+                  <h2 className="text-base font-semibold text-gray-900">Payout Statement</h2>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    Commission: {commissionRule}. Bookings count by order date; returns, waivers and cancellations by who processed them.
+                  </p>
+                </div>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Staff</TableHead>
+                        <TableHead className="text-right">Orders</TableHead>
+                        <TableHead className="text-right">Revenue</TableHead>
+                        <TableHead className="text-right">Returns</TableHead>
+                        <TableHead className="text-right">Late Fees</TableHead>
+                        <TableHead className="text-right">Waived</TableHead>
+                        <TableHead className="text-right">Cancelled</TableHead>
+                        <TableHead className="text-right">Commission</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rows.map((row) => (
+                        <TableRow key={row.staff_id}>
+                          <TableCell className="font-medium">{row.name}</TableCell>
+                          <TableCell className="text-right">{row.orders_booked}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.revenue)}</TableCell>
+                          <TableCell className="text-right">{row.returns_processed}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.late_fees_collected)}</TableCell>
+                          <TableCell className="text-right">
+                            {row.waivers > 0 ? (
+                              <>
+                                {formatCurrency(row.late_fees_waived)}
+                                <span className="block text-xs text-gray-500">
+                                  {row.waivers} waiver{row.waivers === 1 ? "" : "s"}
+                                </span>
+                              </>
+                            ) : (
+                              "-"
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{row.cancellations}</TableCell>
+                          <TableCell className="text-right font-semibold">{formatCurrency(row.commission)}</TableCell>
+                        </TableRow>
+                      ))}
+                      <TableRow className="bg-gray-50 font-semibold">
+                        <TableCell>Total</TableCell>
+                        <TableCell className="text-right">{totals.orders}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(totals.revenue)}</TableCell>
+                        <TableCell className="text-right">{totals.returns}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(totals.lateFees)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(totals.waived)}</TableCell>
+                        <TableCell className="text-right">{totals.cancellations}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(totals.commission)}</TableCell>
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                </div>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </RouteGuard>
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import { useState } from "react";
+import { ShieldCheck, Trash2, Plus, Lock } from "lucide-react";
+import { PageHeader, LoadingState, ErrorState } from "@/components/shared";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { RouteGuard } from "@/components/auth/route-guard";
+import { useToast } from "@/components/ui/toast";
+import { useAppRoles, useCreateAppRole, useUpdateAppRole, useDeleteAppRole } from "@/lib/queries/roles";
+import { PERMISSIONS } from "@/lib/utils/permissions";
+import type { AppRole, Permission } from "@/lib/types";
+import { getErrorMessage } from "@/lib/utils/error";
+
+export default function RolesPage() {
+  const { showToast } = useToast();
+  const { data: roles, isLoading, error, refetch } = useAppRoles();
+  const createRoleMutation = useCreateAppRole();
+  const updateRoleMutation = useUpdateAppRole();
+  const deleteRoleMutation = useDeleteAppRole();
+
+  // Unsaved permission changes, by role id
+  const [drafts, setDrafts] = useState<Record<string, Permission[]>>({});
+  const [savingRoleId, setSavingRoleId] = useState<string | null>(null);
+  const [newRoleName, setNewRoleName] = useState("");
+  const [newRoleDescription, setNewRoleDescription] = useState("");
+  const [roleToDelete, setRoleToDelete] = useState<AppRole | null>(null);
+
+  const getPermissions = (role: AppRole) => drafts[role.id] ?? role.permissions;
+  const isLocked = (role: AppRole) => role.key === "super_admin";
+
+  const togglePermission = (role: AppRole, permission: Permission, checked: boolean) => {
+    const current = getPermissions(role);
+    const next = checked ? [...current, permission] : current.filter((p) => p !== permission);
+    setDrafts((prev) => ({ ...prev, [role.id]: next }));
+  };
+
+  const isDirty = (role: AppRole) => {
+    const draft = drafts[role.id];
+    if (!draft) return false;
+    return draft.length !== role.permissions.length || draft.some((p) => !role.permissions.includes(p));
+  };
+
+  const handleSave = async (role: AppRole) => {
+    setSavingRoleId(role.id);
+    try {
+      await updateRoleMutation.mutateAsync({ id: role.id, permissions: getPermissions(role) });
+      setDrafts((prev) => {
+        const next = { ...prev };
+        delete next[role.id];
+        return next;
+      });
+      showToast(`${role.name} permissions saved`, "success");
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to save permissions"), "error");
+    } finally {
+      setSavingRoleId(null);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newRoleName.trim()) return;
+
+    try {
+      await createRoleMutation.mutateAsync({
+        name: newRoleName,
+        description: newRoleDescription.trim() || undefined,
+        permissions: [],
+      });
+      setNewRoleName("");
+      setNewRoleDescription("");
+      showToast("Role created - tick the permissions it should have and save", "success");
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to create role"), "error");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!roleToDelete) return;
+    try {
+      await deleteRoleMutation.mutateAsync(roleToDelete.id);
+      showToast("Role deleted", "success");
+      setRoleToDelete(null);
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to delete role"), "error");
+    }
+  };
+
+  return (
+    <RouteGuard allowedRoles={["super_admin"]} redirectTo="/orders">
+      <div className="min-h-screen bg-[#f7f9fb] pb-24">
+        <PageHeader
+          title="Roles & Permissions"
+          description="Choose what each role can do. Staff on a custom role get its permissions instead of their built-in role's."
+        />
+
+        <div className="px-4 md:px-6 py-4 space-y-6">
+          {isLoading ? (
+            <LoadingState message="Loading roles..." />
+          ) : error ? (
+            <ErrorState
+              message="Roles couldn't be loaded. Make sure add-role-permissions.sql has been run."
+              onRetry={() => refetch()}
+            />
+          ) : (
+            <Card className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 bg-gray-50">
+                    <th className="text-left font-semibold text-gray-700 px-4 py-3 min-w-[220px]">Permission</th>
+                    {roles?.map((role) => (
+                      <th key={role.id} className="px-4 py-3 text-center font-semibold text-gray-900 min-w-[130px] align-top">
+                        <div className="flex items-center justify-center gap-1">
+                          {isLocked(role) && <Lock className="h-3.5 w-3.5 text-gray-400" />}
+                          <span>{role.name}</span>
+                          {!role.is_system && (
+                            <button
+                              type="button"
+                              onClick={() => setRoleToDelete(role)}
+                              className="p-1 rounded text-red-500 hover:bg-red-50 hover:text-red-700"
+                              title="Delete role"
+                            >
+                              <Trash2 className="h-3.5 w-3.5" />
+                            </button>
+                          )}
+                        </div>
+                        <Badge variant="outline" className="mt-1 text-[10px] font-medium">
+                          {role.is_system ? "Built-in" : "Custom"}
+                        </Badge>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {PERMISSIONS.map((permission) => (
+                    <tr key={permission.key} className="border-b border-gray-100">
+                      <td className="px-4 py-3">
+                        <p className="font-medium text-gray-900">{permission.label}</p>
+                        <p className="text-xs text-gray-500">{permission.description}</p>
+                      </td>
+                      {roles?.map((role) => (
+                        <td key={role.id} className="px-4 py-3 text-center">
+                          <div className="flex justify-center">
+                            <Checkbox
+                              checked={isLocked(role) || getPermissions(role).includes(permission.key)}
+                              onCheckedChange={(checked) => togglePermission(role, permission.key, checked)}
+                              disabled={isLocked(role)}
+                              aria-label={`${role.name}: ${permission.label}`}
+                            />
+                          </div>
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                  <tr>
+                    <td className="px-4 py-3 text-xs text-gray-500">
+                      Super admins always have every permission.
+                    </td>
+                    {roles?.map((role) => (
+                      <td key={role.id} className="px-4 py-3 text-center">
+                        {!isLocked(role) && (
+                          <Button
+                            size="sm"
+                            onClick={() => handleSave(role)}
+                            disabled={!isDirty(role) || savingRoleId === role.id}
+                          >
+                            {savingRoleId === role.id ? "Saving..." : "Save"}
+                          </Button>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </Card>
+          )}
+
+          <Card className="p-6">
+            <div className="flex items-center gap-2 mb-4">
+              <ShieldCheck className="h-5 w-5 text-[#273492]" />
+              <h2 className="text-lg font-semibold text-gray-900">New custom role</h2>
+            </div>
+            <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="role-name">Name *</Label>
+                <Input
+                  id="role-name"
+                  value={newRoleName}
+                  onChange={(e) => setNewRoleName(e.target.value)}
+                  placeholder="e.g. Cashier"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="role-description">Description</Label>
+                <Input
+                  id="role-description"
+                  value={newRoleDescription}
+                  onChange={(e) => setNewRoleDescription(e.target.value)}
+                  placeholder="What this role is for"
+                />
+              </div>
+              <Button type="submit" disabled={!newRoleName.trim() || createRoleMutation.isPending}>
+                <Plus className="h-4 w-4 mr-2" />
+                {createRoleMutation.isPending ? "Creating..." : "Add Role"}
+              </Button>
+            </form>
+            <p className="text-xs text-gray-500 mt-3">
+              Assign a custom role to someone from their staff page. Their built-in role still decides which branch they work in.
+            </p>
+          </Card>
+        </div>
+
+        <Dialog open={!!roleToDelete} onOpenChange={(open) => !open && setRoleToDelete(null)}>
+          <DialogContent onClose={() => setRoleToDelete(null)}>
+            <DialogHeader>
+              <DialogTitle>Delete Role</DialogTitle>
+              <DialogDescription>
+                Are you sure you want to delete &quot;{roleToDelete?.name}&quot;? Staff on this role go back to the
+                permissions of their built-in role.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setRoleToDelete(null)} disabled={deleteRoleMutation.isPending}>
+                Cancel
+              </Button>
+              <Button variant="destructive" onClick={handleDelete} disabled={deleteRoleMutation.isPending}>
+                {deleteRoleMutation.isPending ? "Deleting..." : "Delete Role"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </RouteGuard>
+  );
+}
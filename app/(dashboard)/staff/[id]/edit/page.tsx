@@ -11,6 +11,7 @@ import { Save, Trash2 } from "lucide-react";
 import { PageNavbar } from "@/components/layout/page-navbar";
 import { useStaffMember, useUpdateStaff, useDeleteStaff } from "@/lib/queries/staff";
 import { useBranches } from "@/lib/queries/branches";
+import { useAppRoles } from "@/lib/queries/roles";
 import { useUserStore } from "@/lib/stores/useUserStore";
 import { useToast } from "@/components/ui/toast";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
@@ -26,6 +27,8 @@ export default function EditStaffPage() {
   
   const { data: staff, isLoading } = useStaffMember(staffId);
   const { data: branches } = useBranches();
+  const { data: appRoles } = useAppRoles();
+  const customRoles = appRoles?.filter((appRole) => !appRole.is_system) || [];
   const updateStaffMutation = useUpdateStaff();
   const deleteStaffMutation = useDeleteStaff();
   
@@ -33,6 +36,7 @@ export default function EditStaffPage() {
   const [phone, setPhone] = useState("");
   const [role, setRole] = useState<UserRole>("staff");
   const [branchId, setBranchId] = useState<string>("");
+  const [appRoleId, setAppRoleId] = useState<string>("");
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
@@ -42,14 +46,14 @@ export default function EditStaffPage() {
       setPhone(staff.phone || "");
       setRole(staff.role || "staff");
       setBranchId(staff.branch_id || "");
+      setAppRoleId(staff.app_role_id || "");
     }
   }, [staff?.id]); // Only depend on staff.id to prevent unnecessary re-runs
 
   // Filter available branches based on user role
   const availableBranches = branches?.filter((branch) => {
     if (user?.role === "super_admin") return true;
-    if (user?.role === "branch_admin") return branch.id === user.branch_id;
-    return false;
+    return branch.id === user?.branch_id; // Other staff managers keep to their own branch
   }) || [];
 
   const handleSave = async (e: React.FormEvent) => {
@@ -72,6 +76,7 @@ export default function EditStaffPage() {
         phone: phone.trim(),
         role,
         branch_id: role === "super_admin" ? undefined : branchId,
+        app_role_id: role === "super_admin" ? null : appRoleId || null,
       });
       showToast("Staff member updated successfully", "success");
       router.push("/staff");
@@ -100,7 +105,7 @@ export default function EditStaffPage() {
 
   if (isLoading || !staff) {
     return (
-      <RouteGuard allowedRoles={["super_admin", "branch_admin"]} redirectTo="/orders">
+      <RouteGuard permission="manage_staff" redirectTo="/orders">
         <div className="min-h-screen bg-[#f7f9fb] pb-24">
           <PageNavbar title="Edit Staff" backHref="/staff" />
           <div className="p-4 md:p-6 lg:p-8 max-w-4xl mx-auto">
@@ -114,7 +119,7 @@ export default function EditStaffPage() {
   }
 
   return (
-    <RouteGuard allowedRoles={["super_admin", "branch_admin"]} redirectTo="/orders">
+    <RouteGuard permission="manage_staff" redirectTo="/orders">
       <div className="min-h-screen bg-[#f7f9fb] pb-24">
         <PageNavbar title="Edit Staff" backHref="/staff" />
         
@@ -172,13 +177,39 @@ export default function EditStaffPage() {
                   disabled={staff.role === "super_admin" && user?.role !== "super_admin"}
                 >
                   <SelectItem value="staff">Staff</SelectItem>
-                  <SelectItem value="branch_admin">Branch Admin</SelectItem>
+                  {(user?.role !== "staff" || role === "branch_admin") && (
+                    <SelectItem value="branch_admin">Branch Admin</SelectItem>
+                  )}
                   {user?.role === "super_admin" && (
                     <SelectItem value="super_admin">Super Admin</SelectItem>
                   )}
                 </Select>
               </div>
 
+              {role !== "super_admin" && (customRoles.length > 0 || appRoleId) && (
+                <div>
+                  <Label htmlFor="appRole" className="text-sm font-semibold">
+                    Permissions
+                  </Label>
+                  <Select
+                    id="appRole"
+                    value={appRoleId}
+                    onChange={(e) => setAppRoleId(e.target.value)}
+                    className="mt-2"
+                  >
+                    <SelectItem value="">Default for role</SelectItem>
+                    {customRoles.map((appRole) => (
+                      <SelectItem key={appRole.id} value={appRole.id}>
+                        {appRole.name}
+                      </SelectItem>
+                    ))}
+                  </Select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    A custom role replaces the permissions of the role above.
+                  </p>
+                </div>
+              )}
+
               {role !== "super_admin" && (
                 <div>
                   <Label htmlFor="branch" className="text-sm font-semibold">
@@ -16,6 +16,7 @@ import type { UserRole } from "@/lib/types";
 import { RouteGuard } from "@/components/auth/route-guard";
 import { PageNavbar } from "@/components/layout/page-navbar";
 import { useBranches } from "@/lib/queries/branches";
+import { useAppRoles } from "@/lib/queries/roles";
 import { useEffect } from "react";
 
 export default function NewStaffPage() {
@@ -24,6 +25,10 @@ export default function NewStaffPage() {
   const { user } = useUserStore();
   const createStaffMutation = useCreateStaff();
   const { data: branches, isLoading: branchesLoading } = useBranches();
+  const { data: appRoles } = useAppRoles();
+  const customRoles = appRoles?.filter((role) => !role.is_system) || [];
+  // Anyone else managing staff is limited to their own branch
+  const isSuperAdmin = user?.role === "super_admin";
 
   const [formData, setFormData] = useState({
     email: "",
@@ -32,20 +37,20 @@ export default function NewStaffPage() {
     full_name: "",
     role: "staff" as UserRole,
     branch_id: "", // Add branch_id to state
+    app_role_id: "", // Custom role - empty uses the built-in role
   });
 
-  // Initialize branch_id for branch_admin
+  // Initialize branch_id for branch-scoped staff managers
   useEffect(() => {
-    if (user?.branch_id && !formData.branch_id && user.role === "branch_admin") {
+    if (user?.branch_id && !formData.branch_id && user.role !== "super_admin") {
       setFormData(prev => ({ ...prev, branch_id: user.branch_id || "" }));
     }
   }, [user?.branch_id, user?.role]);
 
   // Filter available branches based on user role
   const availableBranches = branches?.filter((branch) => {
-    if (user?.role === "super_admin") return true; // Super admin can select any branch
-    if (user?.role === "branch_admin") return branch.id === user.branch_id; // Branch admin can only select own branch
-    return false;
+    if (isSuperAdmin) return true; // Super admin can select any branch
+    return branch.id === user?.branch_id; // Others can only select their own branch
   }) || [];
 
   const [showPassword, setShowPassword] = useState(false);
@@ -103,6 +108,7 @@ export default function NewStaffPage() {
         role: formData.role,
         branch_id: formData.branch_id, // Use selected branch
         username: formData.email.trim(), // Use email as username
+        app_role_id: formData.app_role_id || null,
       });
 
       showToast("Staff member created successfully!", "success");
@@ -116,7 +122,7 @@ export default function NewStaffPage() {
   };
 
   return (
-    <RouteGuard allowedRoles={["super_admin", "branch_admin"]} redirectTo="/orders">
+    <RouteGuard permission="manage_staff" redirectTo="/orders">
       <div className="min-h-screen bg-gray-50 pb-24">
       {/* Minimal Header */}
       <PageNavbar
@@ -237,25 +243,46 @@ export default function NewStaffPage() {
               <Select
                 value={formData.role}
                 onChange={(e) => setFormData({ ...formData, role: e.target.value as UserRole })}
-                disabled={user?.role !== "super_admin"}
+                disabled={!isSuperAdmin}
               >
-                {user?.role === "super_admin" && (
+                {isSuperAdmin && (
                   <>
                     <SelectItem value="staff">Staff</SelectItem>
                     <SelectItem value="branch_admin">Branch Admin</SelectItem>
                   </>
                 )}
-                {user?.role === "branch_admin" && (
+                {!isSuperAdmin && (
                   <SelectItem value="staff">Staff</SelectItem>
                 )}
               </Select>
-              {user?.role === "branch_admin" && (
+              {!isSuperAdmin && (
                 <p className="text-xs text-gray-500 mt-1">
-                  Branch admins can only create staff members.
+                  Only super admins can create branch admins.
                 </p>
               )}
             </div>
 
+            {/* Permissions - a custom role replaces the built-in role's permissions */}
+            {customRoles.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="app_role_id" className="text-sm font-semibold">
+                  Permissions
+                </Label>
+                <Select
+                  id="app_role_id"
+                  value={formData.app_role_id}
+                  onChange={(e) => setFormData({ ...formData, app_role_id: e.target.value })}
+                >
+                  <SelectItem value="">Default for role</SelectItem>
+                  {customRoles.map((role) => (
+                    <SelectItem key={role.id} value={role.id}>
+                      {role.name}
+                    </SelectItem>
+                  ))}
+                </Select>
+              </div>
+            )}
+
             {/* Branch - Required, filtered by user role */}
             <div className="space-y-2">
               <Label htmlFor="branch_id" className="text-sm font-semibold">
@@ -264,7 +291,7 @@ export default function NewStaffPage() {
               <Select
                 value={formData.branch_id}
                 onChange={(e) => setFormData({ ...formData, branch_id: e.target.value })}
-                disabled={branchesLoading || availableBranches.length === 0 || (user?.role === "branch_admin")}
+                disabled={branchesLoading || availableBranches.length === 0 || !isSuperAdmin}
                 required
               >
                 <SelectItem value="">Select a branch</SelectItem>
@@ -274,9 +301,9 @@ export default function NewStaffPage() {
                   </SelectItem>
                 ))}
               </Select>
-              {user?.role === "branch_admin" && (
+              {!isSuperAdmin && (
                 <p className="text-xs text-gray-500 mt-1">
-                  Branch admins can only create staff for their own branch.
+                  You can only create staff for your own branch.
                 </p>
               )}
               {availableBranches.length === 0 && !branchesLoading && (
@@ -5,6 +5,7 @@ import { UserCog, User, Phone, Building2, Shield, Trash2, Edit } from "lucide-re
 import { PageHeader, EmptyState, ActionButton, LoadingState, ErrorState } from "@/components/shared";
 import { FloatingActionButton } from "@/components/layout/floating-action-button";
 import { useStaff, useDeleteStaff } from "@/lib/queries/staff";
+import { useAppRoles } from "@/lib/queries/roles";
 import Link from "next/link";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -23,6 +24,7 @@ export default function StaffPage() {
   // Filter by branch if user is branch admin
   const branchId = user?.role === "super_admin" ? null : user?.branch_id || null;
   const { data: staff, isLoading, error } = useStaff(branchId);
+  const { data: appRoles } = useAppRoles();
   const deleteStaffMutation = useDeleteStaff();
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [staffToDelete, setStaffToDelete] = useState<{ id: string; name: string; role: string } | null>(null);
@@ -86,7 +88,7 @@ export default function StaffPage() {
   };
 
   return (
-    <RouteGuard allowedRoles={["super_admin", "branch_admin"]} redirectTo="/orders">
+    <RouteGuard permission="manage_staff" redirectTo="/orders">
       <div className="min-h-screen bg-[#f7f9fb] pb-24">
       <PageHeader
         title="Staff Management"
@@ -113,7 +115,8 @@ export default function StaffPage() {
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-5">
             {staff.map((member) => {
               const isSuperAdmin = user?.role === "super_admin";
-              const canEdit = isSuperAdmin || (user?.role === "branch_admin" && member.branch_id === user?.branch_id);
+              const canEdit = isSuperAdmin || (member.role !== "super_admin" && member.branch_id === user?.branch_id);
+              const customRole = member.app_role_id ? appRoles?.find((appRole) => appRole.id === member.app_role_id) : undefined;
               const canDelete = isSuperAdmin && member.role !== "super_admin"; // Only super admin can delete, but not super admin accounts
               const RoleIcon = getRoleIcon(member.role);
               
@@ -167,6 +170,11 @@ export default function StaffPage() {
                       <Badge className={`${getRoleBadgeColor(member.role)} text-xs font-semibold px-3 py-1 shadow-sm`}>
                         {getRoleLabel(member.role)}
                       </Badge>
+                      {customRole && (
+                        <Badge variant="outline" className="ml-2 text-xs font-semibold px-3 py-1">
+                          {customRole.name}
+                        </Badge>
+                      )}
                     </div>
 
                     {/* Details Section */}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { collectBackupData, createBackupManifest } from "@/lib/backup/export";
+import { buildBackupZip } from "@/lib/backup/format";
+import { getErrorMessage } from "@/lib/utils/error";
+
+// Downloads a ZIP backup of one branch, or of all branches for super admins.
+// Branch admins can only export their own branch.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const requestedBranchId: string | null = body.branchId || null;
+
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const supabaseAdmin = createAdminClient();
+    const { data: profile } = await supabaseAdmin
+      .from("profiles")
+      .select("role, branch_id")
+      .eq("id", user.id)
+      .maybeSingle();
+
+    if (profile?.role === "branch_admin") {
+      if (!profile.branch_id || (requestedBranchId && requestedBranchId !== profile.branch_id)) {
+        return NextResponse.json({ error: "You can only export your own branch" }, { status: 403 });
+      }
+    } else if (profile?.role !== "super_admin") {
+      return NextResponse.json({ error: "Only admins can export data" }, { status: 403 });
+    }
+
+    const branchId = profile.role === "branch_admin" ? profile.branch_id : requestedBranchId;
+    const data = await collectBackupData(supabaseAdmin, branchId);
+    const manifest = createBackupManifest(data, user.id, branchId);
+    const zip = buildBackupZip(manifest, data);
+
+    const scope = branchId
+      ? String(data.branches[0]?.name || "branch").toLowerCase().replace(/[^a-z0-9]+/g, "-")
+      : "all-branches";
+    const fileName = `backup-${scope}-${manifest.created_at.slice(0, 10)}.zip`;
+
+    return new NextResponse(Buffer.from(zip), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("[API Route] Error exporting backup:", error);
+    return NextResponse.json(
+      { error: getErrorMessage(error, "Failed to export data") },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { readBackupZip } from "@/lib/backup/format";
+import { restoreBackup, RestoreConflictError } from "@/lib/backup/restore";
+import { getErrorMessage } from "@/lib/utils/error";
+
+// Restores a backup ZIP (multipart field "file") into an empty project.
+// Super admins only - it creates branches and staff logins.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const supabaseAdmin = createAdminClient();
+    const { data: profile } = await supabaseAdmin
+      .from("profiles")
+      .select("role")
+      .eq("id", user.id)
+      .maybeSingle();
+
+    if (profile?.role !== "super_admin") {
+      return NextResponse.json({ error: "Only super admins can restore data" }, { status: 403 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "Backup file is required" }, { status: 400 });
+    }
+
+    let backup;
+    try {
+      backup = readBackupZip(new Uint8Array(await file.arrayBuffer()));
+    } catch (error) {
+      return NextResponse.json({ error: getErrorMessage(error, "Backup file couldn't be read") }, { status: 400 });
+    }
+
+    const result = await restoreBackup(supabaseAdmin, backup.data, user.id);
+    return NextResponse.json({ data: result });
+  } catch (error) {
+    if (error instanceof RestoreConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("[API Route] Error restoring backup:", error);
+    return NextResponse.json(
+      { error: getErrorMessage(error, "Failed to restore data") },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,232 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getReminderChannel, getReminderProvider } from "@/lib/reminders/providers";
+import { buildReminderMessage, REMINDER_TYPE_LABELS, type ReminderType } from "@/lib/reminders/templates";
+import { createOrderStatusToken, getOrderStatusLinkExpiry } from "@/lib/utils/order-status-token";
+import { getErrorMessage } from "@/lib/utils/error";
+
+// This API route should be called by a cron job (e.g., Vercel Cron, GitHub Actions, etc.)
+// It reminds customers about pickups tomorrow, returns due today and overdue orders.
+// Safe to run several times a day: each order gets at most one reminder of each type per day.
+
+const OUT_STATUSES = ["active", "pending_return", "partially_returned"];
+
+// YYYY-MM-DD in IST, offset by whole days
+function istDate(offsetDays = 0): string {
+  const ist = new Date(Date.now() + 5.5 * 60 * 60 * 1000 + offsetDays * 24 * 60 * 60 * 1000);
+  return ist.toISOString().slice(0, 10);
+}
+
+// IST day of a DATE ("2025-06-01") or TIMESTAMP value
+function istDay(value: string): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  return new Date(value).toLocaleDateString("en-CA", { timeZone: "Asia/Kolkata" });
+}
+
+interface ReminderOrderDates {
+  id: string;
+  staff_id: string;
+  status: string;
+  start_date: string;
+  end_date: string;
+  start_datetime: string | null;
+  end_datetime: string | null;
+}
+
+function getReminderType(order: ReminderOrderDates, today: string, tomorrow: string): ReminderType | null {
+  if (order.status === "scheduled") {
+    return istDay(order.start_datetime || order.start_date) === tomorrow ? "pickup_tomorrow" : null;
+  }
+  if (OUT_STATUSES.includes(order.status)) {
+    const dueDay = istDay(order.end_datetime || order.end_date);
+    if (dueDay === today) return "return_due_today";
+    if (dueDay < today) return "overdue";
+  }
+  return null;
+}
+
+function getStatusUrl(origin: string, order: ReminderOrderDates): string | null {
+  try {
+    const expiresAt = getOrderStatusLinkExpiry(order.end_datetime || order.end_date);
+    return `${origin}/track/${createOrderStatusToken({ orderId: order.id, sharedBy: order.staff_id, expiresAt })}`;
+  } catch {
+    // Status links aren't configured (no ORDER_LINK_SECRET) - send the reminder without one
+    return null;
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const expectedToken = process.env.CRON_SECRET;
+
+    if (!expectedToken) {
+      console.error("[Reminders] CRON_SECRET is not set - refusing to send reminders");
+      return NextResponse.json(
+        { error: "Reminders are not configured" },
+        { status: 500 }
+      );
+    }
+
+    if (authHeader !== `Bearer ${expectedToken}`) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const supabaseAdmin = createAdminClient();
+    const provider = getReminderProvider();
+    const channel = getReminderChannel();
+    const today = istDate();
+    const tomorrow = istDate(1);
+
+    // Step 1: Candidate orders - scheduled to start by tomorrow, or out and due by today.
+    // The exact day is checked in IST below.
+    const { data: orders, error: fetchError } = await supabaseAdmin
+      .from("orders")
+      .select(`
+        id, branch_id, staff_id, invoice_number, status,
+        start_date, end_date, start_datetime, end_datetime,
+        customer:customers(name, phone),
+        branch:branches(name),
+        staff:profiles!orders_staff_id_fkey(company_name)
+      `)
+      .or(
+        `and(status.eq.scheduled,start_date.gte.${today},start_date.lte.${istDate(2)}),` +
+        `and(status.in.(${OUT_STATUSES.join(",")}),end_date.lte.${tomorrow})`
+      );
+
+    if (fetchError) {
+      console.error("[Reminders] Error fetching orders:", fetchError);
+      return NextResponse.json(
+        { error: "Failed to fetch orders for reminders", details: fetchError.message },
+        { status: 500 }
+      );
+    }
+
+    const due = (orders || [])
+      .map((order) => ({ order, type: getReminderType(order, today, tomorrow) }))
+      .filter((entry): entry is typeof entry & { type: ReminderType } => entry.type !== null);
+
+    if (due.length === 0) {
+      return NextResponse.json({
+        success: true,
+        message: "No reminders due",
+        sent: 0,
+      });
+    }
+
+    // Step 2: Skip reminders already sent today (failed ones are retried)
+    const { data: alreadySent, error: sentError } = await supabaseAdmin
+      .from("order_reminders")
+      .select("order_id, reminder_type")
+      .eq("reminder_date", today)
+      .eq("status", "sent")
+      .in("order_id", due.map((entry) => entry.order.id));
+
+    if (sentError) {
+      console.error("[Reminders] Error fetching sent reminders:", sentError);
+      return NextResponse.json(
+        { error: "Failed to fetch sent reminders", details: sentError.message },
+        { status: 500 }
+      );
+    }
+
+    const sentKeys = new Set((alreadySent || []).map((r) => `${r.order_id}:${r.reminder_type}`));
+
+    // Step 3: Send and record each reminder
+    let sentCount = 0;
+    let skippedCount = 0;
+    const failures: { orderId: string; error: string }[] = [];
+
+    for (const { order, type } of due) {
+      if (sentKeys.has(`${order.id}:${type}`)) {
+        skippedCount++;
+        continue;
+      }
+
+      const phone = (order.customer?.phone || "").replace(/\D/g, "").slice(-10);
+      if (phone.length !== 10) {
+        skippedCount++;
+        continue;
+      }
+
+      const body = buildReminderMessage(type, order, {
+        shopName: order.staff?.company_name || order.branch?.name || "Glanz Costumes",
+        statusUrl: getStatusUrl(request.nextUrl.origin, order),
+      });
+
+      let messageId: string | null = null;
+      let sendError: string | null = null;
+      try {
+        const result = await provider.send({ channel, to: phone, body });
+        messageId = result.messageId || null;
+      } catch (error) {
+        sendError = getErrorMessage(error, "Failed to send");
+      }
+
+      const { error: logError } = await supabaseAdmin
+        .from("order_reminders")
+        .upsert(
+          {
+            order_id: order.id,
+            branch_id: order.branch_id,
+            reminder_type: type,
+            reminder_date: today,
+            channel,
+            recipient: phone,
+            message: body,
+            provider: provider.name,
+            provider_message_id: messageId,
+            status: sendError ? "failed" : "sent",
+            error: sendError,
+          },
+          { onConflict: "order_id,reminder_type,reminder_date" }
+        );
+
+      if (logError) {
+        console.error(`[Reminders] Failed to record reminder for ${order.id}:`, logError);
+      }
+
+      if (sendError) {
+        console.error(`[Reminders] Failed to send ${type} for ${order.id}:`, sendError);
+        failures.push({ orderId: order.id, error: sendError });
+        continue;
+      }
+
+      sentCount++;
+      const { error: timelineError } = await supabaseAdmin
+        .from("order_return_audit")
+        .insert({
+          order_id: order.id,
+          action: "reminder_sent",
+          user_id: null,
+          notes: `${REMINDER_TYPE_LABELS[type]} sent by ${channel === "sms" ? "SMS" : "WhatsApp"} to ${phone}`,
+        });
+
+      if (timelineError) {
+        console.error(`[Reminders] Failed to log timeline event for ${order.id}:`, timelineError);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Reminders processed",
+      stats: {
+        provider: provider.name,
+        due: due.length,
+        sent: sentCount,
+        skipped: skippedCount,
+        failed: failures.length,
+      },
+      failures: failures.length > 0 ? failures : undefined,
+    });
+  } catch (error) {
+    console.error("[Reminders] Unexpected error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", details: getErrorMessage(error, "Unknown error") },
+      { status: 500 }
+    );
+  }
+}
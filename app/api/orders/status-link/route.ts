@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createOrderStatusToken, getOrderStatusLinkExpiry } from "@/lib/utils/order-status-token";
+import { getErrorMessage } from "@/lib/utils/error";
+
+// Creates a signed link to the public order status page (/track/<token>).
+// The caller must be signed in and able to see the order under RLS.
+export async function POST(request: NextRequest) {
+  try {
+    const { orderId } = await request.json();
+
+    if (!orderId) {
+      return NextResponse.json({ error: "Order ID is required" }, { status: 400 });
+    }
+
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const { data: order, error: orderError } = await supabase
+      .from("orders")
+      .select("id, end_datetime, end_date")
+      .eq("id", orderId)
+      .maybeSingle();
+
+    if (orderError) {
+      return NextResponse.json({ error: orderError.message }, { status: 500 });
+    }
+
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+
+    const expiresAt = getOrderStatusLinkExpiry(order.end_datetime || order.end_date);
+    const token = createOrderStatusToken({ orderId: order.id, sharedBy: user.id, expiresAt });
+
+    return NextResponse.json({
+      url: `${request.nextUrl.origin}/track/${token}`,
+      expiresAt: new Date(expiresAt).toISOString(),
+    });
+  } catch (error) {
+    console.error("[API Route] Error creating order status link:", error);
+    return NextResponse.json(
+      { error: getErrorMessage(error, "Failed to create order status link") },
+      { status: 500 }
+    );
+  }
+}
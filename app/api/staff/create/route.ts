@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { createClient as createServerClient } from "@/lib/supabase/server";
 
 // This route uses the service role key to create auth users
 // The service role key should be in your environment variables
@@ -37,9 +38,45 @@ function getSupabaseAdmin() {
   return null;
 }
 
+// The signed-in caller's role, branch and capabilities, if they have the
+// manage_staff capability. Falls back to the built-in admin roles until
+// add-role-permissions.sql has been run (permissions is then null).
+async function getStaffManager() {
+  const supabase = await createServerClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) return null;
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role, branch_id")
+    .eq("id", user.id)
+    .single();
+  if (!profile) return null;
+
+  const { data: permissions, error: permissionError } = await supabase.rpc("current_permissions");
+  const canManageStaff = permissionError
+    ? profile.role === "super_admin" || profile.role === "branch_admin"
+    : ((permissions as string[] | null) || []).includes("manage_staff");
+
+  if (!canManageStaff) return null;
+  return {
+    ...(profile as { role: string; branch_id: string | null }),
+    permissions: permissionError ? null : ((permissions as string[] | null) || []),
+    supabase,
+  };
+}
+
 export async function POST(request: NextRequest) {
   try {
     console.log("[API Route] POST /api/staff/create called");
+    const manager = await getStaffManager();
+    if (!manager) {
+      return NextResponse.json(
+        { error: "You don't have permission to manage staff" },
+        { status: 403 }
+      );
+    }
+
     const body = await request.json();
     
     // Extract required fields
@@ -60,6 +97,37 @@ export async function POST(request: NextRequest) {
     const role = body.role || "staff";
     const branchId = body.branch_id || "";
     const username = body.username || email; // Use email as username if not provided
+    const appRoleId = body.app_role_id || null;
+
+    // Only super admins can add staff to other branches or create super admins,
+    // and only branch admins can create other branch admins
+    if (manager.role !== "super_admin") {
+      if (branchId !== manager.branch_id || role === "super_admin" || (role === "branch_admin" && manager.role !== "branch_admin")) {
+        return NextResponse.json(
+          { error: "You can only add staff to your own branch" },
+          { status: 403 }
+        );
+      }
+    }
+
+    // Staff given manage_staff can't hand out a custom role with more than they have
+    if (appRoleId && manager.role !== "super_admin" && manager.permissions) {
+      const { data: appRole } = await manager.supabase
+        .from("app_roles")
+        .select("permissions")
+        .eq("id", appRoleId)
+        .maybeSingle();
+      if (!appRole) {
+        return NextResponse.json({ error: "Role not found" }, { status: 400 });
+      }
+      const granted = manager.permissions;
+      if (!(appRole.permissions as string[]).every((permission) => granted.includes(permission))) {
+        return NextResponse.json(
+          { error: "You can only give someone a role with permissions you have yourself" },
+          { status: 403 }
+        );
+      }
+    }
 
     console.log("[API Route] Attempting to get Supabase admin client...");
     const supabaseAdmin = getSupabaseAdmin();
@@ -98,8 +166,8 @@ export async function POST(request: NextRequest) {
 
     console.log("[API Route] Auth user created successfully:", authData.user.id);
     // Step 2: Create profile
-    const { data: profileData, error: profileError } = await (supabaseAdmin
-      .from("profiles") as any)
+    const { data: profileData, error: profileError } = await supabaseAdmin
+      .from("profiles")
       .insert([
         {
           id: authData.user.id,
@@ -109,6 +177,7 @@ export async function POST(request: NextRequest) {
           full_name,
           phone: phone || null, // Allow null phone
           is_active: true, // Default to active
+          ...(appRoleId ? { app_role_id: appRoleId } : {}),
         },
       ])
       .select("*, branch:branches(*)")
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { createClient as createServerClient } from "@/lib/supabase/server";
 
 function getSupabaseAdmin() {
   const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -21,8 +22,41 @@ function getSupabaseAdmin() {
   });
 }
 
+// The signed-in caller's id, role and branch, if they have the manage_staff
+// capability. Falls back to the built-in admin roles until
+// add-role-permissions.sql has been run.
+async function getStaffManager() {
+  const supabase = await createServerClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) return null;
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("id, role, branch_id")
+    .eq("id", user.id)
+    .single();
+  if (!profile) return null;
+
+  const { data: allowed, error: permissionError } = await supabase.rpc("has_permission", {
+    p_permission: "manage_staff",
+  });
+  const canManageStaff = permissionError
+    ? profile.role === "super_admin" || profile.role === "branch_admin"
+    : !!allowed;
+
+  return canManageStaff ? (profile as { id: string; role: string; branch_id: string | null }) : null;
+}
+
 export async function POST(request: NextRequest) {
   try {
+    const manager = await getStaffManager();
+    if (!manager) {
+      return NextResponse.json(
+        { error: "You don't have permission to manage staff" },
+        { status: 403 }
+      );
+    }
+
     const body = await request.json();
     const { staffId } = body;
 
@@ -42,6 +76,31 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (staffId === manager.id) {
+      return NextResponse.json(
+        { error: "You can't delete your own account" },
+        { status: 400 }
+      );
+    }
+
+    // Other managers can only delete staff of their own branch
+    if (manager.role !== "super_admin") {
+      const { data: target } = await supabaseAdmin
+        .from("profiles")
+        .select("role, branch_id")
+        .eq("id", staffId)
+        .maybeSingle();
+
+      const outranksManager =
+        target?.role === "super_admin" || (target?.role === "branch_admin" && manager.role !== "branch_admin");
+      if (!target || target.branch_id !== manager.branch_id || outranksManager) {
+        return NextResponse.json(
+          { error: "You can only delete staff of your own branch" },
+          { status: 403 }
+        );
+      }
+    }
+
     // Check if staff has orders - prevent deletion if yes
     const { data: orders, error: ordersError } = await supabaseAdmin
       .from("orders")
@@ -0,0 +1,19 @@
+import type { MetadataRoute } from "next";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Glanz Costumes - Rental Management System",
+    short_name: "Glanz Rental",
+    description: "Professional rental management system for equipment and items",
+    start_url: "/dashboard",
+    scope: "/",
+    display: "standalone",
+    background_color: "#f7f9fb",
+    theme_color: "#273492",
+    icons: [
+      { src: "/icons/icon-192.png", sizes: "192x192", type: "image/png" },
+      { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png" },
+      { src: "/icons/icon-maskable-512.png", sizes: "512x512", type: "image/png", purpose: "maskable" },
+    ],
+  };
+}
@@ -0,0 +1,258 @@
+import type { Metadata } from "next";
+import { Card } from "@/components/ui/card";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { verifyOrderStatusToken } from "@/lib/utils/order-status-token";
+import { generateQRCodeDataURL } from "@/lib/utils/qr-code";
+import type { OrderItemReturnStatus, OrderStatus } from "@/lib/types";
+
+// Public, read-only order summary for customers. No login: access comes from
+// the signed link, and the page only shows what the customer already knows.
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Order Status",
+  robots: { index: false, follow: false },
+};
+
+interface TrackOrderPageProps {
+  params: Promise<{ token: string }>;
+}
+
+interface TrackedOrder {
+  id: string;
+  invoice_number: string;
+  status: OrderStatus;
+  start_date: string;
+  end_date: string;
+  start_datetime?: string | null;
+  end_datetime?: string | null;
+  total_amount: number;
+  late_fee?: number | null;
+  customer?: { name: string } | null;
+  branch?: { name: string; phone?: string | null } | null;
+  items?: {
+    product_name?: string | null;
+    quantity: number;
+    returned_quantity?: number | null;
+    return_status?: OrderItemReturnStatus | null;
+  }[];
+}
+
+const STATUS_TEXT: Record<OrderStatus, string> = {
+  scheduled: "Booked",
+  active: "With you",
+  pending_return: "Due for return",
+  partially_returned: "Partly returned",
+  completed: "Returned",
+  cancelled: "Cancelled",
+  flagged: "Under review",
+};
+
+const formatIST = (value: string) =>
+  new Date(value).toLocaleString("en-IN", {
+    timeZone: "Asia/Kolkata",
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const isPastDue = (value: string) => new Date(value).getTime() < Date.now();
+
+const formatRupees = (amount: number) =>
+  `₹${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+function LinkMessage({ title, message }: { title: string; message: string }) {
+  return (
+    <main className="min-h-screen bg-[#f7f9fb] flex items-center justify-center p-4">
+      <Card className="p-8 max-w-md w-full text-center rounded-xl border border-gray-200 bg-white">
+        <h1 className="text-xl font-bold text-gray-900 mb-2">{title}</h1>
+        <p className="text-sm text-gray-600">{message}</p>
+      </Card>
+    </main>
+  );
+}
+
+export default async function TrackOrderPage({ params }: TrackOrderPageProps) {
+  const { token } = await params;
+
+  let verification;
+  try {
+    verification = verifyOrderStatusToken(decodeURIComponent(token));
+  } catch (error) {
+    console.error("[Track Order] Cannot verify link:", error);
+    return <LinkMessage title="Link unavailable" message="Order tracking isn't set up yet. Please contact the shop." />;
+  }
+
+  if (!verification.valid) {
+    return verification.reason === "expired" ? (
+      <LinkMessage title="Link expired" message="This order link has expired. Please contact the shop for a new one." />
+    ) : (
+      <LinkMessage title="Invalid link" message="We couldn't find this order. Please check the link or contact the shop." />
+    );
+  }
+
+  const supabase = createAdminClient();
+  const { orderId, sharedBy } = verification.payload;
+
+  const [orderResult, paymentsResult, profileResult] = await Promise.all([
+    supabase.from("orders")
+      .select(`
+        id, invoice_number, status, start_date, end_date, start_datetime, end_datetime, total_amount, late_fee,
+        customer:customers(name),
+        branch:branches(name, phone),
+        items:order_items(product_name, quantity, returned_quantity, return_status)
+      `)
+      .eq("id", orderId)
+      .maybeSingle(),
+    supabase.from("payments").select("amount, payment_type").eq("order_id", orderId),
+    supabase.from("profiles").select("company_name, upi_id").eq("id", sharedBy).maybeSingle(),
+  ]);
+
+  const order = orderResult.data as TrackedOrder | null;
+  if (orderResult.error || !order) {
+    if (orderResult.error) console.error("[Track Order] Failed to load order:", orderResult.error);
+    return <LinkMessage title="Order not found" message="We couldn't find this order. Please contact the shop." />;
+  }
+
+  // Refunds paid back count against what was paid
+  const paid = ((paymentsResult.data || []) as { amount: number; payment_type: string }[]).reduce(
+    (sum, payment) => sum + (payment.payment_type === "refund" ? -1 : 1) * (Number(payment.amount) || 0),
+    0
+  );
+  const total = Number(order.total_amount) || 0;
+  const balance = Math.round((total - paid) * 100) / 100;
+  const profile = profileResult.data as { company_name?: string | null; upi_id?: string | null } | null;
+  const shopName = profile?.company_name || order.branch?.name || "Glanz Costumes";
+
+  const startAt = order.start_datetime || order.start_date;
+  const dueAt = order.end_datetime || order.end_date;
+  const isOut = ["active", "pending_return", "partially_returned"].includes(order.status);
+  const isOverdue = isOut && isPastDue(dueAt);
+
+  const upiId = order.status !== "cancelled" && balance > 0 ? profile?.upi_id : null;
+  const upiPaymentString = upiId
+    ? `upi://pay?pa=${upiId}&am=${balance.toFixed(2)}&cu=INR&tn=Order ${order.invoice_number}`
+    : null;
+  const qrCodeDataUrl = upiPaymentString ? await generateQRCodeDataURL(upiPaymentString, 220) : "";
+
+  return (
+    <main className="min-h-screen bg-[#f7f9fb] py-6 px-4">
+      <div className="max-w-md mx-auto space-y-4">
+        <div className="text-center">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src="/glanz_logo.png" alt={shopName} className="h-14 w-14 mx-auto object-contain mb-2" />
+          <h1 className="text-lg font-bold text-gray-900">{shopName}</h1>
+          {order.branch?.phone && (
+            <a href={`tel:${order.branch.phone.split(",")[0].trim()}`} className="text-sm text-[#273492] font-medium">
+              {order.branch.phone.split(",")[0].trim()}
+            </a>
+          )}
+        </div>
+
+        <Card className="p-5 rounded-xl border border-gray-200 bg-white">
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <p className="text-xs text-gray-500">Order</p>
+              <p className="font-mono font-semibold text-gray-900">{order.invoice_number}</p>
+              {order.customer?.name && <p className="text-sm text-gray-600 mt-1">{order.customer.name}</p>}
+            </div>
+            <span
+              className={`text-xs font-semibold px-2.5 py-1 rounded-full ${
+                isOverdue
+                  ? "bg-red-100 text-red-700"
+                  : order.status === "completed"
+                  ? "bg-green-100 text-green-700"
+                  : order.status === "cancelled"
+                  ? "bg-gray-100 text-gray-600"
+                  : "bg-[#273492]/10 text-[#273492]"
+              }`}
+            >
+              {isOverdue ? "Overdue" : STATUS_TEXT[order.status] || order.status}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 mt-4 pt-4 border-t border-gray-100">
+            <div>
+              <p className="text-xs text-gray-500">Pickup</p>
+              <p className="text-sm font-medium text-gray-900">{formatIST(startAt)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500">Due back</p>
+              <p className={`text-sm font-semibold ${isOverdue ? "text-red-600" : "text-gray-900"}`}>
+                {formatIST(dueAt)}
+              </p>
+            </div>
+          </div>
+        </Card>
+
+        <Card className="p-5 rounded-xl border border-gray-200 bg-white">
+          <h2 className="text-sm font-semibold text-gray-900 mb-3">Items</h2>
+          <ul className="divide-y divide-gray-100">
+            {(order.items || []).map((item, index) => {
+              const returned = item.return_status === "returned"
+                ? item.quantity
+                : Math.min(item.returned_quantity || 0, item.quantity);
+              return (
+                <li key={index} className="flex items-center justify-between py-2 text-sm">
+                  <span className="text-gray-900">
+                    {item.product_name || "Item"} <span className="text-gray-500">× {item.quantity}</span>
+                  </span>
+                  {returned > 0 && (
+                    <span className="text-xs text-green-700">
+                      {returned === item.quantity ? "Returned" : `${returned} returned`}
+                    </span>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </Card>
+
+        <Card className="p-5 rounded-xl border border-gray-200 bg-white">
+          <div className="space-y-2 text-sm">
+            {(order.late_fee || 0) > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Late fee</span>
+                <span className="text-gray-900">{formatRupees(Number(order.late_fee))}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-gray-600">Order total</span>
+              <span className="font-medium text-gray-900">{formatRupees(total)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Paid</span>
+              <span className="font-medium text-green-700">{formatRupees(paid)}</span>
+            </div>
+            <div className="flex justify-between pt-2 border-t border-gray-100">
+              <span className="font-semibold text-gray-900">Balance due</span>
+              <span className={`text-base font-bold ${balance > 0 ? "text-red-600" : "text-green-700"}`}>
+                {formatRupees(Math.max(balance, 0))}
+              </span>
+            </div>
+          </div>
+
+          {upiPaymentString && qrCodeDataUrl && (
+            <div className="mt-5 pt-4 border-t border-gray-100 text-center">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={qrCodeDataUrl} alt="UPI payment QR code" className="h-44 w-44 mx-auto" />
+              <p className="text-xs text-gray-500 mt-2">Scan with any UPI app to pay {formatRupees(balance)}</p>
+              <a
+                href={upiPaymentString}
+                className="inline-block mt-3 px-4 py-2 rounded-lg bg-[#273492] text-white text-sm font-semibold"
+              >
+                Pay with UPI
+              </a>
+            </div>
+          )}
+        </Card>
+
+        <p className="text-center text-xs text-gray-400">
+          Link valid until {formatIST(new Date(verification.payload.expiresAt).toISOString())}
+        </p>
+      </div>
+    </main>
+  );
+}
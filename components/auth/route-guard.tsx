@@ -4,42 +4,49 @@ import { useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useUserStore } from "@/lib/stores/useUserStore";
 import { Skeleton } from "@/components/ui/skeleton";
+import { hasPermission } from "@/lib/utils/permissions";
+import type { Permission } from "@/lib/types";
 
 interface RouteGuardProps {
   children: React.ReactNode;
   allowedRoles?: ("super_admin" | "branch_admin" | "staff")[];
+  permission?: Permission;
   redirectTo?: string;
 }
 
 /**
  * Route Guard Component
- * Protects routes based on user roles
+ * Protects routes based on user roles or permissions
  * 
  * @param allowedRoles - Array of roles that can access this route. If undefined, all authenticated users can access.
+ * @param permission - Capability the user needs (see lib/utils/permissions.ts). Checked as well as allowedRoles.
  * @param redirectTo - Where to redirect if access is denied. Defaults to "/orders"
  */
 export function RouteGuard({
   children,
   allowedRoles,
+  permission,
   redirectTo = "/orders",
 }: RouteGuardProps) {
   const { user } = useUserStore();
   const router = useRouter();
 
+  const isAllowed =
+    !!user &&
+    (!allowedRoles || allowedRoles.length === 0 || allowedRoles.includes(user.role)) &&
+    (!permission || hasPermission(user, permission));
+
   useEffect(() => {
     if (!user) {
       // User not loaded yet, wait
       return;
     }
 
-    // If allowedRoles is specified, check if user's role is allowed
-    if (allowedRoles && allowedRoles.length > 0) {
-      if (!allowedRoles.includes(user.role)) {
-        // User doesn't have required role, redirect
-        router.push(redirectTo);
-      }
+    // User doesn't have the required role or permission, redirect
+    if (!isAllowed) {
+      router.push(redirectTo);
     }
-  }, [user, allowedRoles, redirectTo, router]);
+  }, [user, isAllowed, redirectTo, router]);
 
   // Show loading state while checking
   if (!user) {
@@ -52,22 +59,20 @@ export function RouteGuard({
     );
   }
 
-  // If allowedRoles is specified and user doesn't have required role, show nothing (redirecting)
-  if (allowedRoles && allowedRoles.length > 0) {
-    if (!allowedRoles.includes(user.role)) {
-      return (
-        <div className="p-4 md:p-6">
-          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
-            <p className="text-yellow-800 text-sm font-medium">
-              Access Denied
-            </p>
-            <p className="text-yellow-600 text-xs mt-1">
-              You don't have permission to access this page. Redirecting...
-            </p>
-          </div>
+  // User doesn't have the required role or permission, show nothing (redirecting)
+  if (!isAllowed) {
+    return (
+      <div className="p-4 md:p-6">
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <p className="text-yellow-800 text-sm font-medium">
+            Access Denied
+          </p>
+          <p className="text-yellow-600 text-xs mt-1">
+            You don&apos;t have permission to access this page. Redirecting...
+          </p>
         </div>
-      );
-    }
+      </div>
+    );
   }
 
   return <>{children}</>;
@@ -0,0 +1,175 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { DatabaseBackup, Download, Upload } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectItem } from "@/components/ui/select";
+import { StandardButton } from "@/components/shared/standard-button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/toast";
+import { useUserStore } from "@/lib/stores/useUserStore";
+import { useBranches } from "@/lib/queries/branches";
+import { useExportBackup, useRestoreBackup } from "@/lib/queries/backup";
+import type { RestoreResult } from "@/lib/backup/format";
+import { getErrorMessage } from "@/lib/utils/error";
+
+/**
+ * Admin export of orders, items, customers, return audit, staff and branches
+ * as a ZIP. Super admins can export every branch and restore a backup into
+ * an empty project; branch admins export their own branch.
+ */
+export function DataBackupCard() {
+  const { showToast } = useToast();
+  const { user } = useUserStore();
+  const isSuperAdmin = user?.role === "super_admin";
+  const { data: branches = [] } = useBranches();
+  const exportMutation = useExportBackup();
+  const restoreMutation = useRestoreBackup();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [branchId, setBranchId] = useState("");
+  const [restoreFile, setRestoreFile] = useState<File | null>(null);
+  const [restoreResult, setRestoreResult] = useState<RestoreResult | null>(null);
+
+  if (!isSuperAdmin && user?.role !== "branch_admin") return null;
+
+  const handleExport = async () => {
+    try {
+      await exportMutation.mutateAsync(isSuperAdmin ? branchId || null : user?.branch_id || null);
+      showToast("Backup downloaded", "success");
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to export data"), "error");
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!restoreFile) return;
+    try {
+      const result = await restoreMutation.mutateAsync(restoreFile);
+      setRestoreResult(result);
+      setRestoreFile(null);
+      showToast(`Restored ${result.counts.orders} orders and ${result.counts.customers} customers`, "success");
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to restore data"), "error");
+    }
+  };
+
+  return (
+    <Card className="p-6 rounded-xl border border-gray-200 bg-white/80 backdrop-blur-sm shadow-lg">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-[#273492] to-[#1f2a7a] flex items-center justify-center shadow-lg">
+          <DatabaseBackup className="h-6 w-6 text-white" />
+        </div>
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Data Backup</h2>
+          <p className="text-sm text-gray-500">Download orders, customers and staff as JSON and CSV</p>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {isSuperAdmin && (
+          <div className="space-y-2">
+            <Label className="text-sm text-[#6b7280] font-medium">Branch</Label>
+            <Select value={branchId} onChange={(e) => setBranchId(e.target.value)} className="h-12">
+              <SelectItem value="">All branches</SelectItem>
+              {branches.map((branch) => (
+                <SelectItem key={branch.id} value={branch.id}>
+                  {branch.name}
+                </SelectItem>
+              ))}
+            </Select>
+          </div>
+        )}
+        <StandardButton
+          variant="outline"
+          icon={Download}
+          onClick={handleExport}
+          disabled={exportMutation.isPending}
+          loading={exportMutation.isPending}
+          className="w-full h-12"
+        >
+          {exportMutation.isPending ? "Preparing backup..." : "Download Backup"}
+        </StandardButton>
+        <p className="text-xs text-gray-500">
+          Photos and ID proof images aren&apos;t included - they stay in storage.
+        </p>
+
+        {isSuperAdmin && (
+          <div className="pt-4 border-t border-gray-200 space-y-2">
+            <Label className="text-sm text-[#6b7280] font-medium">Restore</Label>
+            <p className="text-xs text-gray-500">
+              Only into an empty project (no customers or orders yet). Staff logins are recreated and need a
+              password reset.
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) setRestoreFile(file);
+                e.target.value = "";
+              }}
+            />
+            <StandardButton
+              variant="outline"
+              icon={Upload}
+              onClick={() => fileInputRef.current?.click()}
+              disabled={restoreMutation.isPending}
+              className="w-full h-12"
+            >
+              Restore from Backup
+            </StandardButton>
+
+            {restoreResult && (
+              <div className="p-3 rounded-xl bg-green-50 border border-green-200 text-xs text-green-800 space-y-1">
+                <p className="font-semibold">
+                  Restored {restoreResult.counts.branches} branches, {restoreResult.counts.profiles} staff,{" "}
+                  {restoreResult.counts.customers} customers and {restoreResult.counts.orders} orders
+                </p>
+                {restoreResult.createdAccounts.length > 0 && (
+                  <p>
+                    New logins (send a password reset):{" "}
+                    {restoreResult.createdAccounts.map((account) => account.email).join(", ")}
+                  </p>
+                )}
+                {restoreResult.skippedProfiles.length > 0 && (
+                  <p className="text-amber-700">
+                    No email in the backup, records assigned to you: {restoreResult.skippedProfiles.join(", ")}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={!!restoreFile} onOpenChange={(open) => !open && setRestoreFile(null)}>
+        <DialogContent onClose={() => setRestoreFile(null)}>
+          <DialogHeader>
+            <DialogTitle>Restore {restoreFile?.name}?</DialogTitle>
+            <DialogDescription>
+              Branches, staff, customers, orders and return history from the backup are added to this project
+              with new ids. Invoice and customer numbers are kept.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="mt-6">
+            <Button variant="outline" onClick={() => setRestoreFile(null)} disabled={restoreMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleRestore}
+              disabled={restoreMutation.isPending}
+              className="bg-[#273492] hover:bg-[#1f2a7a] text-white"
+            >
+              {restoreMutation.isPending ? "Restoring..." : "Restore"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,264 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { addDays, addMonths, format, getDaysInMonth, isToday, isWeekend, startOfMonth } from "date-fns";
+import { ArrowLeft, ArrowRight, Loader2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/components/ui/toast";
+import { useCalendarTimeline, useRescheduleOrder, type CalendarTimelineOrder } from "@/lib/queries/calendar";
+import { formatDateTime } from "@/lib/utils/date";
+import type { OrderStatus } from "@/lib/types";
+import { getErrorMessage } from "@/lib/utils/error";
+
+const DAY_WIDTH = 40;
+const LABEL_WIDTH = 168;
+// Pointer travel before a press on a bar counts as a drag rather than a click
+const DRAG_THRESHOLD_PX = 4;
+
+const STATUS_BARS: Partial<Record<OrderStatus, { label: string; className: string }>> = {
+  scheduled: { label: "Scheduled", className: "bg-[#273492] text-white" },
+  active: { label: "Active", className: "bg-green-500 text-white" },
+  pending_return: { label: "Pending return", className: "bg-[#e7342f] text-white" },
+  partially_returned: { label: "Partially returned", className: "bg-orange-400 text-white" },
+  flagged: { label: "Flagged", className: "bg-amber-500 text-white" },
+  completed: { label: "Completed", className: "bg-gray-300 text-gray-700" },
+};
+
+interface DragState {
+  orderId: string;
+  originX: number;
+  offset: number; // Whole days
+  moved: boolean;
+}
+
+interface BookingTimelineProps {
+  branchId: string | null;
+  month: Date;
+  onMonthChange: (month: Date) => void;
+}
+
+/**
+ * Month timeline with a bar per order from pickup to return, and the units
+ * out and returns due per day. Scheduled orders can be dragged to new dates.
+ */
+export function BookingTimeline({ branchId, month, onMonthChange }: BookingTimelineProps) {
+  const router = useRouter();
+  const { showToast } = useToast();
+  const { data, isLoading } = useCalendarTimeline(branchId, month);
+  const rescheduleOrder = useRescheduleOrder();
+
+  const [drag, setDrag] = useState<DragState | null>(null);
+  // Where a dropped bar sits while its reschedule is saving
+  const [pendingMove, setPendingMove] = useState<{ orderId: string; offset: number } | null>(null);
+  const suppressClickRef = useRef(false);
+
+  const monthStart = startOfMonth(month);
+  const dayCount = getDaysInMonth(monthStart);
+  const dayDates = Array.from({ length: dayCount }, (_, day) => addDays(monthStart, day));
+  const days = data?.days || {};
+  const orders = (data?.orders || []).filter((order) => order.last_day >= 0 && order.first_day < dayCount);
+
+  const handleReschedule = async (order: CalendarTimelineOrder, offset: number) => {
+    if (!branchId) return;
+    const start = addDays(new Date(order.start), offset);
+    const end = addDays(new Date(order.end), offset);
+    if (start <= new Date()) {
+      showToast("Orders can't be moved to a time that has already passed", "error");
+      return;
+    }
+
+    if (!confirm(`Move ${order.invoice_number || "this order"} for ${order.customer_name} to ${formatDateTime(start)} - ${formatDateTime(end)}?`)) {
+      return;
+    }
+
+    setPendingMove({ orderId: order.id, offset });
+    try {
+      await rescheduleOrder.mutateAsync({
+        orderId: order.id,
+        branchId,
+        start: start.toISOString(),
+        end: end.toISOString(),
+      });
+      showToast("Order rescheduled", "success");
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to reschedule order"), "error");
+    } finally {
+      setPendingMove(null);
+    }
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLButtonElement>, order: CalendarTimelineOrder) => {
+    if (order.status !== "scheduled" || pendingMove) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({ orderId: order.id, originX: event.clientX, offset: 0, moved: false });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLButtonElement>) => {
+    if (!drag) return;
+    const dx = event.clientX - drag.originX;
+    const moved = drag.moved || Math.abs(dx) > DRAG_THRESHOLD_PX;
+    setDrag({ ...drag, moved, offset: moved ? Math.round(dx / DAY_WIDTH) : 0 });
+  };
+
+  const handlePointerUp = (order: CalendarTimelineOrder) => {
+    if (!drag) return;
+    suppressClickRef.current = drag.moved;
+    setDrag(null);
+    if (drag.moved && drag.offset !== 0) {
+      handleReschedule(order, drag.offset);
+    }
+  };
+
+  const handleBarClick = (order: CalendarTimelineOrder) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
+    router.push(`/orders/${order.id}`);
+  };
+
+  const getOffset = (orderId: string) => {
+    if (drag?.orderId === orderId) return drag.offset;
+    if (pendingMove?.orderId === orderId) return pendingMove.offset;
+    return 0;
+  };
+
+  return (
+    <Card className="p-4 md:p-6 bg-white/80 backdrop-blur-sm border-gray-200/60 shadow-lg space-y-4">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={() => onMonthChange(addMonths(monthStart, -1))} aria-label="Previous month">
+            <ArrowLeft className="h-5 w-5 text-gray-700" />
+          </Button>
+          <span className="text-lg font-bold text-gray-900 min-w-[150px] text-center">
+            {format(monthStart, "MMMM yyyy")}
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => onMonthChange(addMonths(monthStart, 1))} aria-label="Next month">
+            <ArrowRight className="h-5 w-5 text-gray-700" />
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-3 text-xs">
+          {Object.entries(STATUS_BARS).map(([status, bar]) => (
+            <div key={status} className="flex items-center gap-1.5">
+              <div className={`w-3 h-3 rounded-sm ${bar.className}`} />
+              <span className="text-gray-700 font-medium">{bar.label}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[...Array(5)].map((_, i) => (
+            <Skeleton key={i} className="h-8 rounded-lg shimmer-premium" />
+          ))}
+        </div>
+      ) : (
+        <div className="overflow-x-auto custom-scrollbar">
+          <div style={{ width: LABEL_WIDTH + dayCount * DAY_WIDTH }} className="text-xs">
+            {/* Day header */}
+            <div className="flex border-b border-gray-200">
+              <div className="sticky left-0 z-20 bg-white flex-shrink-0 px-2 py-2 font-semibold text-gray-500" style={{ width: LABEL_WIDTH }}>
+                Order
+              </div>
+              {dayDates.map((date) => (
+                <div
+                  key={date.toISOString()}
+                  className={`flex-shrink-0 text-center py-1 ${
+                    isToday(date) ? "bg-[#273492]/10 text-[#273492] font-bold" : isWeekend(date) ? "bg-gray-50 text-gray-500" : "text-gray-500"
+                  }`}
+                  style={{ width: DAY_WIDTH }}
+                >
+                  <div className="text-[10px]">{format(date, "EEEEE")}</div>
+                  <div className="font-semibold">{format(date, "d")}</div>
+                </div>
+              ))}
+            </div>
+
+            {/* Per-day totals */}
+            {([
+              ["Items out", "items_out", "text-gray-900"],
+              ["Returns due", "returns_due", "text-[#e7342f]"],
+            ] as const).map(([label, key, valueClass]) => (
+              <div key={key} className="flex border-b border-gray-100">
+                <div className="sticky left-0 z-20 bg-white flex-shrink-0 px-2 py-1.5 font-medium text-gray-600" style={{ width: LABEL_WIDTH }}>
+                  {label}
+                </div>
+                {dayDates.map((date) => {
+                  const value = days[format(date, "yyyy-MM-dd")]?.[key] || 0;
+                  return (
+                    <div
+                      key={date.toISOString()}
+                      className={`flex-shrink-0 text-center py-1.5 font-semibold ${value > 0 ? valueClass : "text-gray-300"} ${
+                        isToday(date) ? "bg-[#273492]/10" : ""
+                      }`}
+                      style={{ width: DAY_WIDTH }}
+                    >
+                      {value}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+
+            {/* Order bars */}
+            {orders.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-10">No orders this month</p>
+            ) : (
+              orders.map((order) => {
+                const offset = getOffset(order.id);
+                const firstDay = Math.max(0, order.first_day + offset);
+                const lastDay = Math.min(dayCount - 1, order.last_day + offset);
+                const bar = STATUS_BARS[order.status] || STATUS_BARS.completed!;
+                const isDraggable = order.status === "scheduled";
+                const isSaving = pendingMove?.orderId === order.id;
+
+                return (
+                  <div key={order.id} className="flex border-b border-gray-50 hover:bg-gray-50/60">
+                    <div
+                      className="sticky left-0 z-20 bg-white flex-shrink-0 px-2 py-1.5 min-w-0"
+                      style={{ width: LABEL_WIDTH }}
+                    >
+                      <div className="font-mono font-semibold text-gray-900 truncate">{order.invoice_number || "N/A"}</div>
+                      <div className="text-gray-500 truncate">{order.customer_name}</div>
+                    </div>
+                    <div className="relative flex-shrink-0" style={{ width: dayCount * DAY_WIDTH }}>
+                      {lastDay >= firstDay && (
+                        <button
+                          type="button"
+                          title={`${order.invoice_number || "N/A"} · ${order.customer_name} · ${formatDateTime(order.start)} - ${formatDateTime(order.end)} · ${order.item_count} item${order.item_count !== 1 ? "s" : ""}${isDraggable ? " · drag to reschedule" : ""}`}
+                          className={`absolute top-1.5 bottom-1.5 rounded-md px-2 flex items-center gap-1 font-semibold shadow-sm truncate ${bar.className} ${
+                            isDraggable ? "cursor-grab active:cursor-grabbing touch-none" : "cursor-pointer"
+                          } ${drag?.orderId === order.id && drag.moved ? "ring-2 ring-offset-1 ring-[#273492] opacity-90" : ""}`}
+                          style={{
+                            left: firstDay * DAY_WIDTH + 2,
+                            width: (lastDay - firstDay + 1) * DAY_WIDTH - 4,
+                          }}
+                          onPointerDown={(event) => handlePointerDown(event, order)}
+                          onPointerMove={handlePointerMove}
+                          onPointerUp={() => handlePointerUp(order)}
+                          onPointerCancel={() => setDrag(null)}
+                          onClick={() => handleBarClick(order)}
+                        >
+                          {isSaving && <Loader2 className="h-3 w-3 animate-spin flex-shrink-0" />}
+                          <span className="truncate">{order.customer_name}</span>
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Click a bar to open the order. Drag a scheduled order to move its dates - stock is checked before it&apos;s saved.
+      </p>
+    </Card>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import Link from "next/link";
+import { AlertTriangle, Phone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  describeDuplicateReasons,
+  isStrongDuplicate,
+  type CustomerDuplicateMatch,
+} from "@/lib/utils/customer-duplicates";
+import type { Customer } from "@/lib/types";
+
+interface CustomerDuplicateWarningProps {
+  matches: CustomerDuplicateMatch[];
+  onUseCustomer?: (customer: Customer) => void;
+  confirmed: boolean;
+  onConfirmedChange: (confirmed: boolean) => void;
+}
+
+// Enough to spot the right record without swamping the form
+const MAX_SHOWN = 3;
+
+/**
+ * Possible duplicates of the customer being entered. With the same phone or
+ * ID proof, staff must confirm it's a different person before saving.
+ */
+export function CustomerDuplicateWarning({
+  matches,
+  onUseCustomer,
+  confirmed,
+  onConfirmedChange,
+}: CustomerDuplicateWarningProps) {
+  if (matches.length === 0) return null;
+
+  const hasStrongMatch = matches.some(isStrongDuplicate);
+
+  return (
+    <div
+      className={`p-3 rounded-xl border space-y-3 ${
+        hasStrongMatch ? "bg-red-50 border-red-200" : "bg-amber-50 border-amber-200"
+      }`}
+    >
+      <p className={`text-sm font-semibold flex items-center gap-1.5 ${hasStrongMatch ? "text-red-700" : "text-amber-700"}`}>
+        <AlertTriangle className="h-4 w-4" />
+        {hasStrongMatch ? "This customer may already exist" : "Customers with a similar name"}
+      </p>
+
+      <div className="space-y-2">
+        {matches.slice(0, MAX_SHOWN).map(({ customer, reasons }) => (
+          <div
+            key={customer.id}
+            className="flex items-center justify-between gap-3 p-2 bg-white rounded-lg border border-gray-200"
+          >
+            <div className="min-w-0">
+              <p className="text-sm font-semibold text-gray-900 truncate">
+                {customer.name}
+                {customer.customer_number && (
+                  <span className="ml-1.5 text-xs font-mono text-[#273492]">{customer.customer_number}</span>
+                )}
+              </p>
+              <p className="text-xs text-gray-500 flex items-center gap-1">
+                <Phone className="h-3 w-3" />
+                {customer.phone} · {describeDuplicateReasons(reasons)}
+              </p>
+            </div>
+            {onUseCustomer ? (
+              <Button type="button" size="sm" variant="outline" onClick={() => onUseCustomer(customer)}>
+                Use
+              </Button>
+            ) : (
+              <Link
+                href={`/customers/${customer.id}`}
+                className="text-xs font-semibold text-[#273492] hover:underline flex-shrink-0"
+              >
+                View
+              </Link>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {hasStrongMatch && (
+        <div className="flex items-center gap-3">
+          <Checkbox
+            id="customer-not-duplicate"
+            checked={confirmed}
+            onCheckedChange={onConfirmedChange}
+          />
+          <Label htmlFor="customer-not-duplicate" className="text-xs font-medium text-gray-700 cursor-pointer">
+            This is a different person - create a new customer anyway
+          </Label>
+        </div>
+      )}
+    </div>
+  );
+}
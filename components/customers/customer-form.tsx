@@ -7,8 +7,13 @@ import { Label } from "@/components/ui/label";
 import { Card } from "@/components/ui/card";
 import { Select, SelectItem } from "@/components/ui/select";
 import { IdProofUpload } from "@/components/customers/id-proof-upload";
+import { CustomerGstFields } from "@/components/customers/customer-gst-fields";
 import { useToast } from "@/components/ui/toast";
-import { useCreateCustomer } from "@/lib/queries/customers";
+import { CustomerDuplicateWarning } from "@/components/customers/customer-duplicate-warning";
+import { useCreateCustomer, useDuplicateCustomers } from "@/lib/queries/customers";
+import { useDebounce } from "@/lib/hooks/use-debounce";
+import { isValidGstin } from "@/lib/utils/gst";
+import { isStrongDuplicate } from "@/lib/utils/customer-duplicates";
 import type { Customer } from "@/lib/types";
 
 interface CustomerFormProps {
@@ -27,6 +32,19 @@ export function CustomerForm({ onSuccess, onCancel }: CustomerFormProps) {
   const [idProofNumber, setIdProofNumber] = useState("");
   const [idProofFrontUrl, setIdProofFrontUrl] = useState("");
   const [idProofBackUrl, setIdProofBackUrl] = useState("");
+  const [gstin, setGstin] = useState("");
+  const [stateCode, setStateCode] = useState("");
+  const [notDuplicateConfirmed, setNotDuplicateConfirmed] = useState(false);
+
+  const debouncedName = useDebounce(name, 400);
+  const debouncedPhone = useDebounce(phone, 400);
+  const debouncedIdProofNumber = useDebounce(idProofNumber, 400);
+  const { data: duplicates = [] } = useDuplicateCustomers({
+    name: debouncedName,
+    phone: debouncedPhone,
+    id_proof_number: debouncedIdProofNumber,
+  });
+  const hasStrongDuplicate = duplicates.some(isStrongDuplicate);
 
   // Phone number validation: exactly 10 digits
   const validatePhone = (phone: string): boolean => {
@@ -47,6 +65,16 @@ export function CustomerForm({ onSuccess, onCancel }: CustomerFormProps) {
       return;
     }
 
+    if (gstin && !isValidGstin(gstin)) {
+      showToast("Enter a valid GSTIN or leave it empty", "error");
+      return;
+    }
+
+    if (hasStrongDuplicate && !notDuplicateConfirmed) {
+      showToast("This customer may already exist. Check the existing customer or confirm it's a different person.", "error");
+      return;
+    }
+
     try {
       const customer = await createCustomerMutation.mutateAsync({
         name: name.trim(),
@@ -56,6 +84,9 @@ export function CustomerForm({ onSuccess, onCancel }: CustomerFormProps) {
         id_proof_number: idProofNumber.trim() || null,
         id_proof_front_url: idProofFrontUrl || null,
         id_proof_back_url: idProofBackUrl || null,
+        gstin: gstin || null,
+        state_code: stateCode || null,
+        allow_duplicate: notDuplicateConfirmed,
       });
 
       showToast("Customer added successfully", "success");
@@ -69,12 +100,15 @@ export function CustomerForm({ onSuccess, onCancel }: CustomerFormProps) {
       setIdProofNumber("");
       setIdProofFrontUrl("");
       setIdProofBackUrl("");
+      setGstin("");
+      setStateCode("");
+      setNotDuplicateConfirmed(false);
     } catch (error: any) {
       console.error("Error creating customer:", error);
       showToast(
         error.message?.includes("unique") 
           ? "Phone number already exists" 
-          : "Failed to create customer",
+          : error.message || "Failed to create customer",
         "error"
       );
     }
@@ -112,6 +146,7 @@ export function CustomerForm({ onSuccess, onCancel }: CustomerFormProps) {
               // Only allow digits and limit to 10
               const value = e.target.value.replace(/\D/g, "").slice(0, 10);
               setPhone(value);
+              setNotDuplicateConfirmed(false);
             }}
             placeholder="Enter 10-digit phone number"
             className="h-14 text-base rounded-xl"
@@ -136,6 +171,15 @@ export function CustomerForm({ onSuccess, onCancel }: CustomerFormProps) {
             className="h-14 text-base rounded-xl"
           />
         </div>
+
+        <CustomerGstFields
+          gstin={gstin}
+          stateCode={stateCode}
+          onChange={(newGstin, newStateCode) => {
+            setGstin(newGstin);
+            setStateCode(newStateCode);
+          }}
+        />
       </Card>
 
       {/* ID Proof Information */}
@@ -165,7 +209,10 @@ export function CustomerForm({ onSuccess, onCancel }: CustomerFormProps) {
           <Label className="text-sm text-gray-600">ID Proof Number</Label>
           <Input
             value={idProofNumber}
-            onChange={(e) => setIdProofNumber(e.target.value)}
+            onChange={(e) => {
+              setIdProofNumber(e.target.value);
+              setNotDuplicateConfirmed(false);
+            }}
             placeholder="Enter ID proof number"
             className="h-14 text-base rounded-xl"
           />
@@ -188,6 +235,12 @@ export function CustomerForm({ onSuccess, onCancel }: CustomerFormProps) {
         </div>
       </Card>
 
+      <CustomerDuplicateWarning
+        matches={duplicates}
+        confirmed={notDuplicateConfirmed}
+        onConfirmedChange={setNotDuplicateConfirmed}
+      />
+
       {/* Submit Buttons */}
       <div className="flex gap-4 pb-4">
         <Button
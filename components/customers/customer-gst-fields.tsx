@@ -0,0 +1,64 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectItem } from "@/components/ui/select";
+import { GST_STATES, normalizeGstin, isValidGstin, getStateCodeFromGstin } from "@/lib/utils/gst";
+
+interface CustomerGstFieldsProps {
+  gstin: string;
+  stateCode: string;
+  onChange: (gstin: string, stateCode: string) => void;
+  inputClassName?: string;
+  labelClassName?: string;
+}
+
+/**
+ * GSTIN and state for tax invoices. The state follows the GSTIN when one is entered.
+ */
+export function CustomerGstFields({
+  gstin,
+  stateCode,
+  onChange,
+  inputClassName = "h-14 text-base rounded-xl",
+  labelClassName = "text-sm text-gray-600",
+}: CustomerGstFieldsProps) {
+  const gstinState = getStateCodeFromGstin(gstin);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label className={labelClassName}>GSTIN (Optional)</Label>
+        <Input
+          value={gstin}
+          onChange={(e) => {
+            const value = normalizeGstin(e.target.value);
+            onChange(value, getStateCodeFromGstin(value) || stateCode);
+          }}
+          placeholder="e.g. 32ABCDE1234F1Z5"
+          className={`${inputClassName} font-mono uppercase`}
+          maxLength={15}
+        />
+        {gstin && !isValidGstin(gstin) && (
+          <p className="text-xs text-red-500 mt-1">Enter a valid 15-character GSTIN</p>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label className={labelClassName}>State (Place of Supply)</Label>
+        <Select
+          value={stateCode}
+          onChange={(e) => onChange(gstin, e.target.value)}
+          className={inputClassName}
+          disabled={!!gstinState}
+        >
+          <SelectItem value="">Same as branch</SelectItem>
+          {Object.entries(GST_STATES).map(([code, name]) => (
+            <SelectItem key={code} value={code}>
+              {code} - {name}
+            </SelectItem>
+          ))}
+        </Select>
+      </div>
+    </div>
+  );
+}
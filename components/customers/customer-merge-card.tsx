@@ -0,0 +1,173 @@
+"use client";
+
+import { useState } from "react";
+import { GitMerge, Phone, Search } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/toast";
+import { useUserStore } from "@/lib/stores/useUserStore";
+import { useCustomers, useDuplicateCustomers, useMergeCustomers } from "@/lib/queries/customers";
+import { useDebounce } from "@/lib/hooks/use-debounce";
+import { describeDuplicateReasons } from "@/lib/utils/customer-duplicates";
+import type { Customer } from "@/lib/types";
+import { getErrorMessage } from "@/lib/utils/error";
+
+interface CustomerMergeCardProps {
+  customer: Customer;
+}
+
+/**
+ * Mounted only while searching, so the customer list isn't fetched otherwise
+ */
+function MergeSearchResults({
+  query,
+  excludeCustomerId,
+  renderRow,
+}: {
+  query: string;
+  excludeCustomerId: string;
+  renderRow: (customer: Customer) => React.ReactNode;
+}) {
+  const { data } = useCustomers(query, 1, 5);
+  const results = (data?.data || []).filter((c) => c.id !== excludeCustomerId);
+  if (results.length === 0) return null;
+
+  return <div className="space-y-2">{results.map(renderRow)}</div>;
+}
+
+/**
+ * Earlier customer numbers of this customer, and for admins the records that
+ * look like duplicates of it. Merging moves the duplicate's orders, payments,
+ * credit notes and missing details onto this customer and deletes it.
+ */
+export function CustomerMergeCard({ customer }: CustomerMergeCardProps) {
+  const { showToast } = useToast();
+  const { user } = useUserStore();
+  const isAdmin = user?.role === "super_admin" || user?.role === "branch_admin";
+
+  const [searchQuery, setSearchQuery] = useState("");
+  const [duplicate, setDuplicate] = useState<Customer | null>(null);
+  const debouncedSearch = useDebounce(searchQuery, 300);
+
+  const { data: suggestions = [] } = useDuplicateCustomers(
+    isAdmin
+      ? { name: customer.name, phone: customer.phone, id_proof_number: customer.id_proof_number }
+      : {},
+    customer.id
+  );
+  const mergeMutation = useMergeCustomers();
+
+  const previousNumbers = customer.previous_customer_numbers || [];
+  if (!isAdmin && previousNumbers.length === 0) return null;
+
+  const handleMerge = async () => {
+    if (!duplicate) return;
+    try {
+      await mergeMutation.mutateAsync({ survivorId: customer.id, duplicateId: duplicate.id });
+      showToast(`${duplicate.name} merged into ${customer.name}`, "success");
+      setDuplicate(null);
+      setSearchQuery("");
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to merge customers"), "error");
+    }
+  };
+
+  const renderRow = (candidate: Customer, detail: string) => (
+    <div
+      key={candidate.id}
+      className="flex items-center justify-between gap-3 p-2 bg-gray-50 rounded-lg border border-gray-200"
+    >
+      <div className="min-w-0">
+        <p className="text-sm font-semibold text-gray-900 truncate">{candidate.name}</p>
+        <p className="text-xs text-gray-500 flex items-center gap-1 truncate">
+          <Phone className="h-3 w-3 flex-shrink-0" />
+          {[candidate.phone, candidate.customer_number, detail].filter(Boolean).join(" · ")}
+        </p>
+      </div>
+      <Button type="button" size="sm" variant="outline" onClick={() => setDuplicate(candidate)}>
+        Merge
+      </Button>
+    </div>
+  );
+
+  return (
+    <Card className="p-6 rounded-xl border border-gray-200 shadow-sm bg-white">
+      <h3 className="text-lg font-bold text-gray-900 mb-4">Duplicates</h3>
+
+      {previousNumbers.length > 0 && (
+        <div className="mb-4">
+          <p className="text-[11px] font-medium text-gray-500 uppercase tracking-wide mb-1">Previous Customer Numbers</p>
+          <div className="flex flex-wrap gap-1.5">
+            {previousNumbers.map((number) => (
+              <span key={number} className="text-xs font-mono text-[#273492] bg-[#273492]/10 px-2 py-0.5 rounded">
+                {number}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {isAdmin && (
+        <div className="space-y-3">
+          {suggestions.length > 0 ? (
+            <div className="space-y-2">
+              {suggestions.map(({ customer: candidate, reasons }) =>
+                renderRow(candidate, describeDuplicateReasons(reasons))
+              )}
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500">No likely duplicates found.</p>
+          )}
+
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Find another record by name or phone"
+              className="pl-9 h-10 text-sm"
+            />
+          </div>
+          {debouncedSearch.trim() && (
+            <MergeSearchResults
+              query={debouncedSearch.trim()}
+              excludeCustomerId={customer.id}
+              renderRow={(candidate) => renderRow(candidate, "")}
+            />
+          )}
+        </div>
+      )}
+
+      <Dialog open={!!duplicate} onOpenChange={(open) => !open && setDuplicate(null)}>
+        <DialogContent onClose={() => setDuplicate(null)}>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <GitMerge className="h-5 w-5" />
+              Merge {duplicate?.name} into {customer.name}
+            </DialogTitle>
+            <DialogDescription>
+              All orders, payments and credit notes of {duplicate?.name}
+              {duplicate?.customer_number ? ` (${duplicate.customer_number})` : ""} move to {customer.name}
+              {customer.customer_number ? ` (${customer.customer_number})` : ""}. Address, ID proof and GSTIN
+              are copied over where {customer.name} has none. {duplicate?.name} is then deleted. This can&apos;t be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="mt-6">
+            <Button variant="outline" onClick={() => setDuplicate(null)} disabled={mergeMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleMerge}
+              disabled={mergeMutation.isPending}
+              className="bg-[#e7342f] hover:bg-[#c92a26] text-white"
+            >
+              {mergeMutation.isPending ? "Merging..." : "Merge"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
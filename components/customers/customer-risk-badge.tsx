@@ -0,0 +1,46 @@
+"use client";
+
+import { AlertTriangle, Ban } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { assessCustomerRisk } from "@/lib/utils/customer-risk";
+import type { CustomerRiskProfile } from "@/lib/types";
+
+interface CustomerRiskBadgeProps {
+  risk?: Partial<CustomerRiskProfile> | null;
+  isBlacklisted?: boolean;
+  className?: string;
+}
+
+const BADGE_STYLES = {
+  blacklisted: "border-red-300 bg-red-600 text-white",
+  high: "border-red-300 bg-red-50 text-red-700",
+  caution: "border-amber-300 bg-amber-50 text-amber-700",
+};
+
+const BADGE_LABELS = {
+  blacklisted: "Blacklisted",
+  high: "High risk",
+  caution: "Caution",
+};
+
+/**
+ * Small warning badge for customers with a poor return history or on the
+ * blacklist. Renders nothing for customers with a clean history.
+ */
+export function CustomerRiskBadge({ risk, isBlacklisted, className = "" }: CustomerRiskBadgeProps) {
+  const { level, reasons } = assessCustomerRisk(risk, isBlacklisted);
+  if (level === "none") return null;
+
+  const Icon = level === "blacklisted" ? Ban : AlertTriangle;
+
+  return (
+    <Badge
+      variant="outline"
+      className={`text-[10px] px-1.5 py-0.5 h-4 gap-1 border ${BADGE_STYLES[level]} ${className}`}
+      title={reasons.join(", ") || undefined}
+    >
+      <Icon className="h-2.5 w-2.5" />
+      {BADGE_LABELS[level]}
+    </Badge>
+  );
+}
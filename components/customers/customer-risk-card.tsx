@@ -0,0 +1,175 @@
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, Ban, ShieldCheck } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/toast";
+import { useUserStore } from "@/lib/stores/useUserStore";
+import { useCustomerRiskProfile, useSetCustomerBlacklist } from "@/lib/queries/customers";
+import { assessCustomerRisk, canOverrideBlacklist } from "@/lib/utils/customer-risk";
+import { formatCurrency, formatDate } from "@/lib/utils/date";
+import type { Customer } from "@/lib/types";
+import { getErrorMessage } from "@/lib/utils/error";
+
+interface CustomerRiskCardProps {
+  customer: Customer;
+}
+
+const LEVEL_STYLES = {
+  blacklisted: { box: "bg-red-50 border-red-200", text: "text-red-700", label: "Blacklisted" },
+  high: { box: "bg-red-50 border-red-200", text: "text-red-700", label: "High risk" },
+  caution: { box: "bg-amber-50 border-amber-200", text: "text-amber-700", label: "Caution" },
+  none: { box: "bg-green-50 border-green-200", text: "text-green-700", label: "Good standing" },
+};
+
+/**
+ * Return history (late returns, damage, missing items, unpaid dues) and the
+ * blacklist flag. Admins can blacklist or clear the customer from here.
+ */
+export function CustomerRiskCard({ customer }: CustomerRiskCardProps) {
+  const { showToast } = useToast();
+  const { user } = useUserStore();
+  const { data: risk, isLoading } = useCustomerRiskProfile(customer.id);
+  const blacklistMutation = useSetCustomerBlacklist();
+
+  const [showDialog, setShowDialog] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const isAdmin = canOverrideBlacklist(user?.role);
+  const { level } = assessCustomerRisk(risk, customer.is_blacklisted);
+  const style = LEVEL_STYLES[level];
+
+  const handleBlacklist = async () => {
+    if (!reason.trim()) {
+      showToast("Enter a reason for blacklisting this customer", "error");
+      return;
+    }
+    try {
+      await blacklistMutation.mutateAsync({ customerId: customer.id, blacklisted: true, reason });
+      setShowDialog(false);
+      showToast(`${customer.name} blacklisted`, "success");
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to blacklist customer"), "error");
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm(`Remove ${customer.name} from the blacklist?`)) return;
+    try {
+      await blacklistMutation.mutateAsync({ customerId: customer.id, blacklisted: false });
+      showToast(`${customer.name} removed from the blacklist`, "success");
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to update blacklist"), "error");
+    }
+  };
+
+  const stats = [
+    { label: "Late Returns", value: String(risk?.late_returns || 0), alert: (risk?.late_returns || 0) > 0 },
+    { label: "Damage Fees", value: formatCurrency(risk?.damage_fees || 0), alert: (risk?.damage_fees || 0) > 0 },
+    { label: "Missing Items", value: String(risk?.missing_items || 0), alert: (risk?.missing_items || 0) > 0 },
+    { label: "Unpaid Dues", value: formatCurrency(risk?.unpaid_dues || 0), alert: (risk?.unpaid_dues || 0) > 0 },
+  ];
+
+  return (
+    <Card className="p-6 rounded-xl border border-gray-200 shadow-sm bg-white">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-gray-900">Risk Profile</h3>
+        <span className={`text-xs font-semibold px-2 py-1 rounded-full border ${style.box} ${style.text}`}>
+          {style.label}
+        </span>
+      </div>
+
+      {customer.is_blacklisted && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-xs font-semibold text-red-700 flex items-center gap-1.5">
+            <Ban className="h-3.5 w-3.5" />
+            Blacklisted{customer.blacklisted_at ? ` on ${formatDate(customer.blacklisted_at, "dd MMM yyyy")}` : ""}
+          </p>
+          {customer.blacklist_reason && (
+            <p className="text-xs text-red-700 mt-1">{customer.blacklist_reason}</p>
+          )}
+          <p className="text-[11px] text-red-600 mt-1">New orders need an admin override.</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        {stats.map((stat) => (
+          <div key={stat.label} className={`p-3 rounded-lg ${stat.alert ? "bg-red-50" : "bg-gray-50"}`}>
+            <p className="text-[11px] font-medium text-gray-500 uppercase tracking-wide">{stat.label}</p>
+            <p className={`text-base font-bold ${stat.alert ? "text-red-700" : "text-gray-900"}`}>
+              {isLoading ? "…" : stat.value}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {isAdmin && (
+        <div className="mt-4 pt-4 border-t border-gray-200">
+          {customer.is_blacklisted ? (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleClear}
+              disabled={blacklistMutation.isPending}
+              className="w-full"
+            >
+              <ShieldCheck className="h-4 w-4 mr-1.5" />
+              Remove from Blacklist
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setReason("");
+                setShowDialog(true);
+              }}
+              disabled={blacklistMutation.isPending}
+              className="w-full text-red-600 border-red-200 hover:bg-red-50"
+            >
+              <AlertTriangle className="h-4 w-4 mr-1.5" />
+              Blacklist Customer
+            </Button>
+          )}
+        </div>
+      )}
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent onClose={() => setShowDialog(false)}>
+          <DialogHeader>
+            <DialogTitle>Blacklist {customer.name}</DialogTitle>
+            <DialogDescription>
+              Staff won&apos;t be able to create new orders for this customer without an admin override.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 mt-4">
+            <Label htmlFor="blacklist-reason">Reason</Label>
+            <Textarea
+              id="blacklist-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Costume not returned, stopped answering calls"
+              rows={3}
+            />
+          </div>
+          <DialogFooter className="mt-6">
+            <Button variant="outline" onClick={() => setShowDialog(false)} disabled={blacklistMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleBlacklist}
+              disabled={blacklistMutation.isPending}
+              className="bg-[#e7342f] hover:bg-[#c92a26] text-white"
+            >
+              {blacklistMutation.isPending ? "Saving..." : "Blacklist"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
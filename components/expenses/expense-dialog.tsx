@@ -0,0 +1,223 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectItem } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { CameraUpload, type UploadResult } from "@/components/orders/camera-upload";
+import { useToast } from "@/components/ui/toast";
+import { createClient } from "@/lib/supabase/client";
+import { useProducts } from "@/lib/queries/products";
+import { useCreateExpense, uploadExpenseReceipt, EXPENSE_CATEGORY_LABELS } from "@/lib/queries/expenses";
+import { getBusinessDate } from "@/lib/queries/day-closings";
+import type { ExpenseCategory, Order } from "@/lib/types";
+import { getErrorMessage } from "@/lib/utils/error";
+
+interface ExpenseDialogProps {
+  open: boolean;
+  onClose: () => void;
+  branchId: string;
+  // When set, the expense is for one of this order's items
+  order?: Order;
+}
+
+const NONE = "none";
+
+/**
+ * Record an expense, optionally against an order item or catalog product,
+ * with a receipt photo compressed the same way as item photos.
+ */
+export function ExpenseDialog({ open, onClose, branchId, order }: ExpenseDialogProps) {
+  const { showToast } = useToast();
+  const createMutation = useCreateExpense();
+  const { data: products = [] } = useProducts(order ? null : branchId);
+
+  const [category, setCategory] = useState<ExpenseCategory>("dry_cleaning");
+  const [amount, setAmount] = useState("");
+  const [expenseDate, setExpenseDate] = useState(() => getBusinessDate());
+  const [vendor, setVendor] = useState("");
+  const [description, setDescription] = useState("");
+  const [orderItemId, setOrderItemId] = useState<string>(order?.items?.[0]?.id || NONE);
+  const [productId, setProductId] = useState<string>(NONE);
+  const [receipt, setReceipt] = useState<UploadResult | null>(null);
+
+  const upload = useCallback((file: File) => uploadExpenseReceipt(createClient(), file), []);
+  const handleReceipt = useCallback((result: UploadResult) => {
+    setReceipt(result.status === "idle" ? null : result);
+  }, []);
+
+  const reset = () => {
+    setCategory("dry_cleaning");
+    setAmount("");
+    setExpenseDate(getBusinessDate());
+    setVendor("");
+    setDescription("");
+    setOrderItemId(order?.items?.[0]?.id || NONE);
+    setProductId(NONE);
+    setReceipt(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleSave = async () => {
+    const value = parseFloat(amount) || 0;
+    if (value <= 0) {
+      showToast("Enter an amount greater than zero", "error");
+      return;
+    }
+
+    try {
+      // Wait for a receipt that's still uploading
+      const receiptUrl = receipt ? receipt.finalUrl || (await receipt.promise) : null;
+
+      await createMutation.mutateAsync({
+        branchId,
+        category,
+        amount: value,
+        expenseDate,
+        vendor,
+        description,
+        orderItemId: order && orderItemId !== NONE ? orderItemId : null,
+        productId: !order && productId !== NONE ? productId : null,
+        receiptUrl,
+      });
+      showToast("Expense recorded", "success");
+      handleClose();
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to record expense"), "error");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent onClose={handleClose}>
+        <DialogHeader>
+          <DialogTitle>Record Expense</DialogTitle>
+          <DialogDescription>
+            {order
+              ? `Dry cleaning, repairs or alterations after ${order.invoice_number || "this order"}.`
+              : "Dry cleaning, repairs, alterations and other costs for this branch."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="expense-category">Category</Label>
+              <Select
+                id="expense-category"
+                value={category}
+                onChange={(e) => setCategory(e.target.value as ExpenseCategory)}
+              >
+                {(Object.keys(EXPENSE_CATEGORY_LABELS) as ExpenseCategory[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {EXPENSE_CATEGORY_LABELS[key]}
+                  </SelectItem>
+                ))}
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expense-amount">Amount (₹) *</Label>
+              <Input
+                id="expense-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+
+          {order ? (
+            <div className="space-y-2">
+              <Label htmlFor="expense-item">Item</Label>
+              <Select id="expense-item" value={orderItemId} onChange={(e) => setOrderItemId(e.target.value)}>
+                <SelectItem value={NONE}>Whole order</SelectItem>
+                {order.items?.map((item) => (
+                  <SelectItem key={item.id} value={item.id!}>
+                    {item.product_name || "Item"} ({item.quantity} qty)
+                  </SelectItem>
+                ))}
+              </Select>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="expense-product">Product</Label>
+              <Select id="expense-product" value={productId} onChange={(e) => setProductId(e.target.value)}>
+                <SelectItem value={NONE}>Not for a product</SelectItem>
+                {products.map((product) => (
+                  <SelectItem key={product.id} value={product.id}>
+                    {product.name} ({product.sku})
+                  </SelectItem>
+                ))}
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="expense-date">Date</Label>
+              <Input
+                id="expense-date"
+                type="date"
+                value={expenseDate}
+                max={getBusinessDate()}
+                onChange={(e) => setExpenseDate(e.target.value || getBusinessDate())}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expense-vendor">Paid to</Label>
+              <Input
+                id="expense-vendor"
+                value={vendor}
+                onChange={(e) => setVendor(e.target.value)}
+                placeholder="e.g. City Dry Cleaners"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="expense-description">Description</Label>
+            <Textarea
+              id="expense-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g. Stain removal on sleeve"
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Receipt</Label>
+            <div className="flex">
+              <CameraUpload
+                onUploadComplete={handleReceipt}
+                currentUrl={receipt?.finalUrl}
+                upload={upload}
+                alt="Receipt"
+                disabled={createMutation.isPending}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={createMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={createMutation.isPending || receipt?.status === "uploading"}>
+            {createMutation.isPending ? "Saving..." : "Save Expense"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,385 @@
+"use client";
+
+/**
+ * CREDIT NOTE PDF
+ *
+ * Single page document against an issued invoice, in the same look as the
+ * invoice: shop header, original invoice reference, customer, the credited
+ * amount with its GST split and the amount in words.
+ */
+
+import { Document, Page, Text, View, Image, StyleSheet, type DocumentProps } from "@react-pdf/renderer";
+import type { ReactElement } from "react";
+import type { CreditNote, Order, User } from "@/lib/types";
+import { formatDate } from "@/lib/utils/date";
+import { buildTaxInvoice, amountInWords } from "@/lib/utils/gst";
+import { CREDIT_NOTE_TYPE_LABELS } from "@/lib/queries/credit-notes";
+
+interface CreditNotePDFProps {
+  creditNote: CreditNote;
+  order: Order;
+  user: User | null;
+}
+
+function formatRs(amount: number | null | undefined): string {
+  const safeAmount = amount ?? 0;
+  const fixed = safeAmount.toFixed(2);
+  const parts = fixed.split(".");
+  const formattedInteger = parts[0].replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+  return `Rs ${formattedInteger}.${parts[1] || "00"}`;
+}
+
+const styles = StyleSheet.create({
+  page: {
+    padding: 24,
+    fontSize: 9,
+    fontFamily: "Helvetica",
+    backgroundColor: "#ffffff",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingBottom: 12,
+    borderBottom: "2px solid #e5e7eb",
+  },
+  headerLeft: {
+    flex: 1,
+    paddingRight: 20,
+    flexDirection: "row",
+    alignItems: "flex-start",
+  },
+  logo: {
+    width: 65,
+    height: 65,
+    marginRight: 12,
+    objectFit: "contain",
+  },
+  shopName: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#111827",
+    marginBottom: 4,
+  },
+  shopLine: {
+    fontSize: 8,
+    color: "#000000",
+    lineHeight: 1.3,
+    marginBottom: 1,
+  },
+  shopGstin: {
+    fontSize: 8,
+    color: "#000000",
+    marginTop: 2,
+    fontWeight: "600",
+  },
+  headerRight: {
+    alignItems: "flex-end",
+    minWidth: 160,
+  },
+  documentLabel: {
+    fontSize: 24,
+    fontWeight: "700",
+    color: "#e7342f",
+    marginBottom: 6,
+    letterSpacing: -0.5,
+  },
+  numberText: {
+    fontSize: 9,
+    color: "#374151",
+    fontWeight: "600",
+    marginBottom: 3,
+  },
+  dateText: {
+    fontSize: 8,
+    color: "#000000",
+  },
+  infoRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 12,
+    paddingBottom: 10,
+    borderBottom: "1px solid #f3f4f6",
+  },
+  infoBlock: {
+    width: "48%",
+  },
+  sectionLabel: {
+    fontSize: 7,
+    color: "#000000",
+    textTransform: "uppercase",
+    fontWeight: "700",
+    marginBottom: 6,
+    letterSpacing: 1,
+  },
+  customerName: {
+    fontSize: 10,
+    fontWeight: "600",
+    color: "#111827",
+    marginBottom: 4,
+  },
+  infoText: {
+    fontSize: 8,
+    color: "#000000",
+    lineHeight: 1.4,
+    marginBottom: 1,
+  },
+  table: {
+    marginTop: 14,
+  },
+  tableHeader: {
+    flexDirection: "row",
+    backgroundColor: "#f8f9fa",
+    borderBottom: "1px solid #e5e7eb",
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+  },
+  tableHeaderText: {
+    fontSize: 8,
+    fontWeight: "700",
+    color: "#000000",
+  },
+  tableRow: {
+    flexDirection: "row",
+    borderBottom: "1px solid #f3f4f6",
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+  },
+  cellDescription: {
+    flex: 1,
+    fontSize: 8.5,
+    color: "#111827",
+  },
+  cellAmount: {
+    width: 110,
+    fontSize: 8.5,
+    color: "#000000",
+    textAlign: "right",
+  },
+  summary: {
+    marginTop: 12,
+    marginLeft: "auto",
+    width: 240,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 4,
+  },
+  summaryLabel: {
+    fontSize: 8.5,
+    color: "#000000",
+  },
+  summaryValue: {
+    fontSize: 8.5,
+    color: "#000000",
+    fontWeight: "600",
+  },
+  totalRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingTop: 8,
+    marginTop: 4,
+    borderTop: "1.5px solid #111827",
+  },
+  totalLabel: {
+    fontSize: 10,
+    fontWeight: "700",
+    color: "#000000",
+  },
+  totalValue: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#000000",
+  },
+  amountInWords: {
+    fontSize: 7.5,
+    color: "#000000",
+    fontStyle: "italic",
+    marginTop: 4,
+    textAlign: "right",
+  },
+  footer: {
+    marginTop: 40,
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-end",
+  },
+  footerNote: {
+    fontSize: 7.5,
+    color: "#6b7280",
+    maxWidth: 300,
+    lineHeight: 1.4,
+  },
+  signatureBlock: {
+    alignItems: "center",
+    width: 160,
+  },
+  signatureLine: {
+    borderTop: "1px solid #000000",
+    width: "100%",
+    marginBottom: 4,
+  },
+  signatureText: {
+    fontSize: 7.5,
+    color: "#000000",
+  },
+});
+
+export function CreditNotePDF({ creditNote, order, user }: CreditNotePDFProps) {
+  const taxInvoice = buildTaxInvoice(order, user);
+  const gstAmount = Number(creditNote.gst_amount) || 0;
+  const cgst = Math.round((gstAmount / 2) * 100) / 100;
+
+  const shopName = user?.company_name || order.branch?.name || user?.branch?.name || "Glanz Costumes";
+  const shopAddress = order.branch?.address || user?.branch?.address || "";
+  const shopAddressLines = shopAddress.split("\n").filter((line) => line.trim());
+  const phone = order.branch?.phone || user?.branch?.phone;
+  const logoUrl = order.branch?.logo_url || user?.branch?.logo_url || "/glanz_logo.png";
+
+  const description = [
+    `${CREDIT_NOTE_TYPE_LABELS[creditNote.note_type]} against invoice ${creditNote.invoice_number}`,
+    creditNote.reason,
+  ]
+    .filter(Boolean)
+    .join(" - ");
+
+  return (
+    <Document>
+      <Page size="A4" style={styles.page}>
+        {/* Header */}
+        <View style={styles.header}>
+          <View style={styles.headerLeft}>
+            {/* eslint-disable-next-line jsx-a11y/alt-text */}
+            <Image src={logoUrl} style={styles.logo} />
+            <View>
+              <Text style={styles.shopName}>{shopName}</Text>
+              {shopAddressLines.map((line, i) => (
+                <Text key={i} style={styles.shopLine}>{line}</Text>
+              ))}
+              {phone && (
+                <Text style={styles.shopLine}>
+                  Phone: {phone.split(",").map((p) => p.trim()).join(", ")}
+                </Text>
+              )}
+              {taxInvoice.supplierGstin && (
+                <Text style={styles.shopGstin}>GSTIN: {taxInvoice.supplierGstin}</Text>
+              )}
+            </View>
+          </View>
+          <View style={styles.headerRight}>
+            <Text style={styles.documentLabel}>CREDIT NOTE</Text>
+            <Text style={styles.numberText}>{creditNote.credit_note_number}</Text>
+            <Text style={styles.dateText}>{formatDate(creditNote.issued_at, "dd MMM yyyy")}</Text>
+          </View>
+        </View>
+
+        {/* Customer and original invoice */}
+        <View style={styles.infoRow}>
+          <View style={styles.infoBlock}>
+            <Text style={styles.sectionLabel}>Issued To</Text>
+            <Text style={styles.customerName}>{order.customer?.name || "N/A"}</Text>
+            {order.customer?.phone && <Text style={styles.infoText}>{order.customer.phone}</Text>}
+            {order.customer?.address && <Text style={styles.infoText}>{order.customer.address}</Text>}
+            {taxInvoice.customerGstin && (
+              <Text style={styles.infoText}>GSTIN: {taxInvoice.customerGstin}</Text>
+            )}
+          </View>
+          <View style={styles.infoBlock}>
+            <Text style={styles.sectionLabel}>Original Invoice</Text>
+            <Text style={styles.infoText}>Invoice No: {creditNote.invoice_number}</Text>
+            <Text style={styles.infoText}>
+              Invoice Date: {formatDate(order.booking_date || order.created_at, "dd MMM yyyy")}
+            </Text>
+            {taxInvoice.placeOfSupply && (
+              <Text style={styles.infoText}>Place of Supply: {taxInvoice.placeOfSupply}</Text>
+            )}
+          </View>
+        </View>
+
+        {/* Credited amount */}
+        <View style={styles.table}>
+          <View style={styles.tableHeader}>
+            <Text style={[styles.tableHeaderText, styles.cellDescription]}>Description</Text>
+            <Text style={[styles.tableHeaderText, styles.cellAmount]}>Amount</Text>
+          </View>
+          <View style={styles.tableRow}>
+            <Text style={styles.cellDescription}>{description}</Text>
+            <Text style={styles.cellAmount}>{formatRs(creditNote.taxable_value)}</Text>
+          </View>
+        </View>
+
+        <View style={styles.summary}>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Taxable Value</Text>
+            <Text style={styles.summaryValue}>{formatRs(creditNote.taxable_value)}</Text>
+          </View>
+          {gstAmount > 0 && (taxInvoice.isInterState ? (
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>IGST ({taxInvoice.rate}%)</Text>
+              <Text style={styles.summaryValue}>{formatRs(gstAmount)}</Text>
+            </View>
+          ) : (
+            <>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>CGST ({taxInvoice.rate / 2}%)</Text>
+                <Text style={styles.summaryValue}>{formatRs(cgst)}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>SGST ({taxInvoice.rate / 2}%)</Text>
+                <Text style={styles.summaryValue}>{formatRs(gstAmount - cgst)}</Text>
+              </View>
+            </>
+          ))}
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Total Credit</Text>
+            <Text style={styles.totalValue}>{formatRs(creditNote.total_amount)}</Text>
+          </View>
+          <Text style={styles.amountInWords}>{amountInWords(creditNote.total_amount)}</Text>
+        </View>
+
+        {/* Footer */}
+        <View style={styles.footer}>
+          <Text style={styles.footerNote}>
+            This credit note reduces the value of invoice {creditNote.invoice_number}. It is not a receipt for cash paid.
+          </Text>
+          <View style={styles.signatureBlock}>
+            <View style={styles.signatureLine} />
+            <Text style={styles.signatureText}>Authorised Signatory</Text>
+          </View>
+        </View>
+      </Page>
+    </Document>
+  );
+}
+
+/**
+ * Generate and download the credit note PDF
+ */
+export async function generateAndDownloadCreditNotePDF(
+  creditNote: CreditNote,
+  order: Order,
+  user: User | null
+): Promise<void> {
+  try {
+    const React = await import("react");
+    const { pdf } = await import("@react-pdf/renderer");
+
+    const doc = pdf(React.createElement(CreditNotePDF, { creditNote, order, user }) as ReactElement<DocumentProps>);
+    const blob = await doc.toBlob();
+    if (!blob) {
+      throw new Error("Failed to generate PDF blob");
+    }
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `Credit-Note-${creditNote.credit_note_number.replace(/\//g, "-")}.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error("Error generating credit note PDF:", error);
+    throw error;
+  }
+}
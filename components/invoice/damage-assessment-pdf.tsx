@@ -0,0 +1,426 @@
+"use client";
+
+/**
+ * DAMAGE ASSESSMENT PDF
+ *
+ * Handed to the customer at return: per damaged item, the pickup photo next
+ * to the return photo and the itemised damage charges, then the total that
+ * is added to the order as damage fees.
+ */
+
+import { Document, Page, Text, View, Image, StyleSheet, type DocumentProps } from "@react-pdf/renderer";
+import type { ReactElement } from "react";
+import type { DamageAssessment, Order, User } from "@/lib/types";
+import { formatDate } from "@/lib/utils/date";
+
+interface DamageAssessmentPDFProps {
+  order: Order;
+  assessments: DamageAssessment[];
+  user: User | null;
+}
+
+function formatRs(amount: number | null | undefined): string {
+  const safeAmount = amount ?? 0;
+  const fixed = safeAmount.toFixed(2);
+  const parts = fixed.split(".");
+  const formattedInteger = parts[0].replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+  return `Rs ${formattedInteger}.${parts[1] || "00"}`;
+}
+
+const styles = StyleSheet.create({
+  page: {
+    padding: 24,
+    fontSize: 9,
+    fontFamily: "Helvetica",
+    backgroundColor: "#ffffff",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingBottom: 12,
+    borderBottom: "2px solid #e5e7eb",
+  },
+  headerLeft: {
+    flex: 1,
+    paddingRight: 20,
+    flexDirection: "row",
+    alignItems: "flex-start",
+  },
+  logo: {
+    width: 65,
+    height: 65,
+    marginRight: 12,
+    objectFit: "contain",
+  },
+  shopName: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#111827",
+    marginBottom: 4,
+  },
+  shopLine: {
+    fontSize: 8,
+    color: "#000000",
+    lineHeight: 1.3,
+    marginBottom: 1,
+  },
+  headerRight: {
+    alignItems: "flex-end",
+    minWidth: 160,
+  },
+  documentLabel: {
+    fontSize: 24,
+    fontWeight: "700",
+    color: "#e7342f",
+    marginBottom: 6,
+    letterSpacing: -0.5,
+  },
+  numberText: {
+    fontSize: 9,
+    color: "#374151",
+    fontWeight: "600",
+    marginBottom: 3,
+  },
+  dateText: {
+    fontSize: 8,
+    color: "#000000",
+  },
+  infoRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 12,
+    paddingBottom: 10,
+    borderBottom: "1px solid #f3f4f6",
+  },
+  infoBlock: {
+    width: "48%",
+  },
+  sectionLabel: {
+    fontSize: 7,
+    color: "#000000",
+    textTransform: "uppercase",
+    fontWeight: "700",
+    marginBottom: 6,
+    letterSpacing: 1,
+  },
+  customerName: {
+    fontSize: 10,
+    fontWeight: "600",
+    color: "#111827",
+    marginBottom: 4,
+  },
+  infoText: {
+    fontSize: 8,
+    color: "#000000",
+    lineHeight: 1.4,
+    marginBottom: 1,
+  },
+  table: {
+    marginTop: 14,
+  },
+  tableHeader: {
+    flexDirection: "row",
+    backgroundColor: "#f8f9fa",
+    borderBottom: "1px solid #e5e7eb",
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+  },
+  tableHeaderText: {
+    fontSize: 8,
+    fontWeight: "700",
+    color: "#000000",
+  },
+  tableRow: {
+    flexDirection: "row",
+    borderBottom: "1px solid #f3f4f6",
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+  },
+  cellDescription: {
+    flex: 1,
+    fontSize: 8.5,
+    color: "#111827",
+  },
+  cellAmount: {
+    width: 110,
+    fontSize: 8.5,
+    color: "#000000",
+    textAlign: "right",
+  },
+  summary: {
+    marginTop: 12,
+    marginLeft: "auto",
+    width: 240,
+  },
+  summaryLabel: {
+    fontSize: 8.5,
+    color: "#000000",
+  },
+  summaryValue: {
+    fontSize: 8.5,
+    color: "#000000",
+    fontWeight: "600",
+  },
+  totalRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingTop: 8,
+    marginTop: 4,
+    borderTop: "1.5px solid #111827",
+  },
+  totalLabel: {
+    fontSize: 10,
+    fontWeight: "700",
+    color: "#000000",
+  },
+  totalValue: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#000000",
+  },
+  footer: {
+    marginTop: 40,
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-end",
+  },
+  footerNote: {
+    fontSize: 7.5,
+    color: "#6b7280",
+    maxWidth: 300,
+    lineHeight: 1.4,
+  },
+  signatureBlock: {
+    alignItems: "center",
+    width: 160,
+  },
+  signatureLine: {
+    borderTop: "1px solid #000000",
+    width: "100%",
+    marginBottom: 4,
+  },
+  signatureText: {
+    fontSize: 7.5,
+    color: "#000000",
+  },
+  itemBlock: {
+    marginTop: 14,
+    paddingBottom: 10,
+    borderBottom: "1px solid #e5e7eb",
+  },
+  itemTitle: {
+    fontSize: 10,
+    fontWeight: "700",
+    color: "#111827",
+    marginBottom: 6,
+  },
+  photoRow: {
+    flexDirection: "row",
+    marginBottom: 8,
+  },
+  photoBlock: {
+    marginRight: 16,
+    alignItems: "center",
+  },
+  photo: {
+    width: 120,
+    height: 120,
+    objectFit: "cover",
+    border: "1px solid #e5e7eb",
+  },
+  photoMissing: {
+    width: 120,
+    height: 120,
+    border: "1px dashed #d1d5db",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  photoCaption: {
+    fontSize: 7,
+    color: "#6b7280",
+    marginTop: 3,
+    textTransform: "uppercase",
+    letterSpacing: 1,
+  },
+  cellNote: {
+    fontSize: 7.5,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  itemTotalRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    paddingTop: 6,
+    paddingHorizontal: 8,
+  },
+});
+
+function PhotoBox({ src, caption }: { src?: string | null; caption: string }) {
+  return (
+    <View style={styles.photoBlock}>
+      {src ? (
+        // eslint-disable-next-line jsx-a11y/alt-text
+        <Image src={src} style={styles.photo} />
+      ) : (
+        <View style={styles.photoMissing}>
+          <Text style={styles.cellNote}>No photo</Text>
+        </View>
+      )}
+      <Text style={styles.photoCaption}>{caption}</Text>
+    </View>
+  );
+}
+
+export function DamageAssessmentPDF({ order, assessments, user }: DamageAssessmentPDFProps) {
+  const shopName = user?.company_name || order.branch?.name || user?.branch?.name || "Glanz Costumes";
+  const shopAddress = order.branch?.address || user?.branch?.address || "";
+  const shopAddressLines = shopAddress.split("\n").filter((line) => line.trim());
+  const phone = order.branch?.phone || user?.branch?.phone;
+  const logoUrl = order.branch?.logo_url || user?.branch?.logo_url || "/glanz_logo.png";
+
+  const assessedAt = assessments.reduce(
+    (latest, assessment) => (assessment.assessed_at > latest ? assessment.assessed_at : latest),
+    assessments[0]?.assessed_at || new Date().toISOString()
+  );
+  const total = assessments.reduce((sum, assessment) => sum + (Number(assessment.total_charge) || 0), 0);
+
+  return (
+    <Document>
+      <Page size="A4" style={styles.page}>
+        {/* Header */}
+        <View style={styles.header}>
+          <View style={styles.headerLeft}>
+            {/* eslint-disable-next-line jsx-a11y/alt-text */}
+            <Image src={logoUrl} style={styles.logo} />
+            <View>
+              <Text style={styles.shopName}>{shopName}</Text>
+              {shopAddressLines.map((line, i) => (
+                <Text key={i} style={styles.shopLine}>{line}</Text>
+              ))}
+              {phone && (
+                <Text style={styles.shopLine}>
+                  Phone: {phone.split(",").map((p) => p.trim()).join(", ")}
+                </Text>
+              )}
+            </View>
+          </View>
+          <View style={styles.headerRight}>
+            <Text style={styles.documentLabel}>DAMAGE REPORT</Text>
+            <Text style={styles.numberText}>{order.invoice_number}</Text>
+            <Text style={styles.dateText}>{formatDate(assessedAt, "dd MMM yyyy")}</Text>
+          </View>
+        </View>
+
+        {/* Customer and rental */}
+        <View style={styles.infoRow}>
+          <View style={styles.infoBlock}>
+            <Text style={styles.sectionLabel}>Customer</Text>
+            <Text style={styles.customerName}>{order.customer?.name || "N/A"}</Text>
+            {order.customer?.phone && <Text style={styles.infoText}>{order.customer.phone}</Text>}
+          </View>
+          <View style={styles.infoBlock}>
+            <Text style={styles.sectionLabel}>Rental</Text>
+            <Text style={styles.infoText}>Invoice No: {order.invoice_number}</Text>
+            <Text style={styles.infoText}>
+              Period: {formatDate(order.start_date, "dd MMM yyyy")} - {formatDate(order.end_date, "dd MMM yyyy")}
+            </Text>
+          </View>
+        </View>
+
+        {/* One block per damaged item */}
+        {assessments.map((assessment) => {
+          const item = order.items?.find((i) => i.id === assessment.order_item_id);
+          const lines = assessment.lines || [];
+
+          return (
+            <View key={assessment.id} style={styles.itemBlock} wrap={false}>
+              <Text style={styles.itemTitle}>
+                {item?.product_name || "Item"}
+                {item && item.quantity > 1 ? ` x ${item.quantity}` : ""}
+              </Text>
+
+              <View style={styles.photoRow}>
+                <PhotoBox src={item?.photo_url} caption="At pickup" />
+                <PhotoBox src={assessment.after_photo_url} caption="At return" />
+              </View>
+
+              {lines.length > 0 && (
+                <>
+                  <View style={styles.tableHeader}>
+                    <Text style={[styles.tableHeaderText, styles.cellDescription]}>Damage</Text>
+                    <Text style={[styles.tableHeaderText, styles.cellAmount]}>Charge</Text>
+                  </View>
+                  {lines.map((line) => (
+                    <View key={line.id} style={styles.tableRow}>
+                      <View style={styles.cellDescription}>
+                        <Text>{line.name}</Text>
+                        {line.note && <Text style={styles.cellNote}>{line.note}</Text>}
+                      </View>
+                      <Text style={styles.cellAmount}>{formatRs(Number(line.charge))}</Text>
+                    </View>
+                  ))}
+                </>
+              )}
+
+              <View style={styles.itemTotalRow}>
+                <Text style={styles.summaryLabel}>Item total: </Text>
+                <Text style={styles.summaryValue}>{formatRs(Number(assessment.total_charge))}</Text>
+              </View>
+            </View>
+          );
+        })}
+
+        <View style={styles.summary}>
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Total Damage Charges</Text>
+            <Text style={styles.totalValue}>{formatRs(total)}</Text>
+          </View>
+        </View>
+
+        {/* Footer */}
+        <View style={styles.footer}>
+          <Text style={styles.footerNote}>
+            These charges are added to invoice {order.invoice_number} as damage fees and may be deducted from the
+            security deposit.
+          </Text>
+          <View style={styles.signatureBlock}>
+            <View style={styles.signatureLine} />
+            <Text style={styles.signatureText}>Customer Signature</Text>
+          </View>
+        </View>
+      </Page>
+    </Document>
+  );
+}
+
+/**
+ * Generate and download the damage assessment PDF
+ */
+export async function generateAndDownloadDamageAssessmentPDF(
+  order: Order,
+  assessments: DamageAssessment[],
+  user: User | null
+): Promise<void> {
+  try {
+    const React = await import("react");
+    const { pdf } = await import("@react-pdf/renderer");
+
+    const doc = pdf(React.createElement(DamageAssessmentPDF, { order, assessments, user }) as ReactElement<DocumentProps>);
+    const blob = await doc.toBlob();
+    if (!blob) {
+      throw new Error("Failed to generate PDF blob");
+    }
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `Damage-Report-${order.invoice_number.replace(/\//g, "-")}.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error("Error generating damage assessment PDF:", error);
+    throw error;
+  }
+}
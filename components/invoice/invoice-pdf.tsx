@@ -27,6 +27,7 @@
 import { Document, Page, Text, View, Image, StyleSheet } from "@react-pdf/renderer";
 import type { Order, User, OrderItem } from "@/lib/types";
 import { formatDate } from "@/lib/utils/date";
+import { buildTaxInvoice, getItemHsnSac } from "@/lib/utils/gst";
 
 interface InvoicePDFProps {
   order: Order;
@@ -68,14 +69,14 @@ const CONTENT_WIDTH = A4_WIDTH - (MARGIN * 2); // 547.28px
 // Fixed heights (in points)
 const HEADER_HEIGHT = 100; // Full header on first page
 const CONTINUATION_HEADER_HEIGHT = 50; // Header with logo on continuation pages
-const CUSTOMER_BLOCK_HEIGHT = 60;
+const CUSTOMER_BLOCK_HEIGHT = 72; // Includes GSTIN / place of supply line
 const RENTAL_PERIOD_HEIGHT = 40;
 const TABLE_HEADER_HEIGHT = 30;
 const ROW_HEIGHT = 48; // Fixed height per item row
 const PAGE_NUMBER_HEIGHT = 15;
 
 // Summary section fixed heights - Optimized to prevent blank page
-const TOTALS_SECTION_HEIGHT = 140; // Total Items + Subtotal + CGST + SGST + Total
+const TOTALS_SECTION_HEIGHT = 160; // Total Items + Taxable Value + CGST + SGST (or IGST) + Total + amount in words
 const FOOTER_SECTION_HEIGHT = 120; // Terms + QR + Signature + Disclaimer (tightened spacing)
 const SUMMARY_SECTION_HEIGHT = TOTALS_SECTION_HEIGHT + FOOTER_SECTION_HEIGHT; // 260px total
 
@@ -368,13 +369,20 @@ const styles = StyleSheet.create({
     paddingRight: 4,
   },
   cellName: {
-    width: 238, // Increased from 200 (added 38px from removed Days column)
+    width: 188, // 238 before the HSN/SAC column
     fontSize: 8,
     color: "#111827",
     paddingRight: 6,
     lineHeight: 1.3,
     fontWeight: "500",
   },
+  cellHsn: {
+    width: 50,
+    fontSize: 7.5,
+    color: "#000000",
+    textAlign: "center",
+    fontFamily: "Courier",
+  },
   cellQty: {
     width: 38,
     fontSize: 8,
@@ -440,6 +448,13 @@ const styles = StyleSheet.create({
     color: "#000000",
     fontWeight: "600",
   },
+  amountInWords: {
+    fontSize: 7.5,
+    color: "#000000",
+    fontStyle: "italic",
+    marginTop: 4,
+    textAlign: "right",
+  },
   totalRow: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -566,13 +581,12 @@ const styles = StyleSheet.create({
 
 export function InvoicePDF({ order, user, qrCodeDataUrl }: InvoicePDFProps) {
   const subtotal = order.subtotal || 0;
-  const gstAmount = order.gst_amount || 0;
   const lateFee = order.late_fee || 0;
-  const gstEnabled = user?.gst_enabled ?? false;
-  const gstRate = user?.gst_rate || 5.00;
-  
-  const cgstAmount = gstEnabled && gstAmount > 0 ? gstAmount / 2 : 0;
-  const sgstAmount = gstEnabled && gstAmount > 0 ? gstAmount / 2 : 0;
+  const depositAmount = order.deposit_amount || 0;
+  const taxInvoice = buildTaxInvoice(order, user);
+  // Late and damage fees are billed on top of the invoice value
+  const hasCharges = taxInvoice.invoiceValue !== Math.round(order.total_amount * 100) / 100;
+  const invoiceLabel = taxInvoice.isTaxInvoice ? "TAX INVOICE" : "ORDER";
   
   const allItems = order.items || [];
   
@@ -706,13 +720,13 @@ export function InvoicePDF({ order, user, qrCodeDataUrl }: InvoicePDFProps) {
           {phoneNumbers && (
             <Text style={styles.shopPhone}>Phone: {phoneNumbers}</Text>
           )}
-          {user?.gst_number && (
-            <Text style={styles.shopGstin}>GSTIN: {user.gst_number}</Text>
+          {taxInvoice.supplierGstin && (
+            <Text style={styles.shopGstin}>GSTIN: {taxInvoice.supplierGstin}</Text>
           )}
         </View>
       </View>
       <View style={styles.headerRight}>
-        <Text style={styles.invoiceLabel}>ORDER</Text>
+        <Text style={styles.invoiceLabel}>{invoiceLabel}</Text>
         <Text style={styles.invoiceNumberText}>
           {order.invoice_number || "N/A"}
         </Text>
@@ -748,15 +762,15 @@ export function InvoicePDF({ order, user, qrCodeDataUrl }: InvoicePDFProps) {
           {phoneNumbers && (
             <Text style={styles.continuationShopPhone}>Phone: {phoneNumbers}</Text>
           )}
-          {user?.gst_number && (
+          {taxInvoice.supplierGstin && (
             <Text style={styles.continuationInvoiceText}>
-              GSTIN: {user.gst_number}
+              GSTIN: {taxInvoice.supplierGstin}
             </Text>
           )}
         </View>
       </View>
       <View style={styles.headerRight}>
-        <Text style={styles.invoiceLabel}>ORDER</Text>
+        <Text style={styles.invoiceLabel}>{invoiceLabel}</Text>
         <Text style={styles.continuationInvoiceText}>
           {order.invoice_number || "N/A"}
         </Text>
@@ -801,6 +815,16 @@ export function InvoicePDF({ order, user, qrCodeDataUrl }: InvoicePDFProps) {
       {order.customer?.address && (
         <Text style={styles.customerInfo}>{order.customer.address}</Text>
       )}
+      {(taxInvoice.customerGstin || (taxInvoice.isTaxInvoice && taxInvoice.placeOfSupply)) && (
+        <Text style={styles.customerInfo}>
+          {[
+            taxInvoice.customerGstin && `GSTIN: ${taxInvoice.customerGstin}`,
+            taxInvoice.placeOfSupply && `Place of Supply: ${taxInvoice.placeOfSupply}`,
+          ]
+            .filter(Boolean)
+            .join("  |  ")}
+        </Text>
+      )}
     </View>
   );
 
@@ -849,6 +873,7 @@ export function InvoicePDF({ order, user, qrCodeDataUrl }: InvoicePDFProps) {
             <Text style={styles.cellName}>
               {item.product_name || "Unnamed Product"}
             </Text>
+            <Text style={styles.cellHsn}>{getItemHsnSac(item)}</Text>
             <Text style={styles.cellQty}>{item.quantity}</Text>
             <Text style={styles.cellPrice}>
               {formatRs(item.price_per_day)}
@@ -872,19 +897,35 @@ export function InvoicePDF({ order, user, qrCodeDataUrl }: InvoicePDFProps) {
           <Text style={styles.summaryValue}>{allItems.length}</Text>
         </View>
         <View style={styles.summaryRow}>
-          <Text style={styles.summaryLabel}>Subtotal</Text>
-          <Text style={styles.summaryValue}>{formatRs(subtotal)}</Text>
+          <Text style={styles.summaryLabel}>{taxInvoice.isTaxInvoice ? "Taxable Value" : "Subtotal"}</Text>
+          <Text style={styles.summaryValue}>
+            {formatRs(taxInvoice.isTaxInvoice ? taxInvoice.taxableValue : subtotal)}
+          </Text>
         </View>
-        {gstEnabled && gstAmount > 0 && (
+        {taxInvoice.isTaxInvoice && (taxInvoice.isInterState ? (
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>IGST ({taxInvoice.rate}%)</Text>
+            <Text style={styles.summaryValue}>{formatRs(taxInvoice.igst)}</Text>
+          </View>
+        ) : (
           <>
             <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>CGST ({gstRate / 2}%)</Text>
-              <Text style={styles.summaryValue}>{formatRs(cgstAmount)}</Text>
+              <Text style={styles.summaryLabel}>CGST ({taxInvoice.rate / 2}%)</Text>
+              <Text style={styles.summaryValue}>{formatRs(taxInvoice.cgst)}</Text>
+            </View>
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>SGST ({taxInvoice.rate / 2}%)</Text>
+              <Text style={styles.summaryValue}>{formatRs(taxInvoice.sgst)}</Text>
             </View>
+          </>
+        ))}
+        {hasCharges && (
+          <>
             <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>SGST ({gstRate / 2}%)</Text>
-              <Text style={styles.summaryValue}>{formatRs(sgstAmount)}</Text>
+              <Text style={styles.summaryLabel}>Invoice Value</Text>
+              <Text style={styles.summaryValue}>{formatRs(taxInvoice.invoiceValue)}</Text>
             </View>
+            <Text style={[styles.amountInWords, { marginTop: 0, marginBottom: 6 }]}>{taxInvoice.amountInWords}</Text>
           </>
         )}
         {lateFee > 0 && (
@@ -899,6 +940,13 @@ export function InvoicePDF({ order, user, qrCodeDataUrl }: InvoicePDFProps) {
           <Text style={styles.totalLabel}>Total Amount</Text>
           <Text style={styles.totalValue}>{formatRs(order.total_amount)}</Text>
         </View>
+        {!hasCharges && <Text style={styles.amountInWords}>{taxInvoice.amountInWords}</Text>}
+        {depositAmount > 0 && (
+          <View style={[styles.summaryRow, { marginTop: 4 }]}>
+            <Text style={styles.summaryLabel}>Security Deposit (refundable)</Text>
+            <Text style={styles.summaryValue}>{formatRs(depositAmount)}</Text>
+          </View>
+        )}
       </View>
       
       {/* Footer with Terms + QR + Disclaimer - All atomic, must stay together */}
@@ -980,6 +1028,7 @@ export function InvoicePDF({ order, user, qrCodeDataUrl }: InvoicePDFProps) {
                   <Text style={[styles.tableHeaderText, styles.cellSlNo]}>Sl. No.</Text>
                   <Text style={[styles.tableHeaderText, styles.cellPhoto]}>Photo</Text>
                   <Text style={[styles.tableHeaderText, styles.cellName]}>Product Name</Text>
+                  <Text style={[styles.tableHeaderText, styles.cellHsn]}>HSN/SAC</Text>
                   <Text style={[styles.tableHeaderText, styles.cellQty]}>Qty</Text>
                   <Text style={[styles.tableHeaderText, styles.cellPrice]}>Price</Text>
                   <Text style={[styles.tableHeaderText, styles.cellTotal]}>Total</Text>
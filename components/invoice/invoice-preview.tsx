@@ -2,6 +2,7 @@
 
 import { formatCurrency, formatDate } from "@/lib/utils/date";
 import type { Order, User } from "@/lib/types";
+import { buildTaxInvoice, getItemHsnSac } from "@/lib/utils/gst";
 import { QRCodeSVG } from "qrcode.react";
 
 interface InvoicePreviewProps {
@@ -23,10 +24,11 @@ function formatCurrencyNumber(amount: number | null | undefined): string {
 
 export function InvoicePreview({ order, user, onClose }: InvoicePreviewProps) {
   const subtotal = order.subtotal || 0;
-  const gstAmount = order.gst_amount || 0;
   const lateFee = order.late_fee || 0;
-  const gstEnabled = user?.gst_enabled ?? false;
-  const gstRate = user?.gst_rate || 5.00;
+  const depositAmount = order.deposit_amount || 0;
+  const taxInvoice = buildTaxInvoice(order, user);
+  // Late and damage fees are billed on top of the invoice value
+  const hasCharges = taxInvoice.invoiceValue !== Math.round(order.total_amount * 100) / 100;
   
   // Limit items to 12 per page (matching PDF)
   const displayItems = (order.items || []).slice(0, 12);
@@ -137,6 +139,18 @@ export function InvoicePreview({ order, user, onClose }: InvoicePreviewProps) {
                 </p>
               );
             })()}
+            {taxInvoice.supplierGstin && (
+              <p 
+                style={{
+                  fontSize: "8.5pt",
+                  color: "#000000",
+                  marginTop: "4px",
+                  fontWeight: "600"
+                }}
+              >
+                GSTIN: {taxInvoice.supplierGstin}
+              </p>
+            )}
           </div>
 
           {/* Right: Invoice Info */}
@@ -155,7 +169,7 @@ export function InvoicePreview({ order, user, onClose }: InvoicePreviewProps) {
                 letterSpacing: "0.5px"
               }}
             >
-              ORDER
+              {taxInvoice.isTaxInvoice ? "TAX INVOICE" : "ORDER"}
             </p>
             <p 
               style={{
@@ -232,6 +246,28 @@ export function InvoicePreview({ order, user, onClose }: InvoicePreviewProps) {
             {order.customer.address}
           </p>
         )}
+        {taxInvoice.customerGstin && (
+          <p 
+            style={{
+              fontSize: "8.5pt",
+              color: "#000000",
+              marginTop: "3px"
+            }}
+          >
+            GSTIN: {taxInvoice.customerGstin}
+          </p>
+        )}
+        {taxInvoice.isTaxInvoice && taxInvoice.placeOfSupply && (
+          <p 
+            style={{
+              fontSize: "8.5pt",
+              color: "#000000",
+              marginTop: "3px"
+            }}
+          >
+            Place of Supply: {taxInvoice.placeOfSupply}
+          </p>
+        )}
       </div>
 
       {/* Clean Products Table */}
@@ -251,10 +287,11 @@ export function InvoicePreview({ order, user, onClose }: InvoicePreviewProps) {
         >
           <div className="w-[5%] text-center">#</div>
           <div className="w-[10%]">Photo</div>
-          <div className="w-[35%]">Product Name</div>
+          <div className="w-[27%]">Product Name</div>
+          <div className="w-[10%] text-center">HSN/SAC</div>
           <div className="w-[8%] text-center">Qty</div>
-          <div className="w-[21%] text-right pr-2">Price</div>
-          <div className="w-[21%] text-right">Total</div>
+          <div className="w-[20%] text-right pr-2">Price</div>
+          <div className="w-[20%] text-right">Total</div>
         </div>
 
         {/* Table Rows - Clean */}
@@ -300,7 +337,7 @@ export function InvoicePreview({ order, user, onClose }: InvoicePreviewProps) {
                   </div>
                 )}
               </div>
-              <div className="w-[35%] flex items-center pr-2">
+              <div className="w-[27%] flex items-center pr-2">
                 <p 
                   style={{
                     color: "#111827",
@@ -311,15 +348,20 @@ export function InvoicePreview({ order, user, onClose }: InvoicePreviewProps) {
                   {item.product_name || "Unnamed Product"}
                 </p>
               </div>
+              <div className="w-[10%] flex items-center justify-center">
+                <span style={{ color: "#000000", fontSize: "8pt", fontFamily: "monospace" }}>
+                  {getItemHsnSac(item)}
+                </span>
+              </div>
               <div className="w-[8%] flex items-center justify-center">
                 <span style={{ color: "#000000", fontWeight: "600" }}>{item.quantity}</span>
               </div>
-              <div className="w-[21%] flex items-center justify-end pr-2">
+              <div className="w-[20%] flex items-center justify-end pr-2">
                 <span style={{ color: "#000000", fontWeight: "500" }}>
                   {`₹${formatCurrencyNumber(item.price_per_day)}`}
                 </span>
               </div>
-              <div className="w-[21%] flex items-center justify-end">
+              <div className="w-[20%] flex items-center justify-end">
                 <span style={{ color: "#000000", fontWeight: "700", fontSize: "9pt" }}>
                   {`₹${formatCurrencyNumber(item.line_total)}`}
                 </span>
@@ -362,12 +404,12 @@ export function InvoicePreview({ order, user, onClose }: InvoicePreviewProps) {
             paddingBottom: "8px"
           }}
         >
-          <span style={{ color: "#000000" }}>Subtotal</span>
+          <span style={{ color: "#000000" }}>{taxInvoice.isTaxInvoice ? "Taxable Value" : "Subtotal"}</span>
           <span style={{ color: "#000000", fontWeight: "600" }}>
-            {`₹${formatCurrencyNumber(subtotal)}`}
+            {`₹${formatCurrencyNumber(taxInvoice.isTaxInvoice ? taxInvoice.taxableValue : subtotal)}`}
           </span>
         </div>
-        {gstEnabled && gstAmount > 0 && (
+        {taxInvoice.isTaxInvoice && (taxInvoice.isInterState ? (
           <div 
             className="flex justify-between py-2"
             style={{ 
@@ -377,11 +419,71 @@ export function InvoicePreview({ order, user, onClose }: InvoicePreviewProps) {
               paddingBottom: "8px"
             }}
           >
-            <span style={{ color: "#000000" }}>GST ({gstRate}%)</span>
+            <span style={{ color: "#000000" }}>IGST ({taxInvoice.rate}%)</span>
             <span style={{ color: "#000000", fontWeight: "600" }}>
-              {`₹${formatCurrencyNumber(gstAmount)}`}
+              {`₹${formatCurrencyNumber(taxInvoice.igst)}`}
             </span>
           </div>
+        ) : (
+          <>
+            <div 
+              className="flex justify-between py-2"
+              style={{ 
+                marginBottom: "8px", 
+                fontSize: "8.5pt",
+                borderBottom: "1px solid #e5e7eb",
+                paddingBottom: "8px"
+              }}
+            >
+              <span style={{ color: "#000000" }}>CGST ({taxInvoice.rate / 2}%)</span>
+              <span style={{ color: "#000000", fontWeight: "600" }}>
+                {`₹${formatCurrencyNumber(taxInvoice.cgst)}`}
+              </span>
+            </div>
+            <div 
+              className="flex justify-between py-2"
+              style={{ 
+                marginBottom: "8px", 
+                fontSize: "8.5pt",
+                borderBottom: "1px solid #e5e7eb",
+                paddingBottom: "8px"
+              }}
+            >
+              <span style={{ color: "#000000" }}>SGST ({taxInvoice.rate / 2}%)</span>
+              <span style={{ color: "#000000", fontWeight: "600" }}>
+                {`₹${formatCurrencyNumber(taxInvoice.sgst)}`}
+              </span>
+            </div>
+          </>
+        ))}
+        {hasCharges && (
+          <>
+            <div 
+              className="flex justify-between py-2"
+              style={{ 
+                fontSize: "8.5pt",
+                borderBottom: "1px solid #e5e7eb",
+                paddingBottom: "8px"
+              }}
+            >
+              <span style={{ color: "#000000", fontWeight: "500" }}>Invoice Value</span>
+              <span style={{ color: "#000000", fontWeight: "600" }}>
+                {`₹${formatCurrencyNumber(taxInvoice.invoiceValue)}`}
+              </span>
+            </div>
+            <p 
+              style={{
+                fontSize: "7.5pt",
+                color: "#000000",
+                fontStyle: "italic",
+                textAlign: "right",
+                marginTop: "4px",
+                marginBottom: "8px"
+              }}
+            >
+              {taxInvoice.amountInWords}
+            </p>
+          </>
         )}
         {lateFee > 0 && (
           <div 
@@ -489,6 +591,35 @@ export function InvoicePreview({ order, user, onClose }: InvoicePreviewProps) {
             {`₹${formatCurrencyNumber(order.total_amount)}`}
           </span>
         </div>
+        {!hasCharges && (
+          <p 
+            style={{
+              fontSize: "7.5pt",
+              color: "#000000",
+              fontStyle: "italic",
+              textAlign: "right",
+              marginTop: "4px"
+            }}
+          >
+            {taxInvoice.amountInWords}
+          </p>
+        )}
+        {depositAmount > 0 && (
+          <div 
+            className="flex justify-between py-2"
+            style={{ 
+              marginTop: "8px", 
+              fontSize: "8.5pt",
+              borderTop: "1px dashed #e5e7eb",
+              paddingTop: "8px"
+            }}
+          >
+            <span style={{ color: "#000000", fontWeight: "500" }}>Security Deposit (refundable)</span>
+            <span style={{ color: "#000000", fontWeight: "600" }}>
+              {`₹${formatCurrencyNumber(depositAmount)}`}
+            </span>
+          </div>
+        )}
       </div>
 
       {/* Clean Footer */}
@@ -5,6 +5,9 @@ import { MessageCircle, Download } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import type { Order, User } from "@/lib/types";
+import { buildTaxInvoice } from "@/lib/utils/gst";
+import { formatDateTime } from "@/lib/utils/date";
+import { useCreateOrderStatusLink } from "@/lib/queries/orders";
 import { generateAndDownloadPDF } from "./invoice-pdf";
 import { useToast } from "@/components/ui/toast";
 
@@ -18,6 +21,51 @@ interface InvoiceShareProps {
 export function InvoiceShare({ order, user, showInvoice: externalShowInvoice, onShowInvoiceChange }: InvoiceShareProps) {
   const [isGenerating, setIsGenerating] = useState(false);
   const { showToast } = useToast();
+  const createStatusLinkMutation = useCreateOrderStatusLink();
+  const companyName = user?.company_name || "Glanz Costumes";
+
+  // Full order summary, used when a status link can't be created
+  const buildOrderSummaryText = () => {
+    let itemsText = "";
+    if (order.items && order.items.length > 0) {
+      itemsText = "\n*Items:*\n";
+      order.items.forEach((item, index) => {
+        itemsText += `${index + 1}. ${item.product_name || "Unnamed Product"}\n`;
+        itemsText += `   Price: ₹${item.price_per_day.toLocaleString()}\n`;
+        itemsText += `   Quantity: ${item.quantity}\n`;
+        itemsText += `   Total: ₹${item.line_total.toLocaleString()}\n\n`;
+      });
+    }
+
+    const subtotal = order.subtotal || 0;
+    const lateFee = order.late_fee || 0;
+    const taxInvoice = buildTaxInvoice(order, user);
+
+    let invoiceText = `*${companyName} - Order*\n\n` +
+      `*Order Number:* ${order.invoice_number}\n` +
+      `*Customer:* ${order.customer?.name || "N/A"}\n` +
+      `*Date:* ${new Date(order.created_at).toLocaleDateString()}\n\n` +
+      itemsText +
+      `*Summary:*\n` +
+      `Subtotal: ₹${subtotal.toLocaleString()}\n`;
+
+    // Only include GST in WhatsApp message if enabled and amount > 0
+    if (taxInvoice.isTaxInvoice) {
+      if (taxInvoice.isInterState) {
+        invoiceText += `IGST (${taxInvoice.rate}%): ₹${taxInvoice.igst.toLocaleString()}\n`;
+      } else {
+        invoiceText += `CGST (${taxInvoice.rate / 2}%): ₹${taxInvoice.cgst.toLocaleString()}\n`;
+        invoiceText += `SGST (${taxInvoice.rate / 2}%): ₹${taxInvoice.sgst.toLocaleString()}\n`;
+      }
+    }
+
+    if (lateFee > 0) {
+      invoiceText += `Late Fee: ₹${lateFee.toLocaleString()}\n`;
+    }
+
+    return invoiceText + `\n*Final Total Amount: ₹${order.total_amount.toLocaleString()}*\n\n` +
+      `Thank you for your business!`;
+  };
 
   const shareOnWhatsApp = async () => {
     const customerPhone = order.customer?.phone?.replace(/\D/g, "") || "";
@@ -32,54 +80,34 @@ export function InvoiceShare({ order, user, showInvoice: externalShowInvoice, on
     }
 
     setIsGenerating(true);
+    // Open the tab before the async call so it isn't blocked as a popup
+    const whatsappWindow = window.open("", "_blank");
     try {
-      // Build items list
-      let itemsText = "";
-      if (order.items && order.items.length > 0) {
-        itemsText = "\n*Items:*\n";
-        order.items.forEach((item, index) => {
-          itemsText += `${index + 1}. ${item.product_name || "Unnamed Product"}\n`;
-          itemsText += `   Price: ₹${item.price_per_day.toLocaleString()}\n`;
-          itemsText += `   Quantity: ${item.quantity}\n`;
-          itemsText += `   Total: ₹${item.line_total.toLocaleString()}\n\n`;
-        });
-      }
-
-      const subtotal = order.subtotal || 0;
-      const gstAmount = order.gst_amount || 0;
-      const lateFee = order.late_fee || 0;
-      const gstEnabled = user?.gst_enabled ?? false;
-      const gstRate = user?.gst_rate || 5.00;
-
-      // Generate invoice text with detailed items
-      const companyName = user?.company_name || "Glanz Costumes";
-      let invoiceText = `*${companyName} - Order*\n\n` +
-        `*Order Number:* ${order.invoice_number}\n` +
-        `*Customer:* ${order.customer?.name || "N/A"}\n` +
-        `*Date:* ${new Date(order.created_at).toLocaleDateString()}\n\n` +
-        itemsText +
-        `*Summary:*\n` +
-        `Subtotal: ₹${subtotal.toLocaleString()}\n`;
-
-      // Only include GST in WhatsApp message if enabled and amount > 0
-      if (gstEnabled && gstAmount > 0) {
-        invoiceText += `GST (${gstRate}%): ₹${gstAmount.toLocaleString()}\n`;
+      let invoiceText: string;
+      try {
+        const { url } = await createStatusLinkMutation.mutateAsync(order.id);
+        invoiceText = `Hi ${order.customer?.name || ""},\n\n` +
+          `Your order *${order.invoice_number}* with ${companyName} is due back on ` +
+          `*${formatDateTime(order.end_datetime || order.end_date)}*.\n\n` +
+          `View your items, due date and balance, and pay by UPI:\n${url}\n\n` +
+          `Thank you for your business!`;
+      } catch (error) {
+        console.error("Error creating order status link:", error);
+        invoiceText = buildOrderSummaryText();
       }
 
-      if (lateFee > 0) {
-        invoiceText += `Late Fee: ₹${lateFee.toLocaleString()}\n`;
-      }
-
-      invoiceText += `\n*Final Total Amount: ₹${order.total_amount.toLocaleString()}*\n\n` +
-        `Thank you for your business!`;
-
       // Open WhatsApp with pre-filled message
       const whatsappUrl = `https://wa.me/91${customerPhone}?text=${encodeURIComponent(invoiceText)}`;
-      window.open(whatsappUrl, "_blank");
+      if (whatsappWindow) {
+        whatsappWindow.location.href = whatsappUrl;
+      } else {
+        window.open(whatsappUrl, "_blank");
+      }
       
       showToast("Opening WhatsApp...", "info");
     } catch (error) {
       console.error("Error sharing on WhatsApp:", error);
+      whatsappWindow?.close();
       showToast("Failed to open WhatsApp", "error");
     } finally {
       setIsGenerating(false);
@@ -8,6 +8,7 @@ import {
   FileText,
   Users,
   BarChart3,
+  Package,
   Building2,
   UserCog,
   UserCircle,
@@ -15,11 +16,21 @@ import {
   Calendar,
   ChevronDown,
   Sparkles,
+  ShieldCheck,
+  ClipboardCheck,
+  CalendarCheck,
+  Wallet,
+  Shirt,
+  AlertTriangle,
+  type LucideIcon,
 } from "lucide-react";
 import { cn } from "@/lib/utils/cn";
 import { useUserStore } from "@/lib/stores/useUserStore";
+import { hasPermission } from "@/lib/utils/permissions";
+import type { Permission } from "@/lib/types";
 import { createClient } from "@/lib/supabase/client";
 import { useBranches } from "@/lib/queries/branches";
+import { usePendingApprovalCount } from "@/lib/queries/approvals";
 import { useState, useEffect } from "react";
 import { getMainBranch, getMainBranchId } from "@/lib/utils/branches";
 
@@ -28,6 +39,9 @@ const baseMenuItems = [
   { href: "/orders", icon: FileText, label: "Orders" },
   { href: "/calendar", icon: Calendar, label: "Calendar" },
   { href: "/customers", icon: Users, label: "Customers" },
+  { href: "/day-close", icon: CalendarCheck, label: "Day Close" },
+  { href: "/maintenance", icon: Shirt, label: "Maintenance" },
+  { href: "/expenses", icon: Wallet, label: "Expenses" },
 ];
 
 // Dashboard - only for super_admin and branch_admin
@@ -38,7 +52,33 @@ const dashboardMenuItem = {
   roles: ["super_admin", "branch_admin"] as const,
 };
 
-const adminMenuItems = [
+interface AdminMenuItem {
+  href: string;
+  icon: LucideIcon;
+  label: string;
+  role?: string | string[];
+  permission?: Permission;
+}
+
+const adminMenuItems: AdminMenuItem[] = [
+  {
+    href: "/reports",
+    icon: BarChart3,
+    label: "Reports",
+    permission: "view_reports",
+  },
+  {
+    href: "/approvals",
+    icon: ClipboardCheck,
+    label: "Approvals",
+    role: ["super_admin", "branch_admin"],
+  },
+  {
+    href: "/products",
+    icon: Package,
+    label: "Products",
+    role: ["super_admin", "branch_admin"],
+  },
   {
     href: "/branches",
     icon: Building2,
@@ -49,7 +89,19 @@ const adminMenuItems = [
     href: "/staff",
     icon: UserCog,
     label: "Staff",
-    role: ["super_admin", "branch_admin"],
+    permission: "manage_staff",
+  },
+  {
+    href: "/roles",
+    icon: ShieldCheck,
+    label: "Roles",
+    role: "super_admin",
+  },
+  {
+    href: "/damage-types",
+    icon: AlertTriangle,
+    label: "Damage Types",
+    role: "super_admin",
   },
 ];
 
@@ -188,6 +240,8 @@ export function DesktopSidebar() {
   const router = useRouter();
   const queryClient = useQueryClient();
   const { user, clearUser } = useUserStore();
+  const isAdmin = user?.role === "super_admin" || user?.role === "branch_admin";
+  const { data: pendingApprovalCount = 0 } = usePendingApprovalCount(user?.branch_id || null, isAdmin);
   const supabase = createClient();
 
   // Prefetch data on link hover for ultra-fast navigation
@@ -220,7 +274,8 @@ export function DesktopSidebar() {
     router.push("/login");
   };
 
-  const canAccess = (item: typeof adminMenuItems[0]) => {
+  const canAccess = (item: AdminMenuItem) => {
+    if (item.permission) return hasPermission(user, item.permission);
     if (!item.role) return true;
     if (Array.isArray(item.role)) {
       return item.role.includes(user?.role || "");
@@ -375,6 +430,16 @@ export function DesktopSidebar() {
                       strokeWidth={isActive ? 2.5 : 2}
                     />
                     <span className="text-sm font-medium">{item.label}</span>
+                    {item.href === "/approvals" && pendingApprovalCount > 0 && (
+                      <span
+                        className={cn(
+                          "ml-auto min-w-[20px] h-5 px-1.5 rounded-full text-xs font-bold flex items-center justify-center",
+                          isActive ? "bg-white text-[#273492] mr-5" : "bg-[#e7342f] text-white"
+                        )}
+                      >
+                        {pendingApprovalCount}
+                      </span>
+                    )}
                     {isActive && (
                       <div className="absolute right-2 top-1/2 -translate-y-1/2">
                         <Sparkles className="h-3 w-3 text-white/80 animate-pulse" />
@@ -7,6 +7,7 @@ import {
   ShoppingBag,
   Users,
   BarChart3,
+  Package,
   Building2,
   UserCog,
   User,
@@ -14,12 +15,22 @@ import {
   X,
   Calendar,
   ChevronDown,
+  ShieldCheck,
+  ClipboardCheck,
+  CalendarCheck,
+  Wallet,
+  Shirt,
+  AlertTriangle,
+  type LucideIcon,
 } from "lucide-react";
 import { cn } from "@/lib/utils/cn";
 import { useUserStore } from "@/lib/stores/useUserStore";
+import { hasPermission } from "@/lib/utils/permissions";
+import type { Permission } from "@/lib/types";
 import { createClient } from "@/lib/supabase/client";
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { useBranches } from "@/lib/queries/branches";
+import { usePendingApprovalCount } from "@/lib/queries/approvals";
 import { useState, useEffect } from "react";
 import { useQueryClient } from "@tanstack/react-query";
 import { getMainBranch, getMainBranchId } from "@/lib/utils/branches";
@@ -29,6 +40,9 @@ const baseMenuItems = [
   { href: "/orders", icon: ShoppingBag, label: "Orders" },
   { href: "/calendar", icon: Calendar, label: "Calendar" },
   { href: "/customers", icon: Users, label: "Customers" },
+  { href: "/day-close", icon: CalendarCheck, label: "Day Close" },
+  { href: "/maintenance", icon: Shirt, label: "Maintenance" },
+  { href: "/expenses", icon: Wallet, label: "Expenses" },
 ];
 
 // Dashboard - only for super_admin and branch_admin
@@ -39,7 +53,33 @@ const dashboardMenuItem = {
   roles: ["super_admin", "branch_admin"] as const,
 };
 
-const adminMenuItems = [
+interface AdminMenuItem {
+  href: string;
+  icon: LucideIcon;
+  label: string;
+  role?: string | string[];
+  permission?: Permission;
+}
+
+const adminMenuItems: AdminMenuItem[] = [
+  {
+    href: "/reports",
+    icon: BarChart3,
+    label: "Reports",
+    permission: "view_reports",
+  },
+  {
+    href: "/approvals",
+    icon: ClipboardCheck,
+    label: "Approvals",
+    role: ["super_admin", "branch_admin"],
+  },
+  {
+    href: "/products",
+    icon: Package,
+    label: "Products",
+    role: ["super_admin", "branch_admin"],
+  },
   {
     href: "/branches",
     icon: Building2,
@@ -50,7 +90,19 @@ const adminMenuItems = [
     href: "/staff",
     icon: UserCog,
     label: "Staff",
-    role: ["super_admin", "branch_admin"],
+    permission: "manage_staff",
+  },
+  {
+    href: "/roles",
+    icon: ShieldCheck,
+    label: "Roles",
+    role: "super_admin",
+  },
+  {
+    href: "/damage-types",
+    icon: AlertTriangle,
+    label: "Damage Types",
+    role: "super_admin",
   },
 ];
 
@@ -186,6 +238,8 @@ export function MobileSidebar({ open, onOpenChange }: MobileSidebarProps) {
   const pathname = usePathname();
   const router = useRouter();
   const { user, clearUser } = useUserStore();
+  const isAdmin = user?.role === "super_admin" || user?.role === "branch_admin";
+  const { data: pendingApprovalCount = 0 } = usePendingApprovalCount(user?.branch_id || null, isAdmin);
   const supabase = createClient();
 
   const handleLogout = async () => {
@@ -195,7 +249,8 @@ export function MobileSidebar({ open, onOpenChange }: MobileSidebarProps) {
     onOpenChange(false);
   };
 
-  const canAccess = (item: typeof adminMenuItems[0]) => {
+  const canAccess = (item: AdminMenuItem) => {
+    if (item.permission) return hasPermission(user, item.permission);
     if (!item.role) return true;
     if (Array.isArray(item.role)) {
       return item.role.includes(user?.role || "");
@@ -319,6 +374,16 @@ export function MobileSidebar({ open, onOpenChange }: MobileSidebarProps) {
                     >
                       <Icon className="h-5 w-5 flex-shrink-0" />
                       <span className="text-sm">{item.label}</span>
+                      {item.href === "/approvals" && pendingApprovalCount > 0 && (
+                        <span
+                          className={cn(
+                            "ml-auto min-w-[20px] h-5 px-1.5 rounded-full text-xs font-bold flex items-center justify-center",
+                            isActive ? "bg-white text-[#273492]" : "bg-[#e7342f] text-white"
+                          )}
+                        >
+                          {pendingApprovalCount}
+                        </span>
+                      )}
                     </Link>
                   );
                 })}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { CloudOff } from "lucide-react";
+import { formatDateTime } from "@/lib/utils/date";
+
+function subscribeToConnection(onChange: () => void) {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+}
+
+/**
+ * Banner shown while the app is offline or showing data the service worker
+ * served from its cache, with the time that data was fetched
+ */
+export function OfflineIndicator() {
+  const isOnline = useSyncExternalStore(
+    subscribeToConnection,
+    () => navigator.onLine,
+    () => true
+  );
+  // Oldest cached response shown since the connection dropped
+  const [dataAsOf, setDataAsOf] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!("serviceWorker" in navigator)) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === "data-from-cache" && event.data.cachedAt) {
+        const cachedAt: string = event.data.cachedAt;
+        setDataAsOf((current) => (current && current < cachedAt ? current : cachedAt));
+      } else if (event.data?.type === "data-fresh") {
+        setDataAsOf(null);
+      }
+    };
+    const handleOnline = () => setDataAsOf(null);
+
+    navigator.serviceWorker.addEventListener("message", handleMessage);
+    window.addEventListener("online", handleOnline);
+    return () => {
+      navigator.serviceWorker.removeEventListener("message", handleMessage);
+      window.removeEventListener("online", handleOnline);
+    };
+  }, []);
+
+  if (isOnline && !dataAsOf) return null;
+
+  return (
+    <div
+      role="status"
+      className="flex items-center justify-center gap-2 px-4 py-1.5 bg-amber-100 text-amber-900 text-xs font-medium border-b border-amber-200"
+    >
+      <CloudOff className="h-3.5 w-3.5 flex-shrink-0" />
+      <span>
+        {isOnline ? "Can't reach the server" : "Offline"}
+        {dataAsOf ? ` – data as of ${formatDateTime(dataAsOf)}` : " – showing data saved on this device"}
+      </span>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { Camera, X, AlertCircle, CheckCircle2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { createClient } from "@/lib/supabase/client";
 import { compressImage, createPreviewUrl, revokePreviewUrl } from "@/lib/utils/image-compression";
+import { isNetworkError, savePendingPhoto, uploadOrderItemPhoto } from "@/lib/offline/photos";
 import { useToast } from "@/components/ui/toast";
 
 export type UploadStatus = "idle" | "uploading" | "completed" | "failed";
@@ -21,9 +22,12 @@ interface CameraUploadProps {
   onUploadComplete: (result: UploadResult) => void;
   currentUrl?: string;
   disabled?: boolean;
+  // Where the compressed photo goes; defaults to order item photos (with offline support)
+  upload?: (file: File) => Promise<string>;
+  alt?: string;
 }
 
-export function CameraUpload({ onUploadComplete, currentUrl, disabled = false }: CameraUploadProps) {
+export function CameraUpload({ onUploadComplete, currentUrl, disabled = false, upload, alt = "Product" }: CameraUploadProps) {
   const [uploadStatus, setUploadStatus] = useState<UploadStatus>("idle");
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [uploadError, setUploadError] = useState<string | null>(null);
@@ -81,35 +85,25 @@ export function CameraUpload({ onUploadComplete, currentUrl, disabled = false }:
           compressedFile = file;
         }
 
-        // Generate unique filename
-        const timestamp = Date.now();
-        const random = Math.random().toString(36).substring(7);
-        const fileName = `${timestamp}-${random}.jpg`;
-        const filePath = `order-items/${fileName}`;
-
-        // Upload to Supabase Storage with optimized settings
-        const { error: uploadError } = await supabase.storage
-          .from("order-items")
-          .upload(filePath, compressedFile, {
-            cacheControl: "31536000",
-            upsert: false,
-            contentType: "image/jpeg",
-          });
-
-        if (uploadError) {
-          throw new Error(uploadError.message || "Upload failed");
+        // Offline, the photo stays on the device and is uploaded with the
+        // order when the connection returns (lib/offline/outbox.ts)
+        let photoUrl: string;
+        if (upload) {
+          photoUrl = await upload(compressedFile);
+        } else {
+          try {
+            photoUrl = await uploadOrderItemPhoto(supabase, compressedFile);
+          } catch (uploadError) {
+            if (!isNetworkError(uploadError)) throw uploadError;
+            photoUrl = await savePendingPhoto(compressedFile);
+          }
         }
 
-        // Get public URL
-        const {
-          data: { publicUrl },
-        } = supabase.storage.from("order-items").getPublicUrl(filePath);
-
         setUploadStatus("completed");
         revokePreviewUrl(instantPreview);
         setPreviewUrl(null);
         
-        return publicUrl;
+        return photoUrl;
       } catch (error: any) {
         const errorMessage = error.message || "Upload failed. Please try again.";
         setUploadError(errorMessage);
@@ -147,7 +141,7 @@ export function CameraUpload({ onUploadComplete, currentUrl, disabled = false }:
           promise: Promise.reject(error),
         });
       });
-  }, [uploadStatus, showToast, supabase, onUploadComplete]);
+  }, [uploadStatus, showToast, supabase, onUploadComplete, upload]);
 
   const handleRemove = useCallback(() => {
     if (previewUrl) {
@@ -188,7 +182,7 @@ export function CameraUpload({ onUploadComplete, currentUrl, disabled = false }:
         <div className="relative">
           <img
             src={displayUrl}
-            alt="Product"
+            alt={alt}
             className={`w-20 h-20 object-cover rounded-lg border-2 ${
               isUploading ? "border-blue-300" : isFailed ? "border-red-300" : "border-gray-200"
             }`}
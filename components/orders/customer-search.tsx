@@ -12,6 +12,8 @@ import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sh
 import { SimpleCustomerForm } from "./simple-customer-form";
 import { useDebounce } from "@/lib/hooks/use-debounce";
 import { Badge } from "@/components/ui/badge";
+import { CustomerRiskBadge } from "@/components/customers/customer-risk-badge";
+import { assessCustomerRisk } from "@/lib/utils/customer-risk";
 
 interface CustomerSearchProps {
   onSelectCustomer: (customer: Customer) => void;
@@ -63,6 +65,7 @@ const CustomerItem = memo(({
                 ✓ KYC
               </Badge>
             )}
+            <CustomerRiskBadge risk={customer.risk} isBlacklisted={customer.is_blacklisted} />
           </div>
           <div className="flex items-center gap-1.5 mt-0.5">
             <Phone className="h-3.5 w-3.5 text-gray-400 flex-shrink-0" />
@@ -83,6 +86,23 @@ const CustomerItem = memo(({
 
 CustomerItem.displayName = "CustomerItem";
 
+/**
+ * Why the selected customer is flagged, shown under their name
+ */
+function CustomerRiskNote({ customer }: { customer: CustomerWithDues | Customer }) {
+  const risk = "risk" in customer ? customer.risk : undefined;
+  const { level, reasons } = assessCustomerRisk(risk, customer.is_blacklisted);
+  if (level === "none") return null;
+
+  return (
+    <p className={`text-xs mt-1 ${level === "caution" ? "text-amber-700" : "text-red-700"}`}>
+      {level === "blacklisted"
+        ? `Blacklisted${customer.blacklist_reason ? `: ${customer.blacklist_reason}` : ""}`
+        : reasons.join(" · ")}
+    </p>
+  );
+}
+
 export function CustomerSearch({ onSelectCustomer, selectedCustomer }: CustomerSearchProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const [showDropdown, setShowDropdown] = useState(false);
@@ -204,11 +224,16 @@ export function CustomerSearch({ onSelectCustomer, selectedCustomer }: CustomerS
                   {isCustomerVerified(selectedCustomer) && (
                     <CheckCircle2 className="h-4 w-4 text-green-600 flex-shrink-0" />
                   )}
+                  <CustomerRiskBadge
+                    risk={"risk" in selectedCustomer ? (selectedCustomer as CustomerWithDues).risk : undefined}
+                    isBlacklisted={selectedCustomer.is_blacklisted}
+                  />
                 </div>
                 <p className="text-sm text-gray-600 truncate flex items-center gap-1.5 mt-0.5">
                   <Phone className="h-3.5 w-3.5" />
                   {selectedCustomer.phone}
                 </p>
+                <CustomerRiskNote customer={selectedCustomer} />
               </div>
             </div>
             <Button
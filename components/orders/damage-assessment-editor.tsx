@@ -0,0 +1,177 @@
+"use client";
+
+import { useCallback } from "react";
+import { X, ImageOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectItem } from "@/components/ui/select";
+import { CameraUpload, type UploadResult } from "@/components/orders/camera-upload";
+import { createClient } from "@/lib/supabase/client";
+import { uploadOrderItemPhoto } from "@/lib/offline/photos";
+import { getDamageLinesTotal, type DamageLineDraft } from "@/lib/queries/damage";
+import { formatCurrency } from "@/lib/utils/date";
+import type { DamageType } from "@/lib/types";
+
+const OTHER_DAMAGE = "other";
+
+interface DamageAssessmentEditorProps {
+  itemId: string;
+  beforePhotoUrl?: string | null;
+  afterPhotoUrl: string;
+  lines: DamageLineDraft[];
+  damageTypes: DamageType[];
+  disabled?: boolean;
+  onLinesChange: (lines: DamageLineDraft[]) => void;
+  onAfterPhotoChange: (url: string, uploading: boolean) => void;
+  onPhotoClick?: (url: string) => void;
+}
+
+/**
+ * Before (pickup) and after (return) photos side by side, and the damage
+ * found, picked from the catalogue with its default charge.
+ */
+export function DamageAssessmentEditor({
+  itemId,
+  beforePhotoUrl,
+  afterPhotoUrl,
+  lines,
+  damageTypes,
+  disabled = false,
+  onLinesChange,
+  onAfterPhotoChange,
+  onPhotoClick,
+}: DamageAssessmentEditorProps) {
+  // After photos aren't kept offline: the assessment needs them uploaded
+  const upload = useCallback((file: File) => uploadOrderItemPhoto(createClient(), file), []);
+  const handleUpload = useCallback(
+    (result: UploadResult) => {
+      onAfterPhotoChange(result.finalUrl || "", result.status === "uploading");
+    },
+    [onAfterPhotoChange]
+  );
+
+  const handleAdd = (typeId: string) => {
+    if (!typeId) return;
+    const damageType = damageTypes.find((type) => type.id === typeId);
+    onLinesChange([
+      ...lines,
+      damageType
+        ? { damage_type_id: damageType.id, name: damageType.name, charge: Number(damageType.default_charge) || 0, note: "" }
+        : { damage_type_id: null, name: "", charge: 0, note: "" },
+    ]);
+  };
+
+  const updateLine = (index: number, changes: Partial<DamageLineDraft>) => {
+    onLinesChange(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const total = getDamageLinesTotal(lines);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3 max-w-xs">
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">Before</p>
+          {beforePhotoUrl ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={beforePhotoUrl}
+              alt="At pickup"
+              className="w-20 h-20 object-cover rounded-lg border-2 border-gray-200 cursor-pointer hover:opacity-80"
+              onClick={() => onPhotoClick?.(beforePhotoUrl)}
+            />
+          ) : (
+            <div className="w-20 h-20 rounded-lg border-2 border-dashed border-gray-200 flex items-center justify-center">
+              <ImageOff className="h-5 w-5 text-gray-300" />
+            </div>
+          )}
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">After</p>
+          <div className="flex">
+            <CameraUpload
+              onUploadComplete={handleUpload}
+              currentUrl={afterPhotoUrl || undefined}
+              upload={upload}
+              alt="At return"
+              disabled={disabled}
+            />
+          </div>
+        </div>
+      </div>
+
+      {lines.length > 0 && (
+        <div className="space-y-2">
+          {lines.map((line, index) => (
+            <div key={index} className="flex items-start gap-2">
+              <div className="flex-1 grid grid-cols-1 sm:grid-cols-[1fr_1fr_7rem] gap-2">
+                <Input
+                  value={line.name}
+                  onChange={(e) => updateLine(index, { name: e.target.value })}
+                  placeholder="Damage"
+                  aria-label="Damage"
+                  readOnly={!!line.damage_type_id}
+                  className={line.damage_type_id ? "bg-gray-50" : undefined}
+                  disabled={disabled}
+                />
+                <Input
+                  value={line.note}
+                  onChange={(e) => updateLine(index, { note: e.target.value })}
+                  placeholder="Where / details"
+                  aria-label="Details"
+                  disabled={disabled}
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={Number.isNaN(line.charge) ? "" : line.charge}
+                  onChange={(e) => updateLine(index, { charge: e.target.value === "" ? 0 : parseFloat(e.target.value) })}
+                  aria-label="Charge"
+                  disabled={disabled}
+                />
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => onLinesChange(lines.filter((_, i) => i !== index))}
+                disabled={disabled}
+                aria-label="Remove damage"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-3">
+        <div className="w-full sm:w-56">
+          <Label htmlFor={`add-damage-${itemId}`} className="sr-only">
+            Add damage
+          </Label>
+          <Select
+            id={`add-damage-${itemId}`}
+            value=""
+            onChange={(e) => handleAdd(e.target.value)}
+            className="h-9 text-sm"
+            disabled={disabled}
+          >
+            <SelectItem value="">+ Add damage</SelectItem>
+            {damageTypes.map((type) => (
+              <SelectItem key={type.id} value={type.id}>
+                {type.name} ({formatCurrency(type.default_charge)})
+              </SelectItem>
+            ))}
+            <SelectItem value={OTHER_DAMAGE}>Other...</SelectItem>
+          </Select>
+        </div>
+        {lines.length > 0 && (
+          <p className="text-sm font-semibold text-red-600 whitespace-nowrap">Damage: {formatCurrency(total)}</p>
+        )}
+      </div>
+    </div>
+  );
+}
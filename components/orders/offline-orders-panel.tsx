@@ -0,0 +1,129 @@
+"use client";
+
+import Link from "next/link";
+import { AlertTriangle, CheckCircle2, CloudOff, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/toast";
+import { useOrderOutboxStore } from "@/lib/stores/useOrderOutboxStore";
+import { useOfflineOrderSync } from "./order-outbox-sync";
+import { invoiceNumberChanged, type OutboxOrder, type OutboxStatus } from "@/lib/offline/outbox";
+import { formatCurrency, formatDateTime } from "@/lib/utils/date";
+import { getErrorMessage } from "@/lib/utils/error";
+
+const STATUS_BADGES: Record<OutboxStatus, { label: string; className: string }> = {
+  queued: { label: "Queued", className: "bg-amber-100 text-amber-800" },
+  syncing: { label: "Syncing", className: "bg-blue-100 text-blue-800" },
+  synced: { label: "Synced", className: "bg-green-100 text-green-800" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-800" },
+};
+
+/**
+ * Orders saved on this device while offline, above the orders list. Synced
+ * ones link to the real order and drop out after a day.
+ */
+export function OfflineOrdersPanel() {
+  const { showToast } = useToast();
+  const entries = useOrderOutboxStore((state) => state.entries);
+  const isSyncing = useOrderOutboxStore((state) => state.isSyncing);
+  const discard = useOrderOutboxStore((state) => state.discard);
+  const { runSync, retryEntry } = useOfflineOrderSync();
+
+  if (entries.length === 0) return null;
+
+  const queuedCount = entries.filter((entry) => entry.status === "queued").length;
+
+  const handleDiscard = async (entry: OutboxOrder) => {
+    if (entry.status !== "synced" && !confirm(`Discard the offline order for ${entry.customer_name}? It won't be created.`)) {
+      return;
+    }
+    try {
+      await discard(entry.id);
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to discard order"), "error");
+    }
+  };
+
+  return (
+    <Card className="p-4 mb-6 rounded-xl border border-amber-200 bg-white/80 shadow-sm space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+          <CloudOff className="h-4 w-4 text-amber-600" />
+          Saved on this device
+        </p>
+        {queuedCount > 0 && (
+          <Button type="button" size="sm" variant="outline" onClick={runSync} disabled={isSyncing}>
+            {isSyncing ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-1" />}
+            Sync now
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {entries.map((entry) => {
+          const badge = STATUS_BADGES[entry.status];
+          return (
+            <div
+              key={entry.id}
+              className="flex items-start justify-between gap-3 p-3 bg-gray-50 rounded-lg border border-gray-200"
+            >
+              <div className="min-w-0 space-y-0.5">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-sm font-semibold text-gray-900">{entry.customer_name}</span>
+                  <Badge className={`text-xs px-2 py-0.5 ${badge.className}`}>{badge.label}</Badge>
+                  {entry.status === "synced" && entry.invoice_number && (
+                    <span className="text-xs font-mono text-[#273492]">{entry.invoice_number}</span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {entry.input.items.length} item{entry.input.items.length !== 1 ? "s" : ""} ·{" "}
+                  {formatCurrency(entry.input.total_amount)} · saved {formatDateTime(entry.queued_at)}
+                </p>
+                {invoiceNumberChanged(entry) && (
+                  <p className="text-xs text-amber-700 flex items-center gap-1">
+                    <AlertTriangle className="h-3 w-3" />
+                    {entry.provisional_invoice_number} was taken by another order - issued {entry.invoice_number}
+                  </p>
+                )}
+                {entry.error && entry.status !== "synced" && (
+                  <p className={`text-xs ${entry.status === "failed" ? "text-red-700" : "text-gray-500"}`}>
+                    {entry.error}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex items-center gap-1 flex-shrink-0">
+                {entry.status === "synced" && (
+                  <Link
+                    href={`/orders/${entry.id}`}
+                    className="text-xs font-semibold text-[#273492] hover:underline flex items-center gap-1 px-2"
+                  >
+                    <CheckCircle2 className="h-3.5 w-3.5" />
+                    View
+                  </Link>
+                )}
+                {entry.status === "failed" && (
+                  <Button type="button" size="sm" variant="outline" onClick={() => retryEntry(entry.id)} disabled={isSyncing}>
+                    Retry
+                  </Button>
+                )}
+                {entry.status !== "syncing" && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDiscard(entry)}
+                    aria-label={entry.status === "synced" ? "Dismiss" : "Discard"}
+                  >
+                    <Trash2 className="h-4 w-4 text-gray-500" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
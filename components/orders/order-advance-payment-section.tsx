@@ -0,0 +1,62 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PaymentModePicker } from "./payment-mode-picker";
+import { formatCurrency } from "@/lib/utils/date";
+import type { PaymentMode } from "@/lib/types";
+
+interface OrderAdvancePaymentSectionProps {
+  amount: number;
+  mode: PaymentMode;
+  grandTotal: number;
+  onChange: (amount: number, mode: PaymentMode) => void;
+}
+
+/**
+ * Advance payment taken at booking (optional).
+ * Saved to the payments ledger when the order is created.
+ */
+export function OrderAdvancePaymentSection({ amount, mode, grandTotal, onChange }: OrderAdvancePaymentSectionProps) {
+  const balance = Math.max(0, grandTotal - amount);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-lg font-bold text-[#0f1724]">Advance Payment</Label>
+        <span className="text-xs text-gray-500">(Optional)</span>
+      </div>
+      <Input
+        type="number"
+        value={amount === 0 ? "" : amount}
+        onChange={(e) => {
+          const value = e.target.value.trim();
+          if (value === "" || value === "-" || value === ".") {
+            onChange(0, mode);
+            return;
+          }
+          const numValue = parseFloat(value);
+          if (!isNaN(numValue) && numValue >= 0) {
+            onChange(numValue, mode);
+          }
+        }}
+        onFocus={(e) => e.target.select()}
+        placeholder="0"
+        className="h-14 text-base rounded-xl"
+        inputMode="decimal"
+        min="0"
+        step="0.01"
+      />
+      {amount > 0 && (
+        <>
+          <PaymentModePicker value={mode} onChange={(newMode) => onChange(amount, newMode)} />
+          <p className={`text-xs ${amount > grandTotal ? "text-red-600 font-medium" : "text-gray-500"}`}>
+            {amount > grandTotal
+              ? `Advance can't be more than the order total (${formatCurrency(grandTotal)})`
+              : `Balance due at pickup: ${formatCurrency(balance)}`}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { Ban } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { Customer } from "@/lib/types";
+
+interface OrderBlacklistOverrideSectionProps {
+  customer: Customer;
+  canOverride: boolean;
+  reason: string;
+  onReasonChange: (value: string) => void;
+}
+
+/**
+ * Shown when the selected customer is blacklisted. Admins must give a reason
+ * to go ahead; everyone else is told to ask an admin.
+ */
+export function OrderBlacklistOverrideSection({
+  customer,
+  canOverride,
+  reason,
+  onReasonChange,
+}: OrderBlacklistOverrideSectionProps) {
+  return (
+    <div className="space-y-3">
+      <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+        <p className="text-sm font-semibold text-red-700 flex items-center gap-1.5">
+          <Ban className="h-4 w-4" />
+          {customer.name} is blacklisted
+        </p>
+        {customer.blacklist_reason && (
+          <p className="text-xs text-red-700 mt-1">{customer.blacklist_reason}</p>
+        )}
+        {!canOverride && (
+          <p className="text-xs text-red-600 mt-1">
+            Ask an admin to create this order.
+          </p>
+        )}
+      </div>
+      {canOverride && (
+        <div className="space-y-2">
+          <Label htmlFor="blacklist-override-reason" className="text-sm font-semibold text-[#0f1724]">
+            Override Reason
+          </Label>
+          <Textarea
+            id="blacklist-override-reason"
+            value={reason}
+            onChange={(e) => onReasonChange(e.target.value)}
+            placeholder="Why this order is allowed, e.g. paid dues in full"
+            rows={2}
+          />
+          <p className="text-xs text-gray-500">Recorded on the order timeline</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+"use client";
+
+import { useState } from "react";
+import { Download, Plus, ReceiptText } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/toast";
+import { PaymentModePicker } from "./payment-mode-picker";
+import { useUserStore } from "@/lib/stores/useUserStore";
+import { useOrderCreditNotes, CREDIT_NOTE_TYPE_LABELS } from "@/lib/queries/credit-notes";
+import { useIssueRefundCreditNote, isQueuedForApproval } from "@/lib/queries/orders";
+import { formatCurrency, formatDateTime } from "@/lib/utils/date";
+import type { CreditNote, Order, PaymentMode } from "@/lib/types";
+import { getErrorMessage } from "@/lib/utils/error";
+import { getOrderGstSettings } from "@/lib/utils/gst";
+
+interface OrderCreditNotesCardProps {
+  order: Order;
+}
+
+/**
+ * Credit notes issued against the order's invoice.
+ * Cancellations and lowered totals are credited automatically; refunds and
+ * discounts after invoicing are issued from here.
+ */
+export function OrderCreditNotesCard({ order }: OrderCreditNotesCardProps) {
+  const { showToast } = useToast();
+  const { user } = useUserStore();
+  const { data: creditNotes = [], isLoading } = useOrderCreditNotes(order.id);
+  const issueMutation = useIssueRefundCreditNote();
+
+  const [showDialog, setShowDialog] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [paidBack, setPaidBack] = useState(false);
+  const [refundMode, setRefundMode] = useState<PaymentMode>("cash");
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  const canIssue = order.status !== "cancelled" && (order.total_amount || 0) > 0;
+
+  if (!isLoading && creditNotes.length === 0 && !canIssue) {
+    return null;
+  }
+
+  const openDialog = () => {
+    setAmount("");
+    setReason("");
+    setPaidBack(false);
+    setRefundMode("cash");
+    setShowDialog(true);
+  };
+
+  const handleIssue = async () => {
+    const value = parseFloat(amount) || 0;
+    if (value <= 0) {
+      showToast("Enter an amount greater than zero", "error");
+      return;
+    }
+    if (value > (order.total_amount || 0)) {
+      showToast(`Amount is more than the billed total (${formatCurrency(order.total_amount)})`, "error");
+      return;
+    }
+    if (!reason.trim()) {
+      showToast("Enter a reason for the credit note", "error");
+      return;
+    }
+
+    try {
+      const result = await issueMutation.mutateAsync({
+        orderId: order.id,
+        amount: value,
+        reason,
+        gstIncluded: getOrderGstSettings(order, user).included,
+        refundMode: paidBack ? refundMode : null,
+      });
+      setShowDialog(false);
+      if (isQueuedForApproval(result)) {
+        showToast("The refund was sent to a branch admin for approval", "info");
+      } else {
+        showToast(`Credit note ${result.credit_note_number} issued`, "success");
+      }
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to issue credit note"), "error");
+    }
+  };
+
+  const handleDownload = async (creditNote: CreditNote) => {
+    setDownloadingId(creditNote.id);
+    try {
+      const { generateAndDownloadCreditNotePDF } = await import("@/components/invoice/credit-note-pdf");
+      await generateAndDownloadCreditNotePDF(creditNote, order, user);
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to generate PDF"), "error");
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const totalCredited = creditNotes.reduce((sum, note) => sum + (Number(note.total_amount) || 0), 0);
+
+  return (
+    <Card className="p-6 bg-white/80 backdrop-blur-sm border border-gray-200/60 shadow-lg rounded-xl">
+      <div className="flex items-center justify-between mb-5">
+        <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <ReceiptText className="h-5 w-5 text-[#273492]" />
+          Credit Notes
+        </h3>
+        {canIssue && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={openDialog}
+            className="h-8"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Issue
+          </Button>
+        )}
+      </div>
+
+      {!isLoading && creditNotes.length === 0 ? (
+        <p className="text-sm text-gray-500">No credit notes against {order.invoice_number}</p>
+      ) : (
+        <div className="space-y-2">
+          {creditNotes.map((note) => (
+            <div key={note.id} className="flex items-start justify-between gap-2 text-xs">
+              <div className="min-w-0">
+                <p className="font-semibold text-gray-900 font-mono">{note.credit_note_number}</p>
+                <p className="text-gray-600">{CREDIT_NOTE_TYPE_LABELS[note.note_type]}</p>
+                {note.reason && <p className="text-gray-500 truncate">{note.reason}</p>}
+                <p className="text-gray-400">{formatDateTime(note.issued_at)}</p>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <span className="font-semibold text-red-600">-{formatCurrency(note.total_amount)}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDownload(note)}
+                  disabled={downloadingId === note.id}
+                  className="h-7 w-7 p-0"
+                  aria-label={`Download ${note.credit_note_number}`}
+                >
+                  <Download className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          {creditNotes.length > 1 && (
+            <div className="flex items-center justify-between pt-2 border-t border-gray-200/60">
+              <span className="text-sm font-bold text-gray-900">Total Credited</span>
+              <span className="text-sm font-bold text-red-600">{formatCurrency(totalCredited)}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent onClose={() => setShowDialog(false)}>
+          <DialogHeader>
+            <DialogTitle>Issue Credit Note</DialogTitle>
+            <DialogDescription>
+              Refund or discount against {order.invoice_number}. The order total goes down by this amount.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 mt-4">
+            <div className="space-y-2">
+              <Label htmlFor="credit-amount">Amount incl. GST (₹)</Label>
+              <Input
+                id="credit-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0"
+                inputMode="decimal"
+              />
+              <p className="text-xs text-gray-500">Billed total: {formatCurrency(order.total_amount)}</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="credit-reason">Reason</Label>
+              <Textarea
+                id="credit-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Discount for stained costume"
+                rows={3}
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Checkbox id="credit-paid-back" checked={paidBack} onCheckedChange={setPaidBack} />
+                <Label htmlFor="credit-paid-back">Money paid back to the customer</Label>
+              </div>
+              {paidBack ? (
+                <PaymentModePicker value={refundMode} onChange={setRefundMode} />
+              ) : (
+                <p className="text-xs text-gray-500">Otherwise only the amount due goes down.</p>
+              )}
+            </div>
+          </div>
+          <DialogFooter className="mt-6">
+            <Button variant="outline" onClick={() => setShowDialog(false)} disabled={issueMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleIssue}
+              disabled={issueMutation.isPending}
+              className="bg-[#e7342f] hover:bg-[#c92a26] text-white"
+            >
+              {issueMutation.isPending ? "Issuing..." : "Issue Credit Note"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,291 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Wallet, ArrowDownCircle, ArrowUpCircle, MinusCircle } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/toast";
+import {
+  useOrderDeposits,
+  useRecordDepositTransactions,
+  summarizeDeposit,
+  suggestDepositRefund,
+} from "@/lib/queries/deposits";
+import { formatCurrency, formatDateTime } from "@/lib/utils/date";
+import type { Order, DepositTransactionType } from "@/lib/types";
+import { getErrorMessage } from "@/lib/utils/error";
+
+interface OrderDepositCardProps {
+  order: Order;
+}
+
+// Statuses where items are back (fully or with issues) and the deposit can be settled
+const SETTLEABLE_STATUSES = ["completed", "flagged", "partially_returned"];
+
+const ENTRY_STYLES: Record<DepositTransactionType, { label: string; className: string; icon: typeof Wallet }> = {
+  collected: { label: "Collected", className: "text-teal-700", icon: ArrowDownCircle },
+  deducted: { label: "Deducted", className: "text-orange-600", icon: MinusCircle },
+  refunded: { label: "Refunded", className: "text-emerald-600", icon: ArrowUpCircle },
+};
+
+/**
+ * Security deposit ledger for an order.
+ * Shows collected / deducted / refunded amounts and suggests the refund
+ * once items are back (late fee and damage fees are deducted first).
+ */
+export function OrderDepositCard({ order }: OrderDepositCardProps) {
+  const { showToast } = useToast();
+  const { data: transactions = [], isLoading } = useOrderDeposits(order.id);
+  const recordMutation = useRecordDepositTransactions();
+
+  const [collectAmount, setCollectAmount] = useState("");
+  const [showSettleDialog, setShowSettleDialog] = useState(false);
+  const [deductionAmount, setDeductionAmount] = useState("");
+  const [refundAmount, setRefundAmount] = useState("");
+  const [deductionReason, setDeductionReason] = useState("");
+
+  const depositAmount = order.deposit_amount || 0;
+  const summary = useMemo(() => summarizeDeposit(transactions), [transactions]);
+  const suggestion = useMemo(
+    () =>
+      suggestDepositRefund(summary, {
+        lateFee: order.late_fee || 0,
+        damageFees: order.damage_fee_total || 0,
+      }),
+    [summary, order.late_fee, order.damage_fee_total]
+  );
+
+  const pendingCollection = Math.max(0, depositAmount - summary.collected);
+  const canSettle = summary.held > 0 && SETTLEABLE_STATUSES.includes(order.status);
+
+  // Nothing to show for orders that never had a deposit
+  if (!isLoading && depositAmount === 0 && transactions.length === 0) {
+    return null;
+  }
+
+  const handleCollect = async () => {
+    const amount = parseFloat(collectAmount || String(pendingCollection)) || 0;
+    try {
+      await recordMutation.mutateAsync({
+        orderId: order.id,
+        branchId: order.branch_id,
+        entries: [{ type: "collected", amount }],
+      });
+      setCollectAmount("");
+      showToast(`Deposit of ${formatCurrency(amount)} recorded`, "success");
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to record deposit"), "error");
+    }
+  };
+
+  const openSettleDialog = () => {
+    setDeductionAmount(suggestion.deduction > 0 ? String(suggestion.deduction) : "");
+    setRefundAmount(String(suggestion.refund));
+    const reasons = [
+      (order.late_fee || 0) > 0 ? "Late fee" : null,
+      (order.damage_fee_total || 0) > 0 ? "Damage" : null,
+    ].filter(Boolean);
+    setDeductionReason(reasons.join(" + "));
+    setShowSettleDialog(true);
+  };
+
+  const handleSettle = async () => {
+    const deduction = parseFloat(deductionAmount) || 0;
+    const refund = parseFloat(refundAmount) || 0;
+
+    if (deduction < 0 || refund < 0) {
+      showToast("Amounts cannot be negative", "error");
+      return;
+    }
+    if (deduction > 0 && !deductionReason.trim()) {
+      showToast("Please enter a reason for the deduction", "error");
+      return;
+    }
+
+    try {
+      await recordMutation.mutateAsync({
+        orderId: order.id,
+        branchId: order.branch_id,
+        entries: [
+          { type: "deducted", amount: deduction, reason: deductionReason },
+          { type: "refunded", amount: refund },
+        ],
+      });
+      setShowSettleDialog(false);
+      showToast("Deposit settled", "success");
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to settle deposit"), "error");
+    }
+  };
+
+  return (
+    <Card className="p-6 bg-white/80 backdrop-blur-sm border border-gray-200/60 shadow-lg rounded-xl">
+      <h3 className="text-lg font-bold text-gray-900 mb-5 flex items-center gap-2">
+        <Wallet className="h-5 w-5 text-[#273492]" />
+        Security Deposit
+      </h3>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between py-1.5 border-b border-gray-200/60">
+          <span className="text-sm text-gray-600 font-medium">Agreed</span>
+          <span className="text-sm font-bold text-gray-900">{formatCurrency(depositAmount)}</span>
+        </div>
+        <div className="flex items-center justify-between py-1.5">
+          <span className="text-sm text-gray-600">Collected</span>
+          <span className="text-sm font-semibold text-gray-900">{formatCurrency(summary.collected)}</span>
+        </div>
+        {summary.deducted > 0 && (
+          <div className="flex items-center justify-between py-1.5">
+            <span className="text-sm text-gray-600">Deducted</span>
+            <span className="text-sm font-semibold text-orange-600">− {formatCurrency(summary.deducted)}</span>
+          </div>
+        )}
+        {summary.refunded > 0 && (
+          <div className="flex items-center justify-between py-1.5">
+            <span className="text-sm text-gray-600">Refunded</span>
+            <span className="text-sm font-semibold text-emerald-600">− {formatCurrency(summary.refunded)}</span>
+          </div>
+        )}
+        <div className="flex items-center justify-between pt-2 border-t border-gray-200/60">
+          <span className="text-sm font-bold text-gray-900">Held</span>
+          <span className="text-base font-bold text-[#273492]">{formatCurrency(summary.held)}</span>
+        </div>
+      </div>
+
+      {/* Collect the remaining deposit */}
+      {pendingCollection > 0 && order.status !== "cancelled" && (
+        <div className="mt-4 p-3 rounded-lg bg-yellow-50 border border-yellow-200 space-y-2">
+          <p className="text-xs text-yellow-800 font-medium">
+            {formatCurrency(pendingCollection)} of the deposit is not collected yet
+          </p>
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={collectAmount}
+              onChange={(e) => setCollectAmount(e.target.value)}
+              placeholder={String(pendingCollection)}
+              className="h-10"
+            />
+            <Button
+              onClick={handleCollect}
+              disabled={recordMutation.isPending}
+              className="h-10 bg-[#273492] hover:bg-[#1f2a7a] text-white"
+            >
+              Record
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Refund suggestion after return */}
+      {canSettle && (
+        <div className="mt-4 p-3 rounded-lg bg-emerald-50 border border-emerald-200 space-y-1">
+          <p className="text-xs font-semibold text-emerald-800 uppercase tracking-wide">Suggested Refund</p>
+          <p className="text-xl font-bold text-emerald-700">{formatCurrency(suggestion.refund)}</p>
+          {suggestion.deduction > 0 && (
+            <p className="text-xs text-gray-600">
+              After {formatCurrency(suggestion.deduction)} deducted for late fee / damage
+            </p>
+          )}
+          {suggestion.uncovered > 0 && (
+            <p className="text-xs text-red-600 font-medium">
+              {formatCurrency(suggestion.uncovered)} of charges is more than the deposit - collect separately
+            </p>
+          )}
+          <Button
+            onClick={openSettleDialog}
+            className="w-full mt-2 h-10 bg-emerald-600 hover:bg-emerald-700 text-white"
+          >
+            Settle Deposit
+          </Button>
+        </div>
+      )}
+
+      {/* Ledger entries */}
+      {transactions.length > 0 && (
+        <div className="mt-4 pt-3 border-t border-gray-200/60 space-y-2">
+          {transactions.map((tx) => {
+            const style = ENTRY_STYLES[tx.type];
+            const Icon = style.icon;
+            return (
+              <div key={tx.id} className="flex items-start justify-between gap-2 text-xs">
+                <div className="flex items-start gap-2 min-w-0">
+                  <Icon className={`h-4 w-4 flex-shrink-0 ${style.className}`} />
+                  <div className="min-w-0">
+                    <p className={`font-semibold ${style.className}`}>{style.label}</p>
+                    {tx.reason && <p className="text-gray-500 truncate">{tx.reason}</p>}
+                    <p className="text-gray-400">{formatDateTime(tx.created_at)}</p>
+                  </div>
+                </div>
+                <span className="font-semibold text-gray-900 flex-shrink-0">{formatCurrency(tx.amount)}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={showSettleDialog} onOpenChange={setShowSettleDialog}>
+        <DialogContent onClose={() => setShowSettleDialog(false)}>
+          <DialogHeader>
+            <DialogTitle>Settle Deposit</DialogTitle>
+            <DialogDescription>
+              {formatCurrency(summary.held)} is held. Deduction and refund together can&apos;t exceed this.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 mt-4">
+            <div className="space-y-2">
+              <Label htmlFor="deposit-deduction">Deduction (₹)</Label>
+              <Input
+                id="deposit-deduction"
+                type="number"
+                min="0"
+                step="0.01"
+                value={deductionAmount}
+                onChange={(e) => setDeductionAmount(e.target.value)}
+                placeholder="0"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="deposit-deduction-reason">Deduction Reason</Label>
+              <Input
+                id="deposit-deduction-reason"
+                value={deductionReason}
+                onChange={(e) => setDeductionReason(e.target.value)}
+                placeholder="e.g. Late fee + Damage"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="deposit-refund">Refund to Customer (₹)</Label>
+              <Input
+                id="deposit-refund"
+                type="number"
+                min="0"
+                step="0.01"
+                value={refundAmount}
+                onChange={(e) => setRefundAmount(e.target.value)}
+                placeholder="0"
+              />
+            </div>
+          </div>
+          <DialogFooter className="mt-6">
+            <Button variant="outline" onClick={() => setShowSettleDialog(false)} disabled={recordMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSettle}
+              disabled={recordMutation.isPending}
+              className="bg-emerald-600 hover:bg-emerald-700 text-white"
+            >
+              {recordMutation.isPending ? "Saving..." : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface OrderDepositSectionProps {
+  depositAmount: number;
+  onDepositAmountChange: (value: number) => void;
+}
+
+/**
+ * Refundable security deposit input for the order form.
+ * The deposit is kept separate from the order total and recorded in the deposit ledger.
+ */
+export function OrderDepositSection({ depositAmount, onDepositAmountChange }: OrderDepositSectionProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-lg font-bold text-[#0f1724]">Security Deposit</Label>
+        <span className="text-xs text-gray-500">(Refundable - not part of total)</span>
+      </div>
+      <Input
+        type="number"
+        value={depositAmount === 0 ? "" : depositAmount}
+        onChange={(e) => {
+          const value = e.target.value.trim();
+          if (value === "" || value === "-" || value === ".") {
+            onDepositAmountChange(0);
+            return;
+          }
+          const numValue = parseFloat(value);
+          if (!isNaN(numValue) && numValue >= 0) {
+            onDepositAmountChange(numValue);
+          }
+        }}
+        onFocus={(e) => e.target.select()}
+        placeholder="0"
+        className="h-14 text-base rounded-xl"
+        inputMode="decimal"
+        min="0"
+        step="0.01"
+      />
+      {depositAmount > 0 && (
+        <p className="text-xs text-gray-500">
+          Recorded as collected when the order is created
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, Wallet } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ExpenseDialog } from "@/components/expenses/expense-dialog";
+import { useOrderExpenses, EXPENSE_CATEGORY_LABELS } from "@/lib/queries/expenses";
+import { formatCurrency, formatDate } from "@/lib/utils/date";
+import type { Order } from "@/lib/types";
+
+interface OrderExpensesCardProps {
+  order: Order;
+}
+
+/**
+ * Dry cleaning, repairs and alterations spent on the order's costumes.
+ * They come off the product's profit in reports.
+ */
+export function OrderExpensesCard({ order }: OrderExpensesCardProps) {
+  const { data: expenses = [], isLoading } = useOrderExpenses(order.id);
+  const [showDialog, setShowDialog] = useState(false);
+
+  const totalSpent = expenses.reduce((sum, expense) => sum + (Number(expense.amount) || 0), 0);
+
+  return (
+    <Card className="p-6 bg-white/80 backdrop-blur-sm border border-gray-200/60 shadow-lg rounded-xl">
+      <div className="flex items-center justify-between mb-5">
+        <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <Wallet className="h-5 w-5 text-[#273492]" />
+          Expenses
+        </h3>
+        {order.status !== "cancelled" && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setShowDialog(true)}
+            className="h-8"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        )}
+      </div>
+
+      {!isLoading && expenses.length === 0 ? (
+        <p className="text-sm text-gray-500">No cleaning or repair costs recorded</p>
+      ) : (
+        <div className="space-y-2">
+          {expenses.map((expense) => (
+            <div key={expense.id} className="flex items-start justify-between gap-2 text-xs">
+              <div className="min-w-0">
+                <p className="font-semibold text-gray-900">
+                  {EXPENSE_CATEGORY_LABELS[expense.category]}
+                  {expense.order_item?.product_name && (
+                    <span className="font-normal text-gray-600"> · {expense.order_item.product_name}</span>
+                  )}
+                </p>
+                {expense.description && <p className="text-gray-500 truncate">{expense.description}</p>}
+                <p className="text-gray-400">
+                  {formatDate(expense.expense_date)}
+                  {expense.vendor && ` · ${expense.vendor}`}
+                </p>
+                {expense.receipt_url && (
+                  <a
+                    href={expense.receipt_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-[#273492] hover:underline"
+                  >
+                    View receipt
+                  </a>
+                )}
+              </div>
+              <span className="font-semibold text-gray-900 flex-shrink-0">{formatCurrency(expense.amount)}</span>
+            </div>
+          ))}
+          {expenses.length > 1 && (
+            <div className="flex items-center justify-between pt-2 border-t border-gray-200/60">
+              <span className="text-sm font-bold text-gray-900">Total Spent</span>
+              <span className="text-sm font-bold text-gray-900">{formatCurrency(totalSpent)}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {showDialog && (
+        <ExpenseDialog
+          open={showDialog}
+          onClose={() => setShowDialog(false)}
+          branchId={order.branch_id}
+          order={order}
+        />
+      )}
+    </Card>
+  );
+}
@@ -2,86 +2,69 @@
 
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { generateInvoiceNumber } from "@/lib/utils/invoice";
+import { previewInvoiceNumber, getFinancialYearLabel } from "@/lib/utils/invoice";
 import { useEffect, useState } from "react";
 
 interface OrderInvoiceSectionProps {
-  invoiceNumber: string;
-  onInvoiceNumberChange: (value: string) => void;
-  placeholder?: string;
-  autoGenerate?: boolean;
+  invoiceNumber?: string;
+  branchId?: string | null;
+  onNextNumberChange?: (nextNumber: string | null) => void; // Remembered with orders queued offline
 }
 
 /**
  * Reusable Order Invoice Section Component
- * Handles invoice number input (optional, auto-generates if empty)
- * 
+ * Invoice numbers are issued sequentially by the server when the order is saved,
+ * so this only shows the issued number (existing orders) or the next one (new orders).
+ *
  * @component
  * @example
  * ```tsx
- * <OrderInvoiceSection
- *   invoiceNumber={invoiceNumber}
- *   onInvoiceNumberChange={setInvoiceNumber}
- *   autoGenerate={true}
- * />
+ * <OrderInvoiceSection branchId={user.branch_id} />
+ * <OrderInvoiceSection invoiceNumber={order.invoice_number} />
  * ```
  */
-export function OrderInvoiceSection({
-  invoiceNumber,
-  onInvoiceNumberChange,
-  placeholder,
-  autoGenerate = true,
-}: OrderInvoiceSectionProps) {
-  const [placeholderValue, setPlaceholderValue] = useState<string>("GLAORD-YYYYMMDD-XXXX");
+export function OrderInvoiceSection({ invoiceNumber, branchId, onNextNumberChange }: OrderInvoiceSectionProps) {
+  const [nextNumber, setNextNumber] = useState<string | null>(null);
 
-  // Auto-generate invoice number if empty and autoGenerate is enabled
+  // Preview the next number for new orders
   useEffect(() => {
-    if (autoGenerate && !invoiceNumber) {
-      // ✅ FIX: generateInvoiceNumber is now async
-      generateInvoiceNumber().then((generated) => {
-        onInvoiceNumberChange(generated);
-      }).catch((error) => {
-        console.error("Failed to generate invoice number:", error);
-        // Fallback to a simple format if generation fails
-        const now = new Date();
-        const year = now.getFullYear();
-        const month = String(now.getMonth() + 1).padStart(2, '0');
-        const day = String(now.getDate()).padStart(2, '0');
-        const random = String(Math.floor(Math.random() * 10000)).padStart(4, '0');
-        onInvoiceNumberChange(`GLAORD-${year}${month}${day}-${random}`);
-      });
-    }
-  }, [autoGenerate, invoiceNumber, onInvoiceNumberChange]);
+    if (invoiceNumber || !branchId) return;
 
-  // Load placeholder value on mount
-  useEffect(() => {
-    if (!placeholder) {
-      generateInvoiceNumber()
-        .then((generated) => setPlaceholderValue(generated))
-        .catch(() => setPlaceholderValue("GLAORD-YYYYMMDD-XXXX"));
-    }
-  }, [placeholder]);
+    let cancelled = false;
+    previewInvoiceNumber(branchId)
+      .then((preview) => {
+        if (cancelled) return;
+        setNextNumber(preview);
+        onNextNumberChange?.(preview);
+      })
+      .catch((error) => {
+        console.error("Failed to load next invoice number:", error);
+      });
 
-  const displayPlaceholder = placeholder || placeholderValue;
+    return () => {
+      cancelled = true;
+    };
+  }, [invoiceNumber, branchId, onNextNumberChange]);
 
   return (
     <div className="space-y-2">
       <div className="flex items-center justify-between">
         <Label className="text-lg font-bold text-[#0f1724]">Invoice Number</Label>
-        <span className="text-xs text-gray-500">(Optional - Auto-generated)</span>
+        <span className="text-xs text-gray-500">
+          {invoiceNumber ? "(Issued)" : "(Auto-generated)"}
+        </span>
       </div>
       <Input
-        value={invoiceNumber}
-        onChange={(e) => onInvoiceNumberChange(e.target.value)}
-        placeholder={displayPlaceholder}
-        className="h-14 text-base rounded-xl"
+        value={invoiceNumber || nextNumber || ""}
+        placeholder={`PREFIX/${getFinancialYearLabel()}/0001`}
+        className="h-14 text-base rounded-xl font-mono bg-gray-50"
+        readOnly
       />
-      {invoiceNumber && (
-        <p className="text-xs text-gray-500">
-          Invoice number: <span className="font-mono font-semibold">{invoiceNumber}</span>
-        </p>
-      )}
+      <p className="text-xs text-gray-500">
+        {invoiceNumber
+          ? "Issued invoice numbers can't be changed."
+          : "Assigned in sequence when the order is saved (or synced, if saved offline). Numbering restarts every financial year."}
+      </p>
     </div>
   );
 }
-
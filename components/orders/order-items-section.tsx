@@ -1,14 +1,19 @@
 "use client";
 
-import { useState, useRef, useEffect, useCallback } from "react";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { CameraUpload, type UploadResult } from "./camera-upload";
-import { Trash2, AlertCircle, CheckCircle2, Loader2 } from "lucide-react";
+import { ProductPicker } from "./product-picker";
+import { Trash2, AlertCircle, Loader2, Package, CloudOff } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
-import type { OrderItem } from "@/lib/types";
+import { useUserStore } from "@/lib/stores/useUserStore";
+import { useProductAvailability, findOverbookedLines } from "@/lib/queries/availability";
+import { usePhotoDisplayUrl } from "@/lib/hooks/use-photo-display-url";
+import { isPendingPhoto } from "@/lib/offline/photos";
+import type { OrderItem, Product } from "@/lib/types";
 
 interface OrderItemsSectionProps {
   items: OrderItem[];
@@ -18,6 +23,10 @@ interface OrderItemsSectionProps {
   onImageClick?: (imageUrl: string) => void;
   days?: number;
   onUploadStatusChange?: (hasPendingUploads: boolean) => void;
+  startDate?: string;
+  endDate?: string;
+  excludeOrderId?: string;
+  onAvailabilityChange?: (hasOverbooking: boolean) => void;
 }
 
 interface ItemUploadStatus {
@@ -27,11 +36,42 @@ interface ItemUploadStatus {
   status: "uploading" | "completed" | "failed" | "idle";
 }
 
+/**
+ * Item photo - photos taken offline are read from the device until they sync
+ */
+function ItemPhoto({
+  url,
+  className,
+  onClick,
+}: {
+  url: string;
+  className: string;
+  onClick: (displayUrl: string) => void;
+}) {
+  const displayUrl = usePhotoDisplayUrl(url);
+  if (!displayUrl) return <div className={`${className} bg-gray-100`} />;
+
+  return (
+    <img
+      src={displayUrl}
+      alt="Product"
+      className={className}
+      onClick={() => onClick(displayUrl)}
+      onError={(e) => {
+        // Handle broken images
+        const target = e.target as HTMLImageElement;
+        target.src = "/placeholder-image.png"; // Fallback image
+      }}
+    />
+  );
+}
+
 /**
  * Optimized Order Items Section Component
  * Handles adding, updating, and removing order items
  * Tracks upload status to prevent saving orders with blob URLs
  * Prevents duplicate items by tracking uploads by preview URL
+ * Flags catalog lines that exceed free stock for the rental window
  */
 export function OrderItemsSection({
   items,
@@ -41,10 +81,16 @@ export function OrderItemsSection({
   onImageClick,
   days = 0,
   onUploadStatusChange,
+  startDate = "",
+  endDate = "",
+  excludeOrderId,
+  onAvailabilityChange,
 }: OrderItemsSectionProps) {
+  const { user } = useUserStore();
   const itemsSectionRef = useRef<HTMLDivElement>(null);
   const itemRefs = useRef<(HTMLDivElement | null)[]>([]);
   const [newItemIndex, setNewItemIndex] = useState<number | null>(null);
+  const [showProductPicker, setShowProductPicker] = useState(false);
   const [uploadStatuses, setUploadStatuses] = useState<Map<number, ItemUploadStatus>>(new Map());
   // Track which preview URLs have already created items to prevent duplicates
   const processedPreviewUrls = useRef<Set<string>>(new Set());
@@ -59,6 +105,26 @@ export function OrderItemsSection({
     onUploadStatusChange?.(hasPendingUploads);
   }, [uploadStatuses, onUploadStatusChange]);
 
+  const productIds = useMemo(
+    () => items.map((item) => item.product_id).filter((id): id is string => !!id),
+    [items]
+  );
+  const { data: availability } = useProductAvailability(
+    user?.branch_id || null,
+    productIds,
+    startDate,
+    endDate,
+    excludeOrderId
+  );
+  const overbookedByProduct = useMemo(() => {
+    const lines = availability ? findOverbookedLines(items, availability) : [];
+    return new Map(lines.map((line) => [line.product_id, line]));
+  }, [items, availability]);
+
+  useEffect(() => {
+    onAvailabilityChange?.(overbookedByProduct.size > 0);
+  }, [overbookedByProduct, onAvailabilityChange]);
+
   // Clean up refs array when items change
   useEffect(() => {
     itemRefs.current = itemRefs.current.slice(0, items.length);
@@ -207,6 +273,21 @@ export function OrderItemsSection({
     }
   }, [items, days, onAddItem, onUpdateItem]);
 
+  // Catalog items reuse the stored product photo, so no upload is needed
+  const handleProductSelect = useCallback((product: Product) => {
+    onAddItem({
+      product_id: product.id,
+      photo_url: product.photo_url,
+      product_name: product.name,
+      hsn_sac: product.hsn_sac || null,
+      quantity: 1,
+      price_per_day: product.default_daily_rate,
+      days,
+      line_total: product.default_daily_rate * days,
+    });
+    setNewItemIndex(items.length);
+  }, [items.length, days, onAddItem]);
+
   const handleUpdateItem = useCallback((index: number, field: keyof OrderItem, value: any) => {
     const item = items[index];
     const updates: Partial<OrderItem> = { [field]: value };
@@ -273,6 +354,7 @@ export function OrderItemsSection({
           const isUploading = uploadStatus?.status === "uploading";
           const isFailed = uploadStatus?.status === "failed";
           const hasBlob = hasBlobUrl(item);
+          const overbooked = item.product_id ? overbookedByProduct.get(item.product_id) : undefined;
 
           return (
             <Card
@@ -285,7 +367,7 @@ export function OrderItemsSection({
                   ? "ring-2 ring-[#273492] bg-[#273492]/5 shadow-lg"
                   : hasBlob
                   ? "border-yellow-300 bg-yellow-50/50"
-                  : isFailed
+                  : isFailed || overbooked
                   ? "border-red-300 bg-red-50/50"
                   : "border-gray-200 bg-white"
               }`}
@@ -294,18 +376,12 @@ export function OrderItemsSection({
                 {/* Photo with Upload Status */}
                 <div className="flex justify-center relative">
                   <div className="relative">
-                    <img
-                      src={item.photo_url}
-                      alt="Product"
+                    <ItemPhoto
+                      url={item.photo_url}
                       className={`w-20 h-20 object-cover rounded-lg border-2 cursor-pointer hover:opacity-80 ${
                         isUploading ? "border-blue-300" : isFailed ? "border-red-300" : "border-gray-200"
                       }`}
-                      onClick={() => onImageClick?.(item.photo_url)}
-                      onError={(e) => {
-                        // Handle broken images
-                        const target = e.target as HTMLImageElement;
-                        target.src = "/placeholder-image.png"; // Fallback image
-                      }}
+                      onClick={(displayUrl) => onImageClick?.(displayUrl)}
                     />
                     {isUploading && (
                       <div className="absolute inset-0 bg-black/20 rounded-lg flex items-center justify-center">
@@ -322,6 +398,14 @@ export function OrderItemsSection({
                         <AlertCircle className="h-3 w-3 text-white" />
                       </div>
                     )}
+                    {isPendingPhoto(item.photo_url) && (
+                      <div
+                        className="absolute -bottom-1 -right-1 bg-amber-500 rounded-full p-1"
+                        title="Saved on this device - uploads when back online"
+                      >
+                        <CloudOff className="h-3 w-3 text-white" />
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -335,9 +419,31 @@ export function OrderItemsSection({
                   </div>
                 )}
 
+                {/* Availability Warning */}
+                {overbooked && (
+                  <div className="flex items-start gap-2 p-2 bg-red-50 border border-red-200 rounded-lg">
+                    <AlertCircle className="h-4 w-4 text-red-600 flex-shrink-0 mt-0.5" />
+                    <p className="text-xs text-red-800">
+                      {overbooked.available === 0
+                        ? "No units free for these dates."
+                        : `Only ${overbooked.available} of ${availability?.[overbooked.product_id]?.stock_quantity ?? overbooked.available} units free for these dates (${overbooked.requested} requested).`}
+                      {(availability?.[overbooked.product_id]?.in_maintenance_quantity ?? 0) > 0 &&
+                        ` ${availability?.[overbooked.product_id]?.in_maintenance_quantity} still in cleaning or repair.`}
+                    </p>
+                  </div>
+                )}
+
                 {/* Product Name */}
                 <div className="space-y-2">
-                  <Label className="text-sm text-gray-600">Product Name</Label>
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm text-gray-600">Product Name</Label>
+                    {item.product_id && (
+                      <Badge variant="outline" className="text-[10px] px-2 py-0.5 h-5 border-[#273492]/30 text-[#273492]">
+                        <Package className="h-3 w-3 mr-1" />
+                        Catalog
+                      </Badge>
+                    )}
+                  </div>
                   <Input
                     value={item.product_name || ""}
                     onChange={(e) =>
@@ -430,13 +536,28 @@ export function OrderItemsSection({
         })}
       </div>
 
-      {/* Camera Upload */}
-      <div className="flex justify-center pt-2">
+      {/* Camera Upload / Catalog Picker */}
+      <div className="flex flex-col items-center gap-3 pt-2">
         <CameraUpload 
           onUploadComplete={handleUploadComplete}
           disabled={Array.from(uploadStatuses.values()).some((s) => s.status === "uploading")}
         />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => setShowProductPicker(true)}
+          className="h-11 rounded-xl border-[#273492]/30 text-[#273492] hover:bg-[#273492]/5"
+        >
+          <Package className="h-4 w-4 mr-2" />
+          Add from Catalog
+        </Button>
       </div>
+
+      <ProductPicker
+        open={showProductPicker}
+        onOpenChange={setShowProductPicker}
+        onSelect={handleProductSelect}
+      />
     </div>
   );
 }
@@ -0,0 +1,82 @@
+"use client";
+
+import { useCallback, useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/components/ui/toast";
+import { useOrderOutboxStore } from "@/lib/stores/useOrderOutboxStore";
+import { useUserStore } from "@/lib/stores/useUserStore";
+import { invoiceNumberChanged, type OutboxOrder } from "@/lib/offline/outbox";
+
+// Browsers don't always fire "online" (e.g. captive Wi-Fi coming back)
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Replay offline orders and refresh the order lists for the ones that synced
+ */
+export function useOfflineOrderSync() {
+  const queryClient = useQueryClient();
+  const { showToast } = useToast();
+  const sync = useOrderOutboxStore((state) => state.sync);
+  const retry = useOrderOutboxStore((state) => state.retry);
+
+  const handleSynced = useCallback(
+    (synced: OutboxOrder[]) => {
+      if (synced.length === 0) return;
+
+      queryClient.invalidateQueries({ queryKey: ["orders-infinite"] });
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+
+      showToast(`${synced.length} offline order${synced.length !== 1 ? "s" : ""} synced`, "success");
+      synced.filter(invoiceNumberChanged).forEach((entry) => {
+        showToast(
+          `${entry.customer_name}: invoice ${entry.provisional_invoice_number} was taken, issued ${entry.invoice_number}`,
+          "info"
+        );
+      });
+    },
+    [queryClient, showToast]
+  );
+
+  const runSync = useCallback(async () => {
+    if (!navigator.onLine) return;
+    handleSynced(await sync());
+  }, [sync, handleSynced]);
+
+  const retryEntry = useCallback(
+    async (id: string) => handleSynced(await retry(id)),
+    [retry, handleSynced]
+  );
+
+  return { runSync, retryEntry };
+}
+
+/**
+ * Replays orders queued offline when the connection returns. Renders nothing;
+ * mounted once in the dashboard layout.
+ */
+export function OrderOutboxSync() {
+  const load = useOrderOutboxStore((state) => state.load);
+  const userId = useUserStore((state) => state.user?.id);
+  const hasQueued = useOrderOutboxStore((state) => state.entries.some((entry) => entry.status === "queued"));
+  const { runSync } = useOfflineOrderSync();
+
+  // Reloaded on login and logout - each user only sees their own queue
+  useEffect(() => {
+    load()
+      .then(runSync)
+      .catch((error) => console.error("Failed to load offline orders:", error));
+
+    window.addEventListener("online", runSync);
+    return () => window.removeEventListener("online", runSync);
+  }, [load, runSync, userId]);
+
+  useEffect(() => {
+    if (!hasQueued) return;
+    const interval = setInterval(runSync, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasQueued, runSync]);
+
+  return null;
+}
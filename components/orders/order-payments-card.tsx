@@ -0,0 +1,216 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { CreditCard, Plus } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectItem } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/toast";
+import { PaymentModePicker } from "./payment-mode-picker";
+import {
+  useOrderPayments,
+  useRecordPayment,
+  summarizeOrderPayments,
+  getDefaultPaymentType,
+  PAYMENT_MODE_LABELS,
+  PAYMENT_TYPE_LABELS,
+  RECORDABLE_PAYMENT_TYPES,
+} from "@/lib/queries/payments";
+import { formatCurrency, formatDateTime } from "@/lib/utils/date";
+import type { Order, PaymentMode, PaymentType } from "@/lib/types";
+import { getErrorMessage } from "@/lib/utils/error";
+
+interface OrderPaymentsCardProps {
+  order: Order;
+}
+
+/**
+ * Payments received against an order and the remaining balance.
+ * Balance comes from the payments ledger, not from the order status.
+ */
+export function OrderPaymentsCard({ order }: OrderPaymentsCardProps) {
+  const { showToast } = useToast();
+  const { data: payments = [], isLoading } = useOrderPayments(order.id);
+  const recordPaymentMutation = useRecordPayment();
+
+  const [showDialog, setShowDialog] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [paymentType, setPaymentType] = useState<PaymentType>("balance");
+  const [paymentMode, setPaymentMode] = useState<PaymentMode>("cash");
+  const [reference, setReference] = useState("");
+
+  const summary = useMemo(
+    () => summarizeOrderPayments(order.total_amount || 0, payments),
+    [order.total_amount, payments]
+  );
+
+  const openDialog = () => {
+    setAmount(summary.balance > 0 ? String(summary.balance) : "");
+    setPaymentType(getDefaultPaymentType(order.status));
+    setPaymentMode("cash");
+    setReference("");
+    setShowDialog(true);
+  };
+
+  const handleRecord = async () => {
+    const value = parseFloat(amount) || 0;
+    if (value <= 0) {
+      showToast("Enter an amount greater than zero", "error");
+      return;
+    }
+    if (value > summary.balance && summary.balance > 0) {
+      showToast(`Amount is more than the balance due (${formatCurrency(summary.balance)})`, "error");
+      return;
+    }
+
+    try {
+      await recordPaymentMutation.mutateAsync({
+        orderId: order.id,
+        customerId: order.customer_id,
+        branchId: order.branch_id,
+        amount: value,
+        paymentType,
+        paymentMode,
+        reference,
+      });
+      setShowDialog(false);
+      showToast(`Payment of ${formatCurrency(value)} recorded`, "success");
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to record payment"), "error");
+    }
+  };
+
+  return (
+    <Card className="p-6 bg-white/80 backdrop-blur-sm border border-gray-200/60 shadow-lg rounded-xl">
+      <div className="flex items-center justify-between mb-5">
+        <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <CreditCard className="h-5 w-5 text-[#273492]" />
+          Payments
+        </h3>
+        {order.status !== "cancelled" && summary.balance > 0 && (
+          <Button
+            size="sm"
+            onClick={openDialog}
+            className="h-8 bg-[#273492] hover:bg-[#1f2a7a] text-white"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Record
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between py-1.5">
+          <span className="text-sm text-gray-600">Order Total</span>
+          <span className="text-sm font-semibold text-gray-900">{formatCurrency(summary.total)}</span>
+        </div>
+        <div className="flex items-center justify-between py-1.5">
+          <span className="text-sm text-gray-600">Paid</span>
+          <span className="text-sm font-semibold text-green-600">{formatCurrency(summary.paid)}</span>
+        </div>
+        <div className="flex items-center justify-between pt-2 border-t border-gray-200/60">
+          <span className="text-sm font-bold text-gray-900">
+            {summary.balance < 0 ? "Overpaid" : "Balance Due"}
+          </span>
+          <span className={`text-base font-bold ${summary.balance > 0 ? "text-red-600" : "text-green-600"}`}>
+            {formatCurrency(Math.abs(summary.balance))}
+          </span>
+        </div>
+      </div>
+
+      {!isLoading && payments.length > 0 && (
+        <div className="mt-4 pt-3 border-t border-gray-200/60 space-y-2">
+          {payments.map((payment) => (
+            <div key={payment.id} className="flex items-start justify-between gap-2 text-xs">
+              <div className="min-w-0">
+                <p className="font-semibold text-gray-900">
+                  {PAYMENT_TYPE_LABELS[payment.payment_type]} · {PAYMENT_MODE_LABELS[payment.payment_mode]}
+                </p>
+                {(payment.reference || payment.notes) && (
+                  <p className="text-gray-500 truncate">{payment.reference || payment.notes}</p>
+                )}
+                <p className="text-gray-400">{formatDateTime(payment.paid_at)}</p>
+              </div>
+              {payment.payment_type === "refund" ? (
+                <span className="font-semibold text-red-600 flex-shrink-0">-{formatCurrency(payment.amount)}</span>
+              ) : (
+                <span className="font-semibold text-green-600 flex-shrink-0">{formatCurrency(payment.amount)}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent onClose={() => setShowDialog(false)}>
+          <DialogHeader>
+            <DialogTitle>Record Payment</DialogTitle>
+            <DialogDescription>
+              Balance due: {formatCurrency(summary.balance)}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 mt-4">
+            <div className="space-y-2">
+              <Label htmlFor="payment-amount">Amount (₹)</Label>
+              <Input
+                id="payment-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0"
+                inputMode="decimal"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Mode</Label>
+              <PaymentModePicker value={paymentMode} onChange={setPaymentMode} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-type">Type</Label>
+              <Select
+                id="payment-type"
+                value={paymentType}
+                onChange={(e) => setPaymentType(e.target.value as PaymentType)}
+                className="h-11"
+              >
+                {RECORDABLE_PAYMENT_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {PAYMENT_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </Select>
+            </div>
+            {paymentMode !== "cash" && (
+              <div className="space-y-2">
+                <Label htmlFor="payment-reference">Reference</Label>
+                <Input
+                  id="payment-reference"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  placeholder="Transaction ID / slip number"
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter className="mt-6">
+            <Button variant="outline" onClick={() => setShowDialog(false)} disabled={recordPaymentMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleRecord}
+              disabled={recordPaymentMutation.isPending}
+              className="bg-[#273492] hover:bg-[#1f2a7a] text-white"
+            >
+              {recordPaymentMutation.isPending ? "Saving..." : "Record Payment"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -8,13 +8,26 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { OrderItem, Order } from "@/lib/types";
+import { OrderItem, Order, DamageAssessment } from "@/lib/types";
 import { formatDateTime, isOrderLate, formatCurrency } from "@/lib/utils/date";
 import { useProcessOrderReturn } from "@/lib/queries/orders";
+import {
+  useDamageTypes,
+  useOrderDamageAssessments,
+  getDamageLinesTotal,
+  summarizeDamageLines,
+  type DamageLineDraft,
+} from "@/lib/queries/damage";
+import { useBranch } from "@/lib/queries/branches";
+import { getLateFeePolicy, calculateLateFee, describeLateFeePolicy } from "@/lib/utils/late-fee";
 import { useToast } from "@/components/ui/toast";
-import { CheckCircle, AlertCircle, Clock, Package, AlertTriangle } from "lucide-react";
+import { useUserStore } from "@/lib/stores/useUserStore";
+import { hasPermission } from "@/lib/utils/permissions";
+import { CheckCircle, AlertCircle, Clock, Package, AlertTriangle, Printer } from "lucide-react";
 import { ImageLightbox } from "@/components/ui/image-lightbox";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DamageAssessmentEditor } from "@/components/orders/damage-assessment-editor";
+import { getErrorMessage } from "@/lib/utils/error";
 
 interface OrderReturnSectionProps {
   order: Order;
@@ -28,53 +41,124 @@ interface ItemReturnState {
   damage_fee: number;
   damage_description: string;
   isSelected: boolean;
+  damage_lines: DamageLineDraft[];
+  after_photo_url: string;
+  after_photo_uploading: boolean;
+  damage_dirty: boolean; // Assessment edited since it was loaded
 }
 
-export function OrderReturnSection({ order, onReturnComplete, disabled = false }: OrderReturnSectionProps) {
+const EMPTY_ITEM_STATE: ItemReturnState = {
+  returned_quantity: 0,
+  damage_fee: 0,
+  damage_description: "",
+  isSelected: false,
+  damage_lines: [],
+  after_photo_url: "",
+  after_photo_uploading: false,
+  damage_dirty: false,
+};
+
+function buildItemStates(items: OrderItem[], assessments: DamageAssessment[] = []): Record<string, ItemReturnState> {
+  const states: Record<string, ItemReturnState> = {};
+  items.forEach((item) => {
+    if (!item.id) return;
+    const assessment = assessments.find((a) => a.order_item_id === item.id);
+    let damageLines: DamageLineDraft[] = [];
+    if (assessment) {
+      damageLines = (assessment.lines || []).map((line) => ({
+        damage_type_id: line.damage_type_id ?? null,
+        name: line.name,
+        charge: Number(line.charge) || 0,
+        note: line.note || "",
+      }));
+    } else if ((item.damage_fee ?? 0) > 0) {
+      // Charged before itemised assessments existed
+      damageLines = [{ damage_type_id: null, name: item.damage_description || "Damage", charge: item.damage_fee ?? 0, note: "" }];
+    }
+
+    states[item.id] = {
+      returned_quantity: item.returned_quantity ?? (item.return_status === "returned" ? item.quantity : 0),
+      damage_fee: item.damage_fee ?? 0,
+      damage_description: item.damage_description ?? "",
+      isSelected: item.return_status === "returned" || (item.returned_quantity ?? 0) > 0,
+      damage_lines: damageLines,
+      after_photo_url: assessment?.after_photo_url || "",
+      after_photo_uploading: false,
+      damage_dirty: false,
+    };
+  });
+  return states;
+}
+
+export function OrderReturnSection({ order, onReturnComplete, disabled: notStarted = false }: OrderReturnSectionProps) {
   const { showToast } = useToast();
+  const { user } = useUserStore();
+  const canProcessReturn = hasPermission(user, "process_return");
+  const canOverrideLateFee = hasPermission(user, "override_late_fee");
+  const disabled = notStarted || !canProcessReturn;
   const processReturnMutation = useProcessOrderReturn();
   
   const items = order.items || [];
   const endDate = (order as any).end_datetime || order.end_date;
   const isLate = isOrderLate(endDate);
 
-  // State for item return details (returned_quantity, damage_fee, damage_description)
-  const [itemReturnStates, setItemReturnStates] = useState<Record<string, ItemReturnState>>(() => {
-    const states: Record<string, ItemReturnState> = {};
-    items.forEach((item) => {
-      if (item.id) {
-        states[item.id] = {
-          returned_quantity: item.returned_quantity ?? (item.return_status === "returned" ? item.quantity : 0),
-          damage_fee: item.damage_fee ?? 0,
-          damage_description: item.damage_description ?? "",
-          isSelected: item.return_status === "returned" || (item.returned_quantity ?? 0) > 0,
-        };
-      }
-    });
-    return states;
-  });
+  const { data: damageTypes = [] } = useDamageTypes();
+  const { data: damageAssessments } = useOrderDamageAssessments(order.id);
+
+  // State for item return details (returned_quantity, damage assessment)
+  const [itemReturnStates, setItemReturnStates] = useState<Record<string, ItemReturnState>>(() =>
+    buildItemStates(items, damageAssessments)
+  );
 
   const [lateFee, setLateFee] = useState(() => {
     return order.late_fee ? order.late_fee.toString() : "0";
   });
+  const [isOverridingLateFee, setIsOverridingLateFee] = useState(false);
+  const [lateFeeOverrideReason, setLateFeeOverrideReason] = useState("");
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
+  const [isPrintingDamage, setIsPrintingDamage] = useState(false);
 
   // Update states when order changes
   useEffect(() => {
-    const newStates: Record<string, ItemReturnState> = {};
-    items.forEach((item) => {
-      if (item.id) {
-        newStates[item.id] = {
-          returned_quantity: item.returned_quantity ?? (item.return_status === "returned" ? item.quantity : 0),
-          damage_fee: item.damage_fee ?? 0,
-          damage_description: item.damage_description ?? "",
-          isSelected: item.return_status === "returned" || (item.returned_quantity ?? 0) > 0,
-        };
-      }
-    });
-    setItemReturnStates(newStates);
-  }, [items]);
+    setItemReturnStates(buildItemStates(items, damageAssessments));
+  }, [items, damageAssessments]);
+
+  const { data: branch } = useBranch(order.branch_id);
+  const lateFeePolicy = useMemo(() => getLateFeePolicy(branch), [branch]);
+
+  // Pieces still out keep accruing; missing items are settled through damage fees
+  const getCalculatedLateFee = (now: Date) => {
+    if (!lateFeePolicy || !endDate) return null;
+    const lateFeeItems = items
+      .filter((item) => item.return_status !== "missing")
+      .map((item) => ({
+        id: item.id,
+        product_name: item.product_name,
+        quantity: item.quantity,
+        price_per_day: item.price_per_day,
+        returned_quantity: item.returned_quantity ?? 0,
+        returned_at: item.actual_return_date,
+      }));
+    return calculateLateFee(lateFeeItems, endDate, lateFeePolicy, now);
+  };
+
+  const calculatedLateFee = useMemo(
+    () => getCalculatedLateFee(new Date()),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [items, lateFeePolicy, endDate]
+  );
+  const isLateFeeAutomatic = !!calculatedLateFee && !isOverridingLateFee;
+
+  const handleOverrideLateFee = () => {
+    setLateFee(String(calculatedLateFee?.total ?? 0));
+    setIsOverridingLateFee(true);
+  };
+
+  const handleCancelLateFeeOverride = () => {
+    setIsOverridingLateFee(false);
+    setLateFeeOverrideReason("");
+  };
 
   // Calculate return statistics (including partial returns)
   const returnStats = useMemo(() => {
@@ -138,6 +222,11 @@ export function OrderReturnSection({ order, onReturnComplete, disabled = false }
           // Reset damage when unchecking
           damage_fee: newIsSelected ? current.damage_fee : 0,
           damage_description: newIsSelected ? current.damage_description : "",
+          damage_lines: newIsSelected ? current.damage_lines : [],
+          after_photo_url: newIsSelected ? current.after_photo_url : "",
+          after_photo_uploading: newIsSelected ? current.after_photo_uploading : false,
+          damage_dirty:
+            current.damage_dirty || (!newIsSelected && (current.damage_lines.length > 0 || !!current.after_photo_url)),
         },
       };
     });
@@ -201,36 +290,30 @@ export function OrderReturnSection({ order, onReturnComplete, disabled = false }
     }));
   };
 
-  const handleDamageFeeChange = (itemId: string, value: string) => {
+  const handleDamageLinesChange = (itemId: string, lines: DamageLineDraft[]) => {
     if (disabled) return;
-    
-    // ✅ FIX (Issue M3): Validate damage fee is non-negative
-    const numValue = parseFloat(value) || 0;
-    
-    // Show error if negative value entered
-    if (numValue < 0) {
-      showToast("Damage fee cannot be negative", "error");
-      return;
-    }
-    
-    const clampedValue = Math.max(0, numValue);
+
+    // The assessment total is what the item is charged
     setItemReturnStates((prev) => ({
       ...prev,
       [itemId]: {
         ...prev[itemId],
-        damage_fee: clampedValue,
+        damage_lines: lines,
+        damage_fee: getDamageLinesTotal(lines),
+        damage_description: summarizeDamageLines(lines),
+        damage_dirty: true,
       },
     }));
   };
 
-  const handleDamageDescriptionChange = (itemId: string, value: string) => {
-    if (disabled) return;
-    
+  const handleAfterPhotoChange = (itemId: string, url: string, uploading: boolean) => {
     setItemReturnStates((prev) => ({
       ...prev,
       [itemId]: {
         ...prev[itemId],
-        damage_description: value,
+        after_photo_url: url,
+        after_photo_uploading: uploading,
+        damage_dirty: true,
       },
     }));
   };
@@ -243,9 +326,8 @@ export function OrderReturnSection({ order, onReturnComplete, disabled = false }
     items.forEach((item) => {
       if (item.id) {
         newStates[item.id] = {
+          ...(itemReturnStates[item.id] ?? EMPTY_ITEM_STATE),
           returned_quantity: item.quantity,
-          damage_fee: itemReturnStates[item.id]?.damage_fee ?? 0,
-          damage_description: itemReturnStates[item.id]?.damage_description ?? "",
           isSelected: true,
         };
       }
@@ -262,6 +344,21 @@ export function OrderReturnSection({ order, onReturnComplete, disabled = false }
   const handleSubmitReturn = async () => {
     if (disabled) return;
 
+    for (const item of items) {
+      const state = item.id ? itemReturnStates[item.id] : undefined;
+      if (!state) continue;
+      if (state.after_photo_uploading) {
+        showToast(`Wait for the after photo of "${item.product_name || 'item'}" to finish uploading`, "info");
+        return;
+      }
+      if (state.damage_lines.some((line) => !line.name.trim())) {
+        showToast(`Describe each damage for item "${item.product_name || 'item'}"`, "error");
+        return;
+      }
+    }
+
+    const damageAssessments: Array<{ itemId: string; afterPhotoUrl?: string | null; lines: DamageLineDraft[] }> = [];
+
     const itemReturns: Array<{
       itemId: string;
       returnStatus: "returned" | "missing" | "not_yet_returned";
@@ -282,7 +379,8 @@ export function OrderReturnSection({ order, onReturnComplete, disabled = false }
       const hasChanges = 
         currentReturnedQty !== newReturnedQty ||
         (item.damage_fee ?? 0) !== state.damage_fee ||
-        (item.damage_description ?? "") !== state.damage_description;
+        (item.damage_description ?? "") !== state.damage_description ||
+        state.damage_dirty;
 
       if (!hasChanges) return;
 
@@ -331,6 +429,14 @@ export function OrderReturnSection({ order, onReturnComplete, disabled = false }
         damage_description: state.damage_description?.trim() || undefined,
         actualReturnDate: finalReturnedQty > 0 ? new Date().toISOString() : undefined,
       });
+
+      if (state.damage_dirty) {
+        damageAssessments.push({
+          itemId: item.id,
+          afterPhotoUrl: state.after_photo_url || null,
+          lines: state.damage_lines,
+        });
+      }
     });
 
     if (itemReturns.length === 0) {
@@ -363,29 +469,50 @@ export function OrderReturnSection({ order, onReturnComplete, disabled = false }
     }
 
     try {
-      // ✅ FIX (Issue M3): Validate late fee is non-negative and reasonable
-      const feeValue = parseFloat(lateFee) || 0;
-      if (isNaN(feeValue) || feeValue < 0) {
-        showToast("Late fee must be a valid non-negative number", "error");
-        return;
-      }
-      
-      // Validate late fee is reasonable (not more than order total)
-      const orderTotal = order.total_amount || 0;
-      if (feeValue > orderTotal * 2) {
-        showToast(`Late fee (₹${feeValue.toLocaleString()}) seems unusually high. Please verify.`, "error");
-        return;
+      // Policy fee is recalculated at save time so it covers lateness up to now
+      const calculated = getCalculatedLateFee(new Date());
+      let fee: number;
+      let lateFeeOverride: { calculatedFee: number; reason: string } | undefined;
+
+      if (calculated && !isOverridingLateFee) {
+        fee = calculated.total;
+      } else {
+        // ✅ FIX (Issue M3): Validate late fee is non-negative and reasonable
+        const feeValue = parseFloat(lateFee) || 0;
+        if (isNaN(feeValue) || feeValue < 0) {
+          showToast("Late fee must be a valid non-negative number", "error");
+          return;
+        }
+        
+        // Validate late fee is reasonable (not more than order total)
+        const orderTotal = order.total_amount || 0;
+        if (feeValue > orderTotal * 2) {
+          showToast(`Late fee (₹${feeValue.toLocaleString()}) seems unusually high. Please verify.`, "error");
+          return;
+        }
+        
+        fee = Math.max(0, feeValue);
+
+        if (calculated && fee !== calculated.total) {
+          if (!lateFeeOverrideReason.trim()) {
+            showToast("Enter a reason for changing the calculated late fee", "error");
+            return;
+          }
+          lateFeeOverride = { calculatedFee: calculated.total, reason: lateFeeOverrideReason.trim() };
+        }
       }
-      
-      const fee = Math.max(0, feeValue);
 
-      await processReturnMutation.mutateAsync({
+      const result = await processReturnMutation.mutateAsync({
         orderId: order.id,
         itemReturns,
         lateFee: fee,
+        lateFeeOverride,
+        damageAssessments,
       });
 
       setLateFee("0");
+      setIsOverridingLateFee(false);
+      setLateFeeOverrideReason("");
       
       // Determine completion status
       const allFullyReturned = items.every((item) => {
@@ -411,6 +538,22 @@ export function OrderReturnSection({ order, onReturnComplete, disabled = false }
         showToast("Items returned successfully. Order marked as partially returned.", "success");
       }
 
+      if (result.depositRefund && result.depositRefund.held > 0) {
+        const { refund, deduction } = result.depositRefund;
+        showToast(
+          deduction > 0
+            ? `Suggested deposit refund: ${formatCurrency(refund)} (after ${formatCurrency(deduction)} deductions)`
+            : `Suggested deposit refund: ${formatCurrency(refund)}`,
+          "info"
+        );
+      }
+
+      if (result.approvalRequest) {
+        showToast("Charged the calculated late fee - the waiver was sent to a branch admin for approval", "info");
+      } else if (result.approvalError) {
+        showToast(`Charged the calculated late fee - ${result.approvalError}`, "error");
+      }
+
       onReturnComplete?.();
     } catch (error: any) {
       showToast(error.message || "Failed to process return", "error");
@@ -456,11 +599,25 @@ export function OrderReturnSection({ order, onReturnComplete, disabled = false }
       return (
         (item.returned_quantity ?? 0) !== state.returned_quantity ||
         (item.damage_fee ?? 0) !== state.damage_fee ||
-        (item.damage_description ?? "") !== state.damage_description
+        (item.damage_description ?? "") !== state.damage_description ||
+        state.damage_dirty
       );
     });
   }, [items, itemReturnStates]);
 
+  const handlePrintDamageAssessment = async () => {
+    if (!damageAssessments?.length) return;
+    setIsPrintingDamage(true);
+    try {
+      const { generateAndDownloadDamageAssessmentPDF } = await import("@/components/invoice/damage-assessment-pdf");
+      await generateAndDownloadDamageAssessmentPDF(order, damageAssessments, user);
+    } catch (error) {
+      showToast(getErrorMessage(error, "Failed to generate PDF"), "error");
+    } finally {
+      setIsPrintingDamage(false);
+    }
+  };
+
   const toggleItemExpansion = (itemId: string) => {
     setExpandedItems((prev) => {
       const newSet = new Set(prev);
@@ -537,31 +694,40 @@ export function OrderReturnSection({ order, onReturnComplete, disabled = false }
       <Card className="p-4">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-lg font-semibold text-gray-900">Items & Return Details</h2>
-          {!disabled && (
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={handleMarkAllReturned}
-              className="text-xs"
-              disabled={disabled}
-            >
-              Mark All as Returned
-            </Button>
-          )}
+          <div className="flex items-center gap-2">
+            {!!damageAssessments?.length && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handlePrintDamageAssessment}
+                className="text-xs"
+                disabled={isPrintingDamage}
+              >
+                <Printer className="h-3.5 w-3.5 mr-1" />
+                {isPrintingDamage ? "Preparing..." : "Damage Report"}
+              </Button>
+            )}
+            {!disabled && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleMarkAllReturned}
+                className="text-xs"
+                disabled={disabled}
+              >
+                Mark All as Returned
+              </Button>
+            )}
+          </div>
         </div>
 
         <div className="space-y-3">
           {items.map((item) => {
-            const state = itemReturnStates[item.id!] || {
-              returned_quantity: 0,
-              damage_fee: 0,
-              damage_description: "",
-              isSelected: false,
-            };
+            const state = itemReturnStates[item.id!] || EMPTY_ITEM_STATE;
             const returned = isItemReturned(item);
             const fullyReturned = isItemFullyReturned(item);
             // Calculate partiallyReturned from state (local) instead of item (database)
-            // This allows damage fields to show immediately while editing
+            // so badges update immediately while editing
             const partiallyReturned = state.returned_quantity > 0 && state.returned_quantity < item.quantity;
             const itemLate = isItemLate(item);
             const isExpanded = expandedItems.has(item.id!);
@@ -642,7 +808,7 @@ export function OrderReturnSection({ order, onReturnComplete, disabled = false }
                       </div>
                     </div>
 
-                    {/* Show quantity input when checkbox is checked, damage fields only when quantity is missing */}
+                    {/* Show quantity input and damage assessment when checkbox is checked */}
                     {state.isSelected && (
                       <div className="space-y-3 mt-3 pt-3 border-t border-gray-200">
                         {/* Returned Quantity - Always editable when checkbox is checked */}
@@ -676,41 +842,21 @@ export function OrderReturnSection({ order, onReturnComplete, disabled = false }
                           </div>
                         </div>
 
-                        {/* Damage Fee & Description - Only show when quantity is missing (partial return) */}
-                        {partiallyReturned && (
-                          <>
-                            <div>
-                              <Label htmlFor={`damage-fee-${item.id}`} className="text-sm font-medium">
-                                Damage Fee (₹)
-                              </Label>
-                              <Input
-                                id={`damage-fee-${item.id}`}
-                                type="number"
-                                min="0"
-                                step="0.01"
-                                value={state.damage_fee || ""}
-                                onChange={(e) => handleDamageFeeChange(item.id!, e.target.value)}
-                                placeholder="0.00"
-                                className="mt-1"
-                                disabled={disabled}
-                              />
-                            </div>
-
-                            <div>
-                              <Label htmlFor={`damage-desc-${item.id}`} className="text-sm font-medium">
-                                Damage Description / Issues
-                              </Label>
-                              <Textarea
-                                id={`damage-desc-${item.id}`}
-                                value={state.damage_description}
-                                onChange={(e) => handleDamageDescriptionChange(item.id!, e.target.value)}
-                                placeholder="Describe any damage, missing parts, or issues..."
-                                className="mt-1 min-h-[80px]"
-                                disabled={disabled}
-                              />
-                            </div>
-                          </>
-                        )}
+                        {/* Damage assessment - before/after photos and itemised damage */}
+                        <div>
+                          <p className="text-sm font-medium mb-2">Damage Assessment</p>
+                          <DamageAssessmentEditor
+                            itemId={item.id!}
+                            beforePhotoUrl={item.photo_url}
+                            afterPhotoUrl={state.after_photo_url}
+                            lines={state.damage_lines}
+                            damageTypes={damageTypes}
+                            disabled={disabled}
+                            onLinesChange={(lines) => handleDamageLinesChange(item.id!, lines)}
+                            onAfterPhotoChange={(url, uploading) => handleAfterPhotoChange(item.id!, url, uploading)}
+                            onPhotoClick={setSelectedImage}
+                          />
+                        </div>
                       </div>
                     )}
                   </div>
@@ -727,18 +873,66 @@ export function OrderReturnSection({ order, onReturnComplete, disabled = false }
           <Label htmlFor="late-fee" className="text-sm font-medium">
             Late Fee (₹) {isLate && <span className="text-orange-600">* Optional</span>}
           </Label>
-          <Input
-            id="late-fee"
-            type="number"
-            value={lateFee}
-            onChange={(e) => setLateFee(e.target.value)}
-            placeholder="0"
-            min="0"
-            step="0.01"
-            className="h-12"
-            disabled={disabled}
-          />
-          {isLate && (
+          <div className="flex items-center gap-2">
+            <Input
+              id="late-fee"
+              type="number"
+              value={isLateFeeAutomatic ? String(calculatedLateFee.total) : lateFee}
+              onChange={(e) => setLateFee(e.target.value)}
+              placeholder="0"
+              min="0"
+              step="0.01"
+              className="h-12"
+              disabled={disabled || isLateFeeAutomatic}
+            />
+            {calculatedLateFee && !disabled && canOverrideLateFee && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={isOverridingLateFee ? handleCancelLateFeeOverride : handleOverrideLateFee}
+                className="h-12 flex-shrink-0"
+              >
+                {isOverridingLateFee ? "Use Calculated" : "Override"}
+              </Button>
+            )}
+          </div>
+          {calculatedLateFee && lateFeePolicy && (
+            <div className="text-xs text-gray-500 space-y-0.5">
+              <p>Branch policy: {describeLateFeePolicy(lateFeePolicy)}</p>
+              {calculatedLateFee.lines
+                .filter((line) => line.lateUnits > 0)
+                .map((line, index) => (
+                  <p key={`${line.itemId || index}-${line.returned}`}>
+                    {line.name} × {line.quantity}
+                    {line.returned ? " (returned)" : ""}: {line.lateUnits} {lateFeePolicy.unit}
+                    {line.lateUnits !== 1 ? "s" : ""} late = {formatCurrency(line.fee)}
+                  </p>
+                ))}
+              {calculatedLateFee.capped && (
+                <p>
+                  {formatCurrency(calculatedLateFee.uncapped)} capped at {formatCurrency(calculatedLateFee.total)}
+                </p>
+              )}
+            </div>
+          )}
+          {isOverridingLateFee && (
+            <div className="space-y-1 pt-1">
+              <Label htmlFor="late-fee-reason" className="text-sm font-medium">
+                Reason for override *
+              </Label>
+              <Textarea
+                id="late-fee-reason"
+                value={lateFeeOverrideReason}
+                onChange={(e) => setLateFeeOverrideReason(e.target.value)}
+                placeholder="e.g. Customer informed in advance, waived by manager"
+                rows={2}
+              />
+              <p className="text-xs text-gray-500">
+                Calculated fee: {formatCurrency(calculatedLateFee?.total ?? 0)}. The change is recorded on the order timeline.
+              </p>
+            </div>
+          )}
+          {isLate && !calculatedLateFee && (
             <p className="text-xs text-gray-500">
               This order was returned after the due date ({formatDateTime(endDate, false)}). 
               Enter a late fee if applicable.
@@ -764,7 +958,7 @@ export function OrderReturnSection({ order, onReturnComplete, disabled = false }
       )}
 
       {/* Disabled Message */}
-      {disabled && (
+      {notStarted && (
         <Card className="p-4 bg-blue-50 border-blue-200">
           <div className="flex items-center gap-2">
             <Clock className="h-5 w-5 text-blue-600 flex-shrink-0" />
@@ -774,6 +968,16 @@ export function OrderReturnSection({ order, onReturnComplete, disabled = false }
           </div>
         </Card>
       )}
+      {!notStarted && !canProcessReturn && (
+        <Card className="p-4 bg-gray-50 border-gray-200">
+          <div className="flex items-center gap-2">
+            <AlertCircle className="h-5 w-5 text-gray-500 flex-shrink-0" />
+            <p className="text-gray-700 font-medium">
+              You don&apos;t have permission to process returns.
+            </p>
+          </div>
+        </Card>
+      )}
 
       {/* Image Lightbox */}
       {selectedImage && (
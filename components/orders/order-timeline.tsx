@@ -21,6 +21,14 @@ import {
   RotateCcw,
   Ban,
   CheckCircle2,
+  Wallet,
+  CreditCard,
+  ReceiptText,
+  BellRing,
+  ShieldAlert,
+  Hourglass,
+  Scissors,
+  Shirt,
 } from "lucide-react";
 
 interface OrderTimelineProps {
@@ -59,6 +67,30 @@ export function OrderTimeline({ orderId }: OrderTimelineProps) {
         return <Ban className="h-4 w-4" />;
       case "updated_return_date":
         return <Clock className="h-4 w-4" />;
+      case "deposit_collected":
+      case "deposit_deducted":
+      case "deposit_refunded":
+        return <Wallet className="h-4 w-4" />;
+      case "payment_received":
+        return <CreditCard className="h-4 w-4" />;
+      case "late_fee_overridden":
+        return <DollarSign className="h-4 w-4" />;
+      case "credit_note_issued":
+        return <ReceiptText className="h-4 w-4" />;
+      case "reminder_sent":
+        return <BellRing className="h-4 w-4" />;
+      case "blacklist_overridden":
+        return <ShieldAlert className="h-4 w-4" />;
+      case "approval_requested":
+        return <Hourglass className="h-4 w-4" />;
+      case "approval_approved":
+        return <CheckCircle2 className="h-4 w-4" />;
+      case "approval_rejected":
+        return <XCircle className="h-4 w-4" />;
+      case "expense_recorded":
+        return <Scissors className="h-4 w-4" />;
+      case "maintenance_status_changed":
+        return <Shirt className="h-4 w-4" />;
       default:
         return <Clock className="h-4 w-4" />;
     }
@@ -107,6 +139,39 @@ export function OrderTimeline({ orderId }: OrderTimelineProps) {
         return "Pending Return";
       case "updated_return_date":
         return "Return Date Updated";
+      case "deposit_collected":
+        return "Deposit Collected";
+      case "deposit_deducted":
+        return "Deposit Deducted";
+      case "deposit_refunded":
+        return "Deposit Refunded";
+      case "payment_received":
+        return "Payment Received";
+      case "late_fee_overridden":
+        return "Late Fee Overridden";
+      case "credit_note_issued":
+        return "Credit Note Issued";
+      case "reminder_sent":
+        return "Reminder Sent";
+      case "blacklist_overridden":
+        return "Blacklist Overridden";
+      case "approval_requested":
+        return "Approval Requested";
+      case "approval_approved":
+        return "Approved";
+      case "approval_rejected":
+        return "Rejected";
+      case "expense_recorded":
+        return "Expense Recorded";
+      case "maintenance_status_changed":
+        if (event.new_status === "cleaning") {
+          return "Sent to Cleaning";
+        } else if (event.new_status === "repair") {
+          return "Sent to Repair";
+        } else if (event.new_status === "ready") {
+          return "Ready to Rent";
+        }
+        return "Maintenance Updated";
       default:
         return action.replace(/_/g, " ").replace(/\b\w/g, (l) => l.toUpperCase());
     }
@@ -141,6 +206,32 @@ export function OrderTimeline({ orderId }: OrderTimelineProps) {
         return "bg-red-500 text-white border-red-600";
       case "order_pending_return":
         return "bg-yellow-100 text-yellow-700 border-yellow-200";
+      case "deposit_collected":
+        return "bg-teal-100 text-teal-700 border-teal-200";
+      case "deposit_deducted":
+        return "bg-orange-100 text-orange-700 border-orange-200";
+      case "deposit_refunded":
+        return "bg-emerald-100 text-emerald-700 border-emerald-200";
+      case "payment_received":
+        return "bg-green-100 text-green-700 border-green-200";
+      case "late_fee_overridden":
+        return "bg-orange-100 text-orange-700 border-orange-200";
+      case "credit_note_issued":
+        return "bg-rose-100 text-rose-700 border-rose-200";
+      case "reminder_sent":
+        return "bg-sky-100 text-sky-700 border-sky-200";
+      case "blacklist_overridden":
+        return "bg-red-100 text-red-700 border-red-200";
+      case "approval_requested":
+        return "bg-yellow-100 text-yellow-800 border-yellow-200";
+      case "approval_approved":
+        return "bg-green-100 text-green-700 border-green-200";
+      case "approval_rejected":
+        return "bg-red-100 text-red-700 border-red-200";
+      case "expense_recorded":
+        return "bg-amber-100 text-amber-800 border-amber-200";
+      case "maintenance_status_changed":
+        return "bg-cyan-100 text-cyan-800 border-cyan-200";
       default:
         return "bg-gray-100 text-gray-700 border-gray-200";
     }
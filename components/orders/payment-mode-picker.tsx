@@ -0,0 +1,48 @@
+"use client";
+
+import { Banknote, Smartphone, CreditCard, MoreHorizontal } from "lucide-react";
+import { PAYMENT_MODE_LABELS } from "@/lib/queries/payments";
+import type { PaymentMode } from "@/lib/types";
+
+interface PaymentModePickerProps {
+  value: PaymentMode;
+  onChange: (mode: PaymentMode) => void;
+  disabled?: boolean;
+}
+
+const MODE_ICONS: Record<PaymentMode, typeof Banknote> = {
+  cash: Banknote,
+  upi: Smartphone,
+  card: CreditCard,
+  other: MoreHorizontal,
+};
+
+/**
+ * Segmented control for choosing how a payment was made
+ */
+export function PaymentModePicker({ value, onChange, disabled = false }: PaymentModePickerProps) {
+  return (
+    <div className="grid grid-cols-4 gap-2">
+      {(Object.keys(PAYMENT_MODE_LABELS) as PaymentMode[]).map((mode) => {
+        const Icon = MODE_ICONS[mode];
+        const selected = value === mode;
+        return (
+          <button
+            key={mode}
+            type="button"
+            onClick={() => onChange(mode)}
+            disabled={disabled}
+            className={`flex flex-col items-center gap-1 py-2 rounded-lg border text-xs font-medium transition-colors disabled:opacity-50 ${
+              selected
+                ? "border-[#273492] bg-[#273492]/10 text-[#273492]"
+                : "border-gray-200 text-gray-600 hover:border-[#273492]/40"
+            }`}
+          >
+            <Icon className="h-4 w-4" />
+            {PAYMENT_MODE_LABELS[mode]}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
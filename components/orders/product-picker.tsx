@@ -0,0 +1,105 @@
+"use client";
+
+import { useState } from "react";
+import { Package, Search, Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useDebounce } from "@/lib/hooks/use-debounce";
+import { useProducts } from "@/lib/queries/products";
+import { useUserStore } from "@/lib/stores/useUserStore";
+import { formatCurrency } from "@/lib/utils/date";
+import type { Product } from "@/lib/types";
+
+interface ProductPickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (product: Product) => void;
+}
+
+/**
+ * Catalog picker for the order flow.
+ * Lists active products of the current branch, searchable by name, SKU or category.
+ */
+export function ProductPicker({ open, onOpenChange, onSelect }: ProductPickerProps) {
+  const { user } = useUserStore();
+  const [search, setSearch] = useState("");
+  const debouncedSearch = useDebounce(search, 300);
+
+  const { data: products, isLoading } = useProducts(user?.branch_id || null, {
+    search: debouncedSearch,
+  });
+
+  const handleSelect = (product: Product) => {
+    onSelect(product);
+    setSearch("");
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent onClose={() => onOpenChange(false)} className="p-4 sm:p-6">
+        <DialogHeader>
+          <DialogTitle>Add from Catalog</DialogTitle>
+          <DialogDescription>Pick a product to fill in the item</DialogDescription>
+        </DialogHeader>
+
+        <div className="relative mt-4">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search name, SKU or category..."
+            className="h-11 pl-9 rounded-xl"
+            autoFocus
+          />
+        </div>
+
+        <div className="mt-3 max-h-[55vh] overflow-y-auto -mx-1 px-1 space-y-2">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-[#273492]" />
+            </div>
+          ) : !products || products.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-8 text-gray-500">
+              <Package className="h-10 w-10 text-gray-300" />
+              <p className="text-sm">
+                {debouncedSearch ? "No matching products" : "No products in this branch's catalog"}
+              </p>
+            </div>
+          ) : (
+            products.map((product) => (
+              <button
+                key={product.id}
+                type="button"
+                onClick={() => handleSelect(product)}
+                className="w-full flex items-center gap-3 p-2 rounded-xl border border-gray-200 hover:border-[#273492] hover:bg-[#273492]/5 text-left transition-colors"
+              >
+                <img
+                  src={product.photo_url}
+                  alt={product.name}
+                  className="w-14 h-14 object-cover rounded-lg border border-gray-200 flex-shrink-0"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{product.name}</p>
+                  <div className="flex items-center gap-2 mt-0.5">
+                    <span className="text-xs text-gray-500 font-mono">{product.sku}</span>
+                    {product.category && (
+                      <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-4 border-gray-300">
+                        {product.category}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                <div className="text-right flex-shrink-0">
+                  <p className="text-sm font-semibold text-[#273492]">{formatCurrency(product.default_daily_rate)}</p>
+                  <p className="text-[10px] text-gray-500">Stock {product.stock_quantity}</p>
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,7 +5,10 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/components/ui/toast";
-import { useCreateCustomer } from "@/lib/queries/customers";
+import { CustomerDuplicateWarning } from "@/components/customers/customer-duplicate-warning";
+import { useCreateCustomer, useDuplicateCustomers } from "@/lib/queries/customers";
+import { useDebounce } from "@/lib/hooks/use-debounce";
+import { isStrongDuplicate } from "@/lib/utils/customer-duplicates";
 import type { Customer } from "@/lib/types";
 
 interface SimpleCustomerFormProps {
@@ -23,6 +26,12 @@ export function SimpleCustomerForm({ onSuccess, onCancel }: SimpleCustomerFormPr
 
   const [name, setName] = useState("");
   const [phone, setPhone] = useState("");
+  const [notDuplicateConfirmed, setNotDuplicateConfirmed] = useState(false);
+
+  const debouncedName = useDebounce(name, 400);
+  const debouncedPhone = useDebounce(phone, 400);
+  const { data: duplicates = [] } = useDuplicateCustomers({ name: debouncedName, phone: debouncedPhone });
+  const hasStrongDuplicate = duplicates.some(isStrongDuplicate);
 
   // Phone number validation: exactly 10 digits
   const validatePhone = (phone: string): boolean => {
@@ -43,6 +52,11 @@ export function SimpleCustomerForm({ onSuccess, onCancel }: SimpleCustomerFormPr
       return;
     }
 
+    if (hasStrongDuplicate && !notDuplicateConfirmed) {
+      showToast("This customer may already exist. Use the existing customer or confirm it's a different person.", "error");
+      return;
+    }
+
     try {
       const customer = await createCustomerMutation.mutateAsync({
         name: name.trim(),
@@ -52,6 +66,7 @@ export function SimpleCustomerForm({ onSuccess, onCancel }: SimpleCustomerFormPr
         id_proof_number: null,
         id_proof_front_url: null,
         id_proof_back_url: null,
+        allow_duplicate: notDuplicateConfirmed,
       });
 
       showToast("Customer added successfully", "success");
@@ -60,12 +75,13 @@ export function SimpleCustomerForm({ onSuccess, onCancel }: SimpleCustomerFormPr
       // Reset form
       setName("");
       setPhone("");
+      setNotDuplicateConfirmed(false);
     } catch (error: any) {
       console.error("Error creating customer:", error);
       showToast(
         error.message?.includes("unique") 
           ? "Phone number already exists" 
-          : "Failed to create customer",
+          : error.message || "Failed to create customer",
         "error"
       );
     }
@@ -100,6 +116,7 @@ export function SimpleCustomerForm({ onSuccess, onCancel }: SimpleCustomerFormPr
             // Only allow digits and limit to 10
             const value = e.target.value.replace(/\D/g, "").slice(0, 10);
             setPhone(value);
+            setNotDuplicateConfirmed(false);
           }}
           placeholder="Enter 10-digit phone number"
           className="h-14 text-base rounded-xl border-2 focus:border-[#273492]"
@@ -114,6 +131,13 @@ export function SimpleCustomerForm({ onSuccess, onCancel }: SimpleCustomerFormPr
         )}
       </div>
 
+      <CustomerDuplicateWarning
+        matches={duplicates}
+        onUseCustomer={onSuccess}
+        confirmed={notDuplicateConfirmed}
+        onConfirmedChange={setNotDuplicateConfirmed}
+      />
+
       {/* Note */}
       <p className="text-xs text-gray-500">
         You can add address and ID proof later from customer details page.
@@ -132,7 +156,12 @@ export function SimpleCustomerForm({ onSuccess, onCancel }: SimpleCustomerFormPr
         </Button>
         <Button
           type="submit"
-          disabled={createCustomerMutation.isPending || !name.trim() || !validatePhone(phone)}
+          disabled={
+            createCustomerMutation.isPending ||
+            !name.trim() ||
+            !validatePhone(phone) ||
+            (hasStrongDuplicate && !notDuplicateConfirmed)
+          }
           className="flex-1 h-14 bg-[#273492] hover:bg-[#1f2a7a] text-white text-base font-semibold rounded-xl"
         >
           {createCustomerMutation.isPending ? "Adding..." : "Add Customer"}
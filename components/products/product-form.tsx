@@ -0,0 +1,314 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Camera, Loader2, Package } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { StandardButton } from "@/components/shared/standard-button";
+import { useToast } from "@/components/ui/toast";
+import { createClient } from "@/lib/supabase/client";
+import { compressImage, createPreviewUrl, revokePreviewUrl } from "@/lib/utils/image-compression";
+import { DEFAULT_RENTAL_SAC } from "@/lib/utils/gst";
+import type { Product } from "@/lib/types";
+import { getErrorMessage } from "@/lib/utils/error";
+
+export interface ProductFormValues {
+  sku: string;
+  name: string;
+  category: string;
+  hsn_sac: string;
+  default_daily_rate: number;
+  stock_quantity: number;
+  photo_url: string;
+}
+
+interface ProductFormProps {
+  product?: Product;
+  submitLabel: string;
+  submitting?: boolean;
+  onSubmit: (values: ProductFormValues) => void | Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Shared create/edit form for catalog products.
+ * Photos are compressed and uploaded to the "product-photos" bucket.
+ */
+export function ProductForm({ product, submitLabel, submitting = false, onSubmit, onCancel }: ProductFormProps) {
+  const { showToast } = useToast();
+  const supabase = createClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [formData, setFormData] = useState({
+    sku: product?.sku || "",
+    name: product?.name || "",
+    category: product?.category || "",
+    hsn_sac: product?.hsn_sac || "",
+    default_daily_rate: product ? product.default_daily_rate.toString() : "",
+    stock_quantity: product ? product.stock_quantity.toString() : "1",
+  });
+  const [photoUrl, setPhotoUrl] = useState(product?.photo_url || "");
+  const [preview, setPreview] = useState<string | null>(product?.photo_url || null);
+  const [uploading, setUploading] = useState(false);
+
+  const handlePhotoSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+    if (!file) return;
+
+    const instantPreview = createPreviewUrl(file);
+    setPreview(instantPreview);
+    setUploading(true);
+
+    try {
+      let compressedFile: File;
+      try {
+        compressedFile = await compressImage(file);
+      } catch {
+        compressedFile = file;
+      }
+
+      const timestamp = Date.now();
+      const random = Math.random().toString(36).substring(7);
+      const filePath = `products/${timestamp}-${random}.jpg`;
+
+      const { error: uploadError } = await supabase.storage
+        .from("product-photos")
+        .upload(filePath, compressedFile, {
+          cacheControl: "31536000",
+          upsert: false,
+          contentType: "image/jpeg",
+        });
+
+      if (uploadError) {
+        if (uploadError.message?.includes("Bucket not found")) {
+          throw new Error("Storage bucket not found. Please run 'supabase-migrations/add-products-catalog.sql' in Supabase SQL Editor.");
+        }
+        throw uploadError;
+      }
+
+      const {
+        data: { publicUrl },
+      } = supabase.storage.from("product-photos").getPublicUrl(filePath);
+
+      setPhotoUrl(publicUrl);
+      setPreview(publicUrl);
+    } catch (error) {
+      console.error("Error uploading product photo:", error);
+      setPreview(photoUrl || null);
+      showToast(getErrorMessage(error, "Failed to upload photo"), "error");
+    } finally {
+      revokePreviewUrl(instantPreview);
+      setUploading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const sku = formData.sku.trim();
+    const name = formData.name.trim();
+    const rate = parseFloat(formData.default_daily_rate);
+    const stock = parseInt(formData.stock_quantity, 10);
+    const hsnSac = formData.hsn_sac.trim();
+
+    if (!sku || !name) {
+      showToast("SKU and product name are required", "error");
+      return;
+    }
+    if (isNaN(rate) || rate <= 0) {
+      showToast("Daily rate must be greater than 0", "error");
+      return;
+    }
+    if (isNaN(stock) || stock < 0 || !Number.isInteger(stock)) {
+      showToast("Stock quantity must be a whole number (0 or more)", "error");
+      return;
+    }
+    if (hsnSac && !/^[0-9]{4,8}$/.test(hsnSac)) {
+      showToast("HSN/SAC code must be 4 to 8 digits", "error");
+      return;
+    }
+    if (uploading) {
+      showToast("Please wait for the photo to finish uploading", "info");
+      return;
+    }
+    if (!photoUrl) {
+      showToast("Product photo is required", "error");
+      return;
+    }
+
+    await onSubmit({
+      sku,
+      name,
+      category: formData.category.trim(),
+      hsn_sac: hsnSac,
+      default_daily_rate: Math.round(rate * 100) / 100,
+      stock_quantity: stock,
+      photo_url: photoUrl,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {/* Photo */}
+      <div className="space-y-2">
+        <Label className="text-sm font-semibold">
+          Photo <span className="text-[#e7342f]">*</span>
+        </Label>
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={handlePhotoSelect}
+          accept="image/*"
+          capture="environment"
+          className="hidden"
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploading}
+          className="relative w-32 h-32 rounded-xl border-2 border-dashed border-gray-300 bg-gray-50 flex items-center justify-center overflow-hidden hover:border-[#273492] transition-colors"
+        >
+          {preview ? (
+            <img src={preview} alt="Product" className="w-full h-full object-cover" />
+          ) : (
+            <div className="flex flex-col items-center gap-1 text-gray-400">
+              <Camera className="h-8 w-8" />
+              <span className="text-xs">Add photo</span>
+            </div>
+          )}
+          {uploading && (
+            <div className="absolute inset-0 bg-black/30 flex items-center justify-center">
+              <Loader2 className="h-6 w-6 text-white animate-spin" />
+            </div>
+          )}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {/* SKU */}
+        <div className="space-y-2">
+          <Label htmlFor="sku" className="text-sm font-semibold">
+            SKU <span className="text-[#e7342f]">*</span>
+          </Label>
+          <Input
+            id="sku"
+            placeholder="e.g., LEH-RED-001"
+            value={formData.sku}
+            onChange={(e) => setFormData({ ...formData, sku: e.target.value })}
+            className="h-12 uppercase"
+            required
+          />
+        </div>
+
+        {/* Category */}
+        <div className="space-y-2">
+          <Label htmlFor="category" className="text-sm font-semibold">
+            Category
+          </Label>
+          <Input
+            id="category"
+            placeholder="e.g., Lehenga, Sherwani"
+            value={formData.category}
+            onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+            className="h-12"
+          />
+        </div>
+      </div>
+
+      {/* Name */}
+      <div className="space-y-2">
+        <Label htmlFor="name" className="text-sm font-semibold">
+          Product Name <span className="text-[#e7342f]">*</span>
+        </Label>
+        <Input
+          id="name"
+          placeholder="e.g., Red Bridal Lehenga"
+          value={formData.name}
+          onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+          className="h-12"
+          required
+        />
+      </div>
+
+      {/* HSN/SAC */}
+      <div className="space-y-2">
+        <Label htmlFor="hsn_sac" className="text-sm font-semibold">
+          HSN/SAC Code
+        </Label>
+        <Input
+          id="hsn_sac"
+          inputMode="numeric"
+          placeholder={`Defaults to ${DEFAULT_RENTAL_SAC} (rental services)`}
+          value={formData.hsn_sac}
+          onChange={(e) => setFormData({ ...formData, hsn_sac: e.target.value.replace(/\D/g, "").slice(0, 8) })}
+          className="h-12"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {/* Daily Rate */}
+        <div className="space-y-2">
+          <Label htmlFor="rate" className="text-sm font-semibold">
+            Daily Rate (₹) <span className="text-[#e7342f]">*</span>
+          </Label>
+          <Input
+            id="rate"
+            type="number"
+            inputMode="decimal"
+            min="0"
+            step="0.01"
+            placeholder="0"
+            value={formData.default_daily_rate}
+            onChange={(e) => setFormData({ ...formData, default_daily_rate: e.target.value })}
+            className="h-12"
+            required
+          />
+        </div>
+
+        {/* Stock */}
+        <div className="space-y-2">
+          <Label htmlFor="stock" className="text-sm font-semibold">
+            Stock Quantity <span className="text-[#e7342f]">*</span>
+          </Label>
+          <Input
+            id="stock"
+            type="number"
+            inputMode="numeric"
+            min="0"
+            step="1"
+            value={formData.stock_quantity}
+            onChange={(e) => setFormData({ ...formData, stock_quantity: e.target.value })}
+            className="h-12"
+            required
+          />
+        </div>
+      </div>
+
+      {/* Actions */}
+      <div className="flex items-center gap-3 pt-4">
+        <StandardButton
+          type="button"
+          variant="outline"
+          onClick={onCancel}
+          className="flex-1"
+          disabled={submitting}
+        >
+          Cancel
+        </StandardButton>
+        <StandardButton
+          type="submit"
+          variant="default"
+          className="flex-1"
+          disabled={submitting || uploading}
+          loading={submitting}
+          icon={Package}
+        >
+          {submitLabel}
+        </StandardButton>
+      </div>
+    </form>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { QueryProvider } from "./query-provider";
 import { ToastProvider } from "@/components/ui/toast";
+import { ServiceWorkerRegistration } from "./service-worker-registration";
 
 export function AppProviders({ children }: { children: React.ReactNode }) {
   return (
@@ -9,6 +10,7 @@ export function AppProviders({ children }: { children: React.ReactNode }) {
       <ToastProvider>
         {children}
       </ToastProvider>
+      <ServiceWorkerRegistration />
     </QueryProvider>
   );
 }
@@ -18,7 +18,9 @@ export function QueryProvider({ children }: { children: React.ReactNode }) {
             refetchOnReconnect: true, // Refresh after reconnection
             retry: 1, // Retry once on failure
             retryDelay: 500, // 500ms delay - faster retry
-            networkMode: "online", // Only retry when online
+            // Run the first fetch even offline so the service worker can answer
+            // from its cache; retries still wait for the connection
+            networkMode: "offlineFirst",
             // Structural sharing for better performance
             structuralSharing: true,
             // Optimistic updates enabled
@@ -0,0 +1,19 @@
+"use client";
+
+import { useEffect } from "react";
+
+/**
+ * Registers public/sw.js, which caches the app shell and the last-known data
+ * for offline use. Production only - it would serve stale chunks during dev.
+ */
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+
+    navigator.serviceWorker
+      .register("/sw.js")
+      .catch((error) => console.error("Service worker registration failed:", error));
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,258 @@
+"use client";
+
+/**
+ * STAFF PAYOUT STATEMENT PDF
+ *
+ * Monthly statement for a branch (or all branches): one row per staff member
+ * with bookings, returns, late fees and the commission due, then totals and
+ * a sign-off line. Landscape so every column fits on one line.
+ */
+
+import { Document, Page, Text, View, StyleSheet, type DocumentProps } from "@react-pdf/renderer";
+import type { ReactElement } from "react";
+import { format } from "date-fns";
+import type { StaffPerformanceRow } from "@/lib/queries/staff";
+
+interface StaffPayoutPDFProps {
+  rows: StaffPerformanceRow[];
+  month: Date;
+  branchName: string;
+  commissionRule: string;
+}
+
+function formatRs(amount: number | null | undefined): string {
+  const safeAmount = amount ?? 0;
+  const fixed = safeAmount.toFixed(2);
+  const parts = fixed.split(".");
+  const formattedInteger = parts[0].replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+  return `Rs ${formattedInteger}.${parts[1] || "00"}`;
+}
+
+const COLUMNS: { key: keyof StaffPerformanceRow; label: string; money?: boolean }[] = [
+  { key: "orders_booked", label: "Orders" },
+  { key: "revenue", label: "Revenue", money: true },
+  { key: "rent", label: "Rent", money: true },
+  { key: "returns_processed", label: "Returns" },
+  { key: "late_fees_collected", label: "Late Fees", money: true },
+  { key: "late_fees_waived", label: "Waived", money: true },
+  { key: "cancellations", label: "Cancelled" },
+  { key: "commission", label: "Commission", money: true },
+];
+
+const styles = StyleSheet.create({
+  page: {
+    padding: 24,
+    fontSize: 9,
+    fontFamily: "Helvetica",
+    backgroundColor: "#ffffff",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-end",
+    paddingBottom: 12,
+    borderBottom: "2px solid #e5e7eb",
+  },
+  shopName: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#111827",
+    marginBottom: 4,
+  },
+  infoText: {
+    fontSize: 8,
+    color: "#000000",
+    lineHeight: 1.4,
+  },
+  documentLabel: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#273492",
+    marginBottom: 4,
+    textAlign: "right",
+  },
+  monthText: {
+    fontSize: 10,
+    fontWeight: "600",
+    color: "#374151",
+    textAlign: "right",
+  },
+  table: {
+    marginTop: 14,
+  },
+  tableHeader: {
+    flexDirection: "row",
+    backgroundColor: "#f8f9fa",
+    borderBottom: "1px solid #e5e7eb",
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+  },
+  tableHeaderText: {
+    fontSize: 8,
+    fontWeight: "700",
+    color: "#000000",
+  },
+  tableRow: {
+    flexDirection: "row",
+    borderBottom: "1px solid #f3f4f6",
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+  },
+  totalRow: {
+    flexDirection: "row",
+    borderTop: "1.5px solid #111827",
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+  },
+  cellName: {
+    flex: 1,
+    fontSize: 8.5,
+    color: "#111827",
+  },
+  cellCount: {
+    width: 55,
+    fontSize: 8.5,
+    color: "#000000",
+    textAlign: "right",
+  },
+  cellAmount: {
+    width: 85,
+    fontSize: 8.5,
+    color: "#000000",
+    textAlign: "right",
+  },
+  bold: {
+    fontWeight: "700",
+  },
+  footer: {
+    marginTop: 40,
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-end",
+  },
+  footerNote: {
+    fontSize: 7.5,
+    color: "#6b7280",
+    maxWidth: 420,
+    lineHeight: 1.4,
+  },
+  signatureBlock: {
+    alignItems: "center",
+    width: 160,
+  },
+  signatureLine: {
+    borderTop: "1px solid #000000",
+    width: "100%",
+    marginBottom: 4,
+  },
+  signatureText: {
+    fontSize: 7.5,
+    color: "#000000",
+  },
+});
+
+export function StaffPayoutPDF({ rows, month, branchName, commissionRule }: StaffPayoutPDFProps) {
+  const totals = rows.reduce<Record<string, number>>((sum, row) => {
+    COLUMNS.forEach(({ key }) => {
+      sum[key] = (sum[key] || 0) + (Number(row[key]) || 0);
+    });
+    return sum;
+  }, {});
+
+  const renderValue = (value: number, money?: boolean) => (money ? formatRs(value) : String(value));
+
+  return (
+    <Document>
+      <Page size="A4" orientation="landscape" style={styles.page}>
+        {/* Header */}
+        <View style={styles.header}>
+          <View>
+            <Text style={styles.shopName}>{branchName}</Text>
+            <Text style={styles.infoText}>Commission: {commissionRule}</Text>
+            <Text style={styles.infoText}>Generated {format(new Date(), "dd MMM yyyy, hh:mm a")}</Text>
+          </View>
+          <View>
+            <Text style={styles.documentLabel}>PAYOUT STATEMENT</Text>
+            <Text style={styles.monthText}>{format(month, "MMMM yyyy")}</Text>
+          </View>
+        </View>
+
+        {/* Staff rows */}
+        <View style={styles.table}>
+          <View style={styles.tableHeader}>
+            <Text style={[styles.tableHeaderText, styles.cellName]}>Staff</Text>
+            {COLUMNS.map((column) => (
+              <Text
+                key={column.key}
+                style={[styles.tableHeaderText, column.money ? styles.cellAmount : styles.cellCount]}
+              >
+                {column.label}
+              </Text>
+            ))}
+          </View>
+          {rows.map((row) => (
+            <View key={row.staff_id} style={styles.tableRow} wrap={false}>
+              <Text style={styles.cellName}>{row.name}</Text>
+              {COLUMNS.map((column) => (
+                <Text
+                  key={column.key}
+                  style={[column.money ? styles.cellAmount : styles.cellCount, column.key === "commission" ? styles.bold : {}]}
+                >
+                  {renderValue(Number(row[column.key]) || 0, column.money)}
+                </Text>
+              ))}
+            </View>
+          ))}
+          <View style={styles.totalRow} wrap={false}>
+            <Text style={[styles.cellName, styles.bold]}>Total</Text>
+            {COLUMNS.map((column) => (
+              <Text key={column.key} style={[column.money ? styles.cellAmount : styles.cellCount, styles.bold]}>
+                {renderValue(totals[column.key] || 0, column.money)}
+              </Text>
+            ))}
+          </View>
+        </View>
+
+        {/* Footer */}
+        <View style={styles.footer} wrap={false}>
+          <Text style={styles.footerNote}>
+            Orders, revenue and commission are for orders booked in {format(month, "MMMM yyyy")}; cancelled orders earn no
+            commission. Returns, late fees, waivers and cancellations are counted for whoever processed them in the month.
+          </Text>
+          <View style={styles.signatureBlock}>
+            <View style={styles.signatureLine} />
+            <Text style={styles.signatureText}>Approved By</Text>
+          </View>
+        </View>
+      </Page>
+    </Document>
+  );
+}
+
+/**
+ * Generate and download the payout statement PDF
+ */
+export async function generateAndDownloadStaffPayoutPDF(props: StaffPayoutPDFProps): Promise<void> {
+  try {
+    const React = await import("react");
+    const { pdf } = await import("@react-pdf/renderer");
+
+    const doc = pdf(React.createElement(StaffPayoutPDF, props) as ReactElement<DocumentProps>);
+    const blob = await doc.toBlob();
+    if (!blob) {
+      throw new Error("Failed to generate PDF blob");
+    }
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `Payout-Statement-${props.branchName.replace(/\s+/g, "-")}-${format(props.month, "yyyy-MM")}.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error("Error generating payout statement PDF:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,150 @@
+import type { createAdminClient } from "@/lib/supabase/admin";
+import {
+  BACKUP_TABLES,
+  BACKUP_VERSION,
+  backupTable,
+  type BackupData,
+  type BackupManifest,
+  type BackupRow,
+  type BackupTable,
+} from "./format";
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+// Keeps `id=in.(...)` filters well under URL length limits
+const ID_CHUNK_SIZE = 200;
+
+async function fetchAllRows(
+  buildQuery: (from: number, to: number) => PromiseLike<{ data: BackupRow[] | null; error: { message: string } | null }>
+): Promise<BackupRow[]> {
+  const rows: BackupRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await buildQuery(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+async function fetchTable(admin: AdminClient, table: BackupTable, filter?: { column: string; value: string }) {
+  return fetchAllRows((from, to) => {
+    let query = backupTable(admin, table).select("*").order("created_at").order("id");
+    if (filter) query = query.eq(filter.column, filter.value);
+    return query.range(from, to);
+  });
+}
+
+async function fetchByIds(admin: AdminClient, table: BackupTable, column: string, ids: string[]) {
+  const rows: BackupRow[] = [];
+  for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+    const chunk = ids.slice(i, i + ID_CHUNK_SIZE);
+    rows.push(
+      ...(await fetchAllRows((from, to) =>
+        backupTable(admin, table).select("*").in(column, chunk).order("created_at").order("id").range(from, to)
+      ))
+    );
+  }
+  return rows;
+}
+
+function uniqueIds(rows: BackupRow[], ...columns: string[]): string[] {
+  const ids = new Set<string>();
+  rows.forEach((row) =>
+    columns.forEach((column) => {
+      if (typeof row[column] === "string") ids.add(row[column] as string);
+    })
+  );
+  return Array.from(ids);
+}
+
+// Login emails live in Supabase auth, not profiles - restore needs them to recreate accounts
+async function fetchAuthEmails(admin: AdminClient): Promise<Map<string, string>> {
+  const emails = new Map<string, string>();
+  for (let page = 1; ; page++) {
+    const { data, error } = await admin.auth.admin.listUsers({ page, perPage: PAGE_SIZE });
+    if (error) throw new Error(error.message);
+    data.users.forEach((user) => {
+      if (user.email) emails.set(user.id, user.email);
+    });
+    if (data.users.length < PAGE_SIZE) return emails;
+  }
+}
+
+/**
+ * Everything needed to rebuild one branch (or all of them) in an empty
+ * project, including the money ledgers of its orders. For a single branch,
+ * customers and staff are the ones its orders and their records point at,
+ * plus the staff assigned to the branch.
+ */
+export async function collectBackupData(
+  admin: AdminClient,
+  branchId: string | null
+): Promise<BackupData> {
+  const branchFilter = branchId ? { column: "branch_id", value: branchId } : undefined;
+
+  const branches = branchId ? await fetchByIds(admin, "branches", "id", [branchId]) : await fetchTable(admin, "branches");
+  if (branchId && branches.length === 0) {
+    throw new Error("Branch not found");
+  }
+
+  const orders = await fetchTable(admin, "orders", branchFilter);
+  const orderIds = uniqueIds(orders, "id");
+  const orderItems = await fetchByIds(admin, "order_items", "order_id", orderIds);
+  const returnAudit = await fetchByIds(admin, "order_return_audit", "order_id", orderIds);
+  const payments = await fetchByIds(admin, "payments", "order_id", orderIds);
+  const depositTransactions = await fetchByIds(admin, "deposit_transactions", "order_id", orderIds);
+  const creditNotes = await fetchByIds(admin, "credit_notes", "order_id", orderIds);
+
+  const customers = branchId
+    ? await fetchByIds(admin, "customers", "id", uniqueIds(orders, "customer_id"))
+    : await fetchTable(admin, "customers");
+
+  let profiles: BackupRow[];
+  if (branchId) {
+    const branchStaff = await fetchTable(admin, "profiles", branchFilter);
+    const referenced = [
+      ...uniqueIds(orders, "staff_id", "blacklist_override_by"),
+      ...uniqueIds(returnAudit, "user_id"),
+      ...uniqueIds(payments, "received_by"),
+      ...uniqueIds(depositTransactions, "created_by"),
+      ...uniqueIds(creditNotes, "issued_by"),
+      ...uniqueIds(customers, "blacklisted_by"),
+    ];
+    const known = new Set(uniqueIds(branchStaff, "id"));
+    const others = await fetchByIds(
+      admin,
+      "profiles",
+      "id",
+      Array.from(new Set(referenced)).filter((id) => !known.has(id))
+    );
+    profiles = [...branchStaff, ...others];
+  } else {
+    profiles = await fetchTable(admin, "profiles");
+  }
+
+  const emails = await fetchAuthEmails(admin);
+
+  return {
+    branches,
+    profiles: profiles.map((profile) => ({ ...profile, email: emails.get(profile.id as string) ?? null })),
+    customers,
+    orders,
+    order_items: orderItems,
+    order_return_audit: returnAudit,
+    payments,
+    deposit_transactions: depositTransactions,
+    credit_notes: creditNotes,
+  };
+}
+
+export function createBackupManifest(data: BackupData, createdBy: string, branchId: string | null): BackupManifest {
+  return {
+    version: BACKUP_VERSION,
+    created_at: new Date().toISOString(),
+    created_by: createdBy,
+    branch_id: branchId,
+    counts: Object.fromEntries(BACKUP_TABLES.map((table) => [table, data[table].length])) as BackupManifest["counts"],
+  };
+}
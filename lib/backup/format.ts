@@ -0,0 +1,108 @@
+import Papa from "papaparse";
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { createAdminClient } from "@/lib/supabase/admin";
+
+// Bump when the layout changes in a way older restores can't read
+export const BACKUP_VERSION = 1;
+
+// In restore order: every table only points at tables listed before it
+export const BACKUP_TABLES = [
+  "branches",
+  "profiles",
+  "customers",
+  "orders",
+  "order_items",
+  "order_return_audit",
+  "payments",
+  "deposit_transactions",
+  "credit_notes",
+] as const;
+
+export type BackupTable = (typeof BACKUP_TABLES)[number];
+
+export type BackupRow = Record<string, unknown>;
+
+// Backups copy whole rows of any of these tables, so they go through an
+// untyped client rather than the per-table database types
+export function backupTable(admin: ReturnType<typeof createAdminClient>, table: BackupTable) {
+  return (admin as unknown as SupabaseClient).from(table);
+}
+
+export type BackupData = Record<BackupTable, BackupRow[]>;
+
+export interface BackupManifest {
+  version: number;
+  created_at: string;
+  created_by: string; // Profile id of the admin who exported
+  branch_id: string | null; // null = all branches
+  counts: Record<BackupTable, number>;
+}
+
+export interface RestoreResult {
+  counts: Record<string, number>;
+  // Staff logins recreated with a random password - they need a password reset
+  createdAccounts: { email: string; full_name: string }[];
+  // Staff without an email in the backup; their records now point at the restoring admin
+  skippedProfiles: string[];
+}
+
+/**
+ * ZIP with manifest.json, one JSON file per table (read back by restore) and
+ * a CSV copy of each table for opening in a spreadsheet.
+ */
+export function buildBackupZip(manifest: BackupManifest, data: BackupData): Uint8Array {
+  const files: Record<string, Uint8Array> = {
+    "manifest.json": strToU8(JSON.stringify(manifest, null, 2)),
+  };
+
+  BACKUP_TABLES.forEach((table) => {
+    const rows = data[table];
+    files[`json/${table}.json`] = strToU8(JSON.stringify(rows));
+    files[`csv/${table}.csv`] = strToU8(
+      "\uFEFF" +
+        Papa.unparse(
+          rows.map((row) =>
+            Object.fromEntries(
+              Object.entries(row).map(([key, value]) => [
+                key,
+                value !== null && typeof value === "object" ? JSON.stringify(value) : value,
+              ])
+            )
+          )
+        )
+    );
+  });
+
+  return zipSync(files, { level: 6 });
+}
+
+/**
+ * Read a backup ZIP made by buildBackupZip. Throws with a readable message
+ * when the file isn't a backup or comes from a newer version.
+ */
+export function readBackupZip(buffer: Uint8Array): { manifest: BackupManifest; data: BackupData } {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(buffer);
+  } catch {
+    throw new Error("The file is not a valid backup ZIP");
+  }
+
+  if (!files["manifest.json"]) {
+    throw new Error("The ZIP has no manifest.json - is it a backup from this app?");
+  }
+
+  const manifest = JSON.parse(strFromU8(files["manifest.json"])) as BackupManifest;
+  if (!manifest.version || manifest.version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${manifest.version} isn't supported by this version of the app`);
+  }
+
+  const data = {} as BackupData;
+  BACKUP_TABLES.forEach((table) => {
+    const file = files[`json/${table}.json`];
+    data[table] = file ? (JSON.parse(strFromU8(file)) as BackupRow[]) : [];
+  });
+
+  return { manifest, data };
+}
@@ -0,0 +1,300 @@
+import { randomBytes, randomUUID } from "crypto";
+import type { createAdminClient } from "@/lib/supabase/admin";
+import { getErrorMessage } from "@/lib/utils/error";
+import { backupTable, type BackupData, type BackupRow, type BackupTable, type RestoreResult } from "./format";
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+const INSERT_BATCH_SIZE = 500;
+// Keeps `id=in.(...)` filters well under URL length limits
+const ID_CHUNK_SIZE = 200;
+
+// Generated by the database (add-customer-merge.sql) - inserting them fails
+const GENERATED_CUSTOMER_COLUMNS = ["phone_digits", "id_proof_key"];
+
+export class RestoreConflictError extends Error {}
+
+function omit(row: BackupRow, keys: string[]): BackupRow {
+  const copy = { ...row };
+  keys.forEach((key) => delete copy[key]);
+  return copy;
+}
+
+// What a restore has written so far, undone if a later step fails
+interface RestoreProgress {
+  inserted: { table: BackupTable; ids: string[] }[];
+  createdUserIds: string[];
+}
+
+async function insertRows(admin: AdminClient, progress: RestoreProgress, table: BackupTable, rows: BackupRow[]) {
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + INSERT_BATCH_SIZE);
+    const { error } = await backupTable(admin, table).insert(batch);
+    if (error) throw new Error(`Restoring ${table} failed: ${error.message}`);
+    progress.inserted.push({ table, ids: batch.map((row) => row.id as string) });
+  }
+}
+
+// Newest first, so rows go before the rows they point at
+async function rollbackRestore(admin: AdminClient, progress: RestoreProgress) {
+  for (const { table, ids } of [...progress.inserted].reverse()) {
+    for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+      const { error } = await backupTable(admin, table).delete().in("id", ids.slice(i, i + ID_CHUNK_SIZE));
+      if (error) throw new Error(`removing restored ${table}: ${error.message}`);
+    }
+  }
+  for (const userId of progress.createdUserIds) {
+    const { error } = await admin.auth.admin.deleteUser(userId);
+    if (error) throw new Error(`removing a recreated login: ${error.message}`);
+  }
+}
+
+// Branches and staff may already exist (the restoring admin's own profile)
+const MUST_BE_EMPTY: BackupTable[] = [
+  "customers",
+  "orders",
+  "order_items",
+  "order_return_audit",
+  "payments",
+  "deposit_transactions",
+  "credit_notes",
+];
+
+async function assertProjectEmpty(admin: AdminClient) {
+  for (const table of MUST_BE_EMPTY) {
+    const { count, error } = await backupTable(admin, table).select("id", { count: "exact", head: true });
+    if (error) throw new Error(error.message);
+    if (count) {
+      throw new RestoreConflictError(`This project already has ${table} - restore only into an empty project`);
+    }
+  }
+}
+
+async function findAuthUsersByEmail(admin: AdminClient): Promise<Map<string, string>> {
+  const users = new Map<string, string>();
+  for (let page = 1; ; page++) {
+    const { data, error } = await admin.auth.admin.listUsers({ page, perPage: 1000 });
+    if (error) throw new Error(error.message);
+    data.users.forEach((user) => {
+      if (user.email) users.set(user.email.toLowerCase(), user.id);
+    });
+    if (data.users.length < 1000) return users;
+  }
+}
+
+/**
+ * Rebuild a backup in an empty project. Every row gets a new id and all
+ * references are rewritten through old -> new id maps, so nothing depends on
+ * the ids of the source project. Staff are matched to existing logins by
+ * email, otherwise recreated; custom roles aren't part of the backup, so
+ * staff get their built-in role. Invoice, credit note and customer numbers
+ * are kept, and the counters are moved past them so new records don't reuse
+ * a number. Photos and ID proofs stay in the source project's storage.
+ * If any step fails, everything written so far is removed again.
+ */
+export async function restoreBackup(
+  admin: AdminClient,
+  data: BackupData,
+  restoredBy: string
+): Promise<RestoreResult> {
+  await assertProjectEmpty(admin);
+
+  const progress: RestoreProgress = { inserted: [], createdUserIds: [] };
+  try {
+    return await restoreRows(admin, data, restoredBy, progress);
+  } catch (error) {
+    try {
+      await rollbackRestore(admin, progress);
+    } catch (rollbackError) {
+      throw new Error(
+        `${getErrorMessage(error, "Restore failed")}. The partly restored data couldn't be removed (${getErrorMessage(rollbackError, "unknown error")}) - clear the project before trying again.`
+      );
+    }
+    throw error;
+  }
+}
+
+async function restoreRows(
+  admin: AdminClient,
+  data: BackupData,
+  restoredBy: string,
+  progress: RestoreProgress
+): Promise<RestoreResult> {
+
+  const newIds = (rows: BackupRow[]) => new Map(rows.map((row) => [row.id as string, randomUUID()]));
+  const branchIds = newIds(data.branches);
+  const customerIds = newIds(data.customers);
+  const orderIds = newIds(data.orders);
+  const orderItemIds = newIds(data.order_items);
+  const profileIds = new Map<string, string>();
+
+  const mapOptional = (map: Map<string, string>, id: unknown) =>
+    typeof id === "string" ? map.get(id) ?? null : null;
+  // NOT NULL staff references fall back to the admin running the restore
+  const mapProfile = (id: unknown) => mapOptional(profileIds, id) ?? restoredBy;
+
+  // 1. Branches
+  await insertRows(
+    admin,
+    progress,
+    "branches",
+    data.branches.map((branch) => ({ ...branch, id: branchIds.get(branch.id as string) }))
+  );
+
+  // 2. Staff - the profile id is the auth user id, so logins come first
+  const result: RestoreResult = { counts: {}, createdAccounts: [], skippedProfiles: [] };
+  const authUsers = await findAuthUsersByEmail(admin);
+  const { data: existingProfiles, error: existingError } = await admin.from("profiles").select("id");
+  if (existingError) throw new Error(existingError.message);
+  const hasProfile = new Set<string>((existingProfiles || []).map((p: { id: string }) => p.id));
+
+  const newProfiles: BackupRow[] = [];
+  for (const profile of data.profiles) {
+    const email = typeof profile.email === "string" ? profile.email.trim().toLowerCase() : "";
+    if (!email) {
+      result.skippedProfiles.push(String(profile.full_name || profile.username || profile.id));
+      continue;
+    }
+
+    let userId = authUsers.get(email);
+    if (!userId) {
+      const { data: created, error } = await admin.auth.admin.createUser({
+        email,
+        password: randomBytes(24).toString("base64url"),
+        email_confirm: true,
+      });
+      if (error || !created.user) {
+        throw new Error(`Couldn't recreate the login for ${email}: ${error?.message || "no user returned"}`);
+      }
+      userId = created.user.id;
+      progress.createdUserIds.push(userId);
+      authUsers.set(email, userId);
+      result.createdAccounts.push({ email, full_name: String(profile.full_name || "") });
+    }
+
+    profileIds.set(profile.id as string, userId);
+    // Existing profiles (e.g. the restoring admin's own) are left as they are
+    if (!hasProfile.has(userId)) {
+      hasProfile.add(userId);
+      newProfiles.push({
+        ...omit(profile, ["email"]),
+        id: userId,
+        branch_id: mapOptional(branchIds, profile.branch_id),
+        app_role_id: null,
+      });
+    }
+  }
+  await insertRows(admin, progress, "profiles", newProfiles);
+
+  // 3. Customers - customer_number is kept (the trigger only fills in missing ones)
+  await insertRows(
+    admin,
+    progress,
+    "customers",
+    data.customers.map((customer) => ({
+      ...omit(customer, GENERATED_CUSTOMER_COLUMNS),
+      id: customerIds.get(customer.id as string),
+      blacklisted_by: mapOptional(profileIds, customer.blacklisted_by),
+    }))
+  );
+
+  // 4. Orders - invoice_number is kept (the trigger only allocates missing ones)
+  await insertRows(
+    admin,
+    progress,
+    "orders",
+    data.orders.map((order) => ({
+      ...order,
+      id: orderIds.get(order.id as string),
+      branch_id: branchIds.get(order.branch_id as string),
+      customer_id: customerIds.get(order.customer_id as string),
+      staff_id: mapProfile(order.staff_id),
+      blacklist_override_by: order.blacklist_override_by ? mapProfile(order.blacklist_override_by) : null,
+    }))
+  );
+
+  // 5. Items - products aren't part of the backup, the name and price are on the item
+  await insertRows(
+    admin,
+    progress,
+    "order_items",
+    data.order_items.map((item) => ({
+      ...item,
+      id: orderItemIds.get(item.id as string),
+      order_id: orderIds.get(item.order_id as string),
+      product_id: null,
+    }))
+  );
+
+  // 6. Return audit
+  await insertRows(
+    admin,
+    progress,
+    "order_return_audit",
+    data.order_return_audit.map((entry) => ({
+      ...entry,
+      id: randomUUID(),
+      order_id: orderIds.get(entry.order_id as string),
+      order_item_id: mapOptional(orderItemIds, entry.order_item_id),
+      user_id: mapProfile(entry.user_id),
+    }))
+  );
+
+  // 7. Payments, deposits and credit notes - credit note numbers are kept too
+  await insertRows(
+    admin,
+    progress,
+    "payments",
+    data.payments.map((payment) => ({
+      ...payment,
+      id: randomUUID(),
+      order_id: orderIds.get(payment.order_id as string),
+      customer_id: customerIds.get(payment.customer_id as string),
+      branch_id: branchIds.get(payment.branch_id as string),
+      received_by: mapOptional(profileIds, payment.received_by),
+    }))
+  );
+
+  await insertRows(
+    admin,
+    progress,
+    "deposit_transactions",
+    data.deposit_transactions.map((transaction) => ({
+      ...transaction,
+      id: randomUUID(),
+      order_id: orderIds.get(transaction.order_id as string),
+      branch_id: branchIds.get(transaction.branch_id as string),
+      created_by: mapOptional(profileIds, transaction.created_by),
+    }))
+  );
+
+  await insertRows(
+    admin,
+    progress,
+    "credit_notes",
+    data.credit_notes.map((creditNote) => ({
+      ...creditNote,
+      id: randomUUID(),
+      order_id: orderIds.get(creditNote.order_id as string),
+      customer_id: customerIds.get(creditNote.customer_id as string),
+      branch_id: branchIds.get(creditNote.branch_id as string),
+      issued_by: mapOptional(profileIds, creditNote.issued_by),
+    }))
+  );
+
+  const { error: syncError } = await admin.rpc("sync_numbering_after_restore");
+  if (syncError) throw new Error(`Numbering couldn't be updated: ${syncError.message}`);
+
+  result.counts = {
+    branches: data.branches.length,
+    profiles: profileIds.size,
+    customers: data.customers.length,
+    orders: data.orders.length,
+    order_items: data.order_items.length,
+    order_return_audit: data.order_return_audit.length,
+    payments: data.payments.length,
+    deposit_transactions: data.deposit_transactions.length,
+    credit_notes: data.credit_notes.length,
+  };
+  return result;
+}
@@ -0,0 +1,33 @@
+import { useEffect, useState } from "react";
+import { getPendingPhoto, isPendingPhoto } from "@/lib/offline/photos";
+
+/**
+ * Displayable URL for a photo: pending photos are read from IndexedDB into an
+ * object URL, anything else is returned as is
+ */
+export function usePhotoDisplayUrl(url: string | null | undefined): string | undefined {
+  const [objectUrl, setObjectUrl] = useState<{ ref: string; url: string } | null>(null);
+
+  useEffect(() => {
+    if (!url || !isPendingPhoto(url)) return;
+
+    let created: string | null = null;
+    let cancelled = false;
+    getPendingPhoto(url)
+      .then((blob) => {
+        if (!blob || cancelled) return;
+        created = URL.createObjectURL(blob);
+        setObjectUrl({ ref: url, url: created });
+      })
+      .catch((error) => console.error("Failed to read offline photo:", error));
+
+    return () => {
+      cancelled = true;
+      if (created) URL.revokeObjectURL(created);
+    };
+  }, [url]);
+
+  if (!url) return undefined;
+  if (!isPendingPhoto(url)) return url;
+  return objectUrl?.ref === url ? objectUrl.url : undefined;
+}
@@ -86,6 +86,10 @@ export function useRealtimeSubscription(
           queryKey: ["calendar-orders"],
           refetchType: "active"
         });
+        queryClient.invalidateQueries({ 
+          queryKey: ["calendar-timeline"],
+          refetchType: "active"
+        });
       }, 300);
     };
 
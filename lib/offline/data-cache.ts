@@ -0,0 +1,12 @@
+// Cache the service worker (public/sw.js) keeps the last-known orders,
+// customers and dashboard stats in - the names must match
+export const OFFLINE_DATA_CACHE = "glanz-data-v1";
+
+/**
+ * Drop the cached orders and customers so the next person to log in on this
+ * device can't see them offline
+ */
+export async function clearOfflineDataCache(): Promise<void> {
+  if (typeof caches === "undefined") return;
+  await caches.delete(OFFLINE_DATA_CACHE);
+}
@@ -0,0 +1,74 @@
+// Minimal promise wrapper around IndexedDB for data that must survive a lost
+// connection and a page reload: the order draft, photos not uploaded yet and
+// the order outbox. Browser only.
+
+const DB_NAME = "rental-offline";
+const DB_VERSION = 1;
+
+export type OfflineStore = "kv" | "photos" | "outbox";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("Offline storage isn't available in this browser"));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains("kv")) db.createObjectStore("kv");
+        if (!db.objectStoreNames.contains("photos")) db.createObjectStore("photos");
+        if (!db.objectStoreNames.contains("outbox")) db.createObjectStore("outbox", { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error("Couldn't open offline storage"));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(
+  store: OfflineStore,
+  mode: IDBTransactionMode,
+  action: (objectStore: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, mode);
+    const request = action(transaction.objectStore(store));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error || request.error);
+    transaction.onabort = () => reject(transaction.error || new Error("Offline storage write was aborted"));
+  });
+}
+
+export function idbGet<T>(store: OfflineStore, key: string): Promise<T | undefined> {
+  return run<T | undefined>(store, "readonly", (s) => s.get(key));
+}
+
+export function idbGetAll<T>(store: OfflineStore): Promise<T[]> {
+  return run<T[]>(store, "readonly", (s) => s.getAll());
+}
+
+export function idbGetAllKeys(store: OfflineStore): Promise<IDBValidKey[]> {
+  return run<IDBValidKey[]>(store, "readonly", (s) => s.getAllKeys());
+}
+
+// `key` is only passed for stores without a keyPath (kv, photos)
+export async function idbPut(store: OfflineStore, value: unknown, key?: string): Promise<void> {
+  await run(store, "readwrite", (s) => (key === undefined ? s.put(value) : s.put(value, key)));
+}
+
+export async function idbDelete(store: OfflineStore, key: string): Promise<void> {
+  await run(store, "readwrite", (s) => s.delete(key));
+}
+
+export async function idbClear(store: OfflineStore): Promise<void> {
+  await run(store, "readwrite", (s) => s.clear());
+}
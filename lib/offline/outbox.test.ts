@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { createClient } from "@/lib/supabase/client";
+import type { CreateOrderInput } from "@/lib/queries/orders";
+
+// IndexedDB stand-in: one map per store, outbox entries keyed by id
+const stores = vi.hoisted(() => ({
+  kv: new Map<string, unknown>(),
+  photos: new Map<string, unknown>(),
+  outbox: new Map<string, unknown>(),
+}));
+
+vi.mock("./db", () => ({
+  idbGet: async (store: keyof typeof stores, key: string) => stores[store].get(key),
+  idbGetAll: async (store: keyof typeof stores) => [...stores[store].values()],
+  idbGetAllKeys: async (store: keyof typeof stores) => [...stores[store].keys()],
+  idbPut: async (store: keyof typeof stores, value: { id: string }, key?: string) => {
+    stores[store].set(key ?? value.id, structuredClone(value));
+  },
+  idbDelete: async (store: keyof typeof stores, key: string) => {
+    stores[store].delete(key);
+  },
+  idbClear: async (store: keyof typeof stores) => stores[store].clear(),
+}));
+
+vi.mock("./photos", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./photos")>()),
+  uploadOrderItemPhoto: vi.fn(),
+}));
+
+vi.mock("@/lib/queries/orders", () => ({ createOrder: vi.fn() }));
+
+const { createOrder } = await import("@/lib/queries/orders");
+const { uploadOrderItemPhoto } = await import("./photos");
+const { clearOfflineDraft, listOutbox, queueOrder, replayOutboxEntry } = await import("./outbox");
+
+const supabase = {} as ReturnType<typeof createClient>;
+
+const input: CreateOrderInput = {
+  branch_id: "branch-1",
+  staff_id: "staff-1",
+  customer_id: "customer-1",
+  start_date: "2025-06-10T10:00:00.000Z",
+  end_date: "2025-06-12T10:00:00.000Z",
+  total_amount: 1000,
+  items: [
+    { photo_url: "pending-photo:front", quantity: 1, price_per_day: 250, days: 2, line_total: 500 },
+    { photo_url: "https://cdn.example.com/already-uploaded.jpg", quantity: 1, price_per_day: 250, days: 2, line_total: 500 },
+  ],
+};
+
+const queue = (overrides: Partial<CreateOrderInput> = {}) =>
+  queueOrder({ ...input, ...overrides }, { customer_name: "Anjali", provisional_invoice_number: "GLA/25-26/0007" });
+
+beforeEach(() => {
+  Object.values(stores).forEach((store) => store.clear());
+  stores.photos.set("front", new Blob(["jpeg"]));
+  vi.mocked(createOrder).mockReset();
+  vi.mocked(uploadOrderItemPhoto).mockReset();
+});
+
+describe("replayOutboxEntry", () => {
+  it("uploads pending photos, creates the order and drops the local photo", async () => {
+    const entry = await queue();
+    vi.mocked(uploadOrderItemPhoto).mockResolvedValue("https://cdn.example.com/front.jpg");
+    vi.mocked(createOrder).mockResolvedValue({ id: entry.id, invoice_number: "GLA/25-26/0009" } as never);
+
+    const result = await replayOutboxEntry(supabase, entry, "staff-1");
+
+    expect(result).toMatchObject({ status: "synced", attempts: 1, invoice_number: "GLA/25-26/0009" });
+    expect(vi.mocked(uploadOrderItemPhoto)).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(createOrder).mock.calls[0][1].items.map((item) => item.photo_url)).toEqual([
+      "https://cdn.example.com/front.jpg",
+      "https://cdn.example.com/already-uploaded.jpg",
+    ]);
+    expect(stores.photos.has("front")).toBe(false);
+    expect(stores.outbox.get(entry.id)).toEqual(result);
+  });
+
+  it("keeps photos uploaded before the connection dropped, and queues the entry again", async () => {
+    const entry = await queue();
+    vi.mocked(uploadOrderItemPhoto).mockResolvedValue("https://cdn.example.com/front.jpg");
+    vi.mocked(createOrder).mockRejectedValueOnce(new TypeError("Failed to fetch"));
+
+    const retry = await replayOutboxEntry(supabase, entry, "staff-1");
+    expect(retry).toMatchObject({ status: "queued", error: "Waiting for connection" });
+    expect(retry.input.items[0].photo_url).toBe("https://cdn.example.com/front.jpg");
+
+    vi.mocked(createOrder).mockResolvedValueOnce({ id: entry.id, invoice_number: "GLA/25-26/0007" } as never);
+    expect(await replayOutboxEntry(supabase, retry, "staff-1")).toMatchObject({ status: "synced", attempts: 2 });
+    expect(vi.mocked(uploadOrderItemPhoto)).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails the entry with the server's message when the order is refused", async () => {
+    const entry = await queue({ items: [input.items[1]] });
+    vi.mocked(createOrder).mockRejectedValue({ message: "Customer is blacklisted", code: "P0001" });
+
+    expect(await replayOutboxEntry(supabase, entry, "staff-1")).toMatchObject({
+      status: "failed",
+      error: "Customer is blacklisted",
+    });
+  });
+
+  it("fails the entry when a queued photo is gone from the device", async () => {
+    stores.photos.clear();
+    const entry = await queue();
+
+    const result = await replayOutboxEntry(supabase, entry, "staff-1");
+
+    expect(result).toMatchObject({ status: "failed", error: "The photo of item 1 is no longer on this device" });
+    expect(vi.mocked(createOrder)).not.toHaveBeenCalled();
+  });
+
+  it("refuses to replay another user's order", async () => {
+    const entry = await queue();
+
+    await expect(replayOutboxEntry(supabase, entry, "staff-2")).rejects.toThrow("This order was queued by another user");
+    expect(stores.outbox.get(entry.id)).toMatchObject({ status: "queued", attempts: 0 });
+  });
+});
+
+describe("listOutbox", () => {
+  it("lists only the user's own entries, newest first, and forgets day-old synced ones", async () => {
+    const older = await queue();
+    const mine = await queue({ id: "newer" });
+    const theirs = await queue({ id: "theirs", staff_id: "staff-2" });
+    stores.outbox.set(older.id, { ...older, queued_at: "2025-01-01T00:00:00.000Z" });
+    stores.outbox.set("old-synced", { ...mine, id: "old-synced", status: "synced", synced_at: "2025-01-01T00:00:00.000Z" });
+
+    expect((await listOutbox("staff-1")).map((entry) => entry.id)).toEqual(["newer", older.id]);
+    expect(stores.outbox.has("old-synced")).toBe(false);
+    expect(stores.outbox.has(theirs.id)).toBe(true);
+  });
+});
+
+describe("clearOfflineDraft", () => {
+  it("keeps photos that queued orders still need and drops the rest", async () => {
+    await queue();
+    stores.photos.set("draft-only", new Blob(["jpeg"]));
+    stores.kv.set("order-draft", { items: [] });
+
+    await clearOfflineDraft();
+
+    expect([...stores.photos.keys()]).toEqual(["front"]);
+    expect(stores.kv.size).toBe(0);
+  });
+});
@@ -0,0 +1,168 @@
+import type { createClient } from "@/lib/supabase/client";
+import { createOrder, type CreateOrderInput } from "@/lib/queries/orders";
+import { getErrorMessage } from "@/lib/utils/error";
+import { idbClear, idbDelete, idbGetAll, idbGetAllKeys, idbPut } from "./db";
+import {
+  PENDING_PHOTO_PREFIX,
+  deletePendingPhoto,
+  getPendingPhoto,
+  isNetworkError,
+  isPendingPhoto,
+  uploadOrderItemPhoto,
+} from "./photos";
+
+export type OutboxStatus = "queued" | "syncing" | "synced" | "failed";
+
+export interface OutboxOrder {
+  id: string; // Also the id the order gets in the database
+  status: OutboxStatus;
+  input: CreateOrderInput; // Item photos may still be pending-photo refs
+  customer_name: string;
+  customer_phone?: string;
+  // Next invoice number shown on the form when the order was queued. Queued
+  // orders never claim it - the server issues the next free number on sync.
+  provisional_invoice_number: string | null;
+  invoice_number?: string | null; // Issued on sync
+  error?: string;
+  attempts: number;
+  queued_at: string;
+  synced_at?: string;
+}
+
+// Synced entries stay in the list for a day, then drop out
+const SYNCED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export async function queueOrder(
+  input: CreateOrderInput,
+  details: Pick<OutboxOrder, "customer_name" | "customer_phone" | "provisional_invoice_number">
+): Promise<OutboxOrder> {
+  const entry: OutboxOrder = {
+    ...details,
+    id: input.id || crypto.randomUUID(),
+    status: "queued",
+    input: { ...input },
+    attempts: 0,
+    queued_at: new Date().toISOString(),
+  };
+  entry.input.id = entry.id;
+  await idbPut("outbox", entry);
+  return entry;
+}
+
+/**
+ * Entries queued by this user. Entries belong to the staff member on the
+ * order - another login on the same device can't see or replay them.
+ */
+export async function listOutbox(userId: string): Promise<OutboxOrder[]> {
+  const entries = await idbGetAll<OutboxOrder>("outbox");
+  const cutoff = Date.now() - SYNCED_RETENTION_MS;
+  const expired = entries.filter(
+    (entry) => entry.status === "synced" && new Date(entry.synced_at || entry.queued_at).getTime() < cutoff
+  );
+  await Promise.all(expired.map((entry) => idbDelete("outbox", entry.id)));
+
+  return entries
+    .filter((entry) => !expired.includes(entry) && entry.input.staff_id === userId)
+    .sort((a, b) => b.queued_at.localeCompare(a.queued_at));
+}
+
+export function saveOutboxEntry(entry: OutboxOrder): Promise<void> {
+  return idbPut("outbox", entry);
+}
+
+/**
+ * Remove an entry and the photos only it still references
+ */
+export async function discardOutboxEntry(entry: OutboxOrder): Promise<void> {
+  await Promise.all(
+    entry.input.items.filter((item) => isPendingPhoto(item.photo_url)).map((item) => deletePendingPhoto(item.photo_url))
+  );
+  await idbDelete("outbox", entry.id);
+}
+
+/**
+ * Drop the new-order draft and every offline photo no queued order still
+ * needs, so the next person to log in on this device can't see them
+ */
+export async function clearOfflineDraft(): Promise<void> {
+  const entries = await idbGetAll<OutboxOrder>("outbox");
+  const queuedPhotos = new Set(
+    entries
+      .flatMap((entry) => entry.input.items.map((item) => item.photo_url))
+      .filter(isPendingPhoto)
+      .map((ref) => ref.slice(PENDING_PHOTO_PREFIX.length))
+  );
+  const photoKeys = await idbGetAllKeys("photos");
+
+  await Promise.all(
+    photoKeys.filter((key) => !queuedPhotos.has(String(key))).map((key) => idbDelete("photos", String(key)))
+  );
+  await idbClear("kv");
+}
+
+/**
+ * Upload the entry's pending photos, then create the order. Each uploaded
+ * photo is written back to the entry straight away, so a retry after a
+ * dropped connection doesn't upload it again.
+ *
+ * Only the user who queued the entry can replay it.
+ *
+ * Returns the entry in its new state: synced, failed (the server refused it -
+ * staff must fix or discard it) or queued again (still no connection).
+ */
+export async function replayOutboxEntry(
+  supabase: ReturnType<typeof createClient>,
+  entry: OutboxOrder,
+  userId: string
+): Promise<OutboxOrder> {
+  if (entry.input.staff_id !== userId) {
+    throw new Error("This order was queued by another user");
+  }
+
+  let current: OutboxOrder = { ...entry, status: "syncing", attempts: entry.attempts + 1, error: undefined };
+  await saveOutboxEntry(current);
+
+  try {
+    for (let index = 0; index < current.input.items.length; index++) {
+      const ref = current.input.items[index].photo_url;
+      if (!isPendingPhoto(ref)) continue;
+
+      const blob = await getPendingPhoto(ref);
+      if (!blob) throw new Error(`The photo of item ${index + 1} is no longer on this device`);
+
+      const publicUrl = await uploadOrderItemPhoto(supabase, blob);
+      const items = current.input.items.map((item, i) => (i === index ? { ...item, photo_url: publicUrl } : item));
+      current = { ...current, input: { ...current.input, items } };
+      await saveOutboxEntry(current);
+      await deletePendingPhoto(ref);
+    }
+
+    const order = await createOrder(supabase, current.input);
+    current = {
+      ...current,
+      status: "synced",
+      invoice_number: order.invoice_number,
+      synced_at: new Date().toISOString(),
+    };
+  } catch (error) {
+    current = isNetworkError(error)
+      ? { ...current, status: "queued", error: "Waiting for connection" }
+      : { ...current, status: "failed", error: getErrorMessage(error, "The server rejected this order") };
+  }
+
+  await saveOutboxEntry(current);
+  return current;
+}
+
+/**
+ * True when the invoice number issued on sync isn't the one shown when the
+ * order was queued (another counter took it in the meantime)
+ */
+export function invoiceNumberChanged(entry: OutboxOrder): boolean {
+  return (
+    entry.status === "synced" &&
+    !!entry.provisional_invoice_number &&
+    !!entry.invoice_number &&
+    entry.provisional_invoice_number !== entry.invoice_number
+  );
+}
@@ -0,0 +1,58 @@
+import type { createClient } from "@/lib/supabase/client";
+import { idbDelete, idbGet, idbPut } from "./db";
+
+// Item photos taken offline are kept in IndexedDB and referenced from the
+// draft as "pending-photo:<id>" until the outbox uploads them
+export const PENDING_PHOTO_PREFIX = "pending-photo:";
+
+export function isPendingPhoto(url: string | null | undefined): boolean {
+  return !!url && url.startsWith(PENDING_PHOTO_PREFIX);
+}
+
+/**
+ * True for failures caused by the connection rather than the server
+ * (fetch rejects with a TypeError when there's no network)
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  if (error instanceof TypeError) return true;
+  const message = (error as { message?: string } | null)?.message || "";
+  return /failed to fetch|network ?error|load failed|networkerror|fetch failed/i.test(message);
+}
+
+export async function savePendingPhoto(file: Blob): Promise<string> {
+  const id = crypto.randomUUID();
+  await idbPut("photos", file, id);
+  return `${PENDING_PHOTO_PREFIX}${id}`;
+}
+
+export function getPendingPhoto(ref: string): Promise<Blob | undefined> {
+  return idbGet<Blob>("photos", ref.slice(PENDING_PHOTO_PREFIX.length));
+}
+
+export function deletePendingPhoto(ref: string): Promise<void> {
+  return idbDelete("photos", ref.slice(PENDING_PHOTO_PREFIX.length));
+}
+
+/**
+ * Upload an item photo to the order-items bucket and return its public URL
+ */
+export async function uploadOrderItemPhoto(
+  supabase: ReturnType<typeof createClient>,
+  file: Blob
+): Promise<string> {
+  const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.jpg`;
+  const filePath = `order-items/${fileName}`;
+
+  const { error } = await supabase.storage.from("order-items").upload(filePath, file, {
+    cacheControl: "31536000",
+    upsert: false,
+    contentType: "image/jpeg",
+  });
+
+  if (error) {
+    throw new Error(error.message || "Upload failed");
+  }
+
+  return supabase.storage.from("order-items").getPublicUrl(filePath).data.publicUrl;
+}
@@ -0,0 +1,109 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { createClient } from "@/lib/supabase/client";
+import type { ApprovalRequest, ApprovalRequestStatus, ApprovalRequestType } from "@/lib/types";
+
+export const APPROVAL_TYPE_LABELS: Record<ApprovalRequestType, string> = {
+  discount: "Discount",
+  late_fee_waiver: "Late Fee Waiver",
+  cancellation: "Cancellation",
+};
+
+const APPROVAL_REQUEST_SELECT = `
+  *,
+  order:orders(id, invoice_number, status, total_amount, customer:customers(id, name)),
+  requester:profiles!approval_requests_requested_by_fkey(full_name, username),
+  decider:profiles!approval_requests_decided_by_fkey(full_name, username)
+`;
+
+/**
+ * Approval requests of a branch (all branches for super admins with none
+ * selected), newest first. Pending requests or the last 100 decided ones.
+ */
+export function useApprovalRequests(branchId: string | null, status: "pending" | "decided") {
+  const supabase = createClient();
+
+  return useQuery({
+    queryKey: ["approval-requests", branchId, status],
+    queryFn: async () => {
+      let query = supabase
+        .from("approval_requests")
+        .select(APPROVAL_REQUEST_SELECT)
+        .order(status === "pending" ? "requested_at" : "decided_at", { ascending: false })
+        .limit(100);
+
+      query = status === "pending" ? query.eq("status", "pending") : query.neq("status", "pending");
+      if (branchId) {
+        query = query.eq("branch_id", branchId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []) as ApprovalRequest[];
+    },
+  });
+}
+
+export function usePendingApprovalCount(branchId: string | null, enabled = true) {
+  const supabase = createClient();
+
+  return useQuery({
+    queryKey: ["approval-requests", branchId, "pending-count"],
+    queryFn: async () => {
+      let query = supabase
+        .from("approval_requests")
+        .select("id", { count: "exact", head: true })
+        .eq("status", "pending");
+      if (branchId) {
+        query = query.eq("branch_id", branchId);
+      }
+
+      const { count, error } = await query;
+      // The approvals migration may not have been run yet
+      if (error) return 0;
+      return count || 0;
+    },
+    enabled,
+    staleTime: 30000,
+  });
+}
+
+/**
+ * Approve (making the requested change as the approver) or reject a request,
+ * in one database transaction that refuses requests already decided
+ * (decide_approval_request in supabase-migrations/add-approval-requests.sql).
+ * The decision and reason go on the order timeline.
+ */
+export function useDecideApprovalRequest() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      request,
+      decision,
+      reason,
+    }: {
+      request: ApprovalRequest;
+      decision: Exclude<ApprovalRequestStatus, "pending">;
+      reason?: string;
+    }) => {
+      const { data, error } = await supabase.rpc("decide_approval_request", {
+        p_request_id: request.id,
+        p_decision: decision,
+        p_reason: reason?.trim() || null,
+      });
+
+      if (error) throw error;
+      return data as ApprovalRequest;
+    },
+    onSuccess: (_, { request }) => {
+      queryClient.invalidateQueries({ queryKey: ["approval-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["orders-infinite"] });
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      queryClient.invalidateQueries({ queryKey: ["order", request.order_id] });
+      queryClient.invalidateQueries({ queryKey: ["order-timeline", request.order_id] });
+      queryClient.invalidateQueries({ queryKey: ["order-credit-notes", request.order_id] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+    },
+  });
+}
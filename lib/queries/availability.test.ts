@@ -0,0 +1,188 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fetchProductAvailability, findOverbookedLines, type ProductAvailability } from "./availability";
+import type { createClient } from "@/lib/supabase/client";
+
+const NOW = new Date("2025-06-01T09:00:00.000Z");
+
+type Line = {
+  product_id: string;
+  quantity: number;
+  returned_quantity?: number;
+  order: {
+    id: string;
+    branch_id: string;
+    status: string;
+    start_date: string;
+    end_date: string;
+    start_datetime?: string | null;
+    end_datetime?: string | null;
+  };
+};
+
+/**
+ * Client whose RPC is missing, so the client-side fallback runs. Filters are
+ * ignored: each table returns the rows given for it.
+ */
+function fallbackClient(tables: { products: unknown[]; order_items: Line[]; item_maintenance?: unknown[] }) {
+  const result = (table: keyof typeof tables) => ({ data: tables[table] ?? null, error: null });
+  const builder = (table: keyof typeof tables) => {
+    const chain: Record<string, unknown> = {
+      then: (resolve: (value: unknown) => unknown) => Promise.resolve(result(table)).then(resolve),
+    };
+    ["select", "in", "eq", "neq"].forEach((method) => {
+      chain[method] = () => chain;
+    });
+    return chain;
+  };
+
+  return {
+    rpc: async () => ({ data: null, error: { message: "function get_product_availability does not exist" } }),
+    from: (table: keyof typeof tables) => builder(table),
+  } as unknown as ReturnType<typeof createClient>;
+}
+
+const booking = (id: string, start: string, end: string, quantity: number, status = "scheduled"): Line => ({
+  product_id: "sherwani",
+  quantity,
+  order: { id, branch_id: "branch-1", status, start_date: start.slice(0, 10), end_date: end.slice(0, 10), start_datetime: start, end_datetime: end },
+});
+
+const rentalWindow = { branchId: "branch-1", productIds: ["sherwani"], start: "2025-06-10T10:00:00.000Z", end: "2025-06-12T10:00:00.000Z" };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("fetchProductAvailability (fallback)", () => {
+  it("holds units for bookings that overlap the window, however little", async () => {
+    const availability = await fetchProductAvailability(
+      fallbackClient({
+        products: [{ id: "sherwani", stock_quantity: 5 }],
+        order_items: [
+          booking("inside", "2025-06-10T12:00:00.000Z", "2025-06-11T12:00:00.000Z", 1),
+          booking("starts-before", "2025-06-09T10:00:00.000Z", "2025-06-10T10:00:01.000Z", 1),
+          booking("ends-after", "2025-06-12T09:59:59.000Z", "2025-06-14T10:00:00.000Z", 1),
+        ],
+      }),
+      rentalWindow
+    );
+
+    expect(availability.sherwani).toEqual({
+      product_id: "sherwani",
+      stock_quantity: 5,
+      reserved_quantity: 3,
+      in_maintenance_quantity: 0,
+      available_quantity: 2,
+    });
+  });
+
+  it("frees units for bookings that end as the window starts or start as it ends", async () => {
+    const availability = await fetchProductAvailability(
+      fallbackClient({
+        products: [{ id: "sherwani", stock_quantity: 2 }],
+        order_items: [
+          booking("before", "2025-06-08T10:00:00.000Z", "2025-06-10T10:00:00.000Z", 2),
+          booking("after", "2025-06-12T10:00:00.000Z", "2025-06-13T10:00:00.000Z", 2),
+        ],
+      }),
+      rentalWindow
+    );
+
+    expect(availability.sherwani.available_quantity).toBe(2);
+  });
+
+  it("holds a date-only booking for its whole end day", async () => {
+    const legacy = booking("legacy", "", "", 1);
+    legacy.order = { ...legacy.order, start_date: "2025-06-09", end_date: "2025-06-10", start_datetime: null, end_datetime: null };
+
+    const availability = await fetchProductAvailability(
+      fallbackClient({ products: [{ id: "sherwani", stock_quantity: 1 }], order_items: [legacy] }),
+      rentalWindow
+    );
+
+    expect(availability.sherwani.reserved_quantity).toBe(1);
+  });
+
+  it("keeps overdue rentals holding stock until they come back", async () => {
+    vi.setSystemTime(new Date("2025-06-11T00:00:00.000Z"));
+    const overdue = booking("overdue", "2025-06-05T10:00:00.000Z", "2025-06-07T10:00:00.000Z", 3, "pending_return");
+    overdue.returned_quantity = 1;
+
+    const availability = await fetchProductAvailability(
+      fallbackClient({ products: [{ id: "sherwani", stock_quantity: 3 }], order_items: [overdue] }),
+      rentalWindow
+    );
+
+    expect(availability.sherwani).toMatchObject({ reserved_quantity: 2, available_quantity: 1 });
+  });
+
+  it("skips the order being edited and never goes below zero", async () => {
+    const availability = await fetchProductAvailability(
+      fallbackClient({
+        products: [{ id: "sherwani", stock_quantity: 2 }],
+        order_items: [
+          booking("self", "2025-06-10T10:00:00.000Z", "2025-06-12T10:00:00.000Z", 2),
+          booking("other", "2025-06-11T10:00:00.000Z", "2025-06-12T10:00:00.000Z", 1),
+        ],
+        item_maintenance: [{ product_id: "sherwani", quantity: 2 }],
+      }),
+      { ...rentalWindow, excludeOrderId: "self" }
+    );
+
+    expect(availability.sherwani).toMatchObject({ reserved_quantity: 1, in_maintenance_quantity: 2, available_quantity: 0 });
+  });
+
+  it("asks for nothing when no products are given", async () => {
+    const client = fallbackClient({ products: [], order_items: [] });
+    const rpc = vi.spyOn(client, "rpc");
+
+    expect(await fetchProductAvailability(client, { ...rentalWindow, productIds: [] })).toEqual({});
+    expect(rpc).not.toHaveBeenCalled();
+  });
+});
+
+describe("findOverbookedLines", () => {
+  const free = (product_id: string, available_quantity: number): ProductAvailability => ({
+    product_id,
+    stock_quantity: available_quantity,
+    reserved_quantity: 0,
+    in_maintenance_quantity: 0,
+    available_quantity,
+  });
+
+  it("sums every line of a product before comparing with what is free", () => {
+    const lines = [
+      { product_id: "sherwani", product_name: "Sherwani", quantity: 2 },
+      { product_id: "turban", product_name: "Turban", quantity: 1 },
+      { product_id: "sherwani", product_name: "Sherwani (maroon)", quantity: 2 },
+    ];
+
+    expect(findOverbookedLines(lines, { sherwani: free("sherwani", 3), turban: free("turban", 1) })).toEqual([
+      { product_id: "sherwani", product_name: "Sherwani", requested: 4, available: 3 },
+    ]);
+  });
+
+  it("allows booking exactly the units that are free", () => {
+    expect(findOverbookedLines([{ product_id: "turban", quantity: 1 }], { turban: free("turban", 1) })).toEqual([]);
+  });
+
+  it("ignores free-text lines and products without availability", () => {
+    const lines = [
+      { product_id: null, product_name: "Custom stitching", quantity: 10 },
+      { product_id: "unknown", quantity: 10 },
+    ];
+
+    expect(findOverbookedLines(lines, {})).toEqual([]);
+  });
+
+  it("names a line it has no name for", () => {
+    expect(findOverbookedLines([{ product_id: "turban", quantity: 2 }], { turban: free("turban", 0) })).toEqual([
+      { product_id: "turban", product_name: "Product", requested: 2, available: 0 },
+    ]);
+  });
+});
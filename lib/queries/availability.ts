@@ -0,0 +1,199 @@
+import { useQuery } from "@tanstack/react-query";
+import { createClient } from "@/lib/supabase/client";
+import type { OrderStatus } from "@/lib/types";
+
+/**
+ * Order statuses whose items hold stock. pending_return is an overdue
+ * active rental, so its units are still out with the customer.
+ */
+export const STOCK_HOLDING_STATUSES: OrderStatus[] = [
+  "scheduled",
+  "active",
+  "pending_return",
+  "partially_returned",
+  "flagged",
+];
+
+export interface ProductAvailability {
+  product_id: string;
+  stock_quantity: number;
+  reserved_quantity: number; // Units held by overlapping orders
+  in_maintenance_quantity: number; // Returned units not yet cleaned/repaired
+  available_quantity: number; // Free units in the window (never below 0)
+}
+
+export interface AvailabilityParams {
+  branchId: string;
+  productIds: string[];
+  start: string; // ISO datetime
+  end: string; // ISO datetime
+  excludeOrderId?: string; // Ignore this order's own lines (editing/rescheduling)
+}
+
+export interface OverbookedLine {
+  product_id: string;
+  product_name: string;
+  requested: number;
+  available: number;
+}
+
+/**
+ * End of a reservation. Legacy DATE-only orders hold stock for the whole end day.
+ * Orders already out keep holding units past the due date until returned.
+ */
+function getReservationEnd(order: { status: OrderStatus; end_date: string; end_datetime?: string | null }): number {
+  const end = order.end_datetime
+    ? new Date(order.end_datetime).getTime()
+    : new Date(`${order.end_date}T00:00:00`).getTime() + 24 * 60 * 60 * 1000;
+  return order.status === "scheduled" ? end : Math.max(end, Date.now());
+}
+
+/**
+ * Free units per product for a rental window.
+ * Uses the get_product_availability RPC and falls back to a client-side
+ * calculation when the migration hasn't been run yet.
+ */
+export async function fetchProductAvailability(
+  supabase: ReturnType<typeof createClient>,
+  params: AvailabilityParams
+): Promise<Record<string, ProductAvailability>> {
+  const { branchId, productIds, start, end, excludeOrderId } = params;
+  if (productIds.length === 0) return {};
+
+  const { data: rpcData, error: rpcError } = await supabase.rpc("get_product_availability", {
+    p_branch_id: branchId,
+    p_start: start,
+    p_end: end,
+    p_product_ids: productIds,
+    p_exclude_order_id: excludeOrderId || null,
+  });
+
+  if (!rpcError && Array.isArray(rpcData)) {
+    return Object.fromEntries(
+      (rpcData as ProductAvailability[]).map((row) => [row.product_id, row])
+    );
+  }
+
+  // Fallback: compute from products, overlapping order lines and maintenance
+  const { data: products, error: productsError } = await supabase
+    .from("products")
+    .select("id, stock_quantity")
+    .in("id", productIds);
+
+  if (productsError) throw productsError;
+
+  const { data: lines, error: linesError } = await supabase
+    .from("order_items")
+    .select("product_id, quantity, returned_quantity, order:orders!inner(id, branch_id, status, start_date, end_date, start_datetime, end_datetime)")
+    .in("product_id", productIds)
+    .eq("order.branch_id", branchId)
+    .in("order.status", STOCK_HOLDING_STATUSES);
+
+  if (linesError) throw linesError;
+
+  // Returned units that aren't ready yet. The table only exists once
+  // add-item-maintenance.sql has run, so a failed lookup holds nothing back.
+  const { data: maintenance } = await supabase
+    .from("item_maintenance")
+    .select("product_id, quantity")
+    .in("product_id", productIds)
+    .eq("branch_id", branchId)
+    .neq("status", "ready");
+
+  const inMaintenance = new Map<string, number>();
+  (maintenance || []).forEach((batch) => {
+    if (!batch.product_id) return;
+    inMaintenance.set(batch.product_id, (inMaintenance.get(batch.product_id) || 0) + (batch.quantity || 0));
+  });
+
+  const windowStart = new Date(start).getTime();
+  const windowEnd = new Date(end).getTime();
+  const reserved = new Map<string, number>();
+
+  (lines || []).forEach((line) => {
+    const order = line.order;
+    if (!order || !line.product_id || order.id === excludeOrderId) return;
+
+    const orderStart = new Date(order.start_datetime || `${order.start_date}T00:00:00`).getTime();
+    if (orderStart >= windowEnd || getReservationEnd(order) <= windowStart) return;
+
+    const held = Math.max(0, (line.quantity || 0) - (line.returned_quantity || 0));
+    reserved.set(line.product_id, (reserved.get(line.product_id) || 0) + held);
+  });
+
+  return Object.fromEntries(
+    (products || []).map((product: { id: string; stock_quantity: number }) => {
+      const reservedQty = reserved.get(product.id) || 0;
+      const maintenanceQty = inMaintenance.get(product.id) || 0;
+      return [
+        product.id,
+        {
+          product_id: product.id,
+          stock_quantity: product.stock_quantity,
+          reserved_quantity: reservedQty,
+          in_maintenance_quantity: maintenanceQty,
+          available_quantity: Math.max(0, product.stock_quantity - reservedQty - maintenanceQty),
+        },
+      ];
+    })
+  );
+}
+
+/**
+ * Compare requested quantities (summed per product across lines) with free units
+ */
+export function findOverbookedLines(
+  items: { product_id?: string | null; product_name?: string | null; quantity: number }[],
+  availability: Record<string, ProductAvailability>
+): OverbookedLine[] {
+  const requested = new Map<string, { name: string; quantity: number }>();
+
+  items.forEach((item) => {
+    if (!item.product_id) return;
+    const current = requested.get(item.product_id);
+    requested.set(item.product_id, {
+      name: current?.name || item.product_name || "Product",
+      quantity: (current?.quantity || 0) + (item.quantity || 0),
+    });
+  });
+
+  const overbooked: OverbookedLine[] = [];
+  requested.forEach(({ name, quantity }, productId) => {
+    const info = availability[productId];
+    if (info && quantity > info.available_quantity) {
+      overbooked.push({
+        product_id: productId,
+        product_name: name,
+        requested: quantity,
+        available: info.available_quantity,
+      });
+    }
+  });
+
+  return overbooked;
+}
+
+export function useProductAvailability(
+  branchId: string | null,
+  productIds: string[],
+  start: string,
+  end: string,
+  excludeOrderId?: string
+) {
+  const supabase = createClient();
+  const sortedIds = [...new Set(productIds)].sort();
+
+  return useQuery({
+    queryKey: ["product-availability", branchId, sortedIds, start, end, excludeOrderId || null],
+    queryFn: () =>
+      fetchProductAvailability(supabase, {
+        branchId: branchId!,
+        productIds: sortedIds,
+        start,
+        end,
+        excludeOrderId,
+      }),
+    enabled: !!branchId && sortedIds.length > 0 && !!start && !!end,
+    staleTime: 15000,
+  });
+}
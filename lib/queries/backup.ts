@@ -0,0 +1,65 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { RestoreResult } from "@/lib/backup/format";
+
+/**
+ * Download a backup ZIP - of one branch, or of all branches when branchId is
+ * empty (super admins only)
+ */
+export function useExportBackup() {
+  return useMutation({
+    mutationFn: async (branchId: string | null) => {
+      const response = await fetch("/api/backup/export", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ branchId }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to export data");
+      }
+
+      const fileName =
+        response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] || "backup.zip";
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+  });
+}
+
+/**
+ * Restore a backup ZIP into this (empty) project
+ */
+export function useRestoreBackup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch("/api/backup/restore", {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to restore data");
+      }
+
+      const { data } = await response.json();
+      return data as RestoreResult;
+    },
+    onSuccess: () => {
+      // Every list in the app may have changed
+      queryClient.invalidateQueries();
+    },
+  });
+}
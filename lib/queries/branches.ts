@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { createClient } from "@/lib/supabase/client";
-import type { Branch } from "@/lib/types";
+import type { Branch, CommissionType, LateFeeUnit, LateFeeRateType } from "@/lib/types";
 import { getMainBranchId } from "@/lib/utils/branches";
 
 export function useBranches() {
@@ -25,7 +25,7 @@ export function useCreateBranch() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (branchData: { name: string; address: string; phone?: string }) => {
+    mutationFn: async (branchData: { name: string; address: string; phone?: string; invoice_prefix?: string }) => {
       const { data, error } = await (supabase
         .from("branches") as any)
         .insert([branchData])
@@ -54,6 +54,20 @@ export function useUpdateBranch() {
       name?: string;
       address?: string;
       phone?: string;
+      invoice_prefix?: string;
+      gstin?: string | null;
+      state_code?: string | null;
+      late_fee_enabled?: boolean;
+      late_fee_grace_minutes?: number;
+      late_fee_unit?: LateFeeUnit;
+      late_fee_rate_type?: LateFeeRateType;
+      late_fee_rate?: number;
+      late_fee_cap?: number | null;
+      approval_discount_threshold?: number | null;
+      approval_late_fee_waiver_threshold?: number | null;
+      approval_cancel_threshold?: number | null;
+      commission_type?: CommissionType | null;
+      commission_rate?: number;
     }) => {
       const { data, error } = await (supabase
         .from("branches") as any)
@@ -1,8 +1,10 @@
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { createClient } from "@/lib/supabase/client";
-import type { Order } from "@/lib/types";
-import { startOfMonth, endOfMonth, format } from "date-fns";
+import type { Order, OrderStatus } from "@/lib/types";
+import { startOfMonth, endOfMonth, format, startOfDay, differenceInCalendarDays, getDaysInMonth, addDays } from "date-fns";
 import { useRealtimeSubscription } from "@/lib/hooks/use-realtime-subscription";
+import { fetchProductAvailability, findOverbookedLines, STOCK_HOLDING_STATUSES } from "@/lib/queries/availability";
+import { logTimelineEvent } from "@/lib/queries/order-timeline";
 
 export interface CalendarOrderCounts {
   [date: string]: {
@@ -115,3 +117,209 @@ export function useCalendarOrders(
   });
 }
 
+export interface CalendarTimelineOrder {
+  id: string;
+  invoice_number: string | null;
+  status: OrderStatus;
+  customer_name: string;
+  start: string; // ISO datetime
+  end: string; // ISO datetime
+  item_count: number; // Units on the order
+  // Days from the first of the month - may fall outside it
+  first_day: number;
+  last_day: number;
+}
+
+export interface CalendarDaySummary {
+  items_out: number; // Units booked out on this day
+  returns_due: number; // Orders due back this day and not returned yet
+}
+
+// Statuses where the items are with the customer - bars run to today while overdue
+const OUT_STATUSES: OrderStatus[] = STOCK_HOLDING_STATUSES.filter((status) => status !== "scheduled");
+
+/**
+ * Every order overlapping a month, as bars from start to end, with the units
+ * out and returns due per day. Orders still out past their due date are
+ * included whatever month they started in.
+ */
+export function useCalendarTimeline(branchId: string | null, month: Date) {
+  const supabase = createClient();
+
+  useRealtimeSubscription("orders", branchId);
+
+  const monthStart = startOfMonth(month);
+  const monthEnd = endOfMonth(month);
+
+  return useQuery({
+    queryKey: ["calendar-timeline", branchId, format(monthStart, "yyyy-MM")],
+    queryFn: async (): Promise<{ orders: CalendarTimelineOrder[]; days: Record<string, CalendarDaySummary> }> => {
+      if (!branchId) {
+        return { orders: [], days: {} };
+      }
+
+      const { data, error } = await supabase
+        .from("orders")
+        .select(
+          "id, invoice_number, status, start_date, end_date, start_datetime, end_datetime, customer:customers(name), items:order_items(quantity)"
+        )
+        .eq("branch_id", branchId)
+        .neq("status", "cancelled")
+        .lte("start_date", format(monthEnd, "yyyy-MM-dd"))
+        .or(`end_date.gte.${format(monthStart, "yyyy-MM-dd")},status.in.(${OUT_STATUSES.join(",")})`)
+        .order("start_date", { ascending: true });
+
+      if (error) throw error;
+
+      const todayIndex = differenceInCalendarDays(startOfDay(new Date()), monthStart);
+
+      const orders: CalendarTimelineOrder[] = (data || []).map((order) => {
+        // Legacy DATE-only orders run from the start of the first day to the end of the last
+        const start = order.start_datetime || `${order.start_date}T00:00:00`;
+        const end = order.end_datetime || `${order.end_date}T23:59:59`;
+        const lastDay = differenceInCalendarDays(new Date(end), monthStart);
+
+        return {
+          id: order.id,
+          invoice_number: order.invoice_number,
+          status: order.status,
+          customer_name: order.customer?.name || "Unknown Customer",
+          start: new Date(start).toISOString(),
+          end: new Date(end).toISOString(),
+          item_count: (order.items || []).reduce((sum: number, item: { quantity: number }) => sum + (item.quantity || 0), 0),
+          first_day: differenceInCalendarDays(new Date(start), monthStart),
+          last_day: OUT_STATUSES.includes(order.status) ? Math.max(lastDay, todayIndex) : lastDay,
+        };
+      });
+
+      const days: Record<string, CalendarDaySummary> = {};
+      for (let day = 0; day < getDaysInMonth(monthStart); day++) {
+        const dateKey = format(addDays(monthStart, day), "yyyy-MM-dd");
+        days[dateKey] = { items_out: 0, returns_due: 0 };
+
+        orders.forEach((order) => {
+          if (order.first_day <= day && day <= order.last_day) {
+            days[dateKey].items_out += order.item_count;
+          }
+          if (order.status !== "completed" && differenceInCalendarDays(new Date(order.end), monthStart) === day) {
+            days[dateKey].returns_due++;
+          }
+        });
+      }
+
+      return { orders, days };
+    },
+    enabled: !!branchId,
+    staleTime: 30000,
+    refetchOnMount: false,
+    refetchOnReconnect: true,
+    refetchOnWindowFocus: false,
+  });
+}
+
+export interface RescheduleOrderInput {
+  orderId: string;
+  branchId: string;
+  start: string; // ISO datetime
+  end: string; // ISO datetime
+}
+
+/**
+ * Move a scheduled order to new dates, after checking its catalog items are
+ * free for the new window
+ */
+export async function rescheduleOrder(
+  supabase: ReturnType<typeof createClient>,
+  input: RescheduleOrderInput
+) {
+  const { data: { user: authUser }, error: authError } = await supabase.auth.getUser();
+  if (authError || !authUser) {
+    throw new Error("Authentication required");
+  }
+
+  const start = new Date(input.start);
+  const end = new Date(input.end);
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+    throw new Error("The return time must be after the pickup time");
+  }
+  // Compare the full time: a scheduled order whose start has passed is
+  // cancelled by auto_cancel_expired_scheduled_orders
+  if (start <= new Date()) {
+    throw new Error("Orders can't be moved to a time that has already passed");
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from("order_items")
+    .select("product_id, product_name, quantity")
+    .eq("order_id", input.orderId);
+
+  if (itemsError) throw itemsError;
+
+  const productIds = (items || [])
+    .map((item: { product_id: string | null }) => item.product_id)
+    .filter((id: string | null): id is string => !!id);
+
+  if (productIds.length > 0) {
+    const availability = await fetchProductAvailability(supabase, {
+      branchId: input.branchId,
+      productIds,
+      start: input.start,
+      end: input.end,
+      excludeOrderId: input.orderId,
+    });
+    const overbooked = findOverbookedLines(items, availability);
+    if (overbooked.length > 0) {
+      throw new Error(
+        `Not enough stock for these dates: ${overbooked
+          .map((line) => `${line.product_name} (${line.available} available, ${line.requested} requested)`)
+          .join(", ")}`
+      );
+    }
+  }
+
+  const { data: order, error } = await supabase
+    .from("orders")
+    .update({
+      start_date: format(start, "yyyy-MM-dd"),
+      end_date: format(end, "yyyy-MM-dd"),
+      start_datetime: input.start,
+      end_datetime: input.end,
+    })
+    .eq("id", input.orderId)
+    .eq("status", "scheduled") // Started in the meantime - leave it alone
+    .select("id")
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!order) {
+    throw new Error("Only scheduled orders can be rescheduled");
+  }
+
+  await logTimelineEvent(supabase, {
+    orderId: input.orderId,
+    action: "order_edited",
+    userId: authUser.id,
+    previousStatus: "scheduled",
+    notes: `rescheduled to ${format(start, "dd MMM")} - ${format(end, "dd MMM yyyy")}`,
+  });
+
+  return order;
+}
+
+export function useRescheduleOrder() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: RescheduleOrderInput) => rescheduleOrder(supabase, input),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["calendar-timeline"] });
+      queryClient.invalidateQueries({ queryKey: ["calendar-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      queryClient.invalidateQueries({ queryKey: ["orders-infinite"] });
+      queryClient.invalidateQueries({ queryKey: ["order", variables.orderId] });
+      queryClient.invalidateQueries({ queryKey: ["order-timeline", variables.orderId] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+    },
+  });
+}
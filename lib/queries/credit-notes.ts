@@ -0,0 +1,183 @@
+import { useQuery } from "@tanstack/react-query";
+import { createClient } from "@/lib/supabase/client";
+import { logTimelineEvent } from "@/lib/queries/order-timeline";
+import { formatCurrency } from "@/lib/utils/date";
+import { PAYMENT_MODE_LABELS } from "@/lib/queries/payments";
+import type { CreditNote, CreditNoteType, PaymentMode } from "@/lib/types";
+
+export const CREDIT_NOTE_TYPE_LABELS: Record<CreditNoteType, string> = {
+  cancellation: "Cancellation",
+  billing_adjustment: "Billing Adjustment",
+  refund: "Refund",
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Insert a credit note and log it on the order timeline.
+ * The number, branch, customer and invoice are filled in by the database
+ * (see supabase-migrations/add-credit-notes.sql). Callers adjust the order itself.
+ */
+export async function issueCreditNote(
+  supabase: ReturnType<typeof createClient>,
+  note: {
+    orderId: string;
+    branchId: string;
+    customerId: string;
+    invoiceNumber: string;
+    noteType: CreditNoteType;
+    totalAmount: number;
+    gstAmount: number;
+    reason?: string;
+    userId: string;
+  }
+): Promise<CreditNote> {
+  const totalAmount = roundMoney(note.totalAmount);
+  const gstAmount = roundMoney(Math.min(Math.max(note.gstAmount, 0), totalAmount));
+
+  const { data, error } = await supabase
+    .from("credit_notes")
+    .insert({
+      order_id: note.orderId,
+      branch_id: note.branchId,
+      customer_id: note.customerId,
+      invoice_number: note.invoiceNumber,
+      note_type: note.noteType,
+      reason: note.reason?.trim() || null,
+      taxable_value: roundMoney(totalAmount - gstAmount),
+      gst_amount: gstAmount,
+      total_amount: totalAmount,
+      issued_by: note.userId,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const creditNote = data as CreditNote;
+  await logTimelineEvent(supabase, {
+    orderId: note.orderId,
+    action: "credit_note_issued",
+    userId: note.userId,
+    notes: [
+      `${creditNote.credit_note_number}: ${formatCurrency(totalAmount)} ${CREDIT_NOTE_TYPE_LABELS[note.noteType].toLowerCase()}`,
+      note.reason?.trim(),
+    ]
+      .filter(Boolean)
+      .join(" - "),
+  });
+
+  return creditNote;
+}
+
+/**
+ * Credit note for a lowered order total, issued before the order is updated.
+ * Returns null when the total didn't go down.
+ */
+export async function issueBillingAdjustmentCreditNote(
+  supabase: ReturnType<typeof createClient>,
+  currentOrder: {
+    id: string;
+    branch_id: string;
+    customer_id: string;
+    invoice_number: string | null;
+    total_amount: number | null;
+    gst_amount?: number | null;
+  },
+  newTotals: { total_amount: number; gst_amount?: number | null },
+  userId: string
+): Promise<CreditNote | null> {
+  const reduction = roundMoney((Number(currentOrder.total_amount) || 0) - newTotals.total_amount);
+  if (!currentOrder.invoice_number || reduction <= 0) return null;
+
+  const gstReduction = (Number(currentOrder.gst_amount) || 0) - (Number(newTotals.gst_amount) || 0);
+  return issueCreditNote(supabase, {
+    orderId: currentOrder.id,
+    branchId: currentOrder.branch_id,
+    customerId: currentOrder.customer_id,
+    invoiceNumber: currentOrder.invoice_number,
+    noteType: "billing_adjustment",
+    totalAmount: reduction,
+    gstAmount: gstReduction,
+    reason: `Total changed from ${formatCurrency(Number(currentOrder.total_amount) || 0)} to ${formatCurrency(newTotals.total_amount)}`,
+    userId,
+  });
+}
+
+export function useOrderCreditNotes(orderId: string) {
+  const supabase = createClient();
+
+  return useQuery({
+    queryKey: ["order-credit-notes", orderId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("credit_notes")
+        .select("*")
+        .eq("order_id", orderId)
+        .order("issued_at", { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as CreditNote[];
+    },
+    enabled: !!orderId,
+    staleTime: 30000,
+  });
+}
+
+export interface RefundCreditNoteInput {
+  orderId: string;
+  amount: number;
+  reason: string;
+  gstIncluded: boolean; // Subtotal already contains the GST
+  refundMode?: PaymentMode | null; // How the money was paid back; unset = only the amount due goes down
+}
+
+/**
+ * Refund / discount after invoicing: issues a credit note, lowers the
+ * order's billed amounts by the same value and records any money paid back
+ * in the payments ledger, in one database transaction
+ * (issue_refund_credit_note in supabase-migrations/add-credit-notes.sql).
+ */
+export async function issueRefundCreditNote(
+  supabase: ReturnType<typeof createClient>,
+  input: RefundCreditNoteInput
+): Promise<CreditNote> {
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    throw new Error("Authentication required");
+  }
+
+  const value = roundMoney(input.amount);
+  if (!value || value <= 0) {
+    throw new Error("Credit amount must be greater than zero");
+  }
+  if (!input.reason.trim()) {
+    throw new Error("Enter a reason for the credit note");
+  }
+
+  const { data, error } = await supabase.rpc("issue_refund_credit_note", {
+    p_order_id: input.orderId,
+    p_amount: value,
+    p_reason: input.reason.trim(),
+    p_gst_included: input.gstIncluded,
+    p_refund_mode: input.refundMode || null,
+  });
+
+  if (error) throw error;
+
+  const creditNote = data as CreditNote;
+  await logTimelineEvent(supabase, {
+    orderId: input.orderId,
+    action: "credit_note_issued",
+    userId: user.id,
+    notes: [
+      `${creditNote.credit_note_number}: ${formatCurrency(value)} refund`,
+      input.refundMode ? `paid back via ${PAYMENT_MODE_LABELS[input.refundMode]}` : null,
+      input.reason.trim(),
+    ]
+      .filter(Boolean)
+      .join(" - "),
+  });
+
+  return creditNote;
+}
@@ -1,10 +1,157 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { createClient } from "@/lib/supabase/client";
-import type { Customer } from "@/lib/types";
+import type { Customer, CustomerRiskProfile } from "@/lib/types";
 import { useRealtimeSubscription } from "@/lib/hooks/use-realtime-subscription";
+import { fetchCustomerDues } from "@/lib/queries/payments";
+import {
+  findDuplicateMatches,
+  isStrongDuplicate,
+  normalizeIdProofNumber,
+  normalizePhone,
+  describeDuplicateReasons,
+  type CustomerDuplicateInput,
+  type CustomerDuplicateMatch,
+} from "@/lib/utils/customer-duplicates";
+import { isImportableRow, type CustomerImportRow } from "@/lib/utils/customer-import";
+
+// Rows per insert when importing customers
+const IMPORT_BATCH_SIZE = 50;
 
 export interface CustomerWithDues extends Customer {
   due_amount: number;
+  risk?: CustomerRiskProfile;
+}
+
+/**
+ * Return history per customer from the customer_risk_profiles view.
+ */
+export async function fetchCustomerRiskProfiles(
+  supabase: ReturnType<typeof createClient>,
+  customerIds: string[]
+): Promise<Map<string, CustomerRiskProfile>> {
+  const profiles = new Map<string, CustomerRiskProfile>();
+  if (customerIds.length === 0) return profiles;
+
+  const { data, error } = await supabase
+    .from("customer_risk_profiles")
+    .select("*")
+    .in("customer_id", customerIds);
+
+  if (error) throw error;
+
+  (data || []).forEach((row) => {
+    if (!row.customer_id) return;
+    profiles.set(row.customer_id, {
+      customer_id: row.customer_id,
+      is_blacklisted: !!row.is_blacklisted,
+      total_orders: Number(row.total_orders) || 0,
+      late_returns: Number(row.late_returns) || 0,
+      damage_fees: Number(row.damage_fees) || 0,
+      missing_items: Number(row.missing_items) || 0,
+      unpaid_dues: Number(row.unpaid_dues) || 0,
+    });
+  });
+
+  return profiles;
+}
+
+/**
+ * Existing customers with the same phone or ID proof, or a similar name.
+ * Candidates are narrowed in the database, then scored here. Phone and ID
+ * proof matches are looked up on their own so a common name filling the
+ * name lookup's limit can't hide them.
+ */
+export async function fetchDuplicateCustomers(
+  supabase: ReturnType<typeof createClient>,
+  input: CustomerDuplicateInput,
+  excludeCustomerId?: string
+): Promise<CustomerDuplicateMatch[]> {
+  const phone = normalizePhone(input.phone);
+  const idProof = normalizeIdProofNumber(input.id_proof_number);
+  const nameTokens = (input.name || "").toLowerCase().match(/[a-z]{3,}/g) || [];
+
+  const exactFilters: string[] = [];
+  if (phone.length === 10) exactFilters.push(`phone_digits.eq.${phone}`);
+  if (idProof) exactFilters.push(`id_proof_key.eq.${idProof}`);
+  const nameFilters = nameTokens.slice(0, 3).map((token) => `name.ilike.%${token}%`);
+
+  const lookup = (filters: string[], limit?: number) => {
+    let query = supabase
+      .from("customers")
+      .select("*")
+      .or(filters.join(","))
+      .order("created_at", { ascending: false });
+    if (limit) query = query.limit(limit);
+    if (excludeCustomerId) query = query.neq("id", excludeCustomerId);
+    return query;
+  };
+
+  const results = await Promise.all([
+    exactFilters.length > 0 ? lookup(exactFilters) : null,
+    nameFilters.length > 0 ? lookup(nameFilters, 50) : null,
+  ]);
+
+  const candidates = new Map<string, Customer>();
+  for (const result of results) {
+    if (!result) continue;
+    if (result.error) throw result.error;
+    ((result.data || []) as Customer[]).forEach((customer) => candidates.set(customer.id, customer));
+  }
+  if (candidates.size === 0) return [];
+
+  return findDuplicateMatches(input, Array.from(candidates.values()));
+}
+
+/**
+ * Existing customers sharing a phone or ID proof with imported rows.
+ * Name similarity isn't checked here - it would mean a lookup per row.
+ */
+export async function fetchImportDuplicates(
+  supabase: ReturnType<typeof createClient>,
+  rows: CustomerImportRow[]
+): Promise<CustomerImportRow[]> {
+  const phones = Array.from(new Set(rows.map((r) => normalizePhone(r.data.phone)).filter((p) => p.length === 10)));
+  const idProofs = Array.from(new Set(rows.map((r) => normalizeIdProofNumber(r.data.id_proof_number)).filter(Boolean)));
+
+  const candidates = new Map<string, Customer>();
+  const lookups: Array<[string, string[]]> = [
+    ["phone_digits", phones],
+    ["id_proof_key", idProofs],
+  ];
+  for (const [column, values] of lookups) {
+    for (let i = 0; i < values.length; i += IMPORT_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from("customers")
+        .select("*")
+        .in(column, values.slice(i, i + IMPORT_BATCH_SIZE));
+
+      if (error) throw error;
+      ((data || []) as Customer[]).forEach((customer) => candidates.set(customer.id, customer));
+    }
+  }
+
+  const existing = Array.from(candidates.values());
+  return rows.map((row) => ({
+    ...row,
+    duplicates: existing.length > 0
+      ? findDuplicateMatches({ phone: row.data.phone, id_proof_number: row.data.id_proof_number }, existing)
+      : [],
+  }));
+}
+
+export function useDuplicateCustomers(input: CustomerDuplicateInput, excludeCustomerId?: string) {
+  const supabase = createClient();
+  const phone = normalizePhone(input.phone);
+  const idProof = normalizeIdProofNumber(input.id_proof_number);
+  const name = (input.name || "").trim();
+
+  return useQuery({
+    queryKey: ["customer-duplicates", phone, idProof, name.toLowerCase(), excludeCustomerId],
+    queryFn: () => fetchDuplicateCustomers(supabase, { name, phone, id_proof_number: idProof }, excludeCustomerId),
+    enabled: phone.length === 10 || !!idProof || name.length >= 3,
+    staleTime: 30000,
+    placeholderData: (previousData) => previousData,
+  });
 }
 
 export function useCustomers(searchQuery?: string, page: number = 1, pageSize: number = 20, enableRealtime: boolean = false) {
@@ -52,30 +199,12 @@ export function useCustomers(searchQuery?: string, page: number = 1, pageSize: n
         };
       }
 
-      // Fetch pending orders for all customers to calculate dues - optimized batch query
+      // Dues come from the payments ledger (order total minus payments received)
       const customerIds = (customers as Customer[]).map((c) => c.id);
-      
-      // Only fetch orders if we have customers
-      let duesMap = new Map<string, number>();
-      if (customerIds.length > 0) {
-        const { data: pendingOrders, error: ordersError } = await supabase
-          .from("orders")
-          .select("customer_id, total_amount, status")
-          .in("customer_id", customerIds)
-          .in("status", ["active", "pending_return"]);
-
-        if (ordersError) throw ordersError;
-
-        // Calculate dues - optimized single pass with Map for O(1) lookups
-        if (pendingOrders && pendingOrders.length > 0) {
-          for (let i = 0; i < pendingOrders.length; i++) {
-            const order = pendingOrders[i] as any;
-            const customerId = order.customer_id;
-            const amount = order.total_amount || 0;
-            duesMap.set(customerId, (duesMap.get(customerId) || 0) + amount);
-          }
-        }
-      }
+      const [balances, riskProfiles] = await Promise.all([
+        fetchCustomerDues(supabase, customerIds),
+        fetchCustomerRiskProfiles(supabase, customerIds),
+      ]);
 
       // Add due_amount to each customer - optimized single pass with pre-allocated array
       const customersWithDues: CustomerWithDues[] = new Array(customers.length);
@@ -83,7 +212,8 @@ export function useCustomers(searchQuery?: string, page: number = 1, pageSize: n
         const customer = customers[i] as Customer;
         customersWithDues[i] = {
           ...customer,
-          due_amount: duesMap.get(customer.id) || 0,
+          due_amount: balances.get(customer.id)?.due || 0,
+          risk: riskProfiles.get(customer.id),
         } as CustomerWithDues;
       }
 
@@ -149,6 +279,20 @@ export function useCustomerOrders(customerId: string) {
   });
 }
 
+export function useCustomerRiskProfile(customerId: string) {
+  const supabase = createClient();
+
+  return useQuery({
+    queryKey: ["customer-risk", customerId],
+    queryFn: async () => {
+      const profiles = await fetchCustomerRiskProfiles(supabase, [customerId]);
+      return profiles.get(customerId) || null;
+    },
+    enabled: !!customerId,
+    staleTime: 30000,
+  });
+}
+
 export function useUpdateCustomer() {
   const supabase = createClient();
   const queryClient = useQueryClient();
@@ -162,8 +306,8 @@ export function useUpdateCustomer() {
       updates: Partial<Customer>;
     }) => {
       // Type assertion needed due to Supabase type generation
-      const { data, error } = await (supabase
-        .from("customers") as any)
+      const { data, error } = await supabase
+        .from("customers")
         .update(updates)
         .eq("id", customerId)
         .select()
@@ -195,7 +339,20 @@ export function useCreateCustomer() {
       id_proof_number?: string | null;
       id_proof_front_url?: string | null;
       id_proof_back_url?: string | null;
+      gstin?: string | null;
+      state_code?: string | null;
+      allow_duplicate?: boolean; // Staff confirmed this is a different person
     }) => {
+      if (!customerData.allow_duplicate) {
+        const duplicates = (await fetchDuplicateCustomers(supabase, customerData)).filter(isStrongDuplicate);
+        if (duplicates.length > 0) {
+          const { customer, reasons } = duplicates[0];
+          throw new Error(
+            `${customer.name}${customer.customer_number ? ` (${customer.customer_number})` : ""} already exists with the ${describeDuplicateReasons(reasons.filter((r) => r !== "name"))}`
+          );
+        }
+      }
+
       const { data, error } = await supabase
         .from("customers")
         .insert({
@@ -206,6 +363,8 @@ export function useCreateCustomer() {
           id_proof_number: customerData.id_proof_number?.trim() || null,
           id_proof_front_url: customerData.id_proof_front_url || null,
           id_proof_back_url: customerData.id_proof_back_url || null,
+          gstin: customerData.gstin || null,
+          state_code: customerData.state_code || null,
         } as any)
         .select()
         .single();
@@ -258,8 +417,8 @@ export function useToggleCustomerActive() {
       customerId: string;
       isActive: boolean;
     }) => {
-      const { data, error } = await (supabase
-        .from("customers") as any)
+      const { data, error } = await supabase
+        .from("customers")
         .update({ is_active: isActive })
         .eq("id", customerId)
         .select()
@@ -276,3 +435,144 @@ export function useToggleCustomerActive() {
   });
 }
 
+
+/**
+ * Blacklist or clear a customer. Admin only - the database rejects anyone else.
+ */
+export function useSetCustomerBlacklist() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      customerId,
+      blacklisted,
+      reason,
+    }: {
+      customerId: string;
+      blacklisted: boolean;
+      reason?: string;
+    }) => {
+      if (blacklisted && !reason?.trim()) {
+        throw new Error("Enter a reason for blacklisting this customer");
+      }
+
+      const { data, error } = await supabase
+        .from("customers")
+        .update({
+          is_blacklisted: blacklisted,
+          blacklist_reason: blacklisted ? reason?.trim() : null,
+        })
+        .eq("id", customerId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as Customer;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+      queryClient.invalidateQueries({ queryKey: ["customer", variables.customerId] });
+      queryClient.invalidateQueries({ queryKey: ["customer-risk", variables.customerId] });
+    },
+  });
+}
+
+/**
+ * Merge a duplicate into the surviving customer. Orders, payments, credit
+ * notes and any missing details move across and the duplicate is deleted.
+ * Admin only - the database rejects anyone else.
+ */
+export function useMergeCustomers() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      survivorId,
+      duplicateId,
+    }: {
+      survivorId: string;
+      duplicateId: string;
+    }) => {
+      const { data, error } = await supabase.rpc("merge_customers", {
+        p_survivor_id: survivorId,
+        p_duplicate_id: duplicateId,
+      });
+
+      if (error) throw error;
+      return data as Customer;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+      queryClient.invalidateQueries({ queryKey: ["customer"] });
+      queryClient.invalidateQueries({ queryKey: ["customer-orders", variables.survivorId] });
+      queryClient.invalidateQueries({ queryKey: ["customer-risk", variables.survivorId] });
+      queryClient.invalidateQueries({ queryKey: ["customer-balance", variables.survivorId] });
+      queryClient.invalidateQueries({ queryKey: ["customer-duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+    },
+  });
+}
+
+export interface CustomerImportResult {
+  created: number;
+  failed: Array<{ rowNumber: number; error: string }>;
+}
+
+/**
+ * Insert the valid, non-duplicate rows in batches. customer_number is set by
+ * the database as for any new customer. A failed batch is retried row by row
+ * so one bad row doesn't block the rest.
+ */
+export function useImportCustomers() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      rows,
+      onProgress,
+    }: {
+      rows: CustomerImportRow[];
+      onProgress?: (done: number, total: number) => void;
+    }): Promise<CustomerImportResult> => {
+      const importable = rows.filter(isImportableRow);
+      const result: CustomerImportResult = { created: 0, failed: [] };
+
+      for (let i = 0; i < importable.length; i += IMPORT_BATCH_SIZE) {
+        const batch = importable.slice(i, i + IMPORT_BATCH_SIZE);
+        const { error } = await supabase
+          .from("customers")
+          .insert(batch.map((row) => row.data));
+
+        if (!error) {
+          result.created += batch.length;
+        } else {
+          for (const row of batch) {
+            const { error: rowError } = await supabase
+              .from("customers")
+              .insert(row.data);
+
+            if (rowError) {
+              result.failed.push({
+                rowNumber: row.rowNumber,
+                error: rowError.message?.includes("unique") ? "Phone number already exists" : rowError.message,
+              });
+            } else {
+              result.created += 1;
+            }
+          }
+        }
+
+        onProgress?.(Math.min(i + batch.length, importable.length), importable.length);
+      }
+
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+      queryClient.invalidateQueries({ queryKey: ["customer-duplicates"] });
+    },
+  });
+}
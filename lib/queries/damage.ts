@@ -0,0 +1,180 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { createClient } from "@/lib/supabase/client";
+import { formatCurrency } from "@/lib/utils/date";
+import type { DamageAssessment, DamageType } from "@/lib/types";
+
+// A damage line being entered at return, before it's saved
+export interface DamageLineDraft {
+  damage_type_id: string | null; // null for damage not in the catalogue
+  name: string;
+  charge: number;
+  note: string;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export function getDamageLinesTotal(lines: Pick<DamageLineDraft, "charge">[]): number {
+  return roundMoney(lines.reduce((sum, line) => sum + (Number(line.charge) || 0), 0));
+}
+
+/**
+ * One-line summary stored as the item's damage_description,
+ * e.g. "Stain (collar) ₹200.00; Tear ₹500.00"
+ */
+export function summarizeDamageLines(lines: Pick<DamageLineDraft, "name" | "charge" | "note">[]): string {
+  return lines
+    .map((line) => `${line.name.trim()}${line.note.trim() ? ` (${line.note.trim()})` : ""} ${formatCurrency(line.charge)}`)
+    .join("; ");
+}
+
+export function useDamageTypes(options: { includeInactive?: boolean } = {}) {
+  const supabase = createClient();
+  const { includeInactive = false } = options;
+
+  return useQuery({
+    queryKey: ["damage-types", includeInactive],
+    queryFn: async () => {
+      let query = supabase
+        .from("damage_types")
+        .select("*")
+        .order("sort_order", { ascending: true })
+        .order("name", { ascending: true });
+
+      if (!includeInactive) {
+        query = query.eq("is_active", true);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []) as DamageType[];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useCreateDamageType() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ name, defaultCharge, sortOrder }: { name: string; defaultCharge: number; sortOrder: number }) => {
+      if (!name.trim()) throw new Error("Damage type name is required");
+      if (isNaN(defaultCharge) || defaultCharge < 0) throw new Error("Default charge can't be negative");
+
+      const { data, error } = await supabase
+        .from("damage_types")
+        .insert({ name: name.trim(), default_charge: roundMoney(defaultCharge), sort_order: sortOrder })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === "23505") throw new Error("A damage type with this name already exists");
+        throw error;
+      }
+      return data as DamageType;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["damage-types"] });
+    },
+  });
+}
+
+export function useUpdateDamageType() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      ...updates
+    }: {
+      id: string;
+      name?: string;
+      default_charge?: number;
+      is_active?: boolean;
+    }) => {
+      if (updates.name !== undefined && !updates.name.trim()) {
+        throw new Error("Damage type name is required");
+      }
+      if (updates.default_charge !== undefined && (isNaN(updates.default_charge) || updates.default_charge < 0)) {
+        throw new Error("Default charge can't be negative");
+      }
+
+      const { data, error } = await supabase
+        .from("damage_types")
+        .update({
+          ...updates,
+          ...(updates.name !== undefined && { name: updates.name.trim() }),
+          ...(updates.default_charge !== undefined && { default_charge: roundMoney(updates.default_charge) }),
+        })
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === "23505") throw new Error("A damage type with this name already exists");
+        throw error;
+      }
+      return data as DamageType;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["damage-types"] });
+    },
+  });
+}
+
+/**
+ * Damage assessments on an order's items, with their lines in entry order
+ */
+export function useOrderDamageAssessments(orderId: string) {
+  const supabase = createClient();
+
+  return useQuery({
+    queryKey: ["damage-assessments", orderId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("damage_assessments")
+        .select(`
+          *,
+          lines:damage_assessment_lines(*),
+          assessor:profiles!damage_assessments_assessed_by_fkey(full_name, username)
+        `)
+        .eq("order_id", orderId);
+
+      if (error) throw error;
+      return ((data || []) as DamageAssessment[]).map((assessment) => ({
+        ...assessment,
+        lines: [...(assessment.lines || [])].sort((a, b) => a.sort_order - b.sort_order),
+      }));
+    },
+    enabled: !!orderId,
+    staleTime: 30000,
+  });
+}
+
+/**
+ * An item's assessment as the return saves it (an empty one clears it),
+ * in the shape process_order_return_with_damage takes. Its total becomes
+ * the item's damage_fee.
+ */
+export function toDamageAssessmentPayload(assessment: {
+  orderItemId: string;
+  afterPhotoUrl?: string | null;
+  lines: DamageLineDraft[];
+}) {
+  for (const line of assessment.lines) {
+    if (!line.name.trim()) throw new Error("Every damage needs a type or description");
+    if (isNaN(line.charge) || line.charge < 0) throw new Error("Damage charges can't be negative");
+  }
+
+  return {
+    order_item_id: assessment.orderItemId,
+    after_photo_url: assessment.afterPhotoUrl || null,
+    lines: assessment.lines.map((line) => ({
+      damage_type_id: line.damage_type_id,
+      name: line.name.trim(),
+      charge: roundMoney(line.charge),
+      note: line.note.trim() || null,
+    })),
+  };
+}
@@ -0,0 +1,183 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { createClient } from "@/lib/supabase/client";
+import type { DayClosing, DayCollections } from "@/lib/types";
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Business day (yyyy-MM-dd) a moment falls on. Days follow IST, regardless
+ * of the device timezone, the same as the database does when closing.
+ */
+export function getBusinessDate(date: Date = new Date()): string {
+  return date.toLocaleDateString("en-CA", { timeZone: "Asia/Kolkata" });
+}
+
+export interface DayCount {
+  opening_float: number;
+  counted_cash: number;
+  counted_upi: number;
+  counted_card: number;
+}
+
+/**
+ * Counted minus expected, the way the database works it out on close:
+ * the drawer should hold the opening float plus the day's cash payments.
+ */
+export function calculateDayVariance(expected: DayCollections, count: DayCount) {
+  const cash = roundMoney(count.counted_cash - count.opening_float - expected.cash);
+  const upi = roundMoney(count.counted_upi - expected.upi);
+  const card = roundMoney(count.counted_card - expected.card);
+  return { cash, upi, card, total: roundMoney(cash + upi + card) };
+}
+
+/**
+ * Payments received on a branch's business day, by payment mode.
+ * Same figures the closing records as expected.
+ */
+export function useDayCollections(branchId: string | null, businessDate: string) {
+  const supabase = createClient();
+
+  return useQuery({
+    queryKey: ["day-collections", branchId, businessDate],
+    queryFn: async (): Promise<DayCollections> => {
+      if (!branchId) return { cash: 0, upi: 0, card: 0, other: 0, payments_count: 0 };
+
+      const { data, error } = await supabase.rpc("get_day_collections", {
+        p_branch_id: branchId,
+        p_business_date: businessDate,
+      });
+
+      if (error) throw error;
+      const row = data?.[0];
+      return {
+        cash: Number(row?.cash) || 0,
+        upi: Number(row?.upi) || 0,
+        card: Number(row?.card) || 0,
+        other: Number(row?.other) || 0,
+        payments_count: Number(row?.payments_count) || 0,
+      };
+    },
+    enabled: !!branchId && !!businessDate,
+    staleTime: 30000,
+  });
+}
+
+const DAY_CLOSING_SELECT = `
+  *,
+  branch:branches(name),
+  closer:profiles!day_closings_closed_by_fkey(full_name, username)
+`;
+
+/**
+ * The closing for a branch's business day, or null while the day is open
+ */
+export function useDayClosing(branchId: string | null, businessDate: string) {
+  const supabase = createClient();
+
+  return useQuery({
+    queryKey: ["day-closings", branchId, businessDate],
+    queryFn: async () => {
+      if (!branchId) return null;
+
+      const { data, error } = await supabase
+        .from("day_closings")
+        .select(DAY_CLOSING_SELECT)
+        .eq("branch_id", branchId)
+        .eq("business_date", businessDate)
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data || null) as DayClosing | null;
+    },
+    enabled: !!branchId && !!businessDate,
+    staleTime: 30000,
+  });
+}
+
+/**
+ * Closed days, newest first. Pass branchId = null for all branches
+ * (super admin only – RLS applies).
+ */
+export function useDayClosings(branchId: string | null, limit = 90) {
+  const supabase = createClient();
+
+  return useQuery({
+    queryKey: ["day-closings", branchId, "history", limit],
+    queryFn: async () => {
+      let query = supabase
+        .from("day_closings")
+        .select(DAY_CLOSING_SELECT)
+        .order("business_date", { ascending: false })
+        .order("closed_at", { ascending: false })
+        .limit(limit);
+
+      if (branchId) {
+        query = query.eq("branch_id", branchId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []) as DayClosing[];
+    },
+    staleTime: 30000,
+  });
+}
+
+export function useCloseDay() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      branchId,
+      businessDate,
+      count,
+      varianceReason,
+      notes,
+    }: {
+      branchId: string;
+      businessDate: string;
+      count: DayCount;
+      varianceReason?: string;
+      notes?: string;
+    }) => {
+      const amounts = [count.opening_float, count.counted_cash, count.counted_upi, count.counted_card];
+      if (amounts.some((amount) => isNaN(amount) || amount < 0)) {
+        throw new Error("Amounts can't be negative");
+      }
+
+      // Expected totals and the variance are worked out by the database
+      const { data, error } = await supabase
+        .from("day_closings")
+        .insert({
+          branch_id: branchId,
+          business_date: businessDate,
+          opening_float: roundMoney(count.opening_float),
+          counted_cash: roundMoney(count.counted_cash),
+          counted_upi: roundMoney(count.counted_upi),
+          counted_card: roundMoney(count.counted_card),
+          variance_reason: varianceReason?.trim() || null,
+          notes: notes?.trim() || null,
+        })
+        .select(DAY_CLOSING_SELECT)
+        .single();
+
+      if (error) {
+        if (error.code === "23505") {
+          throw new Error("This day has already been closed");
+        }
+        if (error.code === "23514" && error.message?.includes("day_closings_variance_reason")) {
+          // A payment came in after the totals were loaded and the count no longer matches
+          throw new Error("The totals changed while you were counting. Check the new figures and give a reason for the difference.");
+        }
+        throw error;
+      }
+
+      return data as DayClosing;
+    },
+    onSuccess: (_, { branchId, businessDate }) => {
+      queryClient.invalidateQueries({ queryKey: ["day-closings"] });
+      queryClient.invalidateQueries({ queryKey: ["day-collections", branchId, businessDate] });
+    },
+  });
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { summarizeDeposit, suggestDepositRefund, type DepositSummary } from "./deposits";
+import type { DepositTransaction, DepositTransactionType } from "@/lib/types";
+
+// An order's deposit ledger, oldest entry first
+function ledger(...entries: [DepositTransactionType, number | string][]): DepositTransaction[] {
+  return entries.map(([type, amount], index) => ({
+    id: `tx-${index + 1}`,
+    order_id: "order-1",
+    branch_id: "branch-1",
+    type,
+    amount: amount as number,
+    created_at: `2025-06-1${index}T10:00:00.000Z`,
+  }));
+}
+
+describe("summarizeDeposit", () => {
+  it("is all zeros without a deposit", () => {
+    expect(summarizeDeposit([])).toEqual({ collected: 0, deducted: 0, refunded: 0, held: 0 });
+  });
+
+  it("holds what was collected less deductions and refunds", () => {
+    expect(summarizeDeposit(ledger(["collected", 2000], ["collected", 500], ["deducted", 300], ["refunded", 1000]))).toEqual({
+      collected: 2500,
+      deducted: 300,
+      refunded: 1000,
+      held: 1200,
+    });
+  });
+
+  it("reads numeric strings and rounds away float error", () => {
+    const summary = summarizeDeposit(ledger(["collected", "1000.10"], ["deducted", 0.2], ["deducted", 0.1]));
+    expect(summary).toEqual({ collected: 1000.1, deducted: 0.3, refunded: 0, held: 999.8 });
+  });
+
+  it("never holds a negative amount", () => {
+    expect(summarizeDeposit(ledger(["collected", 100], ["refunded", 150])).held).toBe(0);
+  });
+});
+
+describe("suggestDepositRefund", () => {
+  const holding = (held: number, deducted = 0): DepositSummary => ({ collected: held + deducted, deducted, refunded: 0, held });
+
+  it("refunds the whole deposit when nothing is owed", () => {
+    expect(suggestDepositRefund(holding(2000), {})).toEqual({ held: 2000, charges: 0, deduction: 0, refund: 2000, uncovered: 0 });
+  });
+
+  it("takes late and damage fees out of the deposit first", () => {
+    expect(suggestDepositRefund(holding(2000), { lateFee: 300, damageFees: 450.5 })).toEqual({
+      held: 2000,
+      charges: 750.5,
+      deduction: 750.5,
+      refund: 1249.5,
+      uncovered: 0,
+    });
+  });
+
+  it("leaves what the deposit can't cover to be collected", () => {
+    expect(suggestDepositRefund(holding(500), { lateFee: 200, damageFees: 800 })).toMatchObject({
+      deduction: 500,
+      refund: 0,
+      uncovered: 500,
+    });
+  });
+
+  it("doesn't charge again for fees already deducted", () => {
+    expect(suggestDepositRefund(holding(1700, 300), { lateFee: 300 })).toMatchObject({ charges: 0, refund: 1700 });
+    expect(suggestDepositRefund(holding(1700, 300), { lateFee: 300, damageFees: 200 })).toMatchObject({
+      charges: 200,
+      deduction: 200,
+      refund: 1500,
+    });
+  });
+
+  it("ignores earlier deductions larger than today's fees", () => {
+    expect(suggestDepositRefund(holding(1000, 600), { lateFee: 100 })).toMatchObject({ charges: 0, refund: 1000 });
+  });
+});
@@ -0,0 +1,199 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { createClient } from "@/lib/supabase/client";
+import { logTimelineEvent } from "@/lib/queries/order-timeline";
+import { formatCurrency } from "@/lib/utils/date";
+import type { DepositTransaction, DepositTransactionType } from "@/lib/types";
+
+export interface DepositSummary {
+  collected: number;
+  deducted: number;
+  refunded: number;
+  held: number; // Still with the shop: collected - deducted - refunded
+}
+
+export interface DepositRefundSuggestion {
+  held: number;
+  charges: number; // Late fee + damage fees not yet deducted
+  deduction: number; // Part of the charges covered by the deposit
+  refund: number; // What goes back to the customer
+  uncovered: number; // Charges the deposit can't cover (collect separately)
+}
+
+const DEPOSIT_ACTIONS: Record<DepositTransactionType, string> = {
+  collected: "deposit_collected",
+  deducted: "deposit_deducted",
+  refunded: "deposit_refunded",
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export function summarizeDeposit(transactions: DepositTransaction[]): DepositSummary {
+  const totals = { collected: 0, deducted: 0, refunded: 0 };
+  transactions.forEach((tx) => {
+    totals[tx.type] += Number(tx.amount) || 0;
+  });
+
+  return {
+    collected: roundMoney(totals.collected),
+    deducted: roundMoney(totals.deducted),
+    refunded: roundMoney(totals.refunded),
+    held: roundMoney(Math.max(0, totals.collected - totals.deducted - totals.refunded)),
+  };
+}
+
+/**
+ * Refund suggestion after a return: late fee and damage fees are taken from
+ * the held deposit first, the remainder goes back to the customer.
+ * Amounts already deducted earlier are not charged twice.
+ */
+export function suggestDepositRefund(
+  summary: DepositSummary,
+  fees: { lateFee?: number; damageFees?: number }
+): DepositRefundSuggestion {
+  const totalFees = (fees.lateFee || 0) + (fees.damageFees || 0);
+  const charges = roundMoney(Math.max(0, totalFees - summary.deducted));
+  const deduction = roundMoney(Math.min(summary.held, charges));
+
+  return {
+    held: summary.held,
+    charges,
+    deduction,
+    refund: roundMoney(summary.held - deduction),
+    uncovered: roundMoney(charges - deduction),
+  };
+}
+
+async function fetchDepositTransactions(
+  supabase: ReturnType<typeof createClient>,
+  orderId: string
+): Promise<DepositTransaction[]> {
+  const { data, error } = await supabase
+    .from("deposit_transactions")
+    .select("*")
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as DepositTransaction[];
+}
+
+/**
+ * Suggestion based on the order's saved late fee and damage fees.
+ * Returns null when no deposit was ever collected.
+ */
+export async function fetchDepositRefundSuggestion(
+  supabase: ReturnType<typeof createClient>,
+  orderId: string
+): Promise<DepositRefundSuggestion | null> {
+  const [transactions, orderResult] = await Promise.all([
+    fetchDepositTransactions(supabase, orderId),
+    supabase.from("orders")
+      .select("late_fee, damage_fee_total")
+      .eq("id", orderId)
+      .single(),
+  ]);
+
+  if (orderResult.error) throw orderResult.error;
+
+  const summary = summarizeDeposit(transactions);
+  if (summary.collected === 0) return null;
+
+  return suggestDepositRefund(summary, {
+    lateFee: Number(orderResult.data?.late_fee) || 0,
+    damageFees: Number(orderResult.data?.damage_fee_total) || 0,
+  });
+}
+
+export function useOrderDeposits(orderId: string) {
+  const supabase = createClient();
+
+  return useQuery({
+    queryKey: ["order-deposits", orderId],
+    queryFn: () => fetchDepositTransactions(supabase, orderId),
+    enabled: !!orderId,
+    staleTime: 30000,
+  });
+}
+
+/**
+ * Append entries to an order's deposit ledger.
+ * Deductions and refunds together can't exceed what is currently held.
+ */
+export function useRecordDepositTransactions() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      orderId,
+      branchId,
+      entries,
+    }: {
+      orderId: string;
+      branchId: string;
+      entries: Array<{ type: DepositTransactionType; amount: number; reason?: string }>;
+    }) => {
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+      if (authError || !user) {
+        throw new Error("Authentication required");
+      }
+
+      const validEntries = entries
+        .map((entry) => ({ ...entry, amount: roundMoney(entry.amount) }))
+        .filter((entry) => entry.amount > 0);
+
+      if (validEntries.length === 0) {
+        throw new Error("Enter an amount greater than zero");
+      }
+
+      const payout = validEntries
+        .filter((entry) => entry.type !== "collected")
+        .reduce((sum, entry) => sum + entry.amount, 0);
+
+      if (payout > 0) {
+        const current = summarizeDeposit(await fetchDepositTransactions(supabase, orderId));
+        const collectedNow = validEntries
+          .filter((entry) => entry.type === "collected")
+          .reduce((sum, entry) => sum + entry.amount, 0);
+        const available = roundMoney(current.held + collectedNow);
+
+        if (payout > available) {
+          throw new Error(
+            `Deductions and refunds (${formatCurrency(payout)}) exceed the deposit held (${formatCurrency(available)})`
+          );
+        }
+      }
+
+      const { data, error } = await supabase
+        .from("deposit_transactions")
+        .insert(
+          validEntries.map((entry) => ({
+            order_id: orderId,
+            branch_id: branchId,
+            type: entry.type,
+            amount: entry.amount,
+            reason: entry.reason?.trim() || null,
+            created_by: user.id,
+          }))
+        )
+        .select();
+
+      if (error) throw error;
+
+      for (const entry of validEntries) {
+        await logTimelineEvent(supabase, {
+          orderId,
+          action: DEPOSIT_ACTIONS[entry.type],
+          userId: user.id,
+          notes: `${formatCurrency(entry.amount)}${entry.reason?.trim() ? ` - ${entry.reason.trim()}` : ""}`,
+        });
+      }
+
+      return data as DepositTransaction[];
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["order-deposits", variables.orderId] });
+      queryClient.invalidateQueries({ queryKey: ["order-timeline", variables.orderId] });
+    },
+  });
+}
@@ -0,0 +1,197 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { createClient } from "@/lib/supabase/client";
+import { logTimelineEvent } from "@/lib/queries/order-timeline";
+import { fetchAllPages } from "@/lib/queries/reports";
+import { formatCurrency } from "@/lib/utils/date";
+import type { Expense, ExpenseCategory } from "@/lib/types";
+
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  dry_cleaning: "Dry Cleaning",
+  repair: "Repair",
+  alteration: "Alteration",
+  other: "Other",
+};
+
+const EXPENSE_SELECT = `
+  *,
+  product:products(id, name, sku),
+  order:orders(id, invoice_number),
+  order_item:order_items(id, product_name),
+  creator:profiles!expenses_created_by_fkey(full_name, username)
+`;
+
+/**
+ * Upload a receipt photo to the expense-receipts bucket and return its public URL
+ */
+export async function uploadExpenseReceipt(
+  supabase: ReturnType<typeof createClient>,
+  file: Blob
+): Promise<string> {
+  const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.jpg`;
+  const filePath = `receipts/${fileName}`;
+
+  const { error } = await supabase.storage.from("expense-receipts").upload(filePath, file, {
+    cacheControl: "31536000",
+    upsert: false,
+    contentType: "image/jpeg",
+  });
+
+  if (error) {
+    if (error.message?.includes("Bucket not found")) {
+      throw new Error("Storage bucket not found. Please run 'supabase-migrations/add-expenses.sql' in Supabase SQL Editor.");
+    }
+    throw new Error(error.message || "Upload failed");
+  }
+
+  return supabase.storage.from("expense-receipts").getPublicUrl(filePath).data.publicUrl;
+}
+
+/**
+ * Expenses dated within the range, newest first.
+ * Pass branchId = null for all branches (super admin only – RLS applies).
+ */
+export function useExpenses(
+  branchId: string | null,
+  dateRange: { start: Date; end: Date },
+  category?: ExpenseCategory | null
+) {
+  const supabase = createClient();
+  const rangeStart = format(dateRange.start, "yyyy-MM-dd");
+  const rangeEnd = format(dateRange.end, "yyyy-MM-dd");
+
+  return useQuery({
+    queryKey: ["expenses", branchId, rangeStart, rangeEnd, category || "all"],
+    queryFn: async () =>
+      fetchAllPages<Expense>((from, to) => {
+        let query = supabase
+          .from("expenses")
+          .select(EXPENSE_SELECT)
+          .gte("expense_date", rangeStart)
+          .lte("expense_date", rangeEnd)
+          .order("expense_date", { ascending: false })
+          .order("created_at", { ascending: false })
+          .order("id", { ascending: false });
+
+        if (branchId) {
+          query = query.eq("branch_id", branchId);
+        }
+        if (category) {
+          query = query.eq("category", category);
+        }
+
+        return query.range(from, to);
+      }),
+    staleTime: 60000,
+  });
+}
+
+export function useOrderExpenses(orderId: string) {
+  const supabase = createClient();
+
+  return useQuery({
+    queryKey: ["expenses", "order", orderId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("expenses")
+        .select(EXPENSE_SELECT)
+        .eq("order_id", orderId)
+        .order("expense_date", { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as Expense[];
+    },
+    enabled: !!orderId,
+    staleTime: 30000,
+  });
+}
+
+export function useCreateExpense() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (expense: {
+      branchId: string;
+      category: ExpenseCategory;
+      amount: number;
+      expenseDate: string;
+      description?: string;
+      vendor?: string;
+      orderItemId?: string | null;
+      productId?: string | null;
+      receiptUrl?: string | null;
+    }) => {
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+      if (authError || !user) {
+        throw new Error("Authentication required");
+      }
+
+      const amount = Math.round(expense.amount * 100) / 100;
+      if (!amount || amount <= 0) {
+        throw new Error("Expense amount must be greater than zero");
+      }
+
+      // Order and product are filled in from the order item by the database
+      const { data, error } = await supabase
+        .from("expenses")
+        .insert({
+          branch_id: expense.branchId,
+          category: expense.category,
+          amount,
+          expense_date: expense.expenseDate,
+          description: expense.description?.trim() || null,
+          vendor: expense.vendor?.trim() || null,
+          order_item_id: expense.orderItemId || null,
+          product_id: expense.productId || null,
+          receipt_url: expense.receiptUrl || null,
+        })
+        .select(EXPENSE_SELECT)
+        .single();
+
+      if (error) throw error;
+      const created = data as Expense;
+
+      if (created.order_id) {
+        await logTimelineEvent(supabase, {
+          orderId: created.order_id,
+          orderItemId: created.order_item_id || undefined,
+          action: "expense_recorded",
+          userId: user.id,
+          notes: `${EXPENSE_CATEGORY_LABELS[created.category]}: ${formatCurrency(amount)}${created.description ? ` - ${created.description}` : ""}`,
+        });
+      }
+
+      return created;
+    },
+    onSuccess: (expense) => {
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      if (expense.order_id) {
+        queryClient.invalidateQueries({ queryKey: ["order-timeline", expense.order_id] });
+      }
+    },
+  });
+}
+
+export function useDeleteExpense() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (expenseId: string) => {
+      const { data, error } = await supabase
+        .from("expenses")
+        .delete()
+        .eq("id", expenseId)
+        .select("id");
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        throw new Error("Only branch admins can delete expenses");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+    },
+  });
+}
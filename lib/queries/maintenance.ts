@@ -0,0 +1,96 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { subDays } from "date-fns";
+import { createClient } from "@/lib/supabase/client";
+import type { ItemMaintenance, MaintenanceStatus } from "@/lib/types";
+
+export const MAINTENANCE_STATUS_LABELS: Record<MaintenanceStatus, string> = {
+  returned: "Returned",
+  cleaning: "Cleaning",
+  repair: "Repair",
+  ready: "Ready",
+};
+
+// Board column order
+export const MAINTENANCE_STATUSES: MaintenanceStatus[] = ["returned", "cleaning", "repair", "ready"];
+
+// How long items stay in the Ready column after they're done
+const READY_VISIBLE_DAYS = 7;
+
+const MAINTENANCE_SELECT = `
+  *,
+  order:orders(id, invoice_number),
+  order_item:order_items(id, photo_url),
+  changer:profiles!item_maintenance_status_changed_by_fkey(full_name, username)
+`;
+
+/**
+ * Returned items still being cleaned or repaired, plus the last week's ready
+ * ones, oldest return first. Pass branchId = null for all branches
+ * (super admin only – RLS applies).
+ */
+export function useMaintenanceBoard(branchId: string | null) {
+  const supabase = createClient();
+
+  return useQuery({
+    queryKey: ["item-maintenance", branchId],
+    queryFn: async () => {
+      const readySince = subDays(new Date(), READY_VISIBLE_DAYS).toISOString();
+      let query = supabase
+        .from("item_maintenance")
+        .select(MAINTENANCE_SELECT)
+        .or(`status.neq.ready,status_changed_at.gte.${readySince}`)
+        .order("returned_at", { ascending: true });
+
+      if (branchId) {
+        query = query.eq("branch_id", branchId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []) as ItemMaintenance[];
+    },
+    staleTime: 30000,
+  });
+}
+
+/**
+ * Move a batch (or some of its units) to cleaning, repair or ready.
+ * The database logs the change on the order timeline.
+ */
+export function useMoveMaintenanceItem() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      item,
+      status,
+      quantity,
+      notes,
+    }: {
+      item: ItemMaintenance;
+      status: MaintenanceStatus;
+      quantity?: number;
+      notes?: string;
+    }) => {
+      if (quantity !== undefined && (!Number.isInteger(quantity) || quantity < 1 || quantity > item.quantity)) {
+        throw new Error(`Quantity must be between 1 and ${item.quantity}`);
+      }
+
+      const { data, error } = await supabase.rpc("move_item_maintenance", {
+        p_maintenance_id: item.id,
+        p_status: status,
+        p_quantity: quantity ?? null,
+        p_notes: notes?.trim() || null,
+      });
+
+      if (error) throw error;
+      return data as ItemMaintenance;
+    },
+    onSuccess: (_, { item }) => {
+      queryClient.invalidateQueries({ queryKey: ["item-maintenance"] });
+      queryClient.invalidateQueries({ queryKey: ["product-availability"] });
+      queryClient.invalidateQueries({ queryKey: ["order-timeline", item.order_id] });
+    },
+  });
+}
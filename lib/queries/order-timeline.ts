@@ -14,6 +14,41 @@ export interface OrderTimelineEvent {
   created_at: string;
 }
 
+// ============================================================================
+// TIMELINE EVENT LOGGING HELPER
+// ============================================================================
+/**
+ * Logs a timeline event for an order. This tracks all order activities.
+ * Errors are caught silently to prevent breaking main operations.
+ */
+export async function logTimelineEvent(
+  supabase: ReturnType<typeof createClient>,
+  event: {
+    orderId: string;
+    action: string;
+    userId: string;
+    previousStatus?: string;
+    newStatus?: string;
+    orderItemId?: string;
+    notes?: string;
+  }
+) {
+  try {
+    await supabase.from("order_return_audit").insert({
+      order_id: event.orderId,
+      order_item_id: event.orderItemId || null,
+      action: event.action,
+      previous_status: event.previousStatus || null,
+      new_status: event.newStatus || null,
+      user_id: event.userId,
+      notes: event.notes || null,
+    });
+  } catch (error) {
+    console.error("[logTimelineEvent] Failed to log timeline event:", error);
+    // Don't throw - timeline logging shouldn't break the main operation
+  }
+}
+
 export function useOrderTimeline(orderId: string) {
   const supabase = createClient();
 
@@ -61,7 +96,8 @@ export function useOrderTimeline(orderId: string) {
             previous_status: log.previous_status,
             new_status: log.new_status,
             user_id: log.user_id,
-            user_name: log.user?.full_name || log.user?.username || "Unknown",
+            // Events without a user come from automated jobs (e.g. reminders)
+            user_name: log.user?.full_name || log.user?.username || (log.user_id ? "Unknown" : "System"),
             notes: log.notes,
             created_at: log.created_at,
           });
@@ -1,9 +1,26 @@
 import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useEffect, useRef } from "react";
 import { createClient } from "@/lib/supabase/client";
-import type { Order, OrderStatus, OrderItemReturnStatus } from "@/lib/types";
+import type { Json } from "@/lib/supabase/database.types";
+import type { Order, OrderStatus, OrderItemReturnStatus, PaymentMode, ApprovalRequest, ApprovalRequestType } from "@/lib/types";
 import { useRealtimeSubscription } from "@/lib/hooks/use-realtime-subscription";
-import { isOrderLate } from "@/lib/utils/date";
+import { isOrderLate, formatCurrency } from "@/lib/utils/date";
+import { getErrorMessage } from "@/lib/utils/error";
+import { fetchProductAvailability, findOverbookedLines } from "@/lib/queries/availability";
+import { logTimelineEvent } from "@/lib/queries/order-timeline";
+import { fetchDepositRefundSuggestion, type DepositRefundSuggestion } from "@/lib/queries/deposits";
+import { PAYMENT_MODE_LABELS } from "@/lib/queries/payments";
+import {
+  issueBillingAdjustmentCreditNote,
+  issueRefundCreditNote,
+  type RefundCreditNoteInput,
+} from "@/lib/queries/credit-notes";
+import {
+  getDamageLinesTotal,
+  summarizeDamageLines,
+  toDamageAssessmentPayload,
+  type DamageLineDraft,
+} from "@/lib/queries/damage";
 
 // Function to check and auto-cancel expired scheduled orders
 // Made resilient to handle missing RPC function gracefully
@@ -50,41 +67,6 @@ async function checkAndCancelExpiredScheduledOrders(branchId: string | null): Pr
 
 const PAGE_SIZE = 50; // Optimized page size for infinite scroll
 
-// ============================================================================
-// TIMELINE EVENT LOGGING HELPER
-// ============================================================================
-/**
- * Logs a timeline event for an order. This tracks all order activities.
- * Errors are caught silently to prevent breaking main operations.
- */
-async function logTimelineEvent(
-  supabase: ReturnType<typeof createClient>,
-  event: {
-    orderId: string;
-    action: string;
-    userId: string;
-    previousStatus?: string;
-    newStatus?: string;
-    orderItemId?: string;
-    notes?: string;
-  }
-) {
-  try {
-    await (supabase.from("order_return_audit") as any).insert({
-      order_id: event.orderId,
-      order_item_id: event.orderItemId || null,
-      action: event.action,
-      previous_status: event.previousStatus || null,
-      new_status: event.newStatus || null,
-      user_id: event.userId,
-      notes: event.notes || null,
-    });
-  } catch (error) {
-    console.error("[logTimelineEvent] Failed to log timeline event:", error);
-    // Don't throw - timeline logging shouldn't break the main operation
-  }
-}
-
 // Infinite query using RPC function for <10ms queries
 export function useOrdersInfinite(
   branchId: string | null,
@@ -172,7 +154,7 @@ export function useOrdersInfinite(
 
         let query = supabase
           .from("orders")
-          .select("id, invoice_number, branch_id, staff_id, customer_id, booking_date, start_date, end_date, start_datetime, end_datetime, status, total_amount, late_fee, late_returned, damage_fee_total, completion_notes, created_at, customer:customers(id, name, phone, customer_number), branch:branches(id, name, address, phone, logo_url), items:order_items(id, photo_url, product_name, quantity, price_per_day, days, line_total, return_status, actual_return_date, late_return, missing_note, returned_quantity, damage_fee, damage_description)", { count: "exact" })
+          .select("id, invoice_number, branch_id, staff_id, customer_id, booking_date, start_date, end_date, start_datetime, end_datetime, status, total_amount, late_fee, late_returned, damage_fee_total, completion_notes, created_at, customer:customers(id, name, phone, customer_number), branch:branches(id, name, address, phone, logo_url), items:order_items(id, product_id, photo_url, product_name, quantity, price_per_day, days, line_total, return_status, actual_return_date, late_return, missing_note, returned_quantity, damage_fee, damage_description)", { count: "exact" })
           .eq("branch_id", branchId)
           .order("created_at", { ascending: false });
 
@@ -313,7 +295,7 @@ export function useOrders(
 
       let query = supabase
         .from("orders")
-        .select("id, invoice_number, branch_id, staff_id, customer_id, booking_date, start_date, end_date, start_datetime, end_datetime, status, total_amount, late_fee, late_returned, damage_fee_total, completion_notes, created_at, customer:customers(id, name, phone, customer_number), branch:branches(id, name, address, phone, logo_url), items:order_items(id, photo_url, product_name, quantity, price_per_day, days, line_total, return_status, actual_return_date, late_return, missing_note, returned_quantity, damage_fee, damage_description)", { count: "exact" })
+        .select("id, invoice_number, branch_id, staff_id, customer_id, booking_date, start_date, end_date, start_datetime, end_datetime, status, total_amount, late_fee, late_returned, damage_fee_total, completion_notes, created_at, customer:customers(id, name, phone, customer_number), branch:branches(id, name, address, phone, logo_url), items:order_items(id, product_id, photo_url, product_name, quantity, price_per_day, days, line_total, return_status, actual_return_date, late_return, missing_note, returned_quantity, damage_fee, damage_description)", { count: "exact" })
         .order("created_at", { ascending: false });
 
       if (branchId) {
@@ -401,18 +383,25 @@ export function useOrder(orderId: string) {
           total_amount,
           subtotal,
           gst_amount,
+          place_of_supply,
+          customer_gstin,
+          gst_rate,
+          gst_included,
           late_fee,
           late_returned,
           damage_fee_total,
           completion_notes,
+          deposit_amount,
           created_at,
-          customer:customers(id, name, phone, address),
+          customer:customers(id, name, phone, address, gstin, state_code),
           staff:profiles(id, full_name),
-          branch:branches(id, name, address, phone, logo_url),
+          branch:branches(id, name, address, phone, logo_url, gstin, state_code),
           items:order_items(
             id,
+            product_id,
             photo_url,
             product_name,
+            hsn_sac,
             quantity,
             price_per_day,
             days,
@@ -463,6 +452,7 @@ export function useOrder(orderId: string) {
               id: item.id,
               photo_url: item.photo_url,
               product_name: item.product_name,
+              hsn_sac: item.hsn_sac,
               quantity: item.quantity,
               price_per_day: item.price_per_day,
               days: item.days,
@@ -498,125 +488,315 @@ export function useOrder(orderId: string) {
   });
 }
 
-export function useCreateOrder() {
-  const supabase = createClient();
-  const queryClient = useQueryClient();
-
-  return useMutation({
-    mutationFn: async (orderData: {
-      branch_id: string;
-      staff_id: string;
-      customer_id: string;
-      invoice_number: string;
-      start_date: string;
-      end_date: string;
-      total_amount: number;
-      subtotal?: number;
-      gst_amount?: number;
-      items: Array<{
-        photo_url: string;
-        product_name?: string;
-        quantity: number;
-        price_per_day: number;
-        days: number;
-        line_total: number;
-      }>;
-    }) => {
-      // Pre-calculate date strings for faster processing
-      const startDateOnly = orderData.start_date.split("T")[0];
-      const endDateOnly = orderData.end_date.split("T")[0];
-      
-      // Determine order status: scheduled if start date is in future, active if today or past
-      const startDate = new Date(orderData.start_date);
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      startDate.setHours(0, 0, 0, 0);
-      
-      // Calculate status with proper date comparison
-      const orderStatus: OrderStatus = startDate > today ? "scheduled" : "active";
-      
-      // Removed verbose logging for better performance
-      
-      // Prepare order data
-      const orderInsert = {
-        branch_id: orderData.branch_id,
-        staff_id: orderData.staff_id,
-        customer_id: orderData.customer_id,
-        invoice_number: orderData.invoice_number,
-        booking_date: new Date().toISOString(), // When order was booked/created
-        start_date: startDateOnly,
-        end_date: endDateOnly,
-        start_datetime: orderData.start_date,
-        end_datetime: orderData.end_date,
-        status: orderStatus, // Use calculated status instead of hardcoded "active"
-        total_amount: orderData.total_amount,
-        subtotal: orderData.subtotal ?? null,
-        gst_amount: orderData.gst_amount ?? null,
-      };
+export interface CreateOrderInput {
+  id?: string; // Client-generated, for orders queued offline
+  branch_id: string;
+  staff_id: string;
+  customer_id: string;
+  start_date: string;
+  end_date: string;
+  total_amount: number;
+  subtotal?: number;
+  gst_amount?: number;
+  place_of_supply?: string | null;
+  customer_gstin?: string | null;
+  gst_rate?: number | null;
+  gst_included?: boolean | null;
+  deposit_amount?: number;
+  advance_payment?: { amount: number; mode: PaymentMode; reference?: string };
+  blacklist_override_reason?: string; // Admin override for a blacklisted customer
+  items: Array<{
+    product_id?: string | null;
+    photo_url: string;
+    product_name?: string;
+    hsn_sac?: string | null;
+    quantity: number;
+    price_per_day: number;
+    days: number;
+    line_total: number;
+  }>;
+}
 
-      // Use RPC call for faster batch insert (if available) or optimized sequential insert
-      // First, create the order
-      const { data: order, error: orderError } = await (supabase
-        .from("orders") as any)
-        .insert(orderInsert)
-        .select("id")
-        .single();
+/**
+ * The order was saved but money taken at booking couldn't be recorded.
+ * Replaying the same order id records it without creating the order again.
+ */
+export class BookingPaymentError extends Error {
+  constructor(public readonly orderId: string, message: string) {
+    super(message);
+  }
+}
 
-      if (orderError) throw orderError;
-
-      // Prepare items with order_id in parallel (no await needed for mapping)
-      const itemsWithOrderId = orderData.items.map((item) => ({
-        photo_url: item.photo_url,
-        product_name: item.product_name || null,
-        quantity: item.quantity,
-        price_per_day: item.price_per_day,
-        days: item.days,
-        line_total: item.line_total,
-        order_id: order.id,
-      }));
-
-      // ✅ CRITICAL FIX: Batch insert all items with verification
-      const { error: itemsError, data: insertedItems } = await (supabase
-        .from("order_items") as any)
-        .insert(itemsWithOrderId)
-        .select(); // Select inserted items to verify
-
-      if (itemsError) {
-        console.error("[useCreateOrder] ❌ Error inserting items:", {
-          error: itemsError,
-          orderId: order.id,
-          itemsCount: itemsWithOrderId.length,
-          items: itemsWithOrderId.map((i: any) => ({ product_name: i.product_name, quantity: i.quantity })),
+/**
+ * Deposit and advance taken at booking. A replayed order may already have
+ * them from the earlier attempt, so each is recorded once per order.
+ * Money the customer handed over must reach its ledger - a missing advance
+ * shows dues they have paid, a missing deposit understates what is held for
+ * refunds - so a failure throws BookingPaymentError and the order is replayed.
+ */
+async function recordBookingPayments(
+  supabase: ReturnType<typeof createClient>,
+  orderId: string,
+  orderData: CreateOrderInput
+) {
+  if (orderData.deposit_amount && orderData.deposit_amount > 0) {
+    const { count, error: existingError } = await supabase
+      .from("deposit_transactions")
+      .select("id", { count: "exact", head: true })
+      .eq("order_id", orderId)
+      .eq("type", "collected");
+
+    if (existingError) {
+      console.error("[useCreateOrder] Failed to check deposit collection:", existingError);
+      throw new BookingPaymentError(orderId, "The order was saved, but its deposit couldn't be recorded");
+    }
+    if (!count) {
+      const { error: depositError } = await supabase
+        .from("deposit_transactions")
+        .insert({
+          order_id: orderId,
+          branch_id: orderData.branch_id,
+          type: "collected",
+          amount: orderData.deposit_amount,
+          reason: "Collected at booking",
+          created_by: orderData.staff_id,
         });
-        throw itemsError;
+
+      if (depositError) {
+        console.error("[useCreateOrder] Failed to record deposit collection:", depositError);
+        throw new BookingPaymentError(orderId, "The order was saved, but its deposit couldn't be recorded");
       }
 
-      // ✅ FIX: Verify items were actually inserted
-      if (!insertedItems || insertedItems.length !== orderData.items.length) {
-        const errorMsg = `Failed to insert all items. Expected ${orderData.items.length}, got ${insertedItems?.length || 0}`;
-        console.error("[useCreateOrder] ❌ Item count mismatch:", {
-          orderId: order.id,
-          expected: orderData.items.length,
-          inserted: insertedItems?.length || 0,
-          insertedItems,
+      await logTimelineEvent(supabase, {
+        orderId,
+        action: "deposit_collected",
+        userId: orderData.staff_id,
+        notes: `${formatCurrency(orderData.deposit_amount)} - Collected at booking`,
+      });
+    }
+  }
+
+  // Advance paid at booking goes into the payments ledger
+  const advance = orderData.advance_payment;
+  if (advance && advance.amount > 0) {
+    const { count, error: existingError } = await supabase
+      .from("payments")
+      .select("id", { count: "exact", head: true })
+      .eq("order_id", orderId)
+      .eq("payment_type", "advance");
+
+    if (existingError) {
+      console.error("[useCreateOrder] Failed to check advance payment:", existingError);
+      throw new BookingPaymentError(orderId, "The order was saved, but its advance payment couldn't be recorded");
+    }
+    if (!count) {
+      const { error: paymentError } = await supabase
+        .from("payments")
+        .insert({
+          order_id: orderId,
+          customer_id: orderData.customer_id,
+          branch_id: orderData.branch_id,
+          amount: advance.amount,
+          payment_type: "advance",
+          payment_mode: advance.mode,
+          reference: advance.reference?.trim() || null,
+          received_by: orderData.staff_id,
         });
-        throw new Error(errorMsg);
-      }
 
-      console.log(`[useCreateOrder] ✅ Successfully inserted ${insertedItems.length} items for order ${order.id}`);
+      if (paymentError) {
+        console.error("[useCreateOrder] Failed to record advance payment:", paymentError);
+        throw new BookingPaymentError(orderId, "The order was saved, but its advance payment couldn't be recorded");
+      }
 
-      // Log timeline event: Order Created
       await logTimelineEvent(supabase, {
-        orderId: order.id,
-        action: "order_created",
+        orderId,
+        action: "payment_received",
         userId: orderData.staff_id,
-        newStatus: orderStatus,
-        notes: `${orderData.items.length} item${orderData.items.length !== 1 ? 's' : ''}`,
+        notes: `${formatCurrency(advance.amount)} advance via ${PAYMENT_MODE_LABELS[advance.mode]}`,
       });
+    }
+  }
+}
 
-      // Return order with items for optimistic updates
-      return { ...order, items: itemsWithOrderId };
-    },
+/**
+ * Insert an order with its items, deposit and advance payment. Also used to
+ * replay orders queued offline (lib/offline/outbox.ts), which pass their own
+ * id so a replay after a lost response doesn't create the order twice.
+ */
+export async function createOrder(
+  supabase: ReturnType<typeof createClient>,
+  orderData: CreateOrderInput
+) {
+  // Pre-calculate date strings for faster processing
+  const startDateOnly = orderData.start_date.split("T")[0];
+  const endDateOnly = orderData.end_date.split("T")[0];
+  
+  // Determine order status: scheduled if start date is in future, active if today or past
+  const startDate = new Date(orderData.start_date);
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  startDate.setHours(0, 0, 0, 0);
+  
+  // Calculate status with proper date comparison
+  const orderStatus: OrderStatus = startDate > today ? "scheduled" : "active";
+  
+  // Removed verbose logging for better performance
+
+  // Re-check catalog stock right before insert - the form's check may be stale
+  const productIds = orderData.items
+    .map((item) => item.product_id)
+    .filter((id): id is string => !!id);
+
+  if (productIds.length > 0) {
+    const availability = await fetchProductAvailability(supabase, {
+      branchId: orderData.branch_id,
+      productIds,
+      start: orderData.start_date,
+      end: orderData.end_date,
+      excludeOrderId: orderData.id,
+    });
+    const overbooked = findOverbookedLines(orderData.items, availability);
+    if (overbooked.length > 0) {
+      throw new Error(
+        `Not enough stock for these dates: ${overbooked
+          .map((line) => `${line.product_name} (${line.available} available, ${line.requested} requested)`)
+          .join(", ")}`
+      );
+    }
+  }
+  
+  // Prepare order data
+  const orderInsert = {
+    ...(orderData.id ? { id: orderData.id } : {}),
+    branch_id: orderData.branch_id,
+    staff_id: orderData.staff_id,
+    customer_id: orderData.customer_id,
+    booking_date: new Date().toISOString(), // When order was booked/created
+    start_date: startDateOnly,
+    end_date: endDateOnly,
+    start_datetime: orderData.start_date,
+    end_datetime: orderData.end_date,
+    status: orderStatus, // Use calculated status instead of hardcoded "active"
+    total_amount: orderData.total_amount,
+    subtotal: orderData.subtotal ?? null,
+    gst_amount: orderData.gst_amount ?? null,
+    place_of_supply: orderData.place_of_supply || null,
+    customer_gstin: orderData.customer_gstin || null,
+    gst_rate: orderData.gst_rate ?? null,
+    gst_included: orderData.gst_included ?? null,
+    deposit_amount: orderData.deposit_amount ?? 0,
+    // Checked by the database: only an admin may override, and only for themselves
+    blacklist_override_by: orderData.blacklist_override_reason ? orderData.staff_id : null,
+    blacklist_override_reason: orderData.blacklist_override_reason?.trim() || null,
+  };
+
+  // A replayed order may already exist if the earlier attempt lost its response
+  // after the insert. With items only the deposit and advance may be missing;
+  // without, carry on from the items.
+  let order: { id: string; invoice_number: string } | null = null;
+  if (orderData.id) {
+    const { data: existing, error: existingError } = await supabase
+      .from("orders")
+      .select("id, invoice_number, order_items(count)")
+      .eq("id", orderData.id)
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+    if (existing) {
+      order = { id: existing.id, invoice_number: existing.invoice_number };
+      if ((existing.order_items?.[0]?.count ?? 0) > 0) {
+        await recordBookingPayments(supabase, existing.id, orderData);
+        return { ...order, items: orderData.items.map((item) => ({ ...item, order_id: existing.id })) };
+      }
+    }
+  }
+
+  // Use RPC call for faster batch insert (if available) or optimized sequential insert
+  // First, create the order
+  if (!order) {
+    const { data: inserted, error: orderError } = await supabase
+      .from("orders")
+      .insert(orderInsert)
+      .select("id, invoice_number")
+      .single();
+
+    if (orderError) throw orderError;
+    order = inserted as { id: string; invoice_number: string };
+  }
+
+  // Prepare items with order_id in parallel (no await needed for mapping)
+  const itemsWithOrderId = orderData.items.map((item) => ({
+    product_id: item.product_id || null,
+    photo_url: item.photo_url,
+    product_name: item.product_name || null,
+    hsn_sac: item.hsn_sac || null,
+    quantity: item.quantity,
+    price_per_day: item.price_per_day,
+    days: item.days,
+    line_total: item.line_total,
+    order_id: order.id,
+  }));
+
+  // ✅ CRITICAL FIX: Batch insert all items with verification
+  const { error: itemsError, data: insertedItems } = await supabase
+    .from("order_items")
+    .insert(itemsWithOrderId)
+    .select(); // Select inserted items to verify
+
+  if (itemsError) {
+    console.error("[useCreateOrder] ❌ Error inserting items:", {
+      error: itemsError,
+      orderId: order.id,
+      itemsCount: itemsWithOrderId.length,
+      items: itemsWithOrderId.map((i) => ({ product_name: i.product_name, quantity: i.quantity })),
+    });
+    throw itemsError;
+  }
+
+  // ✅ FIX: Verify items were actually inserted
+  if (!insertedItems || insertedItems.length !== orderData.items.length) {
+    const errorMsg = `Failed to insert all items. Expected ${orderData.items.length}, got ${insertedItems?.length || 0}`;
+    console.error("[useCreateOrder] ❌ Item count mismatch:", {
+      orderId: order.id,
+      expected: orderData.items.length,
+      inserted: insertedItems?.length || 0,
+      insertedItems,
+    });
+    throw new Error(errorMsg);
+  }
+
+  console.log(`[useCreateOrder] ✅ Successfully inserted ${insertedItems.length} items for order ${order.id}`);
+
+  // Log timeline event: Order Created
+  await logTimelineEvent(supabase, {
+    orderId: order.id,
+    action: "order_created",
+    userId: orderData.staff_id,
+    newStatus: orderStatus,
+    notes: `${orderData.items.length} item${orderData.items.length !== 1 ? 's' : ''}`,
+  });
+
+  if (orderData.blacklist_override_reason) {
+    await logTimelineEvent(supabase, {
+      orderId: order.id,
+      action: "blacklist_overridden",
+      userId: orderData.staff_id,
+      notes: orderData.blacklist_override_reason.trim(),
+    });
+  }
+
+  await recordBookingPayments(supabase, order.id, orderData);
+
+  // Return order with items for optimistic updates
+  return { ...order, items: itemsWithOrderId };
+}
+
+export function useCreateOrder() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (orderData: CreateOrderInput) => createOrder(supabase, orderData),
     onSuccess: async (data, variables) => {
       // Invalidate all orders queries first (marks them as stale)
       queryClient.invalidateQueries({ queryKey: ["orders-infinite"] });
@@ -624,6 +804,7 @@ export function useCreateOrder() {
       queryClient.invalidateQueries({ queryKey: ["order", data.id] });
       queryClient.invalidateQueries({ queryKey: ["order-timeline", data.id] });
       queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
       
       // Force immediate refetch of orders-infinite query
       // Use type: "all" to refetch even if query is not currently active
@@ -636,296 +817,593 @@ export function useCreateOrder() {
   });
 }
 
-export function useUpdateOrder() {
-  const supabase = createClient();
-  const queryClient = useQueryClient();
+// Returned by order mutations instead of the order when the change was sent
+// to a branch admin for approval
+export interface QueuedForApproval {
+  approvalRequest: ApprovalRequest;
+}
 
-  return useMutation({
-    mutationFn: async (orderData: {
-      orderId: string;
-      invoice_number: string;
-      start_date: string;
-      end_date: string;
-      total_amount: number;
-      subtotal?: number;
-      gst_amount?: number;
-      items: Array<{
-        id?: string;
-        photo_url: string;
-        product_name?: string;
-        quantity: number;
-        price_per_day: number;
-        days: number;
-        line_total: number;
-      }>;
-    }) => {
-      // Get current authenticated user
-      const { data: { user: authUser }, error: authError } = await supabase.auth.getUser();
-      if (authError || !authUser) {
-        throw new Error("Authentication required");
-      }
+export function isQueuedForApproval(result: unknown): result is QueuedForApproval {
+  return !!result && typeof result === "object" && "approvalRequest" in result;
+}
 
-      // Fetch current order to compare changes
-      const { data: currentOrder, error: fetchError } = await supabase
-        .from("orders")
-        .select("status, invoice_number, start_date, end_date, total_amount")
-        .eq("id", orderData.orderId)
-        .single() as { data: any; error: any };
+interface NewApprovalRequest {
+  orderId: string;
+  type: ApprovalRequestType;
+  amount: number;
+  summary: string;
+  requestReason?: string;
+  payload: Record<string, unknown>;
+}
 
-      if (fetchError) throw fetchError;
+/**
+ * Whether the signed-in user needs a branch admin's approval for a change of
+ * this size - only staff do, above the branch threshold
+ * (see supabase-migrations/add-approval-requests.sql)
+ */
+async function isApprovalRequired(
+  supabase: ReturnType<typeof createClient>,
+  orderId: string,
+  type: ApprovalRequestType,
+  amount: number
+): Promise<boolean> {
+  if (amount <= 0) return false;
+
+  const { data, error } = await supabase.rpc("approval_required", {
+    p_order_id: orderId,
+    p_type: type,
+    p_amount: Math.round(amount * 100) / 100,
+  });
+  if (error) {
+    // Nothing needs approval until the approvals migration has been run
+    if (error.code === "42883" || error.code === "PGRST202") return false;
+    throw error;
+  }
+  return !!data;
+}
 
-      // Get current item count
-      const { data: currentItems, error: itemsFetchError } = await supabase
-        .from("order_items")
-        .select("id")
-        .eq("order_id", orderData.orderId);
+async function createApprovalRequest(
+  supabase: ReturnType<typeof createClient>,
+  request: NewApprovalRequest
+): Promise<ApprovalRequest> {
+  const { data, error } = await supabase
+    .from("approval_requests")
+    .insert({
+      order_id: request.orderId,
+      type: request.type,
+      amount: Math.round(request.amount * 100) / 100,
+      summary: request.summary,
+      request_reason: request.requestReason?.trim() || null,
+      payload: request.payload as Json, // The database adds a snapshot of the order
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      throw new Error("This order already has a request waiting for approval");
+    }
+    throw error;
+  }
 
-      if (itemsFetchError) throw itemsFetchError;
+  const { data: { user: authUser } } = await supabase.auth.getUser();
+  if (authUser) {
+    await logTimelineEvent(supabase, {
+      orderId: request.orderId,
+      action: "approval_requested",
+      userId: authUser.id,
+      notes: request.requestReason ? `${request.summary}: ${request.requestReason}` : request.summary,
+    });
+  }
 
-      const currentItemCount = currentItems?.length || 0;
-      const newItemCount = orderData.items.length;
-      const itemCountChanged = currentItemCount !== newItemCount;
+  return data as ApprovalRequest;
+}
 
-      const startDateOnly = orderData.start_date.split("T")[0];
-      const endDateOnly = orderData.end_date.split("T")[0];
+/**
+ * File an approval request instead of making a change, if one is needed.
+ * Returns null when the change can go ahead.
+ */
+async function requestApprovalIfRequired(
+  supabase: ReturnType<typeof createClient>,
+  request: NewApprovalRequest
+): Promise<ApprovalRequest | null> {
+  if (!(await isApprovalRequired(supabase, request.orderId, request.type, request.amount))) {
+    return null;
+  }
+  return createApprovalRequest(supabase, request);
+}
 
-      // Track changes
-      const changes: string[] = [];
-      if (currentOrder?.invoice_number !== orderData.invoice_number) {
-        changes.push("invoice number");
-      }
-      if (currentOrder?.start_date !== startDateOnly) {
-        changes.push("start date");
-      }
-      if (currentOrder?.end_date !== endDateOnly) {
-        changes.push("end date");
-      }
-      if (Math.abs((currentOrder?.total_amount || 0) - orderData.total_amount) > 0.01) {
-        changes.push("total amount");
-      }
-      if (itemCountChanged) {
-        if (newItemCount > currentItemCount) {
-          changes.push(`added ${newItemCount - currentItemCount} item${newItemCount - currentItemCount !== 1 ? 's' : ''}`);
-        } else {
-          changes.push(`removed ${currentItemCount - newItemCount} item${currentItemCount - newItemCount !== 1 ? 's' : ''}`);
-        }
-      }
+async function requestDiscountApprovalIfRequired(
+  supabase: ReturnType<typeof createClient>,
+  orderId: string,
+  newTotal: number,
+  payload: { kind: "edit"; input: UpdateOrderInput } | { kind: "billing"; input: UpdateOrderBillingInput }
+) {
+  const { data: order, error } = await supabase
+    .from("orders")
+    .select("total_amount")
+    .eq("id", orderId)
+    .single();
+  if (error || !order) return null;
+
+  const currentTotal = Number(order.total_amount) || 0;
+  return requestApprovalIfRequired(supabase, {
+    orderId,
+    type: "discount",
+    amount: currentTotal - newTotal,
+    summary: `Total ${formatCurrency(currentTotal)} → ${formatCurrency(newTotal)}`,
+    payload,
+  });
+}
 
-      // Update order
-      const { data: order, error: orderError } = await (supabase
-        .from("orders") as any)
-        .update({
-          invoice_number: orderData.invoice_number,
-          start_date: startDateOnly,
-          end_date: endDateOnly,
-          start_datetime: orderData.start_date,
-          end_datetime: orderData.end_date,
-          total_amount: orderData.total_amount,
-          subtotal: orderData.subtotal,
-          gst_amount: orderData.gst_amount,
-        })
-        .eq("id", orderData.orderId)
-        .select()
-        .single();
+export interface UpdateOrderInput {
+  orderId: string;
+  invoice_number: string;
+  start_date: string;
+  end_date: string;
+  total_amount: number;
+  subtotal?: number;
+  gst_amount?: number;
+  items: Array<{
+    id?: string;
+    product_id?: string | null;
+    photo_url: string;
+    product_name?: string;
+    hsn_sac?: string | null;
+    quantity: number;
+    price_per_day: number;
+    days: number;
+    line_total: number;
+  }>;
+}
 
-      if (orderError) throw orderError;
+/**
+ * Change an order's dates, items and totals. A lower total on an invoiced
+ * order is credited first. Items are updated in place, so their return,
+ * maintenance and damage records stay attached; items with a recorded return
+ * can't be changed or removed.
+ */
+export async function updateOrder(
+  supabase: ReturnType<typeof createClient>,
+  orderData: UpdateOrderInput
+) {
+  // Get current authenticated user
+  const { data: { user: authUser }, error: authError } = await supabase.auth.getUser();
+  if (authError || !authUser) {
+    throw new Error("Authentication required");
+  }
 
-      // Delete existing items
-      await supabase.from("order_items").delete().eq("order_id", orderData.orderId);
+  // Fetch current order to compare changes
+  const { data: currentOrder, error: fetchError } = await supabase
+    .from("orders")
+    .select("id, branch_id, customer_id, status, invoice_number, start_date, end_date, total_amount, gst_amount")
+    .eq("id", orderData.orderId)
+    .single();
+
+  if (fetchError) throw fetchError;
+
+  const { data: currentItems, error: itemsFetchError } = await supabase
+    .from("order_items")
+    .select("id, product_id, quantity, return_status, returned_quantity")
+    .eq("order_id", orderData.orderId);
+
+  if (itemsFetchError) throw itemsFetchError;
+
+  type CurrentItem = NonNullable<typeof currentItems>[number];
+  const currentById = new Map((currentItems || []).map((item) => [item.id, item]));
+  const keptIds = new Set(orderData.items.map((item) => item.id).filter((id): id is string => !!id && currentById.has(id)));
+  const removedIds = Array.from(currentById.keys()).filter((id) => !keptIds.has(id));
+
+  const hasReturn = (item?: CurrentItem) =>
+    !!item &&
+    ((!!item.return_status && item.return_status !== "not_yet_returned") || (Number(item.returned_quantity) || 0) > 0);
+  const changedReturnedItem =
+    removedIds.some((id) => hasReturn(currentById.get(id))) ||
+    orderData.items.some((item) => {
+      const current = item.id ? currentById.get(item.id) : undefined;
+      return (
+        current &&
+        hasReturn(current) &&
+        ((item.product_id || null) !== (current.product_id || null) || Number(item.quantity) !== Number(current.quantity))
+      );
+    });
+  if (changedReturnedItem) {
+    throw new Error("Items with a recorded return can't be changed or removed");
+  }
 
-      // Insert updated items
-      const itemsWithOrderId = orderData.items.map((item) => ({
-        ...item,
-        order_id: orderData.orderId,
-      }));
+  // Re-check catalog stock for the new dates and quantities, as when creating
+  const productIds = orderData.items
+    .map((item) => item.product_id)
+    .filter((id): id is string => !!id);
+
+  if (productIds.length > 0) {
+    const availability = await fetchProductAvailability(supabase, {
+      branchId: currentOrder.branch_id,
+      productIds,
+      start: orderData.start_date,
+      end: orderData.end_date,
+      excludeOrderId: orderData.orderId,
+    });
+    const overbooked = findOverbookedLines(orderData.items, availability);
+    if (overbooked.length > 0) {
+      throw new Error(
+        `Not enough stock for these dates: ${overbooked
+          .map((line) => `${line.product_name} (${line.available} available, ${line.requested} requested)`)
+          .join(", ")}`
+      );
+    }
+  }
 
-      const { error: itemsError } = await (supabase
-        .from("order_items") as any)
-        .insert(itemsWithOrderId);
+  const currentItemCount = currentItems?.length || 0;
+  const newItemCount = orderData.items.length;
+  const itemCountChanged = currentItemCount !== newItemCount;
 
-      if (itemsError) throw itemsError;
+  const startDateOnly = orderData.start_date.split("T")[0];
+  const endDateOnly = orderData.end_date.split("T")[0];
 
-      // Log ONE timeline event: Order Edited with all changes combined
-      if (changes.length > 0) {
-        // Simple format: just show what changed
-        const changeDescription = changes.join(", ");
-        
-        await logTimelineEvent(supabase, {
-          orderId: orderData.orderId,
-          action: "order_edited",
-          userId: authUser.id,
-          previousStatus: currentOrder?.status,
-          notes: changeDescription,
-        });
-      }
+  // Track changes
+  const changes: string[] = [];
+  if (currentOrder?.invoice_number !== orderData.invoice_number) {
+    changes.push("invoice number");
+  }
+  if (currentOrder?.start_date !== startDateOnly) {
+    changes.push("start date");
+  }
+  if (currentOrder?.end_date !== endDateOnly) {
+    changes.push("end date");
+  }
+  if (Math.abs((currentOrder?.total_amount || 0) - orderData.total_amount) > 0.01) {
+    changes.push("total amount");
+  }
+  if (itemCountChanged) {
+    if (newItemCount > currentItemCount) {
+      changes.push(`added ${newItemCount - currentItemCount} item${newItemCount - currentItemCount !== 1 ? 's' : ''}`);
+    } else {
+      changes.push(`removed ${currentItemCount - newItemCount} item${currentItemCount - newItemCount !== 1 ? 's' : ''}`);
+    }
+  }
+
+  // A lower total on an invoiced order is credited before the order changes
+  await issueBillingAdjustmentCreditNote(supabase, currentOrder, orderData, authUser.id);
+
+  // Update order
+  const { data: order, error: orderError } = await supabase
+    .from("orders")
+    .update({
+      invoice_number: orderData.invoice_number,
+      start_date: startDateOnly,
+      end_date: endDateOnly,
+      start_datetime: orderData.start_date,
+      end_datetime: orderData.end_date,
+      total_amount: orderData.total_amount,
+      subtotal: orderData.subtotal,
+      gst_amount: orderData.gst_amount,
+    })
+    .eq("id", orderData.orderId)
+    .select()
+    .single();
+
+  if (orderError) throw orderError;
+
+  const itemFields = (item: UpdateOrderInput["items"][number]) => ({
+    product_id: item.product_id || null,
+    photo_url: item.photo_url,
+    product_name: item.product_name || null,
+    hsn_sac: item.hsn_sac || null,
+    quantity: item.quantity,
+    price_per_day: item.price_per_day,
+    days: item.days,
+    line_total: item.line_total,
+  });
+
+  if (removedIds.length > 0) {
+    const { error: deleteError } = await supabase.from("order_items").delete().in("id", removedIds);
+    if (deleteError) throw deleteError;
+  }
+
+  const updateResults = await Promise.all(
+    orderData.items
+      .filter((item) => item.id && keptIds.has(item.id))
+      .map((item) => supabase.from("order_items").update(itemFields(item)).eq("id", item.id as string))
+  );
+  const updateError = updateResults.find((result) => result.error)?.error;
+  if (updateError) throw updateError;
+
+  const newItems = orderData.items
+    .filter((item) => !item.id || !keptIds.has(item.id))
+    .map((item) => ({ ...itemFields(item), order_id: orderData.orderId }));
 
-      return order;
+  if (newItems.length > 0) {
+    const { error: itemsError } = await supabase
+      .from("order_items")
+      .insert(newItems);
+
+    if (itemsError) throw itemsError;
+  }
+
+  // Log ONE timeline event: Order Edited with all changes combined
+  if (changes.length > 0) {
+    // Simple format: just show what changed
+    const changeDescription = changes.join(", ");
+    
+    await logTimelineEvent(supabase, {
+      orderId: orderData.orderId,
+      action: "order_edited",
+      userId: authUser.id,
+      previousStatus: currentOrder?.status,
+      notes: changeDescription,
+    });
+  }
+
+  return order;
+}
+
+export function useUpdateOrder() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (orderData: UpdateOrderInput) => {
+      const approvalRequest = await requestDiscountApprovalIfRequired(supabase, orderData.orderId, orderData.total_amount, {
+        kind: "edit",
+        input: orderData,
+      });
+      if (approvalRequest) return { approvalRequest };
+
+      return updateOrder(supabase, orderData);
     },
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ["orders"] });
       queryClient.invalidateQueries({ queryKey: ["order", variables.orderId] });
       queryClient.invalidateQueries({ queryKey: ["order-timeline", variables.orderId] });
+      queryClient.invalidateQueries({ queryKey: ["order-credit-notes", variables.orderId] });
       queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["approval-requests"] });
     },
   });
 }
 
+export interface UpdateOrderBillingInput {
+  orderId: string;
+  invoice_number: string;
+  subtotal?: number;
+  gst_amount?: number;
+  total_amount: number;
+}
+
 /**
  * Update only invoice number and billing details (subtotal, GST, total)
- * Can be used for any order status at any time
+ * Can be used for any order status at any time.
+ * Lowering the total issues a credit note against the invoice.
  */
-export function useUpdateOrderBilling() {
-  const supabase = createClient();
-  const queryClient = useQueryClient();
+export async function updateOrderBilling(
+  supabase: ReturnType<typeof createClient>,
+  { orderId, invoice_number, subtotal, gst_amount, total_amount }: UpdateOrderBillingInput
+) {
+  // Get current authenticated user
+  const { data: { user: authUser }, error: authError } = await supabase.auth.getUser();
+  if (authError || !authUser) {
+    throw new Error("Authentication required");
+  }
 
-  return useMutation({
-    mutationFn: async ({
-      orderId,
+  const { data: currentOrder, error: fetchError } = await supabase
+    .from("orders")
+    .select("id, branch_id, customer_id, invoice_number, total_amount, gst_amount")
+    .eq("id", orderId)
+    .single();
+
+  if (fetchError) throw fetchError;
+
+  await issueBillingAdjustmentCreditNote(supabase, currentOrder, { total_amount, gst_amount }, authUser.id);
+
+  const { data, error } = await supabase
+    .from("orders")
+    .update({
       invoice_number,
-      subtotal,
-      gst_amount,
+      subtotal: subtotal ?? null,
+      gst_amount: gst_amount ?? null,
       total_amount,
-    }: {
-      orderId: string;
-      invoice_number: string;
-      subtotal?: number;
-      gst_amount?: number;
-      total_amount: number;
-    }) => {
-      // Get current authenticated user
-      const { data: { user: authUser }, error: authError } = await supabase.auth.getUser();
-      if (authError || !authUser) {
-        throw new Error("Authentication required");
-      }
+    })
+    .eq("id", orderId)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  // Log timeline event: Billing Updated
+  await logTimelineEvent(supabase, {
+    orderId,
+    action: "billing_updated",
+    userId: authUser.id,
+    notes: `Total: ₹${total_amount.toFixed(0)}`,
+  });
 
-      const { data, error } = await (supabase
-        .from("orders") as any)
-        .update({
-          invoice_number,
-          subtotal: subtotal ?? null,
-          gst_amount: gst_amount ?? null,
-          total_amount,
-        })
-        .eq("id", orderId)
-        .select()
-        .single();
+  return data;
+}
 
-      if (error) throw error;
+export function useUpdateOrderBilling() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
 
-      // Log timeline event: Billing Updated
-      await logTimelineEvent(supabase, {
-        orderId,
-        action: "billing_updated",
-        userId: authUser.id,
-        notes: `Total: ₹${total_amount.toFixed(0)}`,
+  return useMutation({
+    mutationFn: async (input: UpdateOrderBillingInput) => {
+      const approvalRequest = await requestDiscountApprovalIfRequired(supabase, input.orderId, input.total_amount, {
+        kind: "billing",
+        input,
       });
+      if (approvalRequest) return { approvalRequest };
 
-      return data;
+      return updateOrderBilling(supabase, input);
     },
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ["orders"] });
       queryClient.invalidateQueries({ queryKey: ["order", variables.orderId] });
       queryClient.invalidateQueries({ queryKey: ["order-timeline", variables.orderId] });
+      queryClient.invalidateQueries({ queryKey: ["order-credit-notes", variables.orderId] });
       queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["approval-requests"] });
     },
   });
 }
 
-export function useUpdateOrderStatus() {
+/**
+ * Refund / discount after invoicing. Staff refunds above the branch discount
+ * threshold are sent for approval instead.
+ */
+export function useIssueRefundCreditNote() {
   const supabase = createClient();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({
-      orderId,
-      status,
-      lateFee = 0,
-    }: {
-      orderId: string;
-      status: "active" | "pending_return" | "completed" | "cancelled" | "partially_returned";
-      lateFee?: number;
-    }) => {
-      const { data: currentOrderData, error: fetchError } = await supabase
-        .from("orders")
-        .select("total_amount, late_fee")
-        .eq("id", orderId)
-        .single();
+    mutationFn: async (input: RefundCreditNoteInput) => {
+      const approvalRequest = await requestApprovalIfRequired(supabase, {
+        orderId: input.orderId,
+        type: "discount",
+        amount: input.amount,
+        summary: `Refund ${formatCurrency(input.amount)}`,
+        requestReason: input.reason,
+        payload: { kind: "refund", input },
+      });
+      if (approvalRequest) return { approvalRequest };
 
-      if (fetchError) throw fetchError;
+      return issueRefundCreditNote(supabase, input);
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["order-credit-notes", variables.orderId] });
+      queryClient.invalidateQueries({ queryKey: ["order", variables.orderId] });
+      queryClient.invalidateQueries({ queryKey: ["order-timeline", variables.orderId] });
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      queryClient.invalidateQueries({ queryKey: ["order-payments", variables.orderId] });
+      queryClient.invalidateQueries({ queryKey: ["customer-balance"] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["approval-requests"] });
+    },
+  });
+}
 
-      // Get current authenticated user
-      const { data: { user: authUser }, error: authError } = await supabase.auth.getUser();
-      if (authError || !authUser) {
-        throw new Error("Authentication required");
-      }
+export interface UpdateOrderStatusInput {
+  orderId: string;
+  status: "active" | "pending_return" | "completed" | "cancelled" | "partially_returned";
+  lateFee?: number;
+}
 
-      // Get current status
-      const { data: currentStatusData } = await supabase
-        .from("orders")
-        .select("status")
-        .eq("id", orderId)
-        .single();
+/**
+ * Change an order's status and late fee. Cancelling an invoiced order
+ * credits whatever is still billed on it (a trigger in add-credit-notes.sql).
+ */
+export async function updateOrderStatus(
+  supabase: ReturnType<typeof createClient>,
+  { orderId, status, lateFee = 0 }: UpdateOrderStatusInput
+) {
+  const { data: currentOrderData, error: fetchError } = await supabase
+    .from("orders")
+    .select("total_amount, late_fee")
+    .eq("id", orderId)
+    .single();
+
+  if (fetchError) throw fetchError;
+
+  // Get current authenticated user
+  const { data: { user: authUser }, error: authError } = await supabase.auth.getUser();
+  if (authError || !authUser) {
+    throw new Error("Authentication required");
+  }
 
-      const currentOrder = currentOrderData as { total_amount?: number; late_fee?: number } | null;
-      const originalTotal = (currentOrder?.total_amount || 0) - (currentOrder?.late_fee || 0);
-      const newTotal = originalTotal + lateFee;
+  // Get current status
+  const { data: currentStatusData } = await supabase
+    .from("orders")
+    .select("status")
+    .eq("id", orderId)
+    .single();
+
+  const currentOrder = currentOrderData as { total_amount?: number; late_fee?: number } | null;
+  const originalTotal = (currentOrder?.total_amount || 0) - (currentOrder?.late_fee || 0);
+  const newTotal = originalTotal + lateFee;
+  const previousStatus = currentStatusData?.status;
+
+  const { data, error } = await supabase
+    .from("orders")
+    .update({
+      status,
+      late_fee: lateFee,
+      total_amount: newTotal,
+    })
+    .eq("id", orderId)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  // Log timeline event: Specific action based on what happened
+  if (previousStatus && previousStatus !== status) {
+    // Map status changes to specific meaningful actions
+    let action = "status_changed"; // fallback
+    let actionNotes: string | undefined = undefined;
+    
+    if (status === "completed") {
+      action = "order_completed";
+      if (lateFee > 0) {
+        actionNotes = `All items returned. Late fee: Rs ${lateFee.toFixed(2)}`;
+      } else {
+        actionNotes = "All items returned";
+      }
+    } else if (status === "cancelled") {
+      action = "order_cancelled";
+      actionNotes = "Order was cancelled";
+    } else if (status === "partially_returned") {
+      action = "partial_return";
+      if (lateFee > 0) {
+        actionNotes = `Some items returned. Late fee: Rs ${lateFee.toFixed(2)}`;
+      } else {
+        actionNotes = "Some items returned";
+      }
+    } else if (status === "pending_return") {
+      action = "order_pending_return";
+      actionNotes = "Order is pending return";
+    } else {
+      // For other status changes, still log but with better notes
+      actionNotes = lateFee > 0 ? `Late fee: Rs ${lateFee.toFixed(2)}` : undefined;
+    }
+    
+    await logTimelineEvent(supabase, {
+      orderId,
+      action,
+      userId: authUser.id,
+      previousStatus,
+      newStatus: status,
+      notes: actionNotes,
+    });
+  }
 
-      const { data, error } = await (supabase
-        .from("orders") as any)
-        .update({
-          status,
-          late_fee: lateFee,
-          total_amount: newTotal,
-        })
-        .eq("id", orderId)
-        .select()
-        .single();
+  return data;
+}
 
-      if (error) throw error;
+export function useUpdateOrderStatus() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
 
-      // Log timeline event: Specific action based on what happened
-      const previousStatus = (currentStatusData as any)?.status;
-      if (previousStatus && previousStatus !== status) {
-        // Map status changes to specific meaningful actions
-        let action = "status_changed"; // fallback
-        let actionNotes: string | undefined = undefined;
-        
-        if (status === "completed") {
-          action = "order_completed";
-          if (lateFee > 0) {
-            actionNotes = `All items returned. Late fee: Rs ${lateFee.toFixed(2)}`;
-          } else {
-            actionNotes = "All items returned";
-          }
-        } else if (status === "cancelled") {
-          action = "order_cancelled";
-          actionNotes = "Order was cancelled";
-        } else if (status === "partially_returned") {
-          action = "partial_return";
-          if (lateFee > 0) {
-            actionNotes = `Some items returned. Late fee: Rs ${lateFee.toFixed(2)}`;
-          } else {
-            actionNotes = "Some items returned";
-          }
-        } else if (status === "pending_return") {
-          action = "order_pending_return";
-          actionNotes = "Order is pending return";
-        } else {
-          // For other status changes, still log but with better notes
-          actionNotes = lateFee > 0 ? `Late fee: Rs ${lateFee.toFixed(2)}` : undefined;
+  return useMutation({
+    mutationFn: async (input: UpdateOrderStatusInput) => {
+      if (input.status === "cancelled") {
+        const { data: order } = await supabase
+          .from("orders")
+          .select("total_amount, status")
+          .eq("id", input.orderId)
+          .single();
+
+        if (order && order.status !== "cancelled") {
+          const approvalRequest = await requestApprovalIfRequired(supabase, {
+            orderId: input.orderId,
+            type: "cancellation",
+            amount: Number(order.total_amount) || 0,
+            summary: `Cancel order (${formatCurrency(Number(order.total_amount) || 0)})`,
+            payload: {},
+          });
+          if (approvalRequest) return { approvalRequest };
         }
-        
-        await logTimelineEvent(supabase, {
-          orderId,
-          action,
-          userId: authUser.id,
-          previousStatus,
-          newStatus: status,
-          notes: actionNotes,
-        });
       }
 
-      return data;
+      return updateOrderStatus(supabase, input);
     },
     // Optimistic update for instant UI feedback
     onMutate: async ({ orderId, status }) => {
@@ -966,6 +1444,32 @@ export function useUpdateOrderStatus() {
       queryClient.invalidateQueries({ queryKey: ["recent-orders"] });
       queryClient.invalidateQueries({ queryKey: ["customer-orders"] });
       queryClient.invalidateQueries({ queryKey: ["customers"] });
+      queryClient.invalidateQueries({ queryKey: ["order-credit-notes", variables.orderId] });
+      queryClient.invalidateQueries({ queryKey: ["approval-requests"] });
+    },
+  });
+}
+
+/**
+ * Signed link to the public order status page, for sending to the customer
+ */
+export function useCreateOrderStatusLink() {
+  return useMutation({
+    mutationFn: async (orderId: string) => {
+      const response = await fetch("/api/orders/status-link", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ orderId }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to create order link");
+      }
+
+      return (await response.json()) as { url: string; expiresAt: string };
     },
   });
 }
@@ -981,8 +1485,8 @@ export function useStartRental() {
   return useMutation({
     mutationFn: async (orderId: string) => {
       // First, fetch the order to get original scheduled dates
-      const { data: order, error: fetchError } = await (supabase
-        .from("orders") as any)
+      const { data: order, error: fetchError } = await supabase
+        .from("orders")
         .select("start_datetime, end_datetime, start_date, end_date")
         .eq("id", orderId)
         .single();
@@ -1014,8 +1518,8 @@ export function useStartRental() {
       }
 
       // Update order: status to active, set new start/end datetimes
-      const { data, error } = await (supabase
-        .from("orders") as any)
+      const { data, error } = await supabase
+        .from("orders")
         .update({ 
           status: "active" as OrderStatus,
           start_datetime: newStartDatetime,
@@ -1068,6 +1572,8 @@ export function useProcessOrderReturn() {
       orderId,
       itemReturns,
       lateFee = 0,
+      lateFeeOverride,
+      damageAssessments = [],
     }: {
       orderId: string;
       itemReturns: Array<{
@@ -1080,6 +1586,17 @@ export function useProcessOrderReturn() {
         damage_description?: string;
       }>;
       lateFee?: number;
+      // Set when staff replace the fee calculated from the branch late fee policy
+      lateFeeOverride?: {
+        calculatedFee: number;
+        reason: string;
+      };
+      // Itemised damage per item; replaces damage_fee/damage_description for those items
+      damageAssessments?: Array<{
+        itemId: string;
+        afterPhotoUrl?: string | null;
+        lines: DamageLineDraft[];
+      }>;
     }) => {
       // Get current authenticated user (cached, fast)
       const { data: { user: authUser }, error: authError } = await supabase.auth.getUser();
@@ -1128,6 +1645,37 @@ export function useProcessOrderReturn() {
         }
       }
 
+      // Assessments are saved in the same transaction as the return. Their
+      // totals are what the items are charged, which the return function
+      // adds up into damage_fee_total.
+      const damageAssessmentPayloads = damageAssessments.map((assessment) => {
+        const itemReturn = itemReturnsJsonb.find((ir) => ir.item_id === assessment.itemId);
+        if (itemReturn) {
+          const total = getDamageLinesTotal(assessment.lines);
+          itemReturn.damage_fee = total > 0 ? total : null;
+          itemReturn.damage_description = assessment.lines.length > 0 ? summarizeDamageLines(assessment.lines) : null;
+        }
+        return toDamageAssessmentPayload({
+          orderItemId: assessment.itemId,
+          afterPhotoUrl: assessment.afterPhotoUrl,
+          lines: assessment.lines,
+        });
+      });
+
+      // A waiver above the branch threshold is charged at the calculated fee
+      // and sent for approval once the return is saved
+      const waiverNeedsApproval =
+        !!lateFeeOverride &&
+        (await isApprovalRequired(supabase, orderId, "late_fee_waiver", lateFeeOverride.calculatedFee - lateFee));
+      const chargedLateFee = waiverNeedsApproval ? lateFeeOverride!.calculatedFee : lateFee;
+
+      // Recorded with the return, in the same transaction - the database
+      // checks override_late_fee before saving it
+      const lateFeeOverrideNote =
+        lateFeeOverride && !waiverNeedsApproval
+          ? `${formatCurrency(lateFeeOverride.calculatedFee)} → ${formatCurrency(lateFee)}: ${lateFeeOverride.reason}`
+          : null;
+
       // Log payload for debugging (only in development)
       if (process.env.NODE_ENV === 'development') {
         console.log("[useProcessOrderReturn] Calling function with:", {
@@ -1135,7 +1683,7 @@ export function useProcessOrderReturn() {
           p_item_returns_count: itemReturnsJsonb.length,
           p_item_returns_sample: itemReturnsJsonb[0],
           p_user_id: authUser.id,
-          p_late_fee: lateFee,
+          p_late_fee: chargedLateFee,
         });
       }
 
@@ -1143,13 +1691,16 @@ export function useProcessOrderReturn() {
       // ✅ FIX Bug 4: Properly destructure the RPC response
       let data, error;
       try {
-        const { data: rpcData, error: rpcError } = await (supabase.rpc as any)("process_order_return_optimized", {
+        const { data: rpcData, error: rpcError } = await supabase.rpc("process_order_return_with_damage", {
           p_order_id: orderId,
           p_item_returns: itemReturnsJsonb,
           p_user_id: authUser.id,
-          p_late_fee: lateFee,
+          p_late_fee: chargedLateFee,
+          p_damage_assessments: damageAssessmentPayloads,
+          p_late_fee_override_note: lateFeeOverrideNote,
+          p_late_fee_waived: lateFeeOverrideNote ? lateFeeOverride!.calculatedFee - lateFee : null,
         });
-        data = rpcData;
+        data = rpcData as { new_status?: OrderStatus; total_amount?: number } | null;
         error = rpcError;
       } catch (rpcError: any) {
         // Catch any exceptions from the RPC call
@@ -1231,10 +1782,40 @@ export function useProcessOrderReturn() {
         throw new Error("Database function returned invalid data structure");
       }
 
+      // The return is already saved, so a failed request is reported rather than thrown
+      let approvalRequest: ApprovalRequest | null = null;
+      let approvalError: string | null = null;
+      if (waiverNeedsApproval && lateFeeOverride) {
+        try {
+          approvalRequest = await createApprovalRequest(supabase, {
+            orderId,
+            type: "late_fee_waiver",
+            amount: lateFeeOverride.calculatedFee - lateFee,
+            summary: `Late fee ${formatCurrency(lateFeeOverride.calculatedFee)} → ${formatCurrency(lateFee)}`,
+            requestReason: lateFeeOverride.reason,
+            payload: { late_fee: lateFee, calculated_fee: lateFeeOverride.calculatedFee },
+          });
+        } catch (requestError) {
+          approvalError = getErrorMessage(requestError, "Failed to send the late fee waiver for approval");
+        }
+      }
+
+      // Suggest the deposit refund after late fee and damage deductions
+      let depositRefund: DepositRefundSuggestion | null = null;
+      try {
+        depositRefund = await fetchDepositRefundSuggestion(supabase, orderId);
+      } catch (depositError) {
+        console.error("[useProcessOrderReturn] Failed to load deposit ledger:", depositError);
+      }
+
       return {
         orderId,
         newStatus: data.new_status as OrderStatus,
         totalAmount: data.total_amount as number,
+        lateFee: chargedLateFee,
+        depositRefund,
+        approvalRequest,
+        approvalError,
       };
     },
     // Optimistic update for instant UI feedback (<1ms)
@@ -1384,7 +1965,7 @@ export function useProcessOrderReturn() {
       }
     },
     // On success, log SINGLE timeline event and invalidate queries
-    onSuccess: async (_, variables) => {
+    onSuccess: async (result, variables) => {
       // Get current authenticated user for timeline logging
       const { data: { user: authUser } } = await supabase.auth.getUser();
       if (authUser) {
@@ -1455,7 +2036,7 @@ export function useProcessOrderReturn() {
           noteParts.push(`${missingCount} item${missingCount !== 1 ? 's' : ''}`);
         }
         
-        const lateFee = variables.lateFee || 0;
+        const lateFee = result.lateFee || 0;
         if (lateFee > 0) {
           noteParts.push(`₹${lateFee.toFixed(0)} late fee`);
         }
@@ -1477,6 +2058,10 @@ export function useProcessOrderReturn() {
       queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
       queryClient.invalidateQueries({ queryKey: ["recent-orders"] });
       queryClient.invalidateQueries({ queryKey: ["customer-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["approval-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["item-maintenance"] });
+      queryClient.invalidateQueries({ queryKey: ["product-availability"] });
+      queryClient.invalidateQueries({ queryKey: ["damage-assessments", variables.orderId] });
       
       // Force immediate refetch for orders list (ensures category updates)
       queryClient.refetchQueries({ queryKey: ["orders-infinite"] });
@@ -0,0 +1,193 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { createClient } from "@/lib/supabase/client";
+import { logTimelineEvent } from "@/lib/queries/order-timeline";
+import { formatCurrency } from "@/lib/utils/date";
+import type { Payment, PaymentMode, PaymentType, OrderStatus } from "@/lib/types";
+
+export const PAYMENT_MODE_LABELS: Record<PaymentMode, string> = {
+  cash: "Cash",
+  upi: "UPI",
+  card: "Card",
+  other: "Other",
+};
+
+export const PAYMENT_TYPE_LABELS: Record<PaymentType, string> = {
+  advance: "Advance",
+  balance: "Balance",
+  settlement: "Settlement",
+  refund: "Refund",
+};
+
+// Types staff record from the payments card; refunds are paid back with a credit note
+export const RECORDABLE_PAYMENT_TYPES: PaymentType[] = ["advance", "balance", "settlement"];
+
+export interface OrderPaymentSummary {
+  total: number;
+  paid: number;
+  balance: number; // Negative when the customer has overpaid
+}
+
+export interface CustomerBalance {
+  billed: number;
+  paid: number;
+  due: number; // Sum of positive order balances
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// Refunds are money going out, so they count against what was paid
+export function getSignedPaymentAmount(payment: Pick<Payment, "amount" | "payment_type">): number {
+  const amount = Number(payment.amount) || 0;
+  return payment.payment_type === "refund" ? -amount : amount;
+}
+
+export function summarizeOrderPayments(totalAmount: number, payments: Payment[]): OrderPaymentSummary {
+  const paid = roundMoney(payments.reduce((sum, p) => sum + getSignedPaymentAmount(p), 0));
+  return {
+    total: totalAmount,
+    paid,
+    balance: roundMoney(totalAmount - paid),
+  };
+}
+
+/**
+ * Payment type that fits the order's stage: before pickup it's an advance,
+ * during the rental a balance payment, after return a settlement.
+ */
+export function getDefaultPaymentType(status: OrderStatus): PaymentType {
+  if (status === "scheduled") return "advance";
+  if (status === "active" || status === "pending_return") return "balance";
+  return "settlement";
+}
+
+/**
+ * Outstanding dues per customer from the order_balances view.
+ * Cancelled orders are ignored; overpayment on one order doesn't offset another.
+ */
+export async function fetchCustomerDues(
+  supabase: ReturnType<typeof createClient>,
+  customerIds: string[]
+): Promise<Map<string, CustomerBalance>> {
+  const balances = new Map<string, CustomerBalance>();
+  if (customerIds.length === 0) return balances;
+
+  const { data, error } = await supabase
+    .from("order_balances")
+    .select("customer_id, total_amount, amount_paid, balance_due")
+    .in("customer_id", customerIds)
+    .neq("status", "cancelled");
+
+  if (error) throw error;
+
+  (data || []).forEach((row) => {
+    if (!row.customer_id) return;
+    const current = balances.get(row.customer_id) || { billed: 0, paid: 0, due: 0 };
+    current.billed += Number(row.total_amount) || 0;
+    current.paid += Number(row.amount_paid) || 0;
+    current.due += Math.max(0, Number(row.balance_due) || 0);
+    balances.set(row.customer_id, current);
+  });
+
+  balances.forEach((balance) => {
+    balance.billed = roundMoney(balance.billed);
+    balance.paid = roundMoney(balance.paid);
+    balance.due = roundMoney(balance.due);
+  });
+
+  return balances;
+}
+
+export function useOrderPayments(orderId: string) {
+  const supabase = createClient();
+
+  return useQuery({
+    queryKey: ["order-payments", orderId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("payments")
+        .select("*")
+        .eq("order_id", orderId)
+        .order("paid_at", { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as Payment[];
+    },
+    enabled: !!orderId,
+    staleTime: 30000,
+  });
+}
+
+export function useCustomerBalance(customerId: string) {
+  const supabase = createClient();
+
+  return useQuery({
+    queryKey: ["customer-balance", customerId],
+    queryFn: async () => {
+      const balances = await fetchCustomerDues(supabase, [customerId]);
+      return balances.get(customerId) || { billed: 0, paid: 0, due: 0 };
+    },
+    enabled: !!customerId,
+    staleTime: 30000,
+  });
+}
+
+export function useRecordPayment() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (payment: {
+      orderId: string;
+      customerId: string;
+      branchId: string;
+      amount: number;
+      paymentType: PaymentType;
+      paymentMode: PaymentMode;
+      reference?: string;
+      notes?: string;
+    }) => {
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+      if (authError || !user) {
+        throw new Error("Authentication required");
+      }
+
+      const amount = roundMoney(payment.amount);
+      if (!amount || amount <= 0) {
+        throw new Error("Payment amount must be greater than zero");
+      }
+
+      const { data, error } = await supabase
+        .from("payments")
+        .insert({
+          order_id: payment.orderId,
+          customer_id: payment.customerId,
+          branch_id: payment.branchId,
+          amount,
+          payment_type: payment.paymentType,
+          payment_mode: payment.paymentMode,
+          reference: payment.reference?.trim() || null,
+          notes: payment.notes?.trim() || null,
+          received_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await logTimelineEvent(supabase, {
+        orderId: payment.orderId,
+        action: "payment_received",
+        userId: user.id,
+        notes: `${formatCurrency(amount)} ${PAYMENT_TYPE_LABELS[payment.paymentType].toLowerCase()} via ${PAYMENT_MODE_LABELS[payment.paymentMode]}`,
+      });
+
+      return data as Payment;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["order-payments", variables.orderId] });
+      queryClient.invalidateQueries({ queryKey: ["order-timeline", variables.orderId] });
+      queryClient.invalidateQueries({ queryKey: ["customer-balance", variables.customerId] });
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+    },
+  });
+}
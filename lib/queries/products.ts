@@ -0,0 +1,257 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { createClient } from "@/lib/supabase/client";
+import type { Product, OrderStatus, OrderItemReturnStatus } from "@/lib/types";
+
+export interface ProductRentalHistoryEntry {
+  id: string;
+  quantity: number;
+  price_per_day: number;
+  days: number;
+  line_total: number;
+  return_status?: OrderItemReturnStatus;
+  returned_quantity?: number;
+  damage_fee?: number;
+  created_at: string;
+  order: {
+    id: string;
+    invoice_number: string;
+    status: OrderStatus;
+    start_date: string;
+    end_date: string;
+    start_datetime?: string;
+    end_datetime?: string;
+    customer?: { id: string; name: string; phone: string };
+  } | null;
+}
+
+/**
+ * Fetch the catalog for a branch
+ * @param branchId - Branch to load products for
+ * @param options.search - Matches name, SKU or category
+ * @param options.includeInactive - Include deactivated products (catalog management)
+ */
+export function useProducts(
+  branchId: string | null,
+  options: { search?: string; includeInactive?: boolean } = {}
+) {
+  const supabase = createClient();
+  const { search, includeInactive = false } = options;
+
+  return useQuery({
+    queryKey: ["products", branchId, search || "", includeInactive],
+    queryFn: async () => {
+      if (!branchId) return [] as Product[];
+
+      let query = supabase
+        .from("products")
+        .select("*")
+        .eq("branch_id", branchId)
+        .order("name", { ascending: true });
+
+      if (!includeInactive) {
+        query = query.eq("is_active", true);
+      }
+
+      if (search && search.trim()) {
+        const term = search.trim();
+        query = query.or(`name.ilike.%${term}%,sku.ilike.%${term}%,category.ilike.%${term}%`);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []) as unknown as Product[];
+    },
+    enabled: !!branchId,
+    staleTime: 60000,
+  });
+}
+
+export function useProduct(productId: string) {
+  const supabase = createClient();
+
+  return useQuery({
+    queryKey: ["product", productId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("products")
+        .select("*")
+        .eq("id", productId)
+        .single();
+
+      if (error) throw error;
+      return data as unknown as Product;
+    },
+    enabled: !!productId,
+  });
+}
+
+/**
+ * All order lines that rented this product, newest first
+ */
+export function useProductRentalHistory(productId: string) {
+  const supabase = createClient();
+
+  return useQuery({
+    queryKey: ["product-rentals", productId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("order_items")
+        .select(`
+          id,
+          quantity,
+          price_per_day,
+          days,
+          line_total,
+          return_status,
+          returned_quantity,
+          damage_fee,
+          created_at,
+          order:orders(id, invoice_number, status, start_date, end_date, start_datetime, end_datetime, customer:customers(id, name, phone))
+        `)
+        .eq("product_id", productId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as ProductRentalHistoryEntry[];
+    },
+    enabled: !!productId,
+  });
+}
+
+export function useCreateProduct() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (productData: {
+      branch_id: string;
+      sku: string;
+      name: string;
+      category?: string | null;
+      hsn_sac?: string | null;
+      default_daily_rate: number;
+      stock_quantity: number;
+      photo_url: string;
+    }) => {
+      const { data, error } = await supabase
+        .from("products")
+        .insert({
+          branch_id: productData.branch_id,
+          sku: productData.sku.trim().toUpperCase(),
+          name: productData.name.trim(),
+          category: productData.category?.trim() || null,
+          hsn_sac: productData.hsn_sac?.trim() || null,
+          default_daily_rate: productData.default_daily_rate,
+          stock_quantity: productData.stock_quantity,
+          photo_url: productData.photo_url,
+          is_active: true,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        // Unique (branch_id, sku) violation
+        if (error.code === "23505") {
+          throw new Error(`SKU "${productData.sku.trim().toUpperCase()}" already exists in this branch`);
+        }
+        throw error;
+      }
+      return data as Product;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+    },
+  });
+}
+
+export function useUpdateProduct() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      productId,
+      updates,
+    }: {
+      productId: string;
+      updates: Partial<Omit<Product, "id" | "branch_id" | "created_at" | "updated_at">>;
+    }) => {
+      const payload = {
+        ...updates,
+        ...(updates.sku !== undefined && { sku: updates.sku.trim().toUpperCase() }),
+        ...(updates.name !== undefined && { name: updates.name.trim() }),
+        ...(updates.category !== undefined && { category: updates.category?.trim() || null }),
+        ...(updates.hsn_sac !== undefined && { hsn_sac: updates.hsn_sac?.trim() || null }),
+      };
+
+      const { data, error } = await supabase
+        .from("products")
+        .update(payload)
+        .eq("id", productId)
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === "23505") {
+          throw new Error(`SKU "${payload.sku}" already exists in this branch`);
+        }
+        throw error;
+      }
+      return data as Product;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["product", variables.productId] });
+    },
+  });
+}
+
+export function useToggleProductActive() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      productId,
+      isActive,
+    }: {
+      productId: string;
+      isActive: boolean;
+    }) => {
+      const { data, error } = await supabase
+        .from("products")
+        .update({ is_active: isActive })
+        .eq("id", productId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as Product;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["product", variables.productId] });
+    },
+  });
+}
+
+export function useDeleteProduct() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (productId: string) => {
+      // Order history keeps the line items; product_id is set to NULL by the FK
+      const { error } = await supabase
+        .from("products")
+        .delete()
+        .eq("id", productId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["product"] });
+    },
+  });
+}
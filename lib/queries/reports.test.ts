@@ -0,0 +1,241 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  buildBranchProfit,
+  buildCollectionRows,
+  buildProductProfit,
+  buildRevenueSplit,
+  buildStatusCounts,
+  fetchAllPages,
+  getOrderRent,
+  type ReportOrder,
+  type ReportPayment,
+} from "./reports";
+
+const order = (overrides: Partial<ReportOrder> = {}): ReportOrder => ({
+  id: "order-1",
+  invoice_number: "GLA/25-26/0001",
+  branch_id: "branch-1",
+  status: "completed",
+  created_at: "2025-06-10T06:30:00.000Z",
+  total_amount: 0,
+  ...overrides,
+});
+
+const payment = (overrides: Partial<ReportPayment> = {}): ReportPayment => ({
+  id: "payment-1",
+  order_id: "order-1",
+  branch_id: "branch-1",
+  amount: 0,
+  payment_type: "balance",
+  payment_mode: "cash",
+  paid_at: "2025-06-10T12:00:00",
+  ...overrides,
+});
+
+describe("getOrderRent", () => {
+  it("uses the stored subtotal when there is one", () => {
+    expect(getOrderRent({ total_amount: 1180, subtotal: 1000, gst_amount: 180 })).toBe(1000);
+  });
+
+  it("derives rent from the total for orders without a subtotal", () => {
+    expect(getOrderRent({ total_amount: 1480, gst_amount: 180, late_fee: 200, damage_fee_total: 100 })).toBe(1000);
+  });
+
+  it("keeps a stored subtotal of zero and never derives a negative rent", () => {
+    expect(getOrderRent({ total_amount: 500, subtotal: 0 })).toBe(0);
+    expect(getOrderRent({ total_amount: 100, late_fee: 300 })).toBe(0);
+  });
+});
+
+describe("buildRevenueSplit", () => {
+  it("only counts completed orders", () => {
+    const split = buildRevenueSplit([
+      order({ status: "active", total_amount: 5000, subtotal: 5000 }),
+      order({ status: "cancelled", total_amount: 2000, subtotal: 2000 }),
+    ]);
+
+    expect(split).toEqual({ subtotal: 0, gst: 0, late_fee: 0, damage_fee: 0, gross: 0, credit_notes: 0, total: 0 });
+  });
+
+  it("splits completed orders into rent, GST and fees", () => {
+    const split = buildRevenueSplit([
+      order({ total_amount: 1180, subtotal: 1000, gst_amount: 180 }),
+      order({ id: "order-2", total_amount: 850, subtotal: 500, late_fee: 250, damage_fee_total: 100 }),
+    ]);
+
+    expect(split).toEqual({
+      subtotal: 1500,
+      gst: 180,
+      late_fee: 250,
+      damage_fee: 100,
+      gross: 2030,
+      credit_notes: 0,
+      total: 2030,
+    });
+  });
+
+  it("adds credit notes back to get the gross invoiced value", () => {
+    const split = buildRevenueSplit([
+      order({ total_amount: 800, subtotal: 800, credit_notes: [{ total_amount: 150 }, { total_amount: 50 }] }),
+    ]);
+
+    expect(split.credit_notes).toBe(200);
+    expect(split.gross).toBe(1000);
+    expect(split.total).toBe(800);
+  });
+});
+
+describe("buildCollectionRows", () => {
+  it("groups payments by payment date and subtracts refunds", () => {
+    const rows = buildCollectionRows(
+      [
+        payment({ id: "p3", amount: 300, paid_at: "2025-06-11T12:00:00" }),
+        payment({ id: "p1", amount: 1000, payment_type: "advance", paid_at: "2025-06-10T09:00:00" }),
+        payment({ id: "p2", amount: 200, payment_type: "refund", paid_at: "2025-06-10T18:00:00" }),
+      ],
+      "daily"
+    );
+
+    expect(rows).toEqual([
+      { period: "10 Jun 2025", payments: 2, collection: 800 },
+      { period: "11 Jun 2025", payments: 1, collection: 300 },
+    ]);
+  });
+
+  it("buckets by month", () => {
+    const rows = buildCollectionRows(
+      [
+        payment({ amount: 100, paid_at: "2025-05-31T12:00:00" }),
+        payment({ amount: 400, paid_at: "2025-06-01T12:00:00" }),
+        payment({ amount: 600, paid_at: "2025-06-30T12:00:00" }),
+      ],
+      "monthly"
+    );
+
+    expect(rows).toEqual([
+      { period: "May 2025", payments: 1, collection: 100 },
+      { period: "Jun 2025", payments: 2, collection: 1000 },
+    ]);
+  });
+});
+
+describe("buildCollectionRows by week", () => {
+  it("starts weeks on Monday, across the turn of the year", () => {
+    const rows = buildCollectionRows(
+      [
+        payment({ amount: 100, paid_at: "2024-12-29T12:00:00" }), // Sunday
+        payment({ amount: 200, paid_at: "2024-12-30T12:00:00" }), // Monday
+        payment({ amount: 300, paid_at: "2025-01-05T12:00:00" }), // Sunday
+        payment({ amount: 50, payment_type: "refund", paid_at: "2025-01-01T12:00:00" }),
+      ],
+      "weekly"
+    );
+
+    expect(rows).toEqual([
+      { period: "Week of 23 Dec 2024", payments: 1, collection: 100 },
+      { period: "Week of 30 Dec 2024", payments: 3, collection: 450 },
+    ]);
+  });
+
+  it("shows a week of only refunds as a negative collection", () => {
+    expect(buildCollectionRows([payment({ amount: 500, payment_type: "refund" })], "weekly")).toEqual([
+      { period: "Week of 09 Jun 2025", payments: 1, collection: -500 },
+    ]);
+  });
+});
+
+describe("fetchAllPages", () => {
+  const rows = (count: number, offset = 0) => Array.from({ length: count }, (_, i) => ({ id: offset + i }));
+
+  it("keeps asking until a page comes back short", async () => {
+    const query = vi.fn<(from: number, to: number) => Promise<{ data: { id: number }[]; error: null }>>(async (from) => ({
+      data: rows(from < 2000 ? 1000 : 3, from),
+      error: null,
+    }));
+
+    const result = await fetchAllPages(query);
+
+    expect(result).toHaveLength(2003);
+    expect(query.mock.calls.map(([from, to]) => [from, to])).toEqual([
+      [0, 999],
+      [1000, 1999],
+      [2000, 2999],
+    ]);
+  });
+
+  it("asks once more when the last page is exactly full", async () => {
+    const query = vi.fn(async (from: number) => ({ data: from === 0 ? rows(1000) : [], error: null }));
+
+    expect(await fetchAllPages(query)).toHaveLength(1000);
+    expect(query).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops on an empty result and throws the query error", async () => {
+    expect(await fetchAllPages(async () => ({ data: null, error: null }))).toEqual([]);
+
+    const error = { message: "permission denied for table payments" };
+    await expect(fetchAllPages(async () => ({ data: rows(10), error }))).rejects.toBe(error);
+  });
+});
+
+describe("buildStatusCounts", () => {
+  it("counts and sums per status, most common first", () => {
+    const counts = buildStatusCounts([
+      order({ status: "active", total_amount: 100 }),
+      order({ status: "completed", total_amount: 300 }),
+      order({ status: "active", total_amount: 250 }),
+    ]);
+
+    expect(counts).toEqual([
+      { status: "active", count: 2, amount: 350 },
+      { status: "completed", count: 1, amount: 300 },
+    ]);
+  });
+});
+
+describe("buildBranchProfit", () => {
+  it("takes GST out of completed revenue and keeps branches that only spent", () => {
+    const profit = buildBranchProfit(
+      [
+        order({ total_amount: 1180, gst_amount: 180 }),
+        order({ status: "active", total_amount: 5000 }),
+      ],
+      [
+        { branch_id: "branch-1", amount: 400 },
+        { branch_id: "branch-9", amount: 75 },
+      ],
+      [{ id: "branch-1", name: "Kochi" }]
+    );
+
+    expect(profit).toEqual([
+      { id: "branch-1", name: "Kochi", revenue: 1000, expenses: 400, profit: 600 },
+      { id: "branch-9", name: "Unknown branch", revenue: 0, expenses: 75, profit: -75 },
+    ]);
+  });
+});
+
+describe("buildProductProfit", () => {
+  it("uses catalog products only and prefers the catalog name", () => {
+    const profit = buildProductProfit(
+      [
+        order({
+          items: [
+            { product_id: "p-1", product_name: "Sherwani (old name)", line_total: 900 },
+            { product_id: null, product_name: "Custom stitching", line_total: 300 },
+          ],
+        }),
+        order({ status: "cancelled", items: [{ product_id: "p-1", line_total: 5000 }] }),
+      ],
+      [
+        { product_id: "p-1", product: { id: "p-1", name: "Sherwani", sku: "SH-1" }, amount: 150 },
+        { product_id: "p-2", product: null, amount: 60 },
+        { product_id: null, product: null, amount: 999 },
+      ]
+    );
+
+    expect(profit).toEqual([
+      { id: "p-1", name: "Sherwani", revenue: 900, expenses: 150, profit: 750 },
+      { id: "p-2", name: "Unnamed product", revenue: 0, expenses: 60, profit: -60 },
+    ]);
+  });
+});
@@ -0,0 +1,353 @@
+import { useQuery } from "@tanstack/react-query";
+import { createClient } from "@/lib/supabase/client";
+import {
+  startOfDay,
+  endOfDay,
+  startOfWeek,
+  startOfMonth,
+  format,
+} from "date-fns";
+import { getSignedPaymentAmount } from "@/lib/queries/payments";
+import type { CreditNote, Expense, OrderStatus, Payment } from "@/lib/types";
+
+export type ReportPeriod = "daily" | "weekly" | "monthly";
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+/**
+ * Fetch every row of a query a page at a time.
+ * The query must have a stable order (end it with the id) so pages don't overlap.
+ */
+export async function fetchAllPages<T>(
+  buildQuery: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await buildQuery(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+export interface ReportOrder {
+  id: string;
+  invoice_number: string;
+  branch_id: string;
+  status: OrderStatus;
+  created_at: string;
+  total_amount: number;
+  subtotal?: number | null;
+  gst_amount?: number | null;
+  late_fee?: number | null;
+  damage_fee_total?: number | null;
+  credit_notes?: { total_amount: number }[];
+  items?: { product_id?: string | null; product_name?: string | null; line_total: number }[];
+}
+
+export type ReportPayment = Pick<Payment, "id" | "order_id" | "branch_id" | "amount" | "payment_type" | "payment_mode" | "paid_at">;
+
+export interface CollectionRow {
+  period: string; // Bucket label, e.g. "2025-01-15", "Week of 2025-01-13", "Jan 2025"
+  payments: number; // Payments received (and refunds paid back) in the bucket
+  collection: number; // Received minus refunded
+}
+
+export interface RevenueSplit {
+  subtotal: number;
+  gst: number;
+  late_fee: number;
+  damage_fee: number;
+  gross: number; // Invoiced, before credit notes
+  credit_notes: number;
+  total: number; // Net of credit notes
+}
+
+export interface ProfitRow {
+  id: string; // Branch or product id
+  name: string;
+  revenue: number; // Completed orders, excluding GST
+  expenses: number;
+  profit: number;
+}
+
+export interface StatusCountRow {
+  status: OrderStatus;
+  count: number;
+  amount: number;
+}
+
+/**
+ * Fetch orders created within the date range for reporting.
+ * Pass branchId = null to report across all branches (super admin only – RLS applies).
+ */
+export function useReportOrders(
+  branchId: string | null,
+  dateRange: { start: Date; end: Date }
+) {
+  const supabase = createClient();
+  const rangeStart = startOfDay(dateRange.start).toISOString();
+  const rangeEnd = endOfDay(dateRange.end).toISOString();
+
+  return useQuery({
+    queryKey: ["reports", branchId, rangeStart, rangeEnd],
+    queryFn: async (): Promise<ReportOrder[]> => {
+      const rows = await fetchAllPages((from, to) => {
+        let query = supabase
+          .from("orders")
+          .select("id, invoice_number, branch_id, status, created_at, total_amount, subtotal, gst_amount, late_fee, damage_fee_total, credit_notes(total_amount), items:order_items(product_id, product_name, line_total)")
+          .gte("created_at", rangeStart)
+          .lte("created_at", rangeEnd)
+          .order("created_at", { ascending: true })
+          .order("id", { ascending: true });
+
+        if (branchId) {
+          query = query.eq("branch_id", branchId);
+        }
+
+        return query.range(from, to);
+      });
+      return rows as ReportOrder[];
+    },
+    staleTime: 60000,
+  });
+}
+
+function getPeriodKey(date: Date, period: ReportPeriod): { key: string; label: string } {
+  if (period === "weekly") {
+    const weekStart = startOfWeek(date, { weekStartsOn: 1 });
+    return { key: format(weekStart, "yyyy-MM-dd"), label: `Week of ${format(weekStart, "dd MMM yyyy")}` };
+  }
+  if (period === "monthly") {
+    const monthStart = startOfMonth(date);
+    return { key: format(monthStart, "yyyy-MM"), label: format(monthStart, "MMM yyyy") };
+  }
+  return { key: format(date, "yyyy-MM-dd"), label: format(date, "dd MMM yyyy") };
+}
+
+/**
+ * Payments received within the date range (by payment date, not order date),
+ * refunds paid back included
+ */
+export function useReportPayments(
+  branchId: string | null,
+  dateRange: { start: Date; end: Date }
+) {
+  const supabase = createClient();
+  const rangeStart = startOfDay(dateRange.start).toISOString();
+  const rangeEnd = endOfDay(dateRange.end).toISOString();
+
+  return useQuery({
+    queryKey: ["reports-payments", branchId, rangeStart, rangeEnd],
+    queryFn: async (): Promise<ReportPayment[]> =>
+      fetchAllPages<ReportPayment>((from, to) => {
+        let query = supabase
+          .from("payments")
+          .select("id, order_id, branch_id, amount, payment_type, payment_mode, paid_at")
+          .gte("paid_at", rangeStart)
+          .lte("paid_at", rangeEnd)
+          .order("paid_at", { ascending: true })
+          .order("id", { ascending: true });
+
+        if (branchId) {
+          query = query.eq("branch_id", branchId);
+        }
+
+        return query.range(from, to);
+      }),
+    staleTime: 60000,
+  });
+}
+
+/**
+ * Group payments received into daily/weekly/monthly collection buckets (oldest first).
+ * Refunds paid back count against the day they were paid.
+ */
+export function buildCollectionRows(payments: ReportPayment[], period: ReportPeriod): CollectionRow[] {
+  const buckets = new Map<string, CollectionRow>();
+
+  payments.forEach((payment) => {
+    const { key, label } = getPeriodKey(new Date(payment.paid_at), period);
+    const bucket = buckets.get(key) || { period: label, payments: 0, collection: 0 };
+    bucket.payments += 1;
+    bucket.collection += getSignedPaymentAmount(payment);
+    buckets.set(key, bucket);
+  });
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, row]) => row);
+}
+
+/**
+ * Credit notes issued within the date range (by issue date, not order date)
+ */
+export function useReportCreditNotes(
+  branchId: string | null,
+  dateRange: { start: Date; end: Date }
+) {
+  const supabase = createClient();
+  const rangeStart = startOfDay(dateRange.start).toISOString();
+  const rangeEnd = endOfDay(dateRange.end).toISOString();
+
+  return useQuery({
+    queryKey: ["reports-credit-notes", branchId, rangeStart, rangeEnd],
+    queryFn: async (): Promise<CreditNote[]> => {
+      const rows = await fetchAllPages((from, to) => {
+        let query = supabase
+          .from("credit_notes")
+          .select("*")
+          .gte("issued_at", rangeStart)
+          .lte("issued_at", rangeEnd)
+          .order("issued_at", { ascending: true })
+          .order("id", { ascending: true });
+
+        if (branchId) {
+          query = query.eq("branch_id", branchId);
+        }
+
+        return query.range(from, to);
+      });
+      return rows as CreditNote[];
+    },
+    staleTime: 60000,
+  });
+}
+
+/**
+ * Rent on an order: the subtotal before GST and late/damage fees.
+ * total_amount already includes those, so legacy orders without a stored
+ * subtotal get it back-calculated from the total.
+ */
+export function getOrderRent(order: Pick<ReportOrder, "total_amount" | "subtotal" | "gst_amount" | "late_fee" | "damage_fee_total">): number {
+  if (order.subtotal != null) return Number(order.subtotal);
+  const total = Number(order.total_amount) || 0;
+  const gst = Number(order.gst_amount) || 0;
+  const lateFee = Number(order.late_fee) || 0;
+  const damageFee = Number(order.damage_fee_total) || 0;
+  return Math.max(0, total - gst - lateFee - damageFee);
+}
+
+/**
+ * Split completed-order revenue into its components.
+ * Billing adjustments and refunds lower total_amount when they are credited,
+ * so the gross invoiced value is the total plus the order's credit notes.
+ */
+export function buildRevenueSplit(orders: ReportOrder[]): RevenueSplit {
+  return orders
+    .filter((o) => o.status === "completed")
+    .reduce<RevenueSplit>(
+      (split, order) => {
+        const total = Number(order.total_amount) || 0;
+        const gst = Number(order.gst_amount) || 0;
+        const lateFee = Number(order.late_fee) || 0;
+        const damageFee = Number(order.damage_fee_total) || 0;
+        const subtotal = getOrderRent(order);
+        const credited = (order.credit_notes || []).reduce(
+          (sum, note) => sum + (Number(note.total_amount) || 0),
+          0
+        );
+
+        split.subtotal += subtotal;
+        split.gst += gst;
+        split.late_fee += lateFee;
+        split.damage_fee += damageFee;
+        split.gross += total + credited;
+        split.credit_notes += credited;
+        split.total += total;
+        return split;
+      },
+      { subtotal: 0, gst: 0, late_fee: 0, damage_fee: 0, gross: 0, credit_notes: 0, total: 0 }
+    );
+}
+
+/**
+ * Count orders (and their billed amount) per status
+ */
+export function buildStatusCounts(orders: ReportOrder[]): StatusCountRow[] {
+  const counts = new Map<OrderStatus, StatusCountRow>();
+
+  orders.forEach((order) => {
+    const row = counts.get(order.status) || { status: order.status, count: 0, amount: 0 };
+    row.count += 1;
+    row.amount += Number(order.total_amount) || 0;
+    counts.set(order.status, row);
+  });
+
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Revenue (excluding GST, which isn't the business's money) minus expenses,
+ * per branch. Orders count by creation date, expenses by expense date.
+ */
+export function buildBranchProfit(
+  orders: ReportOrder[],
+  expenses: Pick<Expense, "branch_id" | "amount">[],
+  branches: { id: string; name: string }[]
+): ProfitRow[] {
+  const rows = new Map<string, ProfitRow>();
+  const getRow = (branchId: string) => {
+    let row = rows.get(branchId);
+    if (!row) {
+      const name = branches.find((b) => b.id === branchId)?.name || "Unknown branch";
+      row = { id: branchId, name, revenue: 0, expenses: 0, profit: 0 };
+      rows.set(branchId, row);
+    }
+    return row;
+  };
+
+  orders
+    .filter((o) => o.status === "completed")
+    .forEach((order) => {
+      getRow(order.branch_id).revenue += (Number(order.total_amount) || 0) - (Number(order.gst_amount) || 0);
+    });
+  expenses.forEach((expense) => {
+    getRow(expense.branch_id).expenses += Number(expense.amount) || 0;
+  });
+
+  return Array.from(rows.values())
+    .map((row) => ({ ...row, profit: row.revenue - row.expenses }))
+    .sort((a, b) => b.profit - a.profit);
+}
+
+/**
+ * Rent earned by each catalog product on completed orders minus the
+ * expenses recorded against it, most profitable first.
+ * Legacy free-text items and expenses without a product are left out.
+ */
+export function buildProductProfit(
+  orders: ReportOrder[],
+  expenses: Pick<Expense, "product_id" | "product" | "amount">[]
+): ProfitRow[] {
+  const rows = new Map<string, ProfitRow>();
+  const getRow = (productId: string, name?: string | null) => {
+    let row = rows.get(productId);
+    if (!row) {
+      row = { id: productId, name: name || "Unnamed product", revenue: 0, expenses: 0, profit: 0 };
+      rows.set(productId, row);
+    }
+    return row;
+  };
+
+  orders
+    .filter((o) => o.status === "completed")
+    .forEach((order) => {
+      (order.items || []).forEach((item) => {
+        if (!item.product_id) return;
+        getRow(item.product_id, item.product_name).revenue += Number(item.line_total) || 0;
+      });
+    });
+  expenses.forEach((expense) => {
+    if (!expense.product_id) return;
+    const row = getRow(expense.product_id, expense.product?.name);
+    // Catalog name wins over the name copied onto the order item
+    if (expense.product?.name) row.name = expense.product.name;
+    row.expenses += Number(expense.amount) || 0;
+  });
+
+  return Array.from(rows.values())
+    .map((row) => ({ ...row, profit: row.revenue - row.expenses }))
+    .sort((a, b) => b.profit - a.profit);
+}
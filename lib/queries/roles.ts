@@ -0,0 +1,100 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { createClient } from "@/lib/supabase/client";
+import type { AppRole, Permission } from "@/lib/types";
+
+/**
+ * Built-in roles first, then custom roles by name
+ */
+export function useAppRoles() {
+  const supabase = createClient();
+
+  return useQuery({
+    queryKey: ["app-roles"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("app_roles")
+        .select("*")
+        .order("is_system", { ascending: false })
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as AppRole[];
+    },
+  });
+}
+
+export function useCreateAppRole() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (role: { name: string; description?: string; permissions: Permission[] }) => {
+      const key = role.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+      if (!key) throw new Error("Role name is required");
+
+      const { data, error } = await supabase
+        .from("app_roles")
+        .insert([{ ...role, name: role.name.trim(), key: `custom_${key}` }])
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === "23505") throw new Error("A role with this name already exists");
+        throw error;
+      }
+      return data as AppRole;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["app-roles"] });
+    },
+  });
+}
+
+export function useUpdateAppRole() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      ...updates
+    }: {
+      id: string;
+      name?: string;
+      description?: string | null;
+      permissions?: Permission[];
+    }) => {
+      const { data, error } = await supabase
+        .from("app_roles")
+        .update(updates)
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as AppRole;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["app-roles"] });
+    },
+  });
+}
+
+/**
+ * Staff on a deleted custom role fall back to their built-in role
+ */
+export function useDeleteAppRole() {
+  const supabase = createClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("app_roles").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["app-roles"] });
+      queryClient.invalidateQueries({ queryKey: ["staff"] });
+    },
+  });
+}
@@ -0,0 +1,233 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildStaffPerformance,
+  getOrderCommission,
+  type StaffPerformanceEvent,
+  type StaffPerformanceOrder,
+} from "./staff";
+import type { Branch } from "@/lib/types";
+
+const order = (overrides: Partial<StaffPerformanceOrder> = {}): StaffPerformanceOrder => ({
+  id: "order-1",
+  branch_id: "branch-1",
+  status: "completed",
+  created_at: "2025-06-10T06:30:00.000Z",
+  total_amount: 0,
+  staff_id: "staff-1",
+  staff: { full_name: "Anu" },
+  ...overrides,
+});
+
+const event = (overrides: Partial<StaffPerformanceEvent> = {}): StaffPerformanceEvent => ({
+  id: "event-1",
+  order_id: "order-1",
+  action: "items_returned",
+  user_id: "staff-1",
+  created_at: "2025-06-12T06:30:00.000Z",
+  user: { full_name: "Anu" },
+  ...overrides,
+});
+
+const branch = (overrides: Partial<Branch> = {}): Branch => ({
+  id: "branch-1",
+  name: "Main",
+  address: "",
+  ...overrides,
+});
+
+describe("getOrderCommission", () => {
+  it("pays nothing without a branch rule or on cancelled orders", () => {
+    expect(getOrderCommission(order({ subtotal: 1000 }))).toBe(0);
+    expect(
+      getOrderCommission(order({ status: "cancelled", subtotal: 1000 }), { commission_type: "per_order", commission_rate: 50 })
+    ).toBe(0);
+  });
+
+  it("pays a flat amount per order or a percentage of the rent", () => {
+    expect(getOrderCommission(order({ subtotal: 1000 }), { commission_type: "per_order", commission_rate: 50 })).toBe(50);
+    expect(
+      getOrderCommission(order({ total_amount: 1180, subtotal: 1000, gst_amount: 180 }), {
+        commission_type: "percent_of_rent",
+        commission_rate: 7.5,
+      })
+    ).toBe(75);
+  });
+});
+
+describe("buildStaffPerformance", () => {
+  it("counts bookings per staff member but leaves cancelled orders out of revenue", () => {
+    const [row] = buildStaffPerformance(
+      [
+        order({ total_amount: 1180, subtotal: 1000, gst_amount: 180 }),
+        order({ id: "order-2", status: "cancelled", total_amount: 500, subtotal: 500 }),
+      ],
+      [],
+      [branch({ commission_type: "percent_of_rent", commission_rate: 10 })]
+    );
+
+    expect(row).toMatchObject({
+      staff_id: "staff-1",
+      name: "Anu",
+      orders_booked: 2,
+      revenue: 1180,
+      rent: 1000,
+      commission: 100,
+    });
+  });
+
+  it("gives an order's late fee to whoever processed its last return", () => {
+    const rows = buildStaffPerformance(
+      [],
+      [
+        event({ id: "e1", order: { branch_id: "branch-1", status: "partially_returned", late_fee: 300 } }),
+        event({
+          id: "e2",
+          action: "order_completed",
+          user_id: "staff-2",
+          user: { username: "bala" },
+          order: { branch_id: "branch-1", status: "completed", late_fee: 300 },
+        }),
+      ]
+    );
+
+    const byId = Object.fromEntries(rows.map((row) => [row.staff_id, row]));
+    expect(byId["staff-1"]).toMatchObject({ returns_processed: 1, late_fees_collected: 0 });
+    expect(byId["staff-2"]).toMatchObject({ name: "bala", returns_processed: 1, late_fees_collected: 300 });
+  });
+
+  it("totals waived late fees and counts cancellations", () => {
+    const [row] = buildStaffPerformance(
+      [],
+      [
+        event({ id: "e1", action: "late_fee_overridden", waived_amount: 500, notes: "₹1,500 → ₹1,000: Regular customer" }),
+        event({ id: "e2", action: "late_fee_overridden", waived_amount: 200 }),
+        event({ id: "e3", action: "late_fee_overridden", notes: "₹300 → ₹0" }),
+        event({ id: "e4", action: "order_cancelled" }),
+      ]
+    );
+
+    // The note is for people; an event without a waived amount adds nothing
+    expect(row).toMatchObject({ waivers: 3, late_fees_waived: 700, cancellations: 1, returns_processed: 0 });
+  });
+
+  it("credits an approved waiver to the staff member who asked for it", () => {
+    const approved: StaffPerformanceEvent = {
+      id: "e1",
+      order_id: "order-1",
+      action: "late_fee_overridden",
+      user_id: "manager-1",
+      user: { full_name: "Meera" },
+      requested_by: "staff-2",
+      requester: { username: "bala" },
+      waived_amount: 250,
+      created_at: "2025-06-12T09:00:00.000Z",
+    };
+
+    expect(buildStaffPerformance([], [approved])).toEqual([
+      expect.objectContaining({ staff_id: "staff-2", name: "bala", waivers: 1, late_fees_waived: 250 }),
+    ]);
+  });
+
+  it("counts only return events as returns processed", () => {
+    const actions = ["items_returned", "partial_return", "order_completed", "order_status_updated", "reminder_sent"];
+    const [row] = buildStaffPerformance(
+      [],
+      actions.map((action, index) => event({ id: `e${index}`, order_id: `order-${index}`, action }))
+    );
+
+    expect(row.returns_processed).toBe(3);
+  });
+
+  it("skips orders and events without a staff member and sorts by revenue", () => {
+    const rows = buildStaffPerformance(
+      [
+        order({ staff_id: null, total_amount: 9000 }),
+        order({ id: "order-2", staff_id: "staff-1", total_amount: 100 }),
+        order({ id: "order-3", staff_id: "staff-2", staff: { full_name: "Bala" }, total_amount: 400 }),
+      ],
+      [event({ user_id: null })]
+    );
+
+    expect(rows.map((row) => [row.name, row.revenue])).toEqual([
+      ["Bala", 400],
+      ["Anu", 100],
+    ]);
+  });
+});
+
+describe("buildStaffPerformance edge cases", () => {
+  const sale: StaffPerformanceOrder = {
+    id: "order-9",
+    branch_id: "branch-2",
+    status: "completed",
+    created_at: "2025-06-20T06:30:00.000Z",
+    total_amount: 2360,
+    subtotal: 2000,
+    gst_amount: 360,
+    staff_id: "staff-3",
+    staff: null,
+  };
+
+  it("pays commission under each order's own branch rule", () => {
+    const [row] = buildStaffPerformance(
+      [sale, { ...sale, id: "order-10", branch_id: "branch-3" }, { ...sale, id: "order-11", branch_id: "branch-gone" }],
+      [],
+      [
+        { id: "branch-2", name: "Kochi", address: "", commission_type: "per_order", commission_rate: 75 },
+        { id: "branch-3", name: "Thrissur", address: "", commission_type: "percent_of_rent", commission_rate: 2.5 },
+      ]
+    );
+
+    expect(row).toMatchObject({ name: "Unknown", orders_booked: 3, commission: 125 });
+  });
+
+  it("gives no late fee for a return on an order cancelled afterwards", () => {
+    const [row] = buildStaffPerformance(
+      [],
+      [
+        {
+          id: "e1",
+          order_id: "order-9",
+          action: "partial_return",
+          user_id: "staff-3",
+          created_at: "2025-06-21T06:30:00.000Z",
+          order: { branch_id: "branch-2", status: "cancelled", late_fee: 400 },
+        },
+      ]
+    );
+
+    expect(row).toMatchObject({ returns_processed: 1, late_fees_collected: 0 });
+  });
+
+  it("gives the approver of a waiver no row of their own", () => {
+    const rows = buildStaffPerformance(
+      [],
+      [
+        {
+          id: "e1",
+          order_id: "order-9",
+          action: "late_fee_overridden",
+          user_id: "admin-1",
+          requested_by: "staff-3",
+          waived_amount: 120.5,
+          created_at: "2025-06-21T06:30:00.000Z",
+        },
+      ]
+    );
+
+    expect(rows.map((row) => [row.staff_id, row.name, row.late_fees_waived])).toEqual([["staff-3", "Unknown", 120.5]]);
+  });
+
+  it("skips a waiver nobody can be credited with", () => {
+    const waiver: StaffPerformanceEvent = {
+      id: "e1",
+      order_id: "order-9",
+      action: "late_fee_overridden",
+      user_id: null,
+      waived_amount: 50,
+      created_at: "2025-06-21T06:30:00.000Z",
+    };
+
+    expect(buildStaffPerformance([], [waiver])).toEqual([]);
+  });
+});
@@ -1,6 +1,8 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { startOfMonth, endOfMonth, format } from "date-fns";
 import { createClient } from "@/lib/supabase/client";
-import type { User, UserRole } from "@/lib/types";
+import { fetchAllPages, getOrderRent, type ReportOrder } from "@/lib/queries/reports";
+import type { Branch, User, UserRole } from "@/lib/types";
 
 export function useStaff(branchId?: string | null) {
   const supabase = createClient();
@@ -44,6 +46,7 @@ export function useCreateStaff() {
       role: UserRole;
       branch_id: string;
       username: string;
+      app_role_id?: string | null;
     }) => {
       // Use API route that has service role access
       const response = await fetch("/api/staff/create", {
@@ -83,6 +86,7 @@ export function useUpdateStaff() {
       role?: UserRole;
       branch_id?: string;
       is_active?: boolean;
+      app_role_id?: string | null;
     }) => {
       // Update the profile
       const { error: updateError } = await (supabase
@@ -184,3 +188,188 @@ export function useToggleStaffActive() {
   });
 }
 
+
+// ============================================================================
+// STAFF PERFORMANCE & COMMISSION
+// ============================================================================
+
+type StaffName = { full_name?: string | null; username?: string | null } | null;
+
+export interface StaffPerformanceOrder extends Omit<ReportOrder, "invoice_number" | "credit_notes"> {
+  staff_id: string | null;
+  staff?: StaffName;
+}
+
+export interface StaffPerformanceEvent {
+  id: string;
+  order_id: string;
+  action: string;
+  new_status?: string | null;
+  user_id: string | null;
+  notes?: string | null;
+  waived_amount?: number | null; // late_fee_overridden only
+  requested_by?: string | null; // Staff who asked for an approved waiver
+  created_at: string;
+  user?: StaffName;
+  requester?: StaffName;
+  order?: { branch_id: string; status: string; late_fee?: number | null } | null;
+}
+
+export interface StaffPerformanceRow {
+  staff_id: string;
+  name: string;
+  orders_booked: number; // Including ones cancelled later
+  revenue: number; // Billed on booked orders that weren't cancelled
+  rent: number; // Subtotal of those orders - the base for % commission
+  returns_processed: number;
+  late_fees_collected: number; // On orders whose (last) return they processed
+  waivers: number;
+  late_fees_waived: number;
+  cancellations: number;
+  commission: number;
+}
+
+// Returns are saved by the return function (items_returned) or by a plain
+// status change (order_completed / partial_return)
+const RETURN_ACTIONS = ["items_returned", "order_completed", "partial_return"];
+const PERFORMANCE_ACTIONS = [...RETURN_ACTIONS, "late_fee_overridden", "order_cancelled"];
+
+/**
+ * Orders booked and timeline events in a month, for the staff performance
+ * report. Pass branchId = null for all branches (super admin only – RLS applies).
+ */
+export function useStaffPerformance(branchId: string | null, month: Date) {
+  const supabase = createClient();
+  const rangeStart = startOfMonth(month).toISOString();
+  const rangeEnd = endOfMonth(month).toISOString();
+
+  return useQuery({
+    queryKey: ["staff-performance", branchId, format(month, "yyyy-MM")],
+    queryFn: async () => {
+      const [orders, events] = await Promise.all([
+        fetchAllPages((from, to) => {
+          let query = supabase
+            .from("orders")
+            .select("id, branch_id, staff_id, status, created_at, total_amount, subtotal, gst_amount, late_fee, damage_fee_total, staff:profiles!orders_staff_id_fkey(full_name, username)")
+            .gte("created_at", rangeStart)
+            .lte("created_at", rangeEnd)
+            .order("created_at", { ascending: true })
+            .order("id", { ascending: true });
+
+          if (branchId) {
+            query = query.eq("branch_id", branchId);
+          }
+
+          return query.range(from, to);
+        }),
+        fetchAllPages((from, to) => {
+          let query = supabase
+            .from("order_return_audit")
+            .select("id, order_id, action, new_status, user_id, notes, waived_amount, requested_by, created_at, user:profiles!order_return_audit_user_id_fkey(full_name, username), requester:profiles!order_return_audit_requested_by_fkey(full_name, username), order:orders!inner(branch_id, status, late_fee)")
+            .in("action", PERFORMANCE_ACTIONS)
+            .gte("created_at", rangeStart)
+            .lte("created_at", rangeEnd)
+            .order("created_at", { ascending: true })
+            .order("id", { ascending: true });
+
+          if (branchId) {
+            query = query.eq("order.branch_id", branchId);
+          }
+
+          return query.range(from, to);
+        }),
+      ]);
+
+      return {
+        orders: orders as StaffPerformanceOrder[],
+        events: events as StaffPerformanceEvent[],
+      };
+    },
+    staleTime: 60000,
+  });
+}
+
+/**
+ * Commission on one booked order under its branch's rule
+ */
+export function getOrderCommission(order: StaffPerformanceOrder, branch?: Pick<Branch, "commission_type" | "commission_rate">): number {
+  if (order.status === "cancelled" || !branch?.commission_type) return 0;
+  const rate = Number(branch.commission_rate) || 0;
+  if (branch.commission_type === "per_order") return rate;
+  return Math.round(getOrderRent(order) * rate) / 100;
+}
+
+/**
+ * Aggregate bookings and timeline events per staff member, highest revenue first.
+ * Commission follows the rule of each order's branch.
+ */
+export function buildStaffPerformance(
+  orders: StaffPerformanceOrder[],
+  events: StaffPerformanceEvent[],
+  branches: Branch[] = []
+): StaffPerformanceRow[] {
+  const rows = new Map<string, StaffPerformanceRow>();
+  const branchById = new Map(branches.map((branch) => [branch.id, branch]));
+
+  const getRow = (staffId: string, person?: StaffName) => {
+    let row = rows.get(staffId);
+    if (!row) {
+      row = {
+        staff_id: staffId,
+        name: person?.full_name || person?.username || "Unknown",
+        orders_booked: 0,
+        revenue: 0,
+        rent: 0,
+        returns_processed: 0,
+        late_fees_collected: 0,
+        waivers: 0,
+        late_fees_waived: 0,
+        cancellations: 0,
+        commission: 0,
+      };
+      rows.set(staffId, row);
+    }
+    return row;
+  };
+
+  orders.forEach((order) => {
+    if (!order.staff_id) return;
+    const row = getRow(order.staff_id, order.staff);
+    row.orders_booked += 1;
+    if (order.status !== "cancelled") {
+      row.revenue += Number(order.total_amount) || 0;
+      row.rent += getOrderRent(order);
+    }
+    row.commission += getOrderCommission(order, branchById.get(order.branch_id));
+  });
+
+  // An order's late fee goes to whoever processed its last return in the month
+  const lastReturnBy = new Map<string, StaffPerformanceEvent>();
+
+  events.forEach((event) => {
+    if (event.action === "late_fee_overridden") {
+      // An approved waiver is logged by the approver but belongs to whoever asked for it
+      const staffId = event.requested_by ?? event.user_id;
+      if (!staffId) return;
+      const row = getRow(staffId, event.requested_by ? event.requester : event.user);
+      row.waivers += 1;
+      row.late_fees_waived += Number(event.waived_amount) || 0;
+      return;
+    }
+
+    if (!event.user_id) return;
+    if (RETURN_ACTIONS.includes(event.action)) {
+      getRow(event.user_id, event.user).returns_processed += 1;
+      lastReturnBy.set(event.order_id, event);
+    } else if (event.action === "order_cancelled") {
+      getRow(event.user_id, event.user).cancellations += 1;
+    }
+  });
+
+  lastReturnBy.forEach((event) => {
+    if (event.order?.status === "cancelled") return;
+    getRow(event.user_id!, event.user).late_fees_collected += Number(event.order?.late_fee) || 0;
+  });
+
+  return Array.from(rows.values()).sort((a, b) => b.revenue - a.revenue || a.name.localeCompare(b.name));
+}
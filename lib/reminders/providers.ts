@@ -0,0 +1,49 @@
+/**
+ * Message providers for automated reminders.
+ * Pick one with REMINDER_PROVIDER; "log" (the default) only writes the message
+ * to the server log, for local testing and until a real provider is set up.
+ * Server only.
+ */
+
+export type ReminderChannel = "whatsapp" | "sms";
+
+export interface ReminderMessage {
+  channel: ReminderChannel;
+  to: string; // 10 digit Indian mobile number
+  body: string;
+}
+
+export interface ReminderSendResult {
+  messageId?: string;
+}
+
+export interface ReminderProvider {
+  name: string;
+  /** Throws when the message could not be sent */
+  send(message: ReminderMessage): Promise<ReminderSendResult>;
+}
+
+export const logReminderProvider: ReminderProvider = {
+  name: "log",
+  async send(message) {
+    console.log(`[Reminders] ${message.channel} to ${message.to}:\n${message.body}`);
+    return { messageId: `log-${Date.now()}-${message.to}` };
+  },
+};
+
+const providers: Record<string, ReminderProvider> = {
+  [logReminderProvider.name]: logReminderProvider,
+};
+
+export function getReminderProvider(): ReminderProvider {
+  const name = process.env.REMINDER_PROVIDER || logReminderProvider.name;
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(`Unknown REMINDER_PROVIDER "${name}"`);
+  }
+  return provider;
+}
+
+export function getReminderChannel(): ReminderChannel {
+  return process.env.REMINDER_CHANNEL === "sms" ? "sms" : "whatsapp";
+}
@@ -0,0 +1,54 @@
+export type ReminderType = "pickup_tomorrow" | "return_due_today" | "overdue";
+
+export const REMINDER_TYPE_LABELS: Record<ReminderType, string> = {
+  pickup_tomorrow: "Pickup reminder",
+  return_due_today: "Return due reminder",
+  overdue: "Overdue reminder",
+};
+
+export interface ReminderOrder {
+  invoice_number: string;
+  start_date: string;
+  end_date: string;
+  start_datetime?: string | null;
+  end_datetime?: string | null;
+  customer?: { name?: string | null } | null;
+}
+
+const formatIST = (value: string) =>
+  new Date(value).toLocaleString("en-IN", {
+    timeZone: "Asia/Kolkata",
+    day: "2-digit",
+    month: "short",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+/**
+ * Reminder text for a customer. Plain text so it reads the same on WhatsApp and SMS.
+ */
+export function buildReminderMessage(
+  type: ReminderType,
+  order: ReminderOrder,
+  options: { shopName: string; statusUrl?: string | null }
+): string {
+  const greeting = order.customer?.name ? `Hi ${order.customer.name},` : "Hi,";
+  const pickupAt = formatIST(order.start_datetime || order.start_date);
+  const dueAt = formatIST(order.end_datetime || order.end_date);
+
+  let body: string;
+  switch (type) {
+    case "pickup_tomorrow":
+      body = `Your costumes for order ${order.invoice_number} are ready for pickup tomorrow (${pickupAt}) at ${options.shopName}.`;
+      break;
+    case "return_due_today":
+      body = `A reminder that order ${order.invoice_number} from ${options.shopName} is due back today by ${dueAt}.`;
+      break;
+    case "overdue":
+      body = `Order ${order.invoice_number} from ${options.shopName} was due back on ${dueAt} and is now overdue. Late fees may apply - please return it as soon as possible.`;
+      break;
+  }
+
+  const link = options.statusUrl ? `\n\nOrder details and balance: ${options.statusUrl}` : "";
+  return `${greeting}\n\n${body}${link}\n\nThank you!`;
+}
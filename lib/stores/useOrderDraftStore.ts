@@ -1,29 +1,46 @@
 import { create } from "zustand";
-import { subscribeWithSelector } from "zustand/middleware";
+import { subscribeWithSelector, persist, createJSONStorage, type StateStorage } from "zustand/middleware";
 import { shallow } from "zustand/shallow";
-import type { OrderItem, OrderDraft } from "@/lib/types";
+import type { OrderItem, OrderDraft, PaymentMode, Customer } from "@/lib/types";
+import { idbDelete, idbGet, idbPut } from "@/lib/offline/db";
 import { useUserStore } from "./useUserStore";
 
 interface OrderDraftState {
   draft: OrderDraft;
   setCustomer: (customerId: string, name?: string, phone?: string) => void;
+  selectCustomer: (customer: Customer | null) => void;
   setStartDate: (date: string) => void;
   setEndDate: (date: string) => void;
   setInvoiceNumber: (number: string) => void;
+  setDepositAmount: (amount: number) => void;
+  setAdvancePayment: (amount: number, mode: PaymentMode) => void;
   addItem: (item: OrderItem) => void;
   updateItem: (index: number, item: Partial<OrderItem>) => void;
   removeItem: (index: number) => void;
   clearDraft: () => void;
   loadOrder: (order: any) => void;
+  isEditingOrder: boolean; // Drafts of saved orders aren't persisted
 }
 
 const initialDraft: OrderDraft = {
   customer_id: null,
+  customer: null,
   start_date: new Date().toISOString(),
   end_date: "",
   invoice_number: "",
   items: [],
   grand_total: 0,
+  deposit_amount: 0,
+  advance_amount: 0,
+  advance_mode: "cash",
+};
+
+// The new-order draft is kept in IndexedDB so it survives a reload while the
+// counter is offline (photos taken offline are stored there too)
+const draftStorage: StateStorage = {
+  getItem: async (name) => (typeof window === "undefined" ? null : (await idbGet<string>("kv", name)) ?? null),
+  setItem: (name, value) => idbPut("kv", value, name),
+  removeItem: (name) => idbDelete("kv", name),
 };
 
 // Computed selectors (memoized - no re-runs unless dependencies change)
@@ -65,77 +82,126 @@ const selectGst = (state: OrderDraftState) => {
 };
 
 export const useOrderDraftStore = create<OrderDraftState>()(
-  subscribeWithSelector((set, get) => ({
-    draft: initialDraft,
+  persist(
+    subscribeWithSelector((set) => ({
+      draft: initialDraft,
+      isEditingOrder: false,
     
-    setCustomer: (customerId, name, phone) =>
-      set((state) => ({
-        draft: {
-          ...state.draft,
-          customer_id: customerId,
-          customer_name: name,
-          customer_phone: phone,
-        },
-      })),
+      setCustomer: (customerId, name, phone) =>
+        set((state) => ({
+          draft: {
+            ...state.draft,
+            customer_id: customerId,
+            customer_name: name,
+            customer_phone: phone,
+          },
+        })),
+
+      selectCustomer: (customer) =>
+        set((state) => ({
+          draft: {
+            ...state.draft,
+            customer_id: customer?.id ?? null,
+            customer_name: customer?.name,
+            customer_phone: customer?.phone,
+            customer,
+          },
+        })),
     
-    setStartDate: (date) =>
-      set((state) => ({
-        draft: { ...state.draft, start_date: date },
-      })),
+      setStartDate: (date) =>
+        set((state) => ({
+          draft: { ...state.draft, start_date: date },
+        })),
     
-    setEndDate: (date) =>
-      set((state) => ({
-        draft: { ...state.draft, end_date: date },
-      })),
+      setEndDate: (date) =>
+        set((state) => ({
+          draft: { ...state.draft, end_date: date },
+        })),
     
-    setInvoiceNumber: (number) =>
-      set((state) => ({
-        draft: { ...state.draft, invoice_number: number },
-      })),
+      setInvoiceNumber: (number) =>
+        set((state) => ({
+          draft: { ...state.draft, invoice_number: number },
+        })),
     
-    addItem: (item) =>
-      set((state) => ({
-        draft: {
-          ...state.draft,
-          items: [...state.draft.items, item], // Append to end - new items appear below existing ones
-        },
-      })),
+      setDepositAmount: (amount) =>
+        set((state) => ({
+          draft: { ...state.draft, deposit_amount: amount },
+        })),
     
-    updateItem: (index, updates) =>
-      set((state) => {
-        const newItems = [...state.draft.items];
-        newItems[index] = { ...newItems[index], ...updates };
-        return {
-          draft: { ...state.draft, items: newItems },
-        };
-      }),
+      setAdvancePayment: (amount, mode) =>
+        set((state) => ({
+          draft: { ...state.draft, advance_amount: amount, advance_mode: mode },
+        })),
     
-    removeItem: (index) =>
-      set((state) => ({
-        draft: {
-          ...state.draft,
-          items: state.draft.items.filter((_, i) => i !== index),
-        },
-      })),
+      addItem: (item) =>
+        set((state) => ({
+          draft: {
+            ...state.draft,
+            items: [...state.draft.items, item], // Append to end - new items appear below existing ones
+          },
+        })),
     
-    clearDraft: () => set({ draft: initialDraft }),
+      updateItem: (index, updates) =>
+        set((state) => {
+          const newItems = [...state.draft.items];
+          newItems[index] = { ...newItems[index], ...updates };
+          return {
+            draft: { ...state.draft, items: newItems },
+          };
+        }),
     
-    loadOrder: (order) =>
-      set({
-        draft: {
-          customer_id: order.customer_id,
-          customer_name: order.customer?.name,
-          customer_phone: order.customer?.phone,
-          start_date: order.start_date,
-          end_date: order.end_date,
-          invoice_number: order.invoice_number,
-          items: order.items || [],
-          grand_total: order.total_amount,
-        },
-      }),
-  }))
+      removeItem: (index) =>
+        set((state) => ({
+          draft: {
+            ...state.draft,
+            items: state.draft.items.filter((_, i) => i !== index),
+          },
+        })),
+    
+      clearDraft: () => set({ draft: initialDraft, isEditingOrder: false }),
+    
+      loadOrder: (order) =>
+        set({
+          isEditingOrder: true,
+          draft: {
+            customer_id: order.customer_id,
+            customer: order.customer ?? null,
+            customer_name: order.customer?.name,
+            customer_phone: order.customer?.phone,
+            start_date: order.start_date,
+            end_date: order.end_date,
+            invoice_number: order.invoice_number,
+            items: order.items || [],
+            grand_total: order.total_amount,
+            deposit_amount: order.deposit_amount ?? 0,
+            // Payments of saved orders live in the ledger, not the draft
+            advance_amount: 0,
+            advance_mode: "cash",
+          },
+        }),
+    })),
+    {
+      name: "glanz-order-draft",
+      storage: createJSONStorage(() => draftStorage),
+      partialize: (state) => ({ draft: state.isEditingOrder ? initialDraft : state.draft }),
+      // Uploads that were in flight (blob: previews) don't survive a reload
+      merge: (persisted, current) => {
+        const draft = (persisted as { draft?: OrderDraft } | undefined)?.draft;
+        if (!draft || current.isEditingOrder) return current;
+        return {
+          ...current,
+          draft: { ...draft, items: draft.items.filter((item) => !item.photo_url?.startsWith("blob:")) },
+        };
+      },
+    }
+  )
 );
 
+// The draft holds the customer's details - don't hand it to the next login
+useUserStore.subscribe((state, previous) => {
+  if (previous.user && !state.user) useOrderDraftStore.getState().clearDraft();
+});
+
 // Optimized selectors with shallow equality for items array
 export const useOrderItems = () => useOrderDraftStore(selectItems);
 export const useOrderSubtotal = () => useOrderDraftStore(selectSubtotal);
@@ -0,0 +1,92 @@
+import { create } from "zustand";
+import { createClient } from "@/lib/supabase/client";
+import {
+  discardOutboxEntry,
+  listOutbox,
+  queueOrder,
+  replayOutboxEntry,
+  saveOutboxEntry,
+  type OutboxOrder,
+} from "@/lib/offline/outbox";
+import { useUserStore } from "./useUserStore";
+
+interface OrderOutboxState {
+  entries: OutboxOrder[];
+  isSyncing: boolean;
+  load: () => Promise<void>;
+  queue: (...args: Parameters<typeof queueOrder>) => Promise<OutboxOrder>;
+  // Replays queued entries one at a time; returns the ones that synced
+  sync: () => Promise<OutboxOrder[]>;
+  retry: (id: string) => Promise<OutboxOrder[]>;
+  discard: (id: string) => Promise<void>;
+}
+
+const replaceEntry = (entries: OutboxOrder[], entry: OutboxOrder) =>
+  entries.map((existing) => (existing.id === entry.id ? entry : existing));
+
+const currentUserId = () => useUserStore.getState().user?.id;
+
+/**
+ * Orders created while offline by the logged-in user, waiting in IndexedDB to
+ * be replayed
+ */
+export const useOrderOutboxStore = create<OrderOutboxState>((set, get) => ({
+  entries: [],
+  isSyncing: false,
+
+  load: async () => {
+    const userId = currentUserId();
+    set({ entries: userId ? await listOutbox(userId) : [] });
+  },
+
+  queue: async (input, details) => {
+    const entry = await queueOrder(input, details);
+    set((state) => ({ entries: [entry, ...state.entries] }));
+    return entry;
+  },
+
+  sync: async () => {
+    const userId = currentUserId();
+    if (!userId || get().isSyncing) return [];
+    set({ isSyncing: true });
+
+    const synced: OutboxOrder[] = [];
+    try {
+      const supabase = createClient();
+      // "syncing" left over from a tab that closed mid-replay is picked up again
+      const pending = (await listOutbox(userId))
+        .filter((entry) => entry.status === "queued" || entry.status === "syncing")
+        .reverse(); // Oldest first, so invoice numbers follow the order they were taken
+
+      for (const entry of pending) {
+        set((state) => ({ entries: replaceEntry(state.entries, { ...entry, status: "syncing" }) }));
+        const result = await replayOutboxEntry(supabase, entry, userId);
+        set((state) => ({ entries: replaceEntry(state.entries, result) }));
+
+        if (result.status === "synced") synced.push(result);
+        // Still offline - the rest would fail the same way
+        if (result.status === "queued") break;
+      }
+    } finally {
+      set({ isSyncing: false });
+    }
+    return synced;
+  },
+
+  retry: async (id) => {
+    const entry = get().entries.find((e) => e.id === id);
+    if (!entry || entry.status !== "failed") return [];
+
+    const queued: OutboxOrder = { ...entry, status: "queued", error: undefined };
+    await saveOutboxEntry(queued);
+    set((state) => ({ entries: replaceEntry(state.entries, queued) }));
+    return get().sync();
+  },
+
+  discard: async (id) => {
+    const entry = get().entries.find((e) => e.id === id);
+    if (!entry) return;
+    await discardOutboxEntry(entry);
+    set((state) => ({ entries: state.entries.filter((e) => e.id !== id) }));
+  },
+}));
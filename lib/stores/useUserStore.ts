@@ -1,6 +1,8 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
 import type { User, Branch } from "@/lib/types";
+import { clearOfflineDataCache } from "@/lib/offline/data-cache";
+import { clearOfflineDraft } from "@/lib/offline/outbox";
 
 interface UserState {
   user: User | null;
@@ -18,7 +20,12 @@ export const useUserStore = create<UserState>()(
     (set) => ({
       user: null,
       setUser: (user) => set({ user }),
-      clearUser: () => set({ user: null }),
+      clearUser: () => {
+        // Logging out - don't leave this user's data readable offline
+        clearOfflineDataCache().catch(() => undefined);
+        clearOfflineDraft().catch(() => undefined);
+        set({ user: null });
+      },
       switchBranch: (branchId, branch) => set((state) => ({
         user: state.user ? { ...state.user, branch_id: branchId, branch } : null,
       })),
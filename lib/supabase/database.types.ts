@@ -1,5 +1,6 @@
 // This file will be auto-generated from Supabase
-// For now, we'll define basic types
+// (npx supabase gen types typescript). Until then it is kept in the same
+// shape by hand - update it together with supabase-migrations/.
 
 export type Json =
   | string
@@ -9,21 +10,121 @@ export type Json =
   | { [key: string]: Json | undefined }
   | Json[];
 
-export interface Database {
+export type Database = {
   public: {
     Tables: {
-      profiles: {
+      app_roles: {
         Row: {
           id: string;
-          username: string;
-          role: "super_admin" | "branch_admin" | "staff";
-          branch_id: string | null;
-          full_name: string;
-          phone: string;
-          created_at: string;
+          key: string;
+          name: string;
+          description: string | null;
+          is_system: boolean;
+          permissions: string[];
+          created_at: string | null;
+          updated_at: string | null;
         };
-        Insert: Omit<Database["public"]["Tables"]["profiles"]["Row"], "id" | "created_at">;
-        Update: Partial<Database["public"]["Tables"]["profiles"]["Insert"]>;
+        Insert: {
+          id?: string;
+          key: string;
+          name: string;
+          description?: string | null;
+          is_system?: boolean;
+          permissions?: string[];
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          key?: string;
+          name?: string;
+          description?: string | null;
+          is_system?: boolean;
+          permissions?: string[];
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+      approval_requests: {
+        Row: {
+          id: string;
+          branch_id: string;
+          order_id: string;
+          type: "discount" | "late_fee_waiver" | "cancellation";
+          status: "pending" | "approved" | "rejected";
+          amount: number;
+          summary: string;
+          request_reason: string | null;
+          payload: Json;
+          requested_by: string | null;
+          requested_at: string;
+          decided_by: string | null;
+          decided_at: string | null;
+          decision_reason: string | null;
+        };
+        Insert: {
+          id?: string;
+          branch_id?: string;
+          order_id: string;
+          type: "discount" | "late_fee_waiver" | "cancellation";
+          status?: "pending" | "approved" | "rejected";
+          amount?: number;
+          summary: string;
+          request_reason?: string | null;
+          payload?: Json;
+          requested_by?: string | null;
+          requested_at?: string;
+          decided_by?: string | null;
+          decided_at?: string | null;
+          decision_reason?: string | null;
+        };
+        Update: {
+          id?: string;
+          branch_id?: string;
+          order_id?: string;
+          type?: "discount" | "late_fee_waiver" | "cancellation";
+          status?: "pending" | "approved" | "rejected";
+          amount?: number;
+          summary?: string;
+          request_reason?: string | null;
+          payload?: Json;
+          requested_by?: string | null;
+          requested_at?: string;
+          decided_by?: string | null;
+          decided_at?: string | null;
+          decision_reason?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "approval_requests_branch_id_fkey";
+            columns: ["branch_id"];
+            isOneToOne: false;
+            referencedRelation: "branches";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "approval_requests_decided_by_fkey";
+            columns: ["decided_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "approval_requests_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "approval_requests_requested_by_fkey";
+            columns: ["requested_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
       };
       branches: {
         Row: {
@@ -31,56 +132,1538 @@ export interface Database {
           name: string;
           address: string;
           phone: string | null;
-          created_at: string;
+          logo_url: string | null;
+          is_active: boolean | null;
+          gstin: string | null;
+          state_code: string | null;
+          invoice_prefix: string | null;
+          late_fee_enabled: boolean;
+          late_fee_grace_minutes: number;
+          late_fee_unit: "hour" | "day";
+          late_fee_rate_type: "fixed" | "percent_of_daily_rent";
+          late_fee_rate: number;
+          late_fee_cap: number | null;
+          commission_type: "percent_of_rent" | "per_order" | null;
+          commission_rate: number;
+          approval_discount_threshold: number | null;
+          approval_late_fee_waiver_threshold: number | null;
+          approval_cancel_threshold: number | null;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          address: string;
+          phone?: string | null;
+          logo_url?: string | null;
+          is_active?: boolean | null;
+          gstin?: string | null;
+          state_code?: string | null;
+          invoice_prefix?: string | null;
+          late_fee_enabled?: boolean;
+          late_fee_grace_minutes?: number;
+          late_fee_unit?: "hour" | "day";
+          late_fee_rate_type?: "fixed" | "percent_of_daily_rent";
+          late_fee_rate?: number;
+          late_fee_cap?: number | null;
+          commission_type?: "percent_of_rent" | "per_order" | null;
+          commission_rate?: number;
+          approval_discount_threshold?: number | null;
+          approval_late_fee_waiver_threshold?: number | null;
+          approval_cancel_threshold?: number | null;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          address?: string;
+          phone?: string | null;
+          logo_url?: string | null;
+          is_active?: boolean | null;
+          gstin?: string | null;
+          state_code?: string | null;
+          invoice_prefix?: string | null;
+          late_fee_enabled?: boolean;
+          late_fee_grace_minutes?: number;
+          late_fee_unit?: "hour" | "day";
+          late_fee_rate_type?: "fixed" | "percent_of_daily_rent";
+          late_fee_rate?: number;
+          late_fee_cap?: number | null;
+          commission_type?: "percent_of_rent" | "per_order" | null;
+          commission_rate?: number;
+          approval_discount_threshold?: number | null;
+          approval_late_fee_waiver_threshold?: number | null;
+          approval_cancel_threshold?: number | null;
+          created_at?: string | null;
+        };
+        Relationships: [];
+      };
+      credit_note_sequences: {
+        Row: {
+          branch_id: string;
+          financial_year: string;
+          last_number: number;
+          updated_at: string;
+        };
+        Insert: {
+          branch_id: string;
+          financial_year: string;
+          last_number?: number;
+          updated_at?: string;
+        };
+        Update: {
+          branch_id?: string;
+          financial_year?: string;
+          last_number?: number;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "credit_note_sequences_branch_id_fkey";
+            columns: ["branch_id"];
+            isOneToOne: false;
+            referencedRelation: "branches";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      credit_notes: {
+        Row: {
+          id: string;
+          credit_note_number: string;
+          order_id: string;
+          branch_id: string;
+          customer_id: string;
+          invoice_number: string;
+          note_type: "cancellation" | "billing_adjustment" | "refund";
+          reason: string | null;
+          taxable_value: number;
+          gst_amount: number;
+          total_amount: number;
+          issued_by: string | null;
+          issued_at: string;
+          created_at: string | null;
         };
-        Insert: Omit<Database["public"]["Tables"]["branches"]["Row"], "id" | "created_at">;
-        Update: Partial<Database["public"]["Tables"]["branches"]["Insert"]>;
+        Insert: {
+          id?: string;
+          credit_note_number?: string;
+          order_id: string;
+          branch_id?: string;
+          customer_id?: string;
+          invoice_number?: string;
+          note_type: "cancellation" | "billing_adjustment" | "refund";
+          reason?: string | null;
+          taxable_value?: number;
+          gst_amount?: number;
+          total_amount: number;
+          issued_by?: string | null;
+          issued_at?: string;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          credit_note_number?: string;
+          order_id?: string;
+          branch_id?: string;
+          customer_id?: string;
+          invoice_number?: string;
+          note_type?: "cancellation" | "billing_adjustment" | "refund";
+          reason?: string | null;
+          taxable_value?: number;
+          gst_amount?: number;
+          total_amount?: number;
+          issued_by?: string | null;
+          issued_at?: string;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "credit_notes_branch_id_fkey";
+            columns: ["branch_id"];
+            isOneToOne: false;
+            referencedRelation: "branches";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "credit_notes_customer_id_fkey";
+            columns: ["customer_id"];
+            isOneToOne: false;
+            referencedRelation: "customers";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "credit_notes_issued_by_fkey";
+            columns: ["issued_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "credit_notes_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      customer_merges: {
+        Row: {
+          id: string;
+          survivor_id: string;
+          merged_customer_id: string;
+          merged_customer_number: string | null;
+          merged_name: string;
+          merged_phone: string | null;
+          merged_id_proof_type: string | null;
+          merged_id_proof_number: string | null;
+          merged_id_proof_front_url: string | null;
+          merged_id_proof_back_url: string | null;
+          orders_moved: number;
+          merged_by: string | null;
+          merged_at: string;
+        };
+        Insert: {
+          id?: string;
+          survivor_id: string;
+          merged_customer_id: string;
+          merged_customer_number?: string | null;
+          merged_name: string;
+          merged_phone?: string | null;
+          merged_id_proof_type?: string | null;
+          merged_id_proof_number?: string | null;
+          merged_id_proof_front_url?: string | null;
+          merged_id_proof_back_url?: string | null;
+          orders_moved?: number;
+          merged_by?: string | null;
+          merged_at?: string;
+        };
+        Update: {
+          id?: string;
+          survivor_id?: string;
+          merged_customer_id?: string;
+          merged_customer_number?: string | null;
+          merged_name?: string;
+          merged_phone?: string | null;
+          merged_id_proof_type?: string | null;
+          merged_id_proof_number?: string | null;
+          merged_id_proof_front_url?: string | null;
+          merged_id_proof_back_url?: string | null;
+          orders_moved?: number;
+          merged_by?: string | null;
+          merged_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "customer_merges_merged_by_fkey";
+            columns: ["merged_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "customer_merges_survivor_id_fkey";
+            columns: ["survivor_id"];
+            isOneToOne: false;
+            referencedRelation: "customers";
+            referencedColumns: ["id"];
+          },
+        ];
       };
       customers: {
         Row: {
           id: string;
+          customer_number: string;
           name: string;
           phone: string;
           email: string | null;
           address: string | null;
           id_proof_url: string | null;
+          id_proof_type: "aadhar" | "passport" | "voter" | "others" | null;
+          id_proof_number: string | null;
+          id_proof_front_url: string | null;
+          id_proof_back_url: string | null;
+          is_active: boolean | null;
+          phone_digits: string | null;
+          id_proof_key: string | null;
+          previous_customer_numbers: string[];
+          is_blacklisted: boolean;
+          blacklist_reason: string | null;
+          blacklisted_at: string | null;
+          blacklisted_by: string | null;
+          gstin: string | null;
+          state_code: string | null;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          customer_number?: string;
+          name: string;
+          phone: string;
+          email?: string | null;
+          address?: string | null;
+          id_proof_url?: string | null;
+          id_proof_type?: "aadhar" | "passport" | "voter" | "others" | null;
+          id_proof_number?: string | null;
+          id_proof_front_url?: string | null;
+          id_proof_back_url?: string | null;
+          is_active?: boolean | null;
+          phone_digits?: string | null;
+          id_proof_key?: string | null;
+          previous_customer_numbers?: string[];
+          is_blacklisted?: boolean;
+          blacklist_reason?: string | null;
+          blacklisted_at?: string | null;
+          blacklisted_by?: string | null;
+          gstin?: string | null;
+          state_code?: string | null;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          customer_number?: string;
+          name?: string;
+          phone?: string;
+          email?: string | null;
+          address?: string | null;
+          id_proof_url?: string | null;
+          id_proof_type?: "aadhar" | "passport" | "voter" | "others" | null;
+          id_proof_number?: string | null;
+          id_proof_front_url?: string | null;
+          id_proof_back_url?: string | null;
+          is_active?: boolean | null;
+          phone_digits?: string | null;
+          id_proof_key?: string | null;
+          previous_customer_numbers?: string[];
+          is_blacklisted?: boolean;
+          blacklist_reason?: string | null;
+          blacklisted_at?: string | null;
+          blacklisted_by?: string | null;
+          gstin?: string | null;
+          state_code?: string | null;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "customers_blacklisted_by_fkey";
+            columns: ["blacklisted_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      damage_assessment_lines: {
+        Row: {
+          id: string;
+          assessment_id: string;
+          damage_type_id: string | null;
+          name: string;
+          charge: number;
+          note: string | null;
+          sort_order: number;
+        };
+        Insert: {
+          id?: string;
+          assessment_id: string;
+          damage_type_id?: string | null;
+          name: string;
+          charge: number;
+          note?: string | null;
+          sort_order?: number;
+        };
+        Update: {
+          id?: string;
+          assessment_id?: string;
+          damage_type_id?: string | null;
+          name?: string;
+          charge?: number;
+          note?: string | null;
+          sort_order?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "damage_assessment_lines_assessment_id_fkey";
+            columns: ["assessment_id"];
+            isOneToOne: false;
+            referencedRelation: "damage_assessments";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "damage_assessment_lines_damage_type_id_fkey";
+            columns: ["damage_type_id"];
+            isOneToOne: false;
+            referencedRelation: "damage_types";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      damage_assessments: {
+        Row: {
+          id: string;
+          order_id: string;
+          order_item_id: string;
+          branch_id: string;
+          after_photo_url: string | null;
+          total_charge: number;
+          assessed_by: string | null;
+          assessed_at: string;
+        };
+        Insert: {
+          id?: string;
+          order_id: string;
+          order_item_id: string;
+          branch_id: string;
+          after_photo_url?: string | null;
+          total_charge?: number;
+          assessed_by?: string | null;
+          assessed_at?: string;
+        };
+        Update: {
+          id?: string;
+          order_id?: string;
+          order_item_id?: string;
+          branch_id?: string;
+          after_photo_url?: string | null;
+          total_charge?: number;
+          assessed_by?: string | null;
+          assessed_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "damage_assessments_assessed_by_fkey";
+            columns: ["assessed_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "damage_assessments_branch_id_fkey";
+            columns: ["branch_id"];
+            isOneToOne: false;
+            referencedRelation: "branches";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "damage_assessments_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "damage_assessments_order_item_id_fkey";
+            columns: ["order_item_id"];
+            isOneToOne: true;
+            referencedRelation: "order_items";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      damage_types: {
+        Row: {
+          id: string;
+          name: string;
+          default_charge: number;
+          is_active: boolean;
+          sort_order: number;
           created_at: string;
         };
-        Insert: Omit<Database["public"]["Tables"]["customers"]["Row"], "id" | "created_at">;
-        Update: Partial<Database["public"]["Tables"]["customers"]["Insert"]>;
+        Insert: {
+          id?: string;
+          name: string;
+          default_charge?: number;
+          is_active?: boolean;
+          sort_order?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          default_charge?: number;
+          is_active?: boolean;
+          sort_order?: number;
+          created_at?: string;
+        };
+        Relationships: [];
       };
-      orders: {
+      day_closings: {
         Row: {
           id: string;
           branch_id: string;
-          staff_id: string;
-          customer_id: string;
-          invoice_number: string;
-          start_date: string;
-          end_date: string;
-          status: "active" | "pending_return" | "completed";
-          total_amount: number;
+          business_date: string;
+          opening_float: number;
+          expected_cash: number;
+          expected_upi: number;
+          expected_card: number;
+          expected_other: number;
+          payments_count: number;
+          counted_cash: number;
+          counted_upi: number;
+          counted_card: number;
+          variance: number;
+          variance_reason: string | null;
+          notes: string | null;
+          closed_by: string | null;
+          closed_at: string;
+        };
+        Insert: {
+          id?: string;
+          branch_id: string;
+          business_date: string;
+          opening_float?: number;
+          expected_cash?: number;
+          expected_upi?: number;
+          expected_card?: number;
+          expected_other?: number;
+          payments_count?: number;
+          counted_cash: number;
+          counted_upi: number;
+          counted_card: number;
+          variance?: number;
+          variance_reason?: string | null;
+          notes?: string | null;
+          closed_by?: string | null;
+          closed_at?: string;
+        };
+        Update: {
+          id?: string;
+          branch_id?: string;
+          business_date?: string;
+          opening_float?: number;
+          expected_cash?: number;
+          expected_upi?: number;
+          expected_card?: number;
+          expected_other?: number;
+          payments_count?: number;
+          counted_cash?: number;
+          counted_upi?: number;
+          counted_card?: number;
+          variance?: number;
+          variance_reason?: string | null;
+          notes?: string | null;
+          closed_by?: string | null;
+          closed_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "day_closings_branch_id_fkey";
+            columns: ["branch_id"];
+            isOneToOne: false;
+            referencedRelation: "branches";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "day_closings_closed_by_fkey";
+            columns: ["closed_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      deposit_transactions: {
+        Row: {
+          id: string;
+          order_id: string;
+          branch_id: string;
+          type: "collected" | "deducted" | "refunded";
+          amount: number;
+          reason: string | null;
+          created_by: string | null;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          order_id: string;
+          branch_id: string;
+          type: "collected" | "deducted" | "refunded";
+          amount: number;
+          reason?: string | null;
+          created_by?: string | null;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          order_id?: string;
+          branch_id?: string;
+          type?: "collected" | "deducted" | "refunded";
+          amount?: number;
+          reason?: string | null;
+          created_by?: string | null;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "deposit_transactions_branch_id_fkey";
+            columns: ["branch_id"];
+            isOneToOne: false;
+            referencedRelation: "branches";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "deposit_transactions_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "deposit_transactions_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      expenses: {
+        Row: {
+          id: string;
+          branch_id: string;
+          category: "dry_cleaning" | "repair" | "alteration" | "other";
+          amount: number;
+          expense_date: string;
+          description: string | null;
+          vendor: string | null;
+          order_id: string | null;
+          order_item_id: string | null;
+          product_id: string | null;
+          receipt_url: string | null;
+          created_by: string | null;
           created_at: string;
         };
-        Insert: Omit<Database["public"]["Tables"]["orders"]["Row"], "id" | "created_at">;
-        Update: Partial<Database["public"]["Tables"]["orders"]["Insert"]>;
+        Insert: {
+          id?: string;
+          branch_id: string;
+          category: "dry_cleaning" | "repair" | "alteration" | "other";
+          amount: number;
+          expense_date?: string;
+          description?: string | null;
+          vendor?: string | null;
+          order_id?: string | null;
+          order_item_id?: string | null;
+          product_id?: string | null;
+          receipt_url?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          branch_id?: string;
+          category?: "dry_cleaning" | "repair" | "alteration" | "other";
+          amount?: number;
+          expense_date?: string;
+          description?: string | null;
+          vendor?: string | null;
+          order_id?: string | null;
+          order_item_id?: string | null;
+          product_id?: string | null;
+          receipt_url?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "expenses_branch_id_fkey";
+            columns: ["branch_id"];
+            isOneToOne: false;
+            referencedRelation: "branches";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "expenses_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "expenses_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "expenses_order_item_id_fkey";
+            columns: ["order_item_id"];
+            isOneToOne: false;
+            referencedRelation: "order_items";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "expenses_product_id_fkey";
+            columns: ["product_id"];
+            isOneToOne: false;
+            referencedRelation: "products";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      invoice_sequences: {
+        Row: {
+          branch_id: string;
+          financial_year: string;
+          last_number: number;
+          updated_at: string;
+        };
+        Insert: {
+          branch_id: string;
+          financial_year: string;
+          last_number?: number;
+          updated_at?: string;
+        };
+        Update: {
+          branch_id?: string;
+          financial_year?: string;
+          last_number?: number;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "invoice_sequences_branch_id_fkey";
+            columns: ["branch_id"];
+            isOneToOne: false;
+            referencedRelation: "branches";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      item_maintenance: {
+        Row: {
+          id: string;
+          branch_id: string;
+          order_id: string;
+          order_item_id: string;
+          product_id: string | null;
+          product_name: string | null;
+          quantity: number;
+          status: "returned" | "cleaning" | "repair" | "ready";
+          notes: string | null;
+          returned_at: string;
+          status_changed_at: string;
+          status_changed_by: string | null;
+        };
+        Insert: {
+          id?: string;
+          branch_id: string;
+          order_id: string;
+          order_item_id: string;
+          product_id?: string | null;
+          product_name?: string | null;
+          quantity: number;
+          status?: "returned" | "cleaning" | "repair" | "ready";
+          notes?: string | null;
+          returned_at?: string;
+          status_changed_at?: string;
+          status_changed_by?: string | null;
+        };
+        Update: {
+          id?: string;
+          branch_id?: string;
+          order_id?: string;
+          order_item_id?: string;
+          product_id?: string | null;
+          product_name?: string | null;
+          quantity?: number;
+          status?: "returned" | "cleaning" | "repair" | "ready";
+          notes?: string | null;
+          returned_at?: string;
+          status_changed_at?: string;
+          status_changed_by?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "item_maintenance_branch_id_fkey";
+            columns: ["branch_id"];
+            isOneToOne: false;
+            referencedRelation: "branches";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "item_maintenance_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "item_maintenance_order_item_id_fkey";
+            columns: ["order_item_id"];
+            isOneToOne: false;
+            referencedRelation: "order_items";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "item_maintenance_product_id_fkey";
+            columns: ["product_id"];
+            isOneToOne: false;
+            referencedRelation: "products";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "item_maintenance_status_changed_by_fkey";
+            columns: ["status_changed_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
       };
       order_items: {
         Row: {
           id: string;
           order_id: string;
+          product_id: string | null;
           photo_url: string;
           product_name: string | null;
           quantity: number;
           price_per_day: number;
           days: number;
           line_total: number;
-          created_at: string;
+          hsn_sac: string | null;
+          return_status: "not_yet_returned" | "returned" | "missing" | null;
+          actual_return_date: string | null;
+          late_return: boolean | null;
+          missing_note: string | null;
+          returned_quantity: number | null;
+          damage_fee: number | null;
+          damage_description: string | null;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          order_id: string;
+          product_id?: string | null;
+          photo_url: string;
+          product_name?: string | null;
+          quantity?: number;
+          price_per_day: number;
+          days: number;
+          line_total: number;
+          hsn_sac?: string | null;
+          return_status?: "not_yet_returned" | "returned" | "missing" | null;
+          actual_return_date?: string | null;
+          late_return?: boolean | null;
+          missing_note?: string | null;
+          returned_quantity?: number | null;
+          damage_fee?: number | null;
+          damage_description?: string | null;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          order_id?: string;
+          product_id?: string | null;
+          photo_url?: string;
+          product_name?: string | null;
+          quantity?: number;
+          price_per_day?: number;
+          days?: number;
+          line_total?: number;
+          hsn_sac?: string | null;
+          return_status?: "not_yet_returned" | "returned" | "missing" | null;
+          actual_return_date?: string | null;
+          late_return?: boolean | null;
+          missing_note?: string | null;
+          returned_quantity?: number | null;
+          damage_fee?: number | null;
+          damage_description?: string | null;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "order_items_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "order_items_product_id_fkey";
+            columns: ["product_id"];
+            isOneToOne: false;
+            referencedRelation: "products";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      order_reminders: {
+        Row: {
+          id: string;
+          order_id: string;
+          branch_id: string;
+          reminder_type: "pickup_tomorrow" | "return_due_today" | "overdue";
+          reminder_date: string;
+          channel: "whatsapp" | "sms";
+          recipient: string;
+          message: string;
+          provider: string;
+          provider_message_id: string | null;
+          status: "sent" | "failed";
+          error: string | null;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          order_id: string;
+          branch_id: string;
+          reminder_type: "pickup_tomorrow" | "return_due_today" | "overdue";
+          reminder_date: string;
+          channel: "whatsapp" | "sms";
+          recipient: string;
+          message: string;
+          provider: string;
+          provider_message_id?: string | null;
+          status?: "sent" | "failed";
+          error?: string | null;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          order_id?: string;
+          branch_id?: string;
+          reminder_type?: "pickup_tomorrow" | "return_due_today" | "overdue";
+          reminder_date?: string;
+          channel?: "whatsapp" | "sms";
+          recipient?: string;
+          message?: string;
+          provider?: string;
+          provider_message_id?: string | null;
+          status?: "sent" | "failed";
+          error?: string | null;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "order_reminders_branch_id_fkey";
+            columns: ["branch_id"];
+            isOneToOne: false;
+            referencedRelation: "branches";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "order_reminders_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      order_return_audit: {
+        Row: {
+          id: string;
+          order_id: string;
+          order_item_id: string | null;
+          action: string;
+          previous_status: string | null;
+          new_status: string | null;
+          user_id: string | null;
+          notes: string | null;
+          waived_amount: number | null;
+          requested_by: string | null;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          order_id: string;
+          order_item_id?: string | null;
+          action: string;
+          previous_status?: string | null;
+          new_status?: string | null;
+          user_id?: string | null;
+          notes?: string | null;
+          waived_amount?: number | null;
+          requested_by?: string | null;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          order_id?: string;
+          order_item_id?: string | null;
+          action?: string;
+          previous_status?: string | null;
+          new_status?: string | null;
+          user_id?: string | null;
+          notes?: string | null;
+          waived_amount?: number | null;
+          requested_by?: string | null;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "order_return_audit_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "order_return_audit_order_item_id_fkey";
+            columns: ["order_item_id"];
+            isOneToOne: false;
+            referencedRelation: "order_items";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "order_return_audit_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "order_return_audit_requested_by_fkey";
+            columns: ["requested_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      orders: {
+        Row: {
+          id: string;
+          branch_id: string;
+          staff_id: string;
+          customer_id: string;
+          invoice_number: string;
+          booking_date: string;
+          start_date: string;
+          end_date: string;
+          start_datetime: string;
+          end_datetime: string;
+          status: "scheduled" | "active" | "pending_return" | "completed" | "cancelled" | "partially_returned" | "flagged";
+          total_amount: number;
+          subtotal: number | null;
+          gst_amount: number | null;
+          place_of_supply: string | null;
+          customer_gstin: string | null;
+          gst_rate: number | null;
+          gst_included: boolean | null;
+          late_fee: number | null;
+          late_returned: boolean | null;
+          damage_fee_total: number | null;
+          approved_bill_amount: number | null;
+          completion_notes: string | null;
+          completed_at: string | null;
+          deposit_amount: number;
+          blacklist_override_by: string | null;
+          blacklist_override_reason: string | null;
+          created_at: string | null;
         };
-        Insert: Omit<Database["public"]["Tables"]["order_items"]["Row"], "id" | "created_at">;
-        Update: Partial<Database["public"]["Tables"]["order_items"]["Insert"]>;
+        Insert: {
+          id?: string;
+          branch_id: string;
+          staff_id: string;
+          customer_id: string;
+          invoice_number?: string;
+          booking_date?: string;
+          start_date: string;
+          end_date: string;
+          start_datetime: string;
+          end_datetime: string;
+          status?: "scheduled" | "active" | "pending_return" | "completed" | "cancelled" | "partially_returned" | "flagged";
+          total_amount: number;
+          subtotal?: number | null;
+          gst_amount?: number | null;
+          place_of_supply?: string | null;
+          customer_gstin?: string | null;
+          gst_rate?: number | null;
+          gst_included?: boolean | null;
+          late_fee?: number | null;
+          late_returned?: boolean | null;
+          damage_fee_total?: number | null;
+          approved_bill_amount?: number | null;
+          completion_notes?: string | null;
+          completed_at?: string | null;
+          deposit_amount?: number;
+          blacklist_override_by?: string | null;
+          blacklist_override_reason?: string | null;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          branch_id?: string;
+          staff_id?: string;
+          customer_id?: string;
+          invoice_number?: string;
+          booking_date?: string;
+          start_date?: string;
+          end_date?: string;
+          start_datetime?: string;
+          end_datetime?: string;
+          status?: "scheduled" | "active" | "pending_return" | "completed" | "cancelled" | "partially_returned" | "flagged";
+          total_amount?: number;
+          subtotal?: number | null;
+          gst_amount?: number | null;
+          place_of_supply?: string | null;
+          customer_gstin?: string | null;
+          gst_rate?: number | null;
+          gst_included?: boolean | null;
+          late_fee?: number | null;
+          late_returned?: boolean | null;
+          damage_fee_total?: number | null;
+          approved_bill_amount?: number | null;
+          completion_notes?: string | null;
+          completed_at?: string | null;
+          deposit_amount?: number;
+          blacklist_override_by?: string | null;
+          blacklist_override_reason?: string | null;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "orders_blacklist_override_by_fkey";
+            columns: ["blacklist_override_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "orders_branch_id_fkey";
+            columns: ["branch_id"];
+            isOneToOne: false;
+            referencedRelation: "branches";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "orders_customer_id_fkey";
+            columns: ["customer_id"];
+            isOneToOne: false;
+            referencedRelation: "customers";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "orders_staff_id_fkey";
+            columns: ["staff_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      payments: {
+        Row: {
+          id: string;
+          order_id: string;
+          customer_id: string;
+          branch_id: string;
+          amount: number;
+          payment_type: "advance" | "balance" | "settlement" | "refund";
+          payment_mode: "cash" | "upi" | "card" | "other";
+          reference: string | null;
+          notes: string | null;
+          received_by: string | null;
+          paid_at: string;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          order_id: string;
+          customer_id: string;
+          branch_id: string;
+          amount: number;
+          payment_type: "advance" | "balance" | "settlement" | "refund";
+          payment_mode: "cash" | "upi" | "card" | "other";
+          reference?: string | null;
+          notes?: string | null;
+          received_by?: string | null;
+          paid_at?: string;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          order_id?: string;
+          customer_id?: string;
+          branch_id?: string;
+          amount?: number;
+          payment_type?: "advance" | "balance" | "settlement" | "refund";
+          payment_mode?: "cash" | "upi" | "card" | "other";
+          reference?: string | null;
+          notes?: string | null;
+          received_by?: string | null;
+          paid_at?: string;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "payments_branch_id_fkey";
+            columns: ["branch_id"];
+            isOneToOne: false;
+            referencedRelation: "branches";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "payments_customer_id_fkey";
+            columns: ["customer_id"];
+            isOneToOne: false;
+            referencedRelation: "customers";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "payments_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "payments_received_by_fkey";
+            columns: ["received_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      products: {
+        Row: {
+          id: string;
+          branch_id: string;
+          sku: string;
+          name: string;
+          category: string | null;
+          default_daily_rate: number;
+          stock_quantity: number;
+          photo_url: string;
+          hsn_sac: string | null;
+          is_active: boolean | null;
+          created_at: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          branch_id: string;
+          sku: string;
+          name: string;
+          category?: string | null;
+          default_daily_rate?: number;
+          stock_quantity?: number;
+          photo_url: string;
+          hsn_sac?: string | null;
+          is_active?: boolean | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          branch_id?: string;
+          sku?: string;
+          name?: string;
+          category?: string | null;
+          default_daily_rate?: number;
+          stock_quantity?: number;
+          photo_url?: string;
+          hsn_sac?: string | null;
+          is_active?: boolean | null;
+          created_at?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "products_branch_id_fkey";
+            columns: ["branch_id"];
+            isOneToOne: false;
+            referencedRelation: "branches";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      profiles: {
+        Row: {
+          id: string;
+          username: string;
+          role: "super_admin" | "branch_admin" | "staff";
+          branch_id: string | null;
+          app_role_id: string | null;
+          full_name: string;
+          phone: string;
+          is_active: boolean | null;
+          gst_number: string | null;
+          gst_enabled: boolean | null;
+          gst_rate: number | null;
+          gst_included: boolean | null;
+          upi_id: string | null;
+          company_name: string | null;
+          company_address: string | null;
+          company_logo_url: string | null;
+          created_at: string | null;
+        };
+        Insert: {
+          id: string;
+          username: string;
+          role: "super_admin" | "branch_admin" | "staff";
+          branch_id?: string | null;
+          app_role_id?: string | null;
+          full_name: string;
+          phone: string;
+          is_active?: boolean | null;
+          gst_number?: string | null;
+          gst_enabled?: boolean | null;
+          gst_rate?: number | null;
+          gst_included?: boolean | null;
+          upi_id?: string | null;
+          company_name?: string | null;
+          company_address?: string | null;
+          company_logo_url?: string | null;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          username?: string;
+          role?: "super_admin" | "branch_admin" | "staff";
+          branch_id?: string | null;
+          app_role_id?: string | null;
+          full_name?: string;
+          phone?: string;
+          is_active?: boolean | null;
+          gst_number?: string | null;
+          gst_enabled?: boolean | null;
+          gst_rate?: number | null;
+          gst_included?: boolean | null;
+          upi_id?: string | null;
+          company_name?: string | null;
+          company_address?: string | null;
+          company_logo_url?: string | null;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "profiles_app_role_id_fkey";
+            columns: ["app_role_id"];
+            isOneToOne: false;
+            referencedRelation: "app_roles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "profiles_branch_id_fkey";
+            columns: ["branch_id"];
+            isOneToOne: false;
+            referencedRelation: "branches";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+    };
+    Views: {
+      customer_risk_profiles: {
+        Row: {
+          customer_id: string | null;
+          is_blacklisted: boolean | null;
+          total_orders: number | null;
+          late_returns: number | null;
+          damage_fees: number | null;
+          missing_items: number | null;
+          unpaid_dues: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "customer_risk_profiles_customer_id_fkey";
+            columns: ["customer_id"];
+            isOneToOne: false;
+            referencedRelation: "customers";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      order_balances: {
+        Row: {
+          order_id: string | null;
+          customer_id: string | null;
+          branch_id: string | null;
+          status: "scheduled" | "active" | "pending_return" | "completed" | "cancelled" | "partially_returned" | "flagged" | null;
+          total_amount: number | null;
+          amount_paid: number | null;
+          balance_due: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "order_balances_branch_id_fkey";
+            columns: ["branch_id"];
+            isOneToOne: false;
+            referencedRelation: "branches";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "order_balances_customer_id_fkey";
+            columns: ["customer_id"];
+            isOneToOne: false;
+            referencedRelation: "customers";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "order_balances_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+        ];
       };
     };
+    Functions: {
+      approval_required: {
+        Args: {
+        p_order_id: string;
+        p_type: string;
+        p_amount: number;
+      };
+        Returns: boolean;
+      };
+      auto_cancel_expired_scheduled_orders: {
+        Args: Record<PropertyKey, never>;
+        Returns: number;
+      };
+      current_permissions: {
+        Args: Record<PropertyKey, never>;
+        Returns: string[];
+      };
+      decide_approval_request: {
+        Args: {
+        p_request_id: string;
+        p_decision: string;
+        p_reason?: string | null;
+      };
+        Returns: Database["public"]["Tables"]["approval_requests"]["Row"];
+      };
+      get_dashboard_stats: {
+        Args: {
+        p_branch_id?: string;
+        p_start_date?: string;
+        p_end_date?: string;
+      };
+        Returns: Json;
+      };
+      get_day_collections: {
+        Args: {
+        p_branch_id: string;
+        p_business_date: string;
+      };
+        Returns: {
+          cash: number;
+          upi: number;
+          card: number;
+          other: number;
+          payments_count: number;
+        }[];
+      };
+      get_orders_for_image_deletion: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          order_id: string;
+          completed_at: string;
+          item_id: string;
+          photo_url: string;
+          storage_path: string;
+        }[];
+      };
+      get_orders_with_items: {
+        Args: {
+        p_branch_id?: string;
+        p_status?: string;
+        p_start_date?: string;
+        p_end_date?: string;
+        p_limit?: number;
+        p_offset?: number;
+      };
+        Returns: Json;
+      };
+      get_product_availability: {
+        Args: {
+        p_branch_id: string;
+        p_start: string;
+        p_end: string;
+        p_product_ids?: string[];
+        p_exclude_order_id?: string | null;
+      };
+        Returns: {
+          product_id: string;
+          stock_quantity: number;
+          reserved_quantity: number;
+          in_maintenance_quantity: number;
+          available_quantity: number;
+        }[];
+      };
+      has_permission: {
+        Args: {
+        p_permission: string;
+      };
+        Returns: boolean;
+      };
+      issue_refund_credit_note: {
+        Args: {
+        p_order_id: string;
+        p_amount: number;
+        p_reason: string;
+        p_gst_included?: boolean;
+        p_refund_mode?: string | null;
+      };
+        Returns: Database["public"]["Tables"]["credit_notes"]["Row"];
+      };
+      merge_customers: {
+        Args: {
+        p_survivor_id: string;
+        p_duplicate_id: string;
+      };
+        Returns: Database["public"]["Tables"]["customers"]["Row"];
+      };
+      move_item_maintenance: {
+        Args: {
+        p_maintenance_id: string;
+        p_status: string;
+        p_quantity?: number | null;
+        p_notes?: string | null;
+      };
+        Returns: Database["public"]["Tables"]["item_maintenance"]["Row"];
+      };
+      peek_next_invoice_number: {
+        Args: {
+        p_branch_id: string;
+      };
+        Returns: string;
+      };
+      process_order_return_optimized: {
+        Args: {
+        p_order_id: string;
+        p_item_returns: Json;
+        p_user_id: string;
+        p_late_fee?: number;
+      };
+        Returns: Json;
+      };
+      process_order_return_with_damage: {
+        Args: {
+        p_order_id: string;
+        p_item_returns: Json;
+        p_user_id: string;
+        p_late_fee?: number;
+        p_damage_assessments?: Json;
+        p_late_fee_override_note?: string | null;
+        p_late_fee_waived?: number | null;
+      };
+        Returns: Json;
+      };
+      save_damage_assessment: {
+        Args: {
+        p_order_item_id: string;
+        p_after_photo_url: string | null;
+        p_lines: Json;
+      };
+        Returns: number;
+      };
+      sync_numbering_after_restore: {
+        Args: Record<PropertyKey, never>;
+        Returns: undefined;
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
   };
-}
-
+};
@@ -2,6 +2,16 @@
 
 export type UserRole = "super_admin" | "branch_admin" | "staff";
 
+// Capabilities a role can be given (see lib/utils/permissions.ts)
+export type Permission =
+  | "create_order"
+  | "edit_billing"
+  | "process_return"
+  | "override_late_fee"
+  | "cancel_order"
+  | "view_reports"
+  | "manage_staff";
+
 export type OrderStatus = "scheduled" | "active" | "pending_return" | "completed" | "cancelled" | "partially_returned" | "flagged";
 
 export type OrderItemReturnStatus = "not_yet_returned" | "returned" | "missing";
@@ -22,9 +32,22 @@ export interface User {
   company_name?: string; // Company name for invoices (super_admin only)
   company_address?: string; // Company address/location for invoices (super_admin only)
   company_logo_url?: string; // Company logo URL for invoices (super_admin only)
+  app_role_id?: string | null; // Custom role - replaces the built-in role's permissions
+  permissions?: Permission[]; // Effective capabilities, loaded with the profile
   branch?: Branch;
 }
 
+export interface AppRole {
+  id: string;
+  key: string; // super_admin | branch_admin | staff for built-in roles
+  name: string;
+  description?: string | null;
+  is_system: boolean;
+  permissions: Permission[];
+  created_at?: string;
+  updated_at?: string;
+}
+
 export interface Branch {
   id: string;
   name: string;
@@ -32,6 +55,36 @@ export interface Branch {
   phone?: string;
   logo_url?: string;
   is_active?: boolean; // Whether the branch is active
+  invoice_prefix?: string; // e.g. GLA in GLA/25-26/0001
+  gstin?: string | null; // Branch GST registration (falls back to the profile gst_number)
+  state_code?: string | null; // GST state code, e.g. "32"
+  // Late fee policy (see LateFeePolicy)
+  late_fee_enabled?: boolean;
+  late_fee_grace_minutes?: number;
+  late_fee_unit?: LateFeeUnit;
+  late_fee_rate_type?: LateFeeRateType;
+  late_fee_rate?: number;
+  late_fee_cap?: number | null;
+  // Staff changes above these need a branch admin's approval (null = never)
+  approval_discount_threshold?: number | null;
+  approval_late_fee_waiver_threshold?: number | null;
+  approval_cancel_threshold?: number | null;
+  // Staff commission for the payout statement (null type = no commission)
+  commission_type?: CommissionType | null;
+  commission_rate?: number; // % of rent, or ₹ per order
+}
+
+export type CommissionType = "percent_of_rent" | "per_order";
+
+export type LateFeeUnit = "hour" | "day";
+export type LateFeeRateType = "fixed" | "percent_of_daily_rent";
+
+export interface LateFeePolicy {
+  grace_minutes: number; // Returns within this window after the due time are free
+  unit: LateFeeUnit; // Each started hour/day late is charged
+  rate_type: LateFeeRateType;
+  rate: number; // ₹ per piece per unit, or % of the item's daily rent per unit
+  cap: number | null; // Max late fee per order
 }
 
 export interface Customer {
@@ -45,15 +98,50 @@ export interface Customer {
   id_proof_number?: string;
   id_proof_front_url?: string;
   id_proof_back_url?: string;
+  gstin?: string | null; // For B2B tax invoices
+  state_code?: string | null; // GST state code, used as place of supply
   is_active?: boolean; // Whether the customer account is active
+  is_blacklisted?: boolean; // New orders need an admin override
+  blacklist_reason?: string | null;
+  blacklisted_at?: string | null;
+  blacklisted_by?: string | null;
+  previous_customer_numbers?: string[]; // customer_number of customers merged into this one
   created_at?: string;
 }
 
+// From the customer_risk_profiles view
+export interface CustomerRiskProfile {
+  customer_id: string;
+  is_blacklisted: boolean;
+  total_orders: number;
+  late_returns: number;
+  damage_fees: number;
+  missing_items: number; // Pieces never returned on closed orders
+  unpaid_dues: number; // Balance still owed on closed orders
+}
+
+export interface Product {
+  id: string;
+  branch_id: string;
+  sku: string; // Unique within a branch
+  name: string;
+  category?: string;
+  hsn_sac?: string | null; // Printed on tax invoices
+  default_daily_rate: number; // Suggested price per day when added to an order
+  stock_quantity: number; // Total units owned by the branch
+  photo_url: string;
+  is_active?: boolean; // Inactive products are hidden from the order picker
+  created_at?: string;
+  updated_at?: string;
+}
+
 export interface OrderItem {
   id?: string;
   order_id?: string;
+  product_id?: string | null; // Catalog product (null for legacy free-text items)
   photo_url: string;
   product_name?: string;
+  hsn_sac?: string | null; // Copied from the product when the order is created
   quantity: number;
   price_per_day: number;
   days: number;
@@ -83,10 +171,17 @@ export interface Order {
   total_amount: number;
   subtotal?: number; // Subtotal before GST
   gst_amount?: number; // GST amount (5% of subtotal)
+  place_of_supply?: string | null; // GST state code, captured at creation
+  customer_gstin?: string | null; // Customer GSTIN at creation
+  gst_rate?: number | null; // GST rate at creation, 0 = GST off (null on older orders)
+  gst_included?: boolean | null; // Prices included GST at creation (null on older orders)
   late_fee?: number; // Late fee amount
   late_returned?: boolean; // True if order has any items returned late
   damage_fee_total?: number; // Total damage fees across all items
   completion_notes?: string; // Notes about completion issues (missing, damaged, partial returns)
+  deposit_amount?: number; // Refundable security deposit (not part of total_amount)
+  blacklist_override_by?: string | null; // Admin who allowed an order for a blacklisted customer
+  blacklist_override_reason?: string | null;
   created_at: string;
   customer?: Customer;
   staff?: User;
@@ -94,6 +189,197 @@ export interface Order {
   items?: OrderItem[];
 }
 
+export type DepositTransactionType = "collected" | "deducted" | "refunded";
+
+// Security deposit ledger entry (append-only)
+export interface DepositTransaction {
+  id: string;
+  order_id: string;
+  branch_id: string;
+  type: DepositTransactionType;
+  amount: number;
+  reason?: string | null; // e.g. damage description, "Late fee"
+  created_by?: string | null;
+  created_at: string;
+}
+
+export type PaymentType = "advance" | "balance" | "settlement" | "refund";
+
+export type PaymentMode = "cash" | "upi" | "card" | "other";
+
+// Payment received against an order, or a refund paid back
+export interface Payment {
+  id: string;
+  order_id: string;
+  customer_id: string;
+  branch_id: string;
+  amount: number;
+  payment_type: PaymentType; // advance = at booking, balance = at pickup, settlement = at return, refund = paid back
+  payment_mode: PaymentMode;
+  reference?: string | null; // UPI transaction id, card slip number, etc.
+  notes?: string | null;
+  received_by?: string | null;
+  paid_at: string;
+  created_at?: string;
+}
+
+// Payments received on a business day, by mode
+export interface DayCollections {
+  cash: number;
+  upi: number;
+  card: number;
+  other: number; // Recorded, but not counted at close
+  payments_count: number;
+}
+
+// Locked end-of-day reconciliation for a branch (see add-day-closings.sql)
+export interface DayClosing {
+  id: string;
+  branch_id: string;
+  business_date: string; // yyyy-MM-dd, IST
+  opening_float: number;
+  expected_cash: number;
+  expected_upi: number;
+  expected_card: number;
+  expected_other: number;
+  payments_count: number;
+  counted_cash: number;
+  counted_upi: number;
+  counted_card: number;
+  variance: number; // Counted minus expected (cash net of the float); positive = excess
+  variance_reason?: string | null;
+  notes?: string | null;
+  closed_by?: string | null;
+  closed_at: string;
+  branch?: { name: string } | null;
+  closer?: { full_name?: string | null; username?: string | null } | null;
+}
+
+export type ExpenseCategory = "dry_cleaning" | "repair" | "alteration" | "other";
+
+// Cost recorded against a branch, optionally for an order item or product
+export interface Expense {
+  id: string;
+  branch_id: string;
+  category: ExpenseCategory;
+  amount: number;
+  expense_date: string; // yyyy-MM-dd
+  description?: string | null;
+  vendor?: string | null; // Dry cleaner, tailor, etc.
+  order_id?: string | null; // Filled in from order_item_id
+  order_item_id?: string | null;
+  product_id?: string | null;
+  receipt_url?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  product?: { id: string; name: string; sku: string } | null;
+  order?: { id: string; invoice_number: string } | null;
+  order_item?: { id: string; product_name?: string | null } | null;
+  creator?: { full_name?: string | null; username?: string | null } | null;
+}
+
+export type MaintenanceStatus = "returned" | "cleaning" | "repair" | "ready";
+
+// Returned units of an order item on their way back to rentable
+export interface ItemMaintenance {
+  id: string;
+  branch_id: string;
+  order_id: string;
+  order_item_id: string;
+  product_id?: string | null;
+  product_name?: string | null;
+  quantity: number;
+  status: MaintenanceStatus;
+  notes?: string | null;
+  returned_at: string;
+  status_changed_at: string;
+  status_changed_by?: string | null;
+  order?: { id: string; invoice_number: string } | null;
+  order_item?: { id: string; photo_url?: string | null } | null;
+  changer?: { full_name?: string | null; username?: string | null } | null;
+}
+
+// Catalogue entry for assessing returned items
+export interface DamageType {
+  id: string;
+  name: string; // Stain, Tear, Missing accessory, ...
+  default_charge: number;
+  is_active: boolean;
+  sort_order: number;
+  created_at: string;
+}
+
+export interface DamageAssessmentLine {
+  id: string;
+  assessment_id: string;
+  damage_type_id?: string | null;
+  name: string;
+  charge: number;
+  note?: string | null;
+  sort_order: number;
+}
+
+// Damage found on an order item at return; total_charge becomes its damage_fee
+export interface DamageAssessment {
+  id: string;
+  order_id: string;
+  order_item_id: string;
+  branch_id: string;
+  after_photo_url?: string | null;
+  total_charge: number;
+  assessed_by?: string | null;
+  assessed_at: string;
+  lines?: DamageAssessmentLine[];
+  assessor?: { full_name?: string | null; username?: string | null } | null;
+}
+
+export type CreditNoteType = "cancellation" | "billing_adjustment" | "refund";
+
+// Credit note against an issued invoice
+export interface CreditNote {
+  id: string;
+  credit_note_number: string; // <PREFIX>/CN<YY>/<NNNN>, e.g. GLA/CN25/0001
+  order_id: string;
+  branch_id: string;
+  customer_id: string;
+  invoice_number: string; // Invoice being credited
+  note_type: CreditNoteType;
+  reason?: string | null;
+  taxable_value: number;
+  gst_amount: number;
+  total_amount: number;
+  issued_by?: string | null;
+  issued_at: string;
+  created_at?: string;
+}
+
+export type ApprovalRequestType = "discount" | "late_fee_waiver" | "cancellation";
+
+export type ApprovalRequestStatus = "pending" | "approved" | "rejected";
+
+// Staff change above a branch threshold, waiting for a branch admin
+export interface ApprovalRequest {
+  id: string;
+  branch_id: string;
+  order_id: string;
+  type: ApprovalRequestType;
+  status: ApprovalRequestStatus;
+  amount: number; // Reduction, waived fee or cancelled total
+  summary: string;
+  request_reason?: string | null;
+  payload: Record<string, unknown>; // The change to apply when approved
+  requested_by?: string | null;
+  requested_at: string;
+  decided_by?: string | null;
+  decided_at?: string | null;
+  decision_reason?: string | null;
+  order?: Pick<Order, "id" | "invoice_number" | "status" | "total_amount"> & {
+    customer?: Pick<Customer, "id" | "name"> | null;
+  };
+  requester?: { full_name?: string | null; username?: string | null } | null;
+  decider?: { full_name?: string | null; username?: string | null } | null;
+}
+
 // Audit log for return operations
 export interface OrderReturnAudit {
   id: string;
@@ -109,6 +395,7 @@ export interface OrderReturnAudit {
 
 export interface OrderDraft {
   customer_id: string | null;
+  customer?: Customer | null; // Kept so a restored draft works without a lookup
   customer_name?: string;
   customer_phone?: string;
   start_date: string;
@@ -116,6 +403,9 @@ export interface OrderDraft {
   invoice_number: string;
   items: OrderItem[];
   grand_total: number;
+  deposit_amount: number;
+  advance_amount: number; // Paid at booking, recorded in the payments ledger
+  advance_mode: PaymentMode;
 }
 
 export interface DashboardStats {
@@ -0,0 +1,23 @@
+import Papa from "papaparse";
+
+/**
+ * Convert rows to CSV and trigger a browser download
+ * @param filename - Download file name (".csv" is appended if missing)
+ * @param rows - Array of flat objects; keys of the first row become the header
+ */
+export function downloadCsv(filename: string, rows: Record<string, unknown>[]): void {
+  if (typeof window === "undefined") return;
+
+  // Prefix with BOM so Excel opens UTF-8 (₹, Indian names) correctly
+  const csv = "\uFEFF" + Papa.unparse(rows);
+  const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename.endsWith(".csv") ? filename : `${filename}.csv`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
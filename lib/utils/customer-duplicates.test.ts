@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeDuplicateReasons,
+  findDuplicateMatches,
+  isStrongDuplicate,
+  nameSimilarity,
+  normalizeIdProofNumber,
+  normalizePhone,
+} from "./customer-duplicates";
+import type { Customer } from "@/lib/types";
+
+const rahul: Customer = { id: "c-rahul", name: "Rahul Krishnan", phone: "+91 98765 43210", id_proof_number: "1234 5678 9012" };
+const priya: Customer = { id: "c-priya", name: "Priya Menon", phone: "9400011122", id_proof_number: "K1234567" };
+const rahulK: Customer = { id: "c-rahul-k", name: "K. Rahul", phone: "9000000000" };
+
+describe("normalizePhone", () => {
+  it.each([
+    ["+91 98765-43210", "9876543210"],
+    ["098765 43210", "9876543210"],
+    ["(987) 654-3210", "9876543210"],
+    ["98765", "98765"],
+    [null, ""],
+  ])("reads %s as %s", (phone, digits) => {
+    expect(normalizePhone(phone)).toBe(digits);
+  });
+});
+
+describe("normalizeIdProofNumber", () => {
+  it("drops spaces, dashes and case", () => {
+    expect(normalizeIdProofNumber("1234-5678 9012")).toBe("123456789012");
+    expect(normalizeIdProofNumber(" k-123.4567 ")).toBe("K1234567");
+    expect(normalizeIdProofNumber(undefined)).toBe("");
+  });
+});
+
+describe("nameSimilarity", () => {
+  it("ignores word order, case and punctuation", () => {
+    expect(nameSimilarity("Rahul K.", "k rahul")).toBe(1);
+  });
+
+  it("tolerates a typo but not a different name", () => {
+    expect(nameSimilarity("Priya Menon", "Priya Memon")).toBeGreaterThanOrEqual(0.8);
+    expect(nameSimilarity("Priya Menon", "Rahul Krishnan")).toBeLessThan(0.5);
+  });
+
+  it("is 0 when either side has no letters", () => {
+    expect(nameSimilarity("", "Rahul")).toBe(0);
+    expect(nameSimilarity("123", "123")).toBe(0);
+  });
+});
+
+describe("findDuplicateMatches", () => {
+  const candidates = [priya, rahulK, rahul];
+
+  it("matches the same phone written differently", () => {
+    const [match] = findDuplicateMatches({ name: "Someone Else", phone: "09876543210" }, candidates);
+
+    expect(match.customer.id).toBe("c-rahul");
+    expect(match.reasons).toEqual(["phone"]);
+  });
+
+  it("doesn't match on a partial phone number", () => {
+    expect(findDuplicateMatches({ phone: "43210" }, [rahul])).toEqual([]);
+  });
+
+  it("matches an ID proof typed with different spacing", () => {
+    const matches = findDuplicateMatches({ id_proof_number: "k-1234567" }, candidates);
+    expect(matches.map((m) => [m.customer.id, m.reasons])).toEqual([["c-priya", ["id_proof"]]]);
+  });
+
+  it("puts phone and ID proof matches ahead of a closer name", () => {
+    const matches = findDuplicateMatches(
+      { name: "Rahul K", phone: "9876543210", id_proof_number: "123456789012" },
+      candidates
+    );
+
+    expect(matches.map((m) => m.customer.id)).toEqual(["c-rahul", "c-rahul-k"]);
+    expect(matches[0].reasons).toEqual(["phone", "id_proof"]);
+    expect(isStrongDuplicate(matches[0])).toBe(true);
+    expect(isStrongDuplicate(matches[1])).toBe(false);
+    expect(describeDuplicateReasons(matches[1].reasons)).toBe("similar name");
+  });
+
+  it("finds nothing for an empty form", () => {
+    expect(findDuplicateMatches({}, candidates)).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+import type { Customer } from "@/lib/types";
+import { sanitizePhone } from "@/lib/utils/security";
+
+export type DuplicateMatchReason = "phone" | "id_proof" | "name";
+
+export interface CustomerDuplicateMatch {
+  customer: Customer;
+  reasons: DuplicateMatchReason[];
+  nameSimilarity: number; // 0-1
+}
+
+export interface CustomerDuplicateInput {
+  name?: string | null;
+  phone?: string | null;
+  id_proof_number?: string | null;
+}
+
+// Names at least this similar count as the same person
+const NAME_SIMILARITY_THRESHOLD = 0.8;
+
+/**
+ * Last 10 digits of a phone number, so "+91 98765-43210", "098765 43210"
+ * and "9876543210" all compare equal. Matches customers.phone_digits.
+ */
+export function normalizePhone(phone: string | null | undefined): string {
+  const digits = sanitizePhone(phone).replace(/\D/g, "");
+  return digits.slice(-10);
+}
+
+/**
+ * ID proof number without spaces, dashes or case. Matches customers.id_proof_key.
+ */
+export function normalizeIdProofNumber(idProofNumber: string | null | undefined): string {
+  return (idProofNumber || "").replace(/[^a-z0-9]/gi, "").toUpperCase();
+}
+
+function normalizeName(name: string | null | undefined): string {
+  return (name || "")
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(" ");
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How alike two names are, ignoring case, punctuation and word order
+ * ("Rahul K." vs "k rahul" is 1).
+ */
+export function nameSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+
+  const longest = Math.max(left.length, right.length);
+  return 1 - levenshtein(left, right) / longest;
+}
+
+/**
+ * Existing customers that look like the one being entered. Same phone or
+ * ID proof is a strong match; a similar name on its own is only a hint.
+ */
+export function findDuplicateMatches(
+  input: CustomerDuplicateInput,
+  candidates: Customer[]
+): CustomerDuplicateMatch[] {
+  const phone = normalizePhone(input.phone);
+  const idProof = normalizeIdProofNumber(input.id_proof_number);
+
+  const matches: CustomerDuplicateMatch[] = [];
+  candidates.forEach((customer) => {
+    const reasons: DuplicateMatchReason[] = [];
+    if (phone.length === 10 && normalizePhone(customer.phone) === phone) {
+      reasons.push("phone");
+    }
+    if (idProof && normalizeIdProofNumber(customer.id_proof_number) === idProof) {
+      reasons.push("id_proof");
+    }
+    const similarity = nameSimilarity(input.name, customer.name);
+    if (similarity >= NAME_SIMILARITY_THRESHOLD) {
+      reasons.push("name");
+    }
+
+    if (reasons.length > 0) {
+      matches.push({ customer, reasons, nameSimilarity: similarity });
+    }
+  });
+
+  // Strong matches first, then the closest names
+  return matches.sort(
+    (a, b) =>
+      Number(isStrongDuplicate(b)) - Number(isStrongDuplicate(a)) ||
+      b.reasons.length - a.reasons.length ||
+      b.nameSimilarity - a.nameSimilarity
+  );
+}
+
+export function isStrongDuplicate(match: CustomerDuplicateMatch): boolean {
+  return match.reasons.includes("phone") || match.reasons.includes("id_proof");
+}
+
+export function describeDuplicateReasons(reasons: DuplicateMatchReason[]): string {
+  const labels: Record<DuplicateMatchReason, string> = {
+    phone: "same phone",
+    id_proof: "same ID proof",
+    name: "similar name",
+  };
+  return reasons.map((reason) => labels[reason]).join(", ");
+}
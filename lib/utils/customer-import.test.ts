@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { isImportableRow, markDuplicateRows, validateCustomerImportRow } from "./customer-import";
+
+const COLUMNS = ["name", "phone", "address", "id_proof_type", "id_proof_number", "gstin", "state_code"];
+
+// One spreadsheet line, cells in COLUMNS order
+const csv = (line: string) => Object.fromEntries(line.split("|").map((cell, i) => [COLUMNS[i], cell]));
+
+describe("validateCustomerImportRow", () => {
+  it("cleans up a complete row", () => {
+    const row = validateCustomerImportRow(
+      csv("  Anjali   Menon |+91 98765-43210| MG Road, Kochi |Aadhaar|1234 5678 9012|32aabcu9603r1zm|"),
+      2
+    );
+
+    expect(row).toEqual({
+      rowNumber: 2,
+      data: {
+        name: "Anjali Menon",
+        phone: "9876543210",
+        address: "MG Road, Kochi",
+        id_proof_type: "aadhar",
+        id_proof_number: "1234 5678 9012",
+        gstin: "32AABCU9603R1ZM",
+        state_code: "32",
+      },
+      errors: [],
+      duplicates: [],
+    });
+  });
+
+  it("requires a name and phone", () => {
+    expect(validateCustomerImportRow(csv("|"), 3).errors).toEqual(["Name is required", "Phone number is required"]);
+  });
+
+  it.each([
+    ["98765 43210", true],
+    ["09876543210", true],
+    ["919876543210", true],
+    ["987654321", false],
+    ["19876543210", false],
+    ["00919876543210", false],
+  ])("accepts phone %s: %s", (phone, valid) => {
+    const { errors } = validateCustomerImportRow({ name: "Anjali", phone }, 2);
+    expect(errors.includes("Phone number must be exactly 10 digits")).toBe(!valid);
+  });
+
+  it("reads the state from a code or a name, but lets the GSTIN win", () => {
+    expect(validateCustomerImportRow(csv("A|9876543210|||||7"), 2).data.state_code).toBe("07");
+    expect(validateCustomerImportRow(csv("A|9876543210|||||tamil nadu"), 2).data.state_code).toBe("33");
+    expect(validateCustomerImportRow(csv("A|9876543210||||32AABCU9603R1ZM|33"), 2).data.state_code).toBe("32");
+  });
+
+  it("lists every problem on the row", () => {
+    const row = validateCustomerImportRow(
+      { name: "x".repeat(101), phone: "98765", id_proof_type: "driving licence", gstin: "ABC123", state_code: "Atlantis" },
+      9
+    );
+
+    expect(row.errors).toEqual([
+      "Name is longer than 100 characters",
+      "Phone number must be exactly 10 digits",
+      "ID proof type must be Aadhar, Passport, Voter ID or Others",
+      "GSTIN is not valid",
+      "State is not a valid GST state code or name",
+    ]);
+    expect(row.data.phone).toBe("98765");
+  });
+
+  it("rejects markup instead of storing it rewritten", () => {
+    const row = validateCustomerImportRow(csv("<b>Anjali</b>|9876543210|<script>alert(1)</script>"), 2);
+    expect(row.errors).toEqual(["Contains HTML or script - remove < > and similar characters"]);
+  });
+});
+
+describe("markDuplicateRows", () => {
+  const rows = [
+    "Anjali|9876543210|||1234 5678 9012",
+    "Anjali M|+91 98765 43210",
+    "Rahul|9400011122|||123456789012",
+    "Priya|9400000000",
+    "Meera|98765",
+    "Meera 2|98765",
+  ].map((line, index) => validateCustomerImportRow(csv(line), index + 2));
+
+  it("points repeats at the first row with the same phone or ID proof", () => {
+    const marked = markDuplicateRows(rows);
+    expect(marked.map((row) => row.duplicateOfRow)).toEqual([undefined, 2, 2, undefined, undefined, undefined]);
+  });
+
+  it("only imports clean rows that aren't repeats", () => {
+    const marked = markDuplicateRows(rows);
+    expect(marked.filter(isImportableRow).map((row) => row.data.name)).toEqual(["Anjali", "Priya"]);
+    expect(isImportableRow({ ...marked[3], duplicates: [{ customer: { id: "c", name: "Priya", phone: "9400000000" }, reasons: ["phone"], nameSimilarity: 1 }] })).toBe(false);
+  });
+});
@@ -0,0 +1,208 @@
+import Papa from "papaparse";
+import { downloadCsv } from "@/lib/utils/csv";
+import { hasUnsafeMarkup, sanitizePhone } from "@/lib/utils/security";
+import { GST_STATES, getStateCodeFromGstin, isValidGstin, normalizeGstin } from "@/lib/utils/gst";
+import {
+  normalizeIdProofNumber,
+  normalizePhone,
+  type CustomerDuplicateMatch,
+} from "@/lib/utils/customer-duplicates";
+
+type IdProofType = "aadhar" | "passport" | "voter" | "others";
+
+export interface CustomerImportData {
+  name: string;
+  phone: string;
+  address: string | null;
+  id_proof_type: IdProofType | null;
+  id_proof_number: string | null;
+  gstin: string | null;
+  state_code: string | null;
+}
+
+export interface CustomerImportRow {
+  rowNumber: number; // Spreadsheet row - the header is row 1
+  data: CustomerImportData;
+  errors: string[];
+  duplicates: CustomerDuplicateMatch[]; // Existing customers with the same phone or ID proof
+  duplicateOfRow?: number; // Earlier row in the same file with the same phone or ID proof
+}
+
+// Keeps a single import (and its duplicate lookups) to a sensible size
+export const MAX_IMPORT_ROWS = 2000;
+
+// Header spellings seen in exported registers and spreadsheets
+const HEADER_ALIASES: Record<string, keyof CustomerImportData> = {
+  customer_name: "name",
+  full_name: "name",
+  mobile: "phone",
+  mobile_number: "phone",
+  phone_number: "phone",
+  contact: "phone",
+  id_type: "id_proof_type",
+  id_proof: "id_proof_type",
+  id_number: "id_proof_number",
+  id_proof_no: "id_proof_number",
+  gst: "gstin",
+  gst_number: "gstin",
+  state: "state_code",
+};
+
+const ID_PROOF_TYPES: Record<string, IdProofType> = {
+  aadhar: "aadhar",
+  aadhaar: "aadhar",
+  passport: "passport",
+  voter: "voter",
+  voter_id: "voter",
+  voterid: "voter",
+  others: "others",
+  other: "others",
+};
+
+const MAX_LENGTHS = { name: 100, address: 500, id_proof_number: 50 };
+
+function normalizeHeader(header: string): string {
+  const key = header.replace(/^\uFEFF/, "").trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+  return HEADER_ALIASES[key] || key;
+}
+
+/**
+ * Same rules as the customer form: name and a 10-digit phone are required,
+ * the rest is optional but must be valid when given. Text with markup is
+ * rejected (see sanitizeInput) rather than stored rewritten.
+ */
+export function validateCustomerImportRow(raw: Record<string, string | undefined>, rowNumber: number): CustomerImportRow {
+  const errors: string[] = [];
+  const text = (key: string) => (raw[key] || "").trim();
+
+  const name = text("name").replace(/\s+/g, " ");
+  if (!name) errors.push("Name is required");
+  else if (name.length > MAX_LENGTHS.name) errors.push(`Name is longer than ${MAX_LENGTHS.name} characters`);
+
+  // Accept +91 / leading 0 forms, store the 10 digits like the form does
+  const phoneDigits = sanitizePhone(text("phone")).replace(/\D/g, "");
+  const phoneValid =
+    phoneDigits.length === 10 ||
+    (phoneDigits.length === 11 && phoneDigits.startsWith("0")) ||
+    (phoneDigits.length === 12 && phoneDigits.startsWith("91"));
+  if (!text("phone")) errors.push("Phone number is required");
+  else if (!phoneValid) errors.push("Phone number must be exactly 10 digits");
+
+  const address = text("address");
+  if (address.length > MAX_LENGTHS.address) errors.push(`Address is longer than ${MAX_LENGTHS.address} characters`);
+
+  const idProofTypeRaw = text("id_proof_type").toLowerCase().replace(/[^a-z]+/g, "_").replace(/^_|_$/g, "");
+  const idProofType = idProofTypeRaw ? ID_PROOF_TYPES[idProofTypeRaw] : null;
+  if (idProofTypeRaw && !idProofType) {
+    errors.push("ID proof type must be Aadhar, Passport, Voter ID or Others");
+  }
+
+  const idProofNumber = text("id_proof_number");
+  if (idProofNumber.length > MAX_LENGTHS.id_proof_number) {
+    errors.push(`ID proof number is longer than ${MAX_LENGTHS.id_proof_number} characters`);
+  }
+
+  const gstin = text("gstin") ? normalizeGstin(text("gstin")) : "";
+  if (gstin && !isValidGstin(gstin)) errors.push("GSTIN is not valid");
+
+  // State follows the GSTIN when there is one, as in the form
+  let stateCode = getStateCodeFromGstin(gstin) || "";
+  if (!stateCode && text("state_code")) {
+    const value = text("state_code");
+    const code = /^\d{1,2}$/.test(value)
+      ? value.padStart(2, "0")
+      : Object.keys(GST_STATES).find((key) => GST_STATES[key].toLowerCase() === value.toLowerCase());
+    if (code && GST_STATES[code]) stateCode = code;
+    else errors.push("State is not a valid GST state code or name");
+  }
+
+  if ([name, address, idProofNumber].some(hasUnsafeMarkup)) {
+    errors.push("Contains HTML or script - remove < > and similar characters");
+  }
+
+  return {
+    rowNumber,
+    data: {
+      name,
+      phone: phoneValid ? normalizePhone(phoneDigits) : phoneDigits,
+      address: address || null,
+      id_proof_type: idProofType || null,
+      id_proof_number: idProofNumber || null,
+      gstin: gstin || null,
+      state_code: stateCode || null,
+    },
+    errors,
+    duplicates: [],
+  };
+}
+
+/**
+ * Flag rows that repeat an earlier row's phone or ID proof in the same file
+ */
+export function markDuplicateRows(rows: CustomerImportRow[]): CustomerImportRow[] {
+  const seenPhones = new Map<string, number>();
+  const seenIdProofs = new Map<string, number>();
+
+  return rows.map((row) => {
+    const phone = normalizePhone(row.data.phone);
+    const idProof = normalizeIdProofNumber(row.data.id_proof_number);
+    const duplicateOfRow =
+      (phone.length === 10 ? seenPhones.get(phone) : undefined) ?? (idProof ? seenIdProofs.get(idProof) : undefined);
+
+    if (phone.length === 10 && !seenPhones.has(phone)) seenPhones.set(phone, row.rowNumber);
+    if (idProof && !seenIdProofs.has(idProof)) seenIdProofs.set(idProof, row.rowNumber);
+
+    return duplicateOfRow ? { ...row, duplicateOfRow } : row;
+  });
+}
+
+/**
+ * Parse and validate a customer CSV. Rejects with a readable message when the
+ * file itself can't be used (no name/phone columns, too many rows).
+ */
+export function parseCustomerCsv(file: File): Promise<CustomerImportRow[]> {
+  return new Promise((resolve, reject) => {
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      skipEmptyLines: "greedy",
+      transformHeader: normalizeHeader,
+      complete: (result) => {
+        const fields = result.meta.fields || [];
+        if (!fields.includes("name") || !fields.includes("phone")) {
+          reject(new Error("The file needs at least a name and a phone column"));
+          return;
+        }
+        if (result.data.length === 0) {
+          reject(new Error("The file has no customer rows"));
+          return;
+        }
+        if (result.data.length > MAX_IMPORT_ROWS) {
+          reject(new Error(`Import up to ${MAX_IMPORT_ROWS} customers at a time - split the file`));
+          return;
+        }
+
+        const rows = result.data.map((raw, index) => validateCustomerImportRow(raw, index + 2));
+        resolve(markDuplicateRows(rows));
+      },
+      error: (error) => reject(new Error(`Couldn't read the file: ${error.message}`)),
+    });
+  });
+}
+
+export function isImportableRow(row: CustomerImportRow): boolean {
+  return row.errors.length === 0 && row.duplicates.length === 0 && !row.duplicateOfRow;
+}
+
+export function downloadCustomerImportTemplate(): void {
+  downloadCsv("customer-import-template.csv", [
+    {
+      name: "Anjali Menon",
+      phone: "9876543210",
+      address: "MG Road, Kochi",
+      id_proof_type: "aadhar",
+      id_proof_number: "1234 5678 9012",
+      gstin: "",
+      state_code: "32",
+    },
+  ]);
+}
@@ -0,0 +1,49 @@
+import type { CustomerRiskProfile, UserRole } from "@/lib/types";
+import { formatCurrency } from "@/lib/utils/date";
+
+export type CustomerRiskLevel = "blacklisted" | "high" | "caution" | "none";
+
+export interface CustomerRiskAssessment {
+  level: CustomerRiskLevel;
+  reasons: string[]; // Short phrases, e.g. "3 late returns"
+}
+
+// Late returns before a customer counts as high risk on that alone
+const HIGH_RISK_LATE_RETURNS = 3;
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+/**
+ * Risk level from the return history. Missing items and unpaid dues are
+ * high risk straight away; a late return or a damage charge is a caution.
+ */
+export function assessCustomerRisk(
+  profile?: Partial<CustomerRiskProfile> | null,
+  isBlacklisted?: boolean
+): CustomerRiskAssessment {
+  const lateReturns = Number(profile?.late_returns) || 0;
+  const damageFees = Number(profile?.damage_fees) || 0;
+  const missingItems = Number(profile?.missing_items) || 0;
+  const unpaidDues = Number(profile?.unpaid_dues) || 0;
+
+  const reasons: string[] = [];
+  if (lateReturns > 0) reasons.push(plural(lateReturns, "late return"));
+  if (damageFees > 0) reasons.push(`${formatCurrency(damageFees)} damage fees`);
+  if (missingItems > 0) reasons.push(plural(missingItems, "missing item"));
+  if (unpaidDues > 0) reasons.push(`${formatCurrency(unpaidDues)} unpaid`);
+
+  let level: CustomerRiskLevel = "none";
+  if (isBlacklisted ?? profile?.is_blacklisted) {
+    level = "blacklisted";
+  } else if (missingItems > 0 || unpaidDues > 0 || lateReturns >= HIGH_RISK_LATE_RETURNS) {
+    level = "high";
+  } else if (reasons.length > 0) {
+    level = "caution";
+  }
+
+  return { level, reasons };
+}
+
+export function canOverrideBlacklist(role?: UserRole | null): boolean {
+  return role === "super_admin" || role === "branch_admin";
+}
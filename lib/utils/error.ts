@@ -0,0 +1,11 @@
+/**
+ * Message to show for a caught error
+ * Supabase query errors are plain objects rather than Error instances, so the
+ * message is read off any object that has one.
+ * @param error - Whatever was thrown
+ * @param fallback - Shown when the error carries no message
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  const message = (error as { message?: unknown } | null)?.message;
+  return typeof message === "string" && message ? message : fallback;
+}
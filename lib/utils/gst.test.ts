@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import { amountInWords, buildTaxInvoice, isValidGstin, normalizeGstin, resolvePlaceOfSupply } from "./gst";
+import type { Branch, Order, User } from "@/lib/types";
+
+const KERALA_GSTIN = "32AABCU9603R1ZM";
+const KARNATAKA_GSTIN = "29AABCU9603R1ZJ";
+
+const branch: Branch = { id: "branch-1", name: "Kochi", address: "", state_code: "32", gstin: KERALA_GSTIN };
+
+const user = (overrides: Partial<User> = {}): User => ({
+  id: "user-1",
+  username: "admin",
+  role: "super_admin",
+  branch_id: "branch-1",
+  full_name: "Admin",
+  phone: "9999999999",
+  gst_enabled: true,
+  gst_rate: 5,
+  gst_included: false,
+  ...overrides,
+});
+
+const order = (overrides: Partial<Order> = {}): Order => ({
+  id: "order-1",
+  branch_id: "branch-1",
+  staff_id: "user-1",
+  customer_id: "customer-1",
+  invoice_number: "GLA/25-26/0001",
+  start_date: "2025-06-10",
+  end_date: "2025-06-12",
+  status: "active",
+  total_amount: 1050,
+  subtotal: 1000,
+  gst_amount: 50,
+  created_at: "2025-06-10T06:30:00.000Z",
+  branch,
+  ...overrides,
+});
+
+describe("amountInWords", () => {
+  it("writes rupees and paise", () => {
+    expect(amountInWords(1250.5)).toBe("Rupees One Thousand Two Hundred Fifty and Fifty Paise Only");
+    expect(amountInWords(0)).toBe("Rupees Zero Only");
+  });
+
+  it("uses Indian grouping for lakhs and crores", () => {
+    expect(amountInWords(1005000)).toBe("Rupees Ten Lakh Five Thousand Only");
+    expect(amountInWords(123456789)).toBe(
+      "Rupees Twelve Crore Thirty Four Lakh Fifty Six Thousand Seven Hundred Eighty Nine Only"
+    );
+  });
+
+  it("rounds to the nearest paisa", () => {
+    expect(amountInWords(99.999)).toBe("Rupees One Hundred Only");
+  });
+});
+
+describe("isValidGstin", () => {
+  it("accepts a well-formed GSTIN with a known state code", () => {
+    expect(isValidGstin(KERALA_GSTIN)).toBe(true);
+    expect(isValidGstin("99AABCU9603R1ZM")).toBe(false);
+    expect(isValidGstin("32AABCU9603R1XM")).toBe(false);
+  });
+});
+
+describe("resolvePlaceOfSupply", () => {
+  it("prefers the customer GSTIN, then their saved state, then the branch", () => {
+    expect(resolvePlaceOfSupply({ gstin: KARNATAKA_GSTIN, state_code: "33" }, branch)).toBe("29");
+    expect(resolvePlaceOfSupply({ state_code: "33" }, branch)).toBe("33");
+    expect(resolvePlaceOfSupply(null, branch)).toBe("32");
+  });
+});
+
+describe("buildTaxInvoice", () => {
+  it("splits GST into CGST and SGST within the same state", () => {
+    const invoice = buildTaxInvoice(order(), user());
+
+    expect(invoice).toMatchObject({
+      isTaxInvoice: true,
+      supplierGstin: KERALA_GSTIN,
+      customerGstin: null,
+      placeOfSupply: "32 - Kerala",
+      isInterState: false,
+      rate: 5,
+      taxableValue: 1000,
+      cgst: 25,
+      sgst: 25,
+      igst: 0,
+      totalTax: 50,
+      amountInWords: "Rupees One Thousand Fifty Only",
+    });
+  });
+
+  it("charges IGST when the customer is in another state", () => {
+    const invoice = buildTaxInvoice(order({ customer_gstin: KARNATAKA_GSTIN }), user());
+
+    expect(invoice).toMatchObject({
+      customerGstin: KARNATAKA_GSTIN,
+      placeOfSupply: "29 - Karnataka",
+      isInterState: true,
+      cgst: 0,
+      sgst: 0,
+      igst: 50,
+    });
+  });
+
+  it("keeps the place of supply captured on the order", () => {
+    const invoice = buildTaxInvoice(order({ place_of_supply: "33", customer_gstin: KARNATAKA_GSTIN }), user());
+    expect(invoice.placeOfSupply).toBe("33 - Tamil Nadu");
+    expect(invoice.isInterState).toBe(true);
+  });
+
+  it("keeps odd paise on SGST so the halves add up", () => {
+    const invoice = buildTaxInvoice(order({ gst_amount: 50.01 }), user());
+    expect(invoice.cgst + invoice.sgst).toBeCloseTo(50.01, 2);
+  });
+
+  it("takes GST out of the subtotal when prices include it", () => {
+    const invoice = buildTaxInvoice(order({ subtotal: 1050, total_amount: 1050 }), user({ gst_included: true }));
+    expect(invoice.taxableValue).toBe(1000);
+    expect(invoice.totalTax).toBe(50);
+  });
+
+  it("bills with the rate and mode captured on the order, not the current profile", () => {
+    const included = { subtotal: 1120, total_amount: 1120, gst_amount: 120, gst_rate: 12, gst_included: true };
+    const invoice = buildTaxInvoice(order(included), user({ gst_rate: 18, gst_included: false }));
+
+    expect(invoice).toMatchObject({ rate: 12, taxableValue: 1000, totalTax: 120, invoiceValue: 1120 });
+  });
+
+  it("stays a plain bill when GST was off for the order even if it is on now", () => {
+    const invoice = buildTaxInvoice(order({ gst_rate: 0, gst_amount: 0, total_amount: 1000 }), user());
+    expect(invoice.isTaxInvoice).toBe(false);
+  });
+
+  it("falls back to the profile settings for orders without a captured rate", () => {
+    const invoice = buildTaxInvoice(order({ gst_rate: null }), user({ gst_rate: 0 }));
+
+    // A zero profile rate is a rate, not a missing one
+    expect(invoice.rate).toBe(0);
+    expect(buildTaxInvoice(order(), null)).toMatchObject({ isTaxInvoice: false, rate: 5, totalTax: 0 });
+  });
+
+  it("writes the invoice value in words, leaving out late and damage fees", () => {
+    const invoice = buildTaxInvoice(order({ total_amount: 1550.5, late_fee: 300, damage_fee_total: 200.5 }), user());
+
+    expect(invoice.invoiceValue).toBe(1050);
+    expect(invoice.amountInWords).toBe("Rupees One Thousand Fifty Only");
+  });
+
+  it("is a plain bill when GST is off", () => {
+    const invoice = buildTaxInvoice(order({ gst_amount: 0, total_amount: 1000 }), user({ gst_enabled: false }));
+
+    expect(invoice.isTaxInvoice).toBe(false);
+    expect(invoice.totalTax).toBe(0);
+    expect(invoice.taxableValue).toBe(1000);
+  });
+});
+
+describe("GST edge cases", () => {
+  it.each([
+    [0.5, "Rupees Zero and Fifty Paise Only"],
+    [10000000, "Rupees One Crore Only"],
+    [100000, "Rupees One Lakh Only"],
+    [-250, "Rupees Two Hundred Fifty Only"],
+    [Number.NaN, "Rupees Zero Only"],
+  ])("writes %s as %s", (amount, words) => {
+    expect(amountInWords(amount)).toBe(words);
+  });
+
+  it("normalises a typed GSTIN before checking it", () => {
+    expect(normalizeGstin(" 32aabcu-9603r1zm ")).toBe(KERALA_GSTIN);
+    expect(isValidGstin("32aabcu9603r1zm")).toBe(false);
+  });
+
+  it("falls back to the profile GST number for the supplier", () => {
+    const noRegistration: Branch = { id: "branch-2", name: "Kiosk", address: "" };
+    const invoice = buildTaxInvoice(
+      { ...order(), branch: noRegistration, customer: { id: "customer-1", name: "Ravi", phone: "9000000000", state_code: "29" } },
+      user({ gst_number: KERALA_GSTIN })
+    );
+
+    expect(invoice).toMatchObject({ supplierGstin: KERALA_GSTIN, placeOfSupply: "29 - Karnataka", isInterState: true, igst: 50 });
+  });
+
+  it("can't tell inter-state without a supplier state, so splits CGST and SGST", () => {
+    const invoice = buildTaxInvoice({ ...order(), branch: { id: "branch-2", name: "Kiosk", address: "" } }, user());
+    expect(invoice).toMatchObject({ supplierGstin: null, isInterState: false, cgst: 25, sgst: 25 });
+  });
+});
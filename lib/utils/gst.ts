@@ -0,0 +1,227 @@
+import type { Branch, Customer, Order, OrderItem, User } from "@/lib/types";
+
+/**
+ * SAC heading for "Leasing or rental services without operator".
+ * Used for lines whose product has no HSN/SAC code of its own.
+ */
+export const DEFAULT_RENTAL_SAC = "9973";
+
+// GST state codes (first two digits of a GSTIN)
+export const GST_STATES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+  "97": "Other Territory",
+};
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export function normalizeGstin(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, 15);
+}
+
+export function isValidGstin(gstin: string): boolean {
+  return GSTIN_PATTERN.test(gstin) && !!GST_STATES[gstin.slice(0, 2)];
+}
+
+export function getStateCodeFromGstin(gstin?: string | null): string | null {
+  if (!gstin || gstin.length < 2) return null;
+  const code = gstin.slice(0, 2);
+  return GST_STATES[code] ? code : null;
+}
+
+export function formatStateLabel(code?: string | null): string | null {
+  if (!code) return null;
+  return GST_STATES[code] ? `${code} - ${GST_STATES[code]}` : code;
+}
+
+/**
+ * Supplier state: the branch's own setting, else the state in its GSTIN.
+ */
+export function getSupplierStateCode(branch?: Partial<Branch> | null, user?: User | null): string | null {
+  return (
+    branch?.state_code ||
+    getStateCodeFromGstin(branch?.gstin) ||
+    getStateCodeFromGstin(user?.gst_number) ||
+    null
+  );
+}
+
+/**
+ * Place of supply for a new order: the customer's state (GSTIN wins over the
+ * saved state), falling back to the branch state for walk-in customers.
+ */
+export function resolvePlaceOfSupply(
+  customer?: Partial<Customer> | null,
+  branch?: Partial<Branch> | null,
+  user?: User | null
+): string | null {
+  return (
+    getStateCodeFromGstin(customer?.gstin) ||
+    customer?.state_code ||
+    getSupplierStateCode(branch, user)
+  );
+}
+
+const ONES = [
+  "", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine", "Ten",
+  "Eleven", "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen", "Seventeen", "Eighteen", "Nineteen",
+];
+const TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+function twoDigitWords(n: number): string {
+  if (n < 20) return ONES[n];
+  return [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(" ");
+}
+
+function threeDigitWords(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  return [hundreds ? `${ONES[hundreds]} Hundred` : "", rest ? twoDigitWords(rest) : ""]
+    .filter(Boolean)
+    .join(" ");
+}
+
+// Indian grouping: crore, lakh, thousand, hundred
+function integerWords(n: number): string {
+  if (n === 0) return "Zero";
+
+  const parts: string[] = [];
+  const crore = Math.floor(n / 10000000);
+  const lakh = Math.floor((n % 10000000) / 100000);
+  const thousand = Math.floor((n % 100000) / 1000);
+  const rest = n % 1000;
+
+  if (crore) parts.push(`${integerWords(crore)} Crore`);
+  if (lakh) parts.push(`${twoDigitWords(lakh)} Lakh`);
+  if (thousand) parts.push(`${twoDigitWords(thousand)} Thousand`);
+  if (rest) parts.push(threeDigitWords(rest));
+
+  return parts.join(" ");
+}
+
+/**
+ * Amount in words as printed on Indian invoices,
+ * e.g. 1250.50 -> "Rupees One Thousand Two Hundred Fifty and Fifty Paise Only"
+ */
+export function amountInWords(amount: number): string {
+  const paiseTotal = Math.round(Math.abs(amount || 0) * 100);
+  const rupees = Math.floor(paiseTotal / 100);
+  const paise = paiseTotal % 100;
+
+  const words = `Rupees ${integerWords(rupees)}`;
+  return paise > 0 ? `${words} and ${twoDigitWords(paise)} Paise Only` : `${words} Only`;
+}
+
+/**
+ * GST settings an order was billed with: the rate and mode captured on the
+ * order, falling back to the profile for orders created before they were.
+ */
+export function getOrderGstSettings(
+  order: Pick<Order, "gst_rate" | "gst_included">,
+  user: User | null
+): { enabled: boolean; rate: number; included: boolean } {
+  if (order.gst_rate != null) {
+    const rate = Number(order.gst_rate);
+    return { enabled: rate > 0, rate, included: order.gst_included ?? false };
+  }
+  return {
+    enabled: user?.gst_enabled ?? false,
+    rate: user?.gst_rate ?? 5.00,
+    included: order.gst_included ?? user?.gst_included ?? false,
+  };
+}
+
+export interface TaxInvoice {
+  isTaxInvoice: boolean; // GST charged on this order
+  supplierGstin: string | null;
+  customerGstin: string | null;
+  placeOfSupply: string | null; // "32 - Kerala"
+  isInterState: boolean;
+  rate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+  invoiceValue: number; // Taxable value + GST, before late and damage fees
+  amountInWords: string; // Of the invoice value
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export function getItemHsnSac(item: OrderItem): string {
+  return item.hsn_sac || DEFAULT_RENTAL_SAC;
+}
+
+/**
+ * GST breakdown for an order's invoice.
+ * The order stores a single gst_amount; this splits it into CGST+SGST (same state)
+ * or IGST (different state).
+ */
+export function buildTaxInvoice(order: Order, user: User | null): TaxInvoice {
+  const { enabled: gstEnabled, rate, included: gstIncluded } = getOrderGstSettings(order, user);
+  const subtotal = order.subtotal || 0;
+  const totalTax = gstEnabled ? roundMoney(order.gst_amount || 0) : 0;
+  const taxableValue = roundMoney(gstIncluded ? subtotal - totalTax : subtotal);
+
+  const supplierStateCode = getSupplierStateCode(order.branch, user);
+  const customerGstin = order.customer_gstin || order.customer?.gstin || null;
+  const placeOfSupplyCode =
+    order.place_of_supply || resolvePlaceOfSupply({ ...order.customer, gstin: customerGstin || undefined }, order.branch, user);
+  const isInterState = !!supplierStateCode && !!placeOfSupplyCode && supplierStateCode !== placeOfSupplyCode;
+
+  const cgst = isInterState ? 0 : roundMoney(totalTax / 2);
+  const sgst = isInterState ? 0 : roundMoney(totalTax - cgst);
+  const igst = isInterState ? totalTax : 0;
+  const invoiceValue = roundMoney(taxableValue + totalTax);
+
+  return {
+    isTaxInvoice: gstEnabled && totalTax > 0,
+    supplierGstin: order.branch?.gstin || user?.gst_number || null,
+    customerGstin,
+    placeOfSupply: formatStateLabel(placeOfSupplyCode),
+    isInterState,
+    rate,
+    taxableValue,
+    cgst,
+    sgst,
+    igst,
+    totalTax,
+    invoiceValue,
+    amountInWords: amountInWords(invoiceValue),
+  };
+}
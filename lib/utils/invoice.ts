@@ -1,52 +1,43 @@
 import { createClient } from "@/lib/supabase/client";
 
 /**
- * Generate auto-invoice number in format: GLAORD-YYYYMMDD-XXXX
- * Example: GLAORD-20241202-0001
- * ✅ FIX: Checks for duplicates and retries if needed
+ * Invoice numbers are issued by the database when an order is inserted
+ * (see supabase-migrations/add-invoice-sequences.sql).
+ * Format: <PREFIX>/<FY>/<NNNN>, e.g. GLA/25-26/0001 - sequential per branch,
+ * restarting every Indian financial year (1 April).
  */
-export async function generateInvoiceNumber(): Promise<string> {
+
+/**
+ * Financial year label for a date, e.g. "25-26" for 1 Apr 2025 - 31 Mar 2026
+ */
+export function getFinancialYearLabel(date: Date = new Date()): string {
+  // Financial year follows IST, regardless of the device timezone
+  const ist = new Date(date.getTime() + (5.5 * 60 + date.getTimezoneOffset()) * 60 * 1000);
+  const startYear = ist.getMonth() < 3 ? ist.getFullYear() - 1 : ist.getFullYear();
+  const twoDigits = (year: number) => String(year % 100).padStart(2, "0");
+  return `${twoDigits(startYear)}-${twoDigits(startYear + 1)}`;
+}
+
+/**
+ * Next invoice number for a branch, for display only.
+ * The number isn't reserved - another order saved first will take it.
+ */
+export async function previewInvoiceNumber(branchId: string): Promise<string | null> {
   const supabase = createClient();
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = String(now.getMonth() + 1).padStart(2, '0');
-  const day = String(now.getDate()).padStart(2, '0');
-  const datePrefix = `${year}${month}${day}`;
-  
-  // Try up to 10 times to find a unique invoice number
-  for (let attempt = 0; attempt < 10; attempt++) {
-    // Generate random 4-digit number
-    const random = String(Math.floor(Math.random() * 10000)).padStart(4, '0');
-    const invoiceNumber = `GLAORD-${datePrefix}-${random}`;
-    
-    // Check if this invoice number already exists
-    const { data, error } = await supabase
-      .from("orders")
-      .select("invoice_number")
-      .eq("invoice_number", invoiceNumber)
-      .limit(1)
-      .maybeSingle(); // Use maybeSingle() instead of single() to avoid error if not found
-    
-    // ✅ FIX Bug 2: Properly handle errors - distinguish between "no row found" and actual errors
-    if (error) {
-      // PGRST116 = no rows returned (invoice number is available)
-      if (error.code === 'PGRST116') {
-        return invoiceNumber;
-      }
-      // Other errors (permission denied, connection error, etc.) should be thrown
-      throw new Error(`Database error while checking invoice number: ${error.message || 'Unknown error'}`);
-    }
-    
-    // If we got no data, it means the invoice number doesn't exist (unique)
-    if (!data) {
-      return invoiceNumber;
-    }
-    
-    // If we got data, it means the invoice number exists, try again
+  const { data, error } = await supabase.rpc("peek_next_invoice_number", {
+    p_branch_id: branchId,
+  });
+
+  if (error) {
+    throw new Error(`Database error while loading invoice number: ${error.message || "Unknown error"}`);
   }
-  
-  // Fallback: use timestamp if all random attempts fail
-  const timestamp = Date.now().toString().slice(-6);
-  return `GLAORD-${datePrefix}-${timestamp}`;
+
+  return (data as string | null) || null;
 }
 
+/**
+ * GST invoice prefixes: 1-5 uppercase letters or digits
+ */
+export function isValidInvoicePrefix(prefix: string): boolean {
+  return /^[A-Z0-9]{1,5}$/.test(prefix);
+}
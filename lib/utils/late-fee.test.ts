@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import { calculateLateFee, describeLateFeePolicy, getLateFeePolicy, getLateUnits } from "./late-fee";
+import type { LateFeePolicy } from "@/lib/types";
+
+const DUE = "2025-06-10T10:00:00.000Z";
+const hoursAfterDue = (hours: number) => new Date(new Date(DUE).getTime() + hours * 60 * 60 * 1000);
+
+const policy = (overrides: Partial<LateFeePolicy> = {}): LateFeePolicy => ({
+  grace_minutes: 0,
+  unit: "day",
+  rate_type: "fixed",
+  rate: 100,
+  cap: null,
+  ...overrides,
+});
+
+describe("getLateFeePolicy", () => {
+  it("returns null when the branch hasn't enabled late fees", () => {
+    expect(getLateFeePolicy(null)).toBeNull();
+    expect(getLateFeePolicy({ late_fee_enabled: false, late_fee_rate: 50 })).toBeNull();
+  });
+
+  it("falls back to safe values for missing or invalid settings", () => {
+    expect(getLateFeePolicy({ late_fee_enabled: true, late_fee_grace_minutes: -5 })).toEqual({
+      grace_minutes: 0,
+      unit: "day",
+      rate_type: "percent_of_daily_rent",
+      rate: 0,
+      cap: null,
+    });
+  });
+});
+
+describe("getLateUnits", () => {
+  it("charges nothing for returns on time or inside the grace period", () => {
+    expect(getLateUnits(DUE, hoursAfterDue(-1), policy())).toBe(0);
+    expect(getLateUnits(DUE, hoursAfterDue(0.5), policy({ grace_minutes: 30 }))).toBe(0);
+  });
+
+  it("counts every started unit from the due time once past the grace period", () => {
+    expect(getLateUnits(DUE, hoursAfterDue(1), policy({ grace_minutes: 30 }))).toBe(1);
+    expect(getLateUnits(DUE, hoursAfterDue(25), policy())).toBe(2);
+    expect(getLateUnits(DUE, hoursAfterDue(2.5), policy({ unit: "hour" }))).toBe(3);
+  });
+});
+
+describe("calculateLateFee", () => {
+  it("charges a fixed rate per piece per unit late", () => {
+    const result = calculateLateFee(
+      [{ id: "a", product_name: "Sherwani", quantity: 2, price_per_day: 500 }],
+      DUE,
+      policy(),
+      hoursAfterDue(30)
+    );
+
+    expect(result.lines).toEqual([
+      { itemId: "a", name: "Sherwani", quantity: 2, returned: false, lateUnits: 2, fee: 400 },
+    ]);
+    expect(result.total).toBe(400);
+    expect(result.capped).toBe(false);
+  });
+
+  it("charges a percentage of each item's daily rent", () => {
+    const result = calculateLateFee(
+      [{ quantity: 1, price_per_day: 333 }],
+      DUE,
+      policy({ rate_type: "percent_of_daily_rent", rate: 50 }),
+      hoursAfterDue(12)
+    );
+
+    expect(result.lines[0].name).toBe("Item");
+    expect(result.total).toBe(166.5);
+  });
+
+  it("charges returned pieces up to their return and the rest up to now", () => {
+    const result = calculateLateFee(
+      [{ quantity: 3, price_per_day: 200, returned_quantity: 1, returned_at: hoursAfterDue(5) }],
+      DUE,
+      policy(),
+      hoursAfterDue(50)
+    );
+
+    expect(result.lines.map(({ quantity, returned, lateUnits, fee }) => ({ quantity, returned, lateUnits, fee }))).toEqual([
+      { quantity: 1, returned: true, lateUnits: 1, fee: 100 },
+      { quantity: 2, returned: false, lateUnits: 3, fee: 600 },
+    ]);
+    expect(result.total).toBe(700);
+  });
+
+  it("treats an item with a return time but no returned quantity as fully returned", () => {
+    const result = calculateLateFee(
+      [{ quantity: 2, price_per_day: 200, returned_at: hoursAfterDue(3) }],
+      DUE,
+      policy({ unit: "hour", rate: 10 }),
+      hoursAfterDue(48)
+    );
+
+    expect(result.lines).toHaveLength(1);
+    expect(result.lines[0]).toMatchObject({ quantity: 2, returned: true, lateUnits: 3, fee: 60 });
+  });
+
+  it("caps the total per order but keeps the uncapped amount", () => {
+    const result = calculateLateFee(
+      [{ quantity: 1, price_per_day: 1000 }],
+      DUE,
+      policy({ rate: 300, cap: 500 }),
+      hoursAfterDue(72)
+    );
+
+    expect(result.uncapped).toBe(900);
+    expect(result.total).toBe(500);
+    expect(result.capped).toBe(true);
+  });
+});
+
+describe("getLateUnits at the edges", () => {
+  const MINUTE = 1 / 60;
+
+  it.each([
+    { label: "exactly at the end of the grace period", hours: 30 * MINUTE, units: 0 },
+    { label: "a moment past the grace period", hours: 30 * MINUTE + 1 / 3600, units: 1 },
+    { label: "exactly one day late", hours: 24, units: 1 },
+    { label: "a moment past one day", hours: 24 + 1 / 3600, units: 2 },
+  ])("counts $units day(s) $label", ({ hours, units }) => {
+    expect(getLateUnits(DUE, hoursAfterDue(hours), policy({ grace_minutes: 30 }))).toBe(units);
+  });
+
+  it("charges nothing for an unreadable due date", () => {
+    expect(getLateUnits("not a date", hoursAfterDue(48), policy())).toBe(0);
+  });
+});
+
+describe("calculateLateFee edge cases", () => {
+  const sherwani = { id: "a", product_name: "Sherwani", quantity: 2, price_per_day: 500 };
+
+  it("never counts more pieces returned than were rented", () => {
+    const { lines } = calculateLateFee([{ ...sherwani, returned_quantity: 5, returned_at: hoursAfterDue(1) }], DUE, policy(), hoursAfterDue(72));
+    expect(lines).toEqual([{ itemId: "a", name: "Sherwani", quantity: 2, returned: true, lateUnits: 1, fee: 200 }]);
+  });
+
+  it("ignores a negative returned quantity", () => {
+    const { lines } = calculateLateFee([{ ...sherwani, returned_quantity: -1 }], DUE, policy(), hoursAfterDue(2));
+    expect(lines.map((line) => [line.quantity, line.returned])).toEqual([[2, false]]);
+  });
+
+  it("doesn't flag a total equal to the cap as capped", () => {
+    const result = calculateLateFee([sherwani], DUE, policy({ cap: 400 }), hoursAfterDue(30));
+    expect(result).toMatchObject({ uncapped: 400, total: 400, capped: false });
+  });
+
+  it("waives everything with a zero cap", () => {
+    const result = calculateLateFee([sherwani], DUE, policy({ cap: 0 }), hoursAfterDue(30));
+    expect(result).toMatchObject({ uncapped: 400, total: 0, capped: true });
+  });
+
+  it("charges nothing on a free item at a percentage rate", () => {
+    const { total } = calculateLateFee([{ quantity: 1, price_per_day: 0 }], DUE, policy({ rate_type: "percent_of_daily_rent", rate: 50 }), hoursAfterDue(48));
+    expect(total).toBe(0);
+  });
+});
+
+describe("describeLateFeePolicy", () => {
+  it("mentions grace and cap only when set", () => {
+    expect(describeLateFeePolicy(policy())).toBe("₹100 per piece per day late");
+    expect(describeLateFeePolicy(policy({ rate_type: "percent_of_daily_rent", rate: 25, unit: "hour", grace_minutes: 15, cap: 0 }))).toBe(
+      "25% of daily rent per hour late, 15 min grace, capped at ₹0"
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import type { Branch, LateFeePolicy } from "@/lib/types";
+
+const MINUTE_MS = 60 * 1000;
+const UNIT_MS = {
+  hour: 60 * MINUTE_MS,
+  day: 24 * 60 * MINUTE_MS,
+};
+
+export interface LateFeeItemInput {
+  id?: string;
+  product_name?: string;
+  quantity: number;
+  price_per_day: number;
+  returned_quantity?: number | null; // Pieces already back; the rest are counted up to `now`
+  returned_at?: string | Date | null; // When the returned pieces came back (all of them if returned_quantity is unset)
+}
+
+export interface LateFeeLine {
+  itemId?: string;
+  name: string;
+  quantity: number;
+  returned: boolean; // Pieces already back, charged up to their return
+  lateUnits: number;
+  fee: number;
+}
+
+export interface LateFeeCalculation {
+  lines: LateFeeLine[];
+  uncapped: number;
+  total: number;
+  capped: boolean;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Branch late fee policy, or null when the branch hasn't enabled it
+ * (late fee is then entered by hand as before).
+ */
+export function getLateFeePolicy(branch?: Partial<Branch> | null): LateFeePolicy | null {
+  if (!branch?.late_fee_enabled) return null;
+
+  const cap = branch.late_fee_cap;
+  return {
+    grace_minutes: Math.max(0, Number(branch.late_fee_grace_minutes) || 0),
+    unit: branch.late_fee_unit === "hour" ? "hour" : "day",
+    rate_type: branch.late_fee_rate_type === "fixed" ? "fixed" : "percent_of_daily_rent",
+    rate: Math.max(0, Number(branch.late_fee_rate) || 0),
+    cap: cap === null || cap === undefined ? null : Math.max(0, Number(cap) || 0),
+  };
+}
+
+/**
+ * Number of started hours/days an item is late.
+ * Returns inside the grace period are free; past it, lateness counts from the due time.
+ */
+export function getLateUnits(
+  dueAt: string | Date,
+  returnedAt: string | Date,
+  policy: LateFeePolicy
+): number {
+  const lateMs = new Date(returnedAt).getTime() - new Date(dueAt).getTime();
+  if (isNaN(lateMs) || lateMs <= policy.grace_minutes * MINUTE_MS) return 0;
+  return Math.ceil(lateMs / UNIT_MS[policy.unit]);
+}
+
+/**
+ * Late fee for an order under a branch policy, per item and in total.
+ * Fixed rates are per piece; percentage rates apply to each item's daily rent × quantity.
+ * A partly returned item is split: the returned pieces are charged up to
+ * their return, only the pieces still out keep accruing until `now`.
+ */
+export function calculateLateFee(
+  items: LateFeeItemInput[],
+  dueAt: string | Date,
+  policy: LateFeePolicy,
+  now: Date = new Date()
+): LateFeeCalculation {
+  const lines = items.flatMap((item) => {
+    const returnedQuantity = Math.min(
+      item.quantity,
+      Math.max(0, item.returned_quantity ?? (item.returned_at ? item.quantity : 0))
+    );
+    const parts = [
+      { quantity: returnedQuantity, returned: true, at: item.returned_at || now },
+      { quantity: item.quantity - returnedQuantity, returned: false, at: now },
+    ];
+
+    return parts
+      .filter((part) => part.quantity > 0)
+      .map((part) => {
+        const lateUnits = getLateUnits(dueAt, part.at, policy);
+        const perUnit =
+          policy.rate_type === "fixed"
+            ? policy.rate * part.quantity
+            : (policy.rate / 100) * (Number(item.price_per_day) || 0) * part.quantity;
+
+        return {
+          itemId: item.id,
+          name: item.product_name || "Item",
+          quantity: part.quantity,
+          returned: part.returned,
+          lateUnits,
+          fee: roundMoney(perUnit * lateUnits),
+        };
+      });
+  });
+
+  const uncapped = roundMoney(lines.reduce((sum, line) => sum + line.fee, 0));
+  const capped = policy.cap !== null && uncapped > policy.cap;
+
+  return {
+    lines,
+    uncapped,
+    total: capped ? (policy.cap as number) : uncapped,
+    capped,
+  };
+}
+
+export function describeLateFeePolicy(policy: LateFeePolicy): string {
+  const rate =
+    policy.rate_type === "fixed"
+      ? `₹${policy.rate} per piece`
+      : `${policy.rate}% of daily rent`;
+  const parts = [`${rate} per ${policy.unit} late`];
+  if (policy.grace_minutes > 0) parts.push(`${policy.grace_minutes} min grace`);
+  if (policy.cap !== null) parts.push(`capped at ₹${policy.cap}`);
+  return parts.join(", ");
+}
@@ -0,0 +1,101 @@
+import { createHmac } from "crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createOrderStatusToken, getOrderStatusLinkExpiry, verifyOrderStatusToken } from "./order-status-token";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date("2025-06-10T10:00:00.000Z");
+
+const payload = {
+  orderId: "order-1",
+  sharedBy: "user-1",
+  expiresAt: NOW.getTime() + DAY_MS,
+};
+
+beforeEach(() => {
+  vi.stubEnv("ORDER_LINK_SECRET", "test-secret");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("verifyOrderStatusToken", () => {
+  it("accepts a token it signed and returns the payload", () => {
+    const token = createOrderStatusToken(payload);
+    expect(verifyOrderStatusToken(token, NOW)).toEqual({ valid: true, payload });
+  });
+
+  it("rejects expired tokens", () => {
+    const token = createOrderStatusToken(payload);
+    expect(verifyOrderStatusToken(token, new Date(payload.expiresAt + 1))).toEqual({ valid: false, reason: "expired" });
+  });
+
+  it("rejects a payload changed after signing", () => {
+    const [, signature] = createOrderStatusToken(payload).split(".");
+    const forged = Buffer.from(JSON.stringify({ o: "order-2", u: "user-1", e: payload.expiresAt })).toString("base64url");
+
+    expect(verifyOrderStatusToken(`${forged}.${signature}`, NOW)).toEqual({ valid: false, reason: "invalid" });
+  });
+
+  it("rejects tokens signed with another secret", () => {
+    const token = createOrderStatusToken(payload);
+    vi.stubEnv("ORDER_LINK_SECRET", "other-secret");
+
+    expect(verifyOrderStatusToken(token, NOW)).toEqual({ valid: false, reason: "invalid" });
+  });
+
+  it("rejects malformed tokens", () => {
+    expect(verifyOrderStatusToken("", NOW)).toEqual({ valid: false, reason: "invalid" });
+    expect(verifyOrderStatusToken("no-signature", NOW)).toEqual({ valid: false, reason: "invalid" });
+    expect(verifyOrderStatusToken("abc.def", NOW)).toEqual({ valid: false, reason: "invalid" });
+  });
+
+  it("refuses to sign without a secret", () => {
+    vi.stubEnv("ORDER_LINK_SECRET", "");
+    expect(() => createOrderStatusToken(payload)).toThrow("ORDER_LINK_SECRET");
+  });
+});
+
+describe("verifyOrderStatusToken edge cases", () => {
+  // Correctly signed data that createOrderStatusToken would never produce
+  const signed = (data: string) => `${data}.${createHmac("sha256", "test-secret").update(data).digest("base64url")}`;
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+  it("is still valid in the millisecond it expires", () => {
+    const token = createOrderStatusToken(payload);
+    expect(verifyOrderStatusToken(token, new Date(payload.expiresAt)).valid).toBe(true);
+  });
+
+  it("rejects anything appended to a good token", () => {
+    expect(verifyOrderStatusToken(`${createOrderStatusToken(payload)}.extra`, NOW)).toEqual({ valid: false, reason: "invalid" });
+  });
+
+  it.each([
+    ["a payload that isn't JSON", Buffer.from("order-1").toString("base64url")],
+    ["a missing order id", encode({ u: "user-1", e: payload.expiresAt })],
+    ["an expiry written as a string", encode({ o: "order-1", u: "user-1", e: String(payload.expiresAt) })],
+  ])("rejects a signed token with %s", (_label, data) => {
+    expect(verifyOrderStatusToken(signed(data), NOW)).toEqual({ valid: false, reason: "invalid" });
+  });
+
+  it("checks the signature before saying a token expired", () => {
+    const [data] = createOrderStatusToken({ ...payload, expiresAt: NOW.getTime() - 1 }).split(".");
+    expect(verifyOrderStatusToken(`${data}.${"A".repeat(43)}`, NOW)).toEqual({ valid: false, reason: "invalid" });
+  });
+});
+
+describe("getOrderStatusLinkExpiry", () => {
+  it("lasts a week past the due date", () => {
+    const due = new Date(NOW.getTime() + 3 * DAY_MS);
+    expect(getOrderStatusLinkExpiry(due.toISOString(), NOW)).toBe(due.getTime() + 7 * DAY_MS);
+  });
+
+  it("lasts at least a week from now for overdue or undated orders", () => {
+    expect(getOrderStatusLinkExpiry("2025-01-01T00:00:00.000Z", NOW)).toBe(NOW.getTime() + 7 * DAY_MS);
+    expect(getOrderStatusLinkExpiry(null, NOW)).toBe(NOW.getTime() + 7 * DAY_MS);
+  });
+
+  it("treats an unreadable due date as undated", () => {
+    expect(getOrderStatusLinkExpiry("someday", NOW)).toBe(NOW.getTime() + 7 * DAY_MS);
+  });
+});
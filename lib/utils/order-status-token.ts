@@ -0,0 +1,74 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Signed, expiring tokens for the public order status page (/track/<token>).
+ * Server only: signing uses ORDER_LINK_SECRET.
+ *
+ * Token = base64url(JSON payload) + "." + base64url(HMAC-SHA256 of the payload)
+ */
+
+export interface OrderStatusTokenPayload {
+  orderId: string;
+  sharedBy: string; // Profile whose shop details / UPI ID the page shows
+  expiresAt: number; // Unix ms
+}
+
+export type OrderStatusTokenResult =
+  | { valid: true; payload: OrderStatusTokenPayload }
+  | { valid: false; reason: "invalid" | "expired" };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getSecret(): string {
+  const secret = process.env.ORDER_LINK_SECRET;
+  if (!secret) {
+    throw new Error("ORDER_LINK_SECRET is required for order status links");
+  }
+  return secret;
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", getSecret()).update(data).digest("base64url");
+}
+
+/**
+ * Links stay valid until a week after the order is due back
+ * (and for at least a week from when they are shared).
+ */
+export function getOrderStatusLinkExpiry(dueAt: string | null | undefined, now: Date = new Date()): number {
+  const minimum = now.getTime() + 7 * DAY_MS;
+  const due = dueAt ? new Date(dueAt).getTime() : NaN;
+  return Number.isNaN(due) ? minimum : Math.max(minimum, due + 7 * DAY_MS);
+}
+
+export function createOrderStatusToken(payload: OrderStatusTokenPayload): string {
+  const data = Buffer.from(
+    JSON.stringify({ o: payload.orderId, u: payload.sharedBy, e: payload.expiresAt })
+  ).toString("base64url");
+  return `${data}.${sign(data)}`;
+}
+
+export function verifyOrderStatusToken(token: string, now: Date = new Date()): OrderStatusTokenResult {
+  const parts = token.split(".");
+  const [data, signature] = parts;
+  if (parts.length !== 2 || !data || !signature) return { valid: false, reason: "invalid" };
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: "invalid" };
+  }
+
+  try {
+    const parsed = JSON.parse(Buffer.from(data, "base64url").toString("utf8"));
+    if (typeof parsed.o !== "string" || typeof parsed.u !== "string" || typeof parsed.e !== "number") {
+      return { valid: false, reason: "invalid" };
+    }
+    if (parsed.e < now.getTime()) {
+      return { valid: false, reason: "expired" };
+    }
+    return { valid: true, payload: { orderId: parsed.o, sharedBy: parsed.u, expiresAt: parsed.e } };
+  } catch {
+    return { valid: false, reason: "invalid" };
+  }
+}
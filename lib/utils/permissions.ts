@@ -0,0 +1,30 @@
+import type { Permission, User, UserRole } from "@/lib/types";
+
+export const PERMISSIONS: { key: Permission; label: string; description: string }[] = [
+  { key: "create_order", label: "Create orders", description: "Book new orders" },
+  { key: "edit_billing", label: "Edit billing", description: "Change items, amounts and invoice numbers" },
+  { key: "process_return", label: "Process returns", description: "Record returns, damage and late fees" },
+  { key: "override_late_fee", label: "Override late fees", description: "Replace the fee calculated from the branch policy" },
+  { key: "cancel_order", label: "Cancel orders", description: "Cancel scheduled or just-started orders" },
+  { key: "view_reports", label: "View reports", description: "Open the reports screen" },
+  { key: "manage_staff", label: "Manage staff", description: "Create, edit and deactivate staff accounts" },
+];
+
+const ALL_PERMISSIONS = PERMISSIONS.map((permission) => permission.key);
+
+// Built-in role defaults - used until add-role-permissions.sql has been run
+// and as the starting point it seeds app_roles with
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  super_admin: ALL_PERMISSIONS,
+  branch_admin: ALL_PERMISSIONS,
+  staff: ["create_order", "edit_billing", "process_return", "override_late_fee", "cancel_order"],
+};
+
+/**
+ * Whether the user has a capability. Super admins always do.
+ */
+export function hasPermission(user: Pick<User, "role" | "permissions"> | null | undefined, permission: Permission): boolean {
+  if (!user) return false;
+  if (user.role === "super_admin") return true;
+  return (user.permissions ?? DEFAULT_ROLE_PERMISSIONS[user.role] ?? []).includes(permission);
+}
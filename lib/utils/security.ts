@@ -33,6 +33,15 @@ export function sanitizeInput(input: string | null | undefined): string {
   return sanitized.replace(/[&<>"'/]/g, (s) => entityMap[s]);
 }
 
+/**
+ * Whether input has markup or script that sanitizeInput would strip or encode.
+ * Used to reject imported text instead of silently rewriting it.
+ */
+export function hasUnsafeMarkup(input: string | null | undefined): boolean {
+  if (!input) return false;
+  return /\0|<|>|\bon\w+\s*=|javascript:|data:text\/html/i.test(input);
+}
+
 /**
  * Sanitize phone number - only allow digits, +, -, spaces
  */
@@ -0,0 +1,180 @@
+// Service worker: keeps the dashboard shell and the last-known orders,
+// customers and dashboard stats on the device so the app still opens offline.
+// Registered by components/providers/service-worker-registration.tsx.
+
+const SHELL_CACHE = "glanz-shell-v1";
+const STATIC_CACHE = "glanz-static-v1";
+// Cleared on logout - keep in sync with lib/offline/data-cache.ts
+const DATA_CACHE = "glanz-data-v1";
+const CURRENT_CACHES = [SHELL_CACHE, STATIC_CACHE, DATA_CACHE];
+
+const SHELL_PAGES = ["/dashboard", "/orders", "/customers"];
+const SHELL_ASSETS = ["/manifest.webmanifest", "/glanz_logo.png", "/icons/icon-192.png", "/icons/icon-512.png"];
+
+// Hashed build files - old deploys' chunks are trimmed past this
+const STATIC_CACHE_LIMIT = 300;
+
+// Supabase REST reads served from cache when offline. The RPCs are POSTs,
+// so they're cached under a key made from the URL and a hash of the body.
+const CACHED_RPCS = ["get_orders_with_items", "get_dashboard_stats"];
+const CACHED_TABLES = ["orders", "customers"];
+
+const CACHED_AT_HEADER = "x-sw-cached-at";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => !CURRENT_CACHES.includes(key)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    if (request.method !== "GET") return;
+    if (url.pathname.startsWith("/_next/static/")) {
+      event.respondWith(cacheFirst(request));
+    } else if (request.mode === "navigate" && !url.pathname.startsWith("/api/")) {
+      event.respondWith(networkFirstPage(request));
+    }
+    return;
+  }
+
+  if (isCachedDataRequest(request, url)) {
+    event.respondWith(networkFirstData(event));
+  }
+});
+
+/**
+ * Cache the shell pages and the build files they load. Best effort - pages
+ * that redirect (not logged in yet) are skipped and cached on first visit.
+ */
+async function precacheShell() {
+  const shell = await caches.open(SHELL_CACHE);
+  await shell.addAll(SHELL_ASSETS).catch(() => undefined);
+
+  const assets = new Set();
+  await Promise.all(
+    SHELL_PAGES.map(async (path) => {
+      try {
+        const response = await fetch(path, { credentials: "same-origin" });
+        if (!response.ok || response.redirected) return;
+        const html = await response.clone().text();
+        await shell.put(path, response);
+        (html.match(/\/_next\/static\/[^"'\\\s)]+/g) || []).forEach((asset) => assets.add(asset));
+      } catch {
+        // Offline during install - the page is cached when it's next opened
+      }
+    })
+  );
+
+  const staticCache = await caches.open(STATIC_CACHE);
+  await Promise.all(
+    Array.from(assets).map((asset) =>
+      staticCache.match(asset).then((cached) => cached || staticCache.add(asset).catch(() => undefined))
+    )
+  );
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(STATIC_CACHE);
+    await cache.put(request, response.clone());
+    trimCache(cache, STATIC_CACHE_LIMIT);
+  }
+  return response;
+}
+
+/**
+ * Pages come from the network when it's there; offline, the last copy of the
+ * page is served, or the dashboard shell if this page was never opened.
+ */
+async function networkFirstPage(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok && !response.redirected) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put(new URL(request.url).pathname, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cache = await caches.open(SHELL_CACHE);
+    const cached = (await cache.match(new URL(request.url).pathname)) || (await cache.match("/dashboard"));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+function isCachedDataRequest(request, url) {
+  const match = url.pathname.match(/\/rest\/v1\/(?:rpc\/)?([^/]+)$/);
+  if (!match) return false;
+
+  const isRpc = url.pathname.includes("/rest/v1/rpc/");
+  if (isRpc) return request.method === "POST" && CACHED_RPCS.includes(match[1]);
+  return request.method === "GET" && CACHED_TABLES.includes(match[1]);
+}
+
+/**
+ * Reads come from the network when it's there, and the response is kept with
+ * the time it was fetched. When the network fails, the kept copy is served
+ * and the page is told how old it is.
+ */
+async function networkFirstData(event) {
+  const { request } = event;
+  const cacheKey = await dataCacheKey(request);
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cachedAt = new Date().toISOString();
+      const headers = new Headers(response.headers);
+      headers.set(CACHED_AT_HEADER, cachedAt);
+      const body = await response.clone().arrayBuffer();
+      const cache = await caches.open(DATA_CACHE);
+      await cache.put(cacheKey, new Response(body, { status: response.status, statusText: response.statusText, headers }));
+      notifyClient(event, { type: "data-fresh" });
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(cacheKey, { cacheName: DATA_CACHE });
+    if (!cached) throw error;
+    notifyClient(event, { type: "data-from-cache", cachedAt: cached.headers.get(CACHED_AT_HEADER) });
+    return cached;
+  }
+}
+
+async function dataCacheKey(request) {
+  if (request.method === "GET") return request.url;
+
+  const body = await request.clone().text();
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(body));
+  const hash = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  const url = new URL(request.url);
+  url.searchParams.set("sw-body", hash);
+  return url.toString();
+}
+
+function notifyClient(event, message) {
+  if (!event.clientId) return;
+  self.clients.get(event.clientId).then((client) => client && client.postMessage(message));
+}
+
+async function trimCache(cache, limit) {
+  const keys = await cache.keys();
+  // Cache keys come back in insertion order - drop the oldest
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - limit)).map((key) => cache.delete(key)));
+}
@@ -0,0 +1,605 @@
+-- ============================================
+-- Approval requests for discounts, late fee waivers and cancellations
+-- Each branch sets thresholds (NULL = no approval needed):
+--   approval_discount_threshold        - staff lowering an order's total by more than this
+--   approval_late_fee_waiver_threshold - staff overriding the calculated late fee down by more than this
+--   approval_cancel_threshold          - staff cancelling an order whose total is more than this
+-- Above a threshold the app files an approval request instead of making the
+-- change, and a branch admin (or super admin) approves or rejects it from
+-- the approvals page. Approving applies the stored change as the approver,
+-- in the same transaction as the decision (decide_approval_request), so a
+-- request is applied at most once and only while still pending.
+-- Requests and decisions are also written to order_return_audit, so the
+-- order timeline shows who asked for and who approved what.
+-- Discounts (including refunds after invoicing), late fee waivers and
+-- cancellations are also enforced by a trigger on orders, so staff can't
+-- skip approval by updating the order directly. Discounts add up: each is
+-- measured from the bill an admin last set or approved, not from the
+-- previous edit. Waivers are measured from the fee the branch policy charges.
+-- Each request keeps a snapshot of the order; one the order no longer
+-- matches can't be approved.
+-- Requires add-role-permissions.sql (permission_checks_apply,
+-- calculate_order_late_fee), add-credit-notes.sql (credit notes for
+-- approved reductions), add-item-maintenance.sql (get_product_availability)
+-- and add-staff-commission.sql (waiver columns on order_return_audit).
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+-- 1. Branch thresholds
+ALTER TABLE branches
+ADD COLUMN IF NOT EXISTS approval_discount_threshold NUMERIC(10, 2)
+  CHECK (approval_discount_threshold IS NULL OR approval_discount_threshold >= 0),
+ADD COLUMN IF NOT EXISTS approval_late_fee_waiver_threshold NUMERIC(10, 2)
+  CHECK (approval_late_fee_waiver_threshold IS NULL OR approval_late_fee_waiver_threshold >= 0),
+ADD COLUMN IF NOT EXISTS approval_cancel_threshold NUMERIC(10, 2)
+  CHECK (approval_cancel_threshold IS NULL OR approval_cancel_threshold >= 0);
+
+COMMENT ON COLUMN branches.approval_discount_threshold IS 'Staff reductions of an order total above this need approval (NULL = never)';
+COMMENT ON COLUMN branches.approval_late_fee_waiver_threshold IS 'Staff late fee overrides below the calculated fee by more than this need approval (NULL = never)';
+COMMENT ON COLUMN branches.approval_cancel_threshold IS 'Staff cancellations of orders with a total above this need approval (NULL = never, 0 = always)';
+
+-- The bill (total less late and damage fees) staff discounts are measured
+-- from. Set by enforce_approval_thresholds below; NULL until the order is
+-- first changed.
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS approved_bill_amount NUMERIC(10, 2);
+
+COMMENT ON COLUMN orders.approved_bill_amount IS 'Bill an admin last set or approved - staff discounts from it add up towards the approval threshold';
+
+-- 2. Requests
+CREATE TABLE IF NOT EXISTS approval_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('discount', 'late_fee_waiver', 'cancellation')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  amount NUMERIC(10, 2) NOT NULL DEFAULT 0, -- Reduction, waived fee or cancelled total
+  summary TEXT NOT NULL,
+  request_reason TEXT,
+  payload JSONB NOT NULL DEFAULT '{}', -- The change to apply when approved
+  requested_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  decided_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  decided_at TIMESTAMPTZ,
+  decision_reason TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_requests_branch_status ON approval_requests(branch_id, status, requested_at DESC);
+CREATE INDEX IF NOT EXISTS idx_approval_requests_order_id ON approval_requests(order_id);
+-- One open request of each kind per order
+CREATE UNIQUE INDEX IF NOT EXISTS idx_approval_requests_one_pending
+  ON approval_requests(order_id, type)
+  WHERE status = 'pending';
+
+-- 3. Whether the signed-in user needs approval for a change to an order.
+-- A discount counts together with the staff discounts already made since
+-- the bill was last set by an admin.
+CREATE OR REPLACE FUNCTION approval_required(p_order_id UUID, p_type TEXT, p_amount NUMERIC)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_threshold NUMERIC;
+  v_earlier_discounts NUMERIC;
+BEGIN
+  IF get_user_role() IS DISTINCT FROM 'staff' OR COALESCE(p_amount, 0) <= 0 THEN
+    RETURN false;
+  END IF;
+
+  SELECT CASE p_type
+      WHEN 'discount' THEN b.approval_discount_threshold
+      WHEN 'late_fee_waiver' THEN b.approval_late_fee_waiver_threshold
+      WHEN 'cancellation' THEN b.approval_cancel_threshold
+    END,
+    GREATEST(0, o.approved_bill_amount - (
+      COALESCE(o.total_amount, 0) - COALESCE(o.late_fee, 0) - COALESCE(o.damage_fee_total, 0)
+    ))
+  INTO v_threshold, v_earlier_discounts
+  FROM orders o
+  JOIN branches b ON b.id = o.branch_id
+  WHERE o.id = p_order_id;
+
+  IF p_type = 'discount' THEN
+    p_amount := p_amount + COALESCE(v_earlier_discounts, 0);
+  END IF;
+
+  RETURN v_threshold IS NOT NULL AND p_amount > v_threshold;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION approval_required(UUID, TEXT, NUMERIC) TO authenticated;
+
+-- What a request was asked against. Approving replays the stored change, so
+-- the order's status, amounts and items must still be the same.
+CREATE OR REPLACE FUNCTION approval_order_snapshot(p_order_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT concat_ws('|', o.status, o.total_amount, COALESCE(o.late_fee, 0), (
+    SELECT string_agg(
+      i.id || ':' || i.quantity || ':' || i.price_per_day || ':' || COALESCE(i.returned_quantity, 0),
+      ',' ORDER BY i.id
+    )
+    FROM order_items i
+    WHERE i.order_id = o.id
+  ))
+  FROM orders o
+  WHERE o.id = p_order_id;
+$$;
+
+-- 4. New requests always start pending, in the order's branch, by the
+-- caller, with a snapshot of the order as it is now
+CREATE OR REPLACE FUNCTION prepare_approval_request()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT branch_id INTO NEW.branch_id FROM orders WHERE id = NEW.order_id;
+  IF NEW.branch_id IS NULL THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  NEW.payload := COALESCE(NEW.payload, '{}') || jsonb_build_object('order_snapshot', approval_order_snapshot(NEW.order_id));
+  NEW.status := 'pending';
+  NEW.requested_by := auth.uid();
+  NEW.requested_at := NOW();
+  NEW.decided_by := NULL;
+  NEW.decided_at := NULL;
+  NEW.decision_reason := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS prepare_approval_request_trigger ON approval_requests;
+CREATE TRIGGER prepare_approval_request_trigger
+  BEFORE INSERT ON approval_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_approval_request();
+
+-- Decisions are final and only the decision columns change
+CREATE OR REPLACE FUNCTION guard_approval_decision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been %', OLD.status;
+  END IF;
+  IF NEW.status NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'A request can only be approved or rejected';
+  END IF;
+
+  NEW.branch_id := OLD.branch_id;
+  NEW.order_id := OLD.order_id;
+  NEW.type := OLD.type;
+  NEW.amount := OLD.amount;
+  NEW.summary := OLD.summary;
+  NEW.request_reason := OLD.request_reason;
+  NEW.payload := OLD.payload;
+  NEW.requested_by := OLD.requested_by;
+  NEW.requested_at := OLD.requested_at;
+  NEW.decided_by := auth.uid();
+  NEW.decided_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_approval_decision_trigger ON approval_requests;
+CREATE TRIGGER guard_approval_decision_trigger
+  BEFORE UPDATE ON approval_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_approval_decision();
+
+-- 5. RLS - branch users see their branch's requests and file new ones.
+-- No UPDATE or DELETE policies: requests are kept as the record of the
+-- decision.
+ALTER TABLE approval_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view approval requests in own branch" ON approval_requests;
+CREATE POLICY "Users can view approval requests in own branch"
+  ON approval_requests FOR SELECT
+  USING (branch_id = get_user_branch_id() OR get_user_role() = 'super_admin');
+
+DROP POLICY IF EXISTS "Users can request approval in own branch" ON approval_requests;
+CREATE POLICY "Users can request approval in own branch"
+  ON approval_requests FOR INSERT
+  WITH CHECK (branch_id = get_user_branch_id() OR get_user_role() = 'super_admin');
+
+-- Decided through decide_approval_request only
+DROP POLICY IF EXISTS "Admins can decide approval requests" ON approval_requests;
+
+-- 6. Staff can't make changes above the thresholds directly
+CREATE OR REPLACE FUNCTION enforce_approval_thresholds()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old_bill NUMERIC;
+  v_new_bill NUMERIC;
+  v_expected_late_fee NUMERIC;
+BEGIN
+  -- Late fees and damage charges are added to the total on return; only the
+  -- rest of the bill counts as a discount
+  v_old_bill := COALESCE(OLD.total_amount, 0) - COALESCE(OLD.late_fee, 0) - COALESCE(OLD.damage_fee_total, 0);
+  v_new_bill := COALESCE(NEW.total_amount, 0) - COALESCE(NEW.late_fee, 0) - COALESCE(NEW.damage_fee_total, 0);
+
+  -- Admin changes (including approved requests) set the bill later staff
+  -- discounts are measured from
+  IF NOT permission_checks_apply() OR get_user_role() IS DISTINCT FROM 'staff' THEN
+    NEW.approved_bill_amount := v_new_bill;
+    RETURN NEW;
+  END IF;
+
+  NEW.approved_bill_amount := COALESCE(OLD.approved_bill_amount, v_old_bill);
+
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    IF approval_required(OLD.id, 'cancellation', OLD.total_amount) THEN
+      RAISE EXCEPTION 'Cancelling this order needs approval from a branch admin';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Counted from the policy fee, as enforce_order_permissions does (the
+  -- return screen calculated its fee a little earlier)
+  IF NEW.late_fee IS DISTINCT FROM OLD.late_fee THEN
+    v_expected_late_fee := COALESCE(
+      calculate_order_late_fee(NEW.id, NOW() - INTERVAL '15 minutes'),
+      OLD.late_fee,
+      0
+    );
+    IF approval_required(OLD.id, 'late_fee_waiver', v_expected_late_fee - COALESCE(NEW.late_fee, 0)) THEN
+      RAISE EXCEPTION 'Waiving this much of the late fee needs approval from a branch admin';
+    END IF;
+  END IF;
+
+  IF approval_required(OLD.id, 'discount', v_old_bill - v_new_bill) THEN
+    RAISE EXCEPTION 'Lowering this order''s total needs approval from a branch admin';
+  END IF;
+
+  -- Staff adding to the bill raise the point later discounts count from
+  NEW.approved_bill_amount := GREATEST(NEW.approved_bill_amount, v_new_bill);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_approval_thresholds_trigger ON orders;
+CREATE TRIGGER enforce_approval_thresholds_trigger
+  BEFORE UPDATE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_approval_thresholds();
+
+-- 7. Deciding requests. The request row is locked, so two admins deciding at
+-- once can't both apply it, and the change is made in the same transaction
+-- as the decision: a change the database refuses leaves the request pending.
+-- Order updates run the orders triggers as the approver.
+
+-- Amounts on the timeline, as formatCurrency in lib/utils/date.ts
+CREATE OR REPLACE FUNCTION format_rupees(p_amount NUMERIC)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT '₹' || TO_CHAR(COALESCE(p_amount, 0), 'FM999,999,999,990.00');
+$$;
+
+-- Credit note for an approved lower total, issued before the order is
+-- updated (issueBillingAdjustmentCreditNote in lib/queries/credit-notes.ts)
+CREATE OR REPLACE FUNCTION credit_approved_reduction(p_order_id UUID, p_total NUMERIC, p_gst NUMERIC)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+  v_reduction NUMERIC;
+  v_gst NUMERIC;
+  v_reason TEXT;
+  v_credit_note credit_notes;
+BEGIN
+  SELECT id, branch_id, customer_id, invoice_number, total_amount, gst_amount
+  INTO v_order
+  FROM orders
+  WHERE id = p_order_id;
+
+  v_reduction := ROUND(COALESCE(v_order.total_amount, 0) - p_total, 2);
+  IF v_order.invoice_number IS NULL OR v_reduction <= 0 THEN
+    RETURN;
+  END IF;
+
+  v_gst := ROUND(LEAST(GREATEST(COALESCE(v_order.gst_amount, 0) - COALESCE(p_gst, 0), 0), v_reduction), 2);
+  v_reason := 'Total changed from ' || format_rupees(v_order.total_amount) || ' to ' || format_rupees(p_total);
+
+  INSERT INTO credit_notes (
+    order_id, branch_id, customer_id, invoice_number, note_type, reason,
+    taxable_value, gst_amount, total_amount, issued_by
+  ) VALUES (
+    v_order.id, v_order.branch_id, v_order.customer_id, v_order.invoice_number, 'billing_adjustment', v_reason,
+    v_reduction - v_gst, v_gst, v_reduction, auth.uid()
+  )
+  RETURNING * INTO v_credit_note;
+
+  INSERT INTO order_return_audit (order_id, action, user_id, notes)
+  VALUES (
+    v_order.id, 'credit_note_issued', auth.uid(),
+    v_credit_note.credit_note_number || ': ' || format_rupees(v_reduction) || ' billing adjustment - ' || v_reason
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION credit_approved_reduction(UUID, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Order edits (payload kind "edit"): the order, then its items in place so
+-- their return, maintenance and damage records stay attached
+-- (updateOrder in lib/queries/orders.ts)
+CREATE OR REPLACE FUNCTION apply_approved_order_edit(p_order_id UUID, p_input JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+  v_item_count INTEGER;
+  v_new_item_count INTEGER := jsonb_array_length(COALESCE(p_input->'items', '[]'));
+  v_overbooked TEXT;
+  v_changes TEXT[] := '{}';
+BEGIN
+  SELECT id, branch_id, status, invoice_number, start_date, end_date, total_amount
+  INTO v_order
+  FROM orders
+  WHERE id = p_order_id;
+
+  -- Items with a recorded return can't be changed or removed
+  IF EXISTS (
+    SELECT 1
+    FROM order_items oi
+    WHERE oi.order_id = v_order.id
+      AND ((oi.return_status IS NOT NULL AND oi.return_status <> 'not_yet_returned') OR COALESCE(oi.returned_quantity, 0) > 0)
+      AND NOT EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(p_input->'items') item
+        WHERE item->>'id' = oi.id::TEXT
+          AND NULLIF(item->>'product_id', '')::UUID IS NOT DISTINCT FROM oi.product_id
+          AND (item->>'quantity')::INTEGER = oi.quantity
+      )
+  ) THEN
+    RAISE EXCEPTION 'Items with a recorded return can''t be changed or removed';
+  END IF;
+
+  -- Stock may have been booked since the request
+  SELECT string_agg(r.product_name || ' (' || a.available_quantity || ' available, ' || r.quantity || ' requested)', ', ')
+  INTO v_overbooked
+  FROM (
+    SELECT
+      NULLIF(item->>'product_id', '')::UUID AS product_id,
+      MIN(COALESCE(NULLIF(item->>'product_name', ''), 'Product')) AS product_name,
+      SUM((item->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(p_input->'items') item
+    WHERE NULLIF(item->>'product_id', '') IS NOT NULL
+    GROUP BY 1
+  ) r
+  JOIN get_product_availability(
+    v_order.branch_id, (p_input->>'start_date')::TIMESTAMPTZ, (p_input->>'end_date')::TIMESTAMPTZ, NULL, v_order.id
+  ) a ON a.product_id = r.product_id
+  WHERE r.quantity > a.available_quantity;
+
+  IF v_overbooked IS NOT NULL THEN
+    RAISE EXCEPTION 'Not enough stock for these dates: %', v_overbooked;
+  END IF;
+
+  SELECT COUNT(*) INTO v_item_count FROM order_items WHERE order_id = v_order.id;
+
+  IF v_order.invoice_number IS DISTINCT FROM p_input->>'invoice_number' THEN
+    v_changes := array_append(v_changes, 'invoice number');
+  END IF;
+  IF v_order.start_date IS DISTINCT FROM split_part(p_input->>'start_date', 'T', 1)::DATE THEN
+    v_changes := array_append(v_changes, 'start date');
+  END IF;
+  IF v_order.end_date IS DISTINCT FROM split_part(p_input->>'end_date', 'T', 1)::DATE THEN
+    v_changes := array_append(v_changes, 'end date');
+  END IF;
+  IF ABS(COALESCE(v_order.total_amount, 0) - (p_input->>'total_amount')::NUMERIC) > 0.01 THEN
+    v_changes := array_append(v_changes, 'total amount');
+  END IF;
+  IF v_new_item_count > v_item_count THEN
+    v_changes := array_append(v_changes, 'added ' || (v_new_item_count - v_item_count) || ' item'
+      || CASE WHEN v_new_item_count - v_item_count <> 1 THEN 's' ELSE '' END);
+  ELSIF v_new_item_count < v_item_count THEN
+    v_changes := array_append(v_changes, 'removed ' || (v_item_count - v_new_item_count) || ' item'
+      || CASE WHEN v_item_count - v_new_item_count <> 1 THEN 's' ELSE '' END);
+  END IF;
+
+  PERFORM credit_approved_reduction(v_order.id, (p_input->>'total_amount')::NUMERIC, (p_input->>'gst_amount')::NUMERIC);
+
+  UPDATE orders
+  SET
+    invoice_number = p_input->>'invoice_number',
+    start_date = split_part(p_input->>'start_date', 'T', 1)::DATE,
+    end_date = split_part(p_input->>'end_date', 'T', 1)::DATE,
+    start_datetime = (p_input->>'start_date')::TIMESTAMPTZ,
+    end_datetime = (p_input->>'end_date')::TIMESTAMPTZ,
+    total_amount = (p_input->>'total_amount')::NUMERIC,
+    subtotal = COALESCE((p_input->>'subtotal')::NUMERIC, subtotal),
+    gst_amount = COALESCE((p_input->>'gst_amount')::NUMERIC, gst_amount)
+  WHERE id = v_order.id;
+
+  DELETE FROM order_items oi
+  WHERE oi.order_id = v_order.id
+    AND NOT EXISTS (SELECT 1 FROM jsonb_array_elements(p_input->'items') item WHERE item->>'id' = oi.id::TEXT);
+
+  UPDATE order_items oi
+  SET
+    product_id = NULLIF(item->>'product_id', '')::UUID,
+    photo_url = item->>'photo_url',
+    product_name = NULLIF(item->>'product_name', ''),
+    hsn_sac = NULLIF(item->>'hsn_sac', ''),
+    quantity = (item->>'quantity')::INTEGER,
+    price_per_day = (item->>'price_per_day')::NUMERIC,
+    days = (item->>'days')::INTEGER,
+    line_total = (item->>'line_total')::NUMERIC
+  FROM jsonb_array_elements(p_input->'items') item
+  WHERE oi.order_id = v_order.id AND oi.id::TEXT = item->>'id';
+
+  INSERT INTO order_items (order_id, product_id, photo_url, product_name, hsn_sac, quantity, price_per_day, days, line_total)
+  SELECT
+    v_order.id,
+    NULLIF(item->>'product_id', '')::UUID,
+    item->>'photo_url',
+    NULLIF(item->>'product_name', ''),
+    NULLIF(item->>'hsn_sac', ''),
+    (item->>'quantity')::INTEGER,
+    (item->>'price_per_day')::NUMERIC,
+    (item->>'days')::INTEGER,
+    (item->>'line_total')::NUMERIC
+  FROM jsonb_array_elements(p_input->'items') item
+  WHERE NOT EXISTS (SELECT 1 FROM order_items oi WHERE oi.order_id = v_order.id AND oi.id::TEXT = item->>'id');
+
+  IF array_length(v_changes, 1) > 0 THEN
+    INSERT INTO order_return_audit (order_id, action, previous_status, user_id, notes)
+    VALUES (v_order.id, 'order_edited', v_order.status, auth.uid(), array_to_string(v_changes, ', '));
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_approved_order_edit(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION decide_approval_request(
+  p_request_id UUID,
+  p_decision TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS approval_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request approval_requests;
+  v_order RECORD;
+  v_input JSONB;
+  v_late_fee NUMERIC;
+  v_credit_note credit_notes;
+  v_label TEXT;
+BEGIN
+  SELECT * INTO v_request FROM approval_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF v_request.id IS NULL OR NOT (
+    get_user_role() = 'super_admin'
+    OR (get_user_role() = 'branch_admin' AND v_request.branch_id = get_user_branch_id())
+  ) THEN
+    RAISE EXCEPTION 'Approval request not found';
+  END IF;
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been %', v_request.status;
+  END IF;
+  IF p_decision IS NULL OR p_decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'A request can only be approved or rejected';
+  END IF;
+
+  IF p_decision = 'approved' THEN
+    SELECT id, status, total_amount, gst_amount, late_fee
+    INTO v_order
+    FROM orders
+    WHERE id = v_request.order_id
+    FOR UPDATE;
+
+    -- A stale change isn't replayed over newer edits
+    IF v_request.payload->>'order_snapshot' IS DISTINCT FROM approval_order_snapshot(v_order.id) THEN
+      RAISE EXCEPTION 'The order has changed since this was requested. Reject it and ask for a new request.';
+    END IF;
+
+    v_input := v_request.payload->'input';
+
+    IF v_request.type = 'cancellation' THEN
+      -- Invoiced orders are credited by issue_cancellation_credit_note
+      UPDATE orders SET status = 'cancelled' WHERE id = v_order.id;
+
+      INSERT INTO order_return_audit (order_id, action, previous_status, new_status, user_id, notes)
+      VALUES (v_order.id, 'order_cancelled', v_order.status, 'cancelled', auth.uid(), 'Order was cancelled');
+
+    ELSIF v_request.type = 'late_fee_waiver' THEN
+      v_late_fee := COALESCE((v_request.payload->>'late_fee')::NUMERIC, 0);
+
+      IF COALESCE(v_order.late_fee, 0) > v_late_fee THEN
+        PERFORM credit_approved_reduction(
+          v_order.id, v_order.total_amount - (v_order.late_fee - v_late_fee), v_order.gst_amount
+        );
+
+        UPDATE orders
+        SET late_fee = v_late_fee, total_amount = total_amount - (v_order.late_fee - v_late_fee)
+        WHERE id = v_order.id;
+
+        -- The waiver counts for the staff member who asked for it
+        INSERT INTO order_return_audit (order_id, action, user_id, requested_by, waived_amount, notes)
+        VALUES (
+          v_order.id, 'late_fee_overridden', auth.uid(), v_request.requested_by,
+          GREATEST(COALESCE((v_request.payload->>'calculated_fee')::NUMERIC, 0) - v_late_fee, 0),
+          format_rupees((v_request.payload->>'calculated_fee')::NUMERIC) || ' → ' || format_rupees(v_late_fee)
+            || COALESCE(': ' || NULLIF(TRIM(v_request.request_reason), ''), '')
+        );
+      END IF;
+
+    ELSIF v_request.payload->>'kind' = 'refund' THEN
+      v_credit_note := issue_refund_credit_note(
+        v_order.id,
+        (v_input->>'amount')::NUMERIC,
+        v_input->>'reason',
+        COALESCE((v_input->>'gstIncluded')::BOOLEAN, false),
+        NULLIF(v_input->>'refundMode', '')
+      );
+
+      INSERT INTO order_return_audit (order_id, action, user_id, notes)
+      VALUES (
+        v_order.id, 'credit_note_issued', auth.uid(),
+        v_credit_note.credit_note_number || ': ' || format_rupees(v_credit_note.total_amount) || ' refund'
+          || COALESCE(' - paid back via ' || CASE v_input->>'refundMode'
+            WHEN 'upi' THEN 'UPI'
+            ELSE INITCAP(NULLIF(v_input->>'refundMode', ''))
+          END, '')
+          || ' - ' || TRIM(v_input->>'reason')
+      );
+
+    ELSIF v_request.payload->>'kind' = 'edit' THEN
+      PERFORM apply_approved_order_edit(v_order.id, v_input);
+
+    ELSE
+      PERFORM credit_approved_reduction(
+        v_order.id, (v_input->>'total_amount')::NUMERIC, (v_input->>'gst_amount')::NUMERIC
+      );
+
+      UPDATE orders
+      SET
+        invoice_number = v_input->>'invoice_number',
+        subtotal = (v_input->>'subtotal')::NUMERIC,
+        gst_amount = (v_input->>'gst_amount')::NUMERIC,
+        total_amount = (v_input->>'total_amount')::NUMERIC
+      WHERE id = v_order.id;
+
+      INSERT INTO order_return_audit (order_id, action, user_id, notes)
+      VALUES (v_order.id, 'billing_updated', auth.uid(), 'Total: ₹' || ROUND((v_input->>'total_amount')::NUMERIC));
+    END IF;
+  END IF;
+
+  UPDATE approval_requests
+  SET status = p_decision, decision_reason = NULLIF(TRIM(p_reason), '')
+  WHERE id = v_request.id
+  RETURNING * INTO v_request;
+
+  v_label := CASE v_request.type
+    WHEN 'discount' THEN 'Discount'
+    WHEN 'late_fee_waiver' THEN 'Late Fee Waiver'
+    ELSE 'Cancellation'
+  END;
+
+  INSERT INTO order_return_audit (order_id, action, user_id, notes)
+  VALUES (
+    v_request.order_id,
+    CASE WHEN p_decision = 'approved' THEN 'approval_approved' ELSE 'approval_rejected' END,
+    auth.uid(),
+    v_label || ' - ' || v_request.summary || COALESCE(': ' || NULLIF(TRIM(p_reason), ''), '')
+  );
+
+  RETURN v_request;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION decide_approval_request(UUID, TEXT, TEXT) TO authenticated;
+
+COMMENT ON TABLE approval_requests IS 'Staff changes above the branch thresholds, waiting for or decided by a branch admin';
@@ -0,0 +1,153 @@
+-- ============================================
+-- Branch data backup and restore
+-- Restores run server-side with the service role key (no signed-in user),
+-- so the blacklist guards let the service role through: a restored
+-- customer keeps its blacklist, and orders that were overridden keep the
+-- override. Restored rows keep their invoice, credit note and customer
+-- numbers, and sync_numbering_after_restore moves the counters past them.
+-- Run this in Supabase SQL Editor (after add-customer-risk.sql and
+-- add-credit-notes.sql)
+-- ============================================
+
+-- 1. Blacklist guards: service role writes are trusted as-is
+CREATE OR REPLACE FUNCTION guard_customer_blacklist()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.is_blacklisted IS NOT DISTINCT FROM OLD.is_blacklisted
+    AND NEW.blacklist_reason IS NOT DISTINCT FROM OLD.blacklist_reason THEN
+    -- Blacklist untouched - keep the audit columns as they were
+    NEW.blacklisted_at := OLD.blacklisted_at;
+    NEW.blacklisted_by := OLD.blacklisted_by;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NOT NEW.is_blacklisted THEN
+    NEW.blacklist_reason := NULL;
+    NEW.blacklisted_at := NULL;
+    NEW.blacklisted_by := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('super_admin', 'branch_admin')
+  ) THEN
+    RAISE EXCEPTION 'Only admins can change the customer blacklist';
+  END IF;
+
+  IF NEW.is_blacklisted THEN
+    IF COALESCE(TRIM(NEW.blacklist_reason), '') = '' THEN
+      RAISE EXCEPTION 'A reason is required to blacklist a customer';
+    END IF;
+    NEW.blacklisted_at := NOW();
+    NEW.blacklisted_by := auth.uid();
+  ELSE
+    NEW.blacklist_reason := NULL;
+    NEW.blacklisted_at := NULL;
+    NEW.blacklisted_by := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION check_customer_blacklist_on_order()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_customer RECORD;
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name, is_blacklisted INTO v_customer FROM customers WHERE id = NEW.customer_id;
+
+  IF NOT COALESCE(v_customer.is_blacklisted, false) THEN
+    NEW.blacklist_override_by := NULL;
+    NEW.blacklist_override_reason := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.blacklist_override_by IS NULL
+    OR NEW.blacklist_override_by IS DISTINCT FROM auth.uid()
+    OR NOT EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('super_admin', 'branch_admin')
+    ) THEN
+    RAISE EXCEPTION '% is blacklisted. An admin must override to create an order.', v_customer.name;
+  END IF;
+
+  IF COALESCE(TRIM(NEW.blacklist_override_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to override the blacklist';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 2. Move the numbering counters past restored numbers
+CREATE OR REPLACE FUNCTION sync_numbering_after_restore()
+RETURNS VOID AS $$
+DECLARE
+  v_max_customer INTEGER;
+BEGIN
+  -- Customer numbers: GLA-00001
+  SELECT MAX(SUBSTRING(customer_number FROM '^GLA-(\d+)$')::INTEGER)
+  INTO v_max_customer
+  FROM customers;
+
+  IF v_max_customer IS NOT NULL THEN
+    PERFORM setval('customer_number_seq', GREATEST(v_max_customer, (SELECT last_value FROM customer_number_seq)));
+  END IF;
+
+  -- Invoice numbers: <PREFIX>/<FY>/<NNNN>, per branch and financial year
+  INSERT INTO invoice_sequences (branch_id, financial_year, last_number)
+  SELECT
+    o.branch_id,
+    SPLIT_PART(o.invoice_number, '/', 2),
+    MAX(SPLIT_PART(o.invoice_number, '/', 3)::INTEGER)
+  FROM orders o
+  JOIN branches b ON b.id = o.branch_id
+  WHERE o.invoice_number ~ ('^' || b.invoice_prefix || '/\d{2}-\d{2}/\d+$')
+  GROUP BY o.branch_id, SPLIT_PART(o.invoice_number, '/', 2)
+  ON CONFLICT (branch_id, financial_year)
+  DO UPDATE SET
+    last_number = GREATEST(invoice_sequences.last_number, EXCLUDED.last_number),
+    updated_at = NOW();
+
+  -- Credit note numbers: <PREFIX>/CN<YY>/<NNNN>, per branch and financial year
+  -- (YY is the start year, so 'CN25' is financial year '25-26')
+  INSERT INTO credit_note_sequences (branch_id, financial_year, last_number)
+  SELECT
+    n.branch_id,
+    n.start_year || '-' || lpad(((n.start_year::INTEGER + 1) % 100)::TEXT, 2, '0'),
+    MAX(n.number)
+  FROM (
+    SELECT
+      c.branch_id,
+      SUBSTRING(SPLIT_PART(c.credit_note_number, '/', 2) FROM 3) AS start_year,
+      SPLIT_PART(c.credit_note_number, '/', 3)::INTEGER AS number
+    FROM credit_notes c
+    JOIN branches b ON b.id = c.branch_id
+    WHERE c.credit_note_number ~ ('^' || b.invoice_prefix || '/CN\d{2}/\d+$')
+  ) n
+  GROUP BY n.branch_id, n.start_year
+  ON CONFLICT (branch_id, financial_year)
+  DO UPDATE SET
+    last_number = GREATEST(credit_note_sequences.last_number, EXCLUDED.last_number),
+    updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the restore API (service role) calls this
+REVOKE EXECUTE ON FUNCTION sync_numbering_after_restore() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION sync_numbering_after_restore() TO service_role;
+
+COMMENT ON FUNCTION sync_numbering_after_restore IS 'Moves invoice, credit note and customer number counters past restored rows';
@@ -0,0 +1,303 @@
+-- ============================================
+-- Credit notes
+-- A credit note reduces the value of an issued invoice:
+--   cancellation       - order cancelled after its invoice was issued
+--   billing_adjustment - order total lowered after invoicing
+--   refund             - refund or discount given after invoicing
+-- Numbered per branch and financial year in their own series:
+-- <PREFIX>/CN<YY>/<NNNN>, e.g. GLA/CN25/0001 for FY 25-26 (max 16 chars for
+-- GST, like invoice numbers)
+-- Adjustments and refunds also lower the order's total_amount, so the
+-- order total stays the amount actually owed; a cancelled order keeps its
+-- total and its credit note cancels all of it. Cancellation credit notes are
+-- issued by a trigger, so every way of cancelling (including the scheduled
+-- order auto-cancel) credits the invoice. Money paid back to the customer
+-- goes into the payments ledger as a 'refund' entry.
+-- Credit notes can't be edited or deleted once issued.
+-- Requires add-invoice-sequences.sql (branch prefix, financial year helpers)
+-- and add-payments-ledger.sql.
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+-- 1. Credit notes table
+CREATE TABLE IF NOT EXISTS credit_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  credit_note_number TEXT UNIQUE NOT NULL,
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  invoice_number TEXT NOT NULL, -- Invoice being credited
+  note_type TEXT NOT NULL CHECK (note_type IN ('cancellation', 'billing_adjustment', 'refund')),
+  reason TEXT,
+  taxable_value NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  gst_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (gst_amount >= 0),
+  total_amount NUMERIC(10, 2) NOT NULL CHECK (total_amount > 0),
+  issued_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (taxable_value + gst_amount = total_amount)
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_notes_order_id ON credit_notes(order_id);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_branch_issued_at ON credit_notes(branch_id, issued_at);
+
+-- 2. Counters (only touched by the trigger below - no client policies)
+CREATE TABLE IF NOT EXISTS credit_note_sequences (
+  branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  financial_year TEXT NOT NULL,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (branch_id, financial_year)
+);
+
+ALTER TABLE credit_note_sequences ENABLE ROW LEVEL SECURITY;
+
+-- Only the start year of the financial year fits: GLA/CN25/0001 for '25-26'
+CREATE OR REPLACE FUNCTION format_credit_note_number(p_prefix TEXT, p_financial_year TEXT, p_number INTEGER)
+RETURNS TEXT AS $$
+  SELECT p_prefix || '/CN' || LEFT(p_financial_year, 2) || '/' ||
+    CASE WHEN p_number < 10000 THEN lpad(p_number::TEXT, 4, '0') ELSE p_number::TEXT END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 3. Fill in the order details and number on insert.
+-- Branch, customer and invoice always come from the order, and a credit note
+-- can't exceed what is still billed on it.
+CREATE OR REPLACE FUNCTION assign_credit_note_number()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_order RECORD;
+  v_prefix TEXT;
+  v_financial_year TEXT;
+  v_number INTEGER;
+BEGIN
+  -- Credit notes restored from a backup (service role) keep their number
+  IF auth.role() = 'service_role' AND NEW.credit_note_number IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id, branch_id, customer_id, invoice_number, status, total_amount
+  INTO v_order
+  FROM orders
+  WHERE id = NEW.order_id;
+
+  IF v_order.id IS NULL THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF v_order.invoice_number IS NULL THEN
+    RAISE EXCEPTION 'Order has no invoice to credit';
+  END IF;
+  IF v_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Invoice % is already cancelled', v_order.invoice_number;
+  END IF;
+  IF NEW.total_amount > v_order.total_amount THEN
+    RAISE EXCEPTION 'Credit note of % exceeds the billed amount of %', NEW.total_amount, v_order.total_amount;
+  END IF;
+
+  NEW.branch_id := v_order.branch_id;
+  NEW.customer_id := v_order.customer_id;
+  NEW.invoice_number := v_order.invoice_number;
+  NEW.issued_at := NOW();
+
+  SELECT invoice_prefix INTO v_prefix FROM branches WHERE id = v_order.branch_id;
+  IF v_prefix IS NULL THEN
+    RAISE EXCEPTION 'Branch has no invoice prefix. Set one in branch settings.';
+  END IF;
+
+  v_financial_year := financial_year_label(NEW.issued_at);
+
+  INSERT INTO credit_note_sequences (branch_id, financial_year, last_number)
+  VALUES (v_order.branch_id, v_financial_year, 1)
+  ON CONFLICT (branch_id, financial_year)
+  DO UPDATE SET last_number = credit_note_sequences.last_number + 1, updated_at = NOW()
+  RETURNING last_number INTO v_number;
+
+  NEW.credit_note_number := format_credit_note_number(v_prefix, v_financial_year, v_number);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS assign_credit_note_number_trigger ON credit_notes;
+CREATE TRIGGER assign_credit_note_number_trigger
+  BEFORE INSERT ON credit_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_credit_note_number();
+
+-- 4. RLS - branch users work with their own branch, super admins all branches.
+-- No UPDATE or DELETE policies: issued credit notes are final.
+ALTER TABLE credit_notes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view credit notes in own branch" ON credit_notes;
+CREATE POLICY "Users can view credit notes in own branch"
+  ON credit_notes FOR SELECT
+  USING (
+    branch_id = (SELECT branch_id FROM profiles WHERE profiles.id = auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can issue credit notes in own branch" ON credit_notes;
+CREATE POLICY "Users can issue credit notes in own branch"
+  ON credit_notes FOR INSERT
+  WITH CHECK (
+    branch_id = (SELECT branch_id FROM profiles WHERE profiles.id = auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+-- 5. Refunds paid back count against what was paid on the order
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_payment_type_check;
+ALTER TABLE payments ADD CONSTRAINT payments_payment_type_check
+  CHECK (payment_type IN ('advance', 'balance', 'settlement', 'refund'));
+
+CREATE OR REPLACE VIEW order_balances
+WITH (security_invoker = true) AS
+SELECT
+  o.id AS order_id,
+  o.customer_id,
+  o.branch_id,
+  o.status,
+  o.total_amount,
+  COALESCE(p.amount_paid, 0)::NUMERIC(10, 2) AS amount_paid,
+  (o.total_amount - COALESCE(p.amount_paid, 0))::NUMERIC(10, 2) AS balance_due
+FROM orders o
+LEFT JOIN (
+  SELECT order_id, SUM(CASE WHEN payment_type = 'refund' THEN -amount ELSE amount END) AS amount_paid
+  FROM payments
+  GROUP BY order_id
+) p ON p.order_id = o.id;
+
+-- 6. Refunds: the credit note, the lowered order amounts and any money paid
+-- back in one transaction, so a refund the order update rejects (permissions,
+-- approval thresholds) doesn't leave a credit note behind. The order update
+-- runs the orders triggers as the caller.
+CREATE OR REPLACE FUNCTION issue_refund_credit_note(
+  p_order_id UUID,
+  p_amount NUMERIC,
+  p_reason TEXT,
+  p_gst_included BOOLEAN DEFAULT false, -- Subtotal already contains the GST
+  p_refund_mode TEXT DEFAULT NULL -- How the money was paid back; NULL = only the amount due goes down
+)
+RETURNS credit_notes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+  v_amount NUMERIC := ROUND(p_amount, 2);
+  v_gst NUMERIC;
+  v_credit_note credit_notes;
+BEGIN
+  SELECT id, branch_id, customer_id, invoice_number, status, subtotal, gst_amount, total_amount
+  INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF v_order.id IS NULL
+    OR (v_order.branch_id IS DISTINCT FROM get_user_branch_id() AND get_user_role() IS DISTINCT FROM 'super_admin') THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Credit amount must be greater than zero';
+  END IF;
+  IF COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Enter a reason for the credit note';
+  END IF;
+
+  -- GST share in the same proportion as the order
+  v_gst := CASE
+    WHEN COALESCE(v_order.total_amount, 0) > 0
+      THEN ROUND(LEAST(v_amount, v_amount * COALESCE(v_order.gst_amount, 0) / v_order.total_amount), 2)
+    ELSE 0
+  END;
+
+  INSERT INTO credit_notes (
+    order_id, branch_id, customer_id, invoice_number, note_type, reason,
+    taxable_value, gst_amount, total_amount, issued_by
+  ) VALUES (
+    v_order.id, v_order.branch_id, v_order.customer_id, v_order.invoice_number, 'refund', TRIM(p_reason),
+    v_amount - v_gst, v_gst, v_amount, auth.uid()
+  )
+  RETURNING * INTO v_credit_note;
+
+  UPDATE orders
+  SET
+    subtotal = CASE
+      WHEN subtotal IS NULL THEN NULL
+      ELSE ROUND(GREATEST(0, subtotal - CASE WHEN p_gst_included THEN v_amount ELSE v_amount - v_gst END), 2)
+    END,
+    gst_amount = ROUND(GREATEST(0, COALESCE(gst_amount, 0) - v_gst), 2),
+    total_amount = ROUND(total_amount - v_amount, 2)
+  WHERE id = v_order.id;
+
+  IF p_refund_mode IS NOT NULL THEN
+    INSERT INTO payments (order_id, customer_id, branch_id, amount, payment_type, payment_mode, notes, received_by)
+    VALUES (
+      v_order.id, v_order.customer_id, v_order.branch_id, v_amount, 'refund', p_refund_mode,
+      v_credit_note.credit_note_number, auth.uid()
+    );
+  END IF;
+
+  RETURN v_credit_note;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION issue_refund_credit_note(UUID, NUMERIC, TEXT, BOOLEAN, TEXT) TO authenticated;
+
+-- 7. Cancelling an invoiced order credits whatever is still billed on it.
+-- BEFORE UPDATE, while the order isn't cancelled yet (assign_credit_note_number
+-- refuses cancelled orders); it runs after the permission triggers.
+CREATE OR REPLACE FUNCTION issue_cancellation_credit_note()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_gst NUMERIC;
+  v_credit_note credit_notes;
+BEGIN
+  IF NEW.status IS DISTINCT FROM 'cancelled'
+    OR OLD.status = 'cancelled'
+    OR OLD.invoice_number IS NULL
+    OR COALESCE(OLD.total_amount, 0) <= 0
+    OR EXISTS (SELECT 1 FROM credit_notes WHERE order_id = OLD.id AND note_type = 'cancellation') THEN
+    RETURN NEW;
+  END IF;
+
+  v_gst := LEAST(GREATEST(COALESCE(OLD.gst_amount, 0), 0), OLD.total_amount);
+
+  INSERT INTO credit_notes (
+    order_id, branch_id, customer_id, invoice_number, note_type, reason,
+    taxable_value, gst_amount, total_amount, issued_by
+  ) VALUES (
+    OLD.id, OLD.branch_id, OLD.customer_id, OLD.invoice_number, 'cancellation', 'Order cancelled',
+    OLD.total_amount - v_gst, v_gst, OLD.total_amount, auth.uid()
+  )
+  RETURNING * INTO v_credit_note;
+
+  -- On the timeline of whoever cancelled it (not for the auto-cancel job)
+  IF auth.uid() IS NOT NULL AND COALESCE(current_setting('app.system_job', true), '') <> 'on' THEN
+    INSERT INTO order_return_audit (order_id, action, user_id, notes)
+    VALUES (
+      OLD.id, 'credit_note_issued', auth.uid(),
+      v_credit_note.credit_note_number || ': ₹' || TO_CHAR(v_credit_note.total_amount, 'FM999,999,999,990.00')
+        || ' cancellation - Order cancelled'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS issue_cancellation_credit_note_trigger ON orders;
+CREATE TRIGGER issue_cancellation_credit_note_trigger
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION issue_cancellation_credit_note();
+
+COMMENT ON TABLE credit_notes IS 'Credit notes against issued invoices (cancellations, billing adjustments, refunds)';
+COMMENT ON TABLE credit_note_sequences IS 'Last issued credit note number per branch and financial year';
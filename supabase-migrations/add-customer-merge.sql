@@ -0,0 +1,141 @@
+-- ============================================
+-- Customer duplicate detection and merge
+-- phone_digits / id_proof_key are normalised copies of phone and
+-- id_proof_number used to spot duplicates when a customer is created:
+--   phone_digits - last 10 digits ("+91 98765-43210" -> 9876543210)
+--   id_proof_key - ID number without spaces, dashes or case
+-- merge_customers(survivor, duplicate) moves the duplicate's orders,
+-- payments and credit notes onto the surviving customer, fills in any
+-- details the survivor is missing (address, ID proof, GSTIN), then deletes
+-- the duplicate. The duplicate's customer_number is kept on the survivor in
+-- previous_customer_numbers and logged in customer_merges.
+-- Requires add-customer-risk.sql (blacklist columns).
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+-- 1. Normalised lookup columns
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS phone_digits TEXT
+  GENERATED ALWAYS AS (RIGHT(REGEXP_REPLACE(COALESCE(phone, ''), '\D', '', 'g'), 10)) STORED;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS id_proof_key TEXT
+  GENERATED ALWAYS AS (NULLIF(UPPER(REGEXP_REPLACE(COALESCE(id_proof_number, ''), '[^A-Za-z0-9]', '', 'g')), '')) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_customers_phone_digits ON customers(phone_digits);
+CREATE INDEX IF NOT EXISTS idx_customers_id_proof_key ON customers(id_proof_key) WHERE id_proof_key IS NOT NULL;
+
+-- 2. Customer numbers of customers merged into this one
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS previous_customer_numbers TEXT[] NOT NULL DEFAULT '{}';
+
+-- 3. Merge log
+CREATE TABLE IF NOT EXISTS customer_merges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  survivor_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  merged_customer_id UUID NOT NULL, -- Deleted by the merge, so no foreign key
+  merged_customer_number TEXT,
+  merged_name TEXT NOT NULL,
+  merged_phone TEXT,
+  merged_id_proof_type TEXT,
+  merged_id_proof_number TEXT,
+  merged_id_proof_front_url TEXT, -- Kept even when the survivor had its own ID proof
+  merged_id_proof_back_url TEXT,
+  orders_moved INTEGER NOT NULL DEFAULT 0,
+  merged_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  merged_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_merges_survivor_id ON customer_merges(survivor_id);
+
+ALTER TABLE customer_merges ENABLE ROW LEVEL SECURITY;
+
+-- The log keeps the merged customer's phone and ID proof, so only the admins
+-- who can merge may read it
+DROP POLICY IF EXISTS "Authenticated users can view customer merges" ON customer_merges;
+DROP POLICY IF EXISTS "Admins can view customer merges" ON customer_merges;
+CREATE POLICY "Admins can view customer merges"
+  ON customer_merges FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('super_admin', 'branch_admin')
+    )
+  );
+
+-- 4. Merge (admin only)
+CREATE OR REPLACE FUNCTION merge_customers(p_survivor_id UUID, p_duplicate_id UUID)
+RETURNS customers AS $$
+DECLARE
+  v_survivor customers;
+  v_duplicate customers;
+  v_orders_moved INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('super_admin', 'branch_admin')
+  ) THEN
+    RAISE EXCEPTION 'Only admins can merge customers';
+  END IF;
+
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'Cannot merge a customer into itself';
+  END IF;
+
+  -- Lock both rows so neither changes mid-merge
+  SELECT * INTO v_survivor FROM customers WHERE id = p_survivor_id FOR UPDATE;
+  SELECT * INTO v_duplicate FROM customers WHERE id = p_duplicate_id FOR UPDATE;
+
+  IF v_survivor.id IS NULL OR v_duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  UPDATE orders SET customer_id = p_survivor_id WHERE customer_id = p_duplicate_id;
+  GET DIAGNOSTICS v_orders_moved = ROW_COUNT;
+
+  UPDATE payments SET customer_id = p_survivor_id WHERE customer_id = p_duplicate_id;
+  UPDATE credit_notes SET customer_id = p_survivor_id WHERE customer_id = p_duplicate_id;
+
+  INSERT INTO customer_merges (
+    survivor_id, merged_customer_id, merged_customer_number, merged_name, merged_phone,
+    merged_id_proof_type, merged_id_proof_number, merged_id_proof_front_url, merged_id_proof_back_url,
+    orders_moved, merged_by
+  ) VALUES (
+    p_survivor_id, v_duplicate.id, v_duplicate.customer_number, v_duplicate.name, v_duplicate.phone,
+    v_duplicate.id_proof_type, v_duplicate.id_proof_number, v_duplicate.id_proof_front_url, v_duplicate.id_proof_back_url,
+    v_orders_moved, auth.uid()
+  );
+
+  DELETE FROM customers WHERE id = p_duplicate_id;
+
+  -- Fill in what the survivor is missing. ID proof moves as a set so the
+  -- type, number and images always belong together.
+  UPDATE customers SET
+    address = COALESCE(NULLIF(TRIM(address), ''), v_duplicate.address),
+    id_proof_type = CASE WHEN id_proof_number IS NULL AND id_proof_front_url IS NULL
+      THEN v_duplicate.id_proof_type ELSE id_proof_type END,
+    id_proof_number = CASE WHEN id_proof_number IS NULL AND id_proof_front_url IS NULL
+      THEN v_duplicate.id_proof_number ELSE id_proof_number END,
+    id_proof_front_url = CASE WHEN id_proof_number IS NULL AND id_proof_front_url IS NULL
+      THEN v_duplicate.id_proof_front_url ELSE id_proof_front_url END,
+    id_proof_back_url = CASE WHEN id_proof_number IS NULL AND id_proof_front_url IS NULL
+      THEN v_duplicate.id_proof_back_url ELSE id_proof_back_url END,
+    gstin = COALESCE(gstin, v_duplicate.gstin),
+    state_code = COALESCE(state_code, v_duplicate.state_code),
+    -- A blacklist on either record stays with the merged customer
+    is_blacklisted = is_blacklisted OR v_duplicate.is_blacklisted,
+    blacklist_reason = CASE WHEN is_blacklisted THEN blacklist_reason ELSE v_duplicate.blacklist_reason END,
+    previous_customer_numbers = previous_customer_numbers
+      || v_duplicate.previous_customer_numbers
+      || ARRAY_REMOVE(ARRAY[v_duplicate.customer_number], NULL)
+  WHERE id = p_survivor_id
+  RETURNING * INTO v_survivor;
+
+  RETURN v_survivor;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION merge_customers(UUID, UUID) TO authenticated;
+
+COMMENT ON COLUMN customers.phone_digits IS 'Last 10 digits of phone, for duplicate detection';
+COMMENT ON COLUMN customers.id_proof_key IS 'Normalised id_proof_number, for duplicate detection';
+COMMENT ON COLUMN customers.previous_customer_numbers IS 'customer_number of customers merged into this one';
+COMMENT ON TABLE customer_merges IS 'Customers merged into another record, with their original details';
@@ -0,0 +1,160 @@
+-- ============================================
+-- Customer risk profile and blacklist
+-- customer_risk_profiles sums up each customer's return history:
+--   late_returns  - orders returned late
+--   damage_fees   - damage fees charged
+--   missing_items - pieces never returned on closed orders
+--   unpaid_dues   - balance still owed on closed orders
+-- Admins can blacklist a customer with a reason. New orders for a
+-- blacklisted customer need an admin override (who + why, stored on the order).
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+-- 1. Blacklist columns
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS is_blacklisted BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS blacklist_reason TEXT;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS blacklisted_at TIMESTAMPTZ;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS blacklisted_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_customers_is_blacklisted ON customers(is_blacklisted) WHERE is_blacklisted = true;
+
+-- 2. Only admins can blacklist or clear a customer
+CREATE OR REPLACE FUNCTION guard_customer_blacklist()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.is_blacklisted IS NOT DISTINCT FROM OLD.is_blacklisted
+    AND NEW.blacklist_reason IS NOT DISTINCT FROM OLD.blacklist_reason THEN
+    -- Blacklist untouched - keep the audit columns as they were
+    NEW.blacklisted_at := OLD.blacklisted_at;
+    NEW.blacklisted_by := OLD.blacklisted_by;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NOT NEW.is_blacklisted THEN
+    NEW.blacklist_reason := NULL;
+    NEW.blacklisted_at := NULL;
+    NEW.blacklisted_by := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('super_admin', 'branch_admin')
+  ) THEN
+    RAISE EXCEPTION 'Only admins can change the customer blacklist';
+  END IF;
+
+  IF NEW.is_blacklisted THEN
+    IF COALESCE(TRIM(NEW.blacklist_reason), '') = '' THEN
+      RAISE EXCEPTION 'A reason is required to blacklist a customer';
+    END IF;
+    NEW.blacklisted_at := NOW();
+    NEW.blacklisted_by := auth.uid();
+  ELSE
+    NEW.blacklist_reason := NULL;
+    NEW.blacklisted_at := NULL;
+    NEW.blacklisted_by := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_customer_blacklist_trigger ON customers;
+CREATE TRIGGER guard_customer_blacklist_trigger
+  BEFORE INSERT OR UPDATE ON customers
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_customer_blacklist();
+
+-- 3. Admin override on orders for blacklisted customers
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS blacklist_override_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS blacklist_override_reason TEXT;
+
+CREATE OR REPLACE FUNCTION check_customer_blacklist_on_order()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_customer RECORD;
+BEGIN
+  SELECT name, is_blacklisted INTO v_customer FROM customers WHERE id = NEW.customer_id;
+
+  IF NOT COALESCE(v_customer.is_blacklisted, false) THEN
+    NEW.blacklist_override_by := NULL;
+    NEW.blacklist_override_reason := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.blacklist_override_by IS NULL
+    OR NEW.blacklist_override_by IS DISTINCT FROM auth.uid()
+    OR NOT EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('super_admin', 'branch_admin')
+    ) THEN
+    RAISE EXCEPTION '% is blacklisted. An admin must override to create an order.', v_customer.name;
+  END IF;
+
+  IF COALESCE(TRIM(NEW.blacklist_override_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to override the blacklist';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_customer_blacklist_on_order_trigger ON orders;
+CREATE TRIGGER check_customer_blacklist_on_order_trigger
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION check_customer_blacklist_on_order();
+
+-- 4. Risk profile view (RLS of orders / order_items / payments applies)
+CREATE OR REPLACE VIEW customer_risk_profiles
+WITH (security_invoker = true) AS
+SELECT
+  c.id AS customer_id,
+  c.is_blacklisted,
+  COALESCE(o.total_orders, 0)::INTEGER AS total_orders,
+  COALESCE(o.late_returns, 0)::INTEGER AS late_returns,
+  COALESCE(o.damage_fees, 0)::NUMERIC(10, 2) AS damage_fees,
+  COALESCE(m.missing_items, 0)::INTEGER AS missing_items,
+  COALESCE(d.unpaid_dues, 0)::NUMERIC(10, 2) AS unpaid_dues
+FROM customers c
+LEFT JOIN (
+  SELECT
+    customer_id,
+    COUNT(*) AS total_orders,
+    COUNT(*) FILTER (WHERE late_returned) AS late_returns,
+    SUM(COALESCE(damage_fee_total, 0)) AS damage_fees
+  FROM orders
+  WHERE status <> 'cancelled'
+  GROUP BY customer_id
+) o ON o.customer_id = c.id
+LEFT JOIN (
+  SELECT
+    ord.customer_id,
+    SUM(
+      CASE
+        WHEN oi.return_status = 'missing' THEN oi.quantity - COALESCE(oi.returned_quantity, 0)
+        ELSE GREATEST(oi.quantity - COALESCE(oi.returned_quantity, oi.quantity), 0)
+      END
+    ) AS missing_items
+  FROM order_items oi
+  JOIN orders ord ON ord.id = oi.order_id
+  WHERE ord.status IN ('completed', 'flagged')
+  GROUP BY ord.customer_id
+) m ON m.customer_id = c.id
+LEFT JOIN (
+  SELECT customer_id, SUM(balance_due) AS unpaid_dues
+  FROM order_balances
+  WHERE status IN ('completed', 'flagged')
+    AND balance_due > 0
+  GROUP BY customer_id
+) d ON d.customer_id = c.id;
+
+GRANT SELECT ON customer_risk_profiles TO authenticated;
+
+COMMENT ON COLUMN customers.is_blacklisted IS 'New orders need an admin override (orders.blacklist_override_by)';
+COMMENT ON COLUMN orders.blacklist_override_by IS 'Admin who allowed this order for a blacklisted customer';
+COMMENT ON VIEW customer_risk_profiles IS 'Late returns, damage fees, missing items and unpaid dues per customer';
@@ -0,0 +1,246 @@
+-- ============================================
+-- Damage assessment: itemised damage with before/after photos
+-- Damage types (stain, tear, ...) come from a catalogue with default
+-- charges that super admins maintain. At return, each damaged order item
+-- gets an assessment: an after photo to set against the pickup photo
+-- (order_items.photo_url) and one line per damage found.
+-- The item's damage_fee is the sum of its lines, so the return feeds
+-- orders.damage_fee_total as before. Assessments are saved in the same
+-- transaction as the return (process_order_return_with_damage).
+-- Requires: add-role-permissions.sql, add-staff-commission.sql (waived_amount)
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+-- 1. Catalogue
+CREATE TABLE IF NOT EXISTS damage_types (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  default_charge NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (default_charge >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_damage_types_name ON damage_types(LOWER(name));
+
+INSERT INTO damage_types (name, default_charge, sort_order)
+VALUES
+  ('Stain', 200, 1),
+  ('Tear', 500, 2),
+  ('Missing accessory', 300, 3),
+  ('Broken zipper', 250, 4)
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE damage_types ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view damage types" ON damage_types;
+CREATE POLICY "Authenticated users can view damage types"
+  ON damage_types FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Super admins can manage damage types" ON damage_types;
+CREATE POLICY "Super admins can manage damage types"
+  ON damage_types FOR ALL
+  USING (get_user_role() = 'super_admin')
+  WITH CHECK (get_user_role() = 'super_admin');
+
+-- 2. One assessment per order item, with its damage lines
+CREATE TABLE IF NOT EXISTS damage_assessments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL UNIQUE REFERENCES order_items(id) ON DELETE CASCADE,
+  branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  after_photo_url TEXT,
+  total_charge NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (total_charge >= 0),
+  assessed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  assessed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_damage_assessments_order_id ON damage_assessments(order_id);
+
+CREATE TABLE IF NOT EXISTS damage_assessment_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  assessment_id UUID NOT NULL REFERENCES damage_assessments(id) ON DELETE CASCADE,
+  damage_type_id UUID REFERENCES damage_types(id) ON DELETE SET NULL,
+  name TEXT NOT NULL, -- Copied from the damage type so old assessments keep their wording
+  charge NUMERIC(10, 2) NOT NULL CHECK (charge >= 0),
+  note TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_damage_assessment_lines_assessment_id ON damage_assessment_lines(assessment_id);
+
+ALTER TABLE damage_assessments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE damage_assessment_lines ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for clients; assessments are saved through save_damage_assessment
+DROP POLICY IF EXISTS "Users can view damage assessments in own branch" ON damage_assessments;
+CREATE POLICY "Users can view damage assessments in own branch"
+  ON damage_assessments FOR SELECT
+  USING (branch_id = get_user_branch_id() OR get_user_role() = 'super_admin');
+
+DROP POLICY IF EXISTS "Users can view damage assessment lines in own branch" ON damage_assessment_lines;
+CREATE POLICY "Users can view damage assessment lines in own branch"
+  ON damage_assessment_lines FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM damage_assessments a
+      WHERE a.id = damage_assessment_lines.assessment_id
+        AND (a.branch_id = get_user_branch_id() OR get_user_role() = 'super_admin')
+    )
+  );
+
+-- 3. Save (or clear) an item's assessment. p_lines is a JSON array of
+--    { damage_type_id, name, charge, note }. Returns the total charge.
+CREATE OR REPLACE FUNCTION save_damage_assessment(
+  p_order_item_id UUID,
+  p_after_photo_url TEXT,
+  p_lines JSONB
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_item RECORD;
+  v_assessment_id UUID;
+  v_line JSONB;
+  v_index INTEGER := 0;
+  v_total NUMERIC := 0;
+BEGIN
+  SELECT oi.id, oi.order_id, o.branch_id
+  INTO v_item
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  WHERE oi.id = p_order_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order item not found';
+  END IF;
+
+  IF get_user_role() IS DISTINCT FROM 'super_admin' AND v_item.branch_id IS DISTINCT FROM get_user_branch_id() THEN
+    RAISE EXCEPTION 'You can only assess items in your branch';
+  END IF;
+
+  IF permission_checks_apply() AND NOT has_permission('process_return') THEN
+    RAISE EXCEPTION 'You do not have permission to process returns';
+  END IF;
+
+  -- Nothing to record: drop any earlier assessment
+  IF COALESCE(jsonb_array_length(p_lines), 0) = 0 AND NULLIF(TRIM(COALESCE(p_after_photo_url, '')), '') IS NULL THEN
+    DELETE FROM damage_assessments WHERE order_item_id = p_order_item_id;
+    RETURN 0;
+  END IF;
+
+  INSERT INTO damage_assessments (order_id, order_item_id, branch_id, after_photo_url, assessed_by, assessed_at)
+  VALUES (v_item.order_id, v_item.id, v_item.branch_id, NULLIF(TRIM(p_after_photo_url), ''), auth.uid(), NOW())
+  ON CONFLICT (order_item_id) DO UPDATE
+    SET after_photo_url = EXCLUDED.after_photo_url,
+        assessed_by = EXCLUDED.assessed_by,
+        assessed_at = EXCLUDED.assessed_at
+  RETURNING id INTO v_assessment_id;
+
+  DELETE FROM damage_assessment_lines WHERE assessment_id = v_assessment_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_lines, '[]'::JSONB))
+  LOOP
+    IF NULLIF(TRIM(COALESCE(v_line->>'name', '')), '') IS NULL THEN
+      RAISE EXCEPTION 'Every damage needs a type or description';
+    END IF;
+    IF COALESCE((v_line->>'charge')::NUMERIC, -1) < 0 THEN
+      RAISE EXCEPTION 'Damage charges can''t be negative';
+    END IF;
+
+    v_index := v_index + 1;
+    INSERT INTO damage_assessment_lines (assessment_id, damage_type_id, name, charge, note, sort_order)
+    VALUES (
+      v_assessment_id,
+      NULLIF(v_line->>'damage_type_id', '')::UUID,
+      TRIM(v_line->>'name'),
+      ROUND((v_line->>'charge')::NUMERIC, 2),
+      NULLIF(TRIM(COALESCE(v_line->>'note', '')), ''),
+      v_index
+    );
+    v_total := v_total + ROUND((v_line->>'charge')::NUMERIC, 2);
+  END LOOP;
+
+  UPDATE damage_assessments SET total_charge = v_total WHERE id = v_assessment_id;
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION save_damage_assessment(UUID, TEXT, JSONB) TO authenticated;
+
+-- 4. A return and its assessments in one transaction: a refused assessment
+--    stops the return, and a refused return leaves no assessment behind.
+--    p_damage_assessments is a JSON array of
+--    { order_item_id, after_photo_url, lines }; each assessed item is charged
+--    its assessment's total. p_late_fee_override_note is set when staff
+--    replaced the calculated late fee: it goes on the timeline as
+--    late_fee_overridden, with the amount waived (p_late_fee_waived), only
+--    once the return is saved.
+DROP FUNCTION IF EXISTS process_order_return_with_damage(UUID, JSONB, UUID, NUMERIC, JSONB);
+DROP FUNCTION IF EXISTS process_order_return_with_damage(UUID, JSONB, UUID, NUMERIC, JSONB, TEXT);
+CREATE OR REPLACE FUNCTION process_order_return_with_damage(
+  p_order_id UUID,
+  p_item_returns JSONB,
+  p_user_id UUID,
+  p_late_fee NUMERIC DEFAULT 0,
+  p_damage_assessments JSONB DEFAULT '[]',
+  p_late_fee_override_note TEXT DEFAULT NULL,
+  p_late_fee_waived NUMERIC DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_assessment JSONB;
+  v_total NUMERIC;
+  v_item_returns JSONB := p_item_returns;
+  v_result JSONB;
+BEGIN
+  IF p_late_fee_override_note IS NOT NULL AND permission_checks_apply() AND NOT has_permission('override_late_fee') THEN
+    RAISE EXCEPTION 'You don''t have permission to override late fees';
+  END IF;
+
+  FOR v_assessment IN SELECT * FROM jsonb_array_elements(COALESCE(p_damage_assessments, '[]'::JSONB))
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM order_items
+      WHERE id = (v_assessment->>'order_item_id')::UUID AND order_id = p_order_id
+    ) THEN
+      RAISE EXCEPTION 'Order item not found';
+    END IF;
+
+    v_total := save_damage_assessment(
+      (v_assessment->>'order_item_id')::UUID,
+      v_assessment->>'after_photo_url',
+      v_assessment->'lines'
+    );
+
+    SELECT jsonb_agg(
+      CASE
+        WHEN item_return->>'item_id' = v_assessment->>'order_item_id'
+          THEN item_return || jsonb_build_object('damage_fee', NULLIF(v_total, 0))
+        ELSE item_return
+      END
+      ORDER BY position
+    )
+    INTO v_item_returns
+    FROM jsonb_array_elements(v_item_returns) WITH ORDINALITY AS returns(item_return, position);
+  END LOOP;
+
+  v_result := process_order_return_optimized(p_order_id, v_item_returns, p_user_id, p_late_fee);
+
+  IF p_late_fee_override_note IS NOT NULL THEN
+    INSERT INTO order_return_audit (order_id, action, user_id, notes, waived_amount)
+    VALUES (
+      p_order_id, 'late_fee_overridden', auth.uid(), p_late_fee_override_note,
+      ROUND(GREATEST(COALESCE(p_late_fee_waived, 0), 0), 2)
+    );
+  END IF;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION process_order_return_with_damage(UUID, JSONB, UUID, NUMERIC, JSONB, TEXT, NUMERIC) TO authenticated;
+
+COMMENT ON TABLE damage_types IS 'Damage catalogue with default charges, used when assessing returned items';
+COMMENT ON TABLE damage_assessments IS 'Return-time damage assessment per order item: after photo and total of its lines';
+COMMENT ON TABLE damage_assessment_lines IS 'Itemised damage on an assessment; the charges add up to the item''s damage_fee';
@@ -0,0 +1,167 @@
+-- ============================================
+-- End-of-day closing and cash reconciliation per branch
+-- One closing per branch per business day (IST). When a day is closed:
+--   expected_*   - payments received that day less refunds paid out, by
+--                  payment mode, computed here from the payments ledger
+--                  (the client can't set them)
+--   opening_float - cash in the drawer before the day's first payment
+--   counted_*    - what staff counted at close
+--   variance     - (counted cash - float - expected cash)
+--                  + (counted UPI - expected UPI) + (counted card - expected card)
+-- Any variance needs a reason. 'other' payments are recorded but not counted.
+-- Security deposits are not in the payments ledger and not reconciled here.
+-- Closings are final: they can't be updated or deleted, and neither can the
+-- payments they reconciled. A payment taken after today is closed counts
+-- towards tomorrow; one dated on an earlier closed day is refused.
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+-- 1. Closings
+CREATE TABLE IF NOT EXISTS day_closings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  business_date DATE NOT NULL,
+  opening_float NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (opening_float >= 0),
+  expected_cash NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  expected_upi NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  expected_card NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  expected_other NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  payments_count INTEGER NOT NULL DEFAULT 0,
+  counted_cash NUMERIC(10, 2) NOT NULL CHECK (counted_cash >= 0),
+  counted_upi NUMERIC(10, 2) NOT NULL CHECK (counted_upi >= 0),
+  counted_card NUMERIC(10, 2) NOT NULL CHECK (counted_card >= 0),
+  variance NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  variance_reason TEXT,
+  notes TEXT,
+  closed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  closed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (branch_id, business_date),
+  CONSTRAINT day_closings_variance_reason CHECK (variance = 0 OR NULLIF(TRIM(variance_reason), '') IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_day_closings_business_date ON day_closings(business_date DESC);
+
+-- 2. Expected totals for a branch's business day, by payment mode
+CREATE OR REPLACE FUNCTION get_day_collections(p_branch_id UUID, p_business_date DATE)
+RETURNS TABLE (cash NUMERIC, upi NUMERIC, card NUMERIC, other NUMERIC, payments_count INTEGER)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  -- Refunds were paid out of the same drawer / account
+  SELECT
+    COALESCE(SUM(signed_amount) FILTER (WHERE payment_mode = 'cash'), 0),
+    COALESCE(SUM(signed_amount) FILTER (WHERE payment_mode = 'upi'), 0),
+    COALESCE(SUM(signed_amount) FILTER (WHERE payment_mode = 'card'), 0),
+    COALESCE(SUM(signed_amount) FILTER (WHERE payment_mode = 'other'), 0),
+    COUNT(*)::INTEGER
+  FROM (
+    SELECT payment_mode, CASE WHEN payment_type = 'refund' THEN -amount ELSE amount END AS signed_amount
+    FROM payments
+    WHERE branch_id = p_branch_id
+      AND (paid_at AT TIME ZONE 'Asia/Kolkata')::DATE = p_business_date
+  ) day_payments;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_day_collections(UUID, DATE) TO authenticated;
+
+-- 3. Fill in the expected side and the variance on close
+CREATE OR REPLACE FUNCTION prepare_day_closing()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_collections RECORD;
+BEGIN
+  IF NEW.business_date > (NOW() AT TIME ZONE 'Asia/Kolkata')::DATE THEN
+    RAISE EXCEPTION 'A day can''t be closed before it starts';
+  END IF;
+
+  SELECT * INTO v_collections FROM get_day_collections(NEW.branch_id, NEW.business_date);
+
+  NEW.expected_cash := v_collections.cash;
+  NEW.expected_upi := v_collections.upi;
+  NEW.expected_card := v_collections.card;
+  NEW.expected_other := v_collections.other;
+  NEW.payments_count := v_collections.payments_count;
+  NEW.variance :=
+    (NEW.counted_cash - NEW.opening_float - NEW.expected_cash)
+    + (NEW.counted_upi - NEW.expected_upi)
+    + (NEW.counted_card - NEW.expected_card);
+  NEW.variance_reason := NULLIF(TRIM(NEW.variance_reason), '');
+  NEW.closed_by := auth.uid();
+  NEW.closed_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS prepare_day_closing_trigger ON day_closings;
+CREATE TRIGGER prepare_day_closing_trigger
+  BEFORE INSERT ON day_closings
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_day_closing();
+
+-- Closed days are locked, even for the service role
+CREATE OR REPLACE FUNCTION lock_day_closing()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Closed days can''t be changed';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS lock_day_closing_trigger ON day_closings;
+CREATE TRIGGER lock_day_closing_trigger
+  BEFORE UPDATE OR DELETE ON day_closings
+  FOR EACH ROW
+  EXECUTE FUNCTION lock_day_closing();
+
+-- 4. Keep closed days' payments as they were reconciled
+CREATE OR REPLACE FUNCTION guard_closed_day_payments()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_today DATE := (NOW() AT TIME ZONE 'Asia/Kolkata')::DATE;
+  v_date DATE;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND EXISTS (
+    SELECT 1 FROM day_closings
+    WHERE branch_id = OLD.branch_id
+    AND business_date = (OLD.paid_at AT TIME ZONE 'Asia/Kolkata')::DATE
+  ) THEN
+    RAISE EXCEPTION 'Payments on a closed day can''t be changed';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  v_date := (NEW.paid_at AT TIME ZONE 'Asia/Kolkata')::DATE;
+  IF EXISTS (SELECT 1 FROM day_closings WHERE branch_id = NEW.branch_id AND business_date = v_date) THEN
+    IF v_date < v_today THEN
+      RAISE EXCEPTION 'The day of this payment (%) is already closed', v_date;
+    END IF;
+    -- Taken after today's close: the money goes into tomorrow's drawer
+    NEW.paid_at := (v_date + 1)::TIMESTAMP AT TIME ZONE 'Asia/Kolkata';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_closed_day_payments_trigger ON payments;
+CREATE TRIGGER guard_closed_day_payments_trigger
+  BEFORE INSERT OR UPDATE OR DELETE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_closed_day_payments();
+
+-- 5. RLS - branch users close their own branch's day, super admins any branch
+ALTER TABLE day_closings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view day closings in own branch" ON day_closings;
+CREATE POLICY "Users can view day closings in own branch"
+  ON day_closings FOR SELECT
+  USING (branch_id = get_user_branch_id() OR get_user_role() = 'super_admin');
+
+DROP POLICY IF EXISTS "Users can close days in own branch" ON day_closings;
+CREATE POLICY "Users can close days in own branch"
+  ON day_closings FOR INSERT
+  WITH CHECK (branch_id = get_user_branch_id() OR get_user_role() = 'super_admin');
+
+COMMENT ON TABLE day_closings IS 'Locked end-of-day cash/UPI/card reconciliation per branch and business day (IST)';
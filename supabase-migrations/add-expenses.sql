@@ -0,0 +1,130 @@
+-- ============================================
+-- Expenses: dry cleaning, repairs, alterations and other costs per branch
+-- An expense can point at the order item it was spent on (e.g. cleaning a
+-- costume after that rental) or just at a catalog product. When an order
+-- item is given, the order and product are filled in from it.
+-- Reports show profit as revenue minus expenses, per branch and per product.
+-- Receipt photos go in the public "expense-receipts" bucket.
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+-- 1. Expenses
+CREATE TABLE IF NOT EXISTS expenses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  category TEXT NOT NULL CHECK (category IN ('dry_cleaning', 'repair', 'alteration', 'other')),
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  expense_date DATE NOT NULL DEFAULT (NOW() AT TIME ZONE 'Asia/Kolkata')::DATE,
+  description TEXT,
+  vendor TEXT, -- Dry cleaner, tailor, etc.
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  order_item_id UUID REFERENCES order_items(id) ON DELETE SET NULL,
+  product_id UUID REFERENCES products(id) ON DELETE SET NULL,
+  receipt_url TEXT,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_expenses_branch_date ON expenses(branch_id, expense_date);
+CREATE INDEX IF NOT EXISTS idx_expenses_order_id ON expenses(order_id);
+CREATE INDEX IF NOT EXISTS idx_expenses_product_id ON expenses(product_id);
+
+-- 2. Links come from the order item, which must be in the expense's branch
+CREATE OR REPLACE FUNCTION prepare_expense()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_item RECORD;
+BEGIN
+  IF NEW.order_item_id IS NOT NULL THEN
+    SELECT oi.order_id, oi.product_id, o.branch_id
+    INTO v_item
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE oi.id = NEW.order_item_id;
+
+    IF NOT FOUND OR v_item.branch_id <> NEW.branch_id THEN
+      RAISE EXCEPTION 'Order item not found in this branch';
+    END IF;
+
+    NEW.order_id := v_item.order_id;
+    NEW.product_id := COALESCE(v_item.product_id, NEW.product_id);
+  END IF;
+
+  IF NEW.product_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM products WHERE id = NEW.product_id AND branch_id = NEW.branch_id) THEN
+    RAISE EXCEPTION 'Product not found in this branch';
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_by := auth.uid();
+    NEW.created_at := NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS prepare_expense_trigger ON expenses;
+CREATE TRIGGER prepare_expense_trigger
+  BEFORE INSERT OR UPDATE ON expenses
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_expense();
+
+-- 3. RLS - branch users record expenses in their branch, admins correct them
+ALTER TABLE expenses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view expenses in own branch" ON expenses;
+CREATE POLICY "Users can view expenses in own branch"
+  ON expenses FOR SELECT
+  USING (branch_id = get_user_branch_id() OR get_user_role() = 'super_admin');
+
+DROP POLICY IF EXISTS "Users can record expenses in own branch" ON expenses;
+CREATE POLICY "Users can record expenses in own branch"
+  ON expenses FOR INSERT
+  WITH CHECK (branch_id = get_user_branch_id() OR get_user_role() = 'super_admin');
+
+DROP POLICY IF EXISTS "Admins can update expenses" ON expenses;
+CREATE POLICY "Admins can update expenses"
+  ON expenses FOR UPDATE
+  USING (
+    get_user_role() = 'super_admin'
+    OR (get_user_role() = 'branch_admin' AND branch_id = get_user_branch_id())
+  )
+  WITH CHECK (
+    get_user_role() = 'super_admin'
+    OR (get_user_role() = 'branch_admin' AND branch_id = get_user_branch_id())
+  );
+
+DROP POLICY IF EXISTS "Admins can delete expenses" ON expenses;
+CREATE POLICY "Admins can delete expenses"
+  ON expenses FOR DELETE
+  USING (
+    get_user_role() = 'super_admin'
+    OR (get_user_role() = 'branch_admin' AND branch_id = get_user_branch_id())
+  );
+
+-- 4. Receipt photos
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'expense-receipts',
+  'expense-receipts',
+  true,
+  5242880, -- 5MB limit
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/jpg']
+)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Authenticated users can upload expense receipts" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can view expense receipts" ON storage.objects;
+
+CREATE POLICY "Authenticated users can upload expense receipts"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'expense-receipts'
+    AND auth.role() = 'authenticated'
+  );
+
+CREATE POLICY "Anyone can view expense receipts"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'expense-receipts');
+
+COMMENT ON TABLE expenses IS 'Costs per branch (dry cleaning, repairs, alterations), optionally against an order item or product';
@@ -0,0 +1,44 @@
+-- ============================================
+-- GST tax invoice details
+-- - Branch GSTIN and state (the supplier's registration)
+-- - Customer GSTIN and state (place of supply)
+-- - HSN/SAC code per product, copied onto each order line
+-- - Place of supply and customer GSTIN captured on the order when it is
+--   created, so later edits to the customer don't change issued invoices
+-- - GST rate and mode (included in prices or added on top) captured on the
+--   order, so changing the profile GST settings doesn't change issued invoices
+-- Same state as the branch = CGST + SGST, different state = IGST.
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+-- GSTIN: 2-digit state code + PAN + entity + 'Z' + checksum, e.g. 29ABCDE1234F1Z5
+ALTER TABLE branches
+ADD COLUMN IF NOT EXISTS gstin TEXT CHECK (gstin IS NULL OR gstin ~ '^[0-9]{2}[A-Z0-9]{13}$'),
+ADD COLUMN IF NOT EXISTS state_code TEXT CHECK (state_code IS NULL OR state_code ~ '^[0-9]{2}$');
+
+ALTER TABLE customers
+ADD COLUMN IF NOT EXISTS gstin TEXT CHECK (gstin IS NULL OR gstin ~ '^[0-9]{2}[A-Z0-9]{13}$'),
+ADD COLUMN IF NOT EXISTS state_code TEXT CHECK (state_code IS NULL OR state_code ~ '^[0-9]{2}$');
+
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS hsn_sac TEXT CHECK (hsn_sac IS NULL OR hsn_sac ~ '^[0-9]{4,8}$');
+
+ALTER TABLE order_items
+ADD COLUMN IF NOT EXISTS hsn_sac TEXT;
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS place_of_supply TEXT CHECK (place_of_supply IS NULL OR place_of_supply ~ '^[0-9]{2}$'),
+ADD COLUMN IF NOT EXISTS customer_gstin TEXT,
+ADD COLUMN IF NOT EXISTS gst_rate NUMERIC(5,2) CHECK (gst_rate IS NULL OR gst_rate >= 0),
+ADD COLUMN IF NOT EXISTS gst_included BOOLEAN;
+
+COMMENT ON COLUMN branches.gstin IS 'GSTIN of the branch registration (falls back to the profile GST number on invoices)';
+COMMENT ON COLUMN branches.state_code IS 'GST state code of the branch, e.g. 32 for Kerala';
+COMMENT ON COLUMN customers.gstin IS 'Customer GSTIN for B2B invoices';
+COMMENT ON COLUMN customers.state_code IS 'GST state code of the customer (derived from GSTIN when present)';
+COMMENT ON COLUMN products.hsn_sac IS 'HSN/SAC code printed on tax invoices';
+COMMENT ON COLUMN order_items.hsn_sac IS 'HSN/SAC code at the time of the order';
+COMMENT ON COLUMN orders.place_of_supply IS 'GST state code of the place of supply';
+COMMENT ON COLUMN orders.customer_gstin IS 'Customer GSTIN at the time of the order';
+COMMENT ON COLUMN orders.gst_rate IS 'GST rate (%) at the time of the order, 0 = GST off. NULL on older orders (profile setting applies)';
+COMMENT ON COLUMN orders.gst_included IS 'Whether prices included GST at the time of the order. NULL on older orders (profile setting applies)';
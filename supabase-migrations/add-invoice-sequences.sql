@@ -0,0 +1,153 @@
+-- ============================================
+-- Sequential invoice numbers per branch and financial year
+-- Format: <PREFIX>/<FY>/<NNNN>, e.g. GLA/25-26/0001 (max 16 chars for GST)
+-- The Indian financial year runs 1 April - 31 March (IST), and numbering
+-- restarts at 0001 each year.
+-- Numbers are allocated by a BEFORE INSERT trigger on orders, inside the
+-- same transaction as the insert: a failed insert rolls the counter back,
+-- so there are no gaps, and the row lock on the counter serialises
+-- concurrent orders. Numbers sent by the app are ignored; only a backup
+-- restore (service role) keeps the numbers it inserts.
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+-- 1. Branch invoice prefix (1-5 uppercase letters/digits, unique across branches)
+ALTER TABLE branches
+ADD COLUMN IF NOT EXISTS invoice_prefix TEXT;
+
+-- Existing branches get a placeholder prefix - rename it from the branch settings
+UPDATE branches
+SET invoice_prefix = 'GL' || upper(substr(replace(id::text, '-', ''), 1, 3))
+WHERE invoice_prefix IS NULL;
+
+ALTER TABLE branches
+DROP CONSTRAINT IF EXISTS branches_invoice_prefix_check;
+
+ALTER TABLE branches
+ADD CONSTRAINT branches_invoice_prefix_check CHECK (invoice_prefix ~ '^[A-Z0-9]{1,5}$');
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_branches_invoice_prefix ON branches(invoice_prefix);
+
+-- New branches get the same placeholder when no prefix is given
+CREATE OR REPLACE FUNCTION set_default_invoice_prefix()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.invoice_prefix IS NULL OR btrim(NEW.invoice_prefix) = '' THEN
+    NEW.invoice_prefix := 'GL' || upper(substr(replace(NEW.id::text, '-', ''), 1, 3));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_default_invoice_prefix_trigger ON branches;
+CREATE TRIGGER set_default_invoice_prefix_trigger
+  BEFORE INSERT ON branches
+  FOR EACH ROW
+  EXECUTE FUNCTION set_default_invoice_prefix();
+
+-- 2. Counters (only touched by the functions below - no client policies)
+CREATE TABLE IF NOT EXISTS invoice_sequences (
+  branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  financial_year TEXT NOT NULL, -- e.g. '25-26'
+  last_number INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (branch_id, financial_year)
+);
+
+ALTER TABLE invoice_sequences ENABLE ROW LEVEL SECURITY;
+
+-- 3. Financial year label ('25-26' for 1 Apr 2025 - 31 Mar 2026)
+CREATE OR REPLACE FUNCTION financial_year_label(p_at TIMESTAMPTZ DEFAULT NOW())
+RETURNS TEXT AS $$
+DECLARE
+  v_local TIMESTAMP := p_at AT TIME ZONE 'Asia/Kolkata';
+  v_start_year INTEGER;
+BEGIN
+  v_start_year := EXTRACT(YEAR FROM v_local)::INTEGER
+    - CASE WHEN EXTRACT(MONTH FROM v_local) < 4 THEN 1 ELSE 0 END;
+  RETURN lpad((v_start_year % 100)::TEXT, 2, '0') || '-' || lpad(((v_start_year + 1) % 100)::TEXT, 2, '0');
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION format_invoice_number(p_prefix TEXT, p_financial_year TEXT, p_number INTEGER)
+RETURNS TEXT AS $$
+  SELECT p_prefix || '/' || p_financial_year || '/' ||
+    CASE WHEN p_number < 10000 THEN lpad(p_number::TEXT, 4, '0') ELSE p_number::TEXT END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 4. Allocate the next number (increments the counter)
+CREATE OR REPLACE FUNCTION allocate_invoice_number(p_branch_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_prefix TEXT;
+  v_financial_year TEXT := financial_year_label(NOW());
+  v_number INTEGER;
+BEGIN
+  SELECT invoice_prefix INTO v_prefix FROM branches WHERE id = p_branch_id;
+  IF v_prefix IS NULL THEN
+    RAISE EXCEPTION 'Branch has no invoice prefix. Set one in branch settings.';
+  END IF;
+
+  INSERT INTO invoice_sequences (branch_id, financial_year, last_number)
+  VALUES (p_branch_id, v_financial_year, 1)
+  ON CONFLICT (branch_id, financial_year)
+  DO UPDATE SET last_number = invoice_sequences.last_number + 1, updated_at = NOW()
+  RETURNING last_number INTO v_number;
+
+  RETURN format_invoice_number(v_prefix, v_financial_year, v_number);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Calling this directly would burn a number, so it is only reachable via the trigger
+REVOKE EXECUTE ON FUNCTION allocate_invoice_number(UUID) FROM PUBLIC, anon, authenticated;
+
+-- 5. Preview the next number without allocating it (shown on the new-order form)
+CREATE OR REPLACE FUNCTION peek_next_invoice_number(p_branch_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_prefix TEXT;
+  v_financial_year TEXT := financial_year_label(NOW());
+  v_last INTEGER;
+BEGIN
+  SELECT invoice_prefix INTO v_prefix FROM branches WHERE id = p_branch_id;
+  IF v_prefix IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT last_number INTO v_last
+  FROM invoice_sequences
+  WHERE branch_id = p_branch_id AND financial_year = v_financial_year;
+
+  RETURN format_invoice_number(v_prefix, v_financial_year, COALESCE(v_last, 0) + 1);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION peek_next_invoice_number(UUID) TO authenticated;
+
+-- 6. Assign on insert; issued numbers can't be changed afterwards
+CREATE OR REPLACE FUNCTION assign_order_invoice_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    -- Only a restore (service role) may bring its own number; anything a
+    -- client sends is replaced, so numbers can't be skipped or reused
+    IF auth.role() IS DISTINCT FROM 'service_role'
+       OR NEW.invoice_number IS NULL OR btrim(NEW.invoice_number) = '' THEN
+      NEW.invoice_number := allocate_invoice_number(NEW.branch_id);
+    END IF;
+  ELSIF NEW.invoice_number IS DISTINCT FROM OLD.invoice_number THEN
+    RAISE EXCEPTION 'Invoice number % has been issued and cannot be changed', OLD.invoice_number;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS assign_order_invoice_number_trigger ON orders;
+CREATE TRIGGER assign_order_invoice_number_trigger
+  BEFORE INSERT OR UPDATE OF invoice_number ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_order_invoice_number();
+
+COMMENT ON COLUMN branches.invoice_prefix IS 'Invoice number prefix, e.g. GLA in GLA/25-26/0001';
+COMMENT ON TABLE invoice_sequences IS 'Last issued invoice number per branch and financial year';
+COMMENT ON FUNCTION peek_next_invoice_number IS 'Next invoice number for a branch, without allocating it';
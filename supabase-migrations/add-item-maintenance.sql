@@ -0,0 +1,235 @@
+-- ============================================
+-- Item maintenance: laundry / repair lifecycle for returned items
+-- Returned units have to be cleaned and inspected before they can go out
+-- again: returned → cleaning → repair → ready.
+-- Each return creates a batch (returned units of one order item) in
+-- "returned". Staff move batches, or part of one, to cleaning, repair or
+-- ready; every move is logged on the order timeline with who made it.
+-- Units that aren't ready are held back from product availability.
+-- Items returned before this migration are treated as ready.
+-- Requires: add-product-availability.sql
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+-- 1. Batches of returned units
+CREATE TABLE IF NOT EXISTS item_maintenance (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES products(id) ON DELETE SET NULL, -- NULL for legacy free-text items
+  product_name TEXT,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  status TEXT NOT NULL DEFAULT 'returned' CHECK (status IN ('returned', 'cleaning', 'repair', 'ready')),
+  notes TEXT,
+  returned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  status_changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  status_changed_by UUID REFERENCES profiles(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_maintenance_branch_status ON item_maintenance(branch_id, status);
+CREATE INDEX IF NOT EXISTS idx_item_maintenance_product_status ON item_maintenance(product_id, status);
+CREATE INDEX IF NOT EXISTS idx_item_maintenance_order_item_id ON item_maintenance(order_item_id);
+
+-- 2. Returns put units into maintenance; undoing a return takes back
+--    units that haven't been made ready yet (newest first)
+CREATE OR REPLACE FUNCTION queue_returned_item_maintenance()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_delta INTEGER := COALESCE(NEW.returned_quantity, 0) - COALESCE(OLD.returned_quantity, 0);
+  v_batch RECORD;
+  v_take INTEGER;
+BEGIN
+  IF v_delta > 0 THEN
+    INSERT INTO item_maintenance (
+      branch_id, order_id, order_item_id, product_id, product_name,
+      quantity, returned_at, status_changed_by
+    )
+    SELECT o.branch_id, NEW.order_id, NEW.id, NEW.product_id, NEW.product_name,
+      v_delta, COALESCE(NEW.actual_return_date, NOW()), auth.uid()
+    FROM orders o
+    WHERE o.id = NEW.order_id;
+  ELSIF v_delta < 0 THEN
+    v_delta := -v_delta;
+    FOR v_batch IN
+      SELECT id, quantity FROM item_maintenance
+      WHERE order_item_id = NEW.id AND status <> 'ready'
+      ORDER BY returned_at DESC, status_changed_at DESC
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_delta = 0;
+      v_take := LEAST(v_delta, v_batch.quantity);
+      IF v_take = v_batch.quantity THEN
+        DELETE FROM item_maintenance WHERE id = v_batch.id;
+      ELSE
+        UPDATE item_maintenance SET quantity = quantity - v_take WHERE id = v_batch.id;
+      END IF;
+      v_delta := v_delta - v_take;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS queue_returned_item_maintenance_trigger ON order_items;
+CREATE TRIGGER queue_returned_item_maintenance_trigger
+  AFTER UPDATE OF returned_quantity ON order_items
+  FOR EACH ROW
+  WHEN (COALESCE(NEW.returned_quantity, 0) IS DISTINCT FROM COALESCE(OLD.returned_quantity, 0))
+  EXECUTE FUNCTION queue_returned_item_maintenance();
+
+-- 3. Move a batch (or p_quantity units of it) to another status and log it
+CREATE OR REPLACE FUNCTION move_item_maintenance(
+  p_maintenance_id UUID,
+  p_status TEXT,
+  p_quantity INTEGER DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS item_maintenance AS $$
+DECLARE
+  v_batch item_maintenance;
+  v_moved item_maintenance;
+  v_quantity INTEGER;
+  v_notes TEXT := NULLIF(TRIM(COALESCE(p_notes, '')), '');
+BEGIN
+  SELECT * INTO v_batch FROM item_maintenance WHERE id = p_maintenance_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF get_user_role() IS DISTINCT FROM 'super_admin' AND v_batch.branch_id IS DISTINCT FROM get_user_branch_id() THEN
+    RAISE EXCEPTION 'You can only update items in your branch';
+  END IF;
+
+  IF p_status NOT IN ('cleaning', 'repair', 'ready') THEN
+    RAISE EXCEPTION 'Items can only move to cleaning, repair or ready';
+  END IF;
+  IF p_status = v_batch.status THEN
+    RAISE EXCEPTION 'Item is already %', v_batch.status;
+  END IF;
+
+  v_quantity := COALESCE(p_quantity, v_batch.quantity);
+  IF v_quantity < 1 OR v_quantity > v_batch.quantity THEN
+    RAISE EXCEPTION 'Quantity must be between 1 and %', v_batch.quantity;
+  END IF;
+
+  IF v_quantity < v_batch.quantity THEN
+    -- Split: the rest of the batch stays where it is
+    UPDATE item_maintenance SET quantity = quantity - v_quantity WHERE id = v_batch.id;
+    INSERT INTO item_maintenance (
+      branch_id, order_id, order_item_id, product_id, product_name,
+      quantity, status, notes, returned_at, status_changed_at, status_changed_by
+    )
+    VALUES (
+      v_batch.branch_id, v_batch.order_id, v_batch.order_item_id, v_batch.product_id, v_batch.product_name,
+      v_quantity, p_status, COALESCE(v_notes, v_batch.notes), v_batch.returned_at, NOW(), auth.uid()
+    )
+    RETURNING * INTO v_moved;
+  ELSE
+    UPDATE item_maintenance
+    SET status = p_status,
+        notes = COALESCE(v_notes, notes),
+        status_changed_at = NOW(),
+        status_changed_by = auth.uid()
+    WHERE id = v_batch.id
+    RETURNING * INTO v_moved;
+  END IF;
+
+  INSERT INTO order_return_audit (order_id, order_item_id, action, previous_status, new_status, user_id, notes)
+  VALUES (
+    v_batch.order_id,
+    v_batch.order_item_id,
+    'maintenance_status_changed',
+    v_batch.status,
+    p_status,
+    auth.uid(),
+    v_quantity || ' × ' || COALESCE(v_batch.product_name, 'Item') || COALESCE(': ' || v_notes, '')
+  );
+
+  RETURN v_moved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION move_item_maintenance(UUID, TEXT, INTEGER, TEXT) TO authenticated;
+
+-- 4. RLS - read-only for clients; changes go through the functions above
+ALTER TABLE item_maintenance ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view item maintenance in own branch" ON item_maintenance;
+CREATE POLICY "Users can view item maintenance in own branch"
+  ON item_maintenance FOR SELECT
+  USING (branch_id = get_user_branch_id() OR get_user_role() = 'super_admin');
+
+-- 5. Availability holds back units that aren't ready.
+--    The return type changes, so the function is dropped first.
+DROP FUNCTION IF EXISTS get_product_availability(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID[], UUID);
+
+CREATE OR REPLACE FUNCTION get_product_availability(
+  p_branch_id UUID,
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_product_ids UUID[] DEFAULT NULL,
+  p_exclude_order_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  product_id UUID,
+  stock_quantity INTEGER,
+  reserved_quantity INTEGER,
+  in_maintenance_quantity INTEGER,
+  available_quantity INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH reservations AS (
+    SELECT
+      oi.product_id,
+      SUM(GREATEST(oi.quantity - COALESCE(oi.returned_quantity, 0), 0))::INTEGER AS reserved
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE o.branch_id = p_branch_id
+      AND oi.product_id IS NOT NULL
+      AND (p_product_ids IS NULL OR oi.product_id = ANY(p_product_ids))
+      AND (p_exclude_order_id IS NULL OR o.id <> p_exclude_order_id)
+      AND o.status IN ('scheduled', 'active', 'pending_return', 'partially_returned', 'flagged')
+      -- Rental starts before the window ends
+      AND COALESCE(o.start_datetime, o.start_date::TIMESTAMPTZ) < p_end
+      -- Rental ends after the window starts. Orders already out keep holding
+      -- their units past the due date until they are actually returned.
+      AND (
+        CASE
+          WHEN o.status = 'scheduled'
+            THEN COALESCE(o.end_datetime, (o.end_date + 1)::TIMESTAMPTZ)
+          ELSE GREATEST(COALESCE(o.end_datetime, (o.end_date + 1)::TIMESTAMPTZ), NOW())
+        END
+      ) > p_start
+    GROUP BY oi.product_id
+  ),
+  -- Returned units still being cleaned or repaired, whatever the window
+  maintenance AS (
+    SELECT m.product_id, SUM(m.quantity)::INTEGER AS held
+    FROM item_maintenance m
+    WHERE m.branch_id = p_branch_id
+      AND m.status <> 'ready'
+      AND m.product_id IS NOT NULL
+      AND (p_product_ids IS NULL OR m.product_id = ANY(p_product_ids))
+    GROUP BY m.product_id
+  )
+  SELECT
+    p.id,
+    p.stock_quantity,
+    COALESCE(r.reserved, 0),
+    COALESCE(m.held, 0),
+    GREATEST(p.stock_quantity - COALESCE(r.reserved, 0) - COALESCE(m.held, 0), 0)
+  FROM products p
+  LEFT JOIN reservations r ON r.product_id = p.id
+  LEFT JOIN maintenance m ON m.product_id = p.id
+  WHERE p.branch_id = p_branch_id
+    AND (p_product_ids IS NULL OR p.id = ANY(p_product_ids));
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION get_product_availability TO authenticated;
+
+COMMENT ON TABLE item_maintenance IS 'Returned units going through cleaning/repair before they are ready to rent again';
+COMMENT ON FUNCTION get_product_availability IS 'Free units per catalog product for a rental window, less units not yet ready after return (excludes p_exclude_order_id when editing an order)';
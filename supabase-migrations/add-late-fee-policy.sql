@@ -0,0 +1,29 @@
+-- ============================================
+-- Per-branch late fee policy
+-- The return screen calculates the late fee from these settings:
+--   grace period  - returns within this many minutes after the due time are free
+--   unit          - charge per started hour or per started day late
+--   rate type     - fixed ₹ per unit, or % of the item's daily rent per unit
+--   cap           - maximum late fee per order (NULL = no cap)
+-- Fees are per piece (rate × quantity). Pieces already returned are charged
+-- up to their return; only the pieces still out keep accruing.
+-- Staff can override the calculated fee with a reason, which is written to
+-- the order timeline.
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+ALTER TABLE branches
+ADD COLUMN IF NOT EXISTS late_fee_enabled BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS late_fee_grace_minutes INTEGER NOT NULL DEFAULT 0 CHECK (late_fee_grace_minutes >= 0),
+ADD COLUMN IF NOT EXISTS late_fee_unit TEXT NOT NULL DEFAULT 'day' CHECK (late_fee_unit IN ('hour', 'day')),
+ADD COLUMN IF NOT EXISTS late_fee_rate_type TEXT NOT NULL DEFAULT 'percent_of_daily_rent'
+  CHECK (late_fee_rate_type IN ('fixed', 'percent_of_daily_rent')),
+ADD COLUMN IF NOT EXISTS late_fee_rate NUMERIC(10, 2) NOT NULL DEFAULT 100 CHECK (late_fee_rate >= 0),
+ADD COLUMN IF NOT EXISTS late_fee_cap NUMERIC(10, 2) CHECK (late_fee_cap IS NULL OR late_fee_cap >= 0);
+
+COMMENT ON COLUMN branches.late_fee_enabled IS 'Calculate late fees automatically on return';
+COMMENT ON COLUMN branches.late_fee_grace_minutes IS 'Minutes after the due time before a return counts as late';
+COMMENT ON COLUMN branches.late_fee_unit IS 'hour or day - each started unit late is charged';
+COMMENT ON COLUMN branches.late_fee_rate_type IS 'fixed = ₹ per piece per unit, percent_of_daily_rent = % of price_per_day per piece per unit';
+COMMENT ON COLUMN branches.late_fee_rate IS 'Rate for the chosen rate type';
+COMMENT ON COLUMN branches.late_fee_cap IS 'Maximum late fee per order (NULL = no cap)';
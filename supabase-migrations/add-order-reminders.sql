@@ -0,0 +1,53 @@
+-- ============================================
+-- Automated order reminders
+-- Sent by the cron route app/api/orders/send-reminders:
+--   pickup_tomorrow  - scheduled order starting tomorrow
+--   return_due_today - order out with the customer, due back today
+--   overdue          - order out with the customer past its due date (daily)
+-- One row per order, reminder type and day (IST), so re-running the cron on
+-- the same day never messages a customer twice.
+-- Reminders are also written to the order timeline (order_return_audit) with
+-- no user, so user_id becomes optional there.
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+-- 1. Reminder log
+CREATE TABLE IF NOT EXISTS order_reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  reminder_type TEXT NOT NULL CHECK (reminder_type IN ('pickup_tomorrow', 'return_due_today', 'overdue')),
+  reminder_date DATE NOT NULL, -- IST day the reminder is for
+  channel TEXT NOT NULL CHECK (channel IN ('whatsapp', 'sms')),
+  recipient TEXT NOT NULL,
+  message TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  provider_message_id TEXT,
+  status TEXT NOT NULL DEFAULT 'sent' CHECK (status IN ('sent', 'failed')),
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (order_id, reminder_type, reminder_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_reminders_order_id ON order_reminders(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_reminders_branch_date ON order_reminders(branch_id, reminder_date);
+
+-- 2. RLS - staff can see reminders for their branch; only the service role writes
+ALTER TABLE order_reminders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view reminders in own branch" ON order_reminders;
+CREATE POLICY "Users can view reminders in own branch"
+  ON order_reminders FOR SELECT
+  USING (
+    branch_id = (SELECT branch_id FROM profiles WHERE profiles.id = auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+-- 3. Timeline events from the system (no signed-in user)
+ALTER TABLE order_return_audit ALTER COLUMN user_id DROP NOT NULL;
+
+COMMENT ON TABLE order_reminders IS 'Automated pickup / return reminders sent to customers, one per order, type and day';
@@ -0,0 +1,106 @@
+-- ============================================
+-- Payments ledger
+-- Records what was actually paid against an order, when and how:
+--   advance    - paid at booking
+--   balance    - paid at pickup / during the rental
+--   settlement - paid at return (late fee, damage, remaining balance)
+-- Order balance = total_amount - SUM(payments.amount).
+-- Customer dues = sum of positive balances on non-cancelled orders.
+-- Security deposits are NOT payments (see add-security-deposits.sql).
+-- The backfill below treats every completed order as paid in full.
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+-- Step 1: Payments table
+CREATE TABLE IF NOT EXISTS payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  payment_type TEXT NOT NULL CHECK (payment_type IN ('advance', 'balance', 'settlement')),
+  payment_mode TEXT NOT NULL CHECK (payment_mode IN ('cash', 'upi', 'card', 'other')),
+  reference TEXT, -- UPI transaction id, card slip number, etc.
+  notes TEXT,
+  received_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  paid_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_order_id ON payments(order_id);
+CREATE INDEX IF NOT EXISTS idx_payments_customer_id ON payments(customer_id);
+CREATE INDEX IF NOT EXISTS idx_payments_branch_paid_at ON payments(branch_id, paid_at);
+
+-- Step 2: RLS - branch users work with their own branch, super admins all branches
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view payments in own branch" ON payments;
+CREATE POLICY "Users can view payments in own branch"
+  ON payments FOR SELECT
+  USING (
+    branch_id = (SELECT branch_id FROM profiles WHERE profiles.id = auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+-- The order (and its customer) must match the payment's branch, so a payment
+-- can't be booked in one branch against another branch's order
+DROP POLICY IF EXISTS "Users can record payments in own branch" ON payments;
+CREATE POLICY "Users can record payments in own branch"
+  ON payments FOR INSERT
+  WITH CHECK (
+    (
+      branch_id = (SELECT branch_id FROM profiles WHERE profiles.id = auth.uid())
+      OR EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role = 'super_admin'
+      )
+    )
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = payments.order_id
+      AND orders.branch_id = payments.branch_id
+      AND orders.customer_id = payments.customer_id
+    )
+  );
+
+-- Step 3: Per-order balance view (respects the caller's RLS on orders and payments)
+CREATE OR REPLACE VIEW order_balances
+WITH (security_invoker = true) AS
+SELECT
+  o.id AS order_id,
+  o.customer_id,
+  o.branch_id,
+  o.status,
+  o.total_amount,
+  COALESCE(p.amount_paid, 0)::NUMERIC(10, 2) AS amount_paid,
+  (o.total_amount - COALESCE(p.amount_paid, 0))::NUMERIC(10, 2) AS balance_due
+FROM orders o
+LEFT JOIN (
+  SELECT order_id, SUM(amount) AS amount_paid
+  FROM payments
+  GROUP BY order_id
+) p ON p.order_id = o.id;
+
+GRANT SELECT ON order_balances TO authenticated;
+
+-- Step 4: Backfill - orders completed before the ledger existed were treated as paid.
+-- The app kept no record of payments until now, so this ASSUMES every completed
+-- order was paid in full and records one settlement (mode 'other') for its
+-- total so it doesn't show up as dues. For a completed order that was never
+-- paid, delete its 'Opening balance' payment here in the SQL editor; active
+-- and scheduled orders are left unpaid.
+INSERT INTO payments (order_id, customer_id, branch_id, amount, payment_type, payment_mode, notes, paid_at)
+SELECT o.id, o.customer_id, o.branch_id, o.total_amount, 'settlement', 'other',
+  'Opening balance - paid before payments ledger', o.created_at
+FROM orders o
+WHERE o.status = 'completed'
+  AND o.total_amount > 0
+  AND NOT EXISTS (SELECT 1 FROM payments p WHERE p.order_id = o.id);
+
+COMMENT ON TABLE payments IS 'Payments received against orders (advance, balance, settlement) with payment mode';
+COMMENT ON VIEW order_balances IS 'Order total vs. amount paid from the payments ledger';
@@ -0,0 +1,68 @@
+-- ============================================
+-- PRODUCT AVAILABILITY (double-booking check)
+-- Returns, per catalog product, how many units are free in a rental window.
+-- Units are held by orders that overlap the window and are still out or booked:
+-- scheduled, active, pending_return, partially_returned and flagged.
+-- Returned units (returned_quantity) are released immediately.
+-- Requires: add-products-catalog.sql
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_product_availability(
+  p_branch_id UUID,
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_product_ids UUID[] DEFAULT NULL,
+  p_exclude_order_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  product_id UUID,
+  stock_quantity INTEGER,
+  reserved_quantity INTEGER,
+  available_quantity INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH reservations AS (
+    SELECT
+      oi.product_id,
+      SUM(GREATEST(oi.quantity - COALESCE(oi.returned_quantity, 0), 0))::INTEGER AS reserved
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE o.branch_id = p_branch_id
+      AND oi.product_id IS NOT NULL
+      AND (p_product_ids IS NULL OR oi.product_id = ANY(p_product_ids))
+      AND (p_exclude_order_id IS NULL OR o.id <> p_exclude_order_id)
+      AND o.status IN ('scheduled', 'active', 'pending_return', 'partially_returned', 'flagged')
+      -- Rental starts before the window ends
+      AND COALESCE(o.start_datetime, o.start_date::TIMESTAMPTZ) < p_end
+      -- Rental ends after the window starts. Orders already out keep holding
+      -- their units past the due date until they are actually returned.
+      AND (
+        CASE
+          WHEN o.status = 'scheduled'
+            THEN COALESCE(o.end_datetime, (o.end_date + 1)::TIMESTAMPTZ)
+          ELSE GREATEST(COALESCE(o.end_datetime, (o.end_date + 1)::TIMESTAMPTZ), NOW())
+        END
+      ) > p_start
+    GROUP BY oi.product_id
+  )
+  SELECT
+    p.id,
+    p.stock_quantity,
+    COALESCE(r.reserved, 0),
+    GREATEST(p.stock_quantity - COALESCE(r.reserved, 0), 0)
+  FROM products p
+  LEFT JOIN reservations r ON r.product_id = p.id
+  WHERE p.branch_id = p_branch_id
+    AND (p_product_ids IS NULL OR p.id = ANY(p_product_ids));
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION get_product_availability TO authenticated;
+
+-- Speeds up the overlap scan
+CREATE INDEX IF NOT EXISTS idx_orders_branch_status_window
+  ON orders(branch_id, status, start_datetime, end_datetime);
+
+COMMENT ON FUNCTION get_product_availability IS 'Free units per catalog product for a rental window (excludes p_exclude_order_id when editing an order)';
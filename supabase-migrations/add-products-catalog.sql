@@ -0,0 +1,127 @@
+-- ============================================
+-- Product catalog (inventory items)
+-- Costumes are stored once per branch with SKU, default daily rate,
+-- stock quantity, category and photo. Order items reference a product
+-- so stock and rental history can be tracked per costume.
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+-- Step 1: Create products table
+CREATE TABLE IF NOT EXISTS products (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  sku TEXT NOT NULL,
+  name TEXT NOT NULL,
+  category TEXT,
+  default_daily_rate NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (default_daily_rate >= 0),
+  stock_quantity INTEGER NOT NULL DEFAULT 1 CHECK (stock_quantity >= 0),
+  photo_url TEXT NOT NULL,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- SKU is unique within a branch
+CREATE UNIQUE INDEX IF NOT EXISTS idx_products_branch_sku ON products(branch_id, lower(sku));
+CREATE INDEX IF NOT EXISTS idx_products_branch_id ON products(branch_id);
+CREATE INDEX IF NOT EXISTS idx_products_category ON products(category);
+CREATE INDEX IF NOT EXISTS idx_products_is_active ON products(is_active);
+
+-- Step 2: Link order items to the catalog (nullable for legacy free-text items)
+ALTER TABLE order_items
+ADD COLUMN IF NOT EXISTS product_id UUID REFERENCES products(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_order_items_product_id ON order_items(product_id);
+
+COMMENT ON COLUMN order_items.product_id IS 'Catalog product this line item was rented from. NULL for legacy free-text items.';
+
+-- Step 3: Keep updated_at current
+CREATE OR REPLACE FUNCTION update_products_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_products_updated_at ON products;
+CREATE TRIGGER trigger_products_updated_at
+  BEFORE UPDATE ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION update_products_updated_at();
+
+-- Step 4: RLS - branch users see and manage their own branch catalog, super admins all branches
+ALTER TABLE products ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view products in own branch" ON products;
+CREATE POLICY "Users can view products in own branch"
+  ON products FOR SELECT
+  USING (
+    branch_id = (SELECT branch_id FROM profiles WHERE profiles.id = auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can manage products" ON products;
+CREATE POLICY "Admins can manage products"
+  ON products FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND (
+        profiles.role = 'super_admin'
+        OR (profiles.role = 'branch_admin' AND profiles.branch_id = products.branch_id)
+      )
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND (
+        profiles.role = 'super_admin'
+        OR (profiles.role = 'branch_admin' AND profiles.branch_id = products.branch_id)
+      )
+    )
+  );
+
+-- Step 5: Storage bucket for catalog photos
+-- Kept separate from 'order-items' so the order image cleanup job never removes catalog photos
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'product-photos',
+  'product-photos',
+  true,
+  5242880, -- 5MB limit
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/jpg']
+)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Authenticated users can upload product photos" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can view product photos" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can delete product photos" ON storage.objects;
+
+CREATE POLICY "Authenticated users can upload product photos"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'product-photos'
+    AND auth.role() = 'authenticated'
+  );
+
+CREATE POLICY "Anyone can view product photos"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'product-photos');
+
+CREATE POLICY "Authenticated users can delete product photos"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'product-photos'
+    AND auth.role() = 'authenticated'
+  );
+
+COMMENT ON TABLE products IS 'Rental catalog: one row per costume/product per branch';
+COMMENT ON COLUMN products.stock_quantity IS 'Total units owned by the branch (not reduced by rentals)';
@@ -0,0 +1,441 @@
+-- ============================================
+-- Configurable role permissions
+-- app_roles holds the capabilities of each role: the three built-in roles
+-- (matched to profiles.role) plus custom roles created by super admins.
+-- A profile with app_role_id set uses that custom role's capabilities;
+-- profiles.role still decides branch scope. Super admins always have every
+-- capability so they can't lock themselves out.
+--
+-- Capabilities:
+--   create_order      - create orders
+--   edit_billing      - change items, amounts or the invoice number of an order
+--   process_return    - record returns, damage and late fees
+--   override_late_fee - replace the late fee calculated from the branch policy
+--   cancel_order      - cancel orders
+--   view_reports      - open the reports screen
+--   manage_staff      - create, edit and deactivate staff accounts
+--
+-- Enforced by restrictive RLS policies and update triggers below.
+-- view_reports is UI only - reports are built from orders the user can
+-- already read. A late fee below the one calculated from the branch policy
+-- (or, without a policy, lowering the fee already charged) is an override.
+-- Database jobs such as the scheduled order auto-cancel run for whoever
+-- triggered them and set app.system_job so these checks don't apply.
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+-- 1. Roles
+CREATE TABLE IF NOT EXISTS app_roles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  key TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  description TEXT,
+  is_system BOOLEAN NOT NULL DEFAULT false,
+  permissions TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT app_roles_permissions_check CHECK (
+    permissions <@ ARRAY[
+      'create_order', 'edit_billing', 'process_return', 'override_late_fee',
+      'cancel_order', 'view_reports', 'manage_staff'
+    ]::TEXT[]
+  )
+);
+
+COMMENT ON TABLE app_roles IS 'Capabilities per role - built-in roles match profiles.role by key';
+
+-- Built-in roles start with what each role could already do
+INSERT INTO app_roles (key, name, description, is_system, permissions) VALUES
+  ('super_admin', 'Super Admin', 'All branches, every capability', true,
+    ARRAY['create_order', 'edit_billing', 'process_return', 'override_late_fee', 'cancel_order', 'view_reports', 'manage_staff']),
+  ('branch_admin', 'Branch Admin', 'Runs a branch', true,
+    ARRAY['create_order', 'edit_billing', 'process_return', 'override_late_fee', 'cancel_order', 'view_reports', 'manage_staff']),
+  ('staff', 'Staff', 'Counter staff', true,
+    ARRAY['create_order', 'edit_billing', 'process_return', 'override_late_fee', 'cancel_order'])
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS app_role_id UUID REFERENCES app_roles(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN profiles.app_role_id IS 'Custom role - NULL uses the built-in role for profiles.role';
+
+-- 2. Capability lookups (SECURITY DEFINER - no profiles RLS recursion)
+CREATE OR REPLACE FUNCTION current_permissions()
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_profile RECORD;
+  v_permissions TEXT[];
+BEGIN
+  SELECT role, app_role_id INTO v_profile FROM profiles WHERE id = auth.uid();
+
+  IF NOT FOUND THEN
+    RETURN '{}';
+  END IF;
+
+  IF v_profile.role = 'super_admin' THEN
+    RETURN ARRAY['create_order', 'edit_billing', 'process_return', 'override_late_fee', 'cancel_order', 'view_reports', 'manage_staff'];
+  END IF;
+
+  IF v_profile.app_role_id IS NOT NULL THEN
+    SELECT permissions INTO v_permissions FROM app_roles WHERE id = v_profile.app_role_id;
+  END IF;
+
+  IF v_permissions IS NULL THEN
+    SELECT permissions INTO v_permissions FROM app_roles WHERE key = v_profile.role AND is_system;
+  END IF;
+
+  RETURN COALESCE(v_permissions, '{}');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION has_permission(p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT p_permission = ANY(current_permissions());
+$$;
+
+GRANT EXECUTE ON FUNCTION current_permissions() TO authenticated;
+GRANT EXECUTE ON FUNCTION has_permission(TEXT) TO authenticated;
+
+-- Server jobs (service role), database jobs (no signed-in user) and system
+-- jobs started by a signed-in user (app.system_job) aren't subject to staff
+-- permissions
+CREATE OR REPLACE FUNCTION permission_checks_apply()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT auth.uid() IS NOT NULL
+    AND COALESCE(auth.role(), '') <> 'service_role'
+    AND COALESCE(current_setting('app.system_job', true), '') <> 'on';
+$$;
+
+-- Any signed-in user's app triggers the auto-cancel, but cancelling expired
+-- scheduled orders isn't that user's cancellation
+CREATE OR REPLACE FUNCTION auto_cancel_expired_scheduled_orders()
+RETURNS INTEGER AS $$
+DECLARE
+  cancelled_count INTEGER;
+BEGIN
+  PERFORM set_config('app.system_job', 'on', true);
+
+  UPDATE orders
+  SET status = 'cancelled'
+  WHERE status = 'scheduled'
+    AND (
+      (start_datetime IS NOT NULL AND start_datetime < NOW())
+      OR (start_date IS NOT NULL AND start_date < CURRENT_DATE)
+    );
+
+  GET DIAGNOSTICS cancelled_count = ROW_COUNT;
+
+  PERFORM set_config('app.system_job', 'off', true);
+
+  RETURN cancelled_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 3. app_roles: everyone signed in can read, only super admins change them
+ALTER TABLE app_roles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view roles" ON app_roles;
+CREATE POLICY "Authenticated users can view roles"
+  ON app_roles FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Super admins can create roles" ON app_roles;
+CREATE POLICY "Super admins can create roles"
+  ON app_roles FOR INSERT
+  TO authenticated
+  WITH CHECK (get_user_role() = 'super_admin' AND NOT is_system);
+
+-- The super admin role itself is fixed
+DROP POLICY IF EXISTS "Super admins can update roles" ON app_roles;
+CREATE POLICY "Super admins can update roles"
+  ON app_roles FOR UPDATE
+  TO authenticated
+  USING (get_user_role() = 'super_admin' AND key <> 'super_admin')
+  WITH CHECK (get_user_role() = 'super_admin' AND key <> 'super_admin');
+
+DROP POLICY IF EXISTS "Super admins can delete custom roles" ON app_roles;
+CREATE POLICY "Super admins can delete custom roles"
+  ON app_roles FOR DELETE
+  TO authenticated
+  USING (get_user_role() = 'super_admin' AND NOT is_system);
+
+CREATE OR REPLACE FUNCTION guard_app_role_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Built-in roles keep their key and stay built in
+  IF OLD.is_system THEN
+    NEW.key := OLD.key;
+    NEW.is_system := true;
+  ELSE
+    NEW.is_system := false;
+  END IF;
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_app_role_update_trigger ON app_roles;
+CREATE TRIGGER guard_app_role_update_trigger
+  BEFORE UPDATE ON app_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_app_role_update();
+
+-- 4. create_order
+DROP POLICY IF EXISTS "Creating orders requires create_order" ON orders;
+CREATE POLICY "Creating orders requires create_order"
+  ON orders AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('create_order'));
+
+-- 5. cancel_order, process_return, override_late_fee, edit_billing on order updates.
+-- A trigger rather than RLS: the capability depends on which columns change,
+-- and process_order_return_optimized is SECURITY DEFINER (skips RLS).
+
+-- Started hours/days late at p_at, as getLateUnits in lib/utils/late-fee.ts
+CREATE OR REPLACE FUNCTION late_fee_units(p_due TIMESTAMPTZ, p_at TIMESTAMPTZ, p_grace_minutes INTEGER, p_unit TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN EXTRACT(EPOCH FROM (p_at - p_due)) <= p_grace_minutes * 60 THEN 0
+    ELSE CEIL(EXTRACT(EPOCH FROM (p_at - p_due)) / CASE WHEN p_unit = 'hour' THEN 3600 ELSE 86400 END)::INTEGER
+  END;
+$$;
+
+-- Late fee the branch policy charges for an order at p_at, as calculateLateFee
+-- in lib/utils/late-fee.ts (missing items are settled through damage fees).
+-- NULL when the branch has no late fee policy.
+CREATE OR REPLACE FUNCTION calculate_order_late_fee(p_order_id UUID, p_at TIMESTAMPTZ DEFAULT NOW())
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_order RECORD;
+  v_item RECORD;
+  v_due TIMESTAMPTZ;
+  v_returned INTEGER;
+  v_per_piece NUMERIC;
+  v_total NUMERIC := 0;
+BEGIN
+  SELECT o.end_datetime, o.end_date, b.late_fee_enabled, b.late_fee_grace_minutes, b.late_fee_unit,
+    b.late_fee_rate_type, b.late_fee_rate, b.late_fee_cap
+  INTO v_order
+  FROM orders o
+  JOIN branches b ON b.id = o.branch_id
+  WHERE o.id = p_order_id;
+
+  IF NOT FOUND OR NOT v_order.late_fee_enabled THEN
+    RETURN NULL;
+  END IF;
+
+  v_due := COALESCE(v_order.end_datetime, v_order.end_date::TIMESTAMPTZ);
+
+  FOR v_item IN
+    SELECT quantity, price_per_day, returned_quantity, actual_return_date
+    FROM order_items
+    WHERE order_id = p_order_id AND return_status IS DISTINCT FROM 'missing'
+  LOOP
+    v_returned := LEAST(v_item.quantity, GREATEST(0, COALESCE(v_item.returned_quantity, 0)));
+    v_per_piece := CASE
+      WHEN v_order.late_fee_rate_type = 'fixed' THEN v_order.late_fee_rate
+      ELSE v_order.late_fee_rate / 100 * COALESCE(v_item.price_per_day, 0)
+    END;
+
+    -- Returned pieces up to their return, the rest up to p_at
+    v_total := v_total
+      + ROUND(v_per_piece * v_returned * late_fee_units(
+          v_due, LEAST(COALESCE(v_item.actual_return_date, p_at), p_at), v_order.late_fee_grace_minutes, v_order.late_fee_unit
+        ), 2)
+      + ROUND(v_per_piece * (v_item.quantity - v_returned) * late_fee_units(
+          v_due, p_at, v_order.late_fee_grace_minutes, v_order.late_fee_unit
+        ), 2);
+  END LOOP;
+
+  RETURN LEAST(v_total, COALESCE(v_order.late_fee_cap, v_total));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION calculate_order_late_fee(UUID, TIMESTAMPTZ) TO authenticated;
+
+CREATE OR REPLACE FUNCTION enforce_order_permissions()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_expected_late_fee NUMERIC;
+BEGIN
+  IF NOT permission_checks_apply() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    IF NOT has_permission('cancel_order') THEN
+      RAISE EXCEPTION 'You do not have permission to cancel orders';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Returns also change the total (late fee and damage are added to it)
+  IF NEW.late_fee IS DISTINCT FROM OLD.late_fee
+    OR NEW.damage_fee_total IS DISTINCT FROM OLD.damage_fee_total
+    OR (NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('completed', 'partially_returned', 'flagged')) THEN
+    IF NOT has_permission('process_return') THEN
+      RAISE EXCEPTION 'You do not have permission to process returns';
+    END IF;
+
+    -- The return screen calculated its fee a little earlier, so compare
+    -- against the fee from 15 minutes ago
+    IF NEW.late_fee IS DISTINCT FROM OLD.late_fee AND NOT has_permission('override_late_fee') THEN
+      v_expected_late_fee := COALESCE(
+        calculate_order_late_fee(NEW.id, NOW() - INTERVAL '15 minutes'),
+        OLD.late_fee,
+        0
+      );
+      IF COALESCE(NEW.late_fee, 0) < v_expected_late_fee THEN
+        RAISE EXCEPTION 'You do not have permission to override late fees';
+      END IF;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.total_amount IS DISTINCT FROM OLD.total_amount
+    OR NEW.subtotal IS DISTINCT FROM OLD.subtotal
+    OR NEW.gst_amount IS DISTINCT FROM OLD.gst_amount
+    OR NEW.invoice_number IS DISTINCT FROM OLD.invoice_number THEN
+    IF NOT has_permission('edit_billing') THEN
+      RAISE EXCEPTION 'You do not have permission to edit order billing';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_order_permissions_trigger ON orders;
+CREATE TRIGGER enforce_order_permissions_trigger
+  BEFORE UPDATE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_order_permissions();
+
+-- Return fields on items; changing or removing items is editing the order's
+-- billing
+CREATE OR REPLACE FUNCTION enforce_order_item_permissions()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT permission_checks_apply() THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (
+    NEW.return_status IS DISTINCT FROM OLD.return_status
+    OR NEW.returned_quantity IS DISTINCT FROM OLD.returned_quantity
+    OR NEW.damage_fee IS DISTINCT FROM OLD.damage_fee
+  ) THEN
+    IF NOT has_permission('process_return') THEN
+      RAISE EXCEPTION 'You do not have permission to process returns';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NOT has_permission('edit_billing') THEN
+    RAISE EXCEPTION 'You do not have permission to edit order items';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_order_item_permissions_trigger ON order_items;
+CREATE TRIGGER enforce_order_item_permissions_trigger
+  BEFORE UPDATE OR DELETE ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_order_item_permissions();
+
+-- 6. override_late_fee: the timeline entry for an override, as well as the
+-- late fee itself (enforce_order_permissions above)
+DROP POLICY IF EXISTS "Late fee overrides require override_late_fee" ON order_return_audit;
+CREATE POLICY "Late fee overrides require override_late_fee"
+  ON order_return_audit AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (action <> 'late_fee_overridden' OR has_permission('override_late_fee'));
+
+-- 7. manage_staff: other people's profiles, and anyone's role or access
+DROP POLICY IF EXISTS "Creating profiles requires manage_staff" ON profiles;
+CREATE POLICY "Creating profiles requires manage_staff"
+  ON profiles AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('manage_staff'));
+
+DROP POLICY IF EXISTS "Updating other profiles requires manage_staff" ON profiles;
+CREATE POLICY "Updating other profiles requires manage_staff"
+  ON profiles AS RESTRICTIVE FOR UPDATE
+  TO authenticated
+  USING (id = auth.uid() OR has_permission('manage_staff'));
+
+DROP POLICY IF EXISTS "Deleting profiles requires manage_staff" ON profiles;
+CREATE POLICY "Deleting profiles requires manage_staff"
+  ON profiles AS RESTRICTIVE FOR DELETE
+  TO authenticated
+  USING (has_permission('manage_staff'));
+
+CREATE OR REPLACE FUNCTION guard_profile_access_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT permission_checks_apply() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.app_role_id IS DISTINCT FROM OLD.app_role_id
+    OR NEW.branch_id IS DISTINCT FROM OLD.branch_id
+    OR NEW.is_active IS DISTINCT FROM OLD.is_active THEN
+    IF NOT has_permission('manage_staff') THEN
+      RAISE EXCEPTION 'You do not have permission to change staff roles or access';
+    END IF;
+    IF get_user_role() <> 'super_admin' THEN
+      IF NEW.id = auth.uid() THEN
+        RAISE EXCEPTION 'You cannot change your own role or access';
+      END IF;
+      -- Staff given manage_staff can't hand out more than they have
+      IF NEW.role = 'super_admin' AND OLD.role IS DISTINCT FROM 'super_admin' THEN
+        RAISE EXCEPTION 'Only super admins can make someone a super admin';
+      END IF;
+      IF NEW.role = 'branch_admin' AND OLD.role IS DISTINCT FROM 'branch_admin' AND get_user_role() <> 'branch_admin' THEN
+        RAISE EXCEPTION 'Only admins can make someone a branch admin';
+      END IF;
+      -- Custom roles too (clearing one falls back to the built-in role)
+      IF (NEW.app_role_id IS DISTINCT FROM OLD.app_role_id OR NEW.role IS DISTINCT FROM OLD.role)
+        AND NOT COALESCE(
+          (SELECT permissions FROM app_roles WHERE id = NEW.app_role_id),
+          (SELECT permissions FROM app_roles WHERE key = NEW.role AND is_system),
+          '{}'
+        ) <@ current_permissions() THEN
+        RAISE EXCEPTION 'You can only give someone a role with permissions you have yourself';
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_profile_access_changes_trigger ON profiles;
+CREATE TRIGGER guard_profile_access_changes_trigger
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_profile_access_changes();
@@ -0,0 +1,62 @@
+-- ============================================
+-- Security deposits
+-- Each order carries a refundable deposit amount agreed at booking.
+-- Money movements against it are kept in a ledger:
+--   collected - deposit received from the customer
+--   deducted  - kept by the shop for damage or late fees
+--   refunded  - returned to the customer
+-- Deposit held = collected - deducted - refunded.
+-- The deposit is NOT part of orders.total_amount.
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+-- Step 1: Deposit amount on orders
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS deposit_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (deposit_amount >= 0);
+
+COMMENT ON COLUMN orders.deposit_amount IS 'Refundable security deposit agreed for this order. Not included in total_amount.';
+
+-- Step 2: Deposit ledger
+CREATE TABLE IF NOT EXISTS deposit_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  branch_id UUID NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('collected', 'deducted', 'refunded')),
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  reason TEXT,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deposit_transactions_order_id ON deposit_transactions(order_id);
+CREATE INDEX IF NOT EXISTS idx_deposit_transactions_branch_created ON deposit_transactions(branch_id, created_at);
+
+-- Step 3: RLS - branch users work with their own branch, super admins all branches.
+-- The ledger is append-only: entries are never updated or deleted from the app.
+ALTER TABLE deposit_transactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view deposit transactions in own branch" ON deposit_transactions;
+CREATE POLICY "Users can view deposit transactions in own branch"
+  ON deposit_transactions FOR SELECT
+  USING (
+    branch_id = (SELECT branch_id FROM profiles WHERE profiles.id = auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can record deposit transactions in own branch" ON deposit_transactions;
+CREATE POLICY "Users can record deposit transactions in own branch"
+  ON deposit_transactions FOR INSERT
+  WITH CHECK (
+    branch_id = (SELECT branch_id FROM profiles WHERE profiles.id = auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+COMMENT ON TABLE deposit_transactions IS 'Append-only ledger of security deposit collections, deductions and refunds per order';
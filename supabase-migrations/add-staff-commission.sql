@@ -0,0 +1,32 @@
+-- ============================================
+-- Staff commission rule per branch, for the staff performance report
+-- commission_type (NULL = no commission):
+--   percent_of_rent - commission_rate % of the rent (subtotal, before GST
+--                     and late/damage fees) of each order the staff booked
+--   per_order       - commission_rate ₹ for each order the staff booked
+-- Cancelled orders earn nothing. The report reads orders.staff_id for
+-- bookings and order_return_audit for returns, waivers and cancellations;
+-- the indexes below keep its month-by-month queries fast. Waivers carry the
+-- amount waived and, when a branch admin approved one, the staff member who
+-- asked for it - the waiver counts for them, not the approver.
+-- Run this in Supabase SQL Editor
+-- ============================================
+
+ALTER TABLE branches
+ADD COLUMN IF NOT EXISTS commission_type TEXT
+  CHECK (commission_type IS NULL OR commission_type IN ('percent_of_rent', 'per_order')),
+ADD COLUMN IF NOT EXISTS commission_rate NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (commission_rate >= 0);
+
+COMMENT ON COLUMN branches.commission_type IS 'percent_of_rent or per_order (NULL = no staff commission)';
+COMMENT ON COLUMN branches.commission_rate IS '% of rent, or ₹ per order, depending on commission_type';
+
+CREATE INDEX IF NOT EXISTS idx_orders_branch_created_at ON orders(branch_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_order_return_audit_action_created_at ON order_return_audit(action, created_at);
+
+-- Late fee waivers (late_fee_overridden) on the timeline
+ALTER TABLE order_return_audit
+ADD COLUMN IF NOT EXISTS waived_amount NUMERIC(10, 2) CHECK (waived_amount IS NULL OR waived_amount >= 0),
+ADD COLUMN IF NOT EXISTS requested_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN order_return_audit.waived_amount IS 'Late fee waived - calculated fee less the fee charged (late_fee_overridden only)';
+COMMENT ON COLUMN order_return_audit.requested_by IS 'Staff member who asked for an approved change; user_id is the approver (NULL = user_id made it)';